@@ -17,7 +17,7 @@ export async function loadAppModules(
   let modulesDir;
   if (appConfig.isProduction || appConfig.isStaging) {
     modulesDir = path.resolve('./build/modules');
-  } else { 
+  } else {
     modulesDir = path.resolve('./src/modules');
   }
   const files = await fs.readdir(modulesDir);
@@ -30,11 +30,16 @@ export async function loadAppModules(
     const modulePath = `../modules/${file}/index.js`;
     const moduleExports = await import(modulePath);
 
-    const controllerExportKey = `${file}ModuleControllers`;
-    const validatorExportKey = `${file}ModuleValidators`;
-    const containerModulesKey = `${file}ContainerModules`;
+    // Directory names are kebab-case (e.g. peer-review), export names camelCase
+    const exportName = file.replace(/-([a-z])/g, (_, c: string) =>
+      c.toUpperCase(),
+    );
 
-    const setupFunctionKey = `setup${file[0].toUpperCase()}${file.slice(
+    const controllerExportKey = `${exportName}ModuleControllers`;
+    const validatorExportKey = `${exportName}ModuleValidators`;
+    const containerModulesKey = `${exportName}ContainerModules`;
+
+    const setupFunctionKey = `setup${exportName[0].toUpperCase()}${exportName.slice(
       1,
     )}Container`;
 
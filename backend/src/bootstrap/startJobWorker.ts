@@ -0,0 +1,62 @@
+import {Container} from 'inversify';
+import {sharedContainerModule} from '#root/container.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {
+  JobWorker,
+  ReviewDeadlineScheduler,
+  TrashPurgeScheduler,
+} from '#root/shared/jobs/index.js';
+import {ReviewerAssignmentService} from '#root/shared/reviewer-assignment-service.js';
+import {reviewConfig} from '#root/config/review.js';
+import {trashConfig} from '#root/config/trash.js';
+import {logger} from '#root/shared/logging/index.js';
+
+/**
+ * Backfills missing reviewer profiles, then starts the job worker loop together
+ * with the review deadline check and the trash purge. Stops them gracefully on
+ * SIGINT/SIGTERM, letting the work in progress finish before the process exits.
+ */
+export async function startJobWorker(): Promise<JobWorker> {
+  const container = new Container();
+  await container.load(sharedContainerModule);
+
+  const {insertedCount} = await container
+    .get<ReviewerAssignmentService>(GLOBAL_TYPES.ReviewerAssignmentService)
+    .syncExpertProfiles();
+  if (insertedCount > 0) {
+    logger.info('Created missing reviewer profiles', {insertedCount});
+  }
+
+  const worker = container.get<JobWorker>(GLOBAL_TYPES.JobWorker);
+  worker.start();
+
+  const deadlineScheduler = container.get<ReviewDeadlineScheduler>(
+    GLOBAL_TYPES.ReviewDeadlineScheduler,
+  );
+  if (reviewConfig.deadlines.enabled) {
+    deadlineScheduler.start();
+  }
+
+  const trashScheduler = container.get<TrashPurgeScheduler>(
+    GLOBAL_TYPES.TrashPurgeScheduler,
+  );
+  if (trashConfig.purgeEnabled) {
+    trashScheduler.start();
+  }
+
+  const shutdown = async () => {
+    await Promise.all([
+      worker.stop(),
+      deadlineScheduler.stop(),
+      trashScheduler.stop(),
+    ]);
+    // With the loops stopped and the connection closed the process exits on its own
+    await container.get<MongoDatabase>(GLOBAL_TYPES.Database).disconnect();
+    process.exitCode = 0;
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  return worker;
+}
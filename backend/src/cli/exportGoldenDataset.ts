@@ -0,0 +1,91 @@
+import 'reflect-metadata';
+import fs from 'fs/promises';
+import {parseArgs} from 'util';
+import {Container} from 'inversify';
+import {sharedContainerModule} from '#root/container.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {MongoDatabase} from '#shared/index.js';
+import {exportsContainerModule} from '#root/modules/exports/container.js';
+import {GoldenDatasetService} from '#root/modules/exports/services/GoldenDatasetService.js';
+import {GoldenDatasetFormat} from '#root/utils/goldenDataset.js';
+
+const USAGE = `Usage: node build/cli/exportGoldenDataset.js --out <file> [options]
+
+Writes every question with a final answer to a file for the retrieval pipeline.
+
+Options:
+  --format <jsonl|csv|text>  Output format (default: jsonl)
+  --since <date>             Only export answers finalised or edited after this time
+  --watermark-file <file>    Read --since from this file and store the new watermark
+                             in it after a successful export (incremental runs)
+  --help                     Show this message`;
+
+const FORMATS: GoldenDatasetFormat[] = ['jsonl', 'csv', 'text'];
+
+async function main(): Promise<void> {
+  const {values} = parseArgs({
+    options: {
+      format: {type: 'string', default: 'jsonl'},
+      out: {type: 'string'},
+      since: {type: 'string'},
+      'watermark-file': {type: 'string'},
+      help: {type: 'boolean', default: false},
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const format = values.format as GoldenDatasetFormat;
+  if (!values.out || !FORMATS.includes(format)) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const watermarkFile = values['watermark-file'];
+  let since = values.since;
+  if (!since && watermarkFile) {
+    since = await fs.readFile(watermarkFile, 'utf8').then(
+      text => text.trim() || undefined,
+      () => undefined, // No watermark yet: export everything
+    );
+  }
+  const sinceDate = since ? new Date(since) : undefined;
+  if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+    throw new Error(`Invalid --since date: ${since}`);
+  }
+
+  const container = new Container();
+  await container.load(sharedContainerModule, exportsContainerModule);
+  const service = container.get<GoldenDatasetService>(
+    GLOBAL_TYPES.GoldenDatasetService,
+  );
+
+  try {
+    const result = await service.exportDataset(format, sinceDate);
+    await fs.writeFile(values.out, result.content, 'utf8');
+    // The watermark is only advanced once the file is written
+    if (watermarkFile && result.watermark) {
+      await fs.writeFile(
+        watermarkFile,
+        `${result.watermark.toISOString()}\n`,
+        'utf8',
+      );
+    }
+    console.log(
+      `Exported ${result.count} question-answer pairs to ${values.out}` +
+        (result.watermark
+          ? ` (watermark ${result.watermark.toISOString()})`
+          : ''),
+    );
+  } finally {
+    await container.get<MongoDatabase>(GLOBAL_TYPES.Database).disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('Golden dataset export failed:', error);
+  process.exitCode = 1;
+});
@@ -1,7 +1,23 @@
-import { env } from '#root/utils/env.js';
+import {env} from '#root/utils/env.js';
 
 export const aiConfig = {
-    serverIP: env('AI_SERVER_IP') || 'localhost',
-    serverPort: env('AI_SERVER_PORT') || 9017,
-    proxyAddress: env('AI_PROXY_ADDRESS') || 'socks5h://localhost:1055',
+  serverIP: env('AI_SERVER_IP') || 'localhost',
+  serverPort: env('AI_SERVER_PORT') || 9017,
+  proxyAddress: env('AI_PROXY_ADDRESS') || 'socks5h://localhost:1055',
+  useProxy: env('AI_USE_PROXY') === 'true',
+  requestTimeout: Number(env('AI_REQUEST_TIMEOUT')) || 60000,
+  // Question generation: 'ai-server' calls the AI server, 'stub' runs locally without it
+  questionGenerator: (env('QUESTION_GENERATOR') || 'ai-server') as
+    | 'ai-server'
+    | 'stub',
+  questionPromptVersion: env('QUESTION_PROMPT_VERSION') || 'agri-questions-v1',
+  maxGeneratedQuestions: Number(env('MAX_GENERATED_QUESTIONS')) || 5,
+  // Audio transcription: 'ai-server' sends recordings to the AI server, 'stub' runs locally without it
+  transcriber: (env('TRANSCRIBER') || 'ai-server') as 'ai-server' | 'stub',
+  // Translation of questions and answers: 'ai-server' calls the AI server, 'stub' runs locally without it
+  translator: (env('TRANSLATOR') || 'ai-server') as 'ai-server' | 'stub',
+  // Answer similarity: 'tfidf' runs locally, 'ai-server' compares AI server embeddings
+  similarityScorer: (env('SIMILARITY_SCORER') || 'tfidf') as
+    | 'tfidf'
+    | 'ai-server',
 };
@@ -0,0 +1,6 @@
+import {env} from '#root/utils/env.js';
+
+export const auditConfig = {
+  // Most entries one CSV export returns, newest first; narrow the filters to reach older ones
+  exportLimit: Number(env('AUDIT_EXPORT_LIMIT')) || 10000,
+};
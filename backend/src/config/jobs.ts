@@ -0,0 +1,15 @@
+import {env} from '#root/utils/env.js';
+
+export const jobsConfig = {
+  // Run the worker loop inside the API process (APP_MODULE=worker always runs it)
+  runWorker: env('JOB_WORKER_ENABLED') !== 'false',
+  // How often an idle worker polls for new jobs
+  pollInterval: Number(env('JOB_POLL_INTERVAL_MS')) || 2000,
+  // How long a leased job stays locked before another worker may take it over
+  leaseDuration: Number(env('JOB_LEASE_MS')) || 5 * 60 * 1000,
+  // Attempts before a job is moved to the dead-letter state
+  maxAttempts: Number(env('JOB_MAX_ATTEMPTS')) || 5,
+  // Retry delay is backoffBase * 2^(attempts - 1), capped at backoffMax
+  backoffBase: Number(env('JOB_BACKOFF_BASE_MS')) || 5000,
+  backoffMax: Number(env('JOB_BACKOFF_MAX_MS')) || 10 * 60 * 1000,
+};
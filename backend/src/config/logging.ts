@@ -0,0 +1,16 @@
+import {env} from '#root/utils/env.js';
+
+const isDeployed = ['production', 'staging'].includes(env('NODE_ENV'));
+
+export const loggingConfig = {
+  // error | warn | info | http | debug
+  level: env('LOG_LEVEL') || (isDeployed ? 'info' : 'debug'),
+  // 'json' writes one object per line for log shipping, 'pretty' is for reading in a terminal
+  format: (env('LOG_FORMAT') || (isDeployed ? 'json' : 'pretty')) as
+    | 'json'
+    | 'pretty',
+  // Errors are also appended to this file as JSON
+  errorLogFile: env('ERROR_LOG_FILE') || 'error.log',
+  // Incoming value is reused when it looks like an ID, so calls can be traced across services
+  requestIdHeader: 'X-Request-Id',
+};
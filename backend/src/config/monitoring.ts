@@ -0,0 +1,11 @@
+import {env} from '#root/utils/env.js';
+
+export const monitoringConfig = {
+  // Readiness also requires the AI server; enable when question generation or transcription depends on it
+  checkAiServer: env('HEALTH_CHECK_AI_SERVER') === 'true',
+  // Each readiness check fails when it takes longer than this
+  checkTimeout: Number(env('HEALTH_CHECK_TIMEOUT_MS')) || 3000,
+  metricsEnabled: env('METRICS_ENABLED') !== 'false',
+  // When set, scrapers must send it as a bearer token
+  metricsToken: env('METRICS_TOKEN') || undefined,
+};
@@ -0,0 +1,20 @@
+import {env} from '#root/utils/env.js';
+
+export const questionConfig = {
+  duplicates: {
+    // Compare every inserted question with existing ones and link near-duplicates
+    enabled: env('DUPLICATE_DETECTION_ENABLED') !== 'false',
+    // Similarity (0-1) at or above which a new question is linked to an existing one
+    threshold: Number(env('DUPLICATE_QUESTION_THRESHOLD')) || 0.8,
+    // Best keyword matches each new question is compared with
+    candidateLimit: Number(env('DUPLICATE_QUESTION_CANDIDATES')) || 20,
+  },
+  import: {
+    // Largest CSV/JSON upload accepted by POST /questions/import
+    maxFileSize:
+      Number(env('QUESTION_IMPORT_MAX_FILE_SIZE')) || 2 * 1024 * 1024,
+    maxRows: Number(env('QUESTION_IMPORT_MAX_ROWS')) || 5000,
+    // Questions inserted per insertMany call
+    batchSize: Number(env('QUESTION_IMPORT_BATCH_SIZE')) || 500,
+  },
+};
@@ -0,0 +1,8 @@
+import {env} from '#root/utils/env.js';
+
+export const realtimeConfig = {
+  // Comment lines sent on idle event streams so proxies and load balancers keep them open
+  heartbeatInterval: Number(env('REALTIME_HEARTBEAT_MS')) || 25 * 1000,
+  // Wait before reopening the database change stream after it failed
+  retryDelay: Number(env('REALTIME_RETRY_MS')) || 30 * 1000,
+};
@@ -0,0 +1,46 @@
+import {env, envNumber, envOneOf} from '#root/utils/env.js';
+import {
+  QuestionStatus,
+  ReviewPriority,
+} from '#root/shared/interfaces/models.js';
+
+export const reviewConfig = {
+  finalAnswer: {
+    // Completed reviews an answer needs before it can be elected
+    minReviews: envNumber('FINAL_ANSWER_MIN_REVIEWS', 3),
+    // Average review score (1-5) the answer has to reach
+    minAverageScore: envNumber('FINAL_ANSWER_MIN_AVERAGE_SCORE', 3.5),
+    // Reviewer agreement (0-1, 1 = identical scores) the answer has to reach
+    minAgreement: envNumber('FINAL_ANSWER_MIN_AGREEMENT', 0.7),
+    // Similarity (0-1) to at least one answer by another expert; 0 disables the rule
+    minExpertAgreement: envNumber('FINAL_ANSWER_MIN_EXPERT_AGREEMENT', 0),
+    // Status the question moves to once a final answer is elected
+    questionStatus: envOneOf<Extract<QuestionStatus, 'answered' | 'closed'>>(
+      'FINAL_ANSWER_QUESTION_STATUS',
+      ['answered', 'closed'],
+      'closed',
+    ),
+  },
+  deadlines: {
+    // Run the overdue check next to the job worker
+    enabled: env('REVIEW_DEADLINES_ENABLED') !== 'false',
+    // How often assignments past their due date are looked for
+    checkInterval:
+      Number(env('REVIEW_DEADLINE_CHECK_INTERVAL_MS')) || 15 * 60 * 1000,
+    // Reviewers are reminded this long before an assignment is due
+    reminderBefore:
+      Number(env('REVIEW_DEADLINE_REMINDER_MS')) || 24 * 60 * 60 * 1000,
+    // What happens when a reviewer misses the deadline, by the priority of the missed assignment:
+    // the replacement gets `escalateTo` priority (and its shorter review window), and after
+    // `maxReassignments` missed deadlines the answer is left for an admin to handle
+    escalation: {
+      low: {escalateTo: 'medium', maxReassignments: 3},
+      medium: {escalateTo: 'high', maxReassignments: 3},
+      high: {escalateTo: 'urgent', maxReassignments: 2},
+      urgent: {escalateTo: 'urgent', maxReassignments: 2},
+    } as Record<
+      ReviewPriority,
+      {escalateTo: ReviewPriority; maxReassignments: number}
+    >,
+  },
+};
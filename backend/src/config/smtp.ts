@@ -1,6 +1,13 @@
 import {env} from '#root/utils/env.js';
 
 export const smtpConfig = {
+  // 'smtp' sends through the server below, 'memory' keeps messages in the process (tests, local development)
+  transport: (env('MAIL_TRANSPORT') || 'smtp') as 'smtp' | 'memory',
+  host: env('SMTP_HOST') || 'localhost',
+  port: Number(env('SMTP_PORT')) || 587,
+  // true for implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  secure: env('SMTP_SECURE') === 'true',
+  from: env('SMTP_FROM') || 'Annam <no-reply@example.com>',
   auth: {
     user: env('SMTP_USER') || 'user@example.com',
     pass: env('SMTP_PASS') || 'password',
@@ -7,6 +7,13 @@ export const storageConfig = {
     facesBucketName: env('GOOGLE_FACES_BUCKET') || 'vibe-faces-data',
     aiServerBucketName: env('GOOGLE_AI_SERVER_BUCKET') || 'vibe-aiserver-data',
   },
+  // Recordings uploaded to POST /context/audio; 'local' writes to disk, 'gcs' to the bucket
+  audio: {
+    provider: (env('AUDIO_STORAGE') || 'local') as 'local' | 'gcs',
+    localDir: env('AUDIO_STORAGE_DIR') || './uploads/audio',
+    bucketName: env('GOOGLE_AUDIO_BUCKET') || 'agriai-audio-data',
+    maxFileSize: Number(env('AUDIO_MAX_FILE_SIZE')) || 25 * 1024 * 1024,
+  },
   encryption: {
     mediaEncryptionKey: env('MEDIA_ENCRYPTION_KEY'),
   },
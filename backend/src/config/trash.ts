@@ -0,0 +1,10 @@
+import {env} from '#root/utils/env.js';
+
+export const trashConfig = {
+  // Run the purge next to the job worker
+  purgeEnabled: env('TRASH_PURGE_ENABLED') !== 'false',
+  // How long deleted questions, answers and contexts can be restored before they are purged
+  retention: Number(env('TRASH_RETENTION_MS')) || 30 * 24 * 60 * 60 * 1000,
+  // How often the trash is checked for documents past the retention period
+  purgeInterval: Number(env('TRASH_PURGE_INTERVAL_MS')) || 60 * 60 * 1000,
+};
@@ -6,16 +6,66 @@ import {
 } from '#shared/index.js';
 import {GLOBAL_TYPES} from './types.js';
 import {dbConfig} from './config/db.js';
-import { FirebaseAuthService } from './modules/auth/services/FirebaseAuthService.js';
+import {FirebaseAuthService} from './modules/auth/services/FirebaseAuthService.js';
 import {
   AnswerRepository,
+  AnswerRevisionRepository,
+  AnswerSimilarityRepository,
+  AuditLogRepository,
+  BlindReviewRepository,
   ContextRepository,
+  JobRepository,
+  NotificationRepository,
   PeerReviewRepository,
   QuestionRepository,
   ReviewerAssignmentRepository,
+  ReviewerProfileRepository,
+  TranslationRepository,
   UserRepository,
 } from './shared/database/providers/mongo/repositories/index.js';
-
+import {ReviewerAssignmentService} from './shared/reviewer-assignment-service.js';
+import {PeerReviewService} from './shared/peer-review-service.js';
+import {SimilarityService} from './shared/similarity-service.js';
+import {TranslationService} from './shared/translation-service.js';
+import {NotificationService} from './shared/notification-service.js';
+import {QuestionLifecycleService} from './shared/question-lifecycle-service.js';
+import {AuditService} from './shared/audit-service.js';
+import {TrashService} from './shared/trash-service.js';
+import {
+  AiServerSimilarityScorer,
+  TfIdfSimilarityScorer,
+} from './shared/similarity-scorers/index.js';
+import {
+  AiServerQuestionGenerator,
+  StubQuestionGenerator,
+} from './shared/question-generators/index.js';
+import {
+  AiServerTranscriber,
+  StubTranscriber,
+} from './shared/transcribers/index.js';
+import {
+  AiServerTranslator,
+  StubTranslator,
+} from './shared/translators/index.js';
+import {GcsFileStorage, LocalFileStorage} from './shared/storage/index.js';
+import {InMemoryMailTransport, SmtpMailTransport} from './shared/mail/index.js';
+import {logger} from './shared/logging/index.js';
+import {MonitoringService} from './shared/monitoring/index.js';
+import {RealtimeHub} from './shared/realtime/index.js';
+import {aiConfig} from './config/ai.js';
+import {storageConfig} from './config/storage.js';
+import {smtpConfig} from './config/smtp.js';
+import {
+  AssignReviewersJobHandler,
+  GenerateQuestionsJobHandler,
+  JobQueueService,
+  JobWorker,
+  ReviewDeadlineScheduler,
+  ScoreSimilarityJobHandler,
+  SendNotificationJobHandler,
+  TranscribeAudioJobHandler,
+  TrashPurgeScheduler,
+} from './shared/jobs/index.js';
 
 export const sharedContainerModule = new ContainerModule(options => {
   const uri = dbConfig.url;
@@ -31,14 +81,166 @@ export const sharedContainerModule = new ContainerModule(options => {
   options.bind(GLOBAL_TYPES.Database).to(MongoDatabase).inSingletonScope();
 
   // Repositories
-  options.bind(GLOBAL_TYPES.AnswerRepository).to(AnswerRepository).inSingletonScope();
-  options.bind(GLOBAL_TYPES.ContextRepository).to(ContextRepository).inSingletonScope();
-  options.bind(GLOBAL_TYPES.PeerReviewRepository).to(PeerReviewRepository).inSingletonScope();
-  options.bind(GLOBAL_TYPES.QuestionRepository).to(QuestionRepository).inSingletonScope();
-  options.bind(GLOBAL_TYPES.ReviewerAssignmentRepository).to(ReviewerAssignmentRepository).inSingletonScope();
-  options.bind(GLOBAL_TYPES.UserRepository).to(UserRepository).inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.AnswerRepository)
+    .to(AnswerRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.AnswerRevisionRepository)
+    .to(AnswerRevisionRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.AnswerSimilarityRepository)
+    .to(AnswerSimilarityRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.BlindReviewRepository)
+    .to(BlindReviewRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.ContextRepository)
+    .to(ContextRepository)
+    .inSingletonScope();
+  options.bind(GLOBAL_TYPES.JobRepository).to(JobRepository).inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.NotificationRepository)
+    .to(NotificationRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.AuditLogRepository)
+    .to(AuditLogRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.PeerReviewRepository)
+    .to(PeerReviewRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.QuestionRepository)
+    .to(QuestionRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.ReviewerAssignmentRepository)
+    .to(ReviewerAssignmentRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.ReviewerProfileRepository)
+    .to(ReviewerProfileRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.TranslationRepository)
+    .to(TranslationRepository)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.UserRepository)
+    .to(UserRepository)
+    .inSingletonScope();
+
+  // Services
+  options
+    .bind(GLOBAL_TYPES.ReviewerAssignmentService)
+    .to(ReviewerAssignmentService)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.PeerReviewService)
+    .to(PeerReviewService)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.QuestionLifecycleService)
+    .to(QuestionLifecycleService)
+    .inSingletonScope();
+  options.bind(GLOBAL_TYPES.AuditService).to(AuditService).inSingletonScope();
+  options.bind(GLOBAL_TYPES.TrashService).to(TrashService).inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.QuestionGenerator)
+    .to(
+      aiConfig.questionGenerator === 'stub'
+        ? StubQuestionGenerator
+        : AiServerQuestionGenerator,
+    )
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.Transcriber)
+    .to(aiConfig.transcriber === 'stub' ? StubTranscriber : AiServerTranscriber)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.TranslationService)
+    .to(TranslationService)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.Translator)
+    .to(aiConfig.translator === 'stub' ? StubTranslator : AiServerTranslator)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.FileStorage)
+    .to(
+      storageConfig.audio.provider === 'gcs'
+        ? GcsFileStorage
+        : LocalFileStorage,
+    )
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.NotificationService)
+    .to(NotificationService)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.MailTransport)
+    .to(
+      smtpConfig.transport === 'memory'
+        ? InMemoryMailTransport
+        : SmtpMailTransport,
+    )
+    .inSingletonScope();
+  options.bind(GLOBAL_TYPES.RealtimeHub).to(RealtimeHub).inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.SimilarityService)
+    .to(SimilarityService)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.SimilarityScorer)
+    .to(
+      aiConfig.similarityScorer === 'ai-server'
+        ? AiServerSimilarityScorer
+        : TfIdfSimilarityScorer,
+    )
+    .inSingletonScope();
+
+  // Jobs
+  options
+    .bind(GLOBAL_TYPES.JobQueueService)
+    .to(JobQueueService)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.GenerateQuestionsJobHandler)
+    .to(GenerateQuestionsJobHandler)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.AssignReviewersJobHandler)
+    .to(AssignReviewersJobHandler)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.ScoreSimilarityJobHandler)
+    .to(ScoreSimilarityJobHandler)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.TranscribeAudioJobHandler)
+    .to(TranscribeAudioJobHandler)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.SendNotificationJobHandler)
+    .to(SendNotificationJobHandler)
+    .inSingletonScope();
+  options.bind(GLOBAL_TYPES.JobWorker).to(JobWorker).inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.ReviewDeadlineScheduler)
+    .to(ReviewDeadlineScheduler)
+    .inSingletonScope();
+  options
+    .bind(GLOBAL_TYPES.TrashPurgeScheduler)
+    .to(TrashPurgeScheduler)
+    .inSingletonScope();
 
   // Other
+  options.bind(GLOBAL_TYPES.Logger).toConstantValue(logger);
   options.bind(HttpErrorHandler).toSelf().inSingletonScope();
-}); 
-
+  options.bind(MonitoringService).toSelf().inSingletonScope();
+});
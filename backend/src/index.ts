@@ -1,16 +1,28 @@
 import 'reflect-metadata';
 const NODE_ENV = process.env.NODE_ENV || 'development';
 
-console.log(`Loading Sentry for ${NODE_ENV} environment`);
 await import('./instrument.js');
 
 import * as Sentry from '@sentry/node';
 import express from 'express';
-import {useExpressServer, RoutingControllersOptions} from 'routing-controllers';
-import {appConfig} from './config/app.js';
+import {
+  useExpressServer,
+  RoutingControllersOptions,
+  getFromContainer,
+} from 'routing-controllers';
+import {appConfig, AppModule} from './config/app.js';
+import {jobsConfig} from './config/jobs.js';
+import {loggingConfig} from './config/logging.js';
 import {loggingHandler} from './shared/middleware/loggingHandler.js';
+import {logger} from './shared/logging/index.js';
+import {
+  createMonitoringRouter,
+  metricsHandler,
+  MonitoringService,
+} from './shared/monitoring/index.js';
 import {HttpErrorHandler} from './shared/index.js';
 import {loadAppModules} from './bootstrap/loadModules.js';
+import {startJobWorker} from './bootstrap/startJobWorker.js';
 import {printStartupSummary} from './utils/logDetails.js';
 import type {CorsOptions} from 'cors';
 import {authorizationChecker} from './shared/functions/authorizationChecker.js';
@@ -18,57 +30,75 @@ import {currentUserChecker} from './shared/functions/currentUserChecker.js';
 import path from 'path';
 import {fileURLToPath} from 'url';
 
-const app = express();
+// APP_MODULE=worker runs only the job worker, without the HTTP server
+if (appConfig.module.toLowerCase() === AppModule.Worker) {
+  await startJobWorker();
+} else {
+  const app = express();
 
-app.use(loggingHandler);
+  // Probes and scrapes are neither logged nor measured
+  app.use(createMonitoringRouter());
+  app.use(metricsHandler);
+  app.use(loggingHandler);
 
-const {controllers, validators} = await loadAppModules(
-  appConfig.module.toLowerCase(),
-);
+  const {controllers, validators} = await loadAppModules(
+    appConfig.module.toLowerCase(),
+  );
+
+  const corsOptions: CorsOptions = {
+    origin: appConfig.origins,
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Requested-With',
+      loggingConfig.requestIdHeader,
+    ],
+    exposedHeaders: [loggingConfig.requestIdHeader],
+    credentials: true,
+    optionsSuccessStatus: 204,
+  };
 
-const corsOptions: CorsOptions = {
-  origin: appConfig.origins,
-  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-  credentials: true,
-  optionsSuccessStatus: 204,
-};
+  const moduleOptions: RoutingControllersOptions = {
+    controllers: controllers,
+    middlewares: [HttpErrorHandler],
+    routePrefix: appConfig.routePrefix,
+    authorizationChecker: authorizationChecker,
+    currentUserChecker,
+    defaultErrorHandler: true,
+    development: appConfig.isDevelopment,
+    validation: true,
+    cors: corsOptions,
+  };
 
-const moduleOptions: RoutingControllersOptions = {
-  controllers: controllers,
-  middlewares: [HttpErrorHandler],
-  routePrefix: appConfig.routePrefix,
-  authorizationChecker: authorizationChecker,
-  currentUserChecker,
-  defaultErrorHandler: true,
-  development: appConfig.isDevelopment,
-  validation: true,
-  cors: corsOptions,
-};
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = path.dirname(__filename);
+  const frontendPath = path.join(__dirname, '../../frontend/dist');
+  app.use(express.static(frontendPath));
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const frontendPath = path.join(__dirname, '../../frontend/dist');
-app.use(express.static(frontendPath));
+  app.use((req, res, next) => {
+    if (req.method === 'GET' && !req.path.startsWith('/api')) {
+      res.sendFile(path.join(frontendPath, 'index.html'));
+    } else {
+      next();
+    }
+  });
 
-app.use((req, res, next) => {
-  if (req.method === 'GET' && !req.path.startsWith('/api')) {
-    res.sendFile(path.join(frontendPath, 'index.html'));
-  } else {
-    next();
+  if (NODE_ENV === 'production' || NODE_ENV === 'staging') {
+    logger.info('Setting up Sentry error handling', {environment: NODE_ENV});
+    Sentry.setupExpressErrorHandler(app);
   }
-});
 
-if (NODE_ENV === 'production' || NODE_ENV === 'staging') {
-  console.log(
-    'Setting up Sentry error handling - test for production and staging environment',
-  );
-  Sentry.setupExpressErrorHandler(app);
-}
+  // Start server
+  useExpressServer(app, moduleOptions);
 
-// Start server
-useExpressServer(app, moduleOptions);
+  app.listen(appConfig.port, () => {
+    printStartupSummary();
+    // Surface a bad database URL at startup rather than on the first request
+    void getFromContainer(MonitoringService).checkReadiness();
+  });
 
-app.listen(appConfig.port, () => {
-  printStartupSummary();
-});
+  if (jobsConfig.runWorker) {
+    await startJobWorker();
+  }
+}
@@ -0,0 +1,21 @@
+import {AbilityBuilder, createMongoAbility, MongoAbility} from '@casl/ability';
+import {AuthenticatedUser} from '#root/shared/functions/AbilityDecorator.js';
+
+export type AuditActions = 'manage' | 'read';
+
+export type AuditSubjects = 'AuditLog' | 'all';
+
+export type AuditAbility = MongoAbility<[AuditActions, AuditSubjects]>;
+
+/**
+ * Abilities for the audit log: only admins can read it.
+ */
+export function getAuditAbility(user: AuthenticatedUser): AuditAbility {
+  const {can, build} = new AbilityBuilder<AuditAbility>(createMongoAbility);
+
+  if (user.globalRole === 'admin') {
+    can('manage', 'all');
+  }
+
+  return build();
+}
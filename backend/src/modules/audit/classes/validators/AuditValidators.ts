@@ -0,0 +1,240 @@
+import {Type} from 'class-transformer';
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {JSONSchema} from 'class-validator-jsonschema';
+import {AUDIT_ACTIONS, AUDIT_ENTITY_TYPES} from '#root/shared/audit-service.js';
+
+const ACTOR_ROLES = ['admin', 'expert', 'user', 'system'];
+
+class ListAuditLogQuery {
+  @JSONSchema({
+    description: 'Only return changes made by this user',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsMongoId()
+  actorId?: string;
+
+  @JSONSchema({
+    description:
+      'Only return changes made by users with this role, or automatic ones with `system`',
+    example: 'admin',
+    type: 'string',
+    enum: ACTOR_ROLES,
+  })
+  @IsOptional()
+  @IsIn(ACTOR_ROLES)
+  actorRole?: 'admin' | 'expert' | 'user' | 'system'; // Spelled out so query parsing sees a string type
+
+  @JSONSchema({
+    description: 'Only return changes of this kind',
+    example: 'delete',
+    type: 'string',
+    enum: AUDIT_ACTIONS,
+  })
+  @IsOptional()
+  @IsIn(AUDIT_ACTIONS)
+  action?:
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'status_change'
+    | 'merge'
+    | 'elect_final'
+    | 'submit'
+    | 'respond'
+    | 'restore'
+    | 'purge';
+
+  @JSONSchema({
+    description: 'Only return changes to this kind of record',
+    example: 'question',
+    type: 'string',
+    enum: AUDIT_ENTITY_TYPES,
+  })
+  @IsOptional()
+  @IsIn(AUDIT_ENTITY_TYPES)
+  entityType?:
+    | 'question'
+    | 'answer'
+    | 'context'
+    | 'user'
+    | 'peer_review'
+    | 'reviewer_assignment'
+    | 'reviewer_profile'
+    | 'blind_ranking';
+
+  @JSONSchema({
+    description: 'Only return changes to this record',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsMongoId()
+  entityId?: string;
+
+  @JSONSchema({
+    description:
+      'Only return changes made while handling this request (X-Request-Id)',
+    example: '1b4e28ba-2fa1-11d2-883f-0016d3cca427',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  requestId?: string;
+
+  @JSONSchema({
+    description: 'Only return changes made at or after this time',
+    example: '2025-01-01T00:00:00.000Z',
+    type: 'string',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @JSONSchema({
+    description: 'Only return changes made at or before this time',
+    example: '2025-12-31T23:59:59.999Z',
+    type: 'string',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @JSONSchema({
+    description:
+      'Response format; csv downloads every matching entry up to the export limit',
+    example: 'json',
+    type: 'string',
+    enum: ['json', 'csv'],
+  })
+  @IsOptional()
+  @IsIn(['json', 'csv'])
+  format?: 'json' | 'csv';
+
+  @JSONSchema({
+    description: 'Page number (1-based); ignored for csv',
+    example: 1,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @JSONSchema({
+    description: 'Entries per page; ignored for csv',
+    example: 50,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+class AuditEntryResponse {
+  @JSONSchema({description: 'ID of the entry', type: 'string'})
+  id: string;
+
+  @JSONSchema({
+    description: 'User who made the change; absent for automatic changes',
+    type: 'string',
+  })
+  actorId?: string;
+
+  @JSONSchema({
+    description: 'Role of the user, or `system` for automatic changes',
+    type: 'string',
+  })
+  actorRole: string;
+
+  @JSONSchema({
+    description: 'Kind of change',
+    type: 'string',
+    enum: AUDIT_ACTIONS,
+  })
+  action: string;
+
+  @JSONSchema({
+    description: 'Kind of record changed',
+    type: 'string',
+    enum: AUDIT_ENTITY_TYPES,
+  })
+  entityType: string;
+
+  @JSONSchema({description: 'ID of the record changed', type: 'string'})
+  entityId: string;
+
+  @JSONSchema({
+    description: 'The changed fields before the change; absent for creations',
+    type: 'object',
+  })
+  before?: Record<string, unknown>;
+
+  @JSONSchema({
+    description: 'The changed fields after the change; absent for deletions',
+    type: 'object',
+  })
+  after?: Record<string, unknown>;
+
+  @JSONSchema({
+    description: 'Request the change was made in (X-Request-Id)',
+    type: 'string',
+  })
+  requestId?: string;
+
+  @JSONSchema({
+    description: 'When the change was made',
+    type: 'string',
+    format: 'date-time',
+  })
+  createdAt: string;
+}
+
+class AuditLogResponse {
+  @JSONSchema({
+    description: 'Matching entries on the requested page, newest first',
+    type: 'array',
+  })
+  @Type(() => AuditEntryResponse)
+  entries: AuditEntryResponse[];
+
+  @JSONSchema({
+    description: 'Number of entries matching the filters',
+    type: 'integer',
+  })
+  total: number;
+
+  @JSONSchema({description: 'Current page', type: 'integer'})
+  page: number;
+
+  @JSONSchema({description: 'Entries per page', type: 'integer'})
+  limit: number;
+}
+
+export const AUDIT_VALIDATORS = [
+  ListAuditLogQuery,
+  AuditEntryResponse,
+  AuditLogResponse,
+];
+
+export {ListAuditLogQuery, AuditEntryResponse, AuditLogResponse};
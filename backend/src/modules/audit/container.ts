@@ -0,0 +1,15 @@
+import {ContainerModule} from 'inversify';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {AuditController} from './controllers/AuditController.js';
+import {AuditLogService} from './services/AuditLogService.js';
+
+export const auditContainerModule = new ContainerModule(options => {
+  // Controllers
+  options.bind(AuditController).toSelf().inSingletonScope();
+
+  // Services
+  options
+    .bind(GLOBAL_TYPES.AuditLogService)
+    .to(AuditLogService)
+    .inSingletonScope();
+});
@@ -0,0 +1,70 @@
+import 'reflect-metadata';
+import {
+  JsonController,
+  Get,
+  Authorized,
+  QueryParams,
+  Res,
+  ForbiddenError,
+} from 'routing-controllers';
+import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
+import {inject, injectable} from 'inversify';
+import type {Response} from 'express';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
+import {
+  Ability,
+  AbilityContext,
+} from '#root/shared/functions/AbilityDecorator.js';
+import {AuditAbility, getAuditAbility} from '../abilities/auditAbilities.js';
+import {AuditLogService} from '../services/AuditLogService.js';
+import {
+  AuditLogResponse,
+  ListAuditLogQuery,
+} from '../classes/validators/AuditValidators.js';
+
+@OpenAPI({
+  tags: ['audit'],
+  description: 'Who changed what, and when',
+})
+@injectable()
+@JsonController('/audit')
+export class AuditController {
+  constructor(
+    @inject(GLOBAL_TYPES.AuditLogService)
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  @Get('/')
+  @Authorized()
+  @OpenAPI({
+    summary: 'List audit log entries',
+    description:
+      'Lists changes newest first, with the changed fields before and after. With `format=csv` the matching entries are downloaded instead; X-Export-Count and X-Export-Total tell whether the export limit cut it short.',
+  })
+  @ResponseSchema(AuditLogResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async listEntries(
+    @QueryParams() query: ListAuditLogQuery,
+    @Ability(getAuditAbility) {ability}: AbilityContext<AuditAbility>,
+    @Res() res: Response,
+  ): Promise<AuditLogResponse | Response> {
+    if (ability.cannot('read', 'AuditLog')) {
+      throw new ForbiddenError('Only admins can read the audit log');
+    }
+
+    if (query.format !== 'csv') {
+      return this.auditLogService.listEntries(query);
+    }
+
+    const result = await this.auditLogService.exportEntries(query);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${result.fileName}"`,
+    );
+    res.setHeader('X-Export-Count', String(result.count));
+    res.setHeader('X-Export-Total', String(result.total));
+    return res.send(result.content);
+  }
+}
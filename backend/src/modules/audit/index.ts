@@ -0,0 +1,29 @@
+import {sharedContainerModule} from '#root/container.js';
+import {Container, ContainerModule} from 'inversify';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {useContainer} from 'routing-controllers';
+import {AuditController} from './controllers/AuditController.js';
+import {auditContainerModule} from './container.js';
+import {AUDIT_VALIDATORS} from './classes/validators/AuditValidators.js';
+
+// Export names that loadAppModules expects
+export const auditModuleControllers: Function[] = [AuditController];
+
+// Export container modules for loadAppModules
+export const auditContainerModules: ContainerModule[] = [
+  auditContainerModule,
+  sharedContainerModule,
+];
+
+// This sets up Inversify bindings for the audit module
+export async function setupAuditContainer(): Promise<void> {
+  const container = new Container();
+  await container.load(...auditContainerModules);
+  const inversifyAdapter = new InversifyAdapter(container);
+  useContainer(inversifyAdapter);
+}
+
+export const auditModuleValidators: Function[] = [...AUDIT_VALIDATORS];
+
+// Export all the main components for external use
+export * from './controllers/AuditController.js';
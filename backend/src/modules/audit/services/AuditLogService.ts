@@ -0,0 +1,83 @@
+import {
+  AuditLogFilter,
+  IAuditLogRepository,
+} from '#root/shared/database/interfaces/IAuditLogRepository.js';
+import {IAuditEntry} from '#root/shared/interfaces/models.js';
+import {auditConfig} from '#root/config/audit.js';
+import {AuditEntryView, serializeAuditLogCsv} from '#root/utils/auditLog.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {
+  AuditLogResponse,
+  ListAuditLogQuery,
+} from '../classes/validators/AuditValidators.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const toAuditEntryView = (entry: IAuditEntry): AuditEntryView => ({
+  id: entry._id!.toString(),
+  ...(entry.actorId && {actorId: entry.actorId.toString()}),
+  actorRole: entry.actorRole,
+  action: entry.action,
+  entityType: entry.entityType,
+  entityId: entry.entityId,
+  ...(entry.before && {before: entry.before}),
+  ...(entry.after && {after: entry.after}),
+  ...(entry.requestId && {requestId: entry.requestId}),
+  createdAt: entry.createdAt.toISOString(),
+});
+
+const toFilter = (query: ListAuditLogQuery): AuditLogFilter => ({
+  actorId: query.actorId,
+  actorRole: query.actorRole,
+  action: query.action,
+  entityType: query.entityType,
+  entityId: query.entityId,
+  requestId: query.requestId,
+  from: query.from,
+  to: query.to,
+});
+
+/**
+ * Reads the audit log for admins. Entries are written by AuditService in
+ * the transaction of each change; nothing here modifies them.
+ */
+@injectable()
+export class AuditLogService {
+  constructor(
+    @inject(GLOBAL_TYPES.AuditLogRepository)
+    private readonly auditLogRepo: IAuditLogRepository,
+  ) {}
+
+  async listEntries(query: ListAuditLogQuery): Promise<AuditLogResponse> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const {entries, total} = await this.auditLogRepo.getEntries(
+      toFilter(query),
+      page,
+      limit,
+    );
+
+    return {entries: entries.map(toAuditEntryView), total, page, limit};
+  }
+
+  async exportEntries(query: ListAuditLogQuery): Promise<{
+    content: string;
+    fileName: string;
+    count: number;
+    total: number;
+  }> {
+    const {entries, total} = await this.auditLogRepo.getEntries(
+      toFilter(query),
+      1,
+      auditConfig.exportLimit,
+    );
+
+    return {
+      content: serializeAuditLogCsv(entries.map(toAuditEntryView)),
+      fileName: `audit-log-${new Date().toISOString().slice(0, 10)}.csv`,
+      count: entries.length,
+      total,
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import Express from 'express';
+import {useContainer, useExpressServer} from 'routing-controllers';
+import {Container} from 'inversify';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeAll, beforeEach, vi} from 'vitest';
+import {HttpErrorHandler} from '#shared/index.js';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {IAuditEntry, IUser, UserRole} from '#root/shared/interfaces/models.js';
+import {auditContainerModules} from '../index.js';
+import {AuditController} from '../controllers/AuditController.js';
+
+describe('Audit Controller Integration Tests', () => {
+  const appInstance = Express();
+  const adminId = new ObjectId();
+  const entry: IAuditEntry = {
+    _id: new ObjectId(),
+    actorId: adminId,
+    actorRole: 'admin',
+    action: 'status_change',
+    entityType: 'question',
+    entityId: new ObjectId().toString(),
+    before: {status: 'open'},
+    after: {status: 'closed'},
+    requestId: 'req-1',
+    createdAt: new Date('2025-03-01T10:00:00.000Z'),
+  };
+  let currentUser: IUser;
+  let app;
+
+  const signInAs = (role: UserRole) => {
+    currentUser = {
+      _id: role === 'admin' ? adminId.toString() : new ObjectId().toString(),
+      firebaseUID: `uid-${role}`,
+      email: `${role}@example.com`,
+      firstName: role,
+      role,
+    };
+  };
+
+  // The repository is stubbed so the service and CSV formatting run as they do in production
+  const auditLogRepoStub = {
+    getEntries: vi.fn(async () => ({entries: [entry], total: 1})),
+  };
+
+  beforeAll(async () => {
+    const container = new Container();
+    await container.load(...auditContainerModules);
+    (await container.rebind(GLOBAL_TYPES.AuditLogRepository)).toConstantValue(auditLogRepoStub);
+    useContainer(new InversifyAdapter(container));
+
+    app = useExpressServer(appInstance, {
+      controllers: [AuditController],
+      validation: true,
+      defaultErrorHandler: false,
+      middlewares: [HttpErrorHandler],
+      authorizationChecker: async action => {
+        action.request.user = currentUser;
+        return true;
+      },
+      currentUserChecker: async () => currentUser,
+    });
+  }, 30000);
+
+  beforeEach(() => {
+    signInAs('admin');
+    auditLogRepoStub.getEntries.mockClear();
+  });
+
+  it('should return 403 when a non-admin reads the audit log', async () => {
+    for (const role of ['user', 'expert'] as UserRole[]) {
+      signInAs(role);
+      const response = await request(app).get('/audit');
+      expect(response.status).toBe(403);
+    }
+    expect(auditLogRepoStub.getEntries).not.toHaveBeenCalled();
+  });
+
+  it('should list entries matching the filters', async () => {
+    const response = await request(app)
+      .get('/audit')
+      .query({entityType: 'question', action: 'status_change', from: '2025-01-01T00:00:00.000Z', limit: 10});
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({total: 1, page: 1, limit: 10});
+    expect(response.body.entries[0]).toMatchObject({
+      actorId: adminId.toString(),
+      action: 'status_change',
+      before: {status: 'open'},
+      after: {status: 'closed'},
+      requestId: 'req-1',
+      createdAt: '2025-03-01T10:00:00.000Z',
+    });
+    const [filter, page, limit] = auditLogRepoStub.getEntries.mock.calls[0] as any[];
+    expect(filter).toMatchObject({entityType: 'question', action: 'status_change'});
+    expect(filter.from).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+    expect([page, limit]).toEqual([1, 10]);
+  });
+
+  it('should download matching entries as CSV', async () => {
+    const response = await request(app).get('/audit').query({format: 'csv'});
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/csv');
+    expect(response.headers['content-disposition']).toMatch(/^attachment; filename="audit-log-.*\.csv"$/);
+    expect(response.headers['x-export-count']).toBe('1');
+    const [header, row] = response.text.split('\r\n');
+    expect(header).toBe('created_at,request_id,actor_id,actor_role,action,entity_type,entity_id,before,after');
+    expect(row).toContain('"{""status"":""open""}"');
+  });
+
+  it('should reject an unknown action filter', async () => {
+    const response = await request(app).get('/audit').query({action: 'hack'});
+    expect(response.status).toBe(400);
+  });
+});
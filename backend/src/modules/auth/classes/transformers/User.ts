@@ -27,6 +27,15 @@ class User implements IUser {
   @Expose()
   role: 'admin' | 'user' | 'expert';
 
+  @Expose()
+  isActive: boolean;
+
+  @Expose()
+  deactivatedAt?: Date;
+
+  @Expose()
+  createdAt?: Date;
+
   constructor(data: Partial<IUser>) {
     this._id = data?._id ? new ObjectId(data?._id) : null;
     this.firebaseUID = data?.firebaseUID;
@@ -34,6 +43,9 @@ class User implements IUser {
     this.firstName = data?.firstName;
     this.lastName = data?.lastName;
     this.role = data?.role || 'user';
+    this.isActive = data?.isActive ?? true;
+    this.deactivatedAt = data?.deactivatedAt;
+    this.createdAt = data?.createdAt;
   }
 }
 
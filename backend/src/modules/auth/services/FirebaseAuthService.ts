@@ -12,23 +12,26 @@ import admin from 'firebase-admin';
 import {IUser} from '#root/shared/interfaces/models.js';
 import {BaseService} from '#root/shared/classes/BaseService.js';
 import {IUserRepository} from '#root/shared/database/interfaces/IUserRepository.js';
+import {IReviewerProfileRepository} from '#root/shared/database/interfaces/IReviewerProfileRepository.js';
 import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {AuditService} from '#root/shared/audit-service.js';
 import path from 'path';
 import {fileURLToPath} from 'url';
 
 // Use environment variables instead of importing JSON file
 const serviceAccount = {
-  type: "service_account",
-  project_id: process.env.FIREBASE_PROJECT_ID || "agriai-a2fba",
+  type: 'service_account',
+  project_id: process.env.FIREBASE_PROJECT_ID || 'agriai-a2fba',
   private_key_id: process.env.FIREBASE_PRIVATE_KEY_ID,
-  private_key: (process.env.FIREBASE_PRIVATE_KEY || "").replace(/\\n/g, '\n'),
+  private_key: (process.env.FIREBASE_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
   client_email: process.env.FIREBASE_CLIENT_EMAIL,
   client_id: process.env.FIREBASE_CLIENT_ID,
-  auth_uri: "https://accounts.google.com/o/oauth2/auth",
-  token_uri: "https://oauth2.googleapis.com/token",
-  auth_provider_x509_cert_url: "https://www.googleapis.com/oauth2/v1/certs",
+  auth_uri: 'https://accounts.google.com/o/oauth2/auth',
+  token_uri: 'https://oauth2.googleapis.com/token',
+  auth_provider_x509_cert_url: 'https://www.googleapis.com/oauth2/v1/certs',
   client_x509_cert_url: process.env.FIREBASE_CLIENT_X509_CERT_URL,
-  universe_domain: "googleapis.com"
+  universe_domain: 'googleapis.com',
 };
 
 /**
@@ -54,44 +57,42 @@ export class FirebaseAuthService extends BaseService implements IAuthService {
   constructor(
     @inject(GLOBAL_TYPES.UserRepository)
     private userRepository: IUserRepository,
+    @inject(GLOBAL_TYPES.ReviewerProfileRepository)
+    private reviewerProfileRepository: IReviewerProfileRepository,
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
     @inject(GLOBAL_TYPES.Database)
     private database: MongoDatabase,
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
   ) {
     super(database);
     if (!admin.apps.length) {
-      console.log('Initializing Firebase Admin SDK...');
       admin.initializeApp({
         credential: admin.credential.cert(
           serviceAccount as admin.ServiceAccount,
         ),
       });
-      console.log('Firebase Admin SDK initialized successfully');
-    } else {
-      console.log('Firebase Admin SDK already initialized');
+      this.logger.info('Firebase Admin SDK initialized');
     }
     this.auth = admin.auth();
   }
   async getCurrentUserFromToken(token: string): Promise<IUser> {
-    console.log('getCurrentUserFromToken called');
     // Verify the token and decode it to get the Firebase UID
     const decodedToken = await this.auth.verifyIdToken(token);
     const firebaseUID = decodedToken.uid;
-    console.log('Firebase UID from token:', firebaseUID);
 
     // Retrieve the user from our database using the Firebase UID
-    console.log('Looking up user in database...');
     const user = await this.userRepository.findByFirebaseUID(firebaseUID);
-    console.log('User found in database:', !!user);
 
     if (!user) {
-      console.log('User not found in database, creating new user...');
+      this.logger.info('Creating user for a new Firebase account');
       // get user data from Firebase
       try {
         const firebaseUser = await this.auth.getUser(firebaseUID);
         if (!firebaseUser) {
           throw new InternalServerError('Firebase user not found');
         }
-        console.log('Firebase user retrieved:', firebaseUser.email);
         // Map Firebase user data to our application user model
         const userData: GoogleSignUpBody = {
           email: firebaseUser.email,
@@ -102,16 +103,14 @@ export class FirebaseAuthService extends BaseService implements IAuthService {
         if (!createdUser) {
           throw new InternalServerError('Failed to create the user');
         }
-        console.log('New user created successfully');
         return createdUser;
       } catch (error) {
-        console.log('Error creating user:', error.message);
+        this.logger.error('Failed to create user for Firebase account', error);
         throw new InternalServerError(
           `Failed to retrieve user from Firebase: ${error.message}`,
         );
       }
     }
-    console.log('Returning existing user');
     user._id = user._id.toString();
     return user;
   }
@@ -144,7 +143,9 @@ export class FirebaseAuthService extends BaseService implements IAuthService {
     return true;
   }
 
-  async signup(body: SignUpBody): Promise<{ user: { uid: string; email: string; displayName: string; photoURL: string }} | null> {
+  async signup(body: SignUpBody): Promise<{
+    user: {uid: string; email: string; displayName: string; photoURL: string};
+  } | null> {
     let userRecord: any;
     try {
       // Create the user in Firebase Auth
@@ -178,15 +179,27 @@ export class FirebaseAuthService extends BaseService implements IAuthService {
       if (!createdUserId) {
         throw new InternalServerError('Failed to create the user');
       }
+      // Personal details stay out of the audit log; the user signed themselves up
+      await this.audit.record(
+        {
+          action: 'create',
+          entityType: 'user',
+          entityId: createdUserId,
+          after: {role: user.role},
+          actor: {userId: createdUserId, role: user.role!},
+        },
+        session,
+      );
     });
 
     return {
       user: {
         uid: userRecord.uid,
         email: userRecord.email,
-        displayName: userRecord.displayName || `${body.firstName} ${body.lastName || ''}`,
+        displayName:
+          userRecord.displayName || `${body.firstName} ${body.lastName || ''}`,
         photoURL: userRecord.photoURL || '',
-      }
+      },
     };
   }
   async googleSignup(body: GoogleSignUpBody, token: string): Promise<any> {
@@ -210,6 +223,22 @@ export class FirebaseAuthService extends BaseService implements IAuthService {
       if (!createdUserId) {
         throw new InternalServerError('Failed to create the user');
       }
+      // Personal details stay out of the audit log; the user signed themselves up
+      await this.audit.record(
+        {
+          action: 'create',
+          entityType: 'user',
+          entityId: createdUserId,
+          after: {role: user.role},
+          actor: {userId: createdUserId, role: user.role!},
+        },
+        session,
+      );
+      // Experts take part in peer review, so they need a reviewer profile
+      await this.reviewerProfileRepository.createProfile(
+        createdUserId,
+        session,
+      );
     });
 
     return createdUserId;
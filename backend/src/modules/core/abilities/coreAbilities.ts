@@ -0,0 +1,59 @@
+import {
+  AbilityBuilder,
+  createMongoAbility,
+  ForcedSubject,
+  MongoAbility,
+} from '@casl/ability';
+import {AuthenticatedUser} from '#root/shared/functions/AbilityDecorator.js';
+
+export type CoreActions = 'manage' | 'create' | 'read' | 'update' | 'delete';
+
+// Resource-level checks need the answer author; ids are compared as strings
+export type AnswerSubject = ForcedSubject<'Answer'> & {authorId: string};
+export type AnswerRevisionSubject = ForcedSubject<'AnswerRevision'> & {
+  authorId: string;
+  reviewerIds: string[];
+};
+
+export type CoreSubjects =
+  | 'Question'
+  | 'Answer'
+  | 'AnswerRevision'
+  | 'Context'
+  | 'ContextAudio'
+  | AnswerSubject
+  | AnswerRevisionSubject
+  | 'all';
+
+export type CoreAbility = MongoAbility<[CoreActions, CoreSubjects]>;
+
+/**
+ * Abilities for questions, answers and contexts:
+ * - everyone reads questions and submits and reads transcripts
+ * - experts answer questions and edit only their own answers
+ * - the revisions of an answer are read by its author and the reviewers
+ *   assigned to it
+ * - admins manage everything, including downloading original recordings and
+ *   moving questions, answers and contexts to the trash
+ */
+export function getCoreAbility(user: AuthenticatedUser): CoreAbility {
+  const {can, build} = new AbilityBuilder<CoreAbility>(createMongoAbility);
+
+  can('read', 'Question');
+  can('read', 'Answer');
+  can('create', 'Context');
+  can('read', 'Context');
+
+  if (user.globalRole === 'expert') {
+    can('create', 'Answer');
+    can('update', 'Answer', {authorId: user.userId});
+    can('read', 'AnswerRevision', {authorId: user.userId});
+    can('read', 'AnswerRevision', {reviewerIds: {$all: [user.userId]}});
+  }
+
+  if (user.globalRole === 'admin') {
+    can('manage', 'all');
+  }
+
+  return build();
+}
@@ -6,6 +6,7 @@ import {
   IsInt,
   Min,
   IsMongoId,
+  IsOptional,
   ValidateNested,
 } from 'class-validator';
 import {JSONSchema} from 'class-validator-jsonschema';
@@ -91,6 +92,15 @@ class ResponseDto {
   @IsBoolean()
   isFinalAnswer: boolean;
 
+  @JSONSchema({
+    description: 'Current iteration of the answer (1 = never revised)',
+    example: 2,
+    type: 'integer',
+  })
+  @IsInt()
+  @Min(1)
+  answerIteration: number;
+
   @JSONSchema({
     description: 'Answer creation timestamp',
     example: '2025-09-15T10:00:00Z',
@@ -176,6 +186,137 @@ class UpdateAnswerBody {
   @IsString()
   @IsNotEmpty()
   answer!: string;
+
+  @JSONSchema({
+    description: 'ID of the review whose feedback prompted this revision',
+    example: '6510a0f25f1b2c001c2f4da1',
+    type: 'string',
+  })
+  @Expose()
+  @IsOptional()
+  @IsMongoId()
+  reviewId?: string;
+}
+
+class AnswerRevisionResponse {
+  @JSONSchema({
+    description: 'Unique revision identifier',
+    example: '6510a0f25f1b2c001c2f4da2',
+    type: 'string',
+  })
+  id: string;
+
+  @JSONSchema({
+    description: 'Iteration of the answer this revision represents',
+    example: 2,
+    type: 'integer',
+  })
+  iteration: number;
+
+  @JSONSchema({
+    description: 'Answer text of this revision',
+    example: 'Spray neem oil every ten days.',
+    type: 'string',
+  })
+  answer: string;
+
+  @JSONSchema({
+    description:
+      'User who wrote this revision; only shown to the author and admins',
+    example: '6510a0f25f1b2c001c2f4da3',
+    type: 'string',
+  })
+  authorId?: string;
+
+  @JSONSchema({
+    description: 'Review whose feedback prompted this revision',
+    example: '6510a0f25f1b2c001c2f4da1',
+    type: 'string',
+  })
+  reviewId?: string;
+
+  @JSONSchema({
+    description: 'Revision timestamp',
+    example: '2025-09-15T10:00:00Z',
+    type: 'string',
+  })
+  createdAt: string;
+}
+
+class RevisionDiffQuery {
+  @JSONSchema({
+    description: 'Iteration to compare from (defaults to the one before `to`)',
+    example: 1,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from?: number;
+
+  @JSONSchema({
+    description: 'Iteration to compare to (defaults to the latest)',
+    example: 2,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to?: number;
+}
+
+class WordDiffSegmentDto {
+  @JSONSchema({
+    description: 'Whether the words are unchanged, added or removed',
+    example: 'added',
+    type: 'string',
+    enum: ['equal', 'added', 'removed'],
+  })
+  type: 'equal' | 'added' | 'removed';
+
+  @JSONSchema({
+    description: 'The words of this segment, separated by single spaces',
+    example: 'every ten days',
+    type: 'string',
+  })
+  text: string;
+}
+
+class RevisionDiffResponse {
+  @JSONSchema({
+    description: 'Iteration compared from',
+    example: 1,
+    type: 'integer',
+  })
+  from: number;
+
+  @JSONSchema({
+    description: 'Iteration compared to',
+    example: 2,
+    type: 'integer',
+  })
+  to: number;
+
+  @JSONSchema({description: 'Word-level changes, in text order', type: 'array'})
+  @ValidateNested({each: true})
+  @Type(() => WordDiffSegmentDto)
+  changes: WordDiffSegmentDto[];
+
+  @JSONSchema({
+    description: 'Number of added words',
+    example: 3,
+    type: 'integer',
+  })
+  addedWords: number;
+
+  @JSONSchema({
+    description: 'Number of removed words',
+    example: 1,
+    type: 'integer',
+  })
+  removedWords: number;
 }
 
 export const ANSWER_VALIDATORS = [
@@ -185,6 +326,10 @@ export const ANSWER_VALIDATORS = [
   DeleteAnswerParams,
   UpdateAnswerBody,
   SubmissionResponse,
+  AnswerRevisionResponse,
+  RevisionDiffQuery,
+  WordDiffSegmentDto,
+  RevisionDiffResponse,
 ];
 
 export {
@@ -194,4 +339,8 @@ export {
   DeleteAnswerParams,
   UpdateAnswerBody,
   SubmissionResponse,
+  AnswerRevisionResponse,
+  RevisionDiffQuery,
+  WordDiffSegmentDto,
+  RevisionDiffResponse,
 };
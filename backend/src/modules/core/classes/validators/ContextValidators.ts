@@ -1,4 +1,10 @@
-import {IsMongoId, IsNotEmpty, IsString} from 'class-validator';
+import {
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
 import {JSONSchema} from 'class-validator-jsonschema';
 
 class AddContextBody {
@@ -12,6 +18,20 @@ class AddContextBody {
   text: string;
 }
 
+class AddAudioContextBody {
+  @JSONSchema({
+    description:
+      'Language the speaker chose (BCP 47); the transcriber may detect another one',
+    example: 'hi-IN',
+    type: 'string',
+  })
+  @IsOptional()
+  @Matches(/^[a-z]{2,3}(-[A-Z]{2})?$/, {
+    message: 'language must be a tag like "hi" or "hi-IN"',
+  })
+  language?: string;
+}
+
 class ContextResponse {
   @JSONSchema({
     description: 'Unique context identifier',
@@ -19,6 +39,78 @@ class ContextResponse {
     type: 'string',
   })
   insertedId: string;
+
+  @JSONSchema({
+    description:
+      'ID of the question generation job; poll /jobs/{jobId} for progress',
+    example: '64adf92e9e7c3b1234567891',
+    type: 'string',
+  })
+  jobId: string;
+}
+
+class ContextTranscriptionResponse {
+  @JSONSchema({
+    description: 'pending until the job worker has transcribed the recording',
+    example: 'completed',
+    type: 'string',
+    enum: ['pending', 'completed', 'failed'],
+  })
+  status: 'pending' | 'completed' | 'failed';
+
+  @JSONSchema({
+    description: 'Provider that produced the transcript',
+    example: 'ai-server',
+    type: 'string',
+  })
+  transcriber?: string;
+
+  @JSONSchema({
+    description: 'Error of the last failed transcription attempt',
+    type: 'string',
+  })
+  error?: string;
+
+  @JSONSchema({type: 'string', format: 'date-time'})
+  completedAt?: Date;
+}
+
+class ContextDetailResponse {
+  @JSONSchema({
+    description: 'Unique context identifier',
+    example: '64adf92e9e7c3b1234567890',
+    type: 'string',
+  })
+  id: string;
+
+  @JSONSchema({
+    description:
+      'Transcript; empty while an audio context is being transcribed',
+    type: 'string',
+  })
+  text: string;
+
+  @JSONSchema({
+    description: 'Language of the transcript (BCP 47)',
+    example: 'hi-IN',
+    type: 'string',
+  })
+  language?: string;
+
+  @JSONSchema({
+    description: 'Whether the original recording can be downloaded',
+    type: 'boolean',
+  })
+  hasAudio: boolean;
+
+  @JSONSchema({
+    description: 'Transcription state of an audio context',
+    type: 'object',
+  })
+  transcription?: ContextTranscriptionResponse;
+
+  @JSONSchema({type: 'string', format: 'date-time'})
+  createdAt?: Date;
 }
 
 class ContextIdParam {
@@ -33,8 +125,18 @@ class ContextIdParam {
 
 export const CONTEXT_VALIDATORS = [
   AddContextBody,
+  AddAudioContextBody,
   ContextResponse,
+  ContextTranscriptionResponse,
+  ContextDetailResponse,
   ContextIdParam,
 ];
 
-export {AddContextBody, ContextResponse, ContextIdParam};
+export {
+  AddContextBody,
+  AddAudioContextBody,
+  ContextResponse,
+  ContextTranscriptionResponse,
+  ContextDetailResponse,
+  ContextIdParam,
+};
@@ -8,10 +8,19 @@ import {
   IsMongoId,
   IsArray,
   IsNumber,
+  ArrayMaxSize,
+  MaxLength,
+  IsIn,
+  IsDate,
+  Max,
+  IsBooleanString,
 } from 'class-validator';
+import {Type} from 'class-transformer';
 import {JSONSchema} from 'class-validator-jsonschema';
 import {ObjectId} from 'mongodb';
 import {QuestionStatus} from '#shared/interfaces/models.js';
+import {QUESTION_STATUSES} from '#root/shared/question-lifecycle-service.js';
+import {SUPPORTED_LANGUAGES} from '#root/utils/language.js';
 
 class AddQuestionBody {
   @JSONSchema({
@@ -85,6 +94,22 @@ class QuestionResponse {
   @IsString()
   text!: string;
 
+  @IsOptional()
+  @IsString()
+  language?: string;
+
+  @JSONSchema({
+    description: 'Text as it was asked, when `text` is a translation',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsString()
+  originalText?: string;
+
+  @IsOptional()
+  @IsString()
+  originalLanguage?: string;
+
   @IsString()
   createdAt!: string;
 
@@ -96,13 +121,482 @@ class QuestionResponse {
 
   @IsArray()
   @IsString({each: true})
-  currentAnswers?: {answer: string; id: string; isFinalAnswer: boolean}[];
+  currentAnswers?: {
+    answer: string;
+    id: string;
+    isFinalAnswer: boolean;
+    language?: string;
+    originalAnswer?: string; // Set when `answer` is a translation
+    originalLanguage?: string;
+  }[];
+
+  @IsOptional()
+  tags?: {topics: string[]; crops: string[]; regions: string[]};
+
+  @IsOptional()
+  @IsString()
+  duplicateOf?: string;
+}
+
+class QuestionLanguageQuery {
+  @JSONSchema({
+    description:
+      'Show the question and its answers in this language; texts in another language are machine-translated and keep their original',
+    example: 'mr-IN',
+    type: 'string',
+    enum: [...SUPPORTED_LANGUAGES],
+  })
+  @IsOptional()
+  @IsIn(SUPPORTED_LANGUAGES)
+  language?: string;
+}
+
+class UpdateQuestionTagsBody {
+  @JSONSchema({
+    description: 'Topic tags, e.g. pest-management',
+    example: ['pest-management'],
+    type: 'array',
+    items: {type: 'string'},
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({each: true})
+  @MaxLength(50, {each: true})
+  topics: string[];
+
+  @JSONSchema({
+    description: 'Crop tags, e.g. wheat',
+    example: ['wheat'],
+    type: 'array',
+    items: {type: 'string'},
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({each: true})
+  @MaxLength(50, {each: true})
+  crops: string[];
+
+  @JSONSchema({
+    description: 'Region tags, e.g. punjab',
+    example: ['punjab'],
+    type: 'array',
+    items: {type: 'string'},
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({each: true})
+  @MaxLength(50, {each: true})
+  regions: string[];
+}
+
+// One row of an imported CSV or JSON file
+class ImportQuestionRow {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  question: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({each: true})
+  @MaxLength(50, {each: true})
+  topics?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({each: true})
+  @MaxLength(50, {each: true})
+  crops?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({each: true})
+  @MaxLength(50, {each: true})
+  regions?: string[];
+}
+
+class ImportQuestionsBody {
+  @JSONSchema({
+    description: 'Context (transcript) the questions came from',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsMongoId()
+  contextId?: string;
+
+  @JSONSchema({
+    description:
+      'Validate the file and report row errors without inserting anything',
+    example: 'true',
+    type: 'string',
+    enum: ['true', 'false'],
+  })
+  @IsOptional()
+  @IsBooleanString()
+  dryRun?: string;
+}
+
+class ImportRowError {
+  @JSONSchema({
+    description:
+      'Data row number, starting at 1 (the CSV header is not counted)',
+    type: 'integer',
+  })
+  row: number;
+
+  @JSONSchema({
+    description: 'Everything wrong with the row',
+    type: 'array',
+    items: {type: 'string'},
+  })
+  errors: string[];
+}
+
+class ImportQuestionsResponse {
+  @JSONSchema({description: 'Whether this was a dry run', type: 'boolean'})
+  dryRun: boolean;
+
+  @JSONSchema({description: 'Rows found in the file', type: 'integer'})
+  totalRows: number;
+
+  @JSONSchema({description: 'Rows that passed validation', type: 'integer'})
+  validRows: number;
+
+  @JSONSchema({
+    description: 'Questions inserted; 0 for a dry run',
+    type: 'integer',
+  })
+  insertedCount: number;
+
+  @JSONSchema({
+    description:
+      'Inserted questions linked to an existing question as duplicates',
+    type: 'integer',
+  })
+  duplicateCount: number;
+
+  @JSONSchema({description: 'Per-row validation errors', type: 'array'})
+  @Type(() => ImportRowError)
+  errors: ImportRowError[];
+}
+
+class MergeQuestionBody {
+  @JSONSchema({
+    description:
+      'Question to merge into; defaults to the canonical question the duplicate is linked to',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsMongoId()
+  canonicalQuestionId?: string;
+}
+
+class MergeQuestionResponse {
+  @JSONSchema({
+    description: 'The question the duplicate was merged into',
+    type: 'string',
+  })
+  canonicalQuestionId: string;
+
+  @JSONSchema({
+    description: 'Number of answers moved to the canonical question',
+    type: 'integer',
+  })
+  movedAnswerCount: number;
+}
+
+class UpdateQuestionStatusBody {
+  @JSONSchema({
+    description: 'Status to move the question to',
+    example: 'closed',
+    type: 'string',
+    enum: QUESTION_STATUSES,
+  })
+  @IsIn(QUESTION_STATUSES)
+  status: QuestionStatus;
+
+  @JSONSchema({
+    description: 'Why the status is changed; kept in the status history',
+    example: 'Out of scope for this programme',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+class QuestionTransitionResponse {
+  @JSONSchema({
+    description: 'Status before the change',
+    type: 'string',
+    enum: QUESTION_STATUSES,
+  })
+  from: QuestionStatus;
+
+  @JSONSchema({
+    description: 'Status after the change',
+    type: 'string',
+    enum: QUESTION_STATUSES,
+  })
+  to: QuestionStatus;
+
+  @JSONSchema({
+    description: 'User who made the change; absent for automatic changes',
+    type: 'string',
+  })
+  actorId?: string;
+
+  @JSONSchema({
+    description: 'Role of the user, or `system` for automatic changes',
+    type: 'string',
+  })
+  actorRole: string;
+
+  @JSONSchema({description: 'Why the status was changed', type: 'string'})
+  reason?: string;
+
+  @JSONSchema({
+    description: 'When the status was changed',
+    type: 'string',
+    format: 'date-time',
+  })
+  at: string;
+}
+
+class QuestionStatusHistoryResponse {
+  @JSONSchema({
+    description: 'Current status',
+    type: 'string',
+    enum: QUESTION_STATUSES,
+  })
+  status: QuestionStatus;
+
+  @JSONSchema({
+    description: 'Statuses the current user can move the question to now',
+    type: 'array',
+    items: {type: 'string', enum: QUESTION_STATUSES},
+  })
+  allowedTransitions: QuestionStatus[];
+
+  @JSONSchema({description: 'Every status change, oldest first', type: 'array'})
+  @Type(() => QuestionTransitionResponse)
+  history: QuestionTransitionResponse[];
+}
+
+class SearchQuestionsQuery {
+  @JSONSchema({
+    description: 'Keywords matched against the question and its final answer',
+    example: 'aphids mustard',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
+  @JSONSchema({
+    description: 'Only return questions in this status',
+    example: 'open',
+    type: 'string',
+    enum: QUESTION_STATUSES,
+  })
+  @IsOptional()
+  @IsIn(QUESTION_STATUSES)
+  status?:
+    | 'draft'
+    | 'open'
+    | 'under_review'
+    | 'answered'
+    | 'closed'
+    | 'rejected'; // Spelled out so query parsing sees a string type
+
+  @JSONSchema({
+    description: 'Only return questions created at or after this date',
+    example: '2025-01-01',
+    type: 'string',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @JSONSchema({
+    description: 'Only return questions created at or before this date',
+    example: '2025-12-31',
+    type: 'string',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @JSONSchema({
+    description: 'Only return questions generated from this context',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsMongoId()
+  contextId?: string;
+
+  @JSONSchema({
+    description: 'Minimum number of answers',
+    example: 0,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minAnswers?: number;
+
+  @JSONSchema({
+    description: 'Maximum number of answers',
+    example: 5,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxAnswers?: number;
+
+  @JSONSchema({
+    description: 'Page number (1-based)',
+    example: 1,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @JSONSchema({
+    description: 'Questions per page',
+    example: 20,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
+
+class QuestionSearchHit {
+  @JSONSchema({description: 'Unique question identifier', type: 'string'})
+  id: string;
+
+  @JSONSchema({description: 'The question text', type: 'string'})
+  text: string;
+
+  @JSONSchema({
+    description: 'Question status',
+    type: 'string',
+    enum: QUESTION_STATUSES,
+  })
+  status: QuestionStatus;
+
+  @JSONSchema({description: 'Number of answers', type: 'integer'})
+  totalAnwersCount: number;
+
+  @JSONSchema({
+    description: 'Context (transcript) the question came from, if any',
+    type: 'string',
+  })
+  contextId?: string;
+
+  @JSONSchema({
+    description: 'When the question was created',
+    type: 'string',
+    format: 'date-time',
+  })
+  createdAt?: string;
+
+  @JSONSchema({
+    description: 'Text-match relevance; 0 when no keywords were given',
+    type: 'number',
+  })
+  score: number;
+
+  @JSONSchema({
+    description:
+      'Snippets around the matched keywords, with match offsets into each snippet',
+    type: 'object',
+  })
+  highlights: {
+    question?: {text: string; matches: {start: number; end: number}[]};
+    finalAnswer?: {text: string; matches: {start: number; end: number}[]};
+  };
+}
+
+class QuestionSearchResponse {
+  @JSONSchema({
+    description: 'Matching questions on the requested page',
+    type: 'array',
+  })
+  @Type(() => QuestionSearchHit)
+  questions: QuestionSearchHit[];
+
+  @JSONSchema({
+    description: 'Number of questions matching the search',
+    type: 'integer',
+  })
+  total: number;
+
+  @JSONSchema({description: 'Current page', type: 'integer'})
+  page: number;
+
+  @JSONSchema({description: 'Questions per page', type: 'integer'})
+  limit: number;
 }
 
 export const QUESTION_VALIDATORS = [
   QuestionResponse,
   AddQuestionBody,
   QuestionIdParam,
+  QuestionLanguageQuery,
+  UpdateQuestionTagsBody,
+  SearchQuestionsQuery,
+  QuestionSearchHit,
+  QuestionSearchResponse,
+  MergeQuestionBody,
+  MergeQuestionResponse,
+  UpdateQuestionStatusBody,
+  QuestionTransitionResponse,
+  QuestionStatusHistoryResponse,
+  ImportQuestionRow,
+  ImportQuestionsBody,
+  ImportRowError,
+  ImportQuestionsResponse,
 ];
 
-export {QuestionResponse, AddQuestionBody, QuestionIdParam};
+export {
+  QuestionResponse,
+  AddQuestionBody,
+  QuestionIdParam,
+  QuestionLanguageQuery,
+  UpdateQuestionTagsBody,
+  SearchQuestionsQuery,
+  QuestionSearchHit,
+  QuestionSearchResponse,
+  MergeQuestionBody,
+  MergeQuestionResponse,
+  UpdateQuestionStatusBody,
+  QuestionTransitionResponse,
+  QuestionStatusHistoryResponse,
+  ImportQuestionRow,
+  ImportQuestionsBody,
+  ImportRowError,
+  ImportQuestionsResponse,
+};
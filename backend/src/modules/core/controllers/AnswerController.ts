@@ -12,18 +12,34 @@ import {
   CurrentUser,
   Authorized,
   QueryParams,
+  ForbiddenError,
 } from 'routing-controllers';
+import {subject} from '@casl/ability';
 import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
 import {inject} from 'inversify';
 import {GLOBAL_TYPES} from '#root/types.js';
 import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
 import {IAnswer, IUser} from '#root/shared/interfaces/models.js';
+import {
+  Ability,
+  AbilityContext,
+} from '#root/shared/functions/AbilityDecorator.js';
+import {
+  getPeerReviewAbility,
+  PeerReviewAbility,
+} from '#root/modules/peer-review/abilities/peerReviewAbilities.js';
+import {SubmitReviewBody} from '#root/modules/peer-review/classes/validators/ReviewValidators.js';
+import {TrashCascade} from '#root/shared/trash-service.js';
 import {AnswerService} from '../services/AnswerService.js';
+import {CoreAbility, getCoreAbility} from '../abilities/coreAbilities.js';
 import {
   AddAnswerBody,
   AnswerIdParam,
   AnswerResponse,
+  AnswerRevisionResponse,
   DeleteAnswerParams,
+  RevisionDiffQuery,
+  RevisionDiffResponse,
   SubmissionResponse,
   UpdateAnswerBody,
 } from '../classes/validators/AnswerValidators.js';
@@ -44,7 +60,13 @@ export class AnswerController {
   @HttpCode(201)
   @Authorized()
   @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
-  async addAnswer(@Body() body: AddAnswerBody, @CurrentUser() user: IUser) {
+  async addAnswer(
+    @Body() body: AddAnswerBody,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ) {
+    if (ability.cannot('create', 'Answer')) {
+      throw new ForbiddenError('Only experts can answer questions');
+    }
     const {questionId, answer} = body;
     const authorId = user._id.toString();
     return this.answerService.addAnswer(questionId, authorId, answer);
@@ -73,9 +95,98 @@ export class AnswerController {
   async updateAnswer(
     @Params() params: AnswerIdParam,
     @Body() body: UpdateAnswerBody,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
   ) {
     const {answerId} = params;
-    return this.answerService.updateAnswer(answerId, body);
+    const existing = await this.answerService.getAnswerById(answerId);
+    if (
+      ability.cannot(
+        'update',
+        subject('Answer', {authorId: existing.authorId.toString()}),
+      )
+    ) {
+      throw new ForbiddenError('You can only edit your own answers');
+    }
+    const editorId = user._id.toString();
+    return this.answerService.updateAnswer(answerId, editorId, body);
+  }
+
+  @OpenAPI({
+    summary: 'Move an answer to the trash',
+    description:
+      'Also trashes its reviews and reviewer assignments, after cancelling open reviews. The final answer cannot be deleted.',
+  })
+  @Delete('/:questionId/:answerId')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async deleteAnswer(
+    @Params() params: DeleteAnswerParams,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<{deletedCount: number} & TrashCascade> {
+    if (ability.cannot('delete', 'Answer')) {
+      throw new ForbiddenError('Only admins can delete answers');
+    }
+    const {questionId, answerId} = params;
+    return this.answerService.deleteAnswer(
+      questionId,
+      answerId,
+      user._id.toString(),
+    );
+  }
+
+  @OpenAPI({
+    summary: 'Get every revision of an answer, oldest first',
+    description:
+      'Only the author, the assigned reviewers and admins can read revisions.',
+  })
+  @Get('/:answerId/revisions')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(AnswerRevisionResponse, {isArray: true})
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async getRevisions(
+    @Params() params: AnswerIdParam,
+    @Ability(getCoreAbility) {ability}: AbilityContext<CoreAbility>,
+  ): Promise<AnswerRevisionResponse[]> {
+    const {answerId} = params;
+    const readers = await this.answerService.getRevisionReaders(answerId);
+    if (ability.cannot('read', subject('AnswerRevision', readers))) {
+      throw new ForbiddenError(
+        'Only the author and reviewers of this answer can read its revisions',
+      );
+    }
+    // Reviewers see what changed, not who changed it
+    const includeAuthor = ability.can(
+      'read',
+      subject('AnswerRevision', {...readers, reviewerIds: []}),
+    );
+    return this.answerService.getRevisions(answerId, includeAuthor);
+  }
+
+  @OpenAPI({
+    summary: 'Get a word-level diff between two revisions of an answer',
+    description:
+      'Only the author, the assigned reviewers and admins can read revisions.',
+  })
+  @Get('/:answerId/revisions/diff')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(RevisionDiffResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async getRevisionDiff(
+    @Params() params: AnswerIdParam,
+    @QueryParams() query: RevisionDiffQuery,
+    @Ability(getCoreAbility) {ability}: AbilityContext<CoreAbility>,
+  ): Promise<RevisionDiffResponse> {
+    const {answerId} = params;
+    const readers = await this.answerService.getRevisionReaders(answerId);
+    if (ability.cannot('read', subject('AnswerRevision', readers))) {
+      throw new ForbiddenError(
+        'Only the author and reviewers of this answer can read its revisions',
+      );
+    }
+    return this.answerService.getRevisionDiff(answerId, query.from, query.to);
   }
 
   @OpenAPI({summary: 'Submit a review for an answer'})
@@ -85,19 +196,28 @@ export class AnswerController {
   @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
   async submitReview(
     @Param('reviewId') reviewId: string,
-    @Body() body: {
-      score: number;
-      comments?: string;
-      similarity?: number;
-    },
-    @CurrentUser() user: IUser,
+    @Body() body: SubmitReviewBody,
+    @Ability(getPeerReviewAbility)
+    {ability, user}: AbilityContext<PeerReviewAbility>,
   ) {
+    const review = await this.answerService.getReviewById(reviewId);
+    if (
+      ability.cannot(
+        'submit',
+        subject('Review', {reviewerId: review.reviewerId.toString()}),
+      )
+    ) {
+      throw new ForbiddenError(
+        'Only the assigned reviewer can submit this review',
+      );
+    }
     const reviewerId = user._id.toString();
     return this.answerService.submitReview(
       reviewerId,
       reviewId,
       body.score,
       body.comments,
-      body.similarity
+      body.similarity,
     );
-  }}
+  }
+}
@@ -1,19 +1,36 @@
 import 'reflect-metadata';
 import {
   JsonController,
+  Get,
   Post,
+  Delete,
   Body,
+  Params,
+  Res,
   HttpCode,
-  CurrentUser,
   Authorized,
+  ForbiddenError,
+  UploadedFile,
 } from 'routing-controllers';
 import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
 import {inject, injectable} from 'inversify';
+import multer from 'multer';
+import type {Response} from 'express';
 import {GLOBAL_TYPES} from '#root/types.js';
 import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
 import {ContextService} from '../services/ContextService.js';
-import {ContextResponse} from '../classes/validators/ContextValidators.js';
-import {IUser} from '#root/shared/index.js';
+import {
+  AddAudioContextBody,
+  ContextDetailResponse,
+  ContextIdParam,
+  ContextResponse,
+} from '../classes/validators/ContextValidators.js';
+import {storageConfig} from '#root/config/storage.js';
+import {
+  Ability,
+  AbilityContext,
+} from '#root/shared/functions/AbilityDecorator.js';
+import {CoreAbility, getCoreAbility} from '../abilities/coreAbilities.js';
 
 @OpenAPI({
   tags: ['contexts'],
@@ -35,10 +52,98 @@ export class ContextController {
   @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
   async addContext(
     @Body() body: {transcript: string},
-    @CurrentUser() user: IUser,
-  ): Promise<{insertedId: string}> {
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<{insertedId: string; jobId: string}> {
+    if (ability.cannot('create', 'Context')) {
+      throw new ForbiddenError('You are not allowed to submit transcripts');
+    }
     const {transcript} = body;
     const userId = user._id.toString();
     return this.contextService.addContext(userId, transcript);
   }
+
+  @Post('/audio')
+  @HttpCode(201)
+  @OpenAPI({
+    summary: 'Upload a recording to transcribe',
+    description:
+      'Multipart upload with a `file` field. The recording is stored and transcribed in the background; poll /jobs/{jobId} or GET /context/{contextId} for the transcript.',
+  })
+  @Authorized()
+  @ResponseSchema(ContextResponse, {statusCode: 201})
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async addAudioContext(
+    @UploadedFile('file', {
+      required: true,
+      options: {
+        storage: multer.memoryStorage(),
+        limits: {fileSize: storageConfig.audio.maxFileSize},
+      },
+    })
+    file: Express.Multer.File,
+    @Body() body: AddAudioContextBody,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<{insertedId: string; jobId: string}> {
+    if (ability.cannot('create', 'Context')) {
+      throw new ForbiddenError('You are not allowed to submit recordings');
+    }
+    return this.contextService.addAudioContext(
+      user._id.toString(),
+      file,
+      body.language,
+    );
+  }
+
+  @Get('/:contextId')
+  @OpenAPI({summary: 'Get a context with its transcription status'})
+  @Authorized()
+  @ResponseSchema(ContextDetailResponse)
+  async getContext(
+    @Params() {contextId}: ContextIdParam,
+    @Ability(getCoreAbility) {ability}: AbilityContext<CoreAbility>,
+  ): Promise<ContextDetailResponse> {
+    if (ability.cannot('read', 'Context')) {
+      throw new ForbiddenError('You are not allowed to read contexts');
+    }
+    return this.contextService.getContext(contextId);
+  }
+
+  @Get('/:contextId/audio')
+  @OpenAPI({summary: 'Download the original recording of an audio context'})
+  @Authorized()
+  async getContextAudio(
+    @Params() {contextId}: ContextIdParam,
+    @Ability(getCoreAbility) {ability}: AbilityContext<CoreAbility>,
+    @Res() res: Response,
+  ): Promise<Response> {
+    if (ability.cannot('read', 'ContextAudio')) {
+      throw new ForbiddenError('Only admins can download recordings');
+    }
+
+    const audio = await this.contextService.getAudio(contextId);
+    res.setHeader('Content-Type', audio.mimeType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${audio.fileName}"`,
+    );
+    return res.send(audio.data);
+  }
+
+  @Delete('/:contextId')
+  @HttpCode(200)
+  @OpenAPI({
+    summary: 'Move a context to the trash',
+    description:
+      'Questions generated from the context are kept. Restore it from the trash until it is purged.',
+  })
+  @Authorized()
+  async deleteContext(
+    @Params() {contextId}: ContextIdParam,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<{deletedCount: number}> {
+    if (ability.cannot('delete', 'Context')) {
+      throw new ForbiddenError('Only admins can delete contexts');
+    }
+    return this.contextService.deleteContext(contextId, user._id.toString());
+  }
 }
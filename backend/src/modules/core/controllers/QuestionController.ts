@@ -3,6 +3,8 @@ import {
   JsonController,
   Get,
   Put,
+  Patch,
+  Post,
   Delete,
   Body,
   HttpCode,
@@ -10,19 +12,44 @@ import {
   QueryParams,
   Authorized,
   CurrentUser,
+  ForbiddenError,
+  UploadedFile,
 } from 'routing-controllers';
 import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
 import {inject, injectable} from 'inversify';
+import multer from 'multer';
 import {GLOBAL_TYPES} from '#root/types.js';
-import {IQuestion, IUser} from '#root/shared/interfaces/models.js';
+import {
+  IQuestion,
+  IQuestionTags,
+  IUser,
+} from '#root/shared/interfaces/models.js';
+import {TrashCascade} from '#root/shared/trash-service.js';
 import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
 import {QuestionService} from '../services/QuestionService.js';
 import {ContextIdParam} from '../classes/validators/ContextValidators.js';
 import {
+  ImportQuestionsBody,
+  ImportQuestionsResponse,
+  MergeQuestionBody,
+  MergeQuestionResponse,
   QuestionIdParam,
+  QuestionLanguageQuery,
   QuestionResponse,
+  QuestionSearchResponse,
+  QuestionStatusHistoryResponse,
+  QuestionTransitionResponse,
+  SearchQuestionsQuery,
+  UpdateQuestionStatusBody,
+  UpdateQuestionTagsBody,
 } from '../classes/validators/QuestionValidators.js';
 import {currentUserChecker} from '#root/shared/functions/currentUserChecker.js';
+import {
+  Ability,
+  AbilityContext,
+} from '#root/shared/functions/AbilityDecorator.js';
+import {CoreAbility, getCoreAbility} from '../abilities/coreAbilities.js';
+import {questionConfig} from '#root/config/questions.js';
 
 @OpenAPI({
   tags: ['questions'],
@@ -71,6 +98,57 @@ export class QuestionController {
     );
   }
 
+  // Declared before '/:questionId' so "search" is not taken for an id
+  @Get('/search')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(QuestionSearchResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  @OpenAPI({
+    summary: 'Search questions and their final answers',
+    description:
+      'Keyword search ranked by relevance, with filters and highlighted snippets. Without keywords, newest questions come first.',
+  })
+  async searchQuestions(
+    @QueryParams() query: SearchQuestionsQuery,
+  ): Promise<QuestionSearchResponse> {
+    return this.questionService.searchQuestions(query);
+  }
+
+  @Post('/import')
+  @HttpCode(200)
+  @Authorized()
+  @OpenAPI({
+    summary: 'Import questions from a CSV or JSON file',
+    description:
+      'Multipart upload with a `file` field. CSV files need a "question" column and may have semicolon-separated "topics", "crops" and "regions" columns; JSON files hold an array of questions. With dryRun=true the rows are only validated.',
+  })
+  @ResponseSchema(ImportQuestionsResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async importQuestions(
+    @UploadedFile('file', {
+      required: true,
+      // Kept in memory: the file is parsed right away and never stored
+      options: {
+        storage: multer.memoryStorage(),
+        limits: {fileSize: questionConfig.import.maxFileSize},
+      },
+    })
+    file: Express.Multer.File,
+    @Body() body: ImportQuestionsBody,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<ImportQuestionsResponse> {
+    if (ability.cannot('create', 'Question')) {
+      throw new ForbiddenError('Only admins can import questions');
+    }
+    return this.questionService.importQuestions(
+      user._id.toString(),
+      file,
+      body.contextId,
+      body.dryRun === 'true',
+    );
+  }
+
   @Get('/:questionId')
   @HttpCode(200)
   @Authorized()
@@ -78,33 +156,151 @@ export class QuestionController {
   @OpenAPI({summary: 'Get selected question by ID'})
   async getQuestionById(
     @Params() params: QuestionIdParam,
+    @QueryParams() {language}: QuestionLanguageQuery,
     @Body() updates: Partial<QuestionResponse>,
   ): Promise<QuestionResponse> {
     const {questionId} = params;
-    return this.questionService.getQuestionById(questionId);
+    return this.questionService.getQuestionById(questionId, language);
   }
 
   @Put('/:questionId')
   @HttpCode(200)
   @Authorized()
   @ResponseSchema(QuestionResponse, {isArray: true})
-  @OpenAPI({summary: 'Update a question by ID'})
+  @OpenAPI({
+    summary: 'Update a question by ID',
+    description:
+      'A changed `status` must be an allowed transition; otherwise the request fails with 409.',
+  })
   async updateQuestion(
     @Params() params: QuestionIdParam,
     @Body() updates: Partial<IQuestion>,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
   ): Promise<{modifiedCount: number}> {
+    if (ability.cannot('update', 'Question')) {
+      throw new ForbiddenError('Only admins can update questions');
+    }
     const {questionId} = params;
-    return this.questionService.updateQuestion(questionId, updates);
+    return this.questionService.updateQuestion(questionId, updates, {
+      userId: user._id.toString(),
+      role: user.role,
+    });
+  }
+
+  @Patch('/:questionId/status')
+  @HttpCode(200)
+  @Authorized()
+  @OpenAPI({
+    summary: 'Move a question to another status',
+    description:
+      'Only allowed transitions are accepted; others fail with 409. The change is recorded in the status history.',
+  })
+  @ResponseSchema(QuestionTransitionResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async changeStatus(
+    @Params() params: QuestionIdParam,
+    @Body() body: UpdateQuestionStatusBody,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<QuestionTransitionResponse> {
+    if (ability.cannot('update', 'Question')) {
+      throw new ForbiddenError(
+        'Only admins can change the status of questions',
+      );
+    }
+    const {questionId} = params;
+    return this.questionService.changeStatus(
+      questionId,
+      body.status,
+      {userId: user._id.toString(), role: user.role},
+      body.reason,
+    );
+  }
+
+  @Get('/:questionId/status-history')
+  @HttpCode(200)
+  @Authorized()
+  @OpenAPI({
+    summary:
+      'Get the status changes of a question and the statuses it can move to',
+  })
+  @ResponseSchema(QuestionStatusHistoryResponse)
+  async getStatusHistory(
+    @Params() params: QuestionIdParam,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<QuestionStatusHistoryResponse> {
+    if (ability.cannot('read', 'Question')) {
+      throw new ForbiddenError('You cannot view this question');
+    }
+    const {questionId} = params;
+    return this.questionService.getStatusHistory(questionId, {
+      userId: user._id.toString(),
+      role: user.role,
+    });
+  }
+
+  @Patch('/:questionId/tags')
+  @HttpCode(200)
+  @Authorized()
+  @OpenAPI({summary: 'Replace the topic, crop and region tags of a question'})
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async updateTags(
+    @Params() params: QuestionIdParam,
+    @Body() body: UpdateQuestionTagsBody,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<IQuestionTags> {
+    if (ability.cannot('update', 'Question')) {
+      throw new ForbiddenError('Only admins can edit question tags');
+    }
+    const {questionId} = params;
+    return this.questionService.updateTags(
+      user._id.toString(),
+      questionId,
+      body,
+    );
+  }
+
+  @Post('/:questionId/merge')
+  @HttpCode(200)
+  @Authorized()
+  @OpenAPI({
+    summary: 'Merge a duplicate question into its canonical question',
+    description:
+      'Moves the answers (and their reviews) to the canonical question and closes the duplicate.',
+  })
+  @ResponseSchema(MergeQuestionResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async mergeQuestion(
+    @Params() params: QuestionIdParam,
+    @Body() body: MergeQuestionBody,
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<MergeQuestionResponse> {
+    if (ability.cannot('update', 'Question')) {
+      throw new ForbiddenError('Only admins can merge questions');
+    }
+    const {questionId} = params;
+    return this.questionService.mergeQuestions(
+      user._id.toString(),
+      questionId,
+      body.canonicalQuestionId,
+    );
   }
 
   @Delete('/:questionId')
   @HttpCode(200)
   @Authorized()
-  @OpenAPI({summary: 'Delete a question by ID'})
+  @OpenAPI({
+    summary: 'Move a question to the trash',
+    description:
+      'Also trashes its answers with their reviews and reviewer assignments, after cancelling open reviews. Restore it from the trash until it is purged.',
+  })
   async deleteQuestion(
     @Params() params: QuestionIdParam,
-  ): Promise<{deletedCount: number}> {
+    @Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>,
+  ): Promise<{deletedCount: number} & TrashCascade> {
+    if (ability.cannot('delete', 'Question')) {
+      throw new ForbiddenError('Only admins can delete questions');
+    }
     const {questionId} = params;
-    return this.questionService.deleteQuestion(questionId);
+    return this.questionService.deleteQuestion(questionId, user._id.toString());
   }
 }
@@ -1,17 +1,24 @@
 import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
 import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
-import {IPeerReviewRepository} from '#root/shared/database/interfaces/IPeerReviewRepository.js';
-import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
 import {BaseService, MongoDatabase} from '#root/shared/index.js';
 import {GLOBAL_TYPES} from '#root/types.js';
 import {inject, injectable} from 'inversify';
 import {ClientSession} from 'mongodb';
-import {IAnswer} from '#root/shared/interfaces/models.js';
-import {BadRequestError} from 'routing-controllers';
+import {BadRequestError, NotFoundError} from 'routing-controllers';
 import {PeerReviewService} from '#root/shared/peer-review-service.js';
-import {ReviewerAssignmentService} from '#root/shared/reviewer-assignment-service.js';
-import {IReviewerAssignment, ReviewPriority} from '#root/shared/interfaces/models.js';
+import {JobQueueService} from '#root/shared/jobs/index.js';
+import {AuditService} from '#root/shared/audit-service.js';
+import {TrashCascade, TrashService} from '#root/shared/trash-service.js';
 import {
+  ANSWERABLE_QUESTION_STATUSES,
+  QuestionLifecycleService,
+} from '#root/shared/question-lifecycle-service.js';
+import {IAnswerRevisionRepository} from '#root/shared/database/interfaces/IAnswerRevisionRepository.js';
+import {IAnswer, IAnswerRevision, IPeerReview} from '#root/shared/interfaces/models.js';
+import {diffWords} from '#root/utils/wordDiff.js';
+import {
+  AnswerRevisionResponse,
+  RevisionDiffResponse,
   SubmissionResponse,
   UpdateAnswerBody,
 } from '../classes/validators/AnswerValidators.js';
@@ -24,11 +31,23 @@ export class AnswerService extends BaseService {
     @inject(GLOBAL_TYPES.QuestionRepository)
     private readonly questionRepo: IQuestionRepository,
 
-    @inject(GLOBAL_TYPES.PeerReviewRepository)
-    private readonly peerReviewRepo: IPeerReviewRepository,
+    @inject(GLOBAL_TYPES.AnswerRevisionRepository)
+    private readonly answerRevisionRepo: IAnswerRevisionRepository,
+
+    @inject(GLOBAL_TYPES.PeerReviewService)
+    private readonly peerReviewService: PeerReviewService,
+
+    @inject(GLOBAL_TYPES.JobQueueService)
+    private readonly jobQueue: JobQueueService,
 
-    @inject(GLOBAL_TYPES.ReviewerAssignmentRepository)
-    private readonly reviewerAssignmentRepo: IReviewerAssignmentRepository,
+    @inject(GLOBAL_TYPES.QuestionLifecycleService)
+    private readonly questionLifecycle: QuestionLifecycleService,
+
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
+
+    @inject(GLOBAL_TYPES.TrashService)
+    private readonly trashService: TrashService,
 
     @inject(GLOBAL_TYPES.Database)
     private readonly mongoDatabase: MongoDatabase,
@@ -40,7 +59,7 @@ export class AnswerService extends BaseService {
     questionId: string,
     authorId: string,
     answer: string,
-  ): Promise<{insertedId: string; isFinalAnswer: boolean}> {
+  ): Promise<{insertedId: string; isFinalAnswer: boolean; jobId: string}> {
     return this._withTransaction(async (session: ClientSession) => {
       const question = await this.questionRepo.getById(questionId, session);
 
@@ -48,10 +67,14 @@ export class AnswerService extends BaseService {
         throw new BadRequestError(`Question with ID ${questionId} not found`);
       }
 
-      const isQuestionClosed = question.status === 'closed';
+      if (question.duplicateOf) {
+        throw new BadRequestError(
+          `Question duplicates question ${question.duplicateOf}; answer that question instead`,
+        );
+      }
 
-      if (isQuestionClosed) {
-        throw new BadRequestError(`Question is already closed`);
+      if (!ANSWERABLE_QUESTION_STATUSES.includes(question.status)) {
+        throw new BadRequestError(`Question is ${question.status} and takes no answers`);
       }
 
       const isAlreadyResponded = await this.answerRepo.getByAuthorId(
@@ -64,7 +87,8 @@ export class AnswerService extends BaseService {
         throw new BadRequestError('You’ve already submitted an answer!');
       }
 
-      const isFinalAnswer = true; // Need to calculate properly
+      // New answers are never final; the final answer is elected once reviews reach consensus
+      const isFinalAnswer = false;
       const updatedAnswerCount = question.totalAnwersCount + 1;
 
       const insertedId = await this.answerRepo.addAnswer(
@@ -72,31 +96,60 @@ export class AnswerService extends BaseService {
         authorId,
         answer,
         isFinalAnswer,
-        updatedAnswerCount,
+        1,
         session,
       );
 
-      // Assign reviewers to the new answer (replace mock reviews)
-      await this.assignReviewersToAnswer(insertedId.insertedId, session);
-
-      // For now, don't check similarity threshold immediately - wait for real reviews
-      const finalAnswer = false;
+      await this.answerRevisionRepo.createRevision(
+        {
+          answerId: insertedId.insertedId,
+          questionId,
+          authorId,
+          iteration: 1,
+          answer,
+        },
+        session,
+      );
+      await this.audit.record(
+        {
+          action: 'create',
+          entityType: 'answer',
+          entityId: insertedId.insertedId,
+          after: {questionId, authorId, answer, answerIteration: 1},
+        },
+        session,
+      );
 
-      // Update answer if threshold reached
-      if (finalAnswer) {
-        await this.answerRepo.updateAnswer(insertedId.insertedId, { isFinalAnswer: true }, session);
-      }
+      // Reviewers are assigned and similarity is scored by the job worker once the answer is committed
+      const {jobId} = await this.jobQueue.enqueue(
+        'assign_reviewers',
+        {answerId: insertedId.insertedId},
+        authorId,
+        session,
+      );
+      await this.jobQueue.enqueue(
+        'score_similarity',
+        {answerId: insertedId.insertedId},
+        authorId,
+        session,
+      );
 
       await this.questionRepo.updateQuestion(
         questionId,
-        {
-          totalAnwersCount: updatedAnswerCount,
-          status: finalAnswer ? 'closed' : 'open',
-        },
+        {totalAnwersCount: updatedAnswerCount},
         session,
       );
+      if (question.status === 'open') {
+        await this.questionLifecycle.transition(
+          questionId,
+          'under_review',
+          {role: 'system'},
+          'First answer submitted',
+          session,
+        );
+      }
 
-      return {...insertedId, isFinalAnswer: finalAnswer};
+      return {...insertedId, isFinalAnswer, jobId};
     });
   }
 
@@ -110,170 +163,198 @@ export class AnswerService extends BaseService {
 
   async updateAnswer(
     answerId: string,
+    editorId: string,
     updates: UpdateAnswerBody,
-  ): Promise<{modifiedCount: number}> {
+  ): Promise<{modifiedCount: number; answerIteration: number}> {
     return this._withTransaction(async (session: ClientSession) => {
       if (!answerId) throw new BadRequestError('AnswerId not found');
       const answer = await this.answerRepo.getById(answerId, session);
 
-      console.log('Answer: ', answer);
       if (!answer) {
         throw new BadRequestError(`Answer with ID ${answerId} not found`);
       }
+      if (answer.isFrozen) {
+        throw new BadRequestError('Another answer has been elected final; this answer can no longer be edited');
+      }
+      // The question carries the elected text, which the reviewers approved as it is
+      if (answer.isFinalAnswer) {
+        throw new BadRequestError('This answer has been elected final and can no longer be edited');
+      }
       const questionId = answer.questionId.toString();
 
-      const question = await this.questionRepo.getById(questionId);
+      const question = await this.questionRepo.getById(questionId, session);
 
       if (!question) {
         throw new BadRequestError(`Question with ID ${questionId} not found`);
       }
 
-      // const answers = await this.answerRepo.getByQuestionId(
-      //   questionId,
-      //   session,
-      // );
-
-      // const otherFinalAnswer = answers.find(
-      //   (answer: IAnswer) =>
-      //     answer.isFinalAnswer && answer._id?.toString() !== answerId,
-      // );
-      // if (otherFinalAnswer) {
-      //   throw new BadRequestError(
-      //     `Another final answer already exists for question ${questionId}`,
-      //   );
-      // }
-
-      return this.answerRepo.updateAnswer(answerId, updates, session);
-    });
-  }
-
-  async submitReview(
-    reviewerId: string,
-    reviewId: string,
-    score: number,
-    comments?: string,
-    similarity?: number,
-  ): Promise<{ submitted: boolean; triggersNextRound: boolean }> {
-    return this._withTransaction(async (session: ClientSession) => {
-      // Submit the review using the repository
-      await this.peerReviewRepo.submitReview(
-        reviewId,
-        score,
-        comments,
-        similarity,
-        session
-      );
-
-      // Update assignment status to completed
-      const review = await this.peerReviewRepo.getReviewById(reviewId, session);
-      if (review) {
-        const assignments = await this.reviewerAssignmentRepo.getAssignmentsForAnswer(review.answerId.toString(), session);
-        const assignment = assignments.find(a => a.reviewerId.toString() === reviewerId);
-        if (assignment) {
-          await this.reviewerAssignmentRepo.updateAssignmentStatus(assignment._id!.toString(), 'completed', session);
+      if (updates.reviewId) {
+        const review = await this.peerReviewService.getReviewById(updates.reviewId, session);
+        if (!review || review.answerId.toString() !== answerId) {
+          throw new BadRequestError('Review not found for this answer');
+        }
+        if (review.status !== 'submitted') {
+          throw new BadRequestError('Only submitted reviews can prompt a revision');
         }
       }
 
-      // Check if we should trigger the next round of review
-      const triggersNextRound = await this.checkAndTriggerNextReviewRound(reviewId, session);
+      // Answers created before revisions were recorded get their current text saved first
+      const revisions = await this.answerRevisionRepo.getRevisionsForAnswer(answerId, session);
+      const currentIteration = answer.answerIteration ?? 1;
+      if (!revisions.some(revision => revision.iteration === currentIteration)) {
+        await this.answerRevisionRepo.createRevision(
+          {
+            answerId,
+            questionId,
+            authorId: answer.authorId,
+            iteration: currentIteration,
+            answer: answer.answer,
+          },
+          session,
+        );
+      }
 
-      return { submitted: true, triggersNextRound };
-    });
-  }
+      const answerIteration = currentIteration + 1;
+      const result = await this.answerRepo.updateAnswer(
+        answerId,
+        {answer: updates.answer, answerIteration},
+        session,
+      );
 
-  private async checkAndTriggerNextReviewRound(reviewId: string, session: ClientSession): Promise<boolean> {
-    const review = await this.peerReviewRepo.getReviewById(reviewId, session);
-    if (!review) return false;
+      await this.answerRevisionRepo.createRevision(
+        {
+          answerId,
+          questionId,
+          authorId: editorId,
+          iteration: answerIteration,
+          answer: updates.answer,
+          reviewId: updates.reviewId,
+        },
+        session,
+      );
+      await this.audit.record(
+        {
+          action: 'update',
+          entityType: 'answer',
+          entityId: answerId,
+          before: {answer: answer.answer, answerIteration: currentIteration},
+          after: {
+            answer: updates.answer,
+            answerIteration,
+            ...(updates.reviewId && {reviewId: updates.reviewId}),
+          },
+        },
+        session,
+      );
 
-    const answerId = review.answerId.toString();
+      // The edited text has to be compared with the other answers again
+      await this.jobQueue.enqueue(
+        'score_similarity',
+        {answerId},
+        answer.authorId.toString(),
+        session,
+      );
 
-    // Get review stats for this answer
-    const reviewStats = await this.peerReviewRepo.getReviewStatsForAnswer(answerId, session);
+      return {...result, answerIteration};
+    });
+  }
 
-    // Check if we have enough reviews and if the threshold is met
-    if (reviewStats.completedReviews >= 2 && reviewStats.thresholdReached) {
-      // Trigger next round - assign new reviewers
-      await this.assignNextRoundReviewers(answerId, session);
-      return true;
+  async getAnswerById(answerId: string): Promise<IAnswer> {
+    const answer = await this.answerRepo.getById(answerId);
+    if (!answer) {
+      throw new NotFoundError(`Answer with ID ${answerId} not found`);
     }
+    return answer;
+  }
 
-    return false;
+  // The author and every reviewer assigned to the answer, except those who declined
+  async getRevisionReaders(answerId: string): Promise<{authorId: string; reviewerIds: string[]}> {
+    const answer = await this.getAnswerById(answerId);
+    const assignments = await this.peerReviewService.getAssignmentHistory(answerId);
+    return {
+      authorId: answer.authorId.toString(),
+      reviewerIds: assignments
+        .filter(assignment => assignment.status !== 'declined')
+        .map(assignment => assignment.reviewerId.toString()),
+    };
   }
 
-  private async assignNextRoundReviewers(answerId: string, session: ClientSession): Promise<void> {
-    try {
-      // Get existing assignments to avoid assigning to the same reviewers
-      const existingAssignments = await this.reviewerAssignmentRepo.getAssignmentsForAnswer(answerId, session);
-      const existingReviewerIds = existingAssignments.map(a => a.reviewerId.toString());
+  async getRevisions(answerId: string, includeAuthor: boolean): Promise<AnswerRevisionResponse[]> {
+    const revisions = await this.answerRevisionRepo.getRevisionsForAnswer(answerId);
+    return revisions.map(revision => ({
+      id: revision._id!.toString(),
+      iteration: revision.iteration,
+      answer: revision.answer,
+      authorId: includeAuthor ? revision.authorId.toString() : undefined,
+      reviewId: revision.reviewId?.toString(),
+      createdAt: revision.createdAt.toISOString(),
+    }));
+  }
 
-      // Assign reviewers excluding those who already reviewed
-      const assignments = await ReviewerAssignmentService.assignReviewersToAnswer(
-        answerId,
-        'medium',
-        undefined, // We'll need to modify the service to exclude certain reviewers
-        existingReviewerIds
-      );
+  // Word-level diff between two iterations; defaults to the latest change
+  async getRevisionDiff(
+    answerId: string,
+    from?: number,
+    to?: number,
+  ): Promise<RevisionDiffResponse> {
+    const revisions = await this.answerRevisionRepo.getRevisionsForAnswer(answerId);
+    if (revisions.length === 0) {
+      throw new NotFoundError(`No revisions found for answer ${answerId}`);
+    }
 
-      // Create corresponding review records for each assignment
-      for (const assignment of assignments) {
-        const review = {
-          answerId,
-          reviewerId: assignment.reviewerId,
-          status: 'assigned' as const,
-          assignedAt: assignment.assignedAt,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
-        // Save review to database using repository
-        await this.peerReviewRepo.createReview(review, session);
-
-        // Save assignment to database using repository
-        await this.reviewerAssignmentRepo.createAssignment(assignment, session);
+    const toIteration = to ?? revisions[revisions.length - 1].iteration;
+    const fromIteration = from ?? toIteration - 1;
+    const findRevision = (iteration: number): IAnswerRevision => {
+      const revision = revisions.find(r => r.iteration === iteration);
+      if (!revision) {
+        throw new NotFoundError(`Answer ${answerId} has no iteration ${iteration}`);
       }
+      return revision;
+    };
+
+    const changes = diffWords(findRevision(fromIteration).answer, findRevision(toIteration).answer);
+    const countWords = (type: 'added' | 'removed') =>
+      changes
+        .filter(change => change.type === type)
+        .reduce((sum, change) => sum + change.text.split(' ').length, 0);
+
+    return {
+      from: fromIteration,
+      to: toIteration,
+      changes,
+      addedWords: countWords('added'),
+      removedWords: countWords('removed'),
+    };
+  }
 
-      console.log(`Assigned next round reviewers to answer ${answerId}`);
-    } catch (error) {
-      console.error('Error assigning next round reviewers:', error);
-      // Continue execution even if next round assignment fails
+  async getReviewById(reviewId: string): Promise<IPeerReview> {
+    const review = await this.peerReviewService.getReviewById(reviewId);
+    if (!review) {
+      throw new NotFoundError(`Review with ID ${reviewId} not found`);
     }
+    return review;
   }
 
-  // Assign reviewers to an answer
-  private async assignReviewersToAnswer(
-    answerId: string,
-    session: ClientSession
-  ): Promise<void> {
-    try {
-      // Assign reviewers using the assignment service
-      const assignments = await ReviewerAssignmentService.assignReviewersToAnswer(
-        answerId,
-        'medium' as ReviewPriority // TODO: Determine priority based on question type/urgency
-      );
-
-      // Create corresponding review records for each assignment
-      for (const assignment of assignments) {
-        const review = {
-          answerId,
-          reviewerId: assignment.reviewerId,
-          status: 'assigned' as const,
-          assignedAt: assignment.assignedAt,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
-        // Save review to database using repository
-        await this.peerReviewRepo.createReview(review, session);
-
-        // Save assignment to database using repository
-        await this.reviewerAssignmentRepo.createAssignment(assignment, session);
-      }
+  async submitReview(
+    reviewerId: string,
+    reviewId: string,
+    score: number,
+    comments?: string,
+    similarity?: number,
+  ): Promise<{ submitted: boolean; triggersNextRound: boolean; finalAnswerElected: boolean }> {
+    return this.peerReviewService.submitReview(reviewerId, reviewId, score, comments, similarity);
+  }
 
-      console.log(`Assigned ${assignments.length} reviewers to answer ${answerId}`);
-    } catch (error) {
-      console.error('Error assigning reviewers:', error);
-      // Continue execution even if reviewer assignment fails
-      // The answer can still be submitted without reviewers initially
+  // Moves the answer and its reviews to the trash, from where it can be restored
+  async deleteAnswer(
+    questionId: string,
+    answerId: string,
+    adminId: string,
+  ): Promise<{deletedCount: number} & TrashCascade> {
+    const answer = await this.getAnswerById(answerId);
+    if (answer.questionId.toString() !== questionId) {
+      throw new NotFoundError(`Answer with ID ${answerId} not found for question ${questionId}`);
     }
+    return this.trashService.deleteAnswer(answerId, adminId);
   }
 }
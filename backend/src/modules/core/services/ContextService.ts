@@ -4,16 +4,44 @@ import {GLOBAL_TYPES} from '#root/types.js';
 import {inject, injectable} from 'inversify';
 import {ClientSession, ObjectId} from 'mongodb';
 import {IContext} from '#root/shared/interfaces/models.js';
-import {InternalServerError, BadRequestError} from 'routing-controllers';
-import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {
+  InternalServerError,
+  BadRequestError,
+  NotFoundError,
+} from 'routing-controllers';
+import {JobQueueService} from '#root/shared/jobs/index.js';
+import {IFileStorage} from '#root/shared/storage/index.js';
+import {AuditService} from '#root/shared/audit-service.js';
+import {TrashService} from '#root/shared/trash-service.js';
+import {ContextDetailResponse} from '../classes/validators/ContextValidators.js';
+import {randomUUID} from 'crypto';
+
+// Recording formats the transcriber accepts, with the extension they are stored under
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/flac': 'flac',
+};
 
 @injectable()
 export class ContextService extends BaseService {
   constructor(
     @inject(GLOBAL_TYPES.ContextRepository)
     private readonly contextRepo: IContextRepository,
-    @inject(GLOBAL_TYPES.QuestionRepository)
-    private readonly questionRepo: IQuestionRepository,
+    @inject(GLOBAL_TYPES.JobQueueService)
+    private readonly jobQueue: JobQueueService,
+    @inject(GLOBAL_TYPES.FileStorage)
+    private readonly fileStorage: IFileStorage,
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
+    @inject(GLOBAL_TYPES.TrashService)
+    private readonly trashService: TrashService,
 
     @inject(GLOBAL_TYPES.Database)
     private readonly mongoDatabase: MongoDatabase,
@@ -24,38 +52,148 @@ export class ContextService extends BaseService {
   async addContext(
     userId: string,
     text: string,
-  ): Promise<{insertedId: string}> {
+  ): Promise<{insertedId: string; jobId: string}> {
     try {
       if (!text || text.trim().length === 0) {
         throw new BadRequestError('Context text required');
       }
 
+      // Questions are generated by the job worker, so a slow AI call never holds this request open
       return this._withTransaction(async (session: ClientSession) => {
         const result = await this.contextRepo.addContext(text, session);
+        await this.audit.record(
+          {
+            action: 'create',
+            entityType: 'context',
+            entityId: result.insertedId,
+            after: {text},
+          },
+          session,
+        );
 
-        const contextId = result.insertedId;
-        const dummyQuestions: string[] = [
-          '<< >> What is the difference between supervised and unsupervised learning?',
-          'Explain closures in JavaScript with an example.',
-          'How does indexing improve query performance in MongoDB?',
-          'What are the key features of TypeScript compared to JavaScript?',
-          'How does garbage collection work in Node.js?',
-        ];
-
-        await this.questionRepo.addQuestions(
+        const {jobId} = await this.jobQueue.enqueue(
+          'generate_questions',
+          {contextId: result.insertedId, userId},
           userId,
-          contextId,
-          dummyQuestions,
           session,
         );
 
-        return result;
+        return {...result, jobId};
       });
     } catch (error) {
       throw new InternalServerError(`Failed to add context: ${error}`);
     }
   }
 
+  async addAudioContext(
+    userId: string,
+    file: {
+      buffer: Buffer;
+      originalname?: string;
+      mimetype: string;
+      size: number;
+    },
+    language?: string,
+  ): Promise<{insertedId: string; jobId: string}> {
+    // MediaRecorder reports types like 'audio/webm;codecs=opus'
+    const mimeType = file.mimetype.split(';')[0].trim().toLowerCase();
+    const extension = AUDIO_EXTENSIONS[mimeType];
+    if (!extension) {
+      throw new BadRequestError(
+        `Unsupported audio type ${file.mimetype}; expected one of ${Object.keys(AUDIO_EXTENSIONS).join(', ')}`,
+      );
+    }
+    if (file.size === 0) {
+      throw new BadRequestError('The recording is empty');
+    }
+
+    try {
+      // The original is stored before the context exists, so a failed upload leaves no context behind
+      const key = `contexts/${randomUUID()}.${extension}`;
+      await this.fileStorage.save(key, file.buffer, mimeType);
+
+      return this._withTransaction(async (session: ClientSession) => {
+        const result = await this.contextRepo.addAudioContext(
+          {
+            storage: this.fileStorage.name,
+            key,
+            mimeType,
+            size: file.size,
+            ...(file.originalname && {originalName: file.originalname}),
+            uploadedBy: userId,
+          },
+          language,
+          session,
+        );
+        await this.audit.record(
+          {
+            action: 'create',
+            entityType: 'context',
+            entityId: result.insertedId,
+            after: {
+              audio: {
+                storage: this.fileStorage.name,
+                key,
+                mimeType,
+                size: file.size,
+              },
+              language,
+            },
+          },
+          session,
+        );
+
+        // Transcription queues question generation once the transcript is stored
+        const {jobId} = await this.jobQueue.enqueue(
+          'transcribe_audio',
+          {contextId: result.insertedId, userId},
+          userId,
+          session,
+        );
+
+        return {...result, jobId};
+      });
+    } catch (error) {
+      throw new InternalServerError(`Failed to add audio context: ${error}`);
+    }
+  }
+
+  async getContext(contextId: string): Promise<ContextDetailResponse> {
+    const context = await this.contextRepo.getById(contextId);
+    if (!context) {
+      throw new NotFoundError(`Context with ID ${contextId} not found`);
+    }
+    return {
+      id: context._id.toString(),
+      text: context.text,
+      ...(context.language && {language: context.language}),
+      hasAudio: !!context.audio,
+      ...(context.transcription && {transcription: context.transcription}),
+      createdAt: context.createdAt,
+    };
+  }
+
+  async getAudio(
+    contextId: string,
+  ): Promise<{data: Buffer; mimeType: string; fileName: string}> {
+    const context = await this.contextRepo.getById(contextId);
+    if (!context?.audio) {
+      throw new NotFoundError(`Context with ID ${contextId} has no recording`);
+    }
+
+    const data = await this.fileStorage.read(context.audio.key);
+    if (!data) {
+      throw new InternalServerError(
+        `Recording of context ${contextId} is missing from ${context.audio.storage} storage`,
+      );
+    }
+    return {
+      data,
+      mimeType: context.audio.mimeType,
+      fileName: context.audio.key.split('/').pop(),
+    };
+  }
+
   async getById(contextId: string): Promise<IContext | null> {
     try {
       if (!contextId) {
@@ -73,4 +211,12 @@ export class ContextService extends BaseService {
       throw new InternalServerError(`Failed to get context: ${error}`);
     }
   }
+
+  // Moves the context to the trash; its recording is kept until the context is purged
+  async deleteContext(
+    contextId: string,
+    adminId: string,
+  ): Promise<{deletedCount: number}> {
+    return this.trashService.deleteContext(contextId, adminId);
+  }
 }
@@ -3,10 +3,80 @@ import {BaseService, MongoDatabase} from '#root/shared/index.js';
 import {GLOBAL_TYPES} from '#root/types.js';
 import {inject, injectable} from 'inversify';
 import {ClientSession, ObjectId} from 'mongodb';
-import {IQuestion} from '#root/shared/interfaces/models.js';
-import {BadRequestError, InternalServerError} from 'routing-controllers';
-import {QuestionResponse} from '../classes/validators/QuestionValidators.js';
+import {
+  IAnswer,
+  IQuestion,
+  IQuestionTags,
+  IQuestionTransition,
+  QuestionStatus,
+} from '#root/shared/interfaces/models.js';
+import {
+  BadRequestError,
+  InternalServerError,
+  NotFoundError,
+} from 'routing-controllers';
+import {plainToInstance} from 'class-transformer';
+import {validate} from 'class-validator';
+import {
+  ImportQuestionRow,
+  ImportQuestionsResponse,
+  MergeQuestionResponse,
+  QuestionResponse,
+  QuestionSearchResponse,
+  QuestionStatusHistoryResponse,
+  QuestionTransitionResponse,
+  SearchQuestionsQuery,
+} from '../classes/validators/QuestionValidators.js';
 import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
+import {IContextRepository} from '#root/shared/database/interfaces/IContextRepository.js';
+import {IReviewerProfileRepository} from '#root/shared/database/interfaces/IReviewerProfileRepository.js';
+import {extractTags, normalizeTag} from '#root/utils/questionTags.js';
+import {getSearchTerms, highlightSnippet} from '#root/utils/highlight.js';
+import {JobQueueService} from '#root/shared/jobs/index.js';
+import {parseQuestionImport} from '#root/utils/questionImport.js';
+import {questionConfig} from '#root/config/questions.js';
+import {
+  TranslatedText,
+  TranslationService,
+} from '#root/shared/translation-service.js';
+import {detectLanguage} from '#root/utils/language.js';
+import {TrashCascade, TrashService} from '#root/shared/trash-service.js';
+import {AuditRecord, AuditService} from '#root/shared/audit-service.js';
+import {diffSnapshots, pickSnapshot} from '#root/utils/auditLog.js';
+import {
+  getAllowedQuestionTransitions,
+  QuestionActor,
+  QuestionLifecycleService,
+} from '#root/shared/question-lifecycle-service.js';
+
+const normalizeTagList = (values: string[] = []) => [
+  ...new Set(values.map(normalizeTag).filter(Boolean)),
+];
+
+const toCreatedQuestionRecord = (question: IQuestion): AuditRecord => ({
+  action: 'create',
+  entityType: 'question',
+  entityId: question._id!,
+  after: pickSnapshot(question, [
+    'question',
+    'context',
+    'tags',
+    'status',
+    'duplicateOf',
+    'source',
+  ]),
+});
+
+const toTransitionResponse = (
+  transition: IQuestionTransition,
+): QuestionTransitionResponse => ({
+  from: transition.from,
+  to: transition.to,
+  ...(transition.actorId && {actorId: transition.actorId.toString()}),
+  actorRole: transition.actorRole,
+  ...(transition.reason && {reason: transition.reason}),
+  at: new Date(transition.at).toISOString(),
+});
 
 @injectable()
 export class QuestionService extends BaseService {
@@ -15,6 +85,20 @@ export class QuestionService extends BaseService {
     private readonly questionRepo: IQuestionRepository,
     @inject(GLOBAL_TYPES.AnswerRepository)
     private readonly answerRepo: IAnswerRepository,
+    @inject(GLOBAL_TYPES.ContextRepository)
+    private readonly contextRepo: IContextRepository,
+    @inject(GLOBAL_TYPES.ReviewerProfileRepository)
+    private readonly reviewerProfileRepo: IReviewerProfileRepository,
+    @inject(GLOBAL_TYPES.JobQueueService)
+    private readonly jobQueue: JobQueueService,
+    @inject(GLOBAL_TYPES.TranslationService)
+    private readonly translationService: TranslationService,
+    @inject(GLOBAL_TYPES.QuestionLifecycleService)
+    private readonly questionLifecycle: QuestionLifecycleService,
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
+    @inject(GLOBAL_TYPES.TrashService)
+    private readonly trashService: TrashService,
 
     @inject(GLOBAL_TYPES.Database)
     private readonly mongoDatabase: MongoDatabase,
@@ -26,21 +110,141 @@ export class QuestionService extends BaseService {
     userId: string,
     contextId: string,
     questions: string[],
-  ): Promise<{insertedCount: number}> {
+  ): Promise<{insertedCount: number; duplicateCount: number}> {
     try {
       return this._withTransaction(async (session: ClientSession) => {
-        return this.questionRepo.addQuestions(
+        // Tag every question from the transcript and its own text so it reaches the right experts
+        const context = await this.contextRepo.getById(contextId, session);
+        const result = await this.questionRepo.addQuestions(
           userId,
           contextId,
-          questions,
+          questions.map(question => ({
+            question,
+            tags: extractTags(context?.text ?? '', question),
+          })),
+          undefined,
           session,
         );
+        await this.audit.record(
+          result.questions.map(toCreatedQuestionRecord),
+          session,
+        );
+        return {
+          insertedCount: result.insertedCount,
+          duplicateCount: result.duplicateCount,
+        };
       });
     } catch (error) {
       throw new InternalServerError(`Failed to add questions: ${error}`);
     }
   }
 
+  /**
+   * Imports questions from an uploaded CSV or JSON file. Every row is validated
+   * first; a dry run only reports the row errors, a real import inserts nothing
+   * unless every row is valid. Rows without tags are tagged like generated questions.
+   */
+  async importQuestions(
+    userId: string,
+    file: {buffer: Buffer; originalname: string; mimetype?: string},
+    contextId?: string,
+    dryRun = false,
+  ): Promise<ImportQuestionsResponse> {
+    let rawRows: Record<string, unknown>[];
+    try {
+      rawRows = parseQuestionImport(
+        file.buffer.toString('utf8'),
+        file.originalname,
+        file.mimetype,
+      );
+    } catch (error) {
+      throw new BadRequestError((error as Error).message);
+    }
+
+    const {maxRows, batchSize} = questionConfig.import;
+    if (rawRows.length === 0) {
+      throw new BadRequestError('The file contains no questions');
+    }
+    if (rawRows.length > maxRows) {
+      throw new BadRequestError(
+        `The file has ${rawRows.length} rows; at most ${maxRows} can be imported at once`,
+      );
+    }
+
+    const rows: ImportQuestionRow[] = [];
+    const errors: ImportQuestionsResponse['errors'] = [];
+    for (const [index, rawRow] of rawRows.entries()) {
+      const row = plainToInstance(ImportQuestionRow, rawRow);
+      const validationErrors = await validate(row);
+      if (validationErrors.length > 0) {
+        errors.push({
+          row: index + 1,
+          errors: validationErrors.flatMap(error =>
+            Object.values(error.constraints ?? {}),
+          ),
+        });
+      } else {
+        rows.push(row);
+      }
+    }
+
+    const report: ImportQuestionsResponse = {
+      dryRun,
+      totalRows: rawRows.length,
+      validRows: rows.length,
+      insertedCount: 0,
+      duplicateCount: 0,
+      errors,
+    };
+    if (dryRun) return report;
+    if (errors.length > 0) {
+      const [first] = errors;
+      throw new BadRequestError(
+        `${errors.length} of ${rawRows.length} rows are invalid, so nothing was imported ` +
+          `(row ${first.row}: ${first.errors.join('; ')}). Run a dry run to list every error.`,
+      );
+    }
+
+    return this._withTransaction(async (session: ClientSession) => {
+      let contextText = '';
+      if (contextId) {
+        const context = await this.contextRepo.getById(contextId, session);
+        if (!context) {
+          throw new NotFoundError(`Context with ID ${contextId} not found`);
+        }
+        contextText = context.text;
+      }
+
+      for (let start = 0; start < rows.length; start += batchSize) {
+        const batch = rows.slice(start, start + batchSize).map(row => ({
+          question: row.question.trim(),
+          tags:
+            row.topics || row.crops || row.regions
+              ? {
+                  topics: normalizeTagList(row.topics),
+                  crops: normalizeTagList(row.crops),
+                  regions: normalizeTagList(row.regions),
+                }
+              : extractTags(contextText, row.question),
+        }));
+        const result = await this.questionRepo.addQuestions(
+          userId,
+          contextId,
+          batch,
+          undefined,
+          session,
+        );
+        await this.audit.record(
+          result.questions.map(toCreatedQuestionRecord),
+          session,
+        );
+        report.insertedCount += result.insertedCount;
+        report.duplicateCount += result.duplicateCount;
+      }
+      return report;
+    });
+  }
+
   async getByContextId(contextId: string): Promise<IQuestion[]> {
     try {
       return this._withTransaction(async (session: ClientSession) => {
@@ -55,15 +259,21 @@ export class QuestionService extends BaseService {
     userId: string,
     page: number,
     limit: number,
-    filter: 'newest' | 'oldest' | 'leastResponses' | 'mostResponses'
+    filter: 'newest' | 'oldest' | 'leastResponses' | 'mostResponses',
   ): Promise<QuestionResponse[]> {
     try {
       return this._withTransaction(async (session: ClientSession) => {
+        // Experts see questions matching their expertise first; everyone else gets the plain feed
+        const profile = await this.reviewerProfileRepo.getByUserId(
+          userId,
+          session,
+        );
         return this.questionRepo.getUnAnsweredQuestions(
           userId,
           Number(page),
           Number(limit),
           filter,
+          profile?.expertise ?? [],
           session,
         );
       });
@@ -74,29 +284,148 @@ export class QuestionService extends BaseService {
     }
   }
 
-  async getQuestionById(questionId: string): Promise<QuestionResponse> {
-    try {
-      return this._withTransaction(async (session: ClientSession) => {
-        const currentQuestion = await this.questionRepo.getById(questionId);
-        const currentAnswers = await this.answerRepo.getByQuestionId(
-          questionId,
-          session,
+  async searchQuestions(
+    query: SearchQuestionsQuery,
+  ): Promise<QuestionSearchResponse> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    if (query.from && query.to && query.from > query.to) {
+      throw new BadRequestError('"from" must not be after "to"');
+    }
+    if (
+      query.minAnswers !== undefined &&
+      query.maxAnswers !== undefined &&
+      query.minAnswers > query.maxAnswers
+    ) {
+      throw new BadRequestError(
+        '"minAnswers" must not be greater than "maxAnswers"',
+      );
+    }
+
+    // Read-only, so no transaction: a single query plus a count
+    const {questions, total} = await this.questionRepo.searchQuestions(
+      {
+        text: query.q,
+        status: query.status,
+        from: query.from,
+        to: query.to,
+        contextId: query.contextId,
+        minAnswers: query.minAnswers,
+        maxAnswers: query.maxAnswers,
+      },
+      page,
+      limit,
+    );
+
+    const terms = getSearchTerms(query.q ?? '');
+    return {
+      questions: questions.map(question => {
+        const questionSnippet = highlightSnippet(question.question, terms);
+        const answerSnippet = highlightSnippet(
+          question.finalAnswerText ?? '',
+          terms,
         );
         return {
-          id: currentQuestion._id.toString(),
-          text: currentQuestion.question,
-          createdAt: new Date(currentQuestion.createdAt).toLocaleString(),
-          updatedAt: new Date(currentQuestion.updatedAt).toLocaleString(),
-          totalAnwersCount: currentQuestion.totalAnwersCount,
-          currentAnswers: currentAnswers.map(currentAnswer => ({
-            id: currentAnswer._id.toString(),
-            answer: currentAnswer.answer,
-            isFinalAnswer: currentAnswer.isFinalAnswer,
-            createdAt: currentAnswer.createdAt,
-          })),
+          id: question._id.toString(),
+          text: question.question,
+          status: question.status,
+          totalAnwersCount: question.totalAnwersCount,
+          contextId: question.context?.toString(),
+          createdAt: question.createdAt
+            ? new Date(question.createdAt).toISOString()
+            : undefined,
+          score: question.score,
+          highlights: {
+            ...(questionSnippet && {question: questionSnippet}),
+            ...(answerSnippet && {finalAnswer: answerSnippet}),
+          },
         };
-      });
+      }),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async getQuestionById(
+    questionId: string,
+    language?: string,
+  ): Promise<QuestionResponse> {
+    try {
+      const {currentQuestion, currentAnswers} = await this._withTransaction(
+        async (session: ClientSession) => ({
+          currentQuestion: await this.questionRepo.getById(questionId, session),
+          currentAnswers: await this.answerRepo.getByQuestionId(
+            questionId,
+            session,
+          ),
+        }),
+      );
+      if (!currentQuestion) {
+        throw new NotFoundError(`Question with ID ${questionId} not found`);
+      }
+
+      // Translation may call the AI server, so it runs after the transaction
+      const [question, ...answers]: TranslatedText[] = language
+        ? await this.translationService.translateTexts(
+            [
+              {
+                sourceType: 'question',
+                sourceId: questionId,
+                text: currentQuestion.question,
+                language: currentQuestion.language,
+              },
+              ...currentAnswers.map(currentAnswer => ({
+                sourceType: 'answer' as const,
+                sourceId: currentAnswer._id.toString(),
+                text: currentAnswer.answer,
+                language: currentAnswer.language,
+              })),
+            ],
+            language,
+          )
+        : [
+            {
+              text: currentQuestion.question,
+              language:
+                currentQuestion.language ??
+                detectLanguage(currentQuestion.question),
+            },
+            ...currentAnswers.map(currentAnswer => ({
+              text: currentAnswer.answer,
+              language:
+                currentAnswer.language ?? detectLanguage(currentAnswer.answer),
+            })),
+          ];
+
+      return {
+        id: currentQuestion._id.toString(),
+        text: question.text,
+        language: question.language,
+        ...(question.originalText !== undefined && {
+          originalText: question.originalText,
+          originalLanguage: question.originalLanguage,
+        }),
+        createdAt: new Date(currentQuestion.createdAt).toLocaleString(),
+        updatedAt: new Date(currentQuestion.updatedAt).toLocaleString(),
+        totalAnwersCount: currentQuestion.totalAnwersCount,
+        ...(currentQuestion.duplicateOf && {
+          duplicateOf: currentQuestion.duplicateOf.toString(),
+        }),
+        currentAnswers: currentAnswers.map((currentAnswer, index) => ({
+          id: currentAnswer._id.toString(),
+          answer: answers[index].text,
+          language: answers[index].language,
+          ...(answers[index].originalText !== undefined && {
+            originalAnswer: answers[index].originalText,
+            originalLanguage: answers[index].originalLanguage,
+          }),
+          isFinalAnswer: currentAnswer.isFinalAnswer,
+          createdAt: currentAnswer.createdAt,
+        })),
+      };
     } catch (error) {
+      if (error instanceof NotFoundError) throw error;
       throw new InternalServerError(
         `Failed to get unanswered questions: ${error}`,
       );
@@ -106,6 +435,7 @@ export class QuestionService extends BaseService {
   async updateQuestion(
     questionId: string,
     updates: Partial<IQuestion>,
+    actor: QuestionActor,
   ): Promise<{modifiedCount: number}> {
     try {
       return this._withTransaction(async (session: ClientSession) => {
@@ -118,25 +448,336 @@ export class QuestionService extends BaseService {
           throw new BadRequestError(`Question with ID ${questionId} not found`);
         }
 
-        return this.questionRepo.updateQuestion(questionId, updates, session);
+        // The status only moves through the lifecycle; resending the current one is not a change
+        const {status, statusHistory, ...fields} = updates;
+        let modifiedCount = 0;
+        if (Object.keys(fields).length > 0 || !status) {
+          ({modifiedCount} = await this.questionRepo.updateQuestion(
+            questionId,
+            fields,
+            session,
+          ));
+          await this.audit.record(
+            {
+              action: 'update',
+              entityType: 'question',
+              entityId: questionId,
+              ...diffSnapshots(existingQuestion, fields),
+            },
+            session,
+          );
+        }
+        if (status && status !== existingQuestion.status) {
+          await this.questionLifecycle.transition(
+            questionId,
+            status,
+            actor,
+            undefined,
+            session,
+          );
+          modifiedCount = 1;
+        }
+        return {modifiedCount};
       });
     } catch (error) {
       throw new InternalServerError(`Failed to update question: ${error}`);
     }
   }
 
-  async deleteQuestion(questionId: string): Promise<{deletedCount: number}> {
-    try {
-      return this._withTransaction(async (session: ClientSession) => {
-        const question = await this.questionRepo.getById(questionId, session);
-        if (!question) {
-          throw new BadRequestError(`Question with ID ${questionId} not found`);
-        }
+  async changeStatus(
+    questionId: string,
+    status: QuestionStatus,
+    actor: QuestionActor,
+    reason?: string,
+  ): Promise<QuestionTransitionResponse> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const transition = await this.questionLifecycle.transition(
+        questionId,
+        status,
+        actor,
+        reason,
+        session,
+      );
+      return toTransitionResponse(transition);
+    });
+  }
 
-        return this.questionRepo.deleteQuestion(questionId, session);
-      });
-    } catch (error) {
-      throw new InternalServerError(`Failed to delete question: ${error}`);
+  async getStatusHistory(
+    questionId: string,
+    actor: QuestionActor,
+  ): Promise<QuestionStatusHistoryResponse> {
+    const question = await this.questionRepo.getById(questionId);
+    if (!question?._id) {
+      throw new NotFoundError(`Question with ID ${questionId} not found`);
     }
+    return {
+      status: question.status,
+      allowedTransitions: getAllowedQuestionTransitions(question, actor),
+      history: (question.statusHistory ?? []).map(toTransitionResponse),
+    };
+  }
+
+  async updateTags(
+    adminId: string,
+    questionId: string,
+    tags: Omit<IQuestionTags, 'editedBy'>,
+  ): Promise<IQuestionTags> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const question = await this.questionRepo.getById(questionId, session);
+      if (!question?._id) {
+        throw new NotFoundError(`Question with ID ${questionId} not found`);
+      }
+
+      const updatedTags: IQuestionTags = {
+        topics: normalizeTagList(tags.topics),
+        crops: normalizeTagList(tags.crops),
+        regions: normalizeTagList(tags.regions),
+        editedBy: new ObjectId(adminId),
+      };
+
+      await this.questionRepo.updateQuestion(
+        questionId,
+        {tags: updatedTags},
+        session,
+      );
+      await this.audit.record(
+        {
+          action: 'update',
+          entityType: 'question',
+          entityId: questionId,
+          before: {tags: question.tags},
+          after: {tags: updatedTags},
+        },
+        session,
+      );
+      return updatedTags;
+    });
+  }
+
+  /**
+   * Merges a duplicate into its canonical question: answers move across (their
+   * peer reviews follow them), the canonical question keeps a single final answer,
+   * and the duplicate is closed. Experts who answered both keep their canonical
+   * answer; the moved one is frozen.
+   */
+  async mergeQuestions(
+    adminId: string,
+    duplicateId: string,
+    canonicalQuestionId?: string,
+  ): Promise<MergeQuestionResponse> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const duplicate = await this.questionRepo.getById(duplicateId, session);
+      if (!duplicate?._id) {
+        throw new NotFoundError(`Question with ID ${duplicateId} not found`);
+      }
+      if (duplicate.mergedAt) {
+        throw new BadRequestError('Question has already been merged');
+      }
+
+      const canonicalId =
+        canonicalQuestionId ?? duplicate.duplicateOf?.toString();
+      if (!canonicalId) {
+        throw new BadRequestError(
+          'Question is not linked to a canonical question; pass canonicalQuestionId',
+        );
+      }
+      if (canonicalId === duplicateId) {
+        throw new BadRequestError('A question cannot be merged into itself');
+      }
+
+      const canonical = await this.questionRepo.getById(canonicalId, session);
+      if (!canonical?._id) {
+        throw new NotFoundError(`Question with ID ${canonicalId} not found`);
+      }
+      if (canonical.duplicateOf) {
+        throw new BadRequestError(
+          `Question ${canonicalId} is itself a duplicate of ${canonical.duplicateOf}`,
+        );
+      }
+
+      const canonicalAnswers = await this.answerRepo.getByQuestionId(
+        canonicalId,
+        session,
+      );
+      const movedAnswers = await this.answerRepo.getByQuestionId(
+        duplicateId,
+        session,
+      );
+      await this.answerRepo.moveToQuestion(duplicateId, canonicalId, session);
+
+      const canonicalAuthors = new Set(
+        canonicalAnswers.map(a => a.authorId!.toString()),
+      );
+      for (const answer of movedAnswers) {
+        if (canonicalAuthors.has(answer.authorId!.toString())) {
+          await this.answerRepo.updateAnswer(
+            answer._id!.toString(),
+            {isFrozen: true},
+            session,
+          );
+        }
+      }
+
+      // The canonical question's final answer wins; otherwise the duplicate's carries over
+      const canonicalFinal = canonicalAnswers.find(a => a.isFinalAnswer);
+      const movedFinal = movedAnswers.find(a => a.isFinalAnswer);
+      const finalAnswer = canonicalFinal ?? movedFinal;
+      if (finalAnswer) {
+        await this.answerRepo.freezeOtherAnswers(
+          canonicalId,
+          finalAnswer._id!.toString(),
+          session,
+        );
+      }
+
+      const carriesFinal = !canonicalFinal && !!movedFinal;
+      await this.questionRepo.updateQuestion(
+        canonicalId,
+        {
+          totalAnwersCount: canonical.totalAnwersCount + movedAnswers.length,
+          ...(carriesFinal && {
+            finalAnswerText: movedFinal.answer,
+            ...(duplicate.finalReviewerID && {
+              finalReviewerID: duplicate.finalReviewerID,
+            }),
+          }),
+        },
+        session,
+      );
+      const admin: QuestionActor = {userId: adminId, role: 'admin'};
+      if (carriesFinal && canonical.status !== duplicate.status) {
+        await this.questionLifecycle.transition(
+          canonicalId,
+          duplicate.status,
+          admin,
+          `Final answer carried over from merged question ${duplicateId}`,
+          session,
+        );
+      } else if (canonical.status === 'open' && movedAnswers.length > 0) {
+        await this.questionLifecycle.transition(
+          canonicalId,
+          'under_review',
+          {role: 'system'},
+          `Answers moved from merged question ${duplicateId}`,
+          session,
+        );
+      }
+
+      await this.questionRepo.relinkDuplicates(
+        duplicateId,
+        canonicalId,
+        session,
+      );
+      await this.questionRepo.updateQuestion(
+        duplicateId,
+        {
+          duplicateOf: new ObjectId(canonicalId),
+          mergedAt: new Date(),
+          totalAnwersCount: 0,
+        },
+        session,
+      );
+      if (duplicate.status !== 'closed') {
+        await this.questionLifecycle.transition(
+          duplicateId,
+          'closed',
+          admin,
+          `Merged into question ${canonicalId}`,
+          session,
+        );
+      }
+
+      const frozenByFinal = (answer: Partial<IAnswer>) =>
+        !!finalAnswer && answer._id!.toString() !== finalAnswer._id!.toString();
+      await this.audit.record(
+        [
+          {
+            action: 'merge',
+            entityType: 'question',
+            entityId: duplicateId,
+            before: pickSnapshot(duplicate, [
+              'duplicateOf',
+              'totalAnwersCount',
+            ]),
+            after: {
+              duplicateOf: canonicalId,
+              totalAnwersCount: 0,
+              movedAnswerIds: movedAnswers.map(answer =>
+                answer._id!.toString(),
+              ),
+            },
+            actor: admin,
+          },
+          {
+            action: 'update',
+            entityType: 'question',
+            entityId: canonicalId,
+            before: pickSnapshot(canonical, [
+              'totalAnwersCount',
+              'finalAnswerText',
+              'finalReviewerID',
+            ]),
+            after: {
+              totalAnwersCount:
+                canonical.totalAnwersCount + movedAnswers.length,
+              ...(carriesFinal && {finalAnswerText: movedFinal.answer}),
+            },
+            actor: admin,
+          },
+          ...movedAnswers.map(
+            (answer): AuditRecord => ({
+              action: 'update',
+              entityType: 'answer',
+              entityId: answer._id!,
+              before: {questionId: duplicateId, isFrozen: !!answer.isFrozen},
+              after: {
+                questionId: canonicalId,
+                isFrozen:
+                  !!answer.isFrozen ||
+                  canonicalAuthors.has(answer.authorId!.toString()) ||
+                  frozenByFinal(answer),
+              },
+              actor: admin,
+            }),
+          ),
+          ...canonicalAnswers
+            .filter(answer => !answer.isFrozen && frozenByFinal(answer))
+            .map(
+              (answer): AuditRecord => ({
+                action: 'update',
+                entityType: 'answer',
+                entityId: answer._id!,
+                before: {isFrozen: false},
+                after: {isFrozen: true},
+                actor: admin,
+              }),
+            ),
+        ],
+        session,
+      );
+
+      // Similarity to the canonical question's answers is scored once the merge is committed
+      for (const answer of movedAnswers) {
+        await this.jobQueue.enqueue(
+          'score_similarity',
+          {answerId: answer._id!.toString()},
+          adminId,
+          session,
+        );
+      }
+
+      return {
+        canonicalQuestionId: canonicalId,
+        movedAnswerCount: movedAnswers.length,
+      };
+    });
+  }
+
+  // Moves the question, its answers and their reviews to the trash, from where it can be restored
+  async deleteQuestion(
+    questionId: string,
+    adminId: string,
+  ): Promise<{deletedCount: number} & TrashCascade> {
+    return this.trashService.deleteQuestion(questionId, adminId);
   }
 }
@@ -0,0 +1,92 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeEach} from 'vitest';
+import {AnswerService} from '../services/AnswerService.js';
+import {IAnswer, IAnswerRevision, IQuestion} from '#root/shared/interfaces/models.js';
+
+describe('Answer Revision Tests', () => {
+  const questionId = new ObjectId();
+  const answerId = new ObjectId();
+  const authorId = new ObjectId();
+  // Stands in for the transaction's session so reads can be checked against it
+  const session = {
+    startTransaction: () => {},
+    commitTransaction: async () => {},
+    abortTransaction: async () => {},
+    inTransaction: () => false,
+    endSession: async () => {},
+  };
+
+  let answer: IAnswer;
+  let revisions: IAnswerRevision[];
+  let questionSessions: unknown[];
+  let service: AnswerService;
+
+  beforeEach(() => {
+    answer = {
+      _id: answerId,
+      questionId,
+      authorId,
+      answerIteration: 1,
+      isFinalAnswer: false,
+      answer: 'Spray neem oil',
+    };
+    revisions = [];
+    questionSessions = [];
+
+    const answerRepo = {
+      getById: async () => ({...answer}),
+      updateAnswer: async (_id: string, updates: Partial<IAnswer>) => {
+        Object.assign(answer, updates);
+        return {modifiedCount: 1};
+      },
+    };
+    const questionRepo = {
+      getById: async (_id: string, questionSession?: unknown) => {
+        questionSessions.push(questionSession);
+        return {_id: questionId, question: 'How do I control aphids?', status: 'under_review'} as IQuestion;
+      },
+    };
+    const answerRevisionRepo = {
+      getRevisionsForAnswer: async () => revisions.map(revision => ({...revision})),
+      createRevision: async (revision: IAnswerRevision) => {
+        revisions.push({...revision, _id: new ObjectId(), createdAt: new Date()});
+      },
+    };
+
+    service = new AnswerService(
+      answerRepo as any,
+      questionRepo as any,
+      answerRevisionRepo as any,
+      {} as any,
+      {enqueue: async () => ({jobId: new ObjectId().toString()})} as any,
+      {} as any,
+      {record: async () => {}} as any,
+      {} as any,
+      {getClient: async () => ({startSession: () => session})} as any,
+    );
+  });
+
+  it('should keep both iterations and read the question within the transaction', async () => {
+    const result = await service.updateAnswer(answerId.toString(), authorId.toString(), {
+      answer: 'Spray neem oil every ten days',
+    });
+
+    expect(result).toEqual({modifiedCount: 1, answerIteration: 2});
+    expect(revisions.map(r => [r.iteration, r.answer])).toEqual([
+      [1, 'Spray neem oil'],
+      [2, 'Spray neem oil every ten days'],
+    ]);
+    expect(questionSessions).toEqual([session]);
+  });
+
+  it('should refuse to edit the elected final answer', async () => {
+    answer.isFinalAnswer = true;
+
+    await expect(
+      service.updateAnswer(answerId.toString(), authorId.toString(), {answer: 'Spray twice'}),
+    ).rejects.toMatchObject({httpCode: 400, message: expect.stringContaining('elected final')});
+    expect(answer.answer).toBe('Spray neem oil');
+    expect(revisions).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeEach} from 'vitest';
+import {IContext, IJob} from '#root/shared/interfaces/models.js';
+import {TranscribeAudioJobHandler} from '#root/shared/jobs/index.js';
+import {StubTranscriber} from '#root/shared/transcribers/index.js';
+
+describe('Audio Transcription Tests', () => {
+  const contextId = new ObjectId().toString();
+  const userId = new ObjectId().toString();
+  const recording = Buffer.from('fake opus frames');
+
+  let context: IContext;
+  let files: Map<string, Buffer>;
+  let enqueued: {type: string; payload: Record<string, unknown>}[];
+  let handler: TranscribeAudioJobHandler;
+
+  // In-memory stand-ins for the context collection, the storage and the queue
+  const contextRepo = {
+    getById: async () => ({...context}),
+    updateContext: async (_id: string, update: Partial<IContext>) => {
+      context = {...context, ...update};
+    },
+  };
+  const fileStorage = {
+    name: 'local',
+    read: async (key: string) => files.get(key) ?? null,
+  };
+  const jobQueue = {
+    enqueue: async (type: string, payload: Record<string, unknown>) => {
+      enqueued.push({type, payload});
+      return {jobId: new ObjectId().toString()};
+    },
+  };
+  // Transactions are no-ops in memory
+  const database = {
+    getClient: async () => ({
+      startSession: () => ({
+        startTransaction: () => {},
+        commitTransaction: async () => {},
+        abortTransaction: async () => {},
+        inTransaction: () => false,
+        endSession: async () => {},
+      }),
+    }),
+  };
+
+  const job = {payload: {contextId, userId}} as unknown as IJob;
+
+  const createHandler = (transcriber: {transcribe: StubTranscriber['transcribe']}) =>
+    new TranscribeAudioJobHandler(
+      contextRepo as any,
+      fileStorage as any,
+      transcriber,
+      jobQueue as any,
+      database as any,
+    );
+
+  beforeEach(() => {
+    context = {
+      _id: contextId,
+      text: '',
+      language: 'hi-IN',
+      audio: {storage: 'local', key: 'contexts/a.webm', mimeType: 'audio/webm', size: recording.length, uploadedBy: userId},
+      transcription: {status: 'pending'},
+    };
+    files = new Map([['contexts/a.webm', recording]]);
+    enqueued = [];
+    handler = createHandler(new StubTranscriber());
+  });
+
+  it('should store the transcript and queue question generation', async () => {
+    const result = await handler.handle(job);
+
+    expect(context.text).toBe(`Stub transcript of a ${recording.length} byte audio/webm recording.`);
+    expect(context.language).toBe('hi-IN');
+    expect(context.transcription).toMatchObject({status: 'completed', transcriber: 'stub'});
+    expect(enqueued).toEqual([{type: 'generate_questions', payload: {contextId, userId}}]);
+    expect(result.generateQuestionsJobId).toBeDefined();
+
+    // A retry after the transcript was stored does nothing
+    await handler.handle(job);
+    expect(enqueued).toHaveLength(1);
+  });
+
+  it('should record a failed transcription and rethrow so the job is retried', async () => {
+    handler = createHandler({
+      transcribe: async () => {
+        throw new Error('AI server unavailable');
+      },
+    });
+
+    await expect(handler.handle(job)).rejects.toThrow('AI server unavailable');
+    expect(context.transcription).toMatchObject({status: 'failed', error: 'Error: AI server unavailable'});
+    expect(context.text).toBe('');
+    expect(enqueued).toEqual([]);
+  });
+});
@@ -0,0 +1,21 @@
+import {describe, it, expect} from 'vitest';
+import {findMostSimilar} from '#root/utils/textSimilarity.js';
+
+describe('Duplicate Question Detection Tests', () => {
+  const existing = [
+    {id: 'q1', text: 'Which fertilizer should I use for wheat at sowing?'},
+    {id: 'q2', text: 'How do I control aphids on my mustard crop?'},
+  ];
+
+  it('should link a reworded question to the closest existing question', () => {
+    const match = findMostSimilar('How to control aphids on mustard crop?', existing, 0.8);
+
+    expect(match?.candidate.id).toBe('q2');
+    expect(match!.score).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('should not link questions below the cutoff', () => {
+    expect(findMostSimilar('When does the monsoon reach Kerala?', existing, 0.8)).toBeNull();
+    expect(findMostSimilar('How do I control aphids on my mustard crop?', [], 0.8)).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import {describe, it, expect} from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import {getRequestContext, redact, REDACTED} from '#root/shared/logging/index.js';
+import {loggingHandler} from '#root/shared/middleware/loggingHandler.js';
+
+describe('Logging Tests', () => {
+  it('should redact secrets, personal data and tokens inside text', () => {
+    const entry = redact({
+      user: {email: 'farmer@example.com', firstName: 'Asha', role: 'expert'},
+      headers: {authorization: 'Bearer abc.def.ghi'},
+      message: 'Login failed for farmer@example.com with Bearer eyJhbGciOi.eyJzdWIi.c2lnbmF0dXJl',
+    });
+
+    expect(entry).toEqual({
+      user: {email: REDACTED, firstName: REDACTED, role: 'expert'},
+      headers: {authorization: REDACTED},
+      message: `Login failed for [EMAIL] with Bearer ${REDACTED}`,
+    });
+  });
+
+  it('should return the request ID and expose it to code handling the request', async () => {
+    const app = express();
+    app.use(loggingHandler);
+    app.get('/ping', async (_req, res) => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      res.json({requestId: getRequestContext()?.requestId});
+    });
+
+    const generated = await request(app).get('/ping').expect(200);
+    expect(generated.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(generated.body.requestId).toBe(generated.headers['x-request-id']);
+
+    const forwarded = await request(app).get('/ping').set('X-Request-Id', 'gateway-1234abcd').expect(200);
+    expect(forwarded.headers['x-request-id']).toBe('gateway-1234abcd');
+
+    const unsafe = await request(app).get('/ping').set('X-Request-Id', 'bad id {"forged":true}').expect(200);
+    expect(unsafe.headers['x-request-id']).not.toContain('forged');
+  });
+});
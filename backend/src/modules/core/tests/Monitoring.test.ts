@@ -0,0 +1,46 @@
+import 'reflect-metadata';
+import {describe, it, expect} from 'vitest';
+import {createLogger} from 'winston';
+import {QuestionController} from '#root/modules/core/controllers/QuestionController.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {MonitoringService, resolveRouteLabel, UNMATCHED_ROUTE} from '#root/shared/monitoring/index.js';
+
+describe('Monitoring Tests', () => {
+  const silentLogger = new Logger(createLogger({silent: true}));
+
+  const createService = (ping: () => Promise<void>) =>
+    new MonitoringService(
+      {ping} as any,
+      {countByStatus: async () => 4} as any,
+      {countPendingReviews: async () => 7} as any,
+      {countOverdueAssignments: async () => 2} as any,
+      silentLogger,
+    );
+
+  it('should label requests with the route template of the matching action', () => {
+    expect(QuestionController).toBeDefined(); // Registers the controller's routes
+    expect(resolveRouteLabel('GET', '/api/questions/64b7f0c2a1b2c3d4e5f60718')).toBe('/api/questions/:questionId');
+    expect(resolveRouteLabel('POST', '/api/questions/import')).toBe('/api/questions/import');
+    expect(resolveRouteLabel('GET', '/assets/index.js')).toBe(UNMATCHED_ROUTE);
+  });
+
+  it('should report unavailable when the database cannot be reached', async () => {
+    const ready = await createService(async () => {}).checkReadiness();
+    const down = await createService(async () => {
+      throw new Error('connect ECONNREFUSED');
+    }).checkReadiness();
+
+    expect(ready.status).toBe('ready');
+    expect(down.status).toBe('unavailable');
+    expect(down.checks.database).toMatchObject({status: 'down', error: 'connect ECONNREFUSED'});
+  });
+
+  it('should render the domain gauges in the Prometheus text format', async () => {
+    const metrics = await createService(async () => {}).collectMetrics();
+
+    expect(metrics).toContain('# TYPE open_questions gauge\nopen_questions 4\n');
+    expect(metrics).toContain('pending_reviews 7\n');
+    expect(metrics).toContain('overdue_review_assignments 2\n');
+    expect(metrics).toContain('# TYPE http_request_duration_seconds histogram');
+  });
+});
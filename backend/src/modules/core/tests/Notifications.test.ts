@@ -0,0 +1,95 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeEach} from 'vitest';
+import {createLogger} from 'winston';
+import {NotificationService} from '#root/shared/notification-service.js';
+import {InMemoryMailTransport} from '#root/shared/mail/index.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {INotification, IReviewerAssignment, IUser} from '#root/shared/interfaces/models.js';
+
+describe('Notification Tests', () => {
+  const reviewerId = new ObjectId();
+  const answerId = new ObjectId();
+  const questionId = new ObjectId();
+
+  let user: IUser;
+  let assignment: IReviewerAssignment;
+  let transport: InMemoryMailTransport;
+  let stored: INotification[];
+  let service: NotificationService;
+
+  beforeEach(() => {
+    user = {
+      _id: reviewerId,
+      firebaseUID: 'uid',
+      email: 'expert@example.com',
+      firstName: 'Asha',
+      lastName: 'Rao',
+      role: 'expert',
+    } as IUser;
+    assignment = {
+      _id: new ObjectId(),
+      answerId,
+      reviewerId,
+      assignedAt: new Date(),
+      dueDate: new Date(Date.now() + 60 * 60 * 1000),
+      priority: 'high',
+      status: 'pending',
+    };
+    transport = new InMemoryMailTransport();
+    stored = [];
+    // Keyed by event like the repository, so a second delivery of the same event is not stored again
+    const notificationRepo = {
+      addNotification: async (notification: INotification) => {
+        if (stored.some(n => n.type === notification.type && n.entityId === notification.entityId)) return false;
+        stored.push(notification);
+        return true;
+      },
+    };
+    service = new NotificationService(
+      {} as any,
+      transport,
+      {findById: async () => user} as any,
+      {getById: async () => ({_id: questionId, question: 'How do I control <aphids> on mustard?'})} as any,
+      {getById: async () => ({_id: answerId, questionId})} as any,
+      {} as any,
+      {getAssignmentById: async () => assignment} as any,
+      notificationRepo as any,
+      new Logger(createLogger({silent: true})),
+    );
+  });
+
+  it('should notify the reviewer of a new assignment in the app and by e-mail with the question escaped', async () => {
+    const delivery = await service.deliver(reviewerId.toString(), {
+      type: 'review_assigned',
+      assignmentId: assignment._id!.toString(),
+    });
+
+    expect(delivery).toEqual({stored: true, emailed: true});
+    expect(stored).toHaveLength(1);
+    expect(stored[0].entityId).toBe(assignment._id!.toString());
+    expect(stored[0].title).toContain('New review assignment');
+    expect(transport.sent).toHaveLength(1);
+    const [mail] = transport.sent;
+    expect(mail.to).toBe('expert@example.com');
+    expect(mail.text).toContain('How do I control <aphids> on mustard?');
+    expect(mail.html).toContain('&lt;aphids&gt;');
+  });
+
+  it('should only e-mail users who did not turn the notification off and skip reminders that no longer apply', async () => {
+    const event = {type: 'review_deadline_approaching', assignmentId: assignment._id!.toString()} as const;
+
+    user.notificationPreferences = {email: {review_deadline_approaching: false}};
+    expect(await service.deliver(reviewerId.toString(), event)).toEqual({stored: true, emailed: false});
+    expect(stored).toHaveLength(1);
+
+    user.notificationPreferences = undefined;
+    assignment.status = 'completed';
+    expect(await service.deliver(reviewerId.toString(), event)).toEqual({
+      stored: false,
+      emailed: false,
+      skipped: 'outdated',
+    });
+    expect(transport.sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,241 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import Express from 'express';
+import {useContainer, useExpressServer} from 'routing-controllers';
+import {Container} from 'inversify';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeAll, beforeEach} from 'vitest';
+import {HttpErrorHandler} from '#shared/index.js';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {IUser, UserRole} from '#root/shared/interfaces/models.js';
+import {QuestionTransitionError} from '#root/shared/question-lifecycle-service.js';
+import {coreContainerModules} from '../index.js';
+import {QuestionController} from '../controllers/QuestionController.js';
+import {AnswerController} from '../controllers/AnswerController.js';
+
+describe('Question and Answer Controller Access Tests', () => {
+  const appInstance = Express();
+  const questionId = new ObjectId().toString();
+  const authorId = new ObjectId().toString();
+  const reviewerId = new ObjectId().toString();
+  let currentUser: IUser;
+  let app;
+
+  const signInAs = (role: UserRole, userId = new ObjectId().toString()) => {
+    currentUser = {
+      _id: userId,
+      firebaseUID: `uid-${userId}`,
+      email: `${role}@example.com`,
+      firstName: role,
+      role,
+    };
+  };
+
+  // Services are stubbed so only the ability checks are exercised
+  const questionServiceStub = {
+    updateQuestion: async () => ({modifiedCount: 1}),
+    deleteQuestion: async () => ({deletedCount: 1}),
+    changeStatus: async () => {
+      throw new QuestionTransitionError('A closed question cannot become draft; it can become open');
+    },
+    mergeQuestions: async (_adminId: string, _questionId: string, canonicalQuestionId: string) => ({
+      canonicalQuestionId,
+      movedAnswerCount: 2,
+    }),
+    importQuestions: async (_userId: string, file: {originalname: string}, _contextId: string, dryRun: boolean) => ({
+      dryRun,
+      totalRows: 1,
+      validRows: 1,
+      insertedCount: dryRun ? 0 : 1,
+      duplicateCount: 0,
+      errors: [],
+      fileName: file.originalname,
+    }),
+  };
+  const answerServiceStub = {
+    addAnswer: async () => ({insertedId: new ObjectId().toString()}),
+    getAnswerById: async (answerId: string) => ({_id: answerId, questionId, authorId}),
+    updateAnswer: async () => ({modifiedCount: 1, answerIteration: 2}),
+    getRevisionReaders: async () => ({authorId, reviewerIds: [reviewerId]}),
+    getRevisions: async (_answerId: string, includeAuthor: boolean) => [
+      {id: new ObjectId().toString(), iteration: 1, answer: 'Spray neem oil.', authorId: includeAuthor ? authorId : undefined},
+    ],
+    getRevisionDiff: async () => ({from: 1, to: 2, changes: [], addedWords: 0, removedWords: 0}),
+  };
+
+  beforeAll(async () => {
+    const container = new Container();
+    await container.load(...coreContainerModules);
+    (await container.rebind(GLOBAL_TYPES.QuestionService)).toConstantValue(questionServiceStub);
+    (await container.rebind(GLOBAL_TYPES.AnswerService)).toConstantValue(answerServiceStub);
+    useContainer(new InversifyAdapter(container));
+
+    app = useExpressServer(appInstance, {
+      controllers: [QuestionController, AnswerController],
+      validation: true,
+      defaultErrorHandler: false,
+      middlewares: [HttpErrorHandler],
+      authorizationChecker: async action => {
+        action.request.user = currentUser;
+        return true;
+      },
+      currentUserChecker: async () => currentUser,
+    });
+  }, 30000);
+
+  beforeEach(() => signInAs('user'));
+
+  describe('Question Write Access', () => {
+    it('should return 403 when a non-admin deletes a question', async () => {
+      for (const role of ['user', 'expert'] as UserRole[]) {
+        signInAs(role);
+        const response = await request(app).delete(`/questions/${questionId}`);
+        expect(response.status).toBe(403);
+      }
+    });
+
+    it('should return 403 when a non-admin updates a question', async () => {
+      signInAs('expert');
+      const response = await request(app)
+        .put(`/questions/${questionId}`)
+        .send({question: 'Edited question'});
+      expect(response.status).toBe(403);
+    });
+
+    it('should let an admin delete a question', async () => {
+      signInAs('admin');
+      const response = await request(app).delete(`/questions/${questionId}`);
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({deletedCount: 1});
+    });
+  });
+
+  describe('Question Status', () => {
+    it('should return 403 when an expert changes the status of a question', async () => {
+      signInAs('expert');
+      const response = await request(app)
+        .patch(`/questions/${questionId}/status`)
+        .send({status: 'closed'});
+      expect(response.status).toBe(403);
+    });
+
+    it('should reject an unknown status and report an illegal transition as 409', async () => {
+      signInAs('admin');
+      const invalid = await request(app)
+        .patch(`/questions/${questionId}/status`)
+        .send({status: 'archived'});
+      expect(invalid.status).toBe(400);
+
+      const illegal = await request(app)
+        .patch(`/questions/${questionId}/status`)
+        .send({status: 'draft', reason: 'Needs rewording'});
+      expect(illegal.status).toBe(409);
+      expect(illegal.body.message).toContain('cannot become draft');
+    });
+  });
+
+  describe('Question Merge Access', () => {
+    const canonicalQuestionId = new ObjectId().toString();
+
+    it('should return 403 when an expert merges a question', async () => {
+      signInAs('expert');
+      const response = await request(app)
+        .post(`/questions/${questionId}/merge`)
+        .send({canonicalQuestionId});
+      expect(response.status).toBe(403);
+    });
+
+    it('should let an admin merge a duplicate', async () => {
+      signInAs('admin');
+      const response = await request(app)
+        .post(`/questions/${questionId}/merge`)
+        .send({canonicalQuestionId});
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({canonicalQuestionId, movedAnswerCount: 2});
+    });
+  });
+
+  describe('Question Import', () => {
+    const csv = Buffer.from('question\nWhen should mustard be sown?\n');
+
+    it('should return 403 when an expert imports questions', async () => {
+      signInAs('expert');
+      const response = await request(app)
+        .post('/questions/import')
+        .attach('file', csv, 'questions.csv');
+      expect(response.status).toBe(403);
+    });
+
+    it('should pass the uploaded file and dry-run flag to the service', async () => {
+      signInAs('admin');
+      const response = await request(app)
+        .post('/questions/import')
+        .field('dryRun', 'true')
+        .attach('file', csv, 'questions.csv');
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({dryRun: true, insertedCount: 0, fileName: 'questions.csv'});
+    });
+  });
+
+  describe('Answer Access', () => {
+    it('should return 403 when a non-expert answers a question', async () => {
+      const response = await request(app)
+        .post('/answers')
+        .send({questionId, answer: 'Spray neem oil weekly.'});
+      expect(response.status).toBe(403);
+    });
+
+    it("should return 403 when an expert edits someone else's answer", async () => {
+      signInAs('expert');
+      const response = await request(app)
+        .patch(`/answers/${new ObjectId().toString()}`)
+        .send({answer: 'Edited answer'});
+      expect(response.status).toBe(403);
+    });
+
+    it('should let the author edit their own answer', async () => {
+      signInAs('expert', authorId);
+      const response = await request(app)
+        .patch(`/answers/${new ObjectId().toString()}`)
+        .send({answer: 'Edited answer'});
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('Answer Revision Access', () => {
+    const answerId = new ObjectId().toString();
+
+    it('should return 403 when an expert who neither wrote nor reviewed the answer reads its revisions', async () => {
+      signInAs('expert');
+      const revisions = await request(app).get(`/answers/${answerId}/revisions`);
+      const diff = await request(app).get(`/answers/${answerId}/revisions/diff`);
+      expect(revisions.status).toBe(403);
+      expect(diff.status).toBe(403);
+    });
+
+    it('should return 403 when a user without the expert or admin role reads revisions', async () => {
+      // Holding the author's or reviewer's ID is not enough without the role
+      for (const userId of [authorId, reviewerId]) {
+        signInAs('user', userId);
+        await request(app).get(`/answers/${answerId}/revisions`).expect(403);
+        await request(app).get(`/answers/${answerId}/revisions/diff`).expect(403);
+      }
+    });
+
+    it('should show the author only to the author and admins', async () => {
+      signInAs('expert', reviewerId);
+      const asReviewer = await request(app).get(`/answers/${answerId}/revisions`).expect(200);
+      expect(asReviewer.body[0]).not.toHaveProperty('authorId');
+      await request(app).get(`/answers/${answerId}/revisions/diff`).expect(200);
+
+      signInAs('expert', authorId);
+      const asAuthor = await request(app).get(`/answers/${answerId}/revisions`).expect(200);
+      expect(asAuthor.body[0].authorId).toBe(authorId);
+
+      signInAs('admin');
+      const asAdmin = await request(app).get(`/answers/${answerId}/revisions`).expect(200);
+      expect(asAdmin.body[0].authorId).toBe(authorId);
+    });
+  });
+});
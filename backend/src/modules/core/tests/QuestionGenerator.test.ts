@@ -0,0 +1,37 @@
+import 'reflect-metadata';
+import {describe, it, expect} from 'vitest';
+import {StubQuestionGenerator} from '#root/shared/question-generators/index.js';
+
+describe('Stub Question Generator Tests', () => {
+  const generator = new StubQuestionGenerator();
+  const text =
+    'My paddy leaves are turning yellow near the tips. ' +
+    'How much urea should I apply per acre for wheat? ' +
+    'The weather was nice yesterday. ' +
+    'Aphids are attacking the mustard crop in my field.';
+
+  it('should extract agricultural questions from the transcript', async () => {
+    const result = await generator.generateQuestions({text});
+
+    expect(result.generator).toBe('stub');
+    expect(result.promptVersion).toBe('stub-v1');
+    expect(result.questions).toEqual([
+      'How much urea should I apply per acre for wheat?',
+      'What is the recommended practice for the following: My paddy leaves are turning yellow near the tips?',
+      'What is the recommended practice for the following: Aphids are attacking the mustard crop in my field?',
+    ]);
+  });
+
+  it('should be deterministic', async () => {
+    const first = await generator.generateQuestions({text});
+    const second = await generator.generateQuestions({text});
+    expect(second).toEqual(first);
+  });
+
+  it('should return no questions for unrelated text', async () => {
+    const result = await generator.generateQuestions({
+      text: 'The weather was nice yesterday. We went to the market.',
+    });
+    expect(result.questions).toEqual([]);
+  });
+});
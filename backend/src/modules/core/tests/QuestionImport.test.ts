@@ -0,0 +1,45 @@
+import 'reflect-metadata';
+import {describe, it, expect} from 'vitest';
+import {ObjectId} from 'mongodb';
+import {parseQuestionImport} from '#root/utils/questionImport.js';
+import {QuestionService} from '../services/QuestionService.js';
+
+describe('Question Import Tests', () => {
+  it('should read questions and semicolon-separated tags from CSV', () => {
+    const csv =
+      'Question,Topics,Crops\r\n' +
+      '"Which insecticide controls aphids, and when?",Pest Management,mustard;wheat\r\n' +
+      'When should wheat be sown?,,\r\n';
+
+    expect(parseQuestionImport(csv, 'questions.csv')).toEqual([
+      {
+        question: 'Which insecticide controls aphids, and when?',
+        topics: ['Pest Management'],
+        crops: ['mustard', 'wheat'],
+      },
+      {question: 'When should wheat be sown?'},
+    ]);
+    expect(() => parseQuestionImport('text\nhello', 'questions.csv')).toThrow('"question" column');
+  });
+
+  it('should report every invalid row in a dry run without inserting', async () => {
+    // A dry run never reaches the repositories or the database
+    const service = new QuestionService(null, null, null, null, null, null, null, null, null, null);
+    const json = JSON.stringify([
+      'How do I treat leaf rust in wheat?',
+      {question: ''},
+      {question: 'Which variety suits Punjab?', crops: 'wheat'},
+    ]);
+
+    const report = await service.importQuestions(
+      new ObjectId().toString(),
+      {buffer: Buffer.from(json), originalname: 'questions.json', mimetype: 'application/json'},
+      undefined,
+      true,
+    );
+
+    expect(report).toMatchObject({dryRun: true, totalRows: 3, validRows: 1, insertedCount: 0});
+    expect(report.errors.map(error => error.row)).toEqual([2, 3]);
+    expect(report.errors[1].errors).toContain('crops must be an array');
+  });
+});
@@ -0,0 +1,70 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeEach} from 'vitest';
+import {IQuestion, IQuestionTransition} from '#root/shared/interfaces/models.js';
+import {
+  getAllowedQuestionTransitions,
+  QuestionLifecycleService,
+  QuestionTransitionError,
+} from '#root/shared/question-lifecycle-service.js';
+
+describe('Question Lifecycle Tests', () => {
+  const adminId = new ObjectId().toString();
+  let question: IQuestion;
+  let lifecycle: QuestionLifecycleService;
+
+  beforeEach(() => {
+    question = {
+      _id: new ObjectId(),
+      question: 'When should mustard be sown?',
+      userId: new ObjectId(),
+      status: 'open',
+      totalAnwersCount: 0,
+    };
+    // Applies the transition only while the question is still in `from`, like the repository
+    const questionRepo = {
+      getById: async () => ({...question}),
+      transitionStatus: async (_questionId: string, transition: IQuestionTransition) => {
+        if (question.status !== transition.from) return false;
+        question.status = transition.to;
+        question.statusHistory = [...(question.statusHistory ?? []), transition];
+        return true;
+      },
+    };
+    lifecycle = new QuestionLifecycleService(questionRepo as any, {record: async () => {}} as any);
+  });
+
+  it('should record who moved the question, when and why', async () => {
+    await lifecycle.transition(question._id!.toString(), 'under_review', {role: 'system'}, 'First answer submitted');
+    await lifecycle.transition(question._id!.toString(), 'closed', {userId: adminId, role: 'admin'}, 'Out of season');
+
+    expect(question.status).toBe('closed');
+    expect(question.statusHistory).toMatchObject([
+      {from: 'open', to: 'under_review', actorRole: 'system', reason: 'First answer submitted'},
+      {from: 'under_review', to: 'closed', actorRole: 'admin', reason: 'Out of season'},
+    ]);
+    expect(question.statusHistory![1].actorId!.toString()).toBe(adminId);
+    expect(question.statusHistory![1].at).toBeInstanceOf(Date);
+  });
+
+  it('should reject illegal transitions with a 409 and leave the question unchanged', async () => {
+    const admin = {userId: adminId, role: 'admin'} as const;
+
+    // Not a transition at all, reserved for the system, and blocked by a guard
+    await expect(lifecycle.transition(question._id!.toString(), 'open', admin)).rejects.toThrow('already open');
+    await expect(lifecycle.transition(question._id!.toString(), 'under_review', admin)).rejects.toThrow('automatically');
+    await expect(lifecycle.transition(question._id!.toString(), 'answered', admin)).rejects.toThrow('no final answer');
+
+    question.status = 'closed';
+    const error = await lifecycle.transition(question._id!.toString(), 'draft', admin).catch(e => e);
+    expect(error).toBeInstanceOf(QuestionTransitionError);
+    expect(error.httpCode).toBe(409);
+    expect(question.statusHistory).toBeUndefined();
+  });
+
+  it('should only offer the transitions the role may make now', () => {
+    question.totalAnwersCount = 2;
+    expect(getAllowedQuestionTransitions(question, {role: 'admin'})).toEqual(['closed']);
+    expect(getAllowedQuestionTransitions(question, {role: 'expert'})).toEqual([]);
+  });
+});
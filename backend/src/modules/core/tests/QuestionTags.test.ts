@@ -0,0 +1,28 @@
+import {describe, it, expect} from 'vitest';
+import {countTagMatches, extractTags, flattenTags, normalizeTag} from '#root/utils/questionTags.js';
+
+describe('Question Tag Tests', () => {
+  it('should tag topics, crops and regions from the transcript and question', () => {
+    const tags = extractTags(
+      'Farmers in Uttar Pradesh report aphids on their mustard fields this season.',
+      'Which insecticide controls aphids on mustard?',
+    );
+
+    expect(tags).toEqual({
+      topics: ['pest-management'],
+      crops: ['mustard'],
+      regions: ['uttar-pradesh'],
+    });
+  });
+
+  it('should only match whole words', () => {
+    const tags = extractTags('The grammar of the report was corrected.');
+
+    expect(flattenTags(tags)).toEqual([]);
+  });
+
+  it('should match expertise regardless of how an admin typed it', () => {
+    expect(normalizeTag(' Pest Management ')).toBe('pest-management');
+    expect(countTagMatches(['pest-management', 'wheat', 'punjab'], ['Pest Management', 'wheat', 'rice'])).toBe(2);
+  });
+});
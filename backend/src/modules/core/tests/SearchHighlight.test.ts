@@ -0,0 +1,29 @@
+import {describe, it, expect} from 'vitest';
+import {getSearchTerms, highlightSnippet} from '#root/utils/highlight.js';
+
+describe('Search Highlight Tests', () => {
+  it('should mark every word that starts with a search term', () => {
+    const snippet = highlightSnippet(
+      'Which insecticide controls aphids on mustard?',
+      getSearchTerms('Aphid mustard -wheat'),
+    );
+
+    expect(snippet).not.toBeNull();
+    const marked = snippet!.matches.map(({start, end}) => snippet!.text.slice(start, end));
+    expect(marked).toEqual(['aphids', 'mustard']);
+  });
+
+  it('should cut long text around the first match and keep offsets aligned', () => {
+    const text = `${'Farmers asked about the weather this week. '.repeat(10)}Leaf rust is spreading in wheat.`;
+    const snippet = highlightSnippet(text, ['rust'], 80);
+
+    expect(snippet!.text.startsWith('…')).toBe(true);
+    expect(snippet!.text.length).toBeLessThanOrEqual(82);
+    const [match] = snippet!.matches;
+    expect(snippet!.text.slice(match.start, match.end)).toBe('rust');
+  });
+
+  it('should return null when nothing matches', () => {
+    expect(highlightSnippet('Sowing time for mustard', ['aphid'])).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeEach} from 'vitest';
+import {ITranslation} from '#root/shared/interfaces/models.js';
+import {TranslationService} from '#root/shared/translation-service.js';
+import {StubTranslator} from '#root/shared/translators/index.js';
+import {detectLanguage} from '#root/utils/language.js';
+
+describe('Translation Tests', () => {
+  const questionId = new ObjectId().toString();
+  const answerId = new ObjectId().toString();
+
+  let stored: ITranslation[];
+  let translatorCalls: number;
+  let service: TranslationService;
+
+  // In-memory stand-in for the translations collection
+  const translationRepo = {
+    getTranslations: async (sources: ITranslation[], language: string) =>
+      stored.filter(t =>
+        t.language === language &&
+        sources.some(s => s.sourceId.toString() === t.sourceId.toString() && s.sourceHash === t.sourceHash),
+      ),
+    saveTranslations: async (translations: ITranslation[]) => {
+      stored.push(...translations);
+    },
+  };
+
+  beforeEach(() => {
+    stored = [];
+    translatorCalls = 0;
+    const stub = new StubTranslator();
+    service = new TranslationService(translationRepo as any, {
+      translate: (...args: Parameters<StubTranslator['translate']>) => {
+        translatorCalls++;
+        return stub.translate(...args);
+      },
+    });
+  });
+
+  it('should detect the language from the script', () => {
+    expect(detectLanguage('How much urea should I apply to wheat?')).toBe('en-IN');
+    expect(detectLanguage('गेहूं में कितना यूरिया डालें?')).toBe('hi-IN');
+    expect(detectLanguage('गव्हाला किती युरिया द्यावा आणि कधी?')).toBe('mr-IN');
+    expect(detectLanguage('ਕਣਕ ਵਿੱਚ ਕਿੰਨਾ ਯੂਰੀਆ ਪਾਈਏ?')).toBe('pa-IN');
+    expect(detectLanguage('')).toBe('en-IN');
+  });
+
+  it('should translate only texts in another language and keep the original', async () => {
+    const [question, answer] = await service.translateTexts(
+      [
+        {sourceType: 'question', sourceId: questionId, text: 'गेहूं में कितना यूरिया डालें?', language: 'hi-IN'},
+        {sourceType: 'answer', sourceId: answerId, text: 'Apply 50 kg urea per acre.'},
+      ],
+      'hi-IN',
+    );
+
+    expect(question).toEqual({text: 'गेहूं में कितना यूरिया डालें?', language: 'hi-IN'});
+    expect(answer).toEqual({
+      text: '[hi-IN] Apply 50 kg urea per acre.',
+      language: 'hi-IN',
+      originalText: 'Apply 50 kg urea per acre.',
+      originalLanguage: 'en-IN',
+    });
+  });
+
+  it('should reuse cached translations until the source text changes', async () => {
+    const answer = {sourceType: 'answer' as const, sourceId: answerId, text: 'Apply 50 kg urea per acre.'};
+
+    await service.translateTexts([answer], 'mr-IN');
+    await service.translateTexts([answer], 'mr-IN');
+    expect(translatorCalls).toBe(1);
+
+    const [edited] = await service.translateTexts([{...answer, text: 'Apply 40 kg urea per acre.'}], 'mr-IN');
+    expect(translatorCalls).toBe(2);
+    expect(edited.text).toBe('[mr-IN] Apply 40 kg urea per acre.');
+  });
+});
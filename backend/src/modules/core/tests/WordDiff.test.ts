@@ -0,0 +1,32 @@
+import {describe, it, expect} from 'vitest';
+import {diffWords} from '#root/utils/wordDiff.js';
+
+describe('Word Diff Tests', () => {
+  it('should report added and removed words in text order', () => {
+    const changes = diffWords(
+      'Spray neem oil once on the crop.',
+      'Spray neem oil every ten days on the mustard crop.',
+    );
+
+    expect(changes).toEqual([
+      {type: 'equal', text: 'Spray neem oil'},
+      {type: 'removed', text: 'once'},
+      {type: 'added', text: 'every ten days'},
+      {type: 'equal', text: 'on the'},
+      {type: 'added', text: 'mustard'},
+      {type: 'equal', text: 'crop.'},
+    ]);
+  });
+
+  it('should ignore whitespace differences', () => {
+    expect(diffWords('Apply  urea\nin two splits', 'Apply urea in two\tsplits')).toEqual([
+      {type: 'equal', text: 'Apply urea in two splits'},
+    ]);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords('', 'New answer')).toEqual([{type: 'added', text: 'New answer'}]);
+    expect(diffWords('Old answer', '')).toEqual([{type: 'removed', text: 'Old answer'}]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
@@ -0,0 +1,21 @@
+import {AbilityBuilder, createMongoAbility, MongoAbility} from '@casl/ability';
+import {AuthenticatedUser} from '#root/shared/functions/AbilityDecorator.js';
+
+export type ExportActions = 'manage' | 'read';
+
+export type ExportSubjects = 'GoldenDataset' | 'all';
+
+export type ExportAbility = MongoAbility<[ExportActions, ExportSubjects]>;
+
+/**
+ * Abilities for dataset exports: only admins can export the golden Q&A dataset.
+ */
+export function getExportAbility(user: AuthenticatedUser): ExportAbility {
+  const {can, build} = new AbilityBuilder<ExportAbility>(createMongoAbility);
+
+  if (user.globalRole === 'admin') {
+    can('manage', 'all');
+  }
+
+  return build();
+}
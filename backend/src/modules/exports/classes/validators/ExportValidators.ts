@@ -0,0 +1,35 @@
+import {Type} from 'class-transformer';
+import {IsDate, IsIn, IsOptional} from 'class-validator';
+import {JSONSchema} from 'class-validator-jsonschema';
+import {GoldenDatasetFormat} from '#root/utils/goldenDataset.js';
+
+const GOLDEN_DATASET_FORMATS: GoldenDatasetFormat[] = ['jsonl', 'csv', 'text'];
+
+class ExportGoldenDatasetQuery {
+  @JSONSchema({
+    description:
+      'File format; text uses the "Question: ...\\n\\nAnswer: ..." layout of agri_qa',
+    example: 'jsonl',
+    type: 'string',
+    enum: GOLDEN_DATASET_FORMATS,
+  })
+  @IsOptional()
+  @IsIn(GOLDEN_DATASET_FORMATS)
+  format?: 'jsonl' | 'csv' | 'text'; // Spelled out so query parsing sees a string type
+
+  @JSONSchema({
+    description:
+      'Watermark of the previous export (X-Export-Watermark); only answers finalised or edited after it are exported',
+    example: '2025-01-01T00:00:00.000Z',
+    type: 'string',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  since?: Date;
+}
+
+export const EXPORT_VALIDATORS = [ExportGoldenDatasetQuery];
+
+export {ExportGoldenDatasetQuery};
@@ -0,0 +1,15 @@
+import {ContainerModule} from 'inversify';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {ExportController} from './controllers/ExportController.js';
+import {GoldenDatasetService} from './services/GoldenDatasetService.js';
+
+export const exportsContainerModule = new ContainerModule(options => {
+  // Controllers
+  options.bind(ExportController).toSelf().inSingletonScope();
+
+  // Services
+  options
+    .bind(GLOBAL_TYPES.GoldenDatasetService)
+    .to(GoldenDatasetService)
+    .inSingletonScope();
+});
@@ -0,0 +1,68 @@
+import 'reflect-metadata';
+import {
+  JsonController,
+  Get,
+  Authorized,
+  QueryParams,
+  Res,
+  ForbiddenError,
+} from 'routing-controllers';
+import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
+import {inject, injectable} from 'inversify';
+import type {Response} from 'express';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
+import {
+  Ability,
+  AbilityContext,
+} from '#root/shared/functions/AbilityDecorator.js';
+import {ExportAbility, getExportAbility} from '../abilities/exportAbilities.js';
+import {GoldenDatasetService} from '../services/GoldenDatasetService.js';
+import {ExportGoldenDatasetQuery} from '../classes/validators/ExportValidators.js';
+
+@OpenAPI({
+  tags: ['exports'],
+  description: 'Dataset exports for downstream services',
+})
+@injectable()
+@JsonController('/exports')
+export class ExportController {
+  constructor(
+    @inject(GLOBAL_TYPES.GoldenDatasetService)
+    private readonly goldenDatasetService: GoldenDatasetService,
+  ) {}
+
+  @Get('/golden-qa')
+  @Authorized()
+  @OpenAPI({
+    summary: 'Export finalised question and answer pairs',
+    description:
+      'Downloads every question with a final answer as JSONL, CSV or agri_qa text. The X-Export-Watermark header can be passed back as `since` for an incremental export.',
+  })
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async exportGoldenDataset(
+    @QueryParams() query: ExportGoldenDatasetQuery,
+    @Ability(getExportAbility) {ability}: AbilityContext<ExportAbility>,
+    @Res() res: Response,
+  ): Promise<Response> {
+    if (ability.cannot('read', 'GoldenDataset')) {
+      throw new ForbiddenError('Only admins can export the golden dataset');
+    }
+
+    const result = await this.goldenDatasetService.exportDataset(
+      query.format ?? 'jsonl',
+      query.since,
+    );
+
+    res.setHeader('Content-Type', `${result.contentType}; charset=utf-8`);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${result.fileName}"`,
+    );
+    res.setHeader('X-Export-Count', String(result.count));
+    if (result.watermark) {
+      res.setHeader('X-Export-Watermark', result.watermark.toISOString());
+    }
+    return res.send(result.content);
+  }
+}
@@ -0,0 +1,29 @@
+import {sharedContainerModule} from '#root/container.js';
+import {Container, ContainerModule} from 'inversify';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {useContainer} from 'routing-controllers';
+import {ExportController} from './controllers/ExportController.js';
+import {exportsContainerModule} from './container.js';
+import {EXPORT_VALIDATORS} from './classes/validators/ExportValidators.js';
+
+// Export names that loadAppModules expects
+export const exportsModuleControllers: Function[] = [ExportController];
+
+// Export container modules for loadAppModules
+export const exportsContainerModules: ContainerModule[] = [
+  exportsContainerModule,
+  sharedContainerModule,
+];
+
+// This sets up Inversify bindings for the exports module
+export async function setupExportsContainer(): Promise<void> {
+  const container = new Container();
+  await container.load(...exportsContainerModules);
+  const inversifyAdapter = new InversifyAdapter(container);
+  useContainer(inversifyAdapter);
+}
+
+export const exportsModuleValidators: Function[] = [...EXPORT_VALIDATORS];
+
+// Export all the main components for external use
+export * from './controllers/ExportController.js';
@@ -0,0 +1,138 @@
+import {inject, injectable} from 'inversify';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
+import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {IContextRepository} from '#root/shared/database/interfaces/IContextRepository.js';
+import {IPeerReviewRepository} from '#root/shared/database/interfaces/IPeerReviewRepository.js';
+import {IContext} from '#root/shared/interfaces/models.js';
+import {flattenTags} from '#root/utils/questionTags.js';
+import {
+  GOLDEN_DATASET_CONTENT_TYPES,
+  GoldenDatasetFormat,
+  GoldenQaRecord,
+  serializeGoldenDataset,
+} from '#root/utils/goldenDataset.js';
+
+export interface GoldenDatasetExport {
+  content: string;
+  contentType: string;
+  fileName: string;
+  count: number;
+  watermark: Date | null; // Pass as `since` next time to export only what changed
+}
+
+const FILE_EXTENSIONS: Record<GoldenDatasetFormat, string> = {
+  jsonl: 'jsonl',
+  csv: 'csv',
+  text: 'txt',
+};
+
+/**
+ * Publishes expert-finalised answers as the golden Q&A dataset the retrieval
+ * service loads. Exports are incremental when given a watermark: a final
+ * answer is exported again whenever it changes, so re-exported pairs replace earlier ones.
+ */
+@injectable()
+export class GoldenDatasetService {
+  constructor(
+    @inject(GLOBAL_TYPES.AnswerRepository)
+    private readonly answerRepo: IAnswerRepository,
+    @inject(GLOBAL_TYPES.QuestionRepository)
+    private readonly questionRepo: IQuestionRepository,
+    @inject(GLOBAL_TYPES.ContextRepository)
+    private readonly contextRepo: IContextRepository,
+    @inject(GLOBAL_TYPES.PeerReviewRepository)
+    private readonly peerReviewRepo: IPeerReviewRepository,
+  ) {}
+
+  async exportDataset(
+    format: GoldenDatasetFormat,
+    since?: Date,
+  ): Promise<GoldenDatasetExport> {
+    const {records, watermark} = await this.getRecords(since);
+    return {
+      content: serializeGoldenDataset(records, format),
+      contentType: GOLDEN_DATASET_CONTENT_TYPES[format],
+      fileName: `golden-qa-${(watermark ?? new Date()).toISOString().replace(/[:.]/g, '-')}.${FILE_EXTENSIONS[format]}`,
+      count: records.length,
+      watermark,
+    };
+  }
+
+  // Records for every final answer changed after `since`, oldest change first
+  async getRecords(
+    since?: Date,
+  ): Promise<{records: GoldenQaRecord[]; watermark: Date | null}> {
+    const answers = await this.answerRepo.getFinalAnswers(since);
+    const questions = await this.questionRepo.getByIds([
+      ...new Set(answers.map(answer => answer.questionId.toString())),
+    ]);
+    const questionsById = new Map(
+      questions.map(question => [question._id!.toString(), question]),
+    );
+
+    const contexts = new Map<string, IContext | null>();
+    const records: GoldenQaRecord[] = [];
+    for (const answer of answers) {
+      const question = questionsById.get(answer.questionId.toString());
+      if (!question) continue;
+
+      const contextId = question.context?.toString();
+      if (contextId && !contexts.has(contextId)) {
+        contexts.set(contextId, await this.contextRepo.getById(contextId));
+      }
+
+      const reviews = (
+        await this.peerReviewRepo.getReviewsForAnswer(answer._id!.toString())
+      ).filter(
+        review => review.status === 'submitted' && review.score !== undefined,
+      );
+      const averageScore = reviews.length
+        ? Number(
+            (
+              reviews.reduce((sum, review) => sum + review.score!, 0) /
+              reviews.length
+            ).toFixed(2),
+          )
+        : null;
+
+      records.push({
+        questionId: question._id!.toString(),
+        question: question.question,
+        answerId: answer._id!.toString(),
+        answer: answer.answer,
+        authorId: answer.authorId.toString(),
+        ...(contextId && {contextId}),
+        context: (contextId && contexts.get(contextId)?.text) || '',
+        tags: flattenTags(question.tags),
+        reviewers: reviews.map(review => ({
+          reviewerId: review.reviewerId.toString(),
+          score: review.score!,
+          ...(review.submittedAt && {
+            submittedAt: new Date(review.submittedAt).toISOString(),
+          }),
+        })),
+        averageScore,
+        ...(question.finalReviewerID && {
+          finalReviewerId: question.finalReviewerID.toString(),
+        }),
+        ...(question.createdAt && {
+          questionCreatedAt: new Date(question.createdAt).toISOString(),
+        }),
+        ...(answer.createdAt && {
+          answeredAt: new Date(answer.createdAt).toISOString(),
+        }),
+        finalizedAt: new Date(
+          answer.updatedAt ?? answer.createdAt!,
+        ).toISOString(),
+      });
+    }
+
+    // Answers come sorted by their last change, so the last one is the newest
+    const last = answers[answers.length - 1];
+    const watermark = last
+      ? new Date(last.updatedAt ?? last.createdAt!)
+      : (since ?? null);
+    return {records, watermark};
+  }
+}
@@ -0,0 +1,91 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import Express from 'express';
+import {useContainer, useExpressServer} from 'routing-controllers';
+import {Container} from 'inversify';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeAll, beforeEach, vi} from 'vitest';
+import {HttpErrorHandler} from '#shared/index.js';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {IUser, UserRole} from '#root/shared/interfaces/models.js';
+import {exportsContainerModules} from '../index.js';
+import {ExportController} from '../controllers/ExportController.js';
+
+describe('Export Controller Integration Tests', () => {
+  const appInstance = Express();
+  const watermark = new Date('2025-03-01T10:00:00.000Z');
+  let currentUser: IUser;
+  let app;
+
+  const signInAs = (role: UserRole) => {
+    currentUser = {
+      _id: new ObjectId().toString(),
+      firebaseUID: `uid-${role}`,
+      email: `${role}@example.com`,
+      firstName: role,
+      role,
+    };
+  };
+
+  // The service is stubbed so only routing, validation and access checks are exercised
+  const goldenDatasetServiceStub = {
+    exportDataset: vi.fn(async () => ({
+      content: 'question_id,question\r\n',
+      contentType: 'text/csv',
+      fileName: 'golden-qa.csv',
+      count: 0,
+      watermark,
+    })),
+  };
+
+  beforeAll(async () => {
+    const container = new Container();
+    await container.load(...exportsContainerModules);
+    (await container.rebind(GLOBAL_TYPES.GoldenDatasetService)).toConstantValue(goldenDatasetServiceStub);
+    useContainer(new InversifyAdapter(container));
+
+    app = useExpressServer(appInstance, {
+      controllers: [ExportController],
+      validation: true,
+      defaultErrorHandler: false,
+      middlewares: [HttpErrorHandler],
+      authorizationChecker: async action => {
+        action.request.user = currentUser;
+        return true;
+      },
+      currentUserChecker: async () => currentUser,
+    });
+  }, 30000);
+
+  beforeEach(() => signInAs('admin'));
+
+  it('should return 403 when a non-admin exports the dataset', async () => {
+    for (const role of ['user', 'expert'] as UserRole[]) {
+      signInAs(role);
+      const response = await request(app).get('/exports/golden-qa');
+      expect(response.status).toBe(403);
+    }
+  });
+
+  it('should download the export with its watermark', async () => {
+    const response = await request(app)
+      .get('/exports/golden-qa')
+      .query({format: 'csv', since: '2025-01-01T00:00:00.000Z'});
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/csv');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="golden-qa.csv"');
+    expect(response.headers['x-export-watermark']).toBe(watermark.toISOString());
+    expect(response.text).toBe('question_id,question\r\n');
+    expect(goldenDatasetServiceStub.exportDataset).toHaveBeenCalledWith(
+      'csv',
+      new Date('2025-01-01T00:00:00.000Z'),
+    );
+  });
+
+  it('should reject an unknown format', async () => {
+    const response = await request(app).get('/exports/golden-qa').query({format: 'xml'});
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,122 @@
+import {describe, it, expect} from 'vitest';
+import {ObjectId} from 'mongodb';
+import {IAnswer, IPeerReview, IQuestion} from '#root/shared/interfaces/models.js';
+import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
+import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {IContextRepository} from '#root/shared/database/interfaces/IContextRepository.js';
+import {IPeerReviewRepository} from '#root/shared/database/interfaces/IPeerReviewRepository.js';
+import {GoldenQaRecord, serializeGoldenDataset} from '#root/utils/goldenDataset.js';
+import {GoldenDatasetService} from '../services/GoldenDatasetService.js';
+
+describe('Golden Dataset Export Tests', () => {
+  const contextId = new ObjectId().toString();
+  const reviewerId = new ObjectId().toString();
+
+  const question = (id: string, text: string): IQuestion => ({
+    _id: id,
+    question: text,
+    context: contextId,
+    status: 'closed',
+    totalAnwersCount: 1,
+    tags: {topics: ['pest-management'], crops: ['mustard'], regions: []},
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+  });
+  const finalAnswer = (questionId: string, text: string, updatedAt: string): IAnswer => ({
+    _id: new ObjectId().toString(),
+    questionId,
+    authorId: new ObjectId().toString(),
+    answerIteration: 1,
+    isFinalAnswer: true,
+    answer: text,
+    createdAt: new Date('2025-01-02T00:00:00.000Z'),
+    updatedAt: new Date(updatedAt),
+  });
+
+  const q1 = new ObjectId().toString();
+  const q2 = new ObjectId().toString();
+  const questions = [
+    question(q1, 'How do I control aphids on mustard?'),
+    question(q2, 'When should mustard be sown?'),
+  ];
+  const answers = [
+    finalAnswer(q1, 'Spray neem oil, then imidacloprid if the attack continues.', '2025-02-01T00:00:00.000Z'),
+    finalAnswer(q2, 'Sow in the first half of October.', '2025-03-01T00:00:00.000Z'),
+  ];
+  const reviews: IPeerReview[] = [
+    {answerId: answers[0]._id!, reviewerId, score: 4, status: 'submitted', assignedAt: new Date()},
+    {answerId: answers[0]._id!, reviewerId, score: 5, status: 'submitted', assignedAt: new Date()},
+    {answerId: answers[0]._id!, reviewerId, status: 'cancelled', assignedAt: new Date()},
+  ];
+
+  const service = new GoldenDatasetService(
+    {
+      getFinalAnswers: async (since?: Date) =>
+        answers.filter(answer => !since || answer.updatedAt! > since),
+    } as unknown as IAnswerRepository,
+    {
+      getByIds: async (ids: string[]) => questions.filter(q => ids.includes(q._id!.toString())),
+    } as unknown as IQuestionRepository,
+    {
+      getById: async () => ({_id: contextId, text: 'Farmers report aphids on mustard.'}),
+    } as unknown as IContextRepository,
+    {
+      getReviewsForAnswer: async (answerId: string) =>
+        reviews.filter(review => review.answerId === answerId),
+    } as unknown as IPeerReviewRepository,
+  );
+
+  it('should export every final answer with its metadata and watermark', async () => {
+    const {records, watermark} = await service.getRecords();
+
+    expect(records.map(record => record.questionId)).toEqual([q1, q2]);
+    expect(records[0]).toMatchObject({
+      question: 'How do I control aphids on mustard?',
+      context: 'Farmers report aphids on mustard.',
+      tags: ['pest-management', 'mustard'],
+      averageScore: 4.5,
+      finalizedAt: '2025-02-01T00:00:00.000Z',
+    });
+    expect(records[0].reviewers).toHaveLength(2);
+    expect(records[1].averageScore).toBeNull();
+    expect(watermark).toEqual(new Date('2025-03-01T00:00:00.000Z'));
+  });
+
+  it('should only export answers changed after the watermark', async () => {
+    const since = new Date('2025-02-01T00:00:00.000Z');
+    const {records, watermark} = await service.getRecords(since);
+    expect(records.map(record => record.questionId)).toEqual([q2]);
+    expect(watermark).toEqual(new Date('2025-03-01T00:00:00.000Z'));
+
+    // Nothing new keeps the old watermark
+    const empty = await service.exportDataset('jsonl', watermark!);
+    expect(empty).toMatchObject({count: 0, content: '', watermark});
+  });
+
+  it('should write JSONL, CSV and agri_qa text', () => {
+    const record: GoldenQaRecord = {
+      questionId: q1,
+      question: 'Is "neem oil" safe, for bees?',
+      answerId: answers[0]._id!.toString(),
+      answer: 'Yes, when sprayed\nin the evening.',
+      authorId: answers[0].authorId.toString(),
+      contextId,
+      context: '',
+      tags: ['pest-management'],
+      reviewers: [{reviewerId, score: 4}],
+      averageScore: 4,
+      finalizedAt: '2025-02-01T00:00:00.000Z',
+    };
+
+    const [line] = serializeGoldenDataset([record], 'jsonl').trimEnd().split('\n');
+    expect(JSON.parse(line).text).toBe(
+      'Question: Is "neem oil" safe, for bees?\n\nAnswer: Yes, when sprayed\nin the evening.',
+    );
+
+    const [header, row] = serializeGoldenDataset([record], 'csv').split('\r\n');
+    expect(header.split(',')[1]).toBe('question');
+    expect(row).toContain('"Is ""neem oil"" safe, for bees?"');
+    expect(row).toContain('"Yes, when sprayed\nin the evening."');
+
+    expect(serializeGoldenDataset([record, record], 'text').split('\n\n---\n\n')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,31 @@
+import {
+  AbilityBuilder,
+  createMongoAbility,
+  ForcedSubject,
+  MongoAbility,
+} from '@casl/ability';
+import {AuthenticatedUser} from '#root/shared/functions/AbilityDecorator.js';
+
+export type JobActions = 'manage' | 'read';
+
+// Resource-level checks need the job creator; ids are compared as strings
+export type JobSubject = ForcedSubject<'Job'> & {createdBy?: string};
+
+export type JobSubjects = 'Job' | JobSubject | 'all';
+
+export type JobAbility = MongoAbility<[JobActions, JobSubjects]>;
+
+/**
+ * Abilities for background jobs: users follow the jobs they started, admins see all jobs.
+ */
+export function getJobAbility(user: AuthenticatedUser): JobAbility {
+  const {can, build} = new AbilityBuilder<JobAbility>(createMongoAbility);
+
+  can('read', 'Job', {createdBy: user.userId});
+
+  if (user.globalRole === 'admin') {
+    can('manage', 'all');
+  }
+
+  return build();
+}
@@ -0,0 +1,93 @@
+import {IsMongoId} from 'class-validator';
+import {JSONSchema} from 'class-validator-jsonschema';
+import {JobStatus, JobType} from '#root/shared/interfaces/models.js';
+
+class JobIdParam {
+  @JSONSchema({
+    description: 'MongoDB ObjectId of the job',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsMongoId()
+  jobId: string;
+}
+
+class JobStatusResponse {
+  @JSONSchema({
+    description: 'Unique job identifier',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  _id: string;
+
+  @JSONSchema({
+    description: 'Kind of work the job performs',
+    example: 'generate_questions',
+    type: 'string',
+    enum: [
+      'generate_questions',
+      'assign_reviewers',
+      'score_similarity',
+      'transcribe_audio',
+      'send_notification',
+    ],
+  })
+  type: JobType;
+
+  @JSONSchema({
+    description:
+      'pending and failed jobs are waiting for a (re)try, dead jobs have exhausted their attempts',
+    example: 'running',
+    type: 'string',
+    enum: ['pending', 'running', 'completed', 'failed', 'dead'],
+  })
+  status: JobStatus;
+
+  @JSONSchema({
+    description: 'Attempts made so far',
+    example: 1,
+    type: 'integer',
+  })
+  attempts: number;
+
+  @JSONSchema({
+    description: 'Attempts before the job is moved to the dead-letter state',
+    example: 5,
+    type: 'integer',
+  })
+  maxAttempts: number;
+
+  @JSONSchema({
+    description: 'Error message of the last failed attempt',
+    example: 'AI server request timed out',
+    type: 'string',
+  })
+  lastError?: string;
+
+  @JSONSchema({
+    description: 'Output of the job once completed',
+    example: {questionCount: 3},
+    type: 'object',
+  })
+  result?: Record<string, unknown>;
+
+  @JSONSchema({
+    description: 'Earliest time of the next attempt',
+    type: 'string',
+    format: 'date-time',
+  })
+  runAt: Date;
+
+  @JSONSchema({type: 'string', format: 'date-time'})
+  createdAt?: Date;
+
+  @JSONSchema({type: 'string', format: 'date-time'})
+  updatedAt?: Date;
+
+  @JSONSchema({type: 'string', format: 'date-time'})
+  completedAt?: Date;
+}
+
+export const JOB_VALIDATORS = [JobIdParam, JobStatusResponse];
+
+export {JobIdParam, JobStatusResponse};
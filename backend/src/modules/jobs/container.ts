@@ -0,0 +1,7 @@
+import {ContainerModule} from 'inversify';
+import {JobController} from './controllers/JobController.js';
+
+export const jobsContainerModule = new ContainerModule(options => {
+  // Controllers
+  options.bind(JobController).toSelf().inSingletonScope();
+});
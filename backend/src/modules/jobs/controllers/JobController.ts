@@ -0,0 +1,73 @@
+import 'reflect-metadata';
+import {
+  JsonController,
+  Get,
+  Params,
+  HttpCode,
+  Authorized,
+  ForbiddenError,
+} from 'routing-controllers';
+import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
+import {inject} from 'inversify';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
+import {subject} from '@casl/ability';
+import {
+  Ability,
+  AbilityContext,
+} from '#root/shared/functions/AbilityDecorator.js';
+import {JobQueueService} from '#root/shared/jobs/index.js';
+import {
+  JobIdParam,
+  JobStatusResponse,
+} from '../classes/validators/JobValidators.js';
+import {getJobAbility, JobAbility} from '../abilities/jobAbilities.js';
+
+@OpenAPI({
+  tags: ['Jobs'],
+  description: 'Progress of background work such as question generation',
+})
+@JsonController('/jobs')
+export class JobController {
+  constructor(
+    @inject(GLOBAL_TYPES.JobQueueService)
+    private readonly jobQueue: JobQueueService,
+  ) {}
+
+  @OpenAPI({summary: 'Get the status of a background job'})
+  @Get('/:jobId')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(JobStatusResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async getJob(
+    @Params() params: JobIdParam,
+    @Ability(getJobAbility) {ability}: AbilityContext<JobAbility>,
+  ): Promise<JobStatusResponse> {
+    const job = await this.jobQueue.getJob(params.jobId);
+
+    if (
+      ability.cannot(
+        'read',
+        subject('Job', {createdBy: job.createdBy?.toString()}),
+      )
+    ) {
+      throw new ForbiddenError('You can only view your own jobs');
+    }
+
+    // The payload and lease details are internal to the worker
+    return {
+      _id: job._id!.toString(),
+      type: job.type,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      lastError: job.lastError,
+      result: job.result,
+      runAt: job.runAt,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+    };
+  }
+}
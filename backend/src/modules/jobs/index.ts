@@ -0,0 +1,29 @@
+import {sharedContainerModule} from '#root/container.js';
+import {Container, ContainerModule} from 'inversify';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {useContainer} from 'routing-controllers';
+import {JobController} from './controllers/JobController.js';
+import {jobsContainerModule} from './container.js';
+import {JOB_VALIDATORS} from './classes/validators/JobValidators.js';
+
+// Export names that loadAppModules expects
+export const jobsModuleControllers: Function[] = [JobController];
+
+// Export container modules for loadAppModules
+export const jobsContainerModules: ContainerModule[] = [
+  jobsContainerModule,
+  sharedContainerModule,
+];
+
+// This sets up Inversify bindings for the jobs module
+export async function setupJobsContainer(): Promise<void> {
+  const container = new Container();
+  await container.load(...jobsContainerModules);
+  const inversifyAdapter = new InversifyAdapter(container);
+  useContainer(inversifyAdapter);
+}
+
+export const jobsModuleValidators: Function[] = [...JOB_VALIDATORS];
+
+// Export all the main components for external use
+export * from './controllers/JobController.js';
@@ -0,0 +1,170 @@
+import 'reflect-metadata';
+import {describe, it, expect, beforeEach} from 'vitest';
+import {ObjectId} from 'mongodb';
+import {IJob} from '#root/shared/interfaces/models.js';
+import {IJobRepository} from '#root/shared/database/interfaces/IJobRepository.js';
+import {jobsConfig} from '#root/config/jobs.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {createLogger} from 'winston';
+import {
+  AssignReviewersJobHandler,
+  GenerateQuestionsJobHandler,
+  getRetryDelay,
+  JobWorker,
+  ScoreSimilarityJobHandler,
+  SendNotificationJobHandler,
+  TranscribeAudioJobHandler,
+} from '#root/shared/jobs/index.js';
+
+// In-memory queue holding a single job, enough to drive the worker's retry logic
+class InMemoryJobRepository implements Partial<IJobRepository> {
+  constructor(public job: IJob) {}
+
+  async leaseNext(workerId: string, leaseDuration: number) {
+    const now = new Date();
+    const runnable =
+      (['pending', 'failed'].includes(this.job.status) && this.job.runAt <= now) ||
+      (this.job.status === 'running' && this.job.leaseExpiresAt! <= now);
+    if (!runnable) return null;
+
+    this.job = {
+      ...this.job,
+      status: 'running',
+      lockedBy: workerId,
+      leaseExpiresAt: new Date(now.getTime() + leaseDuration),
+      attempts: this.job.attempts + 1,
+    };
+    return this.job;
+  }
+
+  async markCompleted(jobId: string, workerId: string, result?: Record<string, unknown>) {
+    this.job = {...this.job, status: 'completed', result, lockedBy: undefined};
+    return true;
+  }
+
+  async markFailed(jobId: string, workerId: string, error: string, retryAt: Date | null) {
+    this.job = {
+      ...this.job,
+      status: retryAt ? 'failed' : 'dead',
+      lastError: error,
+      runAt: retryAt ?? this.job.runAt,
+      lockedBy: undefined,
+    };
+    return true;
+  }
+}
+
+const createJob = (overrides: Partial<IJob> = {}): IJob => ({
+  _id: new ObjectId(),
+  type: 'generate_questions',
+  payload: {contextId: new ObjectId().toString()},
+  status: 'pending',
+  attempts: 0,
+  maxAttempts: 3,
+  runAt: new Date(0),
+  ...overrides,
+});
+
+describe('Job Worker Tests', () => {
+  let calls: number;
+  let failUntil: number;
+
+  const handler = {
+    type: 'generate_questions',
+    handle: async () => {
+      calls++;
+      if (calls <= failUntil) throw new Error(`AI server unavailable (${calls})`);
+      return {questionCount: 2};
+    },
+  } as unknown as GenerateQuestionsJobHandler;
+
+  const noopHandler = {type: 'assign_reviewers'} as unknown as AssignReviewersJobHandler;
+  const similarityHandler = {type: 'score_similarity'} as unknown as ScoreSimilarityJobHandler;
+  const transcribeHandler = {type: 'transcribe_audio'} as unknown as TranscribeAudioJobHandler;
+  const notificationHandler = {type: 'send_notification'} as unknown as SendNotificationJobHandler;
+
+  const createWorker = (repo: InMemoryJobRepository) =>
+    new JobWorker(
+      repo as unknown as IJobRepository,
+      handler,
+      noopHandler,
+      similarityHandler,
+      transcribeHandler,
+      notificationHandler,
+      new Logger(createLogger({silent: true})),
+    );
+
+  // Lease and process the queued job once, ignoring its runAt
+  const runOnce = async (worker: JobWorker, repo: InMemoryJobRepository) => {
+    repo.job.runAt = new Date(0);
+    const job = await repo.leaseNext(worker.workerId, jobsConfig.leaseDuration);
+    await worker['process'](job!);
+  };
+
+  beforeEach(() => {
+    calls = 0;
+    failUntil = 0;
+  });
+
+  it('should complete a job and store its result', async () => {
+    const repo = new InMemoryJobRepository(createJob());
+    const worker = createWorker(repo);
+
+    await runOnce(worker, repo);
+
+    expect(repo.job.status).toBe('completed');
+    expect(repo.job.result).toEqual({questionCount: 2});
+    expect(repo.job.attempts).toBe(1);
+  });
+
+  it('should retry a failed job with exponential backoff', async () => {
+    failUntil = 1;
+    const repo = new InMemoryJobRepository(createJob());
+    const worker = createWorker(repo);
+
+    const before = Date.now();
+    await runOnce(worker, repo);
+
+    expect(repo.job.status).toBe('failed');
+    expect(repo.job.lastError).toBe('AI server unavailable (1)');
+    expect(repo.job.runAt.getTime()).toBeGreaterThanOrEqual(before + jobsConfig.backoffBase);
+
+    await runOnce(worker, repo);
+    expect(repo.job.status).toBe('completed');
+    expect(repo.job.attempts).toBe(2);
+  });
+
+  it('should move a job to the dead-letter state after its last attempt', async () => {
+    failUntil = Infinity;
+    const repo = new InMemoryJobRepository(createJob({maxAttempts: 3}));
+    const worker = createWorker(repo);
+
+    await runOnce(worker, repo);
+    await runOnce(worker, repo);
+    expect(repo.job.status).toBe('failed');
+
+    await runOnce(worker, repo);
+    expect(repo.job.status).toBe('dead');
+    expect(repo.job.attempts).toBe(3);
+    expect(repo.job.lastError).toBe('AI server unavailable (3)');
+  });
+
+  it('should dead-letter a job whose lease expired on the last attempt', async () => {
+    const repo = new InMemoryJobRepository(
+      createJob({status: 'running', attempts: 3, maxAttempts: 3, leaseExpiresAt: new Date(0)}),
+    );
+    const worker = createWorker(repo);
+
+    const job = await repo.leaseNext(worker.workerId, jobsConfig.leaseDuration);
+    await worker['process'](job!);
+
+    expect(calls).toBe(0);
+    expect(repo.job.status).toBe('dead');
+  });
+
+  it('should cap the retry delay', () => {
+    expect(getRetryDelay(1)).toBe(jobsConfig.backoffBase);
+    expect(getRetryDelay(2)).toBe(jobsConfig.backoffBase * 2);
+    expect(getRetryDelay(50)).toBe(jobsConfig.backoffMax);
+  });
+});
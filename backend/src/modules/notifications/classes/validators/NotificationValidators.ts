@@ -0,0 +1,165 @@
+import {Type} from 'class-transformer';
+import {IsIn, IsInt, IsMongoId, IsOptional, Max, Min} from 'class-validator';
+import {JSONSchema} from 'class-validator-jsonschema';
+import {NotificationType} from '#root/shared/interfaces/models.js';
+
+class NotificationIdParam {
+  @JSONSchema({
+    description: 'MongoDB ObjectId of the notification',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsMongoId()
+  notificationId: string;
+}
+
+class ListNotificationsQuery {
+  @JSONSchema({
+    description: 'Only return notifications that have not been read',
+    example: 'true',
+    type: 'string',
+    enum: ['true', 'false'],
+  })
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  unread?: 'true' | 'false';
+
+  @JSONSchema({
+    description: 'Page number (1-based)',
+    example: 1,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @JSONSchema({
+    description: 'Notifications per page',
+    example: 20,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+class NotificationResponse {
+  @JSONSchema({
+    description: 'ID of the notification',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  id: string;
+
+  @JSONSchema({
+    description: 'What happened',
+    example: 'review_assigned',
+    type: 'string',
+  })
+  type: NotificationType;
+
+  @JSONSchema({
+    description:
+      'The review assignment, review or answer the notification is about',
+    example: '650e9c0f5f1b2c001c2f4d9f',
+    type: 'string',
+  })
+  entityId: string;
+
+  @JSONSchema({
+    description: 'One-line summary',
+    example: 'New review assignment: How do I control aphids on mustard?',
+    type: 'string',
+  })
+  title: string;
+
+  @JSONSchema({
+    description: 'Details of the notification',
+    example:
+      'You have been asked to review an answer to "How do I control aphids on mustard?".',
+    type: 'string',
+  })
+  message: string;
+
+  @JSONSchema({
+    description: 'Whether the user has read the notification',
+    example: false,
+    type: 'boolean',
+  })
+  read: boolean;
+
+  @JSONSchema({
+    description: 'When the notification was created',
+    example: '2025-01-15T10:30:00.000Z',
+    type: 'string',
+    format: 'date-time',
+  })
+  createdAt?: Date;
+}
+
+class NotificationListResponse {
+  @JSONSchema({
+    description: 'Notifications on the requested page, newest first',
+    type: 'array',
+  })
+  @Type(() => NotificationResponse)
+  notifications: NotificationResponse[];
+
+  @JSONSchema({
+    description: 'Number of notifications matching the filter',
+    example: 12,
+    type: 'integer',
+  })
+  total: number;
+
+  @JSONSchema({
+    description: 'Number of unread notifications, whatever the filter',
+    example: 3,
+    type: 'integer',
+  })
+  unread: number;
+
+  @JSONSchema({
+    description: 'Current page',
+    example: 1,
+    type: 'integer',
+  })
+  page: number;
+
+  @JSONSchema({
+    description: 'Notifications per page',
+    example: 20,
+    type: 'integer',
+  })
+  limit: number;
+}
+
+class MarkAllReadResponse {
+  @JSONSchema({
+    description: 'Number of notifications marked as read',
+    example: 3,
+    type: 'integer',
+  })
+  marked: number;
+}
+
+export const NOTIFICATION_VALIDATORS = [
+  NotificationIdParam,
+  ListNotificationsQuery,
+  NotificationResponse,
+  NotificationListResponse,
+  MarkAllReadResponse,
+];
+
+export {
+  NotificationIdParam,
+  ListNotificationsQuery,
+  NotificationResponse,
+  NotificationListResponse,
+  MarkAllReadResponse,
+};
@@ -0,0 +1,15 @@
+import {ContainerModule} from 'inversify';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {NotificationController} from './controllers/NotificationController.js';
+import {NotificationCenterService} from './services/NotificationCenterService.js';
+
+export const notificationsContainerModule = new ContainerModule(options => {
+  // Controllers
+  options.bind(NotificationController).toSelf().inSingletonScope();
+
+  // Services
+  options
+    .bind(GLOBAL_TYPES.NotificationCenterService)
+    .to(NotificationCenterService)
+    .inSingletonScope();
+});
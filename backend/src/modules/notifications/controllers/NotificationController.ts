@@ -0,0 +1,129 @@
+import 'reflect-metadata';
+import {
+  JsonController,
+  Get,
+  Patch,
+  Post,
+  Params,
+  QueryParams,
+  HttpCode,
+  CurrentUser,
+  Authorized,
+  Req,
+  Res,
+} from 'routing-controllers';
+import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
+import {inject} from 'inversify';
+import type {Request, Response} from 'express';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {realtimeConfig} from '#root/config/realtime.js';
+import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
+import {IUser} from '#root/shared/interfaces/models.js';
+import {
+  formatServerSentEvent,
+  RealtimeHub,
+} from '#root/shared/realtime/index.js';
+import {NotificationCenterService} from '../services/NotificationCenterService.js';
+import {
+  ListNotificationsQuery,
+  MarkAllReadResponse,
+  NotificationIdParam,
+  NotificationListResponse,
+  NotificationResponse,
+} from '../classes/validators/NotificationValidators.js';
+
+@OpenAPI({
+  tags: ['Notifications'],
+  description: "The signed-in user's in-app notifications and live updates",
+})
+@JsonController('/notifications')
+export class NotificationController {
+  constructor(
+    @inject(GLOBAL_TYPES.NotificationCenterService)
+    private readonly notificationCenterService: NotificationCenterService,
+
+    @inject(GLOBAL_TYPES.RealtimeHub)
+    private readonly realtimeHub: RealtimeHub,
+  ) {}
+
+  @OpenAPI({summary: "List the signed-in user's notifications, newest first"})
+  @Get('/')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(NotificationListResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async listNotifications(
+    @CurrentUser() user: IUser,
+    @QueryParams() query: ListNotificationsQuery,
+  ): Promise<NotificationListResponse> {
+    return this.notificationCenterService.listNotifications(
+      user._id!.toString(),
+      query,
+    );
+  }
+
+  @OpenAPI({
+    summary: 'Stream notifications and queue changes as Server-Sent Events',
+    description:
+      'Pushes `notification` events with each new notification and `queue_changed` events when ' +
+      "questions or the user's review assignments change, so clients can refetch them. " +
+      'The stream stays open until the client disconnects.',
+  })
+  @Get('/stream')
+  @Authorized()
+  async stream(
+    @CurrentUser() user: IUser,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<Response> {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Stops nginx from buffering the stream
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write(': connected\n\n');
+
+    const unsubscribe = this.realtimeHub.subscribe(
+      user._id!.toString(),
+      event => {
+        res.write(formatServerSentEvent(event));
+      },
+    );
+    const heartbeat = setInterval(
+      () => res.write(': keep-alive\n\n'),
+      realtimeConfig.heartbeatInterval,
+    );
+
+    await new Promise<void>(resolve => req.on('close', resolve));
+    clearInterval(heartbeat);
+    unsubscribe();
+    return res;
+  }
+
+  @OpenAPI({summary: 'Mark a notification as read'})
+  @Patch('/:notificationId/read')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(NotificationResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async markRead(
+    @CurrentUser() user: IUser,
+    @Params() params: NotificationIdParam,
+  ): Promise<NotificationResponse> {
+    return this.notificationCenterService.markRead(
+      user._id!.toString(),
+      params.notificationId,
+    );
+  }
+
+  @OpenAPI({summary: "Mark all of the signed-in user's notifications as read"})
+  @Post('/read-all')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(MarkAllReadResponse)
+  async markAllRead(@CurrentUser() user: IUser): Promise<MarkAllReadResponse> {
+    return this.notificationCenterService.markAllRead(user._id!.toString());
+  }
+}
@@ -0,0 +1,33 @@
+import {sharedContainerModule} from '#root/container.js';
+import {Container, ContainerModule} from 'inversify';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {useContainer} from 'routing-controllers';
+import {NotificationController} from './controllers/NotificationController.js';
+import {notificationsContainerModule} from './container.js';
+import {NOTIFICATION_VALIDATORS} from './classes/validators/NotificationValidators.js';
+
+// Export names that loadAppModules expects
+export const notificationsModuleControllers: Function[] = [
+  NotificationController,
+];
+
+// Export container modules for loadAppModules
+export const notificationsContainerModules: ContainerModule[] = [
+  notificationsContainerModule,
+  sharedContainerModule,
+];
+
+// This sets up Inversify bindings for the notifications module
+export async function setupNotificationsContainer(): Promise<void> {
+  const container = new Container();
+  await container.load(...notificationsContainerModules);
+  const inversifyAdapter = new InversifyAdapter(container);
+  useContainer(inversifyAdapter);
+}
+
+export const notificationsModuleValidators: Function[] = [
+  ...NOTIFICATION_VALIDATORS,
+];
+
+// Export all the main components for external use
+export * from './controllers/NotificationController.js';
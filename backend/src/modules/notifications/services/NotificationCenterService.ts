@@ -0,0 +1,68 @@
+import {INotificationRepository} from '#root/shared/database/interfaces/INotificationRepository.js';
+import {toNotificationView} from '#root/shared/notification-service.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {NotFoundError} from 'routing-controllers';
+import {
+  ListNotificationsQuery,
+  MarkAllReadResponse,
+  NotificationListResponse,
+  NotificationResponse,
+} from '../classes/validators/NotificationValidators.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * A user's in-app notifications. They are created by the notification
+ * delivery job; this only reads them and tracks what has been read.
+ */
+@injectable()
+export class NotificationCenterService {
+  constructor(
+    @inject(GLOBAL_TYPES.NotificationRepository)
+    private readonly notificationRepo: INotificationRepository,
+  ) {}
+
+  async listNotifications(
+    userId: string,
+    query: ListNotificationsQuery,
+  ): Promise<NotificationListResponse> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const {notifications, total, unread} =
+      await this.notificationRepo.getNotifications(
+        userId,
+        query.unread === 'true',
+        page,
+        limit,
+      );
+
+    return {
+      notifications: notifications.map(toNotificationView),
+      total,
+      unread,
+      page,
+      limit,
+    };
+  }
+
+  async markRead(
+    userId: string,
+    notificationId: string,
+  ): Promise<NotificationResponse> {
+    const notification = await this.notificationRepo.markRead(
+      userId,
+      notificationId,
+    );
+    if (!notification) {
+      throw new NotFoundError(
+        `Notification with ID ${notificationId} not found`,
+      );
+    }
+    return toNotificationView(notification);
+  }
+
+  async markAllRead(userId: string): Promise<MarkAllReadResponse> {
+    return {marked: await this.notificationRepo.markAllRead(userId)};
+  }
+}
@@ -0,0 +1,105 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import Express from 'express';
+import http from 'http';
+import {AddressInfo} from 'net';
+import {useContainer, useExpressServer} from 'routing-controllers';
+import {Container} from 'inversify';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeAll, afterAll, vi} from 'vitest';
+import {HttpErrorHandler} from '#shared/index.js';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {IUser} from '#root/shared/interfaces/models.js';
+import {RealtimeEvent} from '#root/shared/realtime/index.js';
+import {notificationsContainerModules} from '../index.js';
+import {NotificationController} from '../controllers/NotificationController.js';
+
+describe('Notification Controller Integration Tests', () => {
+  const appInstance = Express();
+  const currentUser: IUser = {
+    _id: new ObjectId().toString(),
+    firebaseUID: 'uid-expert',
+    email: 'expert@example.com',
+    firstName: 'expert',
+    role: 'expert',
+  };
+  let app;
+  let server: http.Server;
+
+  // The service is stubbed so only routing, validation and the event stream are exercised
+  const notificationCenterStub = {
+    listNotifications: vi.fn(async () => ({notifications: [], total: 0, unread: 0, page: 1, limit: 20})),
+    markRead: vi.fn(),
+    markAllRead: vi.fn(async () => ({marked: 2})),
+  };
+  // Sends an event to every subscriber as soon as it subscribes
+  const realtimeHubStub = {
+    unsubscribed: 0,
+    subscribe: (userId: string, send: (event: RealtimeEvent) => void) => {
+      send({type: 'queue_changed', queue: 'review_assignments'});
+      return () => realtimeHubStub.unsubscribed++;
+    },
+  };
+
+  beforeAll(async () => {
+    const container = new Container();
+    await container.load(...notificationsContainerModules);
+    (await container.rebind(GLOBAL_TYPES.NotificationCenterService)).toConstantValue(notificationCenterStub);
+    (await container.rebind(GLOBAL_TYPES.RealtimeHub)).toConstantValue(realtimeHubStub);
+    useContainer(new InversifyAdapter(container));
+
+    app = useExpressServer(appInstance, {
+      controllers: [NotificationController],
+      validation: true,
+      defaultErrorHandler: false,
+      middlewares: [HttpErrorHandler],
+      authorizationChecker: async action => {
+        action.request.user = currentUser;
+        return true;
+      },
+      currentUserChecker: async () => currentUser,
+    });
+    server = app.listen(0);
+  }, 30000);
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it("should list the signed-in user's unread notifications", async () => {
+    const response = await request(app).get('/notifications?unread=true&limit=5');
+    expect(response.status).toBe(200);
+    expect(notificationCenterStub.listNotifications).toHaveBeenCalledWith(
+      currentUser._id,
+      expect.objectContaining({unread: 'true', limit: 5}),
+    );
+  });
+
+  it('should return 400 for an invalid notification ID', async () => {
+    const response = await request(app).patch('/notifications/not-an-id/read');
+    expect(response.status).toBe(400);
+    expect(notificationCenterStub.markRead).not.toHaveBeenCalled();
+  });
+
+  it('should push events on the stream and unsubscribe when the client leaves', async () => {
+    const {port} = server.address() as AddressInfo;
+    const received = await new Promise<{contentType?: string; body: string}>((resolve, reject) => {
+      const req = http.get(`http://127.0.0.1:${port}/notifications/stream`, res => {
+        let body = '';
+        res.on('data', chunk => {
+          body += chunk;
+          if (body.includes('event: queue_changed')) {
+            resolve({contentType: res.headers['content-type'], body});
+            req.destroy();
+          }
+        });
+      });
+      req.on('error', error => {
+        if ((error as NodeJS.ErrnoException).code !== 'ECONNRESET') reject(error);
+      });
+    });
+
+    expect(received.contentType).toContain('text/event-stream');
+    expect(received.body).toContain('data: {"type":"queue_changed","queue":"review_assignments"}');
+    await vi.waitFor(() => expect(realtimeHubStub.unsubscribed).toBe(1));
+  });
+});
@@ -0,0 +1,49 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect} from 'vitest';
+import {createLogger} from 'winston';
+import {Logger} from '#root/shared/logging/index.js';
+import {RealtimeEvent, RealtimeHub, toRealtimeMessage} from '#root/shared/realtime/index.js';
+
+describe('Realtime Tests', () => {
+  const userId = new ObjectId();
+
+  it('should send notifications to their recipient only and queue changes to everyone', () => {
+    // The change stream is never opened: subscribing only starts watching a database that is never reached
+    const database = {watch: () => new Promise(() => {})};
+    const hub = new RealtimeHub(database as any, new Logger(createLogger({silent: true})));
+    const received: Record<string, RealtimeEvent[]> = {own: [], other: []};
+    hub.subscribe(userId.toString(), event => received.own.push(event));
+    hub.subscribe(new ObjectId().toString(), event => received.other.push(event));
+
+    const notification = toRealtimeMessage({
+      operationType: 'insert',
+      ns: {db: 'annam', coll: 'notifications'},
+      fullDocument: {
+        _id: new ObjectId(),
+        userId,
+        type: 'answer_feedback',
+        entityId: new ObjectId(),
+        title: 'Your answer was reviewed',
+        message: 'A reviewer scored your answer 4 out of 5.',
+        createdAt: new Date(),
+      },
+    } as any);
+    const question = toRealtimeMessage({
+      operationType: 'insert',
+      ns: {db: 'annam', coll: 'questions'},
+      fullDocument: {_id: new ObjectId(), question: 'When should wheat be sown?'},
+    } as any);
+    hub.publish(notification!);
+    hub.publish(question!);
+
+    expect(received.own.map(event => event.type)).toEqual(['notification', 'queue_changed']);
+    expect(received.other).toEqual([{type: 'queue_changed', queue: 'questions'}]);
+    expect(received.own[0]).toMatchObject({notification: {type: 'answer_feedback', read: false}});
+  });
+
+  it('should ignore changes clients are not told about', () => {
+    const change = {operationType: 'delete', ns: {db: 'annam', coll: 'questions'}, documentKey: {_id: new ObjectId()}};
+    expect(toRealtimeMessage(change as any)).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  AbilityBuilder,
+  createMongoAbility,
+  ForcedSubject,
+  MongoAbility,
+} from '@casl/ability';
+import {AuthenticatedUser} from '#root/shared/functions/AbilityDecorator.js';
+
+export type PeerReviewActions =
+  | 'manage'
+  | 'read'
+  | 'submit'
+  | 'update'
+  | 'rank'
+  | 'audit';
+
+// Resource-level checks need the assigned reviewer; ids are compared as strings
+export type ReviewSubject = ForcedSubject<'Review'> & {reviewerId: string};
+export type ReviewAssignmentSubject = ForcedSubject<'ReviewAssignment'> & {
+  reviewerId: string;
+};
+
+export type PeerReviewSubjects =
+  | 'Review'
+  | 'ReviewAssignment'
+  | 'BlindReview'
+  | ReviewSubject
+  | ReviewAssignmentSubject
+  | 'all';
+
+export type PeerReviewAbility = MongoAbility<
+  [PeerReviewActions, PeerReviewSubjects]
+>;
+
+/**
+ * Abilities for peer and blind reviews. Only experts review, and only the
+ * assigned reviewer may submit a review or respond to an assignment.
+ * Admins can see everything, including the reassignment history of an
+ * answer and the blind review tally of any question, but cannot act on
+ * someone else's assignment.
+ */
+export function getPeerReviewAbility(
+  user: AuthenticatedUser,
+): PeerReviewAbility {
+  const {can, build} = new AbilityBuilder<PeerReviewAbility>(
+    createMongoAbility,
+  );
+
+  if (user.globalRole === 'expert' || user.globalRole === 'admin') {
+    can('read', 'Review', {reviewerId: user.userId});
+    can('submit', 'Review', {reviewerId: user.userId});
+    can('read', 'ReviewAssignment', {reviewerId: user.userId});
+    can('update', 'ReviewAssignment', {reviewerId: user.userId});
+    can(['read', 'rank'], 'BlindReview');
+  }
+
+  if (user.globalRole === 'admin') {
+    can('read', 'all');
+    can('audit', ['ReviewAssignment', 'BlindReview']);
+  }
+
+  return build();
+}
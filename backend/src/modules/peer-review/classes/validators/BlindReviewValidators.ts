@@ -0,0 +1,218 @@
+import {Type} from 'class-transformer';
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {JSONSchema} from 'class-validator-jsonschema';
+
+class BlindReviewQuestionParam {
+  @JSONSchema({
+    description: 'MongoDB ObjectId of the question',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsMongoId()
+  questionId: string;
+}
+
+class AnswerRankingItem {
+  @JSONSchema({
+    description: 'Anonymous label of the ranked answer',
+    example: 'Answer A',
+    type: 'string',
+  })
+  @IsString()
+  @IsNotEmpty()
+  anonymousId: string;
+
+  @JSONSchema({
+    description: 'Position in the ranking (1 = best)',
+    example: 1,
+    type: 'integer',
+  })
+  @IsInt()
+  @Min(1)
+  rank: number;
+}
+
+class SubmitBlindRankingBody {
+  @JSONSchema({
+    description:
+      'Ranking of every anonymous answer, from best (1) to worst (n)',
+    type: 'array',
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayUnique((item: AnswerRankingItem) => item.anonymousId)
+  @ValidateNested({each: true})
+  @Type(() => AnswerRankingItem)
+  rankings: AnswerRankingItem[];
+}
+
+class AnonymousAnswerResponse {
+  @JSONSchema({
+    description: 'Anonymous label of the answer',
+    example: 'Answer B',
+    type: 'string',
+  })
+  @IsString()
+  anonymousId: string;
+
+  @JSONSchema({
+    description: 'Answer text',
+    example: 'Apply neem oil every 7 days to control aphids.',
+    type: 'string',
+  })
+  @IsString()
+  answer: string;
+}
+
+class BlindReviewSetResponse {
+  @JSONSchema({
+    description: 'Blind review assignment identifier',
+    example: '6510a0f25f1b2c001c2f4da0',
+    type: 'string',
+  })
+  @IsString()
+  assignmentId: string;
+
+  @JSONSchema({
+    description: 'Question identifier',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsString()
+  questionId: string;
+
+  @JSONSchema({
+    description: 'Question text',
+    example: 'How do I control aphids on mustard?',
+    type: 'string',
+  })
+  @IsString()
+  question: string;
+
+  @JSONSchema({
+    description: 'Assignment status',
+    example: 'assigned',
+    type: 'string',
+  })
+  @IsString()
+  status: string;
+
+  @JSONSchema({
+    description: 'Answers to rank, without any author information',
+    type: 'array',
+  })
+  @ValidateNested({each: true})
+  @Type(() => AnonymousAnswerResponse)
+  answers: AnonymousAnswerResponse[];
+}
+
+class BordaTallyEntryResponse {
+  @JSONSchema({
+    description:
+      "Anonymous label of the answer in the requesting reviewer's set",
+    example: 'Answer A',
+    type: 'string',
+  })
+  @IsString()
+  anonymousId: string;
+
+  @JSONSchema({
+    description: 'Answer text',
+    example: 'Apply neem oil every 7 days to control aphids.',
+    type: 'string',
+  })
+  @IsString()
+  answer: string;
+
+  @JSONSchema({
+    description: 'Sum of the Borda points given by all reviewers',
+    example: 5,
+    type: 'integer',
+  })
+  @IsInt()
+  totalBordaPoints: number;
+
+  @JSONSchema({
+    description: 'Average rank given by reviewers (1 = best)',
+    example: 1.5,
+    type: 'number',
+  })
+  @IsNumber()
+  averageRank: number;
+
+  @JSONSchema({
+    description: 'Number of reviewers that ranked this answer',
+    example: 3,
+    type: 'integer',
+  })
+  @IsInt()
+  rankCount: number;
+}
+
+class BordaTallyResponse {
+  @JSONSchema({
+    description: 'Question identifier',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsString()
+  questionId: string;
+
+  @JSONSchema({
+    description:
+      'Answer with the highest Borda total, or null if nobody has ranked yet',
+    type: 'object',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BordaTallyEntryResponse)
+  winner: BordaTallyEntryResponse | null;
+
+  @JSONSchema({
+    description: 'All ranked answers, highest Borda total first',
+    type: 'array',
+  })
+  @ValidateNested({each: true})
+  @Type(() => BordaTallyEntryResponse)
+  rankings: BordaTallyEntryResponse[];
+
+  @JSONSchema({
+    description: 'Number of reviewers that submitted a ranking',
+    example: 3,
+    type: 'integer',
+  })
+  @IsInt()
+  totalReviewers: number;
+}
+
+export const BLIND_REVIEW_VALIDATORS = [
+  BlindReviewQuestionParam,
+  AnswerRankingItem,
+  SubmitBlindRankingBody,
+  AnonymousAnswerResponse,
+  BlindReviewSetResponse,
+  BordaTallyEntryResponse,
+  BordaTallyResponse,
+];
+
+export {
+  BlindReviewQuestionParam,
+  AnswerRankingItem,
+  SubmitBlindRankingBody,
+  AnonymousAnswerResponse,
+  BlindReviewSetResponse,
+  BordaTallyEntryResponse,
+  BordaTallyResponse,
+};
@@ -0,0 +1,58 @@
+import {
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import {JSONSchema} from 'class-validator-jsonschema';
+
+class SubmitReviewBody {
+  @JSONSchema({
+    description: 'Score given to the answer, from 1 (poor) to 5 (excellent)',
+    example: 4,
+    type: 'integer',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  score: number;
+
+  @JSONSchema({
+    description: 'Feedback for the author',
+    example: 'Clear dosage, but mention the waiting period before harvest.',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsString()
+  comments?: string;
+
+  @JSONSchema({
+    description:
+      "How closely the answer agrees with other experts' answers (0-1); computed when omitted",
+    example: 0.8,
+    type: 'number',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  similarity?: number;
+}
+
+class UpdateAssignmentStatusBody {
+  @JSONSchema({
+    description: 'Accept or decline the assignment',
+    example: 'accepted',
+    type: 'string',
+    enum: ['accepted', 'declined'],
+  })
+  @IsIn(['accepted', 'declined'])
+  status: 'accepted' | 'declined';
+}
+
+export const REVIEW_VALIDATORS = [SubmitReviewBody, UpdateAssignmentStatusBody];
+
+export {SubmitReviewBody, UpdateAssignmentStatusBody};
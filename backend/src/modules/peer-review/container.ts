@@ -0,0 +1,9 @@
+import {ContainerModule} from 'inversify';
+import {ReviewerController} from './controllers/ReviewerController.js';
+import {BlindReviewController} from './controllers/BlindReviewController.js';
+
+export const peerReviewContainerModule = new ContainerModule(options => {
+  // Controllers
+  options.bind(ReviewerController).toSelf().inSingletonScope();
+  options.bind(BlindReviewController).toSelf().inSingletonScope();
+});
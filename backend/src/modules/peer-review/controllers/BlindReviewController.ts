@@ -0,0 +1,111 @@
+import 'reflect-metadata';
+import {
+  JsonController,
+  Get,
+  Post,
+  Params,
+  Body,
+  HttpCode,
+  Authorized,
+  ForbiddenError,
+} from 'routing-controllers';
+import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
+import {inject} from 'inversify';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
+import {PeerReviewService} from '#root/shared/peer-review-service.js';
+import {
+  Ability,
+  AbilityContext,
+} from '#root/shared/functions/AbilityDecorator.js';
+import {
+  getPeerReviewAbility,
+  PeerReviewAbility,
+} from '../abilities/peerReviewAbilities.js';
+import {
+  BlindReviewQuestionParam,
+  BlindReviewSetResponse,
+  BordaTallyResponse,
+  SubmitBlindRankingBody,
+} from '../classes/validators/BlindReviewValidators.js';
+
+@OpenAPI({
+  tags: ['Blind Reviews'],
+  description:
+    'Anonymous ranking of the answers to a question, aggregated with the Borda count',
+})
+@JsonController('/reviews/blind')
+export class BlindReviewController {
+  constructor(
+    @inject(GLOBAL_TYPES.PeerReviewService)
+    private readonly peerReviewService: PeerReviewService,
+  ) {}
+
+  @OpenAPI({
+    summary: "Get the current reviewer's anonymised answer set for a question",
+  })
+  @Get('/:questionId')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(BlindReviewSetResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async getBlindReviewSet(
+    @Params() params: BlindReviewQuestionParam,
+    @Ability(getPeerReviewAbility)
+    {ability, user}: AbilityContext<PeerReviewAbility>,
+  ): Promise<BlindReviewSetResponse> {
+    if (ability.cannot('read', 'BlindReview')) {
+      throw new ForbiddenError('Only experts can take part in blind reviews');
+    }
+    const reviewerId = user._id.toString();
+    return this.peerReviewService.getBlindReviewSet(
+      reviewerId,
+      params.questionId,
+    );
+  }
+
+  @OpenAPI({summary: 'Submit a ranking of the anonymised answers'})
+  @Post('/:questionId/ranking')
+  @HttpCode(201)
+  @Authorized()
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async submitRanking(
+    @Params() params: BlindReviewQuestionParam,
+    @Body() body: SubmitBlindRankingBody,
+    @Ability(getPeerReviewAbility)
+    {ability, user}: AbilityContext<PeerReviewAbility>,
+  ) {
+    if (ability.cannot('rank', 'BlindReview')) {
+      throw new ForbiddenError('Only experts can rank answers');
+    }
+    const reviewerId = user._id.toString();
+    return this.peerReviewService.submitBlindRanking(
+      reviewerId,
+      params.questionId,
+      body.rankings,
+    );
+  }
+
+  @OpenAPI({summary: 'Get the Borda count tally for a question'})
+  @Get('/:questionId/tally')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(BordaTallyResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async getTally(
+    @Params() params: BlindReviewQuestionParam,
+    @Ability(getPeerReviewAbility)
+    {ability, user}: AbilityContext<PeerReviewAbility>,
+  ): Promise<BordaTallyResponse> {
+    if (ability.cannot('read', 'BlindReview')) {
+      throw new ForbiddenError('Only experts can view the blind review tally');
+    }
+    const reviewerId = user._id.toString();
+    // Experts must have completed their own ranking first; admins can audit any tally
+    return this.peerReviewService.calculateBordaWinner(
+      params.questionId,
+      reviewerId,
+      ability.can('audit', 'BlindReview'),
+    );
+  }
+}
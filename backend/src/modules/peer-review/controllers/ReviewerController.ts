@@ -7,18 +7,20 @@ import {
   Param,
   Body,
   HttpCode,
-  CurrentUser,
   Authorized,
+  ForbiddenError,
+  NotFoundError,
 } from 'routing-controllers';
+import { subject } from '@casl/ability';
 import { OpenAPI, ResponseSchema } from 'routing-controllers-openapi';
 import { inject } from 'inversify';
 import { GLOBAL_TYPES } from '#root/types.js';
 import { BadRequestErrorResponse } from '#shared/middleware/errorHandler.js';
-import { IPeerReview, IReviewerAssignment, IUser } from '#root/shared/interfaces/models.js';
+import { IPeerReview, IReviewerAssignment } from '#root/shared/interfaces/models.js';
 import { PeerReviewService } from '#root/shared/peer-review-service.js';
-import { ReviewerAssignmentService } from '#root/shared/reviewer-assignment-service.js';
-import { IPeerReviewRepository } from '#root/shared/database/interfaces/IPeerReviewRepository.js';
-import { IReviewerAssignmentRepository } from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+import { Ability, AbilityContext } from '#root/shared/functions/AbilityDecorator.js';
+import { getPeerReviewAbility, PeerReviewAbility } from '../abilities/peerReviewAbilities.js';
+import { SubmitReviewBody, UpdateAssignmentStatusBody } from '../classes/validators/ReviewValidators.js';
 
 @OpenAPI({
   tags: ['Reviews'],
@@ -27,11 +29,8 @@ import { IReviewerAssignmentRepository } from '#root/shared/database/interfaces/
 @JsonController('/reviews')
 export class ReviewerController {
   constructor(
-    @inject(GLOBAL_TYPES.PeerReviewRepository)
-    private readonly peerReviewRepo: IPeerReviewRepository,
-
-    @inject(GLOBAL_TYPES.ReviewerAssignmentRepository)
-    private readonly reviewerAssignmentRepo: IReviewerAssignmentRepository,
+    @inject(GLOBAL_TYPES.PeerReviewService)
+    private readonly peerReviewService: PeerReviewService,
   ) {}
 
   // Get all pending reviews for the current reviewer
@@ -39,22 +38,16 @@ export class ReviewerController {
   @HttpCode(200)
   @Authorized()
   @OpenAPI({ summary: 'Get all review assignments for the current reviewer' })
-  async getMyReviewAssignments(@CurrentUser() user: IUser) {
+  async getMyReviewAssignments(
+    @Ability(getPeerReviewAbility) { ability, user }: AbilityContext<PeerReviewAbility>
+  ) {
+    if (ability.cannot('read', 'ReviewAssignment')) {
+      throw new ForbiddenError('Only experts have review assignments');
+    }
     const reviewerId = user._id.toString();
 
-    // Get review assignments for this reviewer
-    const assignments = await this.reviewerAssignmentRepo.getAssignmentsForReviewer(reviewerId);
-
-    // Get corresponding review details
-    const reviewsWithDetails = await Promise.all(assignments.map(async (assignment) => {
-      const review = await this.peerReviewRepo.getReviewById(assignment._id!.toString());
-      return {
-        assignment,
-        review,
-      };
-    }));
-
-    return reviewsWithDetails;
+    // Get review assignments for this reviewer together with their review details
+    return this.peerReviewService.getAssignmentsWithReviews(reviewerId);
   }
 
   // Submit a review
@@ -64,38 +57,28 @@ export class ReviewerController {
   @OpenAPI({ summary: 'Submit a completed peer review' })
   async submitReview(
     @Param('reviewId') reviewId: string,
-    @Body() body: {
-      score: number;
-      comments?: string;
-      similarity?: number;
-    },
-    @CurrentUser() user: IUser
+    @Body() body: SubmitReviewBody,
+    @Ability(getPeerReviewAbility) { ability, user }: AbilityContext<PeerReviewAbility>
   ) {
-    const reviewerId = user._id.toString();
-
-    // Verify the review belongs to this reviewer
-    const review = await this.peerReviewRepo.getReviewById(reviewId);
-    if (!review || review.reviewerId.toString() !== reviewerId) {
-      throw new Error('Review not found or access denied');
+    const review = await this.peerReviewService.getReviewById(reviewId);
+    if (!review) {
+      throw new NotFoundError(`Review with ID ${reviewId} not found`);
     }
+    if (ability.cannot('submit', subject('Review', { reviewerId: review.reviewerId.toString() }))) {
+      throw new ForbiddenError('Only the assigned reviewer can submit this review');
+    }
+    const reviewerId = user._id.toString();
 
-    // Submit the review
-    await this.peerReviewRepo.submitReview(
+    // The service re-checks ownership and status inside the transaction
+    const result = await this.peerReviewService.submitReview(
+      reviewerId,
       reviewId,
       body.score,
       body.comments,
       body.similarity
     );
 
-    // Update assignment status
-    const assignment = (await this.reviewerAssignmentRepo.getAssignmentsForAnswer(review.answerId.toString()))
-      .find(a => a.reviewerId.toString() === reviewerId);
-
-    if (assignment) {
-      await this.reviewerAssignmentRepo.updateAssignmentStatus(assignment._id!.toString(), 'completed');
-    }
-
-    return { success: true, message: 'Review submitted successfully' };
+    return { success: true, message: 'Review submitted successfully', ...result };
   }
 
   // Update review status (accept/decline assignment)
@@ -105,42 +88,61 @@ export class ReviewerController {
   @OpenAPI({ summary: 'Update assignment status (accept/decline)' })
   async updateAssignmentStatus(
     @Param('assignmentId') assignmentId: string,
-    @Body() body: { status: 'accepted' | 'declined' },
-    @CurrentUser() user: IUser
+    @Body() body: UpdateAssignmentStatusBody,
+    @Ability(getPeerReviewAbility) { ability, user }: AbilityContext<PeerReviewAbility>
   ) {
-    const reviewerId = user._id.toString();
-
-    const assignment = await this.reviewerAssignmentRepo.getAssignmentById(assignmentId);
-    if (!assignment || assignment.reviewerId.toString() !== reviewerId) {
-      throw new Error('Assignment not found or access denied');
+    const assignment = await this.peerReviewService.getAssignmentById(assignmentId);
+    if (!assignment) {
+      throw new NotFoundError(`Assignment with ID ${assignmentId} not found`);
     }
+    if (ability.cannot('update', subject('ReviewAssignment', { reviewerId: assignment.reviewerId.toString() }))) {
+      throw new ForbiddenError('You can only respond to your own assignments');
+    }
+    const reviewerId = user._id.toString();
 
-    await this.reviewerAssignmentRepo.updateAssignmentStatus(
+    const success = await this.peerReviewService.respondToAssignment(
       assignmentId,
+      reviewerId,
       body.status
     );
 
+    if (!success) {
+      throw new NotFoundError(`Assignment with ID ${assignmentId} not found`);
+    }
+
     return { success: true, message: `Assignment ${body.status}` };
   }
 
+  // Get who was assigned an answer over time, including missed deadlines and reassignments
+  @Get('/answers/:answerId/assignment-history')
+  @HttpCode(200)
+  @Authorized()
+  @OpenAPI({ summary: 'Get the assignment and reassignment history of an answer (admin only)' })
+  async getAssignmentHistory(
+    @Param('answerId') answerId: string,
+    @Ability(getPeerReviewAbility) { ability }: AbilityContext<PeerReviewAbility>
+  ): Promise<IReviewerAssignment[]> {
+    if (ability.cannot('audit', 'ReviewAssignment')) {
+      throw new ForbiddenError('Only admins can view the assignment history');
+    }
+
+    return this.peerReviewService.getAssignmentHistory(answerId);
+  }
+
   // Get review statistics for the current reviewer
   @Get('/my-stats')
   @HttpCode(200)
   @Authorized()
   @OpenAPI({ summary: 'Get review statistics for the current reviewer' })
-  async getMyReviewStats(@CurrentUser() user: IUser) {
+  async getMyReviewStats(
+    @Ability(getPeerReviewAbility) { ability, user }: AbilityContext<PeerReviewAbility>
+  ) {
+    if (ability.cannot('read', 'Review')) {
+      throw new ForbiddenError('Only experts have review statistics');
+    }
     const reviewerId = user._id.toString();
 
-    const assignments = await this.reviewerAssignmentRepo.getAssignmentsForReviewer(reviewerId);
-    const pendingReviews = await this.peerReviewRepo.getPendingReviewsForReviewer(reviewerId);
-
-    const stats = {
-      totalAssignments: assignments.length,
-      pendingReviews: pendingReviews.length,
-      completedReviews: assignments.filter(a => a.status === 'completed').length,
-      acceptedAssignments: assignments.filter(a => a.status === 'accepted').length,
-      declinedAssignments: assignments.filter(a => a.status === 'declined').length,
-    };
+    const stats = await this.peerReviewService.getReviewerStats(reviewerId);
 
     return stats;
   }
@@ -1,16 +1,22 @@
 import {sharedContainerModule} from '#root/container.js';
 import {Container, ContainerModule} from 'inversify';
 import {InversifyAdapter} from '#root/inversify-adapter.js';
-import {useContainer} from 'class-validator';
+import {useContainer} from 'routing-controllers';
 import {ReviewerController} from './controllers/ReviewerController.js';
+import {BlindReviewController} from './controllers/BlindReviewController.js';
+import {peerReviewContainerModule} from './container.js';
+import {BLIND_REVIEW_VALIDATORS} from './classes/validators/BlindReviewValidators.js';
+import {REVIEW_VALIDATORS} from './classes/validators/ReviewValidators.js';
 
 // Export names that loadAppModules expects
 export const peerReviewModuleControllers: Function[] = [
   ReviewerController,
+  BlindReviewController,
 ];
 
 // Export container modules for loadAppModules
 export const peerReviewContainerModules: ContainerModule[] = [
+  peerReviewContainerModule,
   sharedContainerModule,
 ];
 
@@ -23,8 +29,10 @@ export async function setupPeerReviewContainer(): Promise<void> {
 }
 
 export const peerReviewModuleValidators: Function[] = [
-  // Add validators here if needed
+  ...REVIEW_VALIDATORS,
+  ...BLIND_REVIEW_VALIDATORS,
 ];
 
 // Export all the main components for external use
 export * from './controllers/ReviewerController.js';
+export * from './controllers/BlindReviewController.js';
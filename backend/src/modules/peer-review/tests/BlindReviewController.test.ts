@@ -0,0 +1,275 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import Express from 'express';
+import {useContainer, useExpressServer} from 'routing-controllers';
+import {Container} from 'inversify';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeAll, vi} from 'vitest';
+import {createLogger} from 'winston';
+import {HttpErrorHandler} from '#shared/index.js';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {IAnswer, IAnswerRanking, IBlindReviewAssignment} from '#root/shared/interfaces/models.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {PeerReviewService} from '#root/shared/peer-review-service.js';
+import {
+  createAnswerMappings,
+  tallyBordaPoints,
+  toAnonymousAnswers,
+} from '#root/utils/blindReview.js';
+import {peerReviewContainerModules} from '../index.js';
+import {BlindReviewController} from '../controllers/BlindReviewController.js';
+
+describe('Blind Review Controller Integration Tests', () => {
+  const appInstance = Express();
+  const reviewerId = new ObjectId().toString();
+  const questionId = new ObjectId().toString();
+  let app;
+
+  // Requests that pass validation and access checks never need the database
+  const peerReviewServiceStub = {
+    submitBlindRanking: vi.fn(),
+    calculateBordaWinner: vi.fn(async () => ({questionId, winner: null, rankings: [], totalReviewers: 0})),
+  };
+
+  beforeAll(async () => {
+    const container = new Container();
+    await container.load(...peerReviewContainerModules);
+    (await container.rebind(GLOBAL_TYPES.PeerReviewService)).toConstantValue(peerReviewServiceStub);
+    useContainer(new InversifyAdapter(container));
+
+    app = useExpressServer(appInstance, {
+      controllers: [BlindReviewController],
+      validation: true,
+      defaultErrorHandler: false,
+      middlewares: [HttpErrorHandler],
+      authorizationChecker: async action => {
+        action.request.user = {_id: reviewerId, role: action.request.headers['x-test-role'] ?? 'expert'};
+        return true;
+      },
+      currentUserChecker: async () => ({_id: reviewerId, role: 'expert'}),
+    });
+  }, 30000);
+
+  describe('Submit Ranking Test', () => {
+    it('should return 400 for an invalid questionId', async () => {
+      const response = await request(app)
+        .post('/reviews/blind/not-an-id/ranking')
+        .send({
+          rankings: [
+            {anonymousId: 'Answer A', rank: 1},
+            {anonymousId: 'Answer B', rank: 2},
+          ],
+        });
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('errors');
+    }, 30000);
+
+    it('should return 400 when an answer is ranked twice', async () => {
+      const response = await request(app)
+        .post(`/reviews/blind/${questionId}/ranking`)
+        .send({
+          rankings: [
+            {anonymousId: 'Answer A', rank: 1},
+            {anonymousId: 'Answer A', rank: 2},
+          ],
+        });
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('errors');
+    }, 30000);
+
+    it('should return 400 for a rank below 1', async () => {
+      const response = await request(app)
+        .post(`/reviews/blind/${questionId}/ranking`)
+        .send({
+          rankings: [
+            {anonymousId: 'Answer A', rank: 0},
+            {anonymousId: 'Answer B', rank: 1},
+          ],
+        });
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('errors');
+    }, 30000);
+
+    it('should return 400 for missing rankings', async () => {
+      const response = await request(app)
+        .post(`/reviews/blind/${questionId}/ranking`)
+        .send({});
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('errors');
+    }, 30000);
+
+    it('should return 403 when a non-expert submits a ranking', async () => {
+      const response = await request(app)
+        .post(`/reviews/blind/${questionId}/ranking`)
+        .set('x-test-role', 'user')
+        .send({
+          rankings: [
+            {anonymousId: 'Answer A', rank: 1},
+            {anonymousId: 'Answer B', rank: 2},
+          ],
+        });
+      expect(response.status).toBe(403);
+      expect(peerReviewServiceStub.submitBlindRanking).not.toHaveBeenCalled();
+    }, 30000);
+  });
+
+  describe('Tally Access Test', () => {
+    it('should let only admins view a tally without their own ranking', async () => {
+      await request(app).get(`/reviews/blind/${questionId}/tally`).expect(200);
+      await request(app).get(`/reviews/blind/${questionId}/tally`).set('x-test-role', 'admin').expect(200);
+
+      expect(peerReviewServiceStub.calculateBordaWinner.mock.calls).toEqual([
+        [questionId, reviewerId, false],
+        [questionId, reviewerId, true],
+      ]);
+    }, 30000);
+
+    it('should return 403 when a non-expert views the tally', async () => {
+      const response = await request(app).get(`/reviews/blind/${questionId}/tally`).set('x-test-role', 'user');
+      expect(response.status).toBe(403);
+    }, 30000);
+  });
+
+  describe('Anonymised Answer Set Test', () => {
+    const authorIds = [reviewerId, new ObjectId().toString(), new ObjectId().toString(), new ObjectId().toString()];
+    const answers: Partial<IAnswer>[] = authorIds.map((authorId, index) => ({
+      _id: new ObjectId().toString(),
+      authorId,
+      answer: `Answer text ${index}`,
+    }));
+
+    it("should exclude the reviewer's own answer", () => {
+      const mappings = createAnswerMappings(answers, reviewerId);
+      expect(mappings).toHaveLength(3);
+      expect(mappings.map(m => m.authorId)).not.toContain(reviewerId);
+      expect(mappings.map(m => m.anonymousId).sort()).toEqual([
+        'Answer A',
+        'Answer B',
+        'Answer C',
+      ]);
+    });
+
+    it('should never expose answer or author IDs', () => {
+      const mappings = createAnswerMappings(answers, reviewerId);
+      const anonymous = toAnonymousAnswers(mappings, answers);
+      const serialized = JSON.stringify(anonymous);
+
+      for (const answer of answers) {
+        expect(serialized).not.toContain(answer._id);
+        expect(serialized).not.toContain(answer.authorId);
+      }
+      anonymous.forEach(item => {
+        expect(Object.keys(item).sort()).toEqual(['anonymousId', 'answer']);
+      });
+    });
+  });
+
+  describe('Borda Tally Test', () => {
+    const [a, b, c] = [0, 1, 2].map(() => new ObjectId().toString());
+    const ranking = (order: string[]): IAnswerRanking => ({
+      reviewerId: new ObjectId().toString(),
+      questionId,
+      status: 'completed',
+      rankings: order.map((answerId, index) => ({
+        answerId,
+        anonymousId: `Answer ${index}`,
+        rank: index + 1,
+        bordaPoints: order.length - (index + 1),
+      })),
+    });
+
+    it('should rank answers by total Borda points', () => {
+      const tally = tallyBordaPoints([
+        ranking([a, b, c]),
+        ranking([b, a, c]),
+        ranking([a, c, b]),
+      ]);
+
+      expect(tally.map(t => t.answerId)).toEqual([a, b, c]);
+      expect(tally[0]).toMatchObject({totalBordaPoints: 5, rankCount: 3});
+      expect(tally[0].averageRank).toBeCloseTo(4 / 3);
+      expect(tally[2]).toMatchObject({totalBordaPoints: 1, averageRank: 8 / 3});
+    });
+
+    it('should break ties by the better average rank', () => {
+      const tally = tallyBordaPoints([ranking([a, b]), ranking([b, a]), ranking([c, a])]);
+
+      expect(tally.map(t => t.totalBordaPoints)).toEqual([1, 1, 1]);
+      expect(tally.map(t => t.answerId)).toEqual([c, b, a]);
+    });
+
+    it('should return an empty tally without rankings', () => {
+      expect(tallyBordaPoints([])).toEqual([]);
+    });
+  });
+
+  describe('Anonymised Tally Test', () => {
+    const answers: Partial<IAnswer>[] = [reviewerId, new ObjectId().toString(), new ObjectId().toString()].map(
+      (authorId, index) => ({_id: new ObjectId().toString(), authorId, answer: `Answer text ${index}`}),
+    );
+    const [ownAnswer, ...otherAnswers] = answers;
+    let assignment: IBlindReviewAssignment | null;
+
+    const service = new PeerReviewService(
+      {} as any,
+      {} as any,
+      {getByQuestionId: async () => answers} as any,
+      {} as any,
+      {
+        getAssignment: async () => assignment,
+        // Every other reviewer ranked the reviewer's own answer first
+        getRankingsForQuestion: async (): Promise<IAnswerRanking[]> => [
+          {
+            reviewerId: new ObjectId().toString(),
+            questionId,
+            status: 'completed',
+            rankings: [ownAnswer, ...otherAnswers].map((answer, index) => ({
+              answerId: answer._id!,
+              anonymousId: `Answer ${index}`,
+              rank: index + 1,
+              bordaPoints: answers.length - (index + 1),
+            })),
+          },
+        ],
+      } as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      new Logger(createLogger({silent: true})),
+    );
+
+    it('should refuse the tally until the reviewer has completed their ranking', async () => {
+      const mappings = createAnswerMappings(answers, reviewerId);
+      assignment = null;
+      await expect(service.calculateBordaWinner(questionId, reviewerId)).rejects.toMatchObject({httpCode: 403});
+
+      assignment = {reviewerId, questionId, answerMappings: mappings, status: 'assigned'};
+      await expect(service.calculateBordaWinner(questionId, reviewerId)).rejects.toMatchObject({httpCode: 403});
+
+      assignment = null;
+      const audited = await service.calculateBordaWinner(questionId, reviewerId, true);
+      expect(audited.rankings.map(r => r.anonymousId)).toEqual(['Answer A', 'Answer B', 'Answer C']);
+    });
+
+    it("should label the tally with the reviewer's set and never expose answer IDs", async () => {
+      const mappings = createAnswerMappings(answers, reviewerId);
+      assignment = {reviewerId, questionId, answerMappings: mappings, status: 'completed'};
+
+      const result = await service.calculateBordaWinner(questionId, reviewerId);
+      const serialized = JSON.stringify(result);
+
+      for (const answer of answers) {
+        expect(serialized).not.toContain(answer._id);
+      }
+      expect(result.winner).toMatchObject({anonymousId: 'Answer C', answer: 'Answer text 0', totalBordaPoints: 2});
+      const labelOf = new Map(mappings.map(m => [m.realAnswerId.toString(), m.anonymousId]));
+      expect(result.rankings.slice(1).map(r => r.anonymousId)).toEqual(otherAnswers.map(a => labelOf.get(a._id!.toString())));
+      expect(Object.keys(result.winner!).sort()).toEqual(
+        ['anonymousId', 'answer', 'averageRank', 'rankCount', 'totalBordaPoints'],
+      );
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeEach} from 'vitest';
+import {PeerReviewService} from '#root/shared/peer-review-service.js';
+import {ReviewerAssignmentService} from '#root/shared/reviewer-assignment-service.js';
+import {AuditService} from '#root/shared/audit-service.js';
+import {IAuditEntry, IPeerReview, IReviewerAssignment, IReviewerProfile} from '#root/shared/interfaces/models.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {createLogger} from 'winston';
+
+describe('Review Deadline Tests', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const answerId = new ObjectId();
+  const authorId = new ObjectId();
+  const lateReviewerId = new ObjectId();
+  const pastReviewerId = new ObjectId();
+  const freeReviewerId = new ObjectId();
+
+  let assignments: IReviewerAssignment[];
+  let reviews: IPeerReview[];
+  let profiles: IReviewerProfile[];
+  let service: PeerReviewService;
+  let notified: {userId: string; type: string}[];
+  let audited: IAuditEntry[];
+  const silentLogger = new Logger(createLogger({silent: true}));
+
+  const profile = (userId: ObjectId, currentReviewLoad: number): IReviewerProfile =>
+    ({
+      userId,
+      expertise: [],
+      reviewCount: 0,
+      averageRating: 4,
+      isActive: true,
+      maxConcurrentReviews: 5,
+      currentReviewLoad,
+    }) as unknown as IReviewerProfile;
+
+  // In-memory stand-ins for the collections the deadline check touches; reads return copies like the driver does
+  const assignmentRepo = {
+    getOverdueAssignments: async (now: Date) =>
+      assignments.filter(a => ['pending', 'accepted'].includes(a.status) && a.dueDate! < now).map(a => ({...a})),
+    getAssignmentsDueSoon: async (from: Date, until: Date) =>
+      assignments
+        .filter(a => ['pending', 'accepted'].includes(a.status) && !a.reminderSentAt)
+        .filter(a => a.dueDate! >= from && a.dueDate! < until)
+        .map(a => ({...a})),
+    getAssignmentById: async (id: string) => {
+      const assignment = assignments.find(a => a._id!.toString() === id);
+      return assignment ? {...assignment} : null;
+    },
+    getAssignmentsForAnswer: async (id: string) =>
+      assignments.filter(a => a.answerId.toString() === id).map(a => ({...a})),
+    updateAssignment: async (id: string, updates: Partial<IReviewerAssignment>) => {
+      Object.assign(assignments.find(a => a._id!.toString() === id)!, updates);
+      return {modifiedCount: 1};
+    },
+    updateAssignmentStatus: async (id: string, status: IReviewerAssignment['status']) =>
+      assignmentRepo.updateAssignment(id, {status}),
+    createAssignment: async (assignment: IReviewerAssignment) => {
+      const created = {...assignment, _id: new ObjectId(), reviewerId: new ObjectId(assignment.reviewerId.toString())};
+      assignments.push(created);
+      return created;
+    },
+  };
+  const profileRepo = {
+    getAvailableProfiles: async (excludeIds: string[]) =>
+      profiles.filter(p => !excludeIds.includes(p.userId.toString())),
+    incrementLoad: async (id: string) => {
+      profiles.find(p => p.userId.toString() === id)!.currentReviewLoad++;
+      return true;
+    },
+    decrementLoad: async (id: string) => {
+      profiles.find(p => p.userId.toString() === id)!.currentReviewLoad--;
+    },
+  };
+  const peerReviewRepo = {
+    getReviewForAnswerByReviewer: async (_answerId: string, reviewerId: string) =>
+      reviews.find(r => r.reviewerId.toString() === reviewerId) ?? null,
+    updateReviewStatus: async (id: string, status: IPeerReview['status']) => {
+      reviews.find(r => r._id!.toString() === id)!.status = status;
+      return {modifiedCount: 1};
+    },
+    createReview: async (review: IPeerReview) => {
+      const created = {...review, _id: new ObjectId()};
+      reviews.push(created);
+      return created;
+    },
+  };
+  const answerRepo = {
+    getById: async () => ({_id: answerId, questionId: new ObjectId(), authorId}),
+  };
+  const questionRepo = {
+    getById: async () => ({tags: {topics: [], crops: ['wheat'], regions: []}}),
+  };
+  const notificationService = {
+    notify: async (userId: string, event: {type: string}) => {
+      notified.push({userId, type: event.type});
+    },
+  };
+  // Transactions are no-ops in memory
+  const database = {
+    getClient: async () => ({
+      startSession: () => ({
+        startTransaction: () => {},
+        commitTransaction: async () => {},
+        abortTransaction: async () => {},
+        inTransaction: () => false,
+        endSession: async () => {},
+      }),
+    }),
+  };
+
+  beforeEach(() => {
+    assignments = [
+      {
+        _id: new ObjectId(),
+        answerId,
+        reviewerId: pastReviewerId,
+        assignedAt: new Date(Date.now() - 10 * DAY),
+        dueDate: new Date(Date.now() - 3 * DAY),
+        priority: 'medium',
+        status: 'completed',
+      },
+      {
+        _id: new ObjectId(),
+        answerId,
+        reviewerId: lateReviewerId,
+        assignedAt: new Date(Date.now() - 8 * DAY),
+        dueDate: new Date(Date.now() - DAY),
+        priority: 'medium',
+        status: 'accepted',
+      },
+    ];
+    reviews = [
+      {_id: new ObjectId(), answerId, reviewerId: lateReviewerId, status: 'in_progress', assignedAt: new Date()},
+    ];
+    notified = [];
+    audited = [];
+    const audit = new AuditService({addEntries: async (entries: IAuditEntry[]) => void audited.push(...entries)} as any);
+    profiles = [profile(authorId, 0), profile(pastReviewerId, 0), profile(lateReviewerId, 1), profile(freeReviewerId, 0)];
+
+    const assignmentService = new ReviewerAssignmentService(
+      profileRepo as any,
+      assignmentRepo as any,
+      {} as any,
+      audit as any,
+      database as any,
+      silentLogger,
+    );
+    service = new PeerReviewService(
+      peerReviewRepo as any,
+      assignmentRepo as any,
+      answerRepo as any,
+      questionRepo as any,
+      {} as any,
+      assignmentService,
+      notificationService as any,
+      {} as any,
+      audit as any,
+      database as any,
+      silentLogger,
+    );
+  });
+
+  it('should mark a missed assignment overdue and free the late reviewer', async () => {
+    const result = await service.processOverdueAssignments();
+
+    expect(result).toEqual({overdue: 1, reassigned: 1});
+    const late = assignments[1];
+    expect(late.status).toBe('overdue');
+    expect(late.overdueAt).toBeInstanceOf(Date);
+    expect(reviews[0].status).toBe('overdue');
+    expect(profiles.find(p => p.userId === lateReviewerId)!.currentReviewLoad).toBe(0);
+    expect(audited).toContainEqual(
+      expect.objectContaining({
+        actorRole: 'system',
+        action: 'update',
+        entityType: 'reviewer_assignment',
+        entityId: late._id!.toString(),
+        before: {status: 'accepted'},
+        after: {status: 'overdue'},
+      }),
+    );
+  });
+
+  it('should reassign to a reviewer who has not seen the answer, with escalated priority', async () => {
+    await service.processOverdueAssignments();
+
+    const replacement = assignments[2];
+    expect(replacement.reviewerId.toString()).toBe(freeReviewerId.toString());
+    expect(replacement.priority).toBe('high');
+    expect(replacement.status).toBe('pending');
+    expect(replacement.reassignedFrom).toEqual(assignments[1]._id);
+    expect(replacement.reassignmentCount).toBe(1);
+    expect(assignments[1].reassignedTo).toEqual(replacement._id);
+    expect(replacement.dueDate!.getTime()).toBeLessThanOrEqual(Date.now() + 3 * DAY);
+    expect(reviews.some(r => r.reviewerId.toString() === freeReviewerId.toString() && r.status === 'assigned')).toBe(true);
+    expect(notified).toEqual([
+      {userId: lateReviewerId.toString(), type: 'review_deadline_passed'},
+      {userId: freeReviewerId.toString(), type: 'review_assigned'},
+    ]);
+  });
+
+  it('should stop reassigning once the escalation limit for the priority is reached', async () => {
+    assignments[1].reassignmentCount = 3;
+
+    const result = await service.processOverdueAssignments();
+
+    expect(result).toEqual({overdue: 1, reassigned: 0});
+    expect(assignments).toHaveLength(2);
+  });
+
+  it('should remind a reviewer once when their deadline is near', async () => {
+    assignments[1].dueDate = new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+    expect(await service.processUpcomingDeadlines()).toEqual({reminded: 1});
+    expect(await service.processUpcomingDeadlines()).toEqual({reminded: 0});
+    expect(assignments[1].reminderSentAt).toBeInstanceOf(Date);
+    expect(notified).toEqual([{userId: lateReviewerId.toString(), type: 'review_deadline_approaching'}]);
+  });
+});
@@ -0,0 +1,314 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeEach} from 'vitest';
+import {createLogger} from 'winston';
+import {PeerReviewService} from '#root/shared/peer-review-service.js';
+import {reviewConfig} from '#root/config/review.js';
+import {IAnswer, IPeerReview, IQuestion, IReviewerAssignment} from '#root/shared/interfaces/models.js';
+import {Logger} from '#root/shared/logging/index.js';
+
+describe('Review Submission Tests', () => {
+  const questionId = new ObjectId();
+  const answerId = new ObjectId();
+  const otherAnswerId = new ObjectId();
+  const authorId = new ObjectId();
+  const otherAuthorId = new ObjectId();
+  const reviewerIds = [new ObjectId(), new ObjectId(), new ObjectId()];
+
+  let question: IQuestion;
+  let answers: IAnswer[];
+  let reviews: IPeerReview[];
+  let assignments: IReviewerAssignment[];
+  let requestedReviewerCounts: number[];
+  let recordedScores: {reviewerId: string; score: number}[];
+  let notified: {userId: string; type: string}[];
+  let service: PeerReviewService;
+
+  const forAnswer = <T extends {answerId: string | ObjectId}>(docs: T[], id: string) =>
+    docs.filter(doc => doc.answerId.toString() === id).map(doc => ({...doc}));
+
+  // In-memory stand-ins for the collections a submission touches; reads return copies like the driver does
+  const peerReviewRepo = {
+    getReviewById: async (id: string) => {
+      const review = reviews.find(r => r._id!.toString() === id);
+      return review ? {...review} : null;
+    },
+    getReviewsForAnswer: async (id: string) => forAnswer(reviews, id),
+    getReviewForAnswerByReviewer: async (id: string, reviewerId: string) =>
+      forAnswer(reviews, id).find(r => r.reviewerId.toString() === reviewerId) ?? null,
+    // Same thresholds as the repository, without the expert agreement rule
+    getReviewStatsForAnswer: async (id: string) => {
+      const scores = forAnswer(reviews, id)
+        .filter(r => r.status === 'submitted')
+        .map(r => r.score!);
+      const averageScore = scores.reduce((sum, score) => sum + score, 0) / (scores.length || 1);
+      const variance = scores.reduce((sum, score) => sum + (score - averageScore) ** 2, 0) / (scores.length || 1);
+      const agreement = scores.length ? 1 - Math.sqrt(variance) / 2 : 0;
+      const {minReviews, minAverageScore, minAgreement} = reviewConfig.finalAnswer;
+      return {
+        completedReviews: scores.length,
+        averageScore,
+        agreement,
+        expertAgreement: null,
+        thresholdReached: scores.length >= minReviews && averageScore >= minAverageScore && agreement >= minAgreement,
+      };
+    },
+    submitReview: async (id: string, score: number, comments?: string) => {
+      Object.assign(reviews.find(r => r._id!.toString() === id)!, {status: 'submitted', score, comments});
+      return {modifiedCount: 1};
+    },
+    updateReviewStatus: async (id: string, status: IPeerReview['status']) => {
+      reviews.find(r => r._id!.toString() === id)!.status = status;
+      return {modifiedCount: 1};
+    },
+    createReview: async (review: IPeerReview) => {
+      const created = {...review, _id: new ObjectId()};
+      reviews.push(created);
+      return created;
+    },
+  };
+  const reviewerAssignmentRepo = {
+    getAssignmentById: async (id: string) => {
+      const assignment = assignments.find(a => a._id!.toString() === id);
+      return assignment ? {...assignment} : null;
+    },
+    getAssignmentsForAnswer: async (id: string) => forAnswer(assignments, id),
+    getAssignmentsForReviewer: async (id: string) =>
+      assignments.filter(a => a.reviewerId.toString() === id).map(a => ({...a})),
+  };
+  const reviewerAssignmentService = {
+    updateAssignmentStatus: async (id: string, status: IReviewerAssignment['status']) => {
+      assignments.find(a => a._id!.toString() === id)!.status = status;
+      return true;
+    },
+    updateReviewerAvailability: async () => true,
+    recordSubmittedReview: async (reviewerId: string, score: number) => {
+      recordedScores.push({reviewerId, score});
+    },
+    assignReviewersToAnswer: async (
+      id: string,
+      priority: IReviewerAssignment['priority'],
+      _expertise: string[],
+      _exclude: string[],
+      _session: unknown,
+      reviewerCount = 3,
+    ) => {
+      requestedReviewerCounts.push(reviewerCount);
+      const created = Array.from({length: reviewerCount}, () => ({
+        _id: new ObjectId(),
+        answerId: id,
+        reviewerId: new ObjectId(),
+        assignedAt: new Date(),
+        priority,
+        status: 'pending' as const,
+      }));
+      assignments.push(...created);
+      return created;
+    },
+  };
+  const answerRepo = {
+    getById: async (id: string) => ({...answers.find(a => a._id!.toString() === id)!}),
+    getByQuestionId: async () => answers.map(a => ({...a})),
+    updateAnswer: async (id: string, updates: Partial<IAnswer>) => {
+      Object.assign(answers.find(a => a._id!.toString() === id)!, updates);
+    },
+    freezeOtherAnswers: async (_questionId: string, finalId: string) => {
+      answers.filter(a => a._id!.toString() !== finalId).forEach(a => Object.assign(a, {isFrozen: true}));
+    },
+  };
+  const questionRepo = {
+    getById: async () => ({...question}),
+    updateQuestion: async (_id: string, updates: Partial<IQuestion>) => {
+      Object.assign(question, updates);
+    },
+  };
+  const questionLifecycle = {
+    transition: async (_id: string, status: IQuestion['status']) => {
+      question.status = status;
+    },
+  };
+  const notificationService = {
+    notify: async (userId: string, event: {type: string}) => {
+      notified.push({userId, type: event.type});
+    },
+  };
+  // Transactions are no-ops in memory
+  const database = {
+    getClient: async () => ({
+      startSession: () => ({
+        startTransaction: () => {},
+        commitTransaction: async () => {},
+        abortTransaction: async () => {},
+        inTransaction: () => false,
+        endSession: async () => {},
+      }),
+    }),
+  };
+
+  const submit = (index: number, score: number) =>
+    service.submitReview(reviewerIds[index].toString(), reviews[index]._id!.toString(), score);
+
+  beforeEach(() => {
+    question = {
+      _id: questionId,
+      question: 'How do I control aphids on mustard?',
+      status: 'under_review',
+      totalAnwersCount: 2,
+    } as IQuestion;
+    answers = [
+      {_id: answerId, questionId, authorId, answerIteration: 1, isFinalAnswer: false, answer: 'Spray neem oil'},
+      {_id: otherAnswerId, questionId, authorId: otherAuthorId, answerIteration: 1, isFinalAnswer: false, answer: 'Wait'},
+    ];
+    reviews = reviewerIds.map(reviewerId => ({
+      _id: new ObjectId(),
+      answerId,
+      reviewerId,
+      status: 'assigned',
+      assignedAt: new Date(),
+    }));
+    // The other answer is still waiting for its reviewer
+    reviews.push({
+      _id: new ObjectId(),
+      answerId: otherAnswerId,
+      reviewerId: new ObjectId(),
+      status: 'assigned',
+      assignedAt: new Date(),
+    });
+    assignments = reviews.map(review => ({
+      _id: new ObjectId(),
+      answerId: review.answerId,
+      reviewerId: review.reviewerId,
+      assignedAt: new Date(),
+      priority: 'medium',
+      status: 'pending',
+    }));
+    requestedReviewerCounts = [];
+    recordedScores = [];
+    notified = [];
+
+    service = new PeerReviewService(
+      peerReviewRepo as any,
+      reviewerAssignmentRepo as any,
+      answerRepo as any,
+      questionRepo as any,
+      {} as any,
+      reviewerAssignmentService as any,
+      notificationService as any,
+      questionLifecycle as any,
+      {record: async () => {}} as any,
+      database as any,
+      new Logger(createLogger({silent: true})),
+    );
+  });
+
+  it('should record the review, complete the assignment and tell the author', async () => {
+    const result = await service.submitReview(reviewerIds[0].toString(), reviews[0]._id!.toString(), 4, 'Clear dosage');
+
+    expect(result).toEqual({submitted: true, triggersNextRound: false, finalAnswerElected: false});
+    expect(reviews[0]).toMatchObject({status: 'submitted', score: 4, comments: 'Clear dosage'});
+    expect(assignments[0].status).toBe('completed');
+    expect(recordedScores).toEqual([{reviewerId: reviewerIds[0].toString(), score: 4}]);
+    expect(notified).toEqual([{userId: authorId.toString(), type: 'answer_feedback'}]);
+  });
+
+  it('should reject a review submitted by someone else or submitted twice', async () => {
+    const reviewId = reviews[0]._id!.toString();
+
+    await expect(service.submitReview(reviewerIds[1].toString(), reviewId, 4)).rejects.toThrow(
+      'Review not found or access denied',
+    );
+    await expect(service.submitReview(reviewerIds[0].toString(), new ObjectId().toString(), 4)).rejects.toThrow(
+      'Review not found or access denied',
+    );
+
+    await submit(0, 4);
+    await expect(submit(0, 2)).rejects.toThrow('Review is already submitted');
+    expect(reviews[0].score).toBe(4);
+    expect(recordedScores).toHaveLength(1);
+  });
+
+  it('should elect the answer once the reviews agree and close the question', async () => {
+    await submit(0, 4);
+    await submit(1, 5);
+    const result = await submit(2, 4);
+
+    expect(result).toEqual({submitted: true, triggersNextRound: false, finalAnswerElected: true});
+    expect(answers[0].isFinalAnswer).toBe(true);
+    expect(answers[1].isFrozen).toBe(true);
+    expect(question).toMatchObject({status: reviewConfig.finalAnswer.questionStatus, finalAnswerText: 'Spray neem oil'});
+    // The other answer's outstanding review is no longer needed
+    expect(reviews[3].status).toBe('cancelled');
+    expect(assignments[3].status).toBe('cancelled');
+    expect(notified.filter(n => n.type === 'question_finalized').map(n => n.userId).sort()).toEqual(
+      [authorId.toString(), otherAuthorId.toString()].sort(),
+    );
+  });
+
+  it('should start a new round when a full round ends without consensus', async () => {
+    await submit(0, 1);
+    await submit(1, 5);
+    const result = await submit(2, 3);
+
+    expect(result).toEqual({submitted: true, triggersNextRound: true, finalAnswerElected: false});
+    expect(requestedReviewerCounts).toEqual([3]);
+    expect(question.status).toBe('under_review');
+  });
+
+  it('should top up a round that ended short of the required reviews', async () => {
+    await submit(0, 4);
+    await service.respondToAssignment(assignments[1]._id!.toString(), reviewerIds[1].toString(), 'declined');
+    expect(requestedReviewerCounts).toEqual([]);
+
+    const result = await submit(2, 5);
+
+    expect(reviews[1].status).toBe('cancelled');
+    expect(result.triggersNextRound).toBe(true);
+    expect(requestedReviewerCounts).toEqual([reviewConfig.finalAnswer.minReviews - 2]);
+  });
+
+  it('should top up the round when its last open review is declined', async () => {
+    await submit(0, 4);
+    await submit(1, 4);
+    await service.respondToAssignment(assignments[2]._id!.toString(), reviewerIds[2].toString(), 'declined');
+
+    expect(requestedReviewerCounts).toEqual([reviewConfig.finalAnswer.minReviews - 2]);
+    const added = reviews.filter(r => r.answerId.toString() === answerId.toString() && r.status === 'assigned');
+    expect(added).toHaveLength(reviewConfig.finalAnswer.minReviews - 2);
+  });
+
+  it("should cancel a withdrawn reviewer's open work and top up the round without them", async () => {
+    await submit(0, 4);
+    await submit(1, 4);
+
+    const result = await service.withdrawReviewer(reviewerIds[2].toString(), {} as any);
+
+    expect(result).toEqual({cancelled: 1});
+    expect(reviews[2].status).toBe('cancelled');
+    expect(assignments[2].status).toBe('cancelled');
+    expect(requestedReviewerCounts).toEqual([reviewConfig.finalAnswer.minReviews - 2]);
+    await expect(submit(2, 5)).rejects.toThrow('Review is already cancelled');
+  });
+
+  it('should hand the open work of a paused reviewer to others', async () => {
+    await submit(0, 4);
+    await submit(1, 4);
+
+    expect(await service.updateReviewerAvailability(reviewerIds[2].toString(), false)).toBe(true);
+
+    expect(assignments[2].status).toBe('cancelled');
+    expect(requestedReviewerCounts).toEqual([reviewConfig.finalAnswer.minReviews - 2]);
+  });
+
+  it('should request the reviews cancelled by the trash again once the answer is restored', async () => {
+    await submit(0, 4);
+    await service.cancelOpenReviews(answerId.toString(), {} as any);
+
+    question.status = 'closed';
+    expect(await service.resumeReviews(answerId.toString(), {} as any)).toBe(false);
+    expect(requestedReviewerCounts).toEqual([]);
+
+    question.status = 'under_review';
+    expect(await service.resumeReviews(answerId.toString(), {} as any)).toBe(true);
+    expect(requestedReviewerCounts).toEqual([reviewConfig.finalAnswer.minReviews - 1]);
+  });
+});
@@ -0,0 +1,176 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeEach} from 'vitest';
+import {createLogger} from 'winston';
+import {ReviewerAssignmentService} from '#root/shared/reviewer-assignment-service.js';
+import {AuditService} from '#root/shared/audit-service.js';
+import {IReviewerProfileRepository} from '#root/shared/database/interfaces/IReviewerProfileRepository.js';
+import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+import {IUserRepository} from '#root/shared/database/interfaces/IUserRepository.js';
+import {IReviewerAssignment, IReviewerProfile, IUser} from '#root/shared/interfaces/models.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {stubDatabase, stubOf} from '#root/shared/tests/stubs.js';
+
+describe('Reviewer Assignment Tests', () => {
+  const answerId = new ObjectId();
+  const authorId = new ObjectId();
+  const expertIds = [new ObjectId(), new ObjectId(), new ObjectId(), new ObjectId()];
+
+  let profiles: IReviewerProfile[];
+  let assignments: IReviewerAssignment[];
+  let recordedScores: {reviewerId: string; score: number}[];
+  let service: ReviewerAssignmentService;
+
+  const profileOf = (userId: string | ObjectId) =>
+    profiles.find(p => p.userId.toString() === userId.toString());
+
+  // In-memory profiles with the repository's guarantees: the load never exceeds the maximum,
+  // paused reviewers take no new work and reads return copies like the driver does
+  const profileRepo = stubOf<IReviewerProfileRepository>({
+    createMissingProfiles: async (userIds: string[]) => {
+      const missing = userIds.filter(userId => !profileOf(userId));
+      profiles.push(
+        ...missing.map(userId => ({
+          _id: new ObjectId(),
+          userId: new ObjectId(userId),
+          expertise: [],
+          reviewCount: 0,
+          averageRating: 0,
+          isActive: true,
+          maxConcurrentReviews: 5,
+          currentReviewLoad: 0,
+        })),
+      );
+      return {insertedCount: missing.length};
+    },
+    getByUserId: async (userId: string) => {
+      const profile = profileOf(userId);
+      return profile ? {...profile} : null;
+    },
+    getAvailableProfiles: async (excludeUserIds: string[] = []) =>
+      profiles
+        .filter(p => p.isActive && p.currentReviewLoad < p.maxConcurrentReviews)
+        .filter(p => !excludeUserIds.includes(p.userId.toString()))
+        .map(p => ({...p})),
+    incrementLoad: async (userId: string) => {
+      const profile = profileOf(userId);
+      if (!profile?.isActive || profile.currentReviewLoad >= profile.maxConcurrentReviews) return false;
+      profile.currentReviewLoad += 1;
+      return true;
+    },
+    decrementLoad: async (userId: string) => {
+      const profile = profileOf(userId)!;
+      profile.currentReviewLoad = Math.max(0, profile.currentReviewLoad - 1);
+      return {modifiedCount: 1};
+    },
+    recordReview: async (userId: string, score: number) => {
+      recordedScores.push({reviewerId: userId, score});
+      return {modifiedCount: 1};
+    },
+    updateProfile: async (userId: string, updates: Partial<IReviewerProfile>) => {
+      const profile = profileOf(userId);
+      if (profile) Object.assign(profile, updates);
+      return {modifiedCount: profile ? 1 : 0};
+    },
+  });
+  const assignmentRepo = stubOf<IReviewerAssignmentRepository>({
+    createAssignment: async assignment => {
+      const created = {...assignment, _id: new ObjectId()};
+      assignments.push(created);
+      return {...created};
+    },
+    getAssignmentById: async (id: string) => {
+      const assignment = assignments.find(a => a._id!.toString() === id);
+      return assignment ? {...assignment} : null;
+    },
+    updateAssignmentStatus: async (id: string, status: IReviewerAssignment['status']) => {
+      assignments.find(a => a._id!.toString() === id)!.status = status;
+      return {modifiedCount: 1};
+    },
+  });
+  const userRepo = stubOf<IUserRepository>({
+    findByRole: async () =>
+      [authorId, ...expertIds].map((_id): IUser => ({
+        _id: _id.toString(),
+        firebaseUID: `uid-${_id}`,
+        email: `${_id}@example.com`,
+        firstName: 'Expert',
+        role: 'expert',
+      })),
+  });
+
+  const assignReviewers = (reviewerCount?: number) =>
+    service.assignReviewersToAnswer(
+      answerId.toString(),
+      'medium',
+      [],
+      [authorId.toString()],
+      undefined,
+      reviewerCount,
+    );
+
+  beforeEach(() => {
+    profiles = [];
+    assignments = [];
+    recordedScores = [];
+
+    service = new ReviewerAssignmentService(
+      profileRepo,
+      assignmentRepo,
+      userRepo,
+      stubOf<AuditService>({record: async () => {}}),
+      stubDatabase(),
+      new Logger(createLogger({silent: true})),
+    );
+  });
+
+  it('should backfill a profile for every expert once and assign three reviewers with free capacity', async () => {
+    await profileRepo.createMissingProfiles([expertIds[0].toString()]);
+    await profileRepo.updateProfile(expertIds[0].toString(), {maxConcurrentReviews: 1});
+    await profileRepo.incrementLoad(expertIds[0].toString());
+    expect(await service.syncExpertProfiles()).toEqual({insertedCount: 4});
+
+    const created = await assignReviewers();
+
+    expect(profiles).toHaveLength(5);
+    expect(created.map(a => a.reviewerId.toString()).sort()).toEqual(expertIds.slice(1).map(String).sort());
+    expect(created.every(a => a.status === 'pending' && a.answerId === answerId.toString())).toBe(true);
+    for (const expertId of expertIds.slice(1)) {
+      expect(profileOf(expertId)!.currentReviewLoad).toBe(1);
+    }
+    expect(profileOf(expertIds[0])!.currentReviewLoad).toBe(1);
+    expect(await service.syncExpertProfiles()).toEqual({insertedCount: 0});
+  });
+
+  it('should pass over reviewers who are paused or at their maximum load', async () => {
+    await service.syncExpertProfiles();
+    const [pausedId, fullId] = expertIds.map(String);
+    expect(await service.updateReviewerAvailability(pausedId, false)).toBe(true);
+    await profileRepo.updateProfile(fullId, {maxConcurrentReviews: 1});
+    await profileRepo.incrementLoad(fullId);
+
+    expect(await service.isReviewerAvailable(pausedId)).toBe(false);
+    expect(await service.isReviewerAvailable(fullId)).toBe(false);
+    expect(await service.isReviewerAvailable(expertIds[2].toString())).toBe(true);
+
+    const created = await assignReviewers();
+
+    expect(created.map(a => a.reviewerId.toString()).sort()).toEqual(expertIds.slice(2).map(String).sort());
+    expect(profileOf(fullId)!.currentReviewLoad).toBe(1);
+    expect(profileOf(pausedId)!.currentReviewLoad).toBe(0);
+  });
+
+  it('should record submitted scores and release load when a review is done', async () => {
+    await service.syncExpertProfiles();
+    const [assignment] = await assignReviewers(1);
+    const reviewerId = assignment.reviewerId.toString();
+
+    for (const score of [5, 2, 3, 4]) {
+      await service.recordSubmittedReview(reviewerId, score);
+    }
+    expect(await service.updateAssignmentStatus(assignment._id!.toString(), 'completed')).toBe(true);
+
+    expect(recordedScores).toEqual([5, 2, 3, 4].map(score => ({reviewerId, score})));
+    expect(profileOf(reviewerId)!.currentReviewLoad).toBe(0);
+  });
+});
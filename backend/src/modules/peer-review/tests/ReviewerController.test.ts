@@ -0,0 +1,128 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import Express from 'express';
+import {useContainer, useExpressServer} from 'routing-controllers';
+import {Container} from 'inversify';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeAll, vi} from 'vitest';
+import {HttpErrorHandler} from '#shared/index.js';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {IUser} from '#root/shared/interfaces/models.js';
+import {peerReviewContainerModules} from '../index.js';
+import {ReviewerController} from '../controllers/ReviewerController.js';
+
+describe('Reviewer Controller Access Tests', () => {
+  const appInstance = Express();
+  const reviewerId = new ObjectId().toString();
+  const otherReviewerId = new ObjectId().toString();
+  const ownReviewId = new ObjectId().toString();
+  const otherReviewId = new ObjectId().toString();
+  const currentUser: IUser = {
+    _id: reviewerId,
+    firebaseUID: 'uid-reviewer',
+    email: 'expert@example.com',
+    firstName: 'Expert',
+    role: 'expert',
+  };
+  let app;
+
+  // Reviews and assignments are served from memory so only the ability checks are exercised
+  const owners: Record<string, string> = {
+    [ownReviewId]: reviewerId,
+    [otherReviewId]: otherReviewerId,
+  };
+  const peerReviewServiceStub = {
+    getReviewById: async (reviewId: string) =>
+      owners[reviewId] ? {_id: reviewId, reviewerId: owners[reviewId], status: 'pending'} : null,
+    getAssignmentById: async (assignmentId: string) =>
+      owners[assignmentId] ? {_id: assignmentId, reviewerId: owners[assignmentId], status: 'assigned'} : null,
+    submitReview: vi.fn(async () => ({submitted: true, triggersNextRound: false, finalAnswerElected: false})),
+    respondToAssignment: vi.fn(async () => true),
+    getAssignmentHistory: vi.fn(async () => []),
+  };
+
+  beforeAll(async () => {
+    const container = new Container();
+    await container.load(...peerReviewContainerModules);
+    (await container.rebind(GLOBAL_TYPES.PeerReviewService)).toConstantValue(peerReviewServiceStub);
+    useContainer(new InversifyAdapter(container));
+
+    app = useExpressServer(appInstance, {
+      controllers: [ReviewerController],
+      validation: true,
+      defaultErrorHandler: false,
+      middlewares: [HttpErrorHandler],
+      authorizationChecker: async action => {
+        action.request.user = currentUser;
+        return true;
+      },
+      currentUserChecker: async () => currentUser,
+    });
+  }, 30000);
+
+  it("should return 403 when submitting someone else's review", async () => {
+    const response = await request(app)
+      .post(`/reviews/submit/${otherReviewId}`)
+      .send({score: 4});
+    expect(response.status).toBe(403);
+    expect(peerReviewServiceStub.submitReview).not.toHaveBeenCalled();
+  });
+
+  it('should let the assigned reviewer submit their review', async () => {
+    const response = await request(app)
+      .post(`/reviews/submit/${ownReviewId}`)
+      .send({score: 4});
+    expect(response.status).toBe(200);
+    expect(peerReviewServiceStub.submitReview).toHaveBeenCalledWith(
+      reviewerId,
+      ownReviewId,
+      4,
+      undefined,
+      undefined,
+    );
+  });
+
+  it("should return 403 when responding to someone else's assignment", async () => {
+    const response = await request(app)
+      .patch(`/reviews/assignment/${otherReviewId}/status`)
+      .send({status: 'accepted'});
+    expect(response.status).toBe(403);
+    expect(peerReviewServiceStub.respondToAssignment).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when an expert requests the assignment history', async () => {
+    const response = await request(app).get(
+      `/reviews/answers/${new ObjectId().toString()}/assignment-history`,
+    );
+    expect(response.status).toBe(403);
+    expect(peerReviewServiceStub.getAssignmentHistory).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown review', async () => {
+    const response = await request(app)
+      .post(`/reviews/submit/${new ObjectId().toString()}`)
+      .send({score: 4});
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 for a score outside 1-5 or an unknown assignment status', async () => {
+    for (const score of [0, 6, 3.5]) {
+      const response = await request(app).post(`/reviews/submit/${ownReviewId}`).send({score});
+      expect(response.status).toBe(400);
+    }
+    const response = await request(app)
+      .patch(`/reviews/assignment/${ownReviewId}/status`)
+      .send({status: 'completed'});
+    expect(response.status).toBe(400);
+    expect(peerReviewServiceStub.respondToAssignment).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the assignment is gone by the time the reviewer responds', async () => {
+    peerReviewServiceStub.respondToAssignment.mockResolvedValueOnce(false);
+    const response = await request(app)
+      .patch(`/reviews/assignment/${ownReviewId}/status`)
+      .send({status: 'declined'});
+    expect(response.status).toBe(404);
+  });
+});
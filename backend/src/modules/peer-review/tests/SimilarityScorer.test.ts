@@ -0,0 +1,47 @@
+import 'reflect-metadata';
+import {describe, it, expect} from 'vitest';
+import {TfIdfSimilarityScorer} from '#root/shared/similarity-scorers/index.js';
+import {cosineSimilarity, tokenize} from '#root/utils/textSimilarity.js';
+
+describe('TF-IDF Similarity Scorer Tests', () => {
+  const scorer = new TfIdfSimilarityScorer();
+
+  const answer =
+    'Spray neem oil on the mustard crop to control aphids, repeat after ten days.';
+
+  it('should score identical answers as 1 and unrelated answers as 0', async () => {
+    const [identical, unrelated] = await scorer.score(answer, [
+      answer,
+      'Wheat needs irrigation at crown root initiation.',
+    ]);
+
+    expect(identical).toBe(1);
+    expect(unrelated).toBe(0);
+  });
+
+  it('should rank a paraphrase above a loosely related answer', async () => {
+    const [paraphrase, related] = await scorer.score(answer, [
+      'Aphids on mustard can be controlled by spraying neem oil every ten days.',
+      'Use yellow sticky traps in the mustard field.',
+    ]);
+
+    expect(paraphrase).toBeGreaterThan(related);
+    expect(paraphrase).toBeGreaterThan(0.3);
+    expect(related).toBeGreaterThan(0);
+    expect(related).toBeLessThan(0.3);
+  });
+
+  it('should return no scores without other answers', async () => {
+    expect(await scorer.score(answer, [])).toEqual([]);
+  });
+
+  it('should ignore case, punctuation and stop words', () => {
+    expect(tokenize('The Neem-oil, is GOOD!')).toEqual(['neem', 'oil', 'good']);
+  });
+
+  it('should compute the cosine similarity of dense vectors', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
@@ -0,0 +1,22 @@
+import {AbilityBuilder, createMongoAbility, MongoAbility} from '@casl/ability';
+import {AuthenticatedUser} from '#root/shared/functions/AbilityDecorator.js';
+
+export type TrashActions = 'manage' | 'read' | 'restore';
+
+export type TrashSubjects = 'Trash' | 'all';
+
+export type TrashAbility = MongoAbility<[TrashActions, TrashSubjects]>;
+
+/**
+ * Abilities for the trash: only admins, who delete content, can see and
+ * restore it.
+ */
+export function getTrashAbility(user: AuthenticatedUser): TrashAbility {
+  const {can, build} = new AbilityBuilder<TrashAbility>(createMongoAbility);
+
+  if (user.globalRole === 'admin') {
+    can('manage', 'all');
+  }
+
+  return build();
+}
@@ -0,0 +1,140 @@
+import {Type} from 'class-transformer';
+import {IsIn, IsInt, IsOptional, Max, Min} from 'class-validator';
+import {JSONSchema} from 'class-validator-jsonschema';
+import {TRASH_ENTITY_TYPES} from '#root/shared/trash-service.js';
+
+class ListTrashQuery {
+  @JSONSchema({
+    description:
+      'Kind of document to list; answers deleted with their question are listed under the question',
+    example: 'question',
+    type: 'string',
+    enum: TRASH_ENTITY_TYPES,
+  })
+  @IsOptional()
+  @IsIn(TRASH_ENTITY_TYPES)
+  type?: 'question' | 'answer' | 'context'; // Spelled out so query parsing sees a string type
+
+  @JSONSchema({
+    description: 'Page number (1-based)',
+    example: 1,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @JSONSchema({
+    description: 'Documents per page',
+    example: 20,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+class TrashItemResponse {
+  @JSONSchema({description: 'ID of the deleted document', type: 'string'})
+  id: string;
+
+  @JSONSchema({
+    description: 'Kind of document',
+    type: 'string',
+    enum: TRASH_ENTITY_TYPES,
+  })
+  entityType: string;
+
+  @JSONSchema({
+    description: 'Start of the question, answer or transcript',
+    type: 'string',
+  })
+  text: string;
+
+  @JSONSchema({description: 'Question of a deleted answer', type: 'string'})
+  questionId?: string;
+
+  @JSONSchema({
+    description: 'When the document was deleted',
+    type: 'string',
+    format: 'date-time',
+  })
+  deletedAt: string;
+
+  @JSONSchema({description: 'Admin who deleted the document', type: 'string'})
+  deletedBy?: string;
+
+  @JSONSchema({
+    description: 'When the document is purged for good',
+    type: 'string',
+    format: 'date-time',
+  })
+  purgeAt: string;
+}
+
+class TrashListResponse {
+  @JSONSchema({
+    description:
+      'Deleted documents on the requested page, most recently deleted first',
+    type: 'array',
+  })
+  @Type(() => TrashItemResponse)
+  items: TrashItemResponse[];
+
+  @JSONSchema({
+    description: 'Number of deleted documents of this kind',
+    type: 'integer',
+  })
+  total: number;
+
+  @JSONSchema({description: 'Current page', type: 'integer'})
+  page: number;
+
+  @JSONSchema({description: 'Documents per page', type: 'integer'})
+  limit: number;
+}
+
+class TrashRestoreResponse {
+  @JSONSchema({
+    description: 'Number of documents restored (1)',
+    type: 'integer',
+  })
+  restoredCount: number;
+
+  @JSONSchema({
+    description: 'Answers restored with the question',
+    type: 'integer',
+  })
+  answerCount?: number;
+
+  @JSONSchema({
+    description: 'Reviews restored with the question or answer',
+    type: 'integer',
+  })
+  reviewCount?: number;
+
+  @JSONSchema({
+    description: 'Reviewer assignments restored with the question or answer',
+    type: 'integer',
+  })
+  assignmentCount?: number;
+}
+
+export const TRASH_VALIDATORS = [
+  ListTrashQuery,
+  TrashItemResponse,
+  TrashListResponse,
+  TrashRestoreResponse,
+];
+
+export {
+  ListTrashQuery,
+  TrashItemResponse,
+  TrashListResponse,
+  TrashRestoreResponse,
+};
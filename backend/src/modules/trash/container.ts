@@ -0,0 +1,7 @@
+import {ContainerModule} from 'inversify';
+import {TrashController} from './controllers/TrashController.js';
+
+export const trashContainerModule = new ContainerModule(options => {
+  // Controllers
+  options.bind(TrashController).toSelf().inSingletonScope();
+});
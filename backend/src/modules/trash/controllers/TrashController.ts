@@ -0,0 +1,120 @@
+import 'reflect-metadata';
+import {
+  JsonController,
+  Get,
+  Post,
+  HttpCode,
+  Params,
+  Authorized,
+  QueryParams,
+  ForbiddenError,
+} from 'routing-controllers';
+import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
+import {inject, injectable} from 'inversify';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
+import {
+  Ability,
+  AbilityContext,
+} from '#root/shared/functions/AbilityDecorator.js';
+import {TrashService} from '#root/shared/trash-service.js';
+import {QuestionIdParam} from '#root/modules/core/classes/validators/QuestionValidators.js';
+import {AnswerIdParam} from '#root/modules/core/classes/validators/AnswerValidators.js';
+import {ContextIdParam} from '#root/modules/core/classes/validators/ContextValidators.js';
+import {getTrashAbility, TrashAbility} from '../abilities/trashAbilities.js';
+import {
+  ListTrashQuery,
+  TrashListResponse,
+  TrashRestoreResponse,
+} from '../classes/validators/TrashValidators.js';
+
+@OpenAPI({
+  tags: ['trash'],
+  description: 'Deleted questions, answers and contexts, until they are purged',
+})
+@injectable()
+@JsonController('/trash')
+export class TrashController {
+  constructor(
+    @inject(GLOBAL_TYPES.TrashService)
+    private readonly trashService: TrashService,
+  ) {}
+
+  @Get('/')
+  @Authorized()
+  @OpenAPI({
+    summary: 'List deleted documents',
+    description:
+      'Lists the questions, answers or contexts admins deleted, most recent first. Answers, reviews and assignments deleted together with a question are restored with it and not listed.',
+  })
+  @ResponseSchema(TrashListResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async listTrash(
+    @QueryParams() query: ListTrashQuery,
+    @Ability(getTrashAbility) {ability}: AbilityContext<TrashAbility>,
+  ): Promise<TrashListResponse> {
+    if (ability.cannot('read', 'Trash')) {
+      throw new ForbiddenError('Only admins can see the trash');
+    }
+
+    const {type = 'question', page = 1, limit = 20} = query;
+    const {items, total} = await this.trashService.listTrash(type, page, limit);
+    return {items, total, page, limit};
+  }
+
+  @Post('/questions/:questionId/restore')
+  @HttpCode(200)
+  @Authorized()
+  @OpenAPI({
+    summary: 'Restore a deleted question',
+    description:
+      'Also restores the answers, reviews and reviewer assignments deleted with it. Cancelled reviews stay cancelled.',
+  })
+  @ResponseSchema(TrashRestoreResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async restoreQuestion(
+    @Params() {questionId}: QuestionIdParam,
+    @Ability(getTrashAbility) {ability}: AbilityContext<TrashAbility>,
+  ): Promise<TrashRestoreResponse> {
+    if (ability.cannot('restore', 'Trash')) {
+      throw new ForbiddenError('Only admins can restore deleted questions');
+    }
+    return this.trashService.restoreQuestion(questionId);
+  }
+
+  @Post('/answers/:answerId/restore')
+  @HttpCode(200)
+  @Authorized()
+  @OpenAPI({
+    summary: 'Restore a deleted answer',
+    description:
+      'Also restores the reviews and reviewer assignments deleted with it. Answers deleted with their question are restored by restoring the question.',
+  })
+  @ResponseSchema(TrashRestoreResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async restoreAnswer(
+    @Params() {answerId}: AnswerIdParam,
+    @Ability(getTrashAbility) {ability}: AbilityContext<TrashAbility>,
+  ): Promise<TrashRestoreResponse> {
+    if (ability.cannot('restore', 'Trash')) {
+      throw new ForbiddenError('Only admins can restore deleted answers');
+    }
+    return this.trashService.restoreAnswer(answerId);
+  }
+
+  @Post('/contexts/:contextId/restore')
+  @HttpCode(200)
+  @Authorized()
+  @OpenAPI({summary: 'Restore a deleted context'})
+  @ResponseSchema(TrashRestoreResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async restoreContext(
+    @Params() {contextId}: ContextIdParam,
+    @Ability(getTrashAbility) {ability}: AbilityContext<TrashAbility>,
+  ): Promise<TrashRestoreResponse> {
+    if (ability.cannot('restore', 'Trash')) {
+      throw new ForbiddenError('Only admins can restore deleted contexts');
+    }
+    return this.trashService.restoreContext(contextId);
+  }
+}
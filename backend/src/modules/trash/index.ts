@@ -0,0 +1,29 @@
+import {sharedContainerModule} from '#root/container.js';
+import {Container, ContainerModule} from 'inversify';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {useContainer} from 'routing-controllers';
+import {TrashController} from './controllers/TrashController.js';
+import {trashContainerModule} from './container.js';
+import {TRASH_VALIDATORS} from './classes/validators/TrashValidators.js';
+
+// Export names that loadAppModules expects
+export const trashModuleControllers: Function[] = [TrashController];
+
+// Export container modules for loadAppModules
+export const trashContainerModules: ContainerModule[] = [
+  trashContainerModule,
+  sharedContainerModule,
+];
+
+// This sets up Inversify bindings for the trash module
+export async function setupTrashContainer(): Promise<void> {
+  const container = new Container();
+  await container.load(...trashContainerModules);
+  const inversifyAdapter = new InversifyAdapter(container);
+  useContainer(inversifyAdapter);
+}
+
+export const trashModuleValidators: Function[] = [...TRASH_VALIDATORS];
+
+// Export all the main components for external use
+export * from './controllers/TrashController.js';
@@ -0,0 +1,281 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import Express from 'express';
+import {useContainer, useExpressServer} from 'routing-controllers';
+import {Container} from 'inversify';
+import {Collection, Document, ObjectId} from 'mongodb';
+import {describe, it, expect, beforeAll, beforeEach, vi} from 'vitest';
+import {HttpErrorHandler} from '#shared/index.js';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {IAnswer, IContext, IQuestion, IUser, UserRole} from '#root/shared/interfaces/models.js';
+import {TrashService} from '#root/shared/trash-service.js';
+import {AuditRecord, AuditService} from '#root/shared/audit-service.js';
+import {PeerReviewService} from '#root/shared/peer-review-service.js';
+import {QuestionLifecycleService} from '#root/shared/question-lifecycle-service.js';
+import {JobQueueService} from '#root/shared/jobs/index.js';
+import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
+import {IAnswerRevisionRepository} from '#root/shared/database/interfaces/IAnswerRevisionRepository.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {QuestionRepository} from '#root/shared/database/providers/mongo/repositories/QuestionRepository.js';
+import {AnswerService} from '#root/modules/core/services/AnswerService.js';
+import {stubDatabase, stubOf} from '#root/shared/tests/stubs.js';
+import {trashConfig} from '#root/config/trash.js';
+import {trashContainerModules} from '../index.js';
+import {TrashController} from '../controllers/TrashController.js';
+
+describe('Trash Controller Integration Tests', () => {
+  const appInstance = Express();
+  const adminId = new ObjectId();
+  const questionId = new ObjectId();
+  const deletedAt = new Date('2025-03-01T10:00:00.000Z');
+  let currentUser: IUser;
+  let container: Container;
+  let app;
+
+  const signInAs = (role: UserRole) => {
+    currentUser = {
+      _id: role === 'admin' ? adminId.toString() : new ObjectId().toString(),
+      firebaseUID: `uid-${role}`,
+      email: `${role}@example.com`,
+      firstName: role,
+      role,
+    };
+  };
+
+  const trashedQuestion: IQuestion = {
+    _id: questionId,
+    userId: new ObjectId(),
+    question: `How do I control aphids on mustard? ${'The leaves are curling. '.repeat(20)}`,
+    status: 'open',
+    totalAnwersCount: 2,
+    deletedAt,
+    deletedBy: adminId,
+  } as IQuestion;
+
+  // Repositories are stubbed so the service runs its checks and cascades as it does in production
+  const questionRepoStub = {
+    getTrash: vi.fn(async () => ({questions: [trashedQuestion], total: 1})),
+    getByIds: vi.fn(async (): Promise<IQuestion[]> => []),
+    softDeleteQuestion: vi.fn(async () => true),
+    promoteDuplicate: vi.fn(async () => ({canonicalId: null as string | null, relinkedCount: 0})),
+    updateQuestion: vi.fn(async () => ({modifiedCount: 1})),
+    restoreQuestion: vi.fn(async () => true),
+    purgeDeleted: vi.fn(async () => [questionId.toString()]),
+  };
+  const answerRepoStub = {
+    getDeletedById: vi.fn(async (): Promise<IAnswer | null> => null),
+    getByQuestionId: vi.fn(async () => []),
+    getByAuthorId: vi.fn(async () => null),
+    softDeleteForQuestion: vi.fn(async () => []),
+    restoreAnswer: vi.fn(async () => true),
+    restoreDeletedWith: vi.fn(async () => ['a1', 'a2']),
+    purgeDeleted: vi.fn(async () => ['a1']),
+  };
+  const peerReviewRepoStub = {
+    softDeleteForAnswers: vi.fn(async () => []),
+    restoreDeletedWith: vi.fn(async () => ['r1']),
+    purgeDeleted: vi.fn(async () => []),
+  };
+  const reviewerAssignmentRepoStub = {
+    softDeleteForAnswers: vi.fn(async () => []),
+    restoreDeletedWith: vi.fn(async () => ['s1', 's2', 's3']),
+    purgeDeleted: vi.fn(async () => []),
+  };
+  const purgedContext: IContext = {
+    _id: new ObjectId(),
+    text: '',
+    audio: {storage: 'local', key: 'audio/recording.webm', mimeType: 'audio/webm', size: 10, uploadedBy: adminId},
+  };
+  const contextRepoStub = {purgeDeleted: vi.fn(async () => [purgedContext])};
+  const derivedRepoStub = {
+    deleteForAnswers: vi.fn(async () => 0),
+    deleteForSources: vi.fn(async () => 0),
+    deleteForQuestions: vi.fn(async () => 0),
+  };
+  const fileStorageStub = {delete: vi.fn(async () => {})};
+  const auditStub = {record: vi.fn(async (_records: AuditRecord | AuditRecord[]) => {})};
+  const peerReviewServiceStub = {resumeReviews: vi.fn(async () => true)};
+
+  beforeAll(async () => {
+    container = new Container();
+    await container.load(...trashContainerModules);
+    (await container.rebind(GLOBAL_TYPES.QuestionRepository)).toConstantValue(questionRepoStub);
+    (await container.rebind(GLOBAL_TYPES.AnswerRepository)).toConstantValue(answerRepoStub);
+    (await container.rebind(GLOBAL_TYPES.ContextRepository)).toConstantValue(contextRepoStub);
+    (await container.rebind(GLOBAL_TYPES.PeerReviewRepository)).toConstantValue(peerReviewRepoStub);
+    (await container.rebind(GLOBAL_TYPES.ReviewerAssignmentRepository)).toConstantValue(reviewerAssignmentRepoStub);
+    (await container.rebind(GLOBAL_TYPES.AnswerRevisionRepository)).toConstantValue(derivedRepoStub);
+    (await container.rebind(GLOBAL_TYPES.AnswerSimilarityRepository)).toConstantValue(derivedRepoStub);
+    (await container.rebind(GLOBAL_TYPES.TranslationRepository)).toConstantValue(derivedRepoStub);
+    (await container.rebind(GLOBAL_TYPES.BlindReviewRepository)).toConstantValue(derivedRepoStub);
+    (await container.rebind(GLOBAL_TYPES.FileStorage)).toConstantValue(fileStorageStub);
+    (await container.rebind(GLOBAL_TYPES.AuditService)).toConstantValue(auditStub);
+    (await container.rebind(GLOBAL_TYPES.PeerReviewService)).toConstantValue(peerReviewServiceStub);
+    (await container.rebind(GLOBAL_TYPES.Database)).toConstantValue(stubDatabase());
+    useContainer(new InversifyAdapter(container));
+
+    app = useExpressServer(appInstance, {
+      controllers: [TrashController],
+      validation: true,
+      defaultErrorHandler: false,
+      middlewares: [HttpErrorHandler],
+      authorizationChecker: async action => {
+        action.request.user = currentUser;
+        return true;
+      },
+      currentUserChecker: async () => currentUser,
+    });
+  }, 30000);
+
+  beforeEach(() => {
+    signInAs('admin');
+    vi.clearAllMocks();
+  });
+
+  it('should return 403 when a non-admin opens the trash or restores from it', async () => {
+    for (const role of ['user', 'expert'] as UserRole[]) {
+      signInAs(role);
+      expect((await request(app).get('/trash')).status).toBe(403);
+      expect((await request(app).post(`/trash/questions/${questionId}/restore`)).status).toBe(403);
+    }
+    expect(questionRepoStub.getTrash).not.toHaveBeenCalled();
+    expect(questionRepoStub.restoreQuestion).not.toHaveBeenCalled();
+  });
+
+  it('should list deleted questions with an excerpt and when they will be purged', async () => {
+    const response = await request(app).get('/trash').query({type: 'question', limit: 10});
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({total: 1, page: 1, limit: 10});
+    const [item] = response.body.items;
+    expect(item).toMatchObject({
+      id: questionId.toString(),
+      entityType: 'question',
+      deletedAt: deletedAt.toISOString(),
+      deletedBy: adminId.toString(),
+      purgeAt: new Date(deletedAt.getTime() + trashConfig.retention).toISOString(),
+    });
+    expect(item.text.startsWith('How do I control aphids on mustard?')).toBe(true);
+    expect(item.text.endsWith('…')).toBe(true);
+    expect(questionRepoStub.getTrash).toHaveBeenCalledWith(1, 10);
+  });
+
+  it('should restore a question with everything deleted along with it', async () => {
+    const response = await request(app).post(`/trash/questions/${questionId}/restore`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({restoredCount: 1, answerCount: 2, reviewCount: 1, assignmentCount: 3});
+    expect(answerRepoStub.restoreDeletedWith).toHaveBeenCalledWith(questionId.toString(), expect.anything());
+    const [records] = auditStub.record.mock.calls[0];
+    expect([records].flat().map(record => record.action)).toEqual(Array(7).fill('restore'));
+    expect(peerReviewServiceStub.resumeReviews).toHaveBeenNthCalledWith(1, 'a1', expect.anything());
+    expect(peerReviewServiceStub.resumeReviews).toHaveBeenNthCalledWith(2, 'a2', expect.anything());
+  });
+
+  it('should restore an answer and request its cancelled reviews again', async () => {
+    const answerId = new ObjectId();
+    answerRepoStub.getDeletedById.mockResolvedValueOnce({
+      _id: answerId,
+      questionId,
+      authorId: new ObjectId(),
+      answerIteration: 1,
+      isFinalAnswer: false,
+      answer: 'Spray neem oil',
+      deletedAt,
+    });
+    questionRepoStub.getByIds.mockResolvedValue([{...trashedQuestion, deletedAt: undefined}]);
+
+    const response = await request(app).post(`/trash/answers/${answerId}/restore`);
+    questionRepoStub.getByIds.mockResolvedValue([]);
+
+    expect(response.status).toBe(200);
+    expect(questionRepoStub.updateQuestion).toHaveBeenCalledWith(
+      questionId.toString(),
+      {totalAnwersCount: 3},
+      expect.anything(),
+    );
+    expect(peerReviewServiceStub.resumeReviews).toHaveBeenCalledWith(answerId.toString(), expect.anything());
+  });
+
+  it('should make the oldest open duplicate canonical when its canonical question is deleted', async () => {
+    const successorId = new ObjectId().toString();
+    questionRepoStub.getByIds.mockResolvedValueOnce([{...trashedQuestion, deletedAt: undefined}]);
+    questionRepoStub.promoteDuplicate.mockResolvedValueOnce({canonicalId: successorId, relinkedCount: 2});
+
+    const result = await container
+      .get<TrashService>(GLOBAL_TYPES.TrashService)
+      .deleteQuestion(questionId.toString(), adminId.toString());
+
+    expect(result).toEqual({deletedCount: 1, answerCount: 0, reviewCount: 0, assignmentCount: 0});
+    expect(questionRepoStub.promoteDuplicate).toHaveBeenCalledWith(questionId.toString(), expect.anything());
+    const [records] = auditStub.record.mock.calls.at(-1)!;
+    expect([records].flat().at(-1)).toEqual({
+      action: 'update',
+      entityType: 'question',
+      entityId: successorId,
+      before: {duplicateOf: questionId.toString()},
+    });
+  });
+
+  it('should refuse to restore an answer that was deleted with its question', async () => {
+    const answerId = new ObjectId();
+    answerRepoStub.getDeletedById.mockResolvedValueOnce({
+      _id: answerId,
+      questionId,
+      authorId: new ObjectId(),
+      answerIteration: 1,
+      isFinalAnswer: false,
+      answer: 'Spray neem oil',
+      deletedAt,
+      deletedWith: questionId,
+    });
+
+    const response = await request(app).post(`/trash/answers/${answerId}/restore`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('restore the question instead');
+  });
+
+  it('should purge documents past the retention period with their derived data and recordings', async () => {
+    const now = new Date('2025-06-01T00:00:00.000Z');
+    const result = await container.get<TrashService>(GLOBAL_TYPES.TrashService).purgeExpired(now);
+
+    expect(result).toEqual({questions: 1, answers: 1, contexts: 1, reviews: 0, assignments: 0});
+    expect(questionRepoStub.purgeDeleted).toHaveBeenCalledWith(
+      new Date(now.getTime() - trashConfig.retention),
+      expect.anything(),
+    );
+    expect(derivedRepoStub.deleteForAnswers).toHaveBeenCalledWith(['a1'], expect.anything());
+    expect(derivedRepoStub.deleteForQuestions).toHaveBeenCalledWith([questionId.toString()], expect.anything());
+    expect(fileStorageStub.delete).toHaveBeenCalledWith('audio/recording.webm');
+  });
+
+  it('should treat a trashed question as missing when it is answered', async () => {
+    // The collection holds only the trashed question, so a read outside the trash finds nothing
+    const findOne = vi.fn(async (_filter?: object, _options?: object) => null);
+    const questionRepo = new QuestionRepository(
+      stubOf<MongoDatabase>({getCollection: async <T extends Document>() => stubOf<Collection<T>>({findOne})}),
+    );
+    expect(await questionRepo.getById(questionId.toString())).toBeNull();
+    expect(findOne).toHaveBeenCalledWith(
+      {_id: questionId, deletedAt: {$exists: false}},
+      expect.anything(),
+    );
+
+    const answerService = new AnswerService(
+      stubOf<IAnswerRepository>(),
+      questionRepo,
+      stubOf<IAnswerRevisionRepository>(),
+      stubOf<PeerReviewService>(),
+      stubOf<JobQueueService>(),
+      stubOf<QuestionLifecycleService>(),
+      stubOf<AuditService>(auditStub),
+      stubOf<TrashService>(),
+      stubDatabase(),
+    );
+    await expect(
+      answerService.addAnswer(questionId.toString(), new ObjectId().toString(), 'Spray neem oil'),
+    ).rejects.toMatchObject({httpCode: 400, message: `Question with ID ${questionId} not found`});
+  });
+});
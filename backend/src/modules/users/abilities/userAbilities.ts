@@ -0,0 +1,34 @@
+import {
+  AbilityBuilder,
+  createMongoAbility,
+  ForcedSubject,
+  MongoAbility,
+} from '@casl/ability';
+import {AuthenticatedUser} from '#root/shared/functions/AbilityDecorator.js';
+
+export type UserActions = 'manage' | 'read' | 'update';
+
+// Expertise tags belong to the expert's reviewer profile; ids are compared as strings
+export type ExpertiseSubject = ForcedSubject<'Expertise'> & {userId: string};
+
+export type UserSubjects = 'User' | 'Expertise' | ExpertiseSubject | 'all';
+
+export type UserAbility = MongoAbility<[UserActions, UserSubjects]>;
+
+/**
+ * Abilities for user accounts: only admins can list, promote or deactivate users.
+ * Experts may edit their own expertise tags.
+ */
+export function getUserAbility(user: AuthenticatedUser): UserAbility {
+  const {can, build} = new AbilityBuilder<UserAbility>(createMongoAbility);
+
+  if (user.globalRole === 'expert') {
+    can('update', 'Expertise', {userId: user.userId});
+  }
+
+  if (user.globalRole === 'admin') {
+    can('manage', 'all');
+  }
+
+  return build();
+}
@@ -0,0 +1,387 @@
+import {Type} from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {JSONSchema} from 'class-validator-jsonschema';
+import {NotificationType, UserRole} from '#root/shared/interfaces/models.js';
+
+const USER_ROLES: UserRole[] = ['admin', 'user', 'expert'];
+
+class UserIdParam {
+  @JSONSchema({
+    description: 'MongoDB ObjectId of the user',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  @IsMongoId()
+  userId: string;
+}
+
+class ListUsersQuery {
+  @JSONSchema({
+    description: 'Text matched against first name, last name and email',
+    example: 'ravi',
+    type: 'string',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @JSONSchema({
+    description: 'Only return users with this role',
+    example: 'expert',
+    type: 'string',
+    enum: USER_ROLES,
+  })
+  @IsOptional()
+  @IsIn(USER_ROLES)
+  role?: 'admin' | 'user' | 'expert'; // Spelled out so query parsing sees a string type
+
+  @JSONSchema({
+    description: 'Only return active or deactivated users',
+    example: 'active',
+    type: 'string',
+    enum: ['active', 'deactivated'],
+  })
+  @IsOptional()
+  @IsIn(['active', 'deactivated'])
+  status?: 'active' | 'deactivated';
+
+  @JSONSchema({
+    description: 'Page number (1-based)',
+    example: 1,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @JSONSchema({
+    description: 'Users per page',
+    example: 20,
+    type: 'integer',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+class UpdateUserRoleBody {
+  @JSONSchema({
+    description: 'New role of the user',
+    example: 'expert',
+    type: 'string',
+    enum: USER_ROLES,
+  })
+  @IsIn(USER_ROLES)
+  role: UserRole;
+}
+
+class UpdateUserStatusBody {
+  @JSONSchema({
+    description: 'false deactivates the account, true restores it',
+    example: false,
+    type: 'boolean',
+  })
+  @IsBoolean()
+  isActive: boolean;
+}
+
+class UpdateExpertiseBody {
+  @JSONSchema({
+    description: 'Topic, crop and region tags the expert specialises in',
+    example: ['pest-management', 'wheat', 'punjab'],
+    type: 'array',
+    items: {type: 'string'},
+  })
+  @IsArray()
+  @ArrayMaxSize(30)
+  @IsString({each: true})
+  @MaxLength(50, {each: true})
+  expertise: string[];
+}
+
+class ExpertiseResponse {
+  @JSONSchema({
+    description: 'ID of the expert',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  userId: string;
+
+  @JSONSchema({
+    description: 'Normalised expertise tags',
+    example: ['pest-management', 'wheat'],
+    type: 'array',
+    items: {type: 'string'},
+  })
+  expertise: string[];
+}
+
+class EmailNotificationPreferences {
+  @JSONSchema({
+    description: 'A review of an answer is assigned to you',
+    example: true,
+    type: 'boolean',
+  })
+  @IsOptional()
+  @IsBoolean()
+  review_assigned?: boolean;
+
+  @JSONSchema({
+    description: 'One of your reviews is due soon',
+    example: true,
+    type: 'boolean',
+  })
+  @IsOptional()
+  @IsBoolean()
+  review_deadline_approaching?: boolean;
+
+  @JSONSchema({
+    description: 'One of your reviews missed its deadline',
+    example: true,
+    type: 'boolean',
+  })
+  @IsOptional()
+  @IsBoolean()
+  review_deadline_passed?: boolean;
+
+  @JSONSchema({
+    description: 'A reviewer scored one of your answers',
+    example: false,
+    type: 'boolean',
+  })
+  @IsOptional()
+  @IsBoolean()
+  answer_feedback?: boolean;
+
+  @JSONSchema({
+    description: 'A question you answered got its final answer',
+    example: true,
+    type: 'boolean',
+  })
+  @IsOptional()
+  @IsBoolean()
+  question_finalized?: boolean;
+}
+
+class UpdateNotificationPreferencesBody {
+  @JSONSchema({
+    description:
+      'E-mail notifications to turn on (true) or off (false); types left out keep their setting',
+    example: {answer_feedback: false},
+    type: 'object',
+  })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => EmailNotificationPreferences)
+  email: EmailNotificationPreferences;
+}
+
+class NotificationPreferencesResponse {
+  @JSONSchema({
+    description: 'Whether each kind of e-mail notification is sent',
+    example: {
+      review_assigned: true,
+      review_deadline_approaching: true,
+      review_deadline_passed: true,
+      answer_feedback: false,
+      question_finalized: true,
+    },
+    type: 'object',
+  })
+  email: Record<NotificationType, boolean>;
+}
+
+class UserSummaryResponse {
+  @JSONSchema({
+    description: 'Unique user identifier',
+    example: '650e9c0f5f1b2c001c2f4d9e',
+    type: 'string',
+  })
+  id: string;
+
+  @JSONSchema({
+    description: 'Email address',
+    example: 'ravi@example.com',
+    type: 'string',
+  })
+  email: string;
+
+  @JSONSchema({
+    description: 'First name',
+    example: 'Ravi',
+    type: 'string',
+  })
+  firstName: string;
+
+  @JSONSchema({
+    description: 'Last name',
+    example: 'Kumar',
+    type: 'string',
+  })
+  lastName?: string;
+
+  @JSONSchema({
+    description: 'Role of the user',
+    example: 'expert',
+    type: 'string',
+    enum: USER_ROLES,
+  })
+  role: UserRole;
+
+  @JSONSchema({
+    description: 'Whether the account can sign in',
+    example: true,
+    type: 'boolean',
+  })
+  isActive: boolean;
+
+  @JSONSchema({
+    description: 'When the account was deactivated',
+    type: 'string',
+    format: 'date-time',
+  })
+  deactivatedAt?: string;
+
+  @JSONSchema({
+    description: 'When the account was created',
+    type: 'string',
+    format: 'date-time',
+  })
+  createdAt?: string;
+
+  @JSONSchema({
+    description: 'Expertise tags, for experts',
+    example: ['pest-management', 'wheat'],
+    type: 'array',
+    items: {type: 'string'},
+  })
+  expertise?: string[];
+}
+
+class UserListResponse {
+  @JSONSchema({
+    description: 'Users on the requested page',
+    type: 'array',
+  })
+  @Type(() => UserSummaryResponse)
+  users: UserSummaryResponse[];
+
+  @JSONSchema({
+    description: 'Number of users matching the filters',
+    example: 42,
+    type: 'integer',
+  })
+  total: number;
+
+  @JSONSchema({
+    description: 'Current page',
+    example: 1,
+    type: 'integer',
+  })
+  page: number;
+
+  @JSONSchema({
+    description: 'Users per page',
+    example: 20,
+    type: 'integer',
+  })
+  limit: number;
+}
+
+class UserActivityResponse {
+  @JSONSchema({
+    description: 'The user the activity belongs to',
+    type: 'object',
+  })
+  @Type(() => UserSummaryResponse)
+  user: UserSummaryResponse;
+
+  @JSONSchema({
+    description: 'Total answers written and the most recent ones',
+    type: 'object',
+  })
+  answers: {
+    total: number;
+    recent: {
+      id: string;
+      questionId: string;
+      answer: string;
+      isFinalAnswer: boolean;
+      createdAt?: string;
+    }[];
+  };
+
+  @JSONSchema({
+    description: 'Peer reviews by status',
+    type: 'object',
+  })
+  reviews: {
+    total: number;
+    submitted: number;
+    pending: number;
+    averageScoreGiven: number | null;
+  };
+
+  @JSONSchema({
+    description: 'Review assignments the user has not completed yet',
+    type: 'array',
+  })
+  pendingAssignments: {
+    id: string;
+    answerId: string;
+    status: string;
+    priority: string;
+    assignedAt: string;
+    dueDate?: string;
+  }[];
+}
+
+export const USER_VALIDATORS = [
+  UserIdParam,
+  ListUsersQuery,
+  UpdateUserRoleBody,
+  UpdateUserStatusBody,
+  UpdateExpertiseBody,
+  ExpertiseResponse,
+  UserSummaryResponse,
+  UserListResponse,
+  UserActivityResponse,
+  EmailNotificationPreferences,
+  UpdateNotificationPreferencesBody,
+  NotificationPreferencesResponse,
+];
+
+export {
+  UserIdParam,
+  ListUsersQuery,
+  UpdateUserRoleBody,
+  UpdateUserStatusBody,
+  UpdateExpertiseBody,
+  ExpertiseResponse,
+  UserSummaryResponse,
+  UserListResponse,
+  UserActivityResponse,
+  EmailNotificationPreferences,
+  UpdateNotificationPreferencesBody,
+  NotificationPreferencesResponse,
+};
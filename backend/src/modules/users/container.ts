@@ -0,0 +1,12 @@
+import {ContainerModule} from 'inversify';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {UserController} from './controllers/UserController.js';
+import {UserService} from './services/UserService.js';
+
+export const usersContainerModule = new ContainerModule(options => {
+  // Controllers
+  options.bind(UserController).toSelf().inSingletonScope();
+
+  // Services
+  options.bind(GLOBAL_TYPES.UserService).to(UserService).inSingletonScope();
+});
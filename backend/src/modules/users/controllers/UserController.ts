@@ -0,0 +1,182 @@
+import 'reflect-metadata';
+import {
+  JsonController,
+  Get,
+  Patch,
+  Put,
+  Body,
+  Params,
+  QueryParams,
+  HttpCode,
+  CurrentUser,
+  Authorized,
+  ForbiddenError,
+} from 'routing-controllers';
+import {subject} from '@casl/ability';
+import {OpenAPI, ResponseSchema} from 'routing-controllers-openapi';
+import {inject} from 'inversify';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {BadRequestErrorResponse} from '#shared/middleware/errorHandler.js';
+import {IUser} from '#root/shared/interfaces/models.js';
+import {
+  Ability,
+  AbilityContext,
+} from '#root/shared/functions/AbilityDecorator.js';
+import {UserService} from '../services/UserService.js';
+import {getUserAbility, UserAbility} from '../abilities/userAbilities.js';
+import {
+  ExpertiseResponse,
+  ListUsersQuery,
+  NotificationPreferencesResponse,
+  UpdateExpertiseBody,
+  UpdateNotificationPreferencesBody,
+  UpdateUserRoleBody,
+  UpdateUserStatusBody,
+  UserActivityResponse,
+  UserIdParam,
+  UserListResponse,
+  UserSummaryResponse,
+} from '../classes/validators/UserValidators.js';
+
+@OpenAPI({
+  tags: ['Users'],
+  description: 'Admin management of user accounts and roles',
+})
+@JsonController('/users')
+export class UserController {
+  constructor(
+    @inject(GLOBAL_TYPES.UserService)
+    private readonly userService: UserService,
+  ) {}
+
+  @OpenAPI({summary: 'Get the signed-in user, including their role'})
+  @Get('/me')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(UserSummaryResponse)
+  async getMe(@CurrentUser() user: IUser): Promise<UserSummaryResponse> {
+    return this.userService.getCurrentUser(user);
+  }
+
+  @OpenAPI({summary: "Get the signed-in user's notification preferences"})
+  @Get('/me/notification-preferences')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(NotificationPreferencesResponse)
+  async getNotificationPreferences(
+    @CurrentUser() user: IUser,
+  ): Promise<NotificationPreferencesResponse> {
+    return this.userService.getNotificationPreferences(user);
+  }
+
+  @OpenAPI({
+    summary: 'Turn e-mail notifications on or off for the signed-in user',
+  })
+  @Put('/me/notification-preferences')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(NotificationPreferencesResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async updateNotificationPreferences(
+    @CurrentUser() user: IUser,
+    @Body() body: UpdateNotificationPreferencesBody,
+  ): Promise<NotificationPreferencesResponse> {
+    return this.userService.updateNotificationPreferences(
+      user._id!.toString(),
+      body.email,
+    );
+  }
+
+  @OpenAPI({summary: 'List and search users'})
+  @Get('/')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(UserListResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async listUsers(
+    @QueryParams() query: ListUsersQuery,
+    @Ability(getUserAbility) {ability}: AbilityContext<UserAbility>,
+  ): Promise<UserListResponse> {
+    if (ability.cannot('read', 'User')) {
+      throw new ForbiddenError('Only admins can list users');
+    }
+    return this.userService.listUsers(query);
+  }
+
+  @OpenAPI({summary: "Change a user's role"})
+  @Patch('/:userId/role')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(UserSummaryResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async updateRole(
+    @Params() params: UserIdParam,
+    @Body() body: UpdateUserRoleBody,
+    @Ability(getUserAbility) {ability, user}: AbilityContext<UserAbility>,
+  ): Promise<UserSummaryResponse> {
+    if (ability.cannot('update', 'User')) {
+      throw new ForbiddenError('Only admins can change roles');
+    }
+    return this.userService.updateRole(
+      user._id.toString(),
+      params.userId,
+      body.role,
+    );
+  }
+
+  @OpenAPI({summary: 'Deactivate or reactivate a user account'})
+  @Patch('/:userId/status')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(UserSummaryResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async updateStatus(
+    @Params() params: UserIdParam,
+    @Body() body: UpdateUserStatusBody,
+    @Ability(getUserAbility) {ability, user}: AbilityContext<UserAbility>,
+  ): Promise<UserSummaryResponse> {
+    if (ability.cannot('update', 'User')) {
+      throw new ForbiddenError('Only admins can deactivate accounts');
+    }
+    return this.userService.setActive(
+      user._id.toString(),
+      params.userId,
+      body.isActive,
+    );
+  }
+
+  @OpenAPI({summary: "Replace an expert's expertise tags"})
+  @Put('/:userId/expertise')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(ExpertiseResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async updateExpertise(
+    @Params() params: UserIdParam,
+    @Body() body: UpdateExpertiseBody,
+    @Ability(getUserAbility) {ability}: AbilityContext<UserAbility>,
+  ): Promise<ExpertiseResponse> {
+    if (
+      ability.cannot('update', subject('Expertise', {userId: params.userId}))
+    ) {
+      throw new ForbiddenError('You can only edit your own expertise');
+    }
+    return this.userService.updateExpertise(params.userId, body.expertise);
+  }
+
+  @OpenAPI({summary: "Get a user's answers, reviews and pending assignments"})
+  @Get('/:userId/activity')
+  @HttpCode(200)
+  @Authorized()
+  @ResponseSchema(UserActivityResponse)
+  @ResponseSchema(BadRequestErrorResponse, {statusCode: 400})
+  async getActivity(
+    @Params() params: UserIdParam,
+    @Ability(getUserAbility) {ability}: AbilityContext<UserAbility>,
+  ): Promise<UserActivityResponse> {
+    if (ability.cannot('read', 'User')) {
+      throw new ForbiddenError('Only admins can view user activity');
+    }
+    return this.userService.getActivity(params.userId);
+  }
+}
@@ -0,0 +1,29 @@
+import {sharedContainerModule} from '#root/container.js';
+import {Container, ContainerModule} from 'inversify';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {useContainer} from 'routing-controllers';
+import {UserController} from './controllers/UserController.js';
+import {usersContainerModule} from './container.js';
+import {USER_VALIDATORS} from './classes/validators/UserValidators.js';
+
+// Export names that loadAppModules expects
+export const usersModuleControllers: Function[] = [UserController];
+
+// Export container modules for loadAppModules
+export const usersContainerModules: ContainerModule[] = [
+  usersContainerModule,
+  sharedContainerModule,
+];
+
+// This sets up Inversify bindings for the users module
+export async function setupUsersContainer(): Promise<void> {
+  const container = new Container();
+  await container.load(...usersContainerModules);
+  const inversifyAdapter = new InversifyAdapter(container);
+  useContainer(inversifyAdapter);
+}
+
+export const usersModuleValidators: Function[] = [...USER_VALIDATORS];
+
+// Export all the main components for external use
+export * from './controllers/UserController.js';
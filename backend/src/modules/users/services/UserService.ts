@@ -0,0 +1,338 @@
+import {IUserRepository} from '#root/shared/database/interfaces/IUserRepository.js';
+import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
+import {IPeerReviewRepository} from '#root/shared/database/interfaces/IPeerReviewRepository.js';
+import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+import {IReviewerProfileRepository} from '#root/shared/database/interfaces/IReviewerProfileRepository.js';
+import {BaseService, MongoDatabase} from '#root/shared/index.js';
+import {
+  INotificationPreferences,
+  IUser,
+  UserRole,
+} from '#root/shared/interfaces/models.js';
+import {
+  isNotificationEnabled,
+  NOTIFICATION_TYPES,
+} from '#root/shared/notification-service.js';
+import {AuditService} from '#root/shared/audit-service.js';
+import {PeerReviewService} from '#root/shared/peer-review-service.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession} from 'mongodb';
+import {BadRequestError, NotFoundError} from 'routing-controllers';
+import {normalizeTag} from '#root/utils/questionTags.js';
+import {diffSnapshots} from '#root/utils/auditLog.js';
+import {
+  EmailNotificationPreferences,
+  ExpertiseResponse,
+  ListUsersQuery,
+  NotificationPreferencesResponse,
+  UserActivityResponse,
+  UserListResponse,
+  UserSummaryResponse,
+} from '../classes/validators/UserValidators.js';
+
+const RECENT_ANSWERS_LIMIT = 10;
+
+@injectable()
+export class UserService extends BaseService {
+  constructor(
+    @inject(GLOBAL_TYPES.UserRepository)
+    private readonly userRepo: IUserRepository,
+
+    @inject(GLOBAL_TYPES.AnswerRepository)
+    private readonly answerRepo: IAnswerRepository,
+
+    @inject(GLOBAL_TYPES.PeerReviewRepository)
+    private readonly peerReviewRepo: IPeerReviewRepository,
+
+    @inject(GLOBAL_TYPES.ReviewerAssignmentRepository)
+    private readonly reviewerAssignmentRepo: IReviewerAssignmentRepository,
+
+    @inject(GLOBAL_TYPES.ReviewerProfileRepository)
+    private readonly reviewerProfileRepo: IReviewerProfileRepository,
+
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
+
+    @inject(GLOBAL_TYPES.PeerReviewService)
+    private readonly peerReviewService: PeerReviewService,
+
+    @inject(GLOBAL_TYPES.Database)
+    private readonly mongoDatabase: MongoDatabase,
+  ) {
+    super(mongoDatabase);
+  }
+
+  async getCurrentUser(user: IUser): Promise<UserSummaryResponse> {
+    if (user.role !== 'expert') return this.toSummary(user);
+
+    const profile = await this.reviewerProfileRepo.getByUserId(
+      user._id!.toString(),
+    );
+    return {...this.toSummary(user), expertise: profile?.expertise ?? []};
+  }
+
+  async listUsers(query: ListUsersQuery): Promise<UserListResponse> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const isActive = query.status ? query.status === 'active' : undefined;
+
+    const {users, total} = await this.userRepo.searchUsers(
+      {search: query.search, role: query.role, isActive},
+      page,
+      limit,
+    );
+
+    return {users: users.map(user => this.toSummary(user)), total, page, limit};
+  }
+
+  async updateRole(
+    adminId: string,
+    userId: string,
+    role: UserRole,
+  ): Promise<UserSummaryResponse> {
+    if (adminId === userId) {
+      throw new BadRequestError('You cannot change your own role');
+    }
+
+    return this._withTransaction(async (session: ClientSession) => {
+      const user = await this.getUser(userId, session);
+      if (user.role !== role) {
+        await this.userRepo.updateRole(userId, role, session);
+        await this.syncReviewerProfile(
+          userId,
+          role,
+          user.isActive !== false,
+          session,
+        );
+        await this.audit.record(
+          {
+            action: 'update',
+            entityType: 'user',
+            entityId: userId,
+            before: {role: user.role},
+            after: {role},
+          },
+          session,
+        );
+      }
+      return this.toSummary({...user, role});
+    });
+  }
+
+  async setActive(
+    adminId: string,
+    userId: string,
+    isActive: boolean,
+  ): Promise<UserSummaryResponse> {
+    if (adminId === userId) {
+      throw new BadRequestError('You cannot deactivate your own account');
+    }
+
+    return this._withTransaction(async (session: ClientSession) => {
+      const user = await this.getUser(userId, session);
+      await this.userRepo.setActive(userId, isActive, session);
+      await this.syncReviewerProfile(userId, user.role, isActive, session);
+      await this.audit.record(
+        {
+          action: 'update',
+          entityType: 'user',
+          entityId: userId,
+          before: {isActive: user.isActive !== false},
+          after: {isActive},
+        },
+        session,
+      );
+      return this.toSummary(await this.getUser(userId, session));
+    });
+  }
+
+  async updateExpertise(
+    userId: string,
+    expertise: string[],
+  ): Promise<ExpertiseResponse> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const user = await this.getUser(userId, session);
+      if (user.role !== 'expert') {
+        throw new BadRequestError('Only experts have expertise tags');
+      }
+
+      const tags = [...new Set(expertise.map(normalizeTag).filter(Boolean))];
+      const profile = await this.reviewerProfileRepo.getByUserId(
+        userId,
+        session,
+      );
+      await this.reviewerProfileRepo.createMissingProfiles([userId], session);
+      await this.reviewerProfileRepo.updateProfile(
+        userId,
+        {expertise: tags},
+        session,
+      );
+      await this.audit.record(
+        {
+          action: 'update',
+          entityType: 'reviewer_profile',
+          entityId: userId,
+          before: {expertise: profile?.expertise ?? []},
+          after: {expertise: tags},
+        },
+        session,
+      );
+      return {userId, expertise: tags};
+    });
+  }
+
+  getNotificationPreferences(user: IUser): NotificationPreferencesResponse {
+    return {
+      email: Object.fromEntries(
+        NOTIFICATION_TYPES.map(type => [
+          type,
+          isNotificationEnabled(user, 'email', type),
+        ]),
+      ) as NotificationPreferencesResponse['email'],
+    };
+  }
+
+  async updateNotificationPreferences(
+    userId: string,
+    email: EmailNotificationPreferences,
+  ): Promise<NotificationPreferencesResponse> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const user = await this.getUser(userId, session);
+
+      // Only known types are stored; the ones not mentioned keep their setting
+      const preferences: INotificationPreferences = {
+        ...user.notificationPreferences,
+        email: {...user.notificationPreferences?.email},
+      };
+      for (const type of NOTIFICATION_TYPES) {
+        if (typeof email[type] === 'boolean')
+          preferences.email![type] = email[type];
+      }
+      await this.userRepo.edit(
+        userId,
+        {notificationPreferences: preferences},
+        session,
+      );
+      await this.audit.record(
+        {
+          action: 'update',
+          entityType: 'user',
+          entityId: userId,
+          ...diffSnapshots(
+            {notificationPreferences: user.notificationPreferences},
+            {notificationPreferences: preferences},
+          ),
+        },
+        session,
+      );
+
+      return this.getNotificationPreferences({
+        ...user,
+        notificationPreferences: preferences,
+      });
+    });
+  }
+
+  async getActivity(userId: string): Promise<UserActivityResponse> {
+    const user = await this.getUser(userId);
+
+    const [answers, reviews, assignments] = await Promise.all([
+      this.answerRepo.getRecentByAuthor(userId, RECENT_ANSWERS_LIMIT),
+      this.peerReviewRepo.getReviewsForReviewer(userId),
+      this.reviewerAssignmentRepo.getAssignmentsForReviewer(userId),
+    ]);
+
+    const submitted = reviews.filter(review => review.status === 'submitted');
+    const scores = submitted
+      .map(review => review.score)
+      .filter((score): score is number => typeof score === 'number');
+
+    return {
+      user: this.toSummary(user),
+      answers: {
+        total: answers.total,
+        recent: answers.answers.map(answer => ({
+          id: answer._id!.toString(),
+          questionId: answer.questionId.toString(),
+          answer: answer.answer,
+          isFinalAnswer: answer.isFinalAnswer,
+          createdAt: answer.createdAt?.toISOString(),
+        })),
+      },
+      reviews: {
+        total: reviews.length,
+        submitted: submitted.length,
+        pending: reviews.filter(
+          r => r.status === 'assigned' || r.status === 'in_progress',
+        ).length,
+        averageScoreGiven: scores.length
+          ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+          : null,
+      },
+      pendingAssignments: assignments
+        .filter(a => a.status === 'pending' || a.status === 'accepted')
+        .map(assignment => ({
+          id: assignment._id!.toString(),
+          answerId: assignment.answerId.toString(),
+          status: assignment.status,
+          priority: assignment.priority,
+          assignedAt: new Date(assignment.assignedAt).toISOString(),
+          dueDate: assignment.dueDate
+            ? new Date(assignment.dueDate).toISOString()
+            : undefined,
+        })),
+    };
+  }
+
+  private async getUser(
+    userId: string,
+    session?: ClientSession,
+  ): Promise<IUser> {
+    const user = await this.userRepo.findById(userId, session);
+    // findById returns an empty transformer object rather than null for unknown IDs
+    if (!user?._id) {
+      throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+    return user;
+  }
+
+  // Only active experts should receive new review assignments
+  private async syncReviewerProfile(
+    userId: string,
+    role: UserRole,
+    isActive: boolean,
+    session: ClientSession,
+  ): Promise<void> {
+    const reviewing = role === 'expert' && isActive;
+    if (reviewing) {
+      await this.reviewerProfileRepo.createMissingProfiles([userId], session);
+    }
+    await this.reviewerProfileRepo.updateProfile(
+      userId,
+      {isActive: reviewing},
+      session,
+    );
+    // Reviews they still owe go to other experts; the profile is inactive first so they are not picked again
+    if (!reviewing) {
+      await this.peerReviewService.withdrawReviewer(userId, session);
+    }
+  }
+
+  private toSummary(user: IUser): UserSummaryResponse {
+    return {
+      id: user._id!.toString(),
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      isActive: user.isActive !== false,
+      deactivatedAt: user.deactivatedAt
+        ? new Date(user.deactivatedAt).toISOString()
+        : undefined,
+      createdAt: user.createdAt
+        ? new Date(user.createdAt).toISOString()
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,145 @@
+import 'reflect-metadata';
+import request from 'supertest';
+import Express from 'express';
+import {useContainer, useExpressServer} from 'routing-controllers';
+import {Container} from 'inversify';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeAll, beforeEach, vi} from 'vitest';
+import {HttpErrorHandler} from '#shared/index.js';
+import {InversifyAdapter} from '#root/inversify-adapter.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {IUser, UserRole} from '#root/shared/interfaces/models.js';
+import {usersContainerModules} from '../index.js';
+import {UserController} from '../controllers/UserController.js';
+
+describe('User Controller Integration Tests', () => {
+  const appInstance = Express();
+  const userId = new ObjectId().toString();
+  let currentUser: IUser;
+  let app;
+
+  const signInAs = (role: UserRole) => {
+    currentUser = {
+      _id: new ObjectId().toString(),
+      firebaseUID: `uid-${role}`,
+      email: `${role}@example.com`,
+      firstName: role,
+      role,
+    };
+  };
+
+  // The service is stubbed so only routing, validation and access checks are exercised
+  const userServiceStub = {
+    getCurrentUser: async (user: IUser) => ({id: user._id, role: user.role}),
+    listUsers: vi.fn(async () => ({users: [], total: 0, page: 1, limit: 20})),
+    updateRole: vi.fn(async (_adminId: string, id: string, role: UserRole) => ({id, role})),
+    setActive: vi.fn(async (_adminId: string, id: string, isActive: boolean) => ({id, isActive})),
+    updateExpertise: vi.fn(async (id: string, expertise: string[]) => ({userId: id, expertise})),
+    updateNotificationPreferences: vi.fn(async (_id: string, email: Record<string, boolean>) => ({email})),
+  };
+
+  beforeAll(async () => {
+    const container = new Container();
+    await container.load(...usersContainerModules);
+    (await container.rebind(GLOBAL_TYPES.UserService)).toConstantValue(userServiceStub);
+    useContainer(new InversifyAdapter(container));
+
+    app = useExpressServer(appInstance, {
+      controllers: [UserController],
+      validation: true,
+      defaultErrorHandler: false,
+      middlewares: [HttpErrorHandler],
+      authorizationChecker: async action => {
+        action.request.user = currentUser;
+        return true;
+      },
+      currentUserChecker: async () => currentUser,
+    });
+  }, 30000);
+
+  beforeEach(() => signInAs('admin'));
+
+  it('should return the signed-in user for any role', async () => {
+    signInAs('expert');
+    const response = await request(app).get('/users/me');
+    expect(response.status).toBe(200);
+    expect(response.body.role).toBe('expert');
+  });
+
+  it('should return 403 when a non-admin lists users', async () => {
+    for (const role of ['user', 'expert'] as UserRole[]) {
+      signInAs(role);
+      const response = await request(app).get('/users');
+      expect(response.status).toBe(403);
+    }
+    expect(userServiceStub.listUsers).not.toHaveBeenCalled();
+  });
+
+  it('should pass search filters and pagination to the service', async () => {
+    const response = await request(app).get('/users?search=ravi&role=expert&page=2&limit=5');
+    expect(response.status).toBe(200);
+    expect(userServiceStub.listUsers).toHaveBeenCalledWith(
+      expect.objectContaining({search: 'ravi', role: 'expert', page: 2, limit: 5}),
+    );
+  });
+
+  it('should let an admin promote a user to expert', async () => {
+    const response = await request(app)
+      .patch(`/users/${userId}/role`)
+      .send({role: 'expert'});
+    expect(response.status).toBe(200);
+    expect(userServiceStub.updateRole).toHaveBeenCalledWith(
+      currentUser._id,
+      userId,
+      'expert',
+    );
+  });
+
+  it('should return 400 for an unknown role', async () => {
+    const response = await request(app)
+      .patch(`/users/${userId}/role`)
+      .send({role: 'superuser'});
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 403 when a non-admin deactivates an account', async () => {
+    signInAs('expert');
+    const response = await request(app)
+      .patch(`/users/${userId}/status`)
+      .send({isActive: false});
+    expect(response.status).toBe(403);
+    expect(userServiceStub.setActive).not.toHaveBeenCalled();
+  });
+
+  it('should let experts edit only their own expertise', async () => {
+    signInAs('expert');
+    const own = await request(app)
+      .put(`/users/${currentUser._id}/expertise`)
+      .send({expertise: ['wheat', 'pest-management']});
+    expect(own.status).toBe(200);
+
+    const other = await request(app)
+      .put(`/users/${userId}/expertise`)
+      .send({expertise: ['wheat']});
+    expect(other.status).toBe(403);
+    expect(userServiceStub.updateExpertise).toHaveBeenCalledTimes(1);
+  });
+
+  it('should validate notification preference changes before saving them', async () => {
+    signInAs('expert');
+    const invalid = await request(app)
+      .put('/users/me/notification-preferences')
+      .send({email: {answer_feedback: 'no'}});
+    expect(invalid.status).toBe(400);
+    expect(userServiceStub.updateNotificationPreferences).not.toHaveBeenCalled();
+
+    const response = await request(app)
+      .put('/users/me/notification-preferences')
+      .send({email: {answer_feedback: false}});
+    expect(response.status).toBe(200);
+    expect(userServiceStub.updateNotificationPreferences).toHaveBeenCalledWith(
+      currentUser._id,
+      expect.objectContaining({answer_feedback: false}),
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import 'reflect-metadata';
+import {ObjectId} from 'mongodb';
+import {describe, it, expect, beforeEach, vi} from 'vitest';
+import {UserService} from '../services/UserService.js';
+import {IUser} from '#root/shared/interfaces/models.js';
+
+describe('User Role Tests', () => {
+  const adminId = new ObjectId().toString();
+  const userId = new ObjectId().toString();
+  // Stands in for the transaction's session so calls can be checked against it
+  const session = {
+    startTransaction: () => {},
+    commitTransaction: async () => {},
+    abortTransaction: async () => {},
+    inTransaction: () => false,
+    endSession: async () => {},
+  };
+
+  let user: IUser;
+  let profile: {isActive: boolean};
+  let peerReviewService: {withdrawReviewer: ReturnType<typeof vi.fn>};
+  let service: UserService;
+
+  beforeEach(() => {
+    user = {_id: userId, firebaseUID: 'uid', email: 'expert@example.com', firstName: 'Asha', role: 'expert'};
+    profile = {isActive: true};
+    peerReviewService = {withdrawReviewer: vi.fn(async () => ({cancelled: 2}))};
+
+    const userRepo = {
+      findById: async () => ({...user}),
+      updateRole: async (_id: string, role: IUser['role']) => {
+        user.role = role;
+      },
+      setActive: async (_id: string, isActive: boolean) => {
+        user.isActive = isActive;
+      },
+    };
+    const reviewerProfileRepo = {
+      createMissingProfiles: async () => ({insertedCount: 0}),
+      updateProfile: async (_id: string, updates: {isActive: boolean}) => {
+        Object.assign(profile, updates);
+        return {modifiedCount: 1};
+      },
+    };
+
+    service = new UserService(
+      userRepo as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      reviewerProfileRepo as any,
+      {record: async () => {}} as any,
+      peerReviewService as any,
+      {getClient: async () => ({startSession: () => session})} as any,
+    );
+  });
+
+  it('should withdraw a demoted or deactivated expert from their reviews in the same transaction', async () => {
+    await service.updateRole(adminId, userId, 'user');
+    expect(profile.isActive).toBe(false);
+    expect(peerReviewService.withdrawReviewer).toHaveBeenCalledWith(userId, session);
+
+    user.role = 'expert';
+    peerReviewService.withdrawReviewer.mockClear();
+    await service.setActive(adminId, userId, false);
+    expect(peerReviewService.withdrawReviewer).toHaveBeenCalledWith(userId, session);
+  });
+
+  it('should keep the reviews of an expert who stays active', async () => {
+    await service.setActive(adminId, userId, true);
+
+    expect(profile.isActive).toBe(true);
+    expect(peerReviewService.withdrawReviewer).not.toHaveBeenCalled();
+  });
+});
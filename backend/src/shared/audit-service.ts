@@ -0,0 +1,99 @@
+import {
+  AuditAction,
+  AuditEntityType,
+  IAuditEntry,
+  UserRole,
+} from '#root/shared/interfaces/models.js';
+import {IAuditLogRepository} from '#root/shared/database/interfaces/IAuditLogRepository.js';
+import {getRequestContext} from '#root/shared/logging/index.js';
+import {AuditSnapshot} from '#root/utils/auditLog.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession, ObjectId} from 'mongodb';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'create',
+  'update',
+  'delete',
+  'status_change',
+  'merge',
+  'elect_final',
+  'submit',
+  'respond',
+  'restore',
+  'purge',
+];
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'question',
+  'answer',
+  'context',
+  'user',
+  'peer_review',
+  'reviewer_assignment',
+  'reviewer_profile',
+  'blind_ranking',
+];
+
+export interface AuditActor {
+  userId?: string;
+  role: UserRole | 'system';
+}
+
+export interface AuditRecord {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | ObjectId;
+  before?: object;
+  after?: object;
+  actor?: AuditActor; // Defaults to the user of the current request, or the system outside a request
+}
+
+/**
+ * Appends changes to the audit log. Pass the session of the change, so an
+ * entry is kept exactly when the change commits.
+ */
+@injectable()
+export class AuditService {
+  constructor(
+    @inject(GLOBAL_TYPES.AuditLogRepository)
+    private readonly auditLogRepo: IAuditLogRepository,
+  ) {}
+
+  async record(
+    records: AuditRecord | AuditRecord[],
+    session?: ClientSession,
+  ): Promise<void> {
+    const context = getRequestContext();
+    const requestActor: AuditActor = context?.userId
+      ? {userId: context.userId, role: context.userRole ?? 'user'}
+      : {role: 'system'};
+    const createdAt = new Date();
+
+    // Updates that changed nothing are left out
+    const changes = [records]
+      .flat()
+      .filter(
+        record =>
+          record.action !== 'update' ||
+          Object.keys(record.after ?? {}).length > 0,
+      );
+    if (changes.length === 0) return;
+
+    const entries = changes.map((record): IAuditEntry => {
+      const actor = record.actor ?? requestActor;
+      return {
+        ...(actor.userId && {actorId: new ObjectId(actor.userId)}),
+        actorRole: actor.role,
+        action: record.action,
+        entityType: record.entityType,
+        entityId: record.entityId.toString(),
+        ...(record.before && {before: record.before as AuditSnapshot}),
+        ...(record.after && {after: record.after as AuditSnapshot}),
+        ...(context?.requestId && {requestId: context.requestId}),
+        createdAt,
+      };
+    });
+    await this.auditLogRepo.addEntries(entries, session);
+  }
+}
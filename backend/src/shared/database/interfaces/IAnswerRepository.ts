@@ -1,5 +1,5 @@
 import {SubmissionResponse} from '#root/modules/core/classes/validators/AnswerValidators.js';
-import {IAnswer} from '#root/shared/interfaces/models.js';
+import {IAnswer, ISoftDeletion} from '#root/shared/interfaces/models.js';
 import {ClientSession, ObjectId} from 'mongodb';
 
 /**
@@ -65,12 +65,12 @@ export interface IAnswerRepository {
   ): Promise<Partial<IAnswer>[]>;
 
   /**
-   * Retrieves all answers for a specific question.
-   * @param questionId - The ID of the answerId.
+   * Retrieves an answer by its ID.
+   * @param answerId - The ID of the answer.
    * @param session - Optional MongoDB client session for transactions.
-   * @returns A promise that resolves to answer.
+   * @returns A promise that resolves to the answer, or null if it does not exist.
    */
-  getById(answerId: string, session?: ClientSession): Promise<IAnswer>;
+  getById(answerId: string, session?: ClientSession): Promise<IAnswer | null>;
 
   /**
    * Updates an existing answer.
@@ -86,13 +86,128 @@ export interface IAnswerRepository {
   ): Promise<{modifiedCount: number}>;
 
   /**
-   * Deletes an answer by its ID.
-   * @param answerId - The ID of the answer to delete.
+   * Freezes every answer of a question except the elected final answer.
+   * Frozen answers are no longer final and can no longer be edited.
+   * @param questionId - The ID of the question.
+   * @param finalAnswerId - The ID of the answer elected as final.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an object containing the number of modified documents.
+   */
+  freezeOtherAnswers(
+    questionId: string,
+    finalAnswerId: string,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}>;
+
+  /**
+   * Retrieves every final answer, oldest change first.
+   * @param since - Optional; only answers changed after this time are returned.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an array of final answers.
+   */
+  getFinalAnswers(since?: Date, session?: ClientSession): Promise<IAnswer[]>;
+
+  /**
+   * Moves every answer of one question to another question.
+   * @param fromQuestionId - The ID of the question the answers belong to.
+   * @param toQuestionId - The ID of the question to move them to.
    * @param session - Optional MongoDB client session for transactions.
-   * @returns A promise that resolves to an object containing the number of deleted documents.
+   * @returns A promise that resolves to an object containing the number of moved answers.
    */
-  deleteAnswer(
+  moveToQuestion(
+    fromQuestionId: string,
+    toQuestionId: string,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}>;
+
+  /**
+   * Moves an answer to the trash.
+   * @param answerId - The ID of the answer.
+   * @param deletion - When and by whom the answer was deleted.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to false when the answer is missing or already in the trash.
+   */
+  softDeleteAnswer(
     answerId: string,
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<boolean>;
+
+  /**
+   * Moves every answer of a question that is not yet in the trash to the trash.
+   * @param questionId - The ID of the question.
+   * @param deletion - When and by whom the answers were deleted, and the question they were deleted with.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the trashed answers.
+   */
+  softDeleteForQuestion(
+    questionId: string,
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<string[]>;
+
+  /**
+   * Takes an answer out of the trash.
+   * @param answerId - The ID of the answer.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to false when the answer is not in the trash.
+   */
+  restoreAnswer(answerId: string, session?: ClientSession): Promise<boolean>;
+
+  /**
+   * Takes the answers that were trashed together with a question out of the trash.
+   * @param deletedWith - The ID of the question.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the restored answers.
+   */
+  restoreDeletedWith(
+    deletedWith: string,
+    session?: ClientSession,
+  ): Promise<string[]>;
+
+  /**
+   * Retrieves an answer from the trash.
+   * @param answerId - The ID of the answer.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the answer, or null if it is not in the trash.
+   */
+  getDeletedById(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IAnswer | null>;
+
+  /**
+   * Retrieves the answers an admin deleted on their own, most recently deleted first.
+   * Answers deleted with their question are listed with the question.
+   * @param page - The page number (1-based).
+   * @param limit - The number of answers per page.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the page of answers and the total count.
+   */
+  getTrash(
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{answers: IAnswer[]; total: number}>;
+
+  /**
+   * Permanently removes answers that were moved to the trash before the given time.
+   * @param before - Answers deleted before this time are removed.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the removed answers.
+   */
+  purgeDeleted(before: Date, session?: ClientSession): Promise<string[]>;
+
+  /**
+   * Retrieves an author's most recent answers and their total answer count.
+   * @param authorId - The ID of the author.
+   * @param limit - The maximum number of recent answers to return.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the recent answers and the total count.
+   */
+  getRecentByAuthor(
+    authorId: string,
+    limit: number,
     session?: ClientSession,
-  ): Promise<{deletedCount: number}>;
+  ): Promise<{answers: IAnswer[]; total: number}>;
 }
@@ -0,0 +1,41 @@
+import {ClientSession} from 'mongodb';
+import {IAnswerRevision} from '#root/shared/interfaces/models.js';
+
+/**
+ * Interface representing a repository for answer revisions.
+ * Revisions are immutable: they are never updated, and only removed when their answer is purged from the trash.
+ */
+export interface IAnswerRevisionRepository {
+  /**
+   * Stores a new revision.
+   * @param revision - The revision to store.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the created revision.
+   */
+  createRevision(
+    revision: Omit<IAnswerRevision, '_id' | 'createdAt'>,
+    session?: ClientSession,
+  ): Promise<IAnswerRevision>;
+
+  /**
+   * Retrieves every revision of an answer, oldest first.
+   * @param answerId - The ID of the answer.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an array of revisions.
+   */
+  getRevisionsForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IAnswerRevision[]>;
+
+  /**
+   * Permanently removes every revision of the given answers.
+   * @param answerIds - The IDs of the purged answers.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of removed revisions.
+   */
+  deleteForAnswers(
+    answerIds: string[],
+    session?: ClientSession,
+  ): Promise<number>;
+}
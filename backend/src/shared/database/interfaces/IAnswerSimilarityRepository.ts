@@ -0,0 +1,58 @@
+import {ClientSession} from 'mongodb';
+import {IAnswerSimilarity} from '#root/shared/interfaces/models.js';
+
+/**
+ * Interface representing a repository for pairwise answer similarity scores.
+ */
+export interface IAnswerSimilarityRepository {
+  /**
+   * Stores the similarity scores of one answer against other answers to the same question,
+   * replacing any earlier score for the same pair.
+   * @param questionId - The ID of the question.
+   * @param answerId - The ID of the scored answer.
+   * @param scores - One entry per compared answer.
+   * @param scorer - Name of the scorer that produced the scores.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of stored pairs.
+   */
+  upsertScores(
+    questionId: string,
+    answerId: string,
+    scores: {answerId: string; score: number}[],
+    scorer: string,
+    session?: ClientSession,
+  ): Promise<{storedCount: number}>;
+
+  /**
+   * Retrieves all pairwise scores involving an answer.
+   * @param answerId - The ID of the answer.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an array of scores.
+   */
+  getScoresForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IAnswerSimilarity[]>;
+
+  /**
+   * Retrieves all pairwise scores between the answers to a question.
+   * @param questionId - The ID of the question.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an array of scores.
+   */
+  getScoresForQuestion(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<IAnswerSimilarity[]>;
+
+  /**
+   * Removes every score that involves one of the given answers.
+   * @param answerIds - The IDs of the purged answers.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of removed scores.
+   */
+  deleteForAnswers(
+    answerIds: string[],
+    session?: ClientSession,
+  ): Promise<number>;
+}
@@ -0,0 +1,47 @@
+import {ClientSession} from 'mongodb';
+import {
+  AuditAction,
+  AuditEntityType,
+  IAuditEntry,
+  UserRole,
+} from '#root/shared/interfaces/models.js';
+
+export interface AuditLogFilter {
+  actorId?: string;
+  actorRole?: UserRole | 'system';
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Interface representing a repository for the audit log. Entries are only
+ * ever appended.
+ */
+export interface IAuditLogRepository {
+  /**
+   * Appends entries to the audit log.
+   * @param entries - The entries to append.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves once the entries are written.
+   */
+  addEntries(entries: IAuditEntry[], session?: ClientSession): Promise<void>;
+
+  /**
+   * Lists audit entries matching a filter, newest first.
+   * @param filter - Conditions every entry must meet.
+   * @param page - The page number (1-based).
+   * @param limit - The number of entries per page.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the page of entries and the number matching.
+   */
+  getEntries(
+    filter: AuditLogFilter,
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{entries: IAuditEntry[]; total: number}>;
+}
@@ -0,0 +1,79 @@
+import {ClientSession} from 'mongodb';
+import {
+  IAnswerRanking,
+  IBlindReviewAssignment,
+} from '#root/shared/interfaces/models.js';
+
+/**
+ * Interface representing a repository for blind ranking reviews.
+ */
+export interface IBlindReviewRepository {
+  /**
+   * Returns the reviewer's blind assignment for a question, creating it if it does not exist yet.
+   * A reviewer only ever has a single assignment per question.
+   * @param assignment - The assignment to create when none exists.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the existing or newly created assignment.
+   */
+  findOrCreateAssignment(
+    assignment: Omit<IBlindReviewAssignment, '_id' | 'createdAt' | 'updatedAt'>,
+    session?: ClientSession,
+  ): Promise<IBlindReviewAssignment>;
+
+  /**
+   * Retrieves the reviewer's blind assignment for a question.
+   * @param reviewerId - The ID of the reviewer.
+   * @param questionId - The ID of the question.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the assignment or null.
+   */
+  getAssignment(
+    reviewerId: string,
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<IBlindReviewAssignment | null>;
+
+  /**
+   * Marks a blind assignment as completed, unless it already is.
+   * @param assignmentId - The ID of the assignment.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to true if the assignment was completed by this call.
+   */
+  completeAssignment(
+    assignmentId: string,
+    session?: ClientSession,
+  ): Promise<boolean>;
+
+  /**
+   * Stores a submitted ranking.
+   * @param ranking - The ranking to store.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the created ranking.
+   */
+  createRanking(
+    ranking: Omit<IAnswerRanking, '_id' | 'createdAt' | 'updatedAt'>,
+    session?: ClientSession,
+  ): Promise<IAnswerRanking>;
+
+  /**
+   * Retrieves all rankings submitted for a question.
+   * @param questionId - The ID of the question.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an array of rankings.
+   */
+  getRankingsForQuestion(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<IAnswerRanking[]>;
+
+  /**
+   * Removes the blind assignments and rankings of the given questions.
+   * @param questionIds - The IDs of the purged questions.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of removed assignments and rankings.
+   */
+  deleteForQuestions(
+    questionIds: string[],
+    session?: ClientSession,
+  ): Promise<number>;
+}
@@ -1,4 +1,8 @@
-import {IContext} from '#root/shared/interfaces/models.js';
+import {
+  IContext,
+  IContextAudio,
+  ISoftDeletion,
+} from '#root/shared/interfaces/models.js';
 import {ClientSession, ObjectId} from 'mongodb';
 
 /**
@@ -16,6 +20,33 @@ export interface IContextRepository {
     session?: ClientSession,
   ): Promise<{insertedId: string}>;
 
+  /**
+   * Adds a context for an uploaded recording. Its text stays empty and its
+   * transcription pending until the recording has been transcribed.
+   * @param audio - Where the original recording is stored.
+   * @param language - Language the speaker chose, if any.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an object containing the inserted context ID.
+   */
+  addAudioContext(
+    audio: IContextAudio,
+    language: string | undefined,
+    session?: ClientSession,
+  ): Promise<{insertedId: string}>;
+
+  /**
+   * Updates the transcript fields of a context.
+   * @param contextId - The ID of the context to update.
+   * @param update - The fields to set.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves when the update is complete.
+   */
+  updateContext(
+    contextId: string,
+    update: Partial<Pick<IContext, 'text' | 'language' | 'transcription'>>,
+    session?: ClientSession,
+  ): Promise<void>;
+
   /**
    * Retrieves a context by its ID.
    * @param contextId - The ID of the context to retrieve.
@@ -23,4 +54,57 @@ export interface IContextRepository {
    * @returns A promise that resolves to the context if found, or null if not found.
    */
   getById(contextId: string, session?: ClientSession): Promise<IContext | null>;
+
+  /**
+   * Moves a context to the trash. Questions generated from it are kept.
+   * @param contextId - The ID of the context.
+   * @param deletion - When and by whom the context was deleted.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to false when the context is missing or already in the trash.
+   */
+  softDeleteContext(
+    contextId: string,
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<boolean>;
+
+  /**
+   * Takes a context out of the trash.
+   * @param contextId - The ID of the context.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to false when the context is not in the trash.
+   */
+  restoreContext(contextId: string, session?: ClientSession): Promise<boolean>;
+
+  /**
+   * Retrieves a context from the trash.
+   * @param contextId - The ID of the context.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the context, or null if it is not in the trash.
+   */
+  getDeletedById(
+    contextId: string,
+    session?: ClientSession,
+  ): Promise<IContext | null>;
+
+  /**
+   * Retrieves the contexts an admin deleted, most recently deleted first.
+   * @param page - The page number (1-based).
+   * @param limit - The number of contexts per page.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the page of contexts and the total count.
+   */
+  getTrash(
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{contexts: IContext[]; total: number}>;
+
+  /**
+   * Permanently removes contexts that were moved to the trash before the given time.
+   * @param before - Contexts deleted before this time are removed.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the removed contexts, so their recordings can be removed too.
+   */
+  purgeDeleted(before: Date, session?: ClientSession): Promise<IContext[]>;
 }
@@ -0,0 +1,71 @@
+import {ClientSession} from 'mongodb';
+import {IJob, JobType} from '#root/shared/interfaces/models.js';
+
+/**
+ * Interface representing a repository for the background job queue.
+ */
+export interface IJobRepository {
+  /**
+   * Adds a job to the queue.
+   * @param type - The job type, used by the worker to pick a handler.
+   * @param payload - The job input.
+   * @param maxAttempts - Attempts before the job is moved to the dead-letter state.
+   * @param createdBy - Optional ID of the user whose request created the job.
+   * @param session - Optional MongoDB client session for transactions.
+   * @param requestId - Optional ID of the request that created the job.
+   * @returns A promise that resolves to an object containing the inserted job ID.
+   */
+  enqueue(
+    type: JobType,
+    payload: Record<string, unknown>,
+    maxAttempts: number,
+    createdBy?: string,
+    session?: ClientSession,
+    requestId?: string,
+  ): Promise<{insertedId: string}>;
+
+  /**
+   * Leases the next runnable job: a pending or failed job whose runAt has passed,
+   * or a running job whose lease has expired. Increments the job's attempt count.
+   * @param workerId - The ID of the worker taking the lease.
+   * @param leaseDuration - Lease length in milliseconds.
+   * @returns A promise that resolves to the leased job, or null if the queue is empty.
+   */
+  leaseNext(workerId: string, leaseDuration: number): Promise<IJob | null>;
+
+  /**
+   * Marks a leased job as completed. Has no effect if the worker no longer holds the lease.
+   * @param jobId - The ID of the job.
+   * @param workerId - The ID of the worker holding the lease.
+   * @param result - Optional job output.
+   * @returns A promise that resolves to true if the job was updated.
+   */
+  markCompleted(
+    jobId: string,
+    workerId: string,
+    result?: Record<string, unknown>,
+  ): Promise<boolean>;
+
+  /**
+   * Records a failed attempt and releases the lease. Has no effect if the worker no longer holds the lease.
+   * @param jobId - The ID of the job.
+   * @param workerId - The ID of the worker holding the lease.
+   * @param error - The error message of the attempt.
+   * @param retryAt - When to retry the job, or null to move it to the dead-letter state.
+   * @returns A promise that resolves to true if the job was updated.
+   */
+  markFailed(
+    jobId: string,
+    workerId: string,
+    error: string,
+    retryAt: Date | null,
+  ): Promise<boolean>;
+
+  /**
+   * Retrieves a job by its ID.
+   * @param jobId - The ID of the job.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the job, or null if not found.
+   */
+  getById(jobId: string, session?: ClientSession): Promise<IJob | null>;
+}
@@ -0,0 +1,56 @@
+import {ClientSession} from 'mongodb';
+import {INotification} from '#root/shared/interfaces/models.js';
+
+/**
+ * Interface representing a repository for in-app notifications.
+ */
+export interface INotificationRepository {
+  /**
+   * Stores a notification unless the user already has one for the same event.
+   * @param notification - The notification to store.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to true when the notification is new.
+   */
+  addNotification(
+    notification: INotification,
+    session?: ClientSession,
+  ): Promise<boolean>;
+
+  /**
+   * Lists a user's notifications, newest first.
+   * @param userId - The ID of the recipient.
+   * @param unreadOnly - Whether to leave out notifications already read.
+   * @param page - The page number (1-based).
+   * @param limit - The number of notifications per page.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the page of notifications, the number matching and the number unread.
+   */
+  getNotifications(
+    userId: string,
+    unreadOnly: boolean,
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{notifications: INotification[]; total: number; unread: number}>;
+
+  /**
+   * Marks one of a user's notifications as read; notifications already read keep their read time.
+   * @param userId - The ID of the recipient.
+   * @param notificationId - The ID of the notification.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the notification, or null if the user has no such notification.
+   */
+  markRead(
+    userId: string,
+    notificationId: string,
+    session?: ClientSession,
+  ): Promise<INotification | null>;
+
+  /**
+   * Marks all of a user's unread notifications as read.
+   * @param userId - The ID of the recipient.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of notifications marked.
+   */
+  markAllRead(userId: string, session?: ClientSession): Promise<number>;
+}
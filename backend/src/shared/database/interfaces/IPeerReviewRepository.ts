@@ -1,5 +1,9 @@
-import { ClientSession, ObjectId } from 'mongodb';
-import { IPeerReview, ReviewStatus } from '#root/shared/interfaces/models.js';
+import {ClientSession, ObjectId} from 'mongodb';
+import {
+  IPeerReview,
+  ISoftDeletion,
+  ReviewStatus,
+} from '#root/shared/interfaces/models.js';
 
 /**
  * Interface representing a repository for peer review-related operations.
@@ -22,7 +26,10 @@ export interface IPeerReviewRepository {
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to the review or null.
    */
-  getReviewById(reviewId: string, session?: ClientSession): Promise<IPeerReview | null>;
+  getReviewById(
+    reviewId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview | null>;
 
   /**
    * Retrieves all reviews for a specific answer.
@@ -30,7 +37,23 @@ export interface IPeerReviewRepository {
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to an array of reviews.
    */
-  getReviewsForAnswer(answerId: string, session?: ClientSession): Promise<IPeerReview[]>;
+  getReviewsForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview[]>;
+
+  /**
+   * Retrieves the review a specific reviewer holds for a specific answer.
+   * @param answerId - The ID of the answer.
+   * @param reviewerId - The ID of the reviewer.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the review or null.
+   */
+  getReviewForAnswerByReviewer(
+    answerId: string,
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview | null>;
 
   /**
    * Retrieves all reviews for a specific reviewer.
@@ -38,15 +61,28 @@ export interface IPeerReviewRepository {
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to an array of reviews.
    */
-  getReviewsForReviewer(reviewerId: string, session?: ClientSession): Promise<IPeerReview[]>;
+  getReviewsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview[]>;
 
   /**
-   * Retrieves pending reviews for a specific reviewer.
+   * Retrieves pending (assigned or in progress) reviews for a specific reviewer.
    * @param reviewerId - The ID of the reviewer.
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to an array of pending reviews.
    */
-  getPendingReviewsForReviewer(reviewerId: string, session?: ClientSession): Promise<IPeerReview[]>;
+  getPendingReviewsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview[]>;
+
+  /**
+   * Counts pending (assigned or in progress) reviews across all reviewers.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of pending reviews.
+   */
+  countPendingReviews(session?: ClientSession): Promise<number>;
 
   /**
    * Updates a peer review.
@@ -59,7 +95,7 @@ export interface IPeerReviewRepository {
     reviewId: string,
     updates: Partial<IPeerReview>,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }>;
+  ): Promise<{modifiedCount: number}>;
 
   /**
    * Updates the status of a peer review.
@@ -72,7 +108,7 @@ export interface IPeerReviewRepository {
     reviewId: string,
     status: ReviewStatus,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }>;
+  ): Promise<{modifiedCount: number}>;
 
   /**
    * Submits a completed review with score and comments.
@@ -89,7 +125,7 @@ export interface IPeerReviewRepository {
     comments?: string,
     similarity?: number,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }>;
+  ): Promise<{modifiedCount: number}>;
 
   /**
    * Deletes a peer review by its ID.
@@ -97,10 +133,16 @@ export interface IPeerReviewRepository {
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to the delete result.
    */
-  deleteReview(reviewId: string, session?: ClientSession): Promise<{ deletedCount: number }>;
+  deleteReview(
+    reviewId: string,
+    session?: ClientSession,
+  ): Promise<{deletedCount: number}>;
 
   /**
    * Gets review statistics for an answer.
+   * `agreement` ranges from 0 to 1, where 1 means every reviewer gave the same score.
+   * `expertAgreement` is the highest similarity (0-1) to an answer by another expert, or null if none was scored.
+   * `thresholdReached` is true once the final-answer thresholds in `reviewConfig` are met.
    * @param answerId - The ID of the answer.
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to review statistics.
@@ -112,6 +154,40 @@ export interface IPeerReviewRepository {
     totalReviews: number;
     completedReviews: number;
     averageScore: number;
+    agreement: number;
+    expertAgreement: number | null;
     thresholdReached: boolean;
   }>;
+
+  /**
+   * Moves the reviews of the given answers that are not yet in the trash to the trash.
+   * @param answerIds - The IDs of the answers.
+   * @param deletion - When and by whom they were deleted, and the question or answer they were deleted with.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the trashed reviews.
+   */
+  softDeleteForAnswers(
+    answerIds: string[],
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<string[]>;
+
+  /**
+   * Takes the reviews that were trashed together with a question or answer out of the trash.
+   * @param deletedWith - The ID of the question or answer.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the restored reviews.
+   */
+  restoreDeletedWith(
+    deletedWith: string,
+    session?: ClientSession,
+  ): Promise<string[]>;
+
+  /**
+   * Permanently removes reviews that were moved to the trash before the given time.
+   * @param before - Reviews deleted before this time are removed.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the removed reviews.
+   */
+  purgeDeleted(before: Date, session?: ClientSession): Promise<string[]>;
 }
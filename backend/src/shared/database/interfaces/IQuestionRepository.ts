@@ -1,25 +1,81 @@
 import {QuestionResponse} from '#root/modules/core/classes/validators/QuestionValidators.js';
-import {IQuestion} from '#root/shared/interfaces/models.js';
+import {
+  IQuestion,
+  IQuestionSource,
+  IQuestionTransition,
+  ISoftDeletion,
+  QuestionStatus,
+} from '#root/shared/interfaces/models.js';
 import {ClientSession} from 'mongodb';
 
+/**
+ * Filters for question search. All filters are combined with AND.
+ */
+export interface QuestionSearchFilter {
+  text?: string; // Keywords matched against the question and its final answer
+  status?: QuestionStatus;
+  from?: Date; // Created at or after
+  to?: Date; // Created at or before
+  contextId?: string;
+  minAnswers?: number;
+  maxAnswers?: number;
+}
+
+/**
+ * A question found by search, with its text-match relevance (0 without keywords).
+ */
+export type QuestionSearchResult = IQuestion & {score: number};
+
 /**
  * Interface representing a repository for question-related operations.
  */
 export interface IQuestionRepository {
   /**
    * Adds multiple questions for a specific context and user.
+   * Near-duplicates of existing questions are linked to their canonical question.
    * @param userId - The ID of the user creating the questions.
-   * @param contextId - The ID of the context the questions belong to.
-   * @param questions - An array of question strings.
+   * @param contextId - The ID of the context the questions belong to, if any.
+   * @param questions - The question texts, each with optional routing tags.
+   * @param source - Optional generator and prompt version that produced the questions.
    * @param session - Optional MongoDB client session for transactions.
-   * @returns A promise that resolves to an object containing the number of inserted questions.
+   * @returns A promise that resolves to the inserted questions, their number and how many of them are duplicates.
    */
   addQuestions(
     userId: string,
-    contextId: string,
-    questions: string[],
+    contextId: string | undefined,
+    questions: Pick<IQuestion, 'question' | 'tags'>[],
+    source?: IQuestionSource,
+    session?: ClientSession,
+  ): Promise<{
+    insertedCount: number;
+    duplicateCount: number;
+    questions: IQuestion[];
+  }>;
+
+  /**
+   * Links every duplicate of one question to another canonical question.
+   * @param fromQuestionId - The question whose duplicates are moved.
+   * @param toQuestionId - The new canonical question.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an object containing the number of relinked questions.
+   */
+  relinkDuplicates(
+    fromQuestionId: string,
+    toQuestionId: string,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}>;
+
+  /**
+   * Makes the oldest open duplicate of a question canonical in its place and links the
+   * other open duplicates to it. Duplicates already merged into the question are left as they are.
+   * @param questionId - The question whose duplicates lose their canonical question.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the new canonical question, or null without open duplicates, and the number of relinked questions.
+   */
+  promoteDuplicate(
+    questionId: string,
     session?: ClientSession,
-  ): Promise<{insertedCount: number}>;
+  ): Promise<{canonicalId: string | null; relinkedCount: number}>;
 
   /**
    * Retrieves all questions for a specific context.
@@ -33,19 +89,36 @@ export interface IQuestionRepository {
   ): Promise<IQuestion[]>;
 
   /**
-   * Retrieves all questions for a specific context.
+   * Retrieves a question by its ID.
    * @param questionId - The ID of the question.
    * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the question, or null if it does not exist or is in the trash.
+   */
+  getById(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<IQuestion | null>;
+
+  /**
+   * Retrieves several questions by ID; IDs without a question are skipped.
+   * @param questionIds - The IDs of the questions.
+   * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to an array of questions.
    */
-  getById(questionId: string, session?: ClientSession): Promise<IQuestion>;
+  getByIds(
+    questionIds: string[],
+    session?: ClientSession,
+  ): Promise<IQuestion[]>;
 
   /**
    * Retrieves all questions that have not been answered yet.
+   * Questions sharing more tags with the expert's expertise are listed first;
+   * the filter orders questions with the same number of matches.
    * @param userId- Author id to check submissions
    * @param page - Current page count.
    * @param limit - Total limit count.
    * @param filter - Filter options.
+   * @param expertise - Expertise tags of the expert, empty for no ranking.
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to an array of unanswered questions.
    */
@@ -54,11 +127,52 @@ export interface IQuestionRepository {
     page: number,
     limit: number,
     filter: 'newest' | 'oldest' | 'leastResponses' | 'mostResponses',
+    expertise?: string[],
     session?: ClientSession,
   ): Promise<QuestionResponse[]>;
 
   /**
-   * Updates a specific question.
+   * Searches questions by keywords (text index) and filters.
+   * Results are ordered by relevance when keywords are given, newest first otherwise.
+   * @param filter - Keywords and filters to apply.
+   * @param page - Page number (1-based).
+   * @param limit - Questions per page.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the page of questions and the total match count.
+   */
+  searchQuestions(
+    filter: QuestionSearchFilter,
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{questions: QuestionSearchResult[]; total: number}>;
+
+  /**
+   * Counts the questions in any of the given statuses.
+   * @param statuses - The statuses to count.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of questions.
+   */
+  countByStatus(
+    statuses: QuestionStatus[],
+    session?: ClientSession,
+  ): Promise<number>;
+
+  /**
+   * Moves a question from `transition.from` to `transition.to` and appends the transition to its status history.
+   * @param questionId - The ID of the question.
+   * @param transition - The transition to apply and record.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to false when the question was no longer in `transition.from`.
+   */
+  transitionStatus(
+    questionId: string,
+    transition: IQuestionTransition,
+    session?: ClientSession,
+  ): Promise<boolean>;
+
+  /**
+   * Updates a specific question. The status only changes through transitionStatus.
    * @param questionId - The ID of the question to update.
    * @param updates - Partial object containing the fields to update.
    * @param session - Optional MongoDB client session for transactions.
@@ -66,18 +180,63 @@ export interface IQuestionRepository {
    */
   updateQuestion(
     questionId: string,
-    updates: Partial<IQuestion>,
+    updates: Partial<Omit<IQuestion, 'status' | 'statusHistory'>>,
     session?: ClientSession,
   ): Promise<{modifiedCount: number}>;
 
   /**
-   * Updates a specific question.
-   * @param questionId - The ID of the question to update.
+   * Moves a question to the trash; its answers are trashed separately.
+   * @param questionId - The ID of the question.
+   * @param deletion - When and by whom the question was deleted.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to false when the question is missing or already in the trash.
+   */
+  softDeleteQuestion(
+    questionId: string,
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<boolean>;
+
+  /**
+   * Takes a question out of the trash.
+   * @param questionId - The ID of the question.
    * @param session - Optional MongoDB client session for transactions.
-   * @returns A promise that resolves to an object containing the number of deletedCount documents.
+   * @returns A promise that resolves to false when the question is not in the trash.
    */
-  deleteQuestion(
+  restoreQuestion(
     questionId: string,
     session?: ClientSession,
-  ): Promise<{deletedCount: number}>;
+  ): Promise<boolean>;
+
+  /**
+   * Retrieves a question from the trash.
+   * @param questionId - The ID of the question.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the question, or null if it is not in the trash.
+   */
+  getDeletedById(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<IQuestion | null>;
+
+  /**
+   * Retrieves the questions an admin deleted, most recently deleted first.
+   * @param page - The page number (1-based).
+   * @param limit - The number of questions per page.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the page of questions and the total count.
+   */
+  getTrash(
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{questions: IQuestion[]; total: number}>;
+
+  /**
+   * Permanently removes questions that were moved to the trash before the given time.
+   * @param before - Questions deleted before this time are removed.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the removed questions.
+   */
+  purgeDeleted(before: Date, session?: ClientSession): Promise<string[]>;
 }
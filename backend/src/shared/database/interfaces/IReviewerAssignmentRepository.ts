@@ -1,5 +1,10 @@
-import { ClientSession, ObjectId } from 'mongodb';
-import { IReviewerAssignment, AssignmentStatus, ReviewPriority } from '#root/shared/interfaces/models.js';
+import {ClientSession, ObjectId} from 'mongodb';
+import {
+  IReviewerAssignment,
+  AssignmentStatus,
+  ISoftDeletion,
+  ReviewPriority,
+} from '#root/shared/interfaces/models.js';
 
 /**
  * Interface representing a repository for reviewer assignment-related operations.
@@ -22,7 +27,10 @@ export interface IReviewerAssignmentRepository {
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to the assignment or null.
    */
-  getAssignmentById(assignmentId: string, session?: ClientSession): Promise<IReviewerAssignment | null>;
+  getAssignmentById(
+    assignmentId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment | null>;
 
   /**
    * Retrieves all assignments for a specific answer.
@@ -30,7 +38,10 @@ export interface IReviewerAssignmentRepository {
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to an array of assignments.
    */
-  getAssignmentsForAnswer(answerId: string, session?: ClientSession): Promise<IReviewerAssignment[]>;
+  getAssignmentsForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]>;
 
   /**
    * Retrieves all assignments for a specific reviewer.
@@ -38,7 +49,10 @@ export interface IReviewerAssignmentRepository {
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to an array of assignments.
    */
-  getAssignmentsForReviewer(reviewerId: string, session?: ClientSession): Promise<IReviewerAssignment[]>;
+  getAssignmentsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]>;
 
   /**
    * Retrieves pending assignments for a specific reviewer.
@@ -46,7 +60,42 @@ export interface IReviewerAssignmentRepository {
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to an array of pending assignments.
    */
-  getPendingAssignmentsForReviewer(reviewerId: string, session?: ClientSession): Promise<IReviewerAssignment[]>;
+  getPendingAssignmentsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]>;
+
+  /**
+   * Retrieves pending or accepted assignments whose due date has passed, oldest deadline first.
+   * @param now - The reference time the due dates are compared against.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an array of overdue assignments.
+   */
+  getOverdueAssignments(
+    now: Date,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]>;
+
+  /**
+   * Retrieves pending or accepted assignments due between two times whose reviewer has not been reminded yet.
+   * @param from - Start of the window (inclusive).
+   * @param until - End of the window (exclusive).
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an array of assignments, earliest deadline first.
+   */
+  getAssignmentsDueSoon(
+    from: Date,
+    until: Date,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]>;
+
+  /**
+   * Counts pending or accepted assignments whose due date has passed.
+   * @param now - The reference time the due dates are compared against.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of overdue assignments.
+   */
+  countOverdueAssignments(now: Date, session?: ClientSession): Promise<number>;
 
   /**
    * Updates a reviewer assignment.
@@ -59,7 +108,7 @@ export interface IReviewerAssignmentRepository {
     assignmentId: string,
     updates: Partial<IReviewerAssignment>,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }>;
+  ): Promise<{modifiedCount: number}>;
 
   /**
    * Updates the status of a reviewer assignment.
@@ -72,7 +121,7 @@ export interface IReviewerAssignmentRepository {
     assignmentId: string,
     status: AssignmentStatus,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }>;
+  ): Promise<{modifiedCount: number}>;
 
   /**
    * Deletes a reviewer assignment by its ID.
@@ -80,7 +129,10 @@ export interface IReviewerAssignmentRepository {
    * @param session - Optional MongoDB client session for transactions.
    * @returns A promise that resolves to the delete result.
    */
-  deleteAssignment(assignmentId: string, session?: ClientSession): Promise<{ deletedCount: number }>;
+  deleteAssignment(
+    assignmentId: string,
+    session?: ClientSession,
+  ): Promise<{deletedCount: number}>;
 
   /**
    * Gets assignment statistics for a reviewer.
@@ -110,5 +162,37 @@ export interface IReviewerAssignmentRepository {
     assignmentId: string,
     newReviewerId: string,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }>;
+  ): Promise<{modifiedCount: number}>;
+
+  /**
+   * Moves the assignments of the given answers that are not yet in the trash to the trash.
+   * @param answerIds - The IDs of the answers.
+   * @param deletion - When and by whom they were deleted, and the question or answer they were deleted with.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the trashed assignments.
+   */
+  softDeleteForAnswers(
+    answerIds: string[],
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<string[]>;
+
+  /**
+   * Takes the assignments that were trashed together with a question or answer out of the trash.
+   * @param deletedWith - The ID of the question or answer.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the restored assignments.
+   */
+  restoreDeletedWith(
+    deletedWith: string,
+    session?: ClientSession,
+  ): Promise<string[]>;
+
+  /**
+   * Permanently removes assignments that were moved to the trash before the given time.
+   * @param before - Assignments deleted before this time are removed.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the IDs of the removed assignments.
+   */
+  purgeDeleted(before: Date, session?: ClientSession): Promise<string[]>;
 }
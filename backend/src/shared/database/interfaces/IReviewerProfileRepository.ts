@@ -0,0 +1,106 @@
+import {ClientSession} from 'mongodb';
+import {IReviewerProfile} from '#root/shared/interfaces/models.js';
+
+/**
+ * Interface representing a repository for reviewer profile-related operations.
+ */
+export interface IReviewerProfileRepository {
+  /**
+   * Creates a reviewer profile for a user if one does not exist yet.
+   * @param userId - The ID of the user (expert) owning the profile.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the existing or newly created profile.
+   */
+  createProfile(
+    userId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerProfile>;
+
+  /**
+   * Creates reviewer profiles for every given user that does not have one yet.
+   * @param userIds - The IDs of the users (experts) to create profiles for.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of newly created profiles.
+   */
+  createMissingProfiles(
+    userIds: string[],
+    session?: ClientSession,
+  ): Promise<{insertedCount: number}>;
+
+  /**
+   * Retrieves the reviewer profile of a user.
+   * @param userId - The ID of the user.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the profile or null.
+   */
+  getByUserId(
+    userId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerProfile | null>;
+
+  /**
+   * Retrieves all reviewer profiles.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an array of profiles.
+   */
+  getAllProfiles(session?: ClientSession): Promise<IReviewerProfile[]>;
+
+  /**
+   * Retrieves active reviewer profiles that still have free review capacity.
+   * @param excludeUserIds - Optional user IDs that must not be returned.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to an array of available profiles.
+   */
+  getAvailableProfiles(
+    excludeUserIds?: string[],
+    session?: ClientSession,
+  ): Promise<IReviewerProfile[]>;
+
+  /**
+   * Increments the current review load of a reviewer, but only while the
+   * reviewer is active and below `maxConcurrentReviews`.
+   * @param userId - The ID of the reviewer.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to true if the load was incremented.
+   */
+  incrementLoad(userId: string, session?: ClientSession): Promise<boolean>;
+
+  /**
+   * Decrements the current review load of a reviewer, never going below zero.
+   * @param userId - The ID of the reviewer.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the update result.
+   */
+  decrementLoad(
+    userId: string,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}>;
+
+  /**
+   * Records a submitted review, updating `reviewCount` and `averageRating`.
+   * @param userId - The ID of the reviewer.
+   * @param score - The score (1-5) given in the submitted review.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the update result.
+   */
+  recordReview(
+    userId: string,
+    score: number,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}>;
+
+  /**
+   * Updates a reviewer profile.
+   * @param userId - The ID of the reviewer.
+   * @param updates - Partial object containing the fields to update.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the update result.
+   */
+  updateProfile(
+    userId: string,
+    updates: Partial<
+      Pick<IReviewerProfile, 'expertise' | 'isActive' | 'maxConcurrentReviews'>
+    >,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}>;
+}
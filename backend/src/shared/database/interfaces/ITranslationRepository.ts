@@ -0,0 +1,44 @@
+import {ClientSession} from 'mongodb';
+import {ITranslation} from '#root/shared/interfaces/models.js';
+
+/**
+ * Interface representing a repository for cached machine translations.
+ */
+export interface ITranslationRepository {
+  /**
+   * Retrieves the cached translations of several texts into one language.
+   * @param sources - The translated documents and the hash of the text each was translated from.
+   * @param language - The target language.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the translations found; missing ones are simply absent.
+   */
+  getTranslations(
+    sources: Pick<ITranslation, 'sourceType' | 'sourceId' | 'sourceHash'>[],
+    language: string,
+    session?: ClientSession,
+  ): Promise<ITranslation[]>;
+
+  /**
+   * Stores translations, replacing any cached translation of the same text into the same language.
+   * @param translations - The translations to store.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves when the translations are stored.
+   */
+  saveTranslations(
+    translations: ITranslation[],
+    session?: ClientSession,
+  ): Promise<void>;
+
+  /**
+   * Removes every cached translation of the given documents.
+   * @param sourceType - Whether the documents are questions or answers.
+   * @param sourceIds - The IDs of the purged documents.
+   * @param session - Optional MongoDB client session for transactions.
+   * @returns A promise that resolves to the number of removed translations.
+   */
+  deleteForSources(
+    sourceType: ITranslation['sourceType'],
+    sourceIds: string[],
+    session?: ClientSession,
+  ): Promise<number>;
+}
@@ -1,6 +1,15 @@
-import {IUser } from '#shared/interfaces/models.js';
+import {IUser, UserRole} from '#shared/interfaces/models.js';
 import {MongoClient, ClientSession, ObjectId} from 'mongodb';
 
+/**
+ * Filters for the admin user listing.
+ */
+export interface UserSearchFilter {
+  search?: string; // Matched against name and email
+  role?: UserRole;
+  isActive?: boolean;
+}
+
 /**
  * Interface representing a repository for user-related operations.
  */
@@ -79,4 +88,53 @@ export interface IUserRepository {
    * @returns A promise that resolves to an array of users.
    */
   getUsersByIds(ids: string[]): Promise<IUser[]>;
+
+  /**
+   * Finds all active users with the given role.
+   * @param role - The role to filter users by.
+   * @param session - The session for transaction.
+   * @returns A promise that resolves to an array of users.
+   */
+  findByRole(role: UserRole, session?: ClientSession): Promise<IUser[]>;
+
+  /**
+   * Lists users matching the filter, newest first.
+   * @param filter - Search text, role and active state to filter by.
+   * @param page - The page number (1-based).
+   * @param limit - The number of users per page.
+   * @param session - The session for transaction.
+   * @returns A promise that resolves to the page of users and the total match count.
+   */
+  searchUsers(
+    filter: UserSearchFilter,
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{users: IUser[]; total: number}>;
+
+  /**
+   * Changes the role of a user.
+   * @param userId - The ID of the user.
+   * @param role - The new role.
+   * @param session - The session for transaction.
+   * @returns A promise that resolves to the update result.
+   */
+  updateRole(
+    userId: string,
+    role: UserRole,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}>;
+
+  /**
+   * Activates or deactivates a user account.
+   * @param userId - The ID of the user.
+   * @param isActive - Whether the account can sign in.
+   * @param session - The session for transaction.
+   * @returns A promise that resolves to the update result.
+   */
+  setActive(
+    userId: string,
+    isActive: boolean,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}>;
 }
@@ -1,7 +1,15 @@
 export * from './IDatabase.js';
 export * from './IAnswerRepository.js';
+export * from './IAnswerRevisionRepository.js';
+export * from './IAnswerSimilarityRepository.js';
+export * from './IBlindReviewRepository.js';
 export * from './IContextRepository.js';
 export * from './IPeerReviewRepository.js';
 export * from './IQuestionRepository.js';
 export * from './IReviewerAssignmentRepository.js';
+export * from './IReviewerProfileRepository.js';
 export * from './IUserRepository.js';
+export * from './IJobRepository.js';
+export * from './ITranslationRepository.js';
+export * from './INotificationRepository.js';
+export * from './IAuditLogRepository.js';
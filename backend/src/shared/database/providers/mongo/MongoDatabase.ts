@@ -1,7 +1,15 @@
 import {GLOBAL_TYPES} from '#root/types.js';
 import {IDatabase} from '#shared/database/interfaces/IDatabase.js';
+import {logger} from '#shared/logging/index.js';
 import {injectable, inject} from 'inversify';
-import {Db, MongoClient, Document, Collection} from 'mongodb';
+import {
+  Db,
+  MongoClient,
+  Document,
+  Collection,
+  ChangeStream,
+  ChangeStreamOptions,
+} from 'mongodb';
 
 /**
  * @class MongoDatabase
@@ -33,7 +41,7 @@ export class MongoDatabase implements IDatabase<Db> {
     if (process.env.SKIP_DB_CONNECTION === 'true') {
       this.client = null;
       this.database = null;
-      console.log(
+      logger.info(
         'Database connection skipped due to SKIP_DB_CONNECTION environment variable',
       );
       return;
@@ -46,7 +54,7 @@ export class MongoDatabase implements IDatabase<Db> {
       tlsAllowInvalidHostnames: false,
       retryWrites: true,
       connectTimeoutMS: 30000,
-      socketTimeoutMS: 30000
+      socketTimeoutMS: 30000,
     });
   }
 
@@ -80,6 +88,42 @@ export class MongoDatabase implements IDatabase<Db> {
     return this.database !== null;
   }
 
+  /**
+   * Pings the database server, connecting first if needed.
+   * @returns {Promise<void>} Resolves once the server has answered.
+   * @throws Will throw an error if the server cannot be reached.
+   */
+  public async ping(): Promise<void> {
+    if (!this.database) {
+      await this.connect();
+    }
+    if (!this.database) {
+      throw new Error('Database is not connected');
+    }
+    await this.database.command({ping: 1});
+  }
+
+  /**
+   * Opens a change stream over all collections of the database, connecting first if needed.
+   * Change streams need a replica set, like transactions do.
+   * @param {Document[]} pipeline - Aggregation stages selecting the changes to receive.
+   * @param {ChangeStreamOptions} options - Change stream options, e.g. `fullDocument`.
+   * @returns {Promise<ChangeStream>} The open change stream.
+   * @throws Will throw an error if the database is not connected.
+   */
+  public async watch(
+    pipeline: Document[],
+    options?: ChangeStreamOptions,
+  ): Promise<ChangeStream> {
+    if (!this.database) {
+      await this.connect();
+    }
+    if (!this.database) {
+      throw new Error('Database is not connected');
+    }
+    return this.database.watch(pipeline, options);
+  }
+
   /**
    * Retrieves the client.
    * @returns {Promise<MongoClient>} The connected database instance.
@@ -1,9 +1,11 @@
-import {IAnswer} from '#root/shared/interfaces/models.js';
+import {IAnswer, ISoftDeletion} from '#root/shared/interfaces/models.js';
 import {GLOBAL_TYPES} from '#root/types.js';
 import {inject} from 'inversify';
-import {ClientSession, Collection, ObjectId} from 'mongodb';
+import {ClientSession, Collection, Filter, ObjectId} from 'mongodb';
 import {MongoDatabase} from '../MongoDatabase.js';
+import {NOT_DELETED, RESTORE_UPDATE} from '../softDelete.js';
 import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {detectLanguage} from '#root/utils/language.js';
 import {BadRequestError, InternalServerError} from 'routing-controllers';
 import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
 import {SubmissionResponse} from '#root/modules/core/classes/validators/AnswerValidators.js';
@@ -24,8 +26,8 @@ export class AnswerRepository implements IAnswerRepository {
     questionId: string,
     authorId: string,
     answer: string,
-    isFinalAnswer: boolean = false,
-    answerIteration: number = 1,
+    isFinalAnswer = false,
+    answerIteration = 1,
     session?: ClientSession,
   ): Promise<{insertedId: string}> {
     try {
@@ -45,6 +47,7 @@ export class AnswerRepository implements IAnswerRepository {
         questionId: new ObjectId(questionId),
         authorId: new ObjectId(authorId),
         answer,
+        language: detectLanguage(answer),
         isFinalAnswer,
         answerIteration,
         createdAt: new Date(),
@@ -73,20 +76,25 @@ export class AnswerRepository implements IAnswerRepository {
       }
 
       const answers = await this.answersCollection
-        .find({questionId: new ObjectId(questionId)}, {session})
+        .find({questionId: new ObjectId(questionId), ...NOT_DELETED}, {session})
         .toArray();
 
       return answers.map(a => ({
         _id: a._id?.toString(),
+        authorId: a.authorId?.toString(),
         answer: a.answer,
         isFinalAnswer: a.isFinalAnswer,
+        isFrozen: a.isFrozen ?? false,
         createdAt: a.createdAt,
       }));
     } catch (error) {
       throw new InternalServerError(`Failed to fetch answers, More/ ${error}`);
     }
   }
-  async getById(answerId: string, session?: ClientSession): Promise<IAnswer> {
+  async getById(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IAnswer | null> {
     try {
       await this.init();
 
@@ -97,9 +105,12 @@ export class AnswerRepository implements IAnswerRepository {
       const answer = await this.answersCollection.findOne(
         {
           _id: new ObjectId(answerId),
+          ...NOT_DELETED,
         },
         {session},
       );
+      if (!answer) return null;
+
       return {
         ...answer,
         _id: answer._id?.toString(),
@@ -121,6 +132,7 @@ export class AnswerRepository implements IAnswerRepository {
         {
           authorId: new ObjectId(authorId),
           questionId: new ObjectId(questionId),
+          ...NOT_DELETED,
         },
         {session},
       );
@@ -141,7 +153,7 @@ export class AnswerRepository implements IAnswerRepository {
 
       const submissions = await this.answersCollection
         .aggregate([
-          {$match: {authorId: new ObjectId(userId)}},
+          {$match: {authorId: new ObjectId(userId), ...NOT_DELETED}},
           {
             $lookup: {
               from: 'questions',
@@ -163,6 +175,7 @@ export class AnswerRepository implements IAnswerRepository {
                   answer: '$answer',
                   id: {$toString: '$_id'},
                   isFinalAnswer: '$isFinalAnswer',
+                  answerIteration: {$ifNull: ['$answerIteration', 1]},
                   createdAt: '$createdAt',
                 },
               },
@@ -203,8 +216,14 @@ export class AnswerRepository implements IAnswerRepository {
       }
 
       const result = await this.answersCollection.updateOne(
-        {_id: new ObjectId(answerId)},
-        {$set: {...updates, updatedAt: new Date()}},
+        {_id: new ObjectId(answerId), ...NOT_DELETED},
+        {
+          $set: {
+            ...updates,
+            ...(updates.answer && {language: detectLanguage(updates.answer)}),
+            updatedAt: new Date(),
+          },
+        },
         {session},
       );
 
@@ -216,10 +235,105 @@ export class AnswerRepository implements IAnswerRepository {
     }
   }
 
-  async deleteAnswer(
+  async getFinalAnswers(
+    since?: Date,
+    session?: ClientSession,
+  ): Promise<IAnswer[]> {
+    try {
+      await this.init();
+
+      const answers = await this.answersCollection
+        .find(
+          {
+            isFinalAnswer: true,
+            ...NOT_DELETED,
+            ...(since && {updatedAt: {$gt: since}}),
+          },
+          {session},
+        )
+        .sort({updatedAt: 1, _id: 1})
+        .toArray();
+
+      return answers.map(a => ({
+        ...a,
+        _id: a._id?.toString(),
+        questionId: a.questionId?.toString(),
+        authorId: a.authorId?.toString(),
+      }));
+    } catch (error) {
+      throw new InternalServerError(
+        `Failed to fetch final answers, More/ ${error}`,
+      );
+    }
+  }
+
+  async moveToQuestion(
+    fromQuestionId: string,
+    toQuestionId: string,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}> {
+    try {
+      await this.init();
+
+      if (!fromQuestionId || !isValidObjectId(fromQuestionId)) {
+        throw new BadRequestError('Invalid or missing fromQuestionId');
+      }
+      if (!toQuestionId || !isValidObjectId(toQuestionId)) {
+        throw new BadRequestError('Invalid or missing toQuestionId');
+      }
+
+      const result = await this.answersCollection.updateMany(
+        {questionId: new ObjectId(fromQuestionId)},
+        {$set: {questionId: new ObjectId(toQuestionId), updatedAt: new Date()}},
+        {session},
+      );
+
+      return {modifiedCount: result.modifiedCount};
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while moving answers, More/ ${error}`,
+      );
+    }
+  }
+
+  async freezeOtherAnswers(
+    questionId: string,
+    finalAnswerId: string,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}> {
+    try {
+      await this.init();
+
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid or missing questionId');
+      }
+      if (!finalAnswerId || !isValidObjectId(finalAnswerId)) {
+        throw new BadRequestError('Invalid or missing finalAnswerId');
+      }
+
+      const result = await this.answersCollection.updateMany(
+        {
+          questionId: new ObjectId(questionId),
+          _id: {$ne: new ObjectId(finalAnswerId)},
+          ...NOT_DELETED,
+        },
+        {$set: {isFinalAnswer: false, isFrozen: true, updatedAt: new Date()}},
+        {session},
+      );
+
+      return {modifiedCount: result.modifiedCount};
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while freezing answers, More/ ${error}`,
+      );
+    }
+  }
+
+  async softDeleteAnswer(
     answerId: string,
+    deletion: ISoftDeletion,
     session?: ClientSession,
-  ): Promise<{deletedCount: number}> {
+  ): Promise<boolean> {
     try {
       await this.init();
 
@@ -227,16 +341,236 @@ export class AnswerRepository implements IAnswerRepository {
         throw new BadRequestError('Invalid or missing answerId');
       }
 
-      const result = await this.answersCollection.deleteOne(
-        {_id: new ObjectId(answerId)},
+      const result = await this.answersCollection.updateOne(
+        {_id: new ObjectId(answerId), ...NOT_DELETED},
+        {$set: this.toDeletionFields(deletion)},
         {session},
       );
 
-      return {deletedCount: result.deletedCount};
+      return result.modifiedCount > 0;
     } catch (error) {
       throw new InternalServerError(
         `Error while deleting answer, More/ ${error}`,
       );
     }
   }
+
+  async softDeleteForQuestion(
+    questionId: string,
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<string[]> {
+    try {
+      await this.init();
+
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid or missing questionId');
+      }
+
+      const filter = {questionId: new ObjectId(questionId), ...NOT_DELETED};
+      const answers = await this.answersCollection
+        .find(filter, {session, projection: {_id: 1}})
+        .toArray();
+      if (answers.length === 0) return [];
+
+      await this.answersCollection.updateMany(
+        {_id: {$in: answers.map(a => a._id)}},
+        {$set: this.toDeletionFields(deletion)},
+        {session},
+      );
+      return answers.map(a => a._id.toString());
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while deleting answers, More/ ${error}`,
+      );
+    }
+  }
+
+  async restoreAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      if (!answerId || !isValidObjectId(answerId)) {
+        throw new BadRequestError('Invalid or missing answerId');
+      }
+
+      const result = await this.answersCollection.updateOne(
+        {_id: new ObjectId(answerId), deletedAt: {$exists: true}},
+        {...RESTORE_UPDATE, $set: {updatedAt: new Date()}},
+        {session},
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while restoring answer, More/ ${error}`,
+      );
+    }
+  }
+
+  async restoreDeletedWith(
+    deletedWith: string,
+    session?: ClientSession,
+  ): Promise<string[]> {
+    try {
+      await this.init();
+
+      const filter = {deletedWith: new ObjectId(deletedWith)};
+      const answers = await this.answersCollection
+        .find(filter, {session, projection: {_id: 1}})
+        .toArray();
+      if (answers.length === 0) return [];
+
+      await this.answersCollection.updateMany(
+        {_id: {$in: answers.map(a => a._id)}},
+        {...RESTORE_UPDATE, $set: {updatedAt: new Date()}},
+        {session},
+      );
+      return answers.map(a => a._id.toString());
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while restoring answers, More/ ${error}`,
+      );
+    }
+  }
+
+  async getDeletedById(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IAnswer | null> {
+    try {
+      await this.init();
+
+      if (!answerId || !isValidObjectId(answerId)) {
+        throw new BadRequestError('Invalid or missing answerId');
+      }
+
+      const answer = await this.answersCollection.findOne(
+        {_id: new ObjectId(answerId), deletedAt: {$exists: true}},
+        {session},
+      );
+      if (!answer) return null;
+
+      return {
+        ...answer,
+        _id: answer._id.toString(),
+        questionId: answer.questionId.toString(),
+        authorId: answer.authorId.toString(),
+      };
+    } catch (error) {
+      throw new InternalServerError(
+        `Failed to fetch deleted answer, More/ ${error}`,
+      );
+    }
+  }
+
+  async getTrash(
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{answers: IAnswer[]; total: number}> {
+    try {
+      await this.init();
+
+      const filter: Filter<IAnswer> = {
+        deletedAt: {$exists: true},
+        deletedWith: {$exists: false},
+      };
+      const [answers, total] = await Promise.all([
+        this.answersCollection
+          .find(filter, {session})
+          .sort({deletedAt: -1, _id: -1})
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .toArray(),
+        this.answersCollection.countDocuments(filter, {session}),
+      ]);
+
+      return {
+        answers: answers.map(answer => ({
+          ...answer,
+          _id: answer._id.toString(),
+          questionId: answer.questionId.toString(),
+          authorId: answer.authorId.toString(),
+        })),
+        total,
+      };
+    } catch (error) {
+      throw new InternalServerError(
+        `Failed to fetch deleted answers, More/ ${error}`,
+      );
+    }
+  }
+
+  async purgeDeleted(before: Date, session?: ClientSession): Promise<string[]> {
+    try {
+      await this.init();
+
+      const expired = await this.answersCollection
+        .find({deletedAt: {$lt: before}}, {session, projection: {_id: 1}})
+        .toArray();
+      if (expired.length === 0) return [];
+
+      await this.answersCollection.deleteMany(
+        {_id: {$in: expired.map(a => a._id)}},
+        {session},
+      );
+      return expired.map(a => a._id.toString());
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while purging answers, More/ ${error}`,
+      );
+    }
+  }
+
+  private toDeletionFields(deletion: ISoftDeletion): Partial<IAnswer> {
+    return {
+      deletedAt: deletion.deletedAt,
+      ...(deletion.deletedBy && {deletedBy: new ObjectId(deletion.deletedBy)}),
+      ...(deletion.deletedWith && {
+        deletedWith: new ObjectId(deletion.deletedWith),
+      }),
+    };
+  }
+
+  async getRecentByAuthor(
+    authorId: string,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{answers: IAnswer[]; total: number}> {
+    try {
+      await this.init();
+
+      if (!authorId || !isValidObjectId(authorId)) {
+        throw new BadRequestError('Invalid or missing authorId');
+      }
+
+      const filter = {authorId: new ObjectId(authorId), ...NOT_DELETED};
+      const [answers, total] = await Promise.all([
+        this.answersCollection
+          .find(filter, {session})
+          .sort({createdAt: -1})
+          .limit(limit)
+          .toArray(),
+        this.answersCollection.countDocuments(filter, {session}),
+      ]);
+
+      return {
+        answers: answers.map(answer => ({
+          ...answer,
+          _id: answer._id.toString(),
+          questionId: answer.questionId.toString(),
+          authorId: answer.authorId.toString(),
+        })),
+        total,
+      };
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while fetching answers by author, More/ ${error}`,
+      );
+    }
+  }
 }
@@ -0,0 +1,118 @@
+import {IAnswerRevision} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession, Collection, ObjectId} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {BadRequestError, InternalServerError} from 'routing-controllers';
+import {IAnswerRevisionRepository} from '#root/shared/database/interfaces/IAnswerRevisionRepository.js';
+
+@injectable()
+export class AnswerRevisionRepository implements IAnswerRevisionRepository {
+  private answerRevisionsCollection: Collection<IAnswerRevision>;
+
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private db: MongoDatabase,
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  private async init() {
+    this.answerRevisionsCollection =
+      await this.db.getCollection<IAnswerRevision>('answerRevisions');
+  }
+
+  async createRevision(
+    revision: Omit<IAnswerRevision, '_id' | 'createdAt'>,
+    session?: ClientSession,
+  ): Promise<IAnswerRevision> {
+    try {
+      await this.init();
+
+      const answerIdStr = revision.answerId.toString();
+      const questionIdStr = revision.questionId.toString();
+      const authorIdStr = revision.authorId.toString();
+      const reviewIdStr = revision.reviewId?.toString();
+
+      if (!answerIdStr || !isValidObjectId(answerIdStr)) {
+        throw new BadRequestError('Invalid or missing answerId');
+      }
+      if (!questionIdStr || !isValidObjectId(questionIdStr)) {
+        throw new BadRequestError('Invalid or missing questionId');
+      }
+      if (!authorIdStr || !isValidObjectId(authorIdStr)) {
+        throw new BadRequestError('Invalid or missing authorId');
+      }
+      if (reviewIdStr && !isValidObjectId(reviewIdStr)) {
+        throw new BadRequestError('Invalid reviewId');
+      }
+
+      const doc: Omit<IAnswerRevision, '_id'> = {
+        answerId: new ObjectId(answerIdStr),
+        questionId: new ObjectId(questionIdStr),
+        authorId: new ObjectId(authorIdStr),
+        iteration: revision.iteration,
+        answer: revision.answer,
+        ...(reviewIdStr && {reviewId: new ObjectId(reviewIdStr)}),
+        createdAt: new Date(),
+      };
+
+      const result = await this.answerRevisionsCollection.insertOne(doc, {
+        session,
+      });
+      if (!result.acknowledged) {
+        throw new InternalServerError('Failed to create answer revision');
+      }
+
+      return {
+        ...doc,
+        _id: result.insertedId,
+      } as IAnswerRevision;
+    } catch (error) {
+      this.logger.error('Error creating answer revision', error);
+      throw error;
+    }
+  }
+
+  async getRevisionsForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IAnswerRevision[]> {
+    try {
+      await this.init();
+
+      if (!answerId || !isValidObjectId(answerId)) {
+        throw new BadRequestError('Invalid answerId');
+      }
+
+      return await this.answerRevisionsCollection
+        .find({answerId: new ObjectId(answerId)}, {session})
+        .sort({iteration: 1})
+        .toArray();
+    } catch (error) {
+      this.logger.error('Error getting answer revisions', error);
+      throw error;
+    }
+  }
+
+  async deleteForAnswers(
+    answerIds: string[],
+    session?: ClientSession,
+  ): Promise<number> {
+    try {
+      await this.init();
+
+      if (answerIds.length === 0) return 0;
+      const result = await this.answerRevisionsCollection.deleteMany(
+        {answerId: {$in: answerIds.map(id => new ObjectId(id))}},
+        {session},
+      );
+      return result.deletedCount;
+    } catch (error) {
+      this.logger.error('Error deleting answer revisions', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import {IAnswerSimilarity} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {
+  AnyBulkWriteOperation,
+  ClientSession,
+  Collection,
+  ObjectId,
+} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {BadRequestError} from 'routing-controllers';
+import {IAnswerSimilarityRepository} from '#root/shared/database/interfaces/IAnswerSimilarityRepository.js';
+
+@injectable()
+export class AnswerSimilarityRepository implements IAnswerSimilarityRepository {
+  private answerSimilaritiesCollection: Collection<IAnswerSimilarity>;
+
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private db: MongoDatabase,
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  private async init() {
+    this.answerSimilaritiesCollection =
+      await this.db.getCollection<IAnswerSimilarity>('answerSimilarities');
+  }
+
+  async upsertScores(
+    questionId: string,
+    answerId: string,
+    scores: {answerId: string; score: number}[],
+    scorer: string,
+    session?: ClientSession,
+  ): Promise<{storedCount: number}> {
+    try {
+      await this.init();
+
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid questionId');
+      }
+      if (!answerId || !isValidObjectId(answerId)) {
+        throw new BadRequestError('Invalid answerId');
+      }
+      if (scores.some(s => !isValidObjectId(s.answerId))) {
+        throw new BadRequestError('Invalid compared answerId');
+      }
+      if (scores.length === 0) return {storedCount: 0};
+
+      const now = new Date();
+      const operations: AnyBulkWriteOperation<IAnswerSimilarity>[] = scores.map(
+        ({answerId: otherId, score}) => {
+          const answerIds = [answerId, otherId]
+            .sort()
+            .map(id => new ObjectId(id)) as [ObjectId, ObjectId];
+
+          return {
+            updateOne: {
+              filter: {answerIds},
+              update: {
+                $set: {
+                  questionId: new ObjectId(questionId),
+                  score,
+                  scorer,
+                  updatedAt: now,
+                },
+                $setOnInsert: {createdAt: now},
+              },
+              upsert: true,
+            },
+          };
+        },
+      );
+
+      const result = await this.answerSimilaritiesCollection.bulkWrite(
+        operations,
+        {session},
+      );
+      return {storedCount: result.upsertedCount + result.matchedCount};
+    } catch (error) {
+      this.logger.error('Error storing answer similarity scores', error);
+      throw error;
+    }
+  }
+
+  async getScoresForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IAnswerSimilarity[]> {
+    try {
+      await this.init();
+
+      if (!answerId || !isValidObjectId(answerId)) {
+        throw new BadRequestError('Invalid answerId');
+      }
+
+      return await this.answerSimilaritiesCollection
+        .find({answerIds: new ObjectId(answerId)}, {session})
+        .toArray();
+    } catch (error) {
+      this.logger.error('Error getting similarity scores for answer', error);
+      throw error;
+    }
+  }
+
+  async getScoresForQuestion(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<IAnswerSimilarity[]> {
+    try {
+      await this.init();
+
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid questionId');
+      }
+
+      return await this.answerSimilaritiesCollection
+        .find({questionId: new ObjectId(questionId)}, {session})
+        .toArray();
+    } catch (error) {
+      this.logger.error('Error getting similarity scores for question', error);
+      throw error;
+    }
+  }
+
+  async deleteForAnswers(
+    answerIds: string[],
+    session?: ClientSession,
+  ): Promise<number> {
+    try {
+      await this.init();
+
+      if (answerIds.length === 0) return 0;
+      const result = await this.answerSimilaritiesCollection.deleteMany(
+        {answerIds: {$in: answerIds.map(id => new ObjectId(id))}},
+        {session},
+      );
+      return result.deletedCount;
+    } catch (error) {
+      this.logger.error('Error deleting similarity scores', error);
+      throw error;
+    }
+  }
+}
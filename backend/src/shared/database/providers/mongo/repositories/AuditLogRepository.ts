@@ -0,0 +1,81 @@
+import {IAuditEntry} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession, Collection, Filter, ObjectId} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {InternalServerError} from 'routing-controllers';
+import {
+  AuditLogFilter,
+  IAuditLogRepository,
+} from '#root/shared/database/interfaces/IAuditLogRepository.js';
+
+@injectable()
+export class AuditLogRepository implements IAuditLogRepository {
+  private auditLogsCollection: Collection<IAuditEntry>;
+
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private db: MongoDatabase,
+  ) {}
+
+  private async init() {
+    this.auditLogsCollection =
+      await this.db.getCollection<IAuditEntry>('auditLogs');
+  }
+
+  async addEntries(
+    entries: IAuditEntry[],
+    session?: ClientSession,
+  ): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+      await this.init();
+      await this.auditLogsCollection.insertMany(entries, {session});
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while writing audit log, More/ ${error}`,
+      );
+    }
+  }
+
+  async getEntries(
+    filter: AuditLogFilter,
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{entries: IAuditEntry[]; total: number}> {
+    try {
+      await this.init();
+
+      const query: Filter<IAuditEntry> = {};
+      if (filter.actorId) query.actorId = new ObjectId(filter.actorId);
+      if (filter.actorRole) query.actorRole = filter.actorRole;
+      if (filter.action) query.action = filter.action;
+      if (filter.entityType) query.entityType = filter.entityType;
+      if (filter.entityId) query.entityId = filter.entityId;
+      if (filter.requestId) query.requestId = filter.requestId;
+      if (filter.from || filter.to) {
+        query.createdAt = {
+          ...(filter.from && {$gte: filter.from}),
+          ...(filter.to && {$lte: filter.to}),
+        };
+      }
+
+      const [entries, total] = await Promise.all([
+        this.auditLogsCollection
+          .find(query, {session})
+          .sort({createdAt: -1, _id: -1})
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .toArray(),
+        this.auditLogsCollection.countDocuments(query, {session}),
+      ]);
+
+      return {entries, total};
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while fetching audit log, More/ ${error}`,
+      );
+    }
+  }
+}
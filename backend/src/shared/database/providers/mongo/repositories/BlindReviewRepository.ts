@@ -0,0 +1,231 @@
+import {
+  IAnswerRanking,
+  IBlindReviewAssignment,
+} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession, Collection, ObjectId} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {BadRequestError, InternalServerError} from 'routing-controllers';
+import {IBlindReviewRepository} from '#root/shared/database/interfaces/IBlindReviewRepository.js';
+
+@injectable()
+export class BlindReviewRepository implements IBlindReviewRepository {
+  private blindAssignmentsCollection: Collection<IBlindReviewAssignment>;
+  private answerRankingsCollection: Collection<IAnswerRanking>;
+
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private db: MongoDatabase,
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  private async init() {
+    this.blindAssignmentsCollection =
+      await this.db.getCollection<IBlindReviewAssignment>(
+        'blindReviewAssignments',
+      );
+    this.answerRankingsCollection =
+      await this.db.getCollection<IAnswerRanking>('answerRankings');
+  }
+
+  async findOrCreateAssignment(
+    assignment: Omit<IBlindReviewAssignment, '_id' | 'createdAt' | 'updatedAt'>,
+    session?: ClientSession,
+  ): Promise<IBlindReviewAssignment> {
+    try {
+      await this.init();
+
+      const reviewerIdStr = assignment.reviewerId.toString();
+      const questionIdStr = assignment.questionId.toString();
+
+      if (!reviewerIdStr || !isValidObjectId(reviewerIdStr)) {
+        throw new BadRequestError('Invalid or missing reviewerId');
+      }
+      if (!questionIdStr || !isValidObjectId(questionIdStr)) {
+        throw new BadRequestError('Invalid or missing questionId');
+      }
+
+      // Upsert so that concurrent requests never create two assignments for the same reviewer
+      const result = await this.blindAssignmentsCollection.findOneAndUpdate(
+        {
+          reviewerId: new ObjectId(reviewerIdStr),
+          questionId: new ObjectId(questionIdStr),
+        },
+        {
+          $setOnInsert: {
+            ...assignment,
+            reviewerId: new ObjectId(reviewerIdStr),
+            questionId: new ObjectId(questionIdStr),
+            answerMappings: assignment.answerMappings.map(mapping => ({
+              anonymousId: mapping.anonymousId,
+              realAnswerId: new ObjectId(mapping.realAnswerId.toString()),
+              authorId: new ObjectId(mapping.authorId.toString()),
+            })),
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+        },
+        {upsert: true, returnDocument: 'after', session},
+      );
+
+      if (!result) {
+        throw new InternalServerError(
+          'Failed to create blind review assignment',
+        );
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error('Error creating blind review assignment', error);
+      throw error;
+    }
+  }
+
+  async getAssignment(
+    reviewerId: string,
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<IBlindReviewAssignment | null> {
+    try {
+      await this.init();
+
+      if (!reviewerId || !isValidObjectId(reviewerId)) {
+        throw new BadRequestError('Invalid reviewerId');
+      }
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid questionId');
+      }
+
+      return await this.blindAssignmentsCollection.findOne(
+        {
+          reviewerId: new ObjectId(reviewerId),
+          questionId: new ObjectId(questionId),
+        },
+        {session},
+      );
+    } catch (error) {
+      this.logger.error('Error getting blind review assignment', error);
+      throw error;
+    }
+  }
+
+  async completeAssignment(
+    assignmentId: string,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      if (!assignmentId || !isValidObjectId(assignmentId)) {
+        throw new BadRequestError('Invalid assignmentId');
+      }
+
+      const result = await this.blindAssignmentsCollection.updateOne(
+        {_id: new ObjectId(assignmentId), status: {$ne: 'completed'}},
+        {$set: {status: 'completed', updatedAt: new Date()}},
+        {session},
+      );
+
+      return result.modifiedCount === 1;
+    } catch (error) {
+      this.logger.error('Error completing blind review assignment', error);
+      throw error;
+    }
+  }
+
+  async createRanking(
+    ranking: Omit<IAnswerRanking, '_id' | 'createdAt' | 'updatedAt'>,
+    session?: ClientSession,
+  ): Promise<IAnswerRanking> {
+    try {
+      await this.init();
+
+      const reviewerIdStr = ranking.reviewerId.toString();
+      const questionIdStr = ranking.questionId.toString();
+
+      if (!reviewerIdStr || !isValidObjectId(reviewerIdStr)) {
+        throw new BadRequestError('Invalid or missing reviewerId');
+      }
+      if (!questionIdStr || !isValidObjectId(questionIdStr)) {
+        throw new BadRequestError('Invalid or missing questionId');
+      }
+
+      const doc: Omit<IAnswerRanking, '_id'> = {
+        ...ranking,
+        reviewerId: new ObjectId(reviewerIdStr),
+        questionId: new ObjectId(questionIdStr),
+        rankings: ranking.rankings.map(rank => ({
+          ...rank,
+          answerId: new ObjectId(rank.answerId.toString()),
+        })),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const result = await this.answerRankingsCollection.insertOne(doc, {
+        session,
+      });
+      if (!result.acknowledged) {
+        throw new InternalServerError('Failed to create answer ranking');
+      }
+
+      return {
+        ...doc,
+        _id: result.insertedId,
+      } as IAnswerRanking;
+    } catch (error) {
+      this.logger.error('Error creating answer ranking', error);
+      throw error;
+    }
+  }
+
+  async getRankingsForQuestion(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<IAnswerRanking[]> {
+    try {
+      await this.init();
+
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid questionId');
+      }
+
+      return await this.answerRankingsCollection
+        .find({questionId: new ObjectId(questionId)}, {session})
+        .sort({createdAt: 1})
+        .toArray();
+    } catch (error) {
+      this.logger.error('Error getting answer rankings for question', error);
+      throw error;
+    }
+  }
+
+  async deleteForQuestions(
+    questionIds: string[],
+    session?: ClientSession,
+  ): Promise<number> {
+    try {
+      await this.init();
+
+      if (questionIds.length === 0) return 0;
+      const filter = {
+        questionId: {$in: questionIds.map(id => new ObjectId(id))},
+      };
+      const assignments = await this.blindAssignmentsCollection.deleteMany(
+        filter,
+        {session},
+      );
+      const rankings = await this.answerRankingsCollection.deleteMany(filter, {
+        session,
+      });
+      return assignments.deletedCount + rankings.deletedCount;
+    } catch (error) {
+      this.logger.error('Error deleting blind reviews', error);
+      throw error;
+    }
+  }
+}
@@ -1,13 +1,19 @@
-import {IContext} from '#root/shared/interfaces/models.js';
+import {
+  IContext,
+  IContextAudio,
+  ISoftDeletion,
+} from '#root/shared/interfaces/models.js';
 import {GLOBAL_TYPES} from '#root/types.js';
 import {inject, injectable} from 'inversify';
-import {ClientSession, Collection, ObjectId} from 'mongodb';
+import {ClientSession, Collection, Filter, ObjectId} from 'mongodb';
 import {MongoDatabase} from '../MongoDatabase.js';
+import {NOT_DELETED, RESTORE_UPDATE} from '../softDelete.js';
 import {isValidObjectId} from '#root/utils/isValidObjectId.js';
 import {BadRequestError, InternalServerError} from 'routing-controllers';
 import {IContextRepository} from '#root/shared/database/interfaces/IContextRepository.js';
 import {Context} from '#root/modules/core/classes/transformers/Context.js';
 import {instanceToPlain, plainToInstance} from 'class-transformer';
+import {detectLanguage} from '#root/utils/language.js';
 
 @injectable()
 export class ContextRepository implements IContextRepository {
@@ -35,6 +41,7 @@ export class ContextRepository implements IContextRepository {
 
       const uploadData: IContext = {
         text,
+        language: detectLanguage(text),
         createdAt: new Date(),
       };
 
@@ -49,6 +56,59 @@ export class ContextRepository implements IContextRepository {
     }
   }
 
+  async addAudioContext(
+    audio: IContextAudio,
+    language: string | undefined,
+    session?: ClientSession,
+  ): Promise<{insertedId: string}> {
+    try {
+      await this.init();
+
+      const now = new Date();
+      const uploadData: IContext = {
+        text: '',
+        ...(language && {language}),
+        audio: {...audio, uploadedBy: new ObjectId(audio.uploadedBy)},
+        transcription: {status: 'pending'},
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const result = await this.ContextCollection.insertOne(uploadData, {
+        session,
+      });
+      return {insertedId: result.insertedId.toString()};
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while adding audio context, More/ ${error}`,
+      );
+    }
+  }
+
+  async updateContext(
+    contextId: string,
+    update: Partial<Pick<IContext, 'text' | 'language' | 'transcription'>>,
+    session?: ClientSession,
+  ): Promise<void> {
+    try {
+      await this.init();
+
+      if (!contextId || !isValidObjectId(contextId)) {
+        throw new BadRequestError('Invalid or missing contextId');
+      }
+
+      await this.ContextCollection.updateOne(
+        {_id: new ObjectId(contextId), ...NOT_DELETED},
+        {$set: {...update, updatedAt: new Date()}},
+        {session},
+      );
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while updating context, More/ ${error}`,
+      );
+    }
+  }
+
   async getById(
     contextId: string,
     session?: ClientSession,
@@ -63,6 +123,7 @@ export class ContextRepository implements IContextRepository {
       const context = await this.ContextCollection.findOne(
         {
           _id: new ObjectId(contextId),
+          ...NOT_DELETED,
         },
         {session},
       );
@@ -73,11 +134,153 @@ export class ContextRepository implements IContextRepository {
         ...context,
         _id: context._id?.toString(),
       } as IContext;
-      
     } catch (error) {
       throw new InternalServerError(
         `Error while fetching context, More/ ${error}`,
       );
     }
   }
+
+  async softDeleteContext(
+    contextId: string,
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      if (!contextId || !isValidObjectId(contextId)) {
+        throw new BadRequestError('Invalid or missing contextId');
+      }
+
+      const result = await this.ContextCollection.updateOne(
+        {_id: new ObjectId(contextId), ...NOT_DELETED},
+        {
+          $set: {
+            deletedAt: deletion.deletedAt,
+            ...(deletion.deletedBy && {
+              deletedBy: new ObjectId(deletion.deletedBy),
+            }),
+          },
+        },
+        {session},
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while deleting context, More/ ${error}`,
+      );
+    }
+  }
+
+  async restoreContext(
+    contextId: string,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      if (!contextId || !isValidObjectId(contextId)) {
+        throw new BadRequestError('Invalid or missing contextId');
+      }
+
+      const result = await this.ContextCollection.updateOne(
+        {_id: new ObjectId(contextId), deletedAt: {$exists: true}},
+        {...RESTORE_UPDATE, $set: {updatedAt: new Date()}},
+        {session},
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while restoring context, More/ ${error}`,
+      );
+    }
+  }
+
+  async getDeletedById(
+    contextId: string,
+    session?: ClientSession,
+  ): Promise<IContext | null> {
+    try {
+      await this.init();
+
+      if (!contextId || !isValidObjectId(contextId)) {
+        throw new BadRequestError('Invalid or missing contextId');
+      }
+
+      const context = await this.ContextCollection.findOne(
+        {_id: new ObjectId(contextId), deletedAt: {$exists: true}},
+        {session},
+      );
+      if (!context) return null;
+
+      return {...context, _id: context._id.toString()};
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while fetching deleted context, More/ ${error}`,
+      );
+    }
+  }
+
+  async getTrash(
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{contexts: IContext[]; total: number}> {
+    try {
+      await this.init();
+
+      const filter: Filter<IContext> = {deletedAt: {$exists: true}};
+      const [contexts, total] = await Promise.all([
+        this.ContextCollection.find(filter, {session})
+          .sort({deletedAt: -1, _id: -1})
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .toArray(),
+        this.ContextCollection.countDocuments(filter, {session}),
+      ]);
+
+      return {
+        contexts: contexts.map(context => ({
+          ...context,
+          _id: context._id.toString(),
+        })),
+        total,
+      };
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while fetching deleted contexts, More/ ${error}`,
+      );
+    }
+  }
+
+  async purgeDeleted(
+    before: Date,
+    session?: ClientSession,
+  ): Promise<IContext[]> {
+    try {
+      await this.init();
+
+      const expired = await this.ContextCollection.find(
+        {deletedAt: {$lt: before}},
+        {session},
+      ).toArray();
+      if (expired.length === 0) return [];
+
+      await this.ContextCollection.deleteMany(
+        {_id: {$in: expired.map(context => context._id)}},
+        {session},
+      );
+      return expired.map(context => ({
+        ...context,
+        _id: context._id.toString(),
+      }));
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while purging contexts, More/ ${error}`,
+      );
+    }
+  }
 }
@@ -0,0 +1,184 @@
+import {IJob, JobType} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession, Collection, ObjectId} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {BadRequestError, InternalServerError} from 'routing-controllers';
+import {IJobRepository} from '#root/shared/database/interfaces/IJobRepository.js';
+
+@injectable()
+export class JobRepository implements IJobRepository {
+  private jobsCollection: Collection<IJob>;
+
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private db: MongoDatabase,
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  private async init() {
+    this.jobsCollection = await this.db.getCollection<IJob>('jobs');
+  }
+
+  async enqueue(
+    type: JobType,
+    payload: Record<string, unknown>,
+    maxAttempts: number,
+    createdBy?: string,
+    session?: ClientSession,
+    requestId?: string,
+  ): Promise<{insertedId: string}> {
+    try {
+      await this.init();
+
+      if (createdBy && !isValidObjectId(createdBy)) {
+        throw new BadRequestError('Invalid createdBy');
+      }
+
+      const now = new Date();
+      const job: IJob = {
+        type,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts,
+        runAt: now,
+        ...(createdBy && {createdBy: new ObjectId(createdBy)}),
+        ...(requestId && {requestId}),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const result = await this.jobsCollection.insertOne(job, {session});
+      if (!result.acknowledged) {
+        throw new InternalServerError('Failed to enqueue job');
+      }
+
+      return {insertedId: result.insertedId.toString()};
+    } catch (error) {
+      this.logger.error('Error enqueuing job', error);
+      throw error;
+    }
+  }
+
+  async leaseNext(
+    workerId: string,
+    leaseDuration: number,
+  ): Promise<IJob | null> {
+    try {
+      await this.init();
+
+      const now = new Date();
+
+      // A single findOneAndUpdate, so two workers can never lease the same job
+      return await this.jobsCollection.findOneAndUpdate(
+        {
+          $or: [
+            {status: {$in: ['pending', 'failed']}, runAt: {$lte: now}},
+            {status: 'running', leaseExpiresAt: {$lte: now}},
+          ],
+        },
+        {
+          $set: {
+            status: 'running',
+            lockedBy: workerId,
+            leaseExpiresAt: new Date(now.getTime() + leaseDuration),
+            updatedAt: now,
+          },
+          $inc: {attempts: 1},
+        },
+        {sort: {runAt: 1}, returnDocument: 'after'},
+      );
+    } catch (error) {
+      this.logger.error('Error leasing job', error);
+      throw error;
+    }
+  }
+
+  async markCompleted(
+    jobId: string,
+    workerId: string,
+    result?: Record<string, unknown>,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      if (!jobId || !isValidObjectId(jobId)) {
+        throw new BadRequestError('Invalid jobId');
+      }
+
+      const now = new Date();
+      const updateResult = await this.jobsCollection.updateOne(
+        {_id: new ObjectId(jobId), status: 'running', lockedBy: workerId},
+        {
+          $set: {
+            status: 'completed',
+            ...(result && {result}),
+            completedAt: now,
+            updatedAt: now,
+          },
+          $unset: {lockedBy: '', leaseExpiresAt: ''},
+        },
+      );
+
+      return updateResult.modifiedCount === 1;
+    } catch (error) {
+      this.logger.error('Error completing job', error);
+      throw error;
+    }
+  }
+
+  async markFailed(
+    jobId: string,
+    workerId: string,
+    error: string,
+    retryAt: Date | null,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      if (!jobId || !isValidObjectId(jobId)) {
+        throw new BadRequestError('Invalid jobId');
+      }
+
+      const updateResult = await this.jobsCollection.updateOne(
+        {_id: new ObjectId(jobId), status: 'running', lockedBy: workerId},
+        {
+          $set: {
+            status: retryAt ? 'failed' : 'dead',
+            lastError: error,
+            ...(retryAt && {runAt: retryAt}),
+            updatedAt: new Date(),
+          },
+          $unset: {lockedBy: '', leaseExpiresAt: ''},
+        },
+      );
+
+      return updateResult.modifiedCount === 1;
+    } catch (err) {
+      this.logger.error('Error recording job failure', err);
+      throw err;
+    }
+  }
+
+  async getById(jobId: string, session?: ClientSession): Promise<IJob | null> {
+    try {
+      await this.init();
+
+      if (!jobId || !isValidObjectId(jobId)) {
+        throw new BadRequestError('Invalid jobId');
+      }
+
+      return await this.jobsCollection.findOne(
+        {_id: new ObjectId(jobId)},
+        {session},
+      );
+    } catch (error) {
+      this.logger.error('Error getting job', error);
+      throw error;
+    }
+  }
+}
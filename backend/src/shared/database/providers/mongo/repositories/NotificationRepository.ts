@@ -0,0 +1,139 @@
+import {INotification} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession, Collection, Filter, ObjectId} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {BadRequestError, InternalServerError} from 'routing-controllers';
+import {INotificationRepository} from '#root/shared/database/interfaces/INotificationRepository.js';
+
+@injectable()
+export class NotificationRepository implements INotificationRepository {
+  private notificationsCollection: Collection<INotification>;
+
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private db: MongoDatabase,
+  ) {}
+
+  private async init() {
+    this.notificationsCollection =
+      await this.db.getCollection<INotification>('notifications');
+  }
+
+  async addNotification(
+    notification: INotification,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      // Keyed by event, so a retried delivery job does not notify twice
+      const filter = {
+        userId: new ObjectId(notification.userId),
+        type: notification.type,
+        entityId: new ObjectId(notification.entityId),
+      };
+      const result = await this.notificationsCollection.updateOne(
+        filter,
+        {
+          $setOnInsert: {
+            ...filter,
+            title: notification.title,
+            message: notification.message,
+            createdAt: notification.createdAt ?? new Date(),
+          },
+        },
+        {upsert: true, session},
+      );
+      return result.upsertedCount > 0;
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while storing notification, More/ ${error}`,
+      );
+    }
+  }
+
+  async getNotifications(
+    userId: string,
+    unreadOnly: boolean,
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{notifications: INotification[]; total: number; unread: number}> {
+    try {
+      await this.init();
+
+      const userFilter: Filter<INotification> = {userId: new ObjectId(userId)};
+      const unreadFilter: Filter<INotification> = {
+        ...userFilter,
+        readAt: {$exists: false},
+      };
+      const query = unreadOnly ? unreadFilter : userFilter;
+
+      const [notifications, total, unread] = await Promise.all([
+        this.notificationsCollection
+          .find(query, {session})
+          .sort({createdAt: -1, _id: -1})
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .toArray(),
+        this.notificationsCollection.countDocuments(query, {session}),
+        this.notificationsCollection.countDocuments(unreadFilter, {session}),
+      ]);
+
+      return {notifications, total, unread};
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while fetching notifications, More/ ${error}`,
+      );
+    }
+  }
+
+  async markRead(
+    userId: string,
+    notificationId: string,
+    session?: ClientSession,
+  ): Promise<INotification | null> {
+    try {
+      await this.init();
+
+      if (!isValidObjectId(notificationId)) {
+        throw new BadRequestError('Invalid notificationId');
+      }
+
+      const filter = {
+        _id: new ObjectId(notificationId),
+        userId: new ObjectId(userId),
+      };
+      await this.notificationsCollection.updateOne(
+        {...filter, readAt: {$exists: false}},
+        {$set: {readAt: new Date()}},
+        {session},
+      );
+      return await this.notificationsCollection.findOne(filter, {session});
+    } catch (error) {
+      if (error instanceof BadRequestError) throw error;
+      throw new InternalServerError(
+        `Error while marking notification read, More/ ${error}`,
+      );
+    }
+  }
+
+  async markAllRead(userId: string, session?: ClientSession): Promise<number> {
+    try {
+      await this.init();
+
+      const result = await this.notificationsCollection.updateMany(
+        {userId: new ObjectId(userId), readAt: {$exists: false}},
+        {$set: {readAt: new Date()}},
+        {session},
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while marking notifications read, More/ ${error}`,
+      );
+    }
+  }
+}
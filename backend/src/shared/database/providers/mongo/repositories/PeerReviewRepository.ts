@@ -1,22 +1,36 @@
-import { IPeerReview, ReviewStatus } from '#root/shared/interfaces/models.js';
-import { GLOBAL_TYPES } from '#root/types.js';
-import { inject } from 'inversify';
-import { ClientSession, Collection, ObjectId } from 'mongodb';
-import { MongoDatabase } from '../MongoDatabase.js';
-import { isValidObjectId } from '#root/utils/isValidObjectId.js';
-import { BadRequestError, InternalServerError } from 'routing-controllers';
-import { IPeerReviewRepository } from '#root/shared/database/interfaces/IPeerReviewRepository.js';
+import {
+  IAnswerSimilarity,
+  IPeerReview,
+  ISoftDeletion,
+  ReviewStatus,
+} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject} from 'inversify';
+import {ClientSession, Collection, ObjectId} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {NOT_DELETED, RESTORE_UPDATE} from '../softDelete.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {BadRequestError, InternalServerError} from 'routing-controllers';
+import {IPeerReviewRepository} from '#root/shared/database/interfaces/IPeerReviewRepository.js';
+import {reviewConfig} from '#root/config/review.js';
 
 export class PeerReviewRepository implements IPeerReviewRepository {
   private peerReviewsCollection: Collection<IPeerReview>;
+  private answerSimilaritiesCollection: Collection<IAnswerSimilarity>;
 
   constructor(
     @inject(GLOBAL_TYPES.Database)
     private db: MongoDatabase,
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
   ) {}
 
   private async init() {
-    this.peerReviewsCollection = await this.db.getCollection<IPeerReview>('peerReviews');
+    this.peerReviewsCollection =
+      await this.db.getCollection<IPeerReview>('peerReviews');
+    this.answerSimilaritiesCollection =
+      await this.db.getCollection<IAnswerSimilarity>('answerSimilarities');
   }
 
   async createReview(
@@ -44,7 +58,7 @@ export class PeerReviewRepository implements IPeerReviewRepository {
         updatedAt: new Date(),
       };
 
-      const result = await this.peerReviewsCollection.insertOne(doc, { session });
+      const result = await this.peerReviewsCollection.insertOne(doc, {session});
       if (!result.acknowledged) {
         throw new InternalServerError('Failed to create peer review');
       }
@@ -54,12 +68,15 @@ export class PeerReviewRepository implements IPeerReviewRepository {
         _id: result.insertedId,
       } as IPeerReview;
     } catch (error) {
-      console.error('Error creating peer review:', error);
+      this.logger.error('Error creating peer review', error);
       throw error;
     }
   }
 
-  async getReviewById(reviewId: string, session?: ClientSession): Promise<IPeerReview | null> {
+  async getReviewById(
+    reviewId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview | null> {
     try {
       await this.init();
 
@@ -68,16 +85,19 @@ export class PeerReviewRepository implements IPeerReviewRepository {
       }
 
       return await this.peerReviewsCollection.findOne(
-        { _id: new ObjectId(reviewId) },
-        { session }
+        {_id: new ObjectId(reviewId), ...NOT_DELETED},
+        {session},
       );
     } catch (error) {
-      console.error('Error getting review by ID:', error);
+      this.logger.error('Error getting review by ID', error);
       throw error;
     }
   }
 
-  async getReviewsForAnswer(answerId: string, session?: ClientSession): Promise<IPeerReview[]> {
+  async getReviewsForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview[]> {
     try {
       await this.init();
 
@@ -86,18 +106,50 @@ export class PeerReviewRepository implements IPeerReviewRepository {
       }
 
       const reviews = await this.peerReviewsCollection
-        .find({ answerId: new ObjectId(answerId) }, { session })
-        .sort({ createdAt: 1 })
+        .find({answerId: new ObjectId(answerId), ...NOT_DELETED}, {session})
+        .sort({createdAt: 1})
         .toArray();
 
       return reviews;
     } catch (error) {
-      console.error('Error getting reviews for answer:', error);
+      this.logger.error('Error getting reviews for answer', error);
       throw error;
     }
   }
 
-  async getReviewsForReviewer(reviewerId: string, session?: ClientSession): Promise<IPeerReview[]> {
+  async getReviewForAnswerByReviewer(
+    answerId: string,
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview | null> {
+    try {
+      await this.init();
+
+      if (!answerId || !isValidObjectId(answerId)) {
+        throw new BadRequestError('Invalid answerId');
+      }
+      if (!reviewerId || !isValidObjectId(reviewerId)) {
+        throw new BadRequestError('Invalid reviewerId');
+      }
+
+      return await this.peerReviewsCollection.findOne(
+        {
+          answerId: new ObjectId(answerId),
+          reviewerId: new ObjectId(reviewerId),
+          ...NOT_DELETED,
+        },
+        {session, sort: {createdAt: -1}},
+      );
+    } catch (error) {
+      this.logger.error('Error getting review for answer by reviewer', error);
+      throw error;
+    }
+  }
+
+  async getReviewsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview[]> {
     try {
       await this.init();
 
@@ -106,18 +158,21 @@ export class PeerReviewRepository implements IPeerReviewRepository {
       }
 
       const reviews = await this.peerReviewsCollection
-        .find({ reviewerId: new ObjectId(reviewerId) }, { session })
-        .sort({ createdAt: -1 })
+        .find({reviewerId: new ObjectId(reviewerId), ...NOT_DELETED}, {session})
+        .sort({createdAt: -1})
         .toArray();
 
       return reviews;
     } catch (error) {
-      console.error('Error getting reviews for reviewer:', error);
+      this.logger.error('Error getting reviews for reviewer', error);
       throw error;
     }
   }
 
-  async getPendingReviewsForReviewer(reviewerId: string, session?: ClientSession): Promise<IPeerReview[]> {
+  async getPendingReviewsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview[]> {
     try {
       await this.init();
 
@@ -126,16 +181,34 @@ export class PeerReviewRepository implements IPeerReviewRepository {
       }
 
       const reviews = await this.peerReviewsCollection
-        .find({
-          reviewerId: new ObjectId(reviewerId),
-          status: 'assigned'
-        }, { session })
-        .sort({ assignedAt: 1 })
+        .find(
+          {
+            reviewerId: new ObjectId(reviewerId),
+            status: {$in: ['assigned', 'in_progress']},
+            ...NOT_DELETED,
+          },
+          {session},
+        )
+        .sort({assignedAt: 1})
         .toArray();
 
       return reviews;
     } catch (error) {
-      console.error('Error getting pending reviews for reviewer:', error);
+      this.logger.error('Error getting pending reviews for reviewer', error);
+      throw error;
+    }
+  }
+
+  async countPendingReviews(session?: ClientSession): Promise<number> {
+    try {
+      await this.init();
+
+      return await this.peerReviewsCollection.countDocuments(
+        {status: {$in: ['assigned', 'in_progress']}, ...NOT_DELETED},
+        {session},
+      );
+    } catch (error) {
+      this.logger.error('Error counting pending reviews', error);
       throw error;
     }
   }
@@ -144,7 +217,7 @@ export class PeerReviewRepository implements IPeerReviewRepository {
     reviewId: string,
     updates: Partial<IPeerReview>,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }> {
+  ): Promise<{modifiedCount: number}> {
     try {
       await this.init();
 
@@ -166,14 +239,14 @@ export class PeerReviewRepository implements IPeerReviewRepository {
       }
 
       const result = await this.peerReviewsCollection.updateOne(
-        { _id: new ObjectId(reviewId) },
-        { $set: updateDoc },
-        { session }
+        {_id: new ObjectId(reviewId)},
+        {$set: updateDoc},
+        {session},
       );
 
-      return { modifiedCount: result.modifiedCount };
+      return {modifiedCount: result.modifiedCount};
     } catch (error) {
-      console.error('Error updating review:', error);
+      this.logger.error('Error updating review', error);
       throw error;
     }
   }
@@ -182,8 +255,12 @@ export class PeerReviewRepository implements IPeerReviewRepository {
     reviewId: string,
     status: ReviewStatus,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }> {
-    return this.updateReview(reviewId, { status, updatedAt: new Date() }, session);
+  ): Promise<{modifiedCount: number}> {
+    return this.updateReview(
+      reviewId,
+      {status, updatedAt: new Date()},
+      session,
+    );
   }
 
   async submitReview(
@@ -192,7 +269,7 @@ export class PeerReviewRepository implements IPeerReviewRepository {
     comments?: string,
     similarity?: number,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }> {
+  ): Promise<{modifiedCount: number}> {
     try {
       await this.init();
 
@@ -220,19 +297,22 @@ export class PeerReviewRepository implements IPeerReviewRepository {
       }
 
       const result = await this.peerReviewsCollection.updateOne(
-        { _id: new ObjectId(reviewId) },
-        { $set: updateDoc },
-        { session }
+        {_id: new ObjectId(reviewId)},
+        {$set: updateDoc},
+        {session},
       );
 
-      return { modifiedCount: result.modifiedCount };
+      return {modifiedCount: result.modifiedCount};
     } catch (error) {
-      console.error('Error submitting review:', error);
+      this.logger.error('Error submitting review', error);
       throw error;
     }
   }
 
-  async deleteReview(reviewId: string, session?: ClientSession): Promise<{ deletedCount: number }> {
+  async deleteReview(
+    reviewId: string,
+    session?: ClientSession,
+  ): Promise<{deletedCount: number}> {
     try {
       await this.init();
 
@@ -241,13 +321,13 @@ export class PeerReviewRepository implements IPeerReviewRepository {
       }
 
       const result = await this.peerReviewsCollection.deleteOne(
-        { _id: new ObjectId(reviewId) },
-        { session }
+        {_id: new ObjectId(reviewId)},
+        {session},
       );
 
-      return { deletedCount: result.deletedCount };
+      return {deletedCount: result.deletedCount};
     } catch (error) {
-      console.error('Error deleting review:', error);
+      this.logger.error('Error deleting review', error);
       throw error;
     }
   }
@@ -259,6 +339,8 @@ export class PeerReviewRepository implements IPeerReviewRepository {
     totalReviews: number;
     completedReviews: number;
     averageScore: number;
+    agreement: number;
+    expertAgreement: number | null;
     thresholdReached: boolean;
   }> {
     try {
@@ -269,28 +351,152 @@ export class PeerReviewRepository implements IPeerReviewRepository {
       }
 
       const reviews = await this.getReviewsForAnswer(answerId, session);
-      const completedReviews = reviews.filter(review => review.status === 'submitted' && review.score !== undefined);
+      const completedReviews = reviews.filter(
+        review => review.status === 'submitted' && review.score !== undefined,
+      );
 
       const totalReviews = reviews.length;
       const completedCount = completedReviews.length;
 
       let averageScore = 0;
+      let agreement = 0;
       if (completedCount > 0) {
-        const totalScore = completedReviews.reduce((sum, review) => sum + (review.score || 0), 0);
+        const totalScore = completedReviews.reduce(
+          (sum, review) => sum + (review.score || 0),
+          0,
+        );
         averageScore = totalScore / completedCount;
+
+        // Agreement: 1 - standard deviation / largest possible deviation on a 1-5 scale (2)
+        const variance =
+          completedReviews.reduce(
+            (sum, review) =>
+              sum + Math.pow((review.score || 0) - averageScore, 2),
+            0,
+          ) / completedCount;
+        agreement = 1 - Math.sqrt(variance) / 2;
       }
 
-      // Threshold: 70% of max score (5) = 3.5, with at least 3 completed reviews
-      const thresholdReached = averageScore >= 3.5 && completedCount >= 3;
+      // Expert agreement: best similarity to an answer another expert wrote independently
+      const [closestAnswer] = await this.answerSimilaritiesCollection
+        .find({answerIds: new ObjectId(answerId)}, {session})
+        .sort({score: -1})
+        .limit(1)
+        .toArray();
+      const expertAgreement = closestAnswer?.score ?? null;
+
+      const {minReviews, minAverageScore, minAgreement, minExpertAgreement} =
+        reviewConfig.finalAnswer;
+      const thresholdReached =
+        completedCount >= minReviews &&
+        averageScore >= minAverageScore &&
+        agreement >= minAgreement &&
+        (minExpertAgreement <= 0 ||
+          (expertAgreement ?? 0) >= minExpertAgreement);
 
       return {
         totalReviews,
         completedReviews: completedCount,
         averageScore,
+        agreement,
+        expertAgreement,
         thresholdReached,
       };
     } catch (error) {
-      console.error('Error getting review stats for answer:', error);
+      this.logger.error('Error getting review stats for answer', error);
+      throw error;
+    }
+  }
+
+  async softDeleteForAnswers(
+    answerIds: string[],
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<string[]> {
+    try {
+      await this.init();
+
+      if (answerIds.some(id => !isValidObjectId(id))) {
+        throw new BadRequestError('Invalid answerId');
+      }
+      if (answerIds.length === 0) return [];
+
+      const reviews = await this.peerReviewsCollection
+        .find(
+          {
+            answerId: {$in: answerIds.map(id => new ObjectId(id))},
+            ...NOT_DELETED,
+          },
+          {session, projection: {_id: 1}},
+        )
+        .toArray();
+      if (reviews.length === 0) return [];
+
+      await this.peerReviewsCollection.updateMany(
+        {_id: {$in: reviews.map(review => review._id)}},
+        {
+          $set: {
+            deletedAt: deletion.deletedAt,
+            ...(deletion.deletedBy && {
+              deletedBy: new ObjectId(deletion.deletedBy),
+            }),
+            ...(deletion.deletedWith && {
+              deletedWith: new ObjectId(deletion.deletedWith),
+            }),
+          },
+        },
+        {session},
+      );
+      return reviews.map(review => review._id.toString());
+    } catch (error) {
+      this.logger.error('Error deleting reviews', error);
+      throw error;
+    }
+  }
+
+  async restoreDeletedWith(
+    deletedWith: string,
+    session?: ClientSession,
+  ): Promise<string[]> {
+    try {
+      await this.init();
+
+      const reviews = await this.peerReviewsCollection
+        .find(
+          {deletedWith: new ObjectId(deletedWith)},
+          {session, projection: {_id: 1}},
+        )
+        .toArray();
+      if (reviews.length === 0) return [];
+
+      await this.peerReviewsCollection.updateMany(
+        {_id: {$in: reviews.map(review => review._id)}},
+        {...RESTORE_UPDATE, $set: {updatedAt: new Date()}},
+        {session},
+      );
+      return reviews.map(review => review._id.toString());
+    } catch (error) {
+      this.logger.error('Error restoring reviews', error);
+      throw error;
+    }
+  }
+
+  async purgeDeleted(before: Date, session?: ClientSession): Promise<string[]> {
+    try {
+      await this.init();
+
+      const expired = await this.peerReviewsCollection
+        .find({deletedAt: {$lt: before}}, {session, projection: {_id: 1}})
+        .toArray();
+      if (expired.length === 0) return [];
+
+      await this.peerReviewsCollection.deleteMany(
+        {_id: {$in: expired.map(review => review._id)}},
+        {session},
+      );
+      return expired.map(review => review._id.toString());
+    } catch (error) {
+      this.logger.error('Error purging reviews', error);
       throw error;
     }
   }
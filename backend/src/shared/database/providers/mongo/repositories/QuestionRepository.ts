@@ -1,17 +1,40 @@
-import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
-import {IQuestion} from '#root/shared/interfaces/models.js';
+import {
+  IQuestionRepository,
+  QuestionSearchFilter,
+  QuestionSearchResult,
+} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {
+  IQuestion,
+  IQuestionSource,
+  IQuestionTransition,
+  ISoftDeletion,
+  QuestionStatus,
+} from '#root/shared/interfaces/models.js';
+import {ANSWERABLE_QUESTION_STATUSES} from '#root/shared/question-lifecycle-service.js';
 import {GLOBAL_TYPES} from '#root/types.js';
 import {inject} from 'inversify';
-import {ClientSession, Collection, ObjectId} from 'mongodb';
+import {
+  ClientSession,
+  Collection,
+  Filter,
+  MongoServerError,
+  ObjectId,
+} from 'mongodb';
 import {MongoDatabase} from '../MongoDatabase.js';
+import {NOT_DELETED, RESTORE_UPDATE} from '../softDelete.js';
 import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {detectLanguage} from '#root/utils/language.js';
 import {BadRequestError, InternalServerError} from 'routing-controllers';
 import {instanceToPlain, plainToInstance} from 'class-transformer';
 import {Question} from '#root/modules/core/classes/transformers/Question.js';
 import {QuestionResponse} from '#root/modules/core/classes/validators/QuestionValidators.js';
+import {questionConfig} from '#root/config/questions.js';
+import {findMostSimilar} from '#root/utils/textSimilarity.js';
 
 export class QuestionRepository implements IQuestionRepository {
   private QuestionCollection: Collection<IQuestion>;
+  // $text queries need the text index; it is created on first search
+  private textIndex: Promise<string> | null = null;
 
   constructor(
     @inject(GLOBAL_TYPES.Database)
@@ -19,44 +42,61 @@ export class QuestionRepository implements IQuestionRepository {
   ) {}
 
   private async init() {
-    this.QuestionCollection = await this.db.getCollection<IQuestion>(
-      'questions',
-    );
+    this.QuestionCollection =
+      await this.db.getCollection<IQuestion>('questions');
   }
   async addQuestions(
     userId: string,
-    contextId: string,
-    questions: string[],
+    contextId: string | undefined,
+    questions: Pick<IQuestion, 'question' | 'tags'>[],
+    source?: IQuestionSource,
     session?: ClientSession,
-  ): Promise<{insertedCount: number}> {
+  ): Promise<{
+    insertedCount: number;
+    duplicateCount: number;
+    questions: IQuestion[];
+  }> {
     try {
       await this.init();
 
       if (!userId || !isValidObjectId(userId)) {
         throw new BadRequestError('Invalid or missing userId');
       }
-      if (!contextId || !isValidObjectId(contextId)) {
-        throw new BadRequestError('Invalid or missing contextId');
+      if (contextId && !isValidObjectId(contextId)) {
+        throw new BadRequestError('Invalid contextId');
       }
       if (!Array.isArray(questions) || questions.length === 0) {
         throw new BadRequestError('Questions must be a non-empty array');
       }
 
-      const uploadData: IQuestion[] = questions.map((question: string) => ({
+      const uploadData: IQuestion[] = questions.map(({question, tags}) => ({
+        _id: new ObjectId(),
         question,
+        language: detectLanguage(question),
+        ...(tags && {tags}),
         userId: new ObjectId(userId),
-        context: new ObjectId(contextId),
+        ...(contextId && {context: new ObjectId(contextId)}),
         status: 'open',
         totalAnwersCount: 0,
+        ...(source && {source}),
         createdAt: new Date(),
         updatedAt: new Date(),
       }));
 
+      await this.ensureTextIndex();
+      if (questionConfig.duplicates.enabled) {
+        await this.linkDuplicates(uploadData, session);
+      }
+
       const result = await this.QuestionCollection.insertMany(uploadData, {
         session,
       });
 
-      return {insertedCount: result.insertedCount};
+      return {
+        insertedCount: result.insertedCount,
+        duplicateCount: uploadData.filter(q => q.duplicateOf).length,
+        questions: uploadData,
+      };
     } catch (error) {
       throw new InternalServerError(
         `Error while adding questions, More/ ${error}`,
@@ -64,6 +104,124 @@ export class QuestionRepository implements IQuestionRepository {
     }
   }
 
+  async relinkDuplicates(
+    fromQuestionId: string,
+    toQuestionId: string,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}> {
+    try {
+      await this.init();
+
+      const result = await this.QuestionCollection.updateMany(
+        {duplicateOf: new ObjectId(fromQuestionId)},
+        {
+          $set: {
+            duplicateOf: new ObjectId(toQuestionId),
+            updatedAt: new Date(),
+          },
+        },
+        {session},
+      );
+      return {modifiedCount: result.modifiedCount};
+    } catch (error) {
+      throw new InternalServerError(`Failed to relink duplicates: ${error}`);
+    }
+  }
+
+  async promoteDuplicate(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<{canonicalId: string | null; relinkedCount: number}> {
+    try {
+      await this.init();
+
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid or missing questionId');
+      }
+
+      // Merged duplicates stay linked: their answers live in the question they were merged into
+      const open: Filter<IQuestion> = {
+        duplicateOf: new ObjectId(questionId),
+        mergedAt: {$exists: false},
+        ...NOT_DELETED,
+      };
+      const [successor] = await this.QuestionCollection.find(open, {session})
+        .sort({createdAt: 1, _id: 1})
+        .limit(1)
+        .toArray();
+      if (!successor) return {canonicalId: null, relinkedCount: 0};
+
+      const now = new Date();
+      await this.QuestionCollection.updateOne(
+        {_id: successor._id},
+        {$unset: {duplicateOf: ''}, $set: {updatedAt: now}},
+        {session},
+      );
+      const result = await this.QuestionCollection.updateMany(
+        {...open, _id: {$ne: successor._id}},
+        {$set: {duplicateOf: successor._id, updatedAt: now}},
+        {session},
+      );
+      return {
+        canonicalId: successor._id.toString(),
+        relinkedCount: result.modifiedCount,
+      };
+    } catch (error) {
+      throw new InternalServerError(`Failed to promote duplicate: ${error}`);
+    }
+  }
+
+  /**
+   * Links each new question to the canonical question of its most similar
+   * existing question, when the similarity reaches the configured cutoff.
+   * Candidates are the best text-index matches plus the earlier questions of the same batch.
+   */
+  private async linkDuplicates(
+    newQuestions: IQuestion[],
+    session?: ClientSession,
+  ): Promise<void> {
+    const {threshold, candidateLimit} = questionConfig.duplicates;
+    await this.ensureTextIndex();
+
+    const batch: {text: string; canonicalId: ObjectId}[] = [];
+    for (const newQuestion of newQuestions) {
+      const matches = await this.QuestionCollection.find(
+        {$text: {$search: newQuestion.question}, ...NOT_DELETED},
+        {
+          session,
+          projection: {
+            question: 1,
+            duplicateOf: 1,
+            score: {$meta: 'textScore'},
+          },
+        },
+      )
+        .sort({score: {$meta: 'textScore'}})
+        .limit(candidateLimit)
+        .toArray();
+
+      const candidates = [
+        ...matches.map(match => ({
+          text: match.question,
+          canonicalId: new ObjectId(
+            (match.duplicateOf ?? match._id).toString(),
+          ),
+        })),
+        ...batch,
+      ];
+      const best = findMostSimilar(newQuestion.question, candidates, threshold);
+      if (best) {
+        newQuestion.duplicateOf = best.candidate.canonicalId;
+        newQuestion.duplicateScore = best.score;
+      }
+
+      batch.push({
+        text: newQuestion.question,
+        canonicalId: (newQuestion.duplicateOf ?? newQuestion._id) as ObjectId,
+      });
+    }
+  }
+
   async getByContextId(
     contextId: string,
     session?: ClientSession,
@@ -78,6 +236,7 @@ export class QuestionRepository implements IQuestionRepository {
       const questions = await this.QuestionCollection.find(
         {
           context: new ObjectId(contextId),
+          ...NOT_DELETED,
         },
         {session},
       ).toArray();
@@ -97,7 +256,7 @@ export class QuestionRepository implements IQuestionRepository {
   async getById(
     questionId: string,
     session?: ClientSession,
-  ): Promise<IQuestion> {
+  ): Promise<IQuestion | null> {
     try {
       await this.init();
 
@@ -108,9 +267,11 @@ export class QuestionRepository implements IQuestionRepository {
       const question = await this.QuestionCollection.findOne(
         {
           _id: new ObjectId(questionId),
+          ...NOT_DELETED,
         },
         {session},
       );
+      if (!question) return null;
 
       const formattedQuestion: IQuestion = {
         ...question,
@@ -125,11 +286,39 @@ export class QuestionRepository implements IQuestionRepository {
     }
   }
 
+  async getByIds(
+    questionIds: string[],
+    session?: ClientSession,
+  ): Promise<IQuestion[]> {
+    try {
+      await this.init();
+
+      if (questionIds.some(id => !isValidObjectId(id))) {
+        throw new BadRequestError('Invalid questionId');
+      }
+
+      const questions = await this.QuestionCollection.find(
+        {_id: {$in: questionIds.map(id => new ObjectId(id))}, ...NOT_DELETED},
+        {session},
+      ).toArray();
+
+      return questions.map(q => ({
+        ...q,
+        _id: q._id?.toString(),
+        userId: q.userId?.toString(),
+        context: q.context?.toString(),
+      }));
+    } catch (error) {
+      throw new InternalServerError(`Failed to get Questions:, More/ ${error}`);
+    }
+  }
+
   async getUnAnsweredQuestions(
     userId: string,
     page = 1,
     limit = 10,
     filter: 'newest' | 'oldest' | 'leastResponses' | 'mostResponses',
+    expertise: string[] = [],
     session?: ClientSession,
   ): Promise<QuestionResponse[]> {
     try {
@@ -139,7 +328,12 @@ export class QuestionRepository implements IQuestionRepository {
 
       const pipeline: any = [
         {
-          $match: {status: 'open'},
+          // Duplicates are answered through their canonical question
+          $match: {
+            status: {$in: ANSWERABLE_QUESTION_STATUSES},
+            duplicateOf: {$exists: false},
+            ...NOT_DELETED,
+          },
         },
         {
           $lookup: {
@@ -154,6 +348,8 @@ export class QuestionRepository implements IQuestionRepository {
                       {$eq: ['$authorId', new ObjectId(userId)]},
                     ],
                   },
+                  // Experts whose answer was deleted may answer again
+                  ...NOT_DELETED,
                 },
               },
             ],
@@ -165,15 +361,38 @@ export class QuestionRepository implements IQuestionRepository {
         },
       ];
 
+      // Count how many of the expert's expertise tags each question carries
+      pipeline.push({
+        $addFields: {
+          tagMatches: {
+            $size: {
+              $setIntersection: [
+                {
+                  $concatArrays: [
+                    {$ifNull: ['$tags.topics', []]},
+                    {$ifNull: ['$tags.crops', []]},
+                    {$ifNull: ['$tags.regions', []]},
+                  ],
+                },
+                expertise,
+              ],
+            },
+          },
+        },
+      });
+
+      // Best-matching questions first, the chosen filter breaks ties
+      const sort: Record<string, 1 | -1> = {tagMatches: -1};
       if (filter === 'newest') {
-        pipeline.push({$sort: {createdAt: -1}});
+        sort.createdAt = -1;
       } else if (filter === 'oldest') {
-        pipeline.push({$sort: {createdAt: 1}});
+        sort.createdAt = 1;
       } else if (filter === 'leastResponses') {
-        pipeline.push({$sort: {totalAnwersCount: 1}});
+        sort.totalAnwersCount = 1;
       } else if (filter === 'mostResponses') {
-        pipeline.push({$sort: {totalAnwersCount: -1}});
+        sort.totalAnwersCount = -1;
       }
+      pipeline.push({$sort: sort});
 
       // Pagination
       pipeline.push({$skip: skip});
@@ -190,6 +409,11 @@ export class QuestionRepository implements IQuestionRepository {
             $dateToString: {format: '%d-%m-%Y %H:%M:%S', date: '$updatedAt'},
           },
           totalAnwersCount: 1,
+          tags: {
+            topics: {$ifNull: ['$tags.topics', []]},
+            crops: {$ifNull: ['$tags.crops', []]},
+            regions: {$ifNull: ['$tags.regions', []]},
+          },
           _id: 0,
         },
       });
@@ -207,9 +431,107 @@ export class QuestionRepository implements IQuestionRepository {
     }
   }
 
+  async searchQuestions(
+    filter: QuestionSearchFilter,
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{questions: QuestionSearchResult[]; total: number}> {
+    try {
+      await this.init();
+
+      const query: Filter<IQuestion> = {...NOT_DELETED};
+      const text = filter.text?.trim();
+      if (text) {
+        await this.ensureTextIndex();
+        query.$text = {$search: text};
+      }
+      if (filter.status) query.status = filter.status;
+      if (filter.contextId) {
+        if (!isValidObjectId(filter.contextId)) {
+          throw new BadRequestError('Invalid contextId');
+        }
+        query.context = new ObjectId(filter.contextId);
+      }
+      if (filter.from || filter.to) {
+        query.createdAt = {
+          ...(filter.from && {$gte: filter.from}),
+          ...(filter.to && {$lte: filter.to}),
+        };
+      }
+      if (filter.minAnswers !== undefined || filter.maxAnswers !== undefined) {
+        query.totalAnwersCount = {
+          ...(filter.minAnswers !== undefined && {$gte: filter.minAnswers}),
+          ...(filter.maxAnswers !== undefined && {$lte: filter.maxAnswers}),
+        };
+      }
+
+      const cursor = text
+        ? this.QuestionCollection.find(query, {
+            session,
+            projection: {score: {$meta: 'textScore'}},
+          }).sort({score: {$meta: 'textScore'}, _id: -1})
+        : this.QuestionCollection.find(query, {session}).sort({
+            createdAt: -1,
+            _id: -1,
+          });
+
+      const [questions, total] = await Promise.all([
+        cursor
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .toArray(),
+        this.QuestionCollection.countDocuments(query, {session}),
+      ]);
+
+      return {
+        questions: questions.map(q => ({
+          ...q,
+          _id: q._id?.toString(),
+          userId: q.userId?.toString(),
+          context: q.context?.toString(),
+          score: (q as QuestionSearchResult).score ?? 0,
+        })),
+        total,
+      };
+    } catch (error) {
+      if (error instanceof BadRequestError) throw error;
+      throw new InternalServerError(`Failed to search questions: ${error}`);
+    }
+  }
+
+  private async ensureTextIndex(): Promise<void> {
+    this.textIndex ??= this.createTextIndex();
+    try {
+      await this.textIndex;
+    } catch (error) {
+      this.textIndex = null; // Retry on the next search
+      throw error;
+    }
+  }
+
+  private async createTextIndex(): Promise<string> {
+    const keys = {question: 'text', finalAnswerText: 'text'} as const;
+    // `language` holds locale tags like 'hi-IN' that the text index cannot use as stemming languages
+    const options = {
+      name: 'question_search',
+      weights: {question: 3, finalAnswerText: 1},
+      language_override: 'textSearchLanguage',
+    };
+    try {
+      return await this.QuestionCollection.createIndex(keys, options);
+    } catch (error) {
+      // Indexes built before questions had a language read it as the override; rebuild them
+      if ((error as MongoServerError).codeName !== 'IndexOptionsConflict')
+        throw error;
+      await this.QuestionCollection.dropIndex(options.name);
+      return this.QuestionCollection.createIndex(keys, options);
+    }
+  }
+
   async updateQuestion(
     questionId: string,
-    updates: Partial<IQuestion>,
+    updates: Partial<Omit<IQuestion, 'status' | 'statusHistory'>>,
     session?: ClientSession,
   ): Promise<{modifiedCount: number}> {
     try {
@@ -221,10 +543,19 @@ export class QuestionRepository implements IQuestionRepository {
       if (!updates || Object.keys(updates).length === 0) {
         throw new BadRequestError('Updates object cannot be empty');
       }
+      if (updates.question) await this.ensureTextIndex();
 
       const result = await this.QuestionCollection.updateOne(
-        {_id: new ObjectId(questionId)},
-        {$set: {...updates, updatedAt: new Date()}},
+        {_id: new ObjectId(questionId), ...NOT_DELETED},
+        {
+          $set: {
+            ...updates,
+            ...(updates.question && {
+              language: detectLanguage(updates.question),
+            }),
+            updatedAt: new Date(),
+          },
+        },
         {session},
       );
 
@@ -236,10 +567,28 @@ export class QuestionRepository implements IQuestionRepository {
     }
   }
 
-  async deleteQuestion(
+  async countByStatus(
+    statuses: QuestionStatus[],
+    session?: ClientSession,
+  ): Promise<number> {
+    try {
+      await this.init();
+      return await this.QuestionCollection.countDocuments(
+        {status: {$in: statuses}, ...NOT_DELETED},
+        {session},
+      );
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while counting Questions:, More/ ${error}`,
+      );
+    }
+  }
+
+  async transitionStatus(
     questionId: string,
+    transition: IQuestionTransition,
     session?: ClientSession,
-  ): Promise<{deletedCount: number}> {
+  ): Promise<boolean> {
     try {
       await this.init();
 
@@ -247,16 +596,171 @@ export class QuestionRepository implements IQuestionRepository {
         throw new BadRequestError('Invalid or missing questionId');
       }
 
-      const result = await this.QuestionCollection.deleteOne(
-        {_id: new ObjectId(questionId)},
+      const result = await this.QuestionCollection.updateOne(
+        {
+          _id: new ObjectId(questionId),
+          status: transition.from,
+          ...NOT_DELETED,
+        },
+        {
+          $set: {status: transition.to, updatedAt: transition.at},
+          $push: {statusHistory: transition},
+        },
         {session},
       );
 
-      return {deletedCount: result.deletedCount};
+      return result.modifiedCount > 0;
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while changing Question status:, More/ ${error}`,
+      );
+    }
+  }
+
+  async softDeleteQuestion(
+    questionId: string,
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid or missing questionId');
+      }
+
+      const result = await this.QuestionCollection.updateOne(
+        {_id: new ObjectId(questionId), ...NOT_DELETED},
+        {
+          $set: {
+            deletedAt: deletion.deletedAt,
+            ...(deletion.deletedBy && {
+              deletedBy: new ObjectId(deletion.deletedBy),
+            }),
+          },
+        },
+        {session},
+      );
+
+      return result.modifiedCount > 0;
     } catch (error) {
       throw new InternalServerError(
         `Error while deleting Question::, More/ ${error}`,
       );
     }
   }
+
+  async restoreQuestion(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid or missing questionId');
+      }
+
+      const result = await this.QuestionCollection.updateOne(
+        {_id: new ObjectId(questionId), deletedAt: {$exists: true}},
+        {...RESTORE_UPDATE, $set: {updatedAt: new Date()}},
+        {session},
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while restoring Question::, More/ ${error}`,
+      );
+    }
+  }
+
+  async getDeletedById(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<IQuestion | null> {
+    try {
+      await this.init();
+
+      if (!questionId || !isValidObjectId(questionId)) {
+        throw new BadRequestError('Invalid or missing questionId');
+      }
+
+      const question = await this.QuestionCollection.findOne(
+        {_id: new ObjectId(questionId), deletedAt: {$exists: true}},
+        {session},
+      );
+      if (!question) return null;
+
+      return {
+        ...question,
+        _id: question._id.toString(),
+        userId: question.userId?.toString(),
+        context: question.context?.toString(),
+      };
+    } catch (error) {
+      throw new InternalServerError(
+        `Failed to get deleted Question:, More/ ${error}`,
+      );
+    }
+  }
+
+  async getTrash(
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{questions: IQuestion[]; total: number}> {
+    try {
+      await this.init();
+
+      const query: Filter<IQuestion> = {
+        deletedAt: {$exists: true},
+        deletedWith: {$exists: false},
+      };
+      const [questions, total] = await Promise.all([
+        this.QuestionCollection.find(query, {session})
+          .sort({deletedAt: -1, _id: -1})
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .toArray(),
+        this.QuestionCollection.countDocuments(query, {session}),
+      ]);
+
+      return {
+        questions: questions.map(q => ({
+          ...q,
+          _id: q._id.toString(),
+          userId: q.userId?.toString(),
+          context: q.context?.toString(),
+        })),
+        total,
+      };
+    } catch (error) {
+      throw new InternalServerError(
+        `Failed to get deleted Questions:, More/ ${error}`,
+      );
+    }
+  }
+
+  async purgeDeleted(before: Date, session?: ClientSession): Promise<string[]> {
+    try {
+      await this.init();
+
+      const expired = await this.QuestionCollection.find(
+        {deletedAt: {$lt: before}},
+        {session, projection: {_id: 1}},
+      ).toArray();
+      if (expired.length === 0) return [];
+
+      await this.QuestionCollection.deleteMany(
+        {_id: {$in: expired.map(q => q._id)}},
+        {session},
+      );
+      return expired.map(q => q._id.toString());
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while purging Questions::, More/ ${error}`,
+      );
+    }
+  }
 }
@@ -1,22 +1,33 @@
-import { IReviewerAssignment, AssignmentStatus } from '#root/shared/interfaces/models.js';
-import { GLOBAL_TYPES } from '#root/types.js';
-import { inject } from 'inversify';
-import { ClientSession, Collection, ObjectId } from 'mongodb';
-import { MongoDatabase } from '../MongoDatabase.js';
-import { isValidObjectId } from '#root/utils/isValidObjectId.js';
-import { BadRequestError, InternalServerError } from 'routing-controllers';
-import { IReviewerAssignmentRepository } from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
-
-export class ReviewerAssignmentRepository implements IReviewerAssignmentRepository {
+import {
+  IReviewerAssignment,
+  AssignmentStatus,
+  ISoftDeletion,
+} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject} from 'inversify';
+import {ClientSession, Collection, ObjectId} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {NOT_DELETED, RESTORE_UPDATE} from '../softDelete.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {BadRequestError, InternalServerError} from 'routing-controllers';
+import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+
+export class ReviewerAssignmentRepository
+  implements IReviewerAssignmentRepository
+{
   private reviewerAssignmentsCollection: Collection<IReviewerAssignment>;
 
   constructor(
     @inject(GLOBAL_TYPES.Database)
     private db: MongoDatabase,
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
   ) {}
 
   private async init() {
-    this.reviewerAssignmentsCollection = await this.db.getCollection<IReviewerAssignment>('reviewerAssignments');
+    this.reviewerAssignmentsCollection =
+      await this.db.getCollection<IReviewerAssignment>('reviewerAssignments');
   }
 
   async createAssignment(
@@ -27,12 +38,14 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
       await this.init();
 
       // Convert ObjectId fields to strings for validation
-      const answerIdStr = assignment.answerId instanceof ObjectId
-        ? assignment.answerId.toString()
-        : assignment.answerId;
-      const reviewerIdStr = assignment.reviewerId instanceof ObjectId
-        ? assignment.reviewerId.toString()
-        : assignment.reviewerId;
+      const answerIdStr =
+        assignment.answerId instanceof ObjectId
+          ? assignment.answerId.toString()
+          : assignment.answerId;
+      const reviewerIdStr =
+        assignment.reviewerId instanceof ObjectId
+          ? assignment.reviewerId.toString()
+          : assignment.reviewerId;
 
       if (!answerIdStr || !isValidObjectId(answerIdStr)) {
         throw new BadRequestError('Invalid or missing answerId');
@@ -49,7 +62,9 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
         updatedAt: new Date(),
       };
 
-      const result = await this.reviewerAssignmentsCollection.insertOne(doc, { session });
+      const result = await this.reviewerAssignmentsCollection.insertOne(doc, {
+        session,
+      });
       if (!result.acknowledged) {
         throw new InternalServerError('Failed to create reviewer assignment');
       }
@@ -59,12 +74,15 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
         _id: result.insertedId,
       } as IReviewerAssignment;
     } catch (error) {
-      console.error('Error creating reviewer assignment:', error);
+      this.logger.error('Error creating reviewer assignment', error);
       throw error;
     }
   }
 
-  async getAssignmentById(assignmentId: string, session?: ClientSession): Promise<IReviewerAssignment | null> {
+  async getAssignmentById(
+    assignmentId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment | null> {
     try {
       await this.init();
 
@@ -73,16 +91,19 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
       }
 
       return await this.reviewerAssignmentsCollection.findOne(
-        { _id: new ObjectId(assignmentId) },
-        { session }
+        {_id: new ObjectId(assignmentId), ...NOT_DELETED},
+        {session},
       );
     } catch (error) {
-      console.error('Error getting assignment by ID:', error);
+      this.logger.error('Error getting assignment by ID', error);
       throw error;
     }
   }
 
-  async getAssignmentsForAnswer(answerId: string, session?: ClientSession): Promise<IReviewerAssignment[]> {
+  async getAssignmentsForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]> {
     try {
       await this.init();
 
@@ -91,18 +112,21 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
       }
 
       const assignments = await this.reviewerAssignmentsCollection
-        .find({ answerId: new ObjectId(answerId) }, { session })
-        .sort({ createdAt: 1 })
+        .find({answerId: new ObjectId(answerId), ...NOT_DELETED}, {session})
+        .sort({createdAt: 1})
         .toArray();
 
       return assignments;
     } catch (error) {
-      console.error('Error getting assignments for answer:', error);
+      this.logger.error('Error getting assignments for answer', error);
       throw error;
     }
   }
 
-  async getAssignmentsForReviewer(reviewerId: string, session?: ClientSession): Promise<IReviewerAssignment[]> {
+  async getAssignmentsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]> {
     try {
       await this.init();
 
@@ -111,18 +135,21 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
       }
 
       const assignments = await this.reviewerAssignmentsCollection
-        .find({ reviewerId: new ObjectId(reviewerId) }, { session })
-        .sort({ createdAt: -1 })
+        .find({reviewerId: new ObjectId(reviewerId), ...NOT_DELETED}, {session})
+        .sort({createdAt: -1})
         .toArray();
 
       return assignments;
     } catch (error) {
-      console.error('Error getting assignments for reviewer:', error);
+      this.logger.error('Error getting assignments for reviewer', error);
       throw error;
     }
   }
 
-  async getPendingAssignmentsForReviewer(reviewerId: string, session?: ClientSession): Promise<IReviewerAssignment[]> {
+  async getPendingAssignmentsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]> {
     try {
       await this.init();
 
@@ -131,16 +158,94 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
       }
 
       const assignments = await this.reviewerAssignmentsCollection
-        .find({
-          reviewerId: new ObjectId(reviewerId),
-          status: 'pending'
-        }, { session })
-        .sort({ assignedAt: 1 })
+        .find(
+          {
+            reviewerId: new ObjectId(reviewerId),
+            status: 'pending',
+            ...NOT_DELETED,
+          },
+          {session},
+        )
+        .sort({assignedAt: 1})
         .toArray();
 
       return assignments;
     } catch (error) {
-      console.error('Error getting pending assignments for reviewer:', error);
+      this.logger.error(
+        'Error getting pending assignments for reviewer',
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async getOverdueAssignments(
+    now: Date,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]> {
+    try {
+      await this.init();
+
+      return await this.reviewerAssignmentsCollection
+        .find(
+          {
+            status: {$in: ['pending', 'accepted']},
+            dueDate: {$lt: now},
+            ...NOT_DELETED,
+          },
+          {session},
+        )
+        .sort({dueDate: 1})
+        .toArray();
+    } catch (error) {
+      this.logger.error('Error getting overdue assignments', error);
+      throw error;
+    }
+  }
+
+  async getAssignmentsDueSoon(
+    from: Date,
+    until: Date,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]> {
+    try {
+      await this.init();
+
+      return await this.reviewerAssignmentsCollection
+        .find(
+          {
+            status: {$in: ['pending', 'accepted']},
+            dueDate: {$gte: from, $lt: until},
+            reminderSentAt: {$exists: false},
+            ...NOT_DELETED,
+          },
+          {session},
+        )
+        .sort({dueDate: 1})
+        .toArray();
+    } catch (error) {
+      this.logger.error('Error getting assignments due soon', error);
+      throw error;
+    }
+  }
+
+  async countOverdueAssignments(
+    now: Date,
+    session?: ClientSession,
+  ): Promise<number> {
+    try {
+      await this.init();
+
+      return await this.reviewerAssignmentsCollection.countDocuments(
+        {
+          status: {$in: ['pending', 'accepted']},
+          dueDate: {$lt: now},
+          ...NOT_DELETED,
+        },
+        {session},
+      );
+    } catch (error) {
+      this.logger.error('Error counting overdue assignments', error);
       throw error;
     }
   }
@@ -149,7 +254,7 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
     assignmentId: string,
     updates: Partial<IReviewerAssignment>,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }> {
+  ): Promise<{modifiedCount: number}> {
     try {
       await this.init();
 
@@ -164,31 +269,33 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
 
       // Convert ObjectId fields if they are being updated
       if (updates.answerId) {
-        const answerIdStr = updates.answerId instanceof ObjectId
-          ? updates.answerId.toString()
-          : updates.answerId;
+        const answerIdStr =
+          updates.answerId instanceof ObjectId
+            ? updates.answerId.toString()
+            : updates.answerId;
         if (typeof answerIdStr === 'string') {
           updateDoc.answerId = new ObjectId(answerIdStr);
         }
       }
       if (updates.reviewerId) {
-        const reviewerIdStr = updates.reviewerId instanceof ObjectId
-          ? updates.reviewerId.toString()
-          : updates.reviewerId;
+        const reviewerIdStr =
+          updates.reviewerId instanceof ObjectId
+            ? updates.reviewerId.toString()
+            : updates.reviewerId;
         if (typeof reviewerIdStr === 'string') {
           updateDoc.reviewerId = new ObjectId(reviewerIdStr);
         }
       }
 
       const result = await this.reviewerAssignmentsCollection.updateOne(
-        { _id: new ObjectId(assignmentId) },
-        { $set: updateDoc },
-        { session }
+        {_id: new ObjectId(assignmentId)},
+        {$set: updateDoc},
+        {session},
       );
 
-      return { modifiedCount: result.modifiedCount };
+      return {modifiedCount: result.modifiedCount};
     } catch (error) {
-      console.error('Error updating assignment:', error);
+      this.logger.error('Error updating assignment', error);
       throw error;
     }
   }
@@ -197,11 +304,18 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
     assignmentId: string,
     status: AssignmentStatus,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }> {
-    return this.updateAssignment(assignmentId, { status, updatedAt: new Date() }, session);
+  ): Promise<{modifiedCount: number}> {
+    return this.updateAssignment(
+      assignmentId,
+      {status, updatedAt: new Date()},
+      session,
+    );
   }
 
-  async deleteAssignment(assignmentId: string, session?: ClientSession): Promise<{ deletedCount: number }> {
+  async deleteAssignment(
+    assignmentId: string,
+    session?: ClientSession,
+  ): Promise<{deletedCount: number}> {
     try {
       await this.init();
 
@@ -210,13 +324,13 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
       }
 
       const result = await this.reviewerAssignmentsCollection.deleteOne(
-        { _id: new ObjectId(assignmentId) },
-        { session }
+        {_id: new ObjectId(assignmentId)},
+        {session},
       );
 
-      return { deletedCount: result.deletedCount };
+      return {deletedCount: result.deletedCount};
     } catch (error) {
-      console.error('Error deleting assignment:', error);
+      this.logger.error('Error deleting assignment', error);
       throw error;
     }
   }
@@ -238,19 +352,26 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
         throw new BadRequestError('Invalid reviewerId');
       }
 
-      const assignments = await this.getAssignmentsForReviewer(reviewerId, session);
+      const assignments = await this.getAssignmentsForReviewer(
+        reviewerId,
+        session,
+      );
 
       const stats = {
         totalAssignments: assignments.length,
-        pendingAssignments: assignments.filter(a => a.status === 'pending').length,
-        acceptedAssignments: assignments.filter(a => a.status === 'accepted').length,
-        completedAssignments: assignments.filter(a => a.status === 'completed').length,
-        declinedAssignments: assignments.filter(a => a.status === 'declined').length,
+        pendingAssignments: assignments.filter(a => a.status === 'pending')
+          .length,
+        acceptedAssignments: assignments.filter(a => a.status === 'accepted')
+          .length,
+        completedAssignments: assignments.filter(a => a.status === 'completed')
+          .length,
+        declinedAssignments: assignments.filter(a => a.status === 'declined')
+          .length,
       };
 
       return stats;
     } catch (error) {
-      console.error('Error getting assignment stats for reviewer:', error);
+      this.logger.error('Error getting assignment stats for reviewer', error);
       throw error;
     }
   }
@@ -259,7 +380,7 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
     assignmentId: string,
     newReviewerId: string,
     session?: ClientSession,
-  ): Promise<{ modifiedCount: number }> {
+  ): Promise<{modifiedCount: number}> {
     try {
       await this.init();
 
@@ -279,14 +400,107 @@ export class ReviewerAssignmentRepository implements IReviewerAssignmentReposito
       };
 
       const result = await this.reviewerAssignmentsCollection.updateOne(
-        { _id: new ObjectId(assignmentId) },
-        { $set: updateDoc },
-        { session }
+        {_id: new ObjectId(assignmentId)},
+        {$set: updateDoc},
+        {session},
+      );
+
+      return {modifiedCount: result.modifiedCount};
+    } catch (error) {
+      this.logger.error('Error reassigning assignment', error);
+      throw error;
+    }
+  }
+
+  async softDeleteForAnswers(
+    answerIds: string[],
+    deletion: ISoftDeletion,
+    session?: ClientSession,
+  ): Promise<string[]> {
+    try {
+      await this.init();
+
+      if (answerIds.some(id => !isValidObjectId(id))) {
+        throw new BadRequestError('Invalid answerId');
+      }
+      if (answerIds.length === 0) return [];
+
+      const assignments = await this.reviewerAssignmentsCollection
+        .find(
+          {
+            answerId: {$in: answerIds.map(id => new ObjectId(id))},
+            ...NOT_DELETED,
+          },
+          {session, projection: {_id: 1}},
+        )
+        .toArray();
+      if (assignments.length === 0) return [];
+
+      await this.reviewerAssignmentsCollection.updateMany(
+        {_id: {$in: assignments.map(assignment => assignment._id)}},
+        {
+          $set: {
+            deletedAt: deletion.deletedAt,
+            ...(deletion.deletedBy && {
+              deletedBy: new ObjectId(deletion.deletedBy),
+            }),
+            ...(deletion.deletedWith && {
+              deletedWith: new ObjectId(deletion.deletedWith),
+            }),
+          },
+        },
+        {session},
+      );
+      return assignments.map(assignment => assignment._id.toString());
+    } catch (error) {
+      this.logger.error('Error deleting assignments', error);
+      throw error;
+    }
+  }
+
+  async restoreDeletedWith(
+    deletedWith: string,
+    session?: ClientSession,
+  ): Promise<string[]> {
+    try {
+      await this.init();
+
+      const assignments = await this.reviewerAssignmentsCollection
+        .find(
+          {deletedWith: new ObjectId(deletedWith)},
+          {session, projection: {_id: 1}},
+        )
+        .toArray();
+      if (assignments.length === 0) return [];
+
+      await this.reviewerAssignmentsCollection.updateMany(
+        {_id: {$in: assignments.map(assignment => assignment._id)}},
+        {...RESTORE_UPDATE, $set: {updatedAt: new Date()}},
+        {session},
       );
+      return assignments.map(assignment => assignment._id.toString());
+    } catch (error) {
+      this.logger.error('Error restoring assignments', error);
+      throw error;
+    }
+  }
+
+  async purgeDeleted(before: Date, session?: ClientSession): Promise<string[]> {
+    try {
+      await this.init();
 
-      return { modifiedCount: result.modifiedCount };
+      const expired = await this.reviewerAssignmentsCollection
+        .find({deletedAt: {$lt: before}}, {session, projection: {_id: 1}})
+        .toArray();
+      if (expired.length === 0) return [];
+
+      await this.reviewerAssignmentsCollection.deleteMany(
+        {_id: {$in: expired.map(assignment => assignment._id)}},
+        {session},
+      );
+      return expired.map(assignment => assignment._id.toString());
     } catch (error) {
-      console.error('Error reassigning assignment:', error);
+      this.logger.error('Error purging assignments', error);
       throw error;
     }
   }
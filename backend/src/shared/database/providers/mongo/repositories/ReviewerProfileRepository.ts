@@ -0,0 +1,301 @@
+import {IReviewerProfile} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession, Collection, ObjectId} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {BadRequestError, InternalServerError} from 'routing-controllers';
+import {IReviewerProfileRepository} from '#root/shared/database/interfaces/IReviewerProfileRepository.js';
+
+// Defaults applied when a profile is created for a new expert
+const DEFAULT_MAX_CONCURRENT_REVIEWS = 5;
+
+@injectable()
+export class ReviewerProfileRepository implements IReviewerProfileRepository {
+  private reviewerProfilesCollection: Collection<IReviewerProfile>;
+
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private db: MongoDatabase,
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  private async init() {
+    this.reviewerProfilesCollection =
+      await this.db.getCollection<IReviewerProfile>('reviewer_profiles');
+  }
+
+  private newProfileDefaults(): Omit<IReviewerProfile, '_id' | 'userId'> {
+    return {
+      expertise: [],
+      reviewCount: 0,
+      averageRating: 0,
+      isActive: true,
+      maxConcurrentReviews: DEFAULT_MAX_CONCURRENT_REVIEWS,
+      currentReviewLoad: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  async createProfile(
+    userId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerProfile> {
+    try {
+      await this.init();
+
+      if (!userId || !isValidObjectId(userId)) {
+        throw new BadRequestError('Invalid or missing userId');
+      }
+
+      const profile = await this.reviewerProfilesCollection.findOneAndUpdate(
+        {userId: new ObjectId(userId)},
+        {
+          $setOnInsert: {
+            userId: new ObjectId(userId),
+            ...this.newProfileDefaults(),
+          },
+        },
+        {upsert: true, returnDocument: 'after', session},
+      );
+
+      if (!profile) {
+        throw new InternalServerError('Failed to create reviewer profile');
+      }
+
+      return profile;
+    } catch (error) {
+      this.logger.error('Error creating reviewer profile', error);
+      throw error;
+    }
+  }
+
+  async createMissingProfiles(
+    userIds: string[],
+    session?: ClientSession,
+  ): Promise<{insertedCount: number}> {
+    try {
+      await this.init();
+
+      const validIds = userIds.filter(id => isValidObjectId(id));
+      if (validIds.length === 0) {
+        return {insertedCount: 0};
+      }
+
+      const result = await this.reviewerProfilesCollection.bulkWrite(
+        validIds.map(id => ({
+          updateOne: {
+            filter: {userId: new ObjectId(id)},
+            update: {
+              $setOnInsert: {
+                userId: new ObjectId(id),
+                ...this.newProfileDefaults(),
+              },
+            },
+            upsert: true,
+          },
+        })),
+        {session, ordered: false},
+      );
+
+      return {insertedCount: result.upsertedCount};
+    } catch (error) {
+      this.logger.error('Error creating missing reviewer profiles', error);
+      throw error;
+    }
+  }
+
+  async getByUserId(
+    userId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerProfile | null> {
+    try {
+      await this.init();
+
+      if (!userId || !isValidObjectId(userId)) {
+        throw new BadRequestError('Invalid userId');
+      }
+
+      return await this.reviewerProfilesCollection.findOne(
+        {userId: new ObjectId(userId)},
+        {session},
+      );
+    } catch (error) {
+      this.logger.error('Error getting reviewer profile by user ID', error);
+      throw error;
+    }
+  }
+
+  async getAllProfiles(session?: ClientSession): Promise<IReviewerProfile[]> {
+    try {
+      await this.init();
+
+      return await this.reviewerProfilesCollection
+        .find({}, {session})
+        .sort({createdAt: 1})
+        .toArray();
+    } catch (error) {
+      this.logger.error('Error getting reviewer profiles', error);
+      throw error;
+    }
+  }
+
+  async getAvailableProfiles(
+    excludeUserIds: string[] = [],
+    session?: ClientSession,
+  ): Promise<IReviewerProfile[]> {
+    try {
+      await this.init();
+
+      const excluded = excludeUserIds
+        .filter(id => isValidObjectId(id))
+        .map(id => new ObjectId(id));
+
+      return await this.reviewerProfilesCollection
+        .find(
+          {
+            isActive: true,
+            userId: {$nin: excluded},
+            $expr: {$lt: ['$currentReviewLoad', '$maxConcurrentReviews']},
+          },
+          {session},
+        )
+        .toArray();
+    } catch (error) {
+      this.logger.error('Error getting available reviewer profiles', error);
+      throw error;
+    }
+  }
+
+  async incrementLoad(
+    userId: string,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    try {
+      await this.init();
+
+      if (!userId || !isValidObjectId(userId)) {
+        throw new BadRequestError('Invalid userId');
+      }
+
+      // The capacity check is part of the filter so that two concurrent
+      // assignments can never push a reviewer above its maximum load.
+      const result = await this.reviewerProfilesCollection.updateOne(
+        {
+          userId: new ObjectId(userId),
+          isActive: true,
+          $expr: {$lt: ['$currentReviewLoad', '$maxConcurrentReviews']},
+        },
+        {$inc: {currentReviewLoad: 1}, $set: {updatedAt: new Date()}},
+        {session},
+      );
+
+      return result.modifiedCount === 1;
+    } catch (error) {
+      this.logger.error('Error incrementing reviewer load', error);
+      throw error;
+    }
+  }
+
+  async decrementLoad(
+    userId: string,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}> {
+    try {
+      await this.init();
+
+      if (!userId || !isValidObjectId(userId)) {
+        throw new BadRequestError('Invalid userId');
+      }
+
+      const result = await this.reviewerProfilesCollection.updateOne(
+        {userId: new ObjectId(userId), currentReviewLoad: {$gt: 0}},
+        {$inc: {currentReviewLoad: -1}, $set: {updatedAt: new Date()}},
+        {session},
+      );
+
+      return {modifiedCount: result.modifiedCount};
+    } catch (error) {
+      this.logger.error('Error decrementing reviewer load', error);
+      throw error;
+    }
+  }
+
+  async recordReview(
+    userId: string,
+    score: number,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}> {
+    try {
+      await this.init();
+
+      if (!userId || !isValidObjectId(userId)) {
+        throw new BadRequestError('Invalid userId');
+      }
+
+      if (score < 1 || score > 5) {
+        throw new BadRequestError('Score must be between 1 and 5');
+      }
+
+      // averageRating is the running mean of all scores submitted by the reviewer
+      const result = await this.reviewerProfilesCollection.updateOne(
+        {userId: new ObjectId(userId)},
+        [
+          {
+            $set: {
+              averageRating: {
+                $divide: [
+                  {
+                    $add: [
+                      {$multiply: ['$averageRating', '$reviewCount']},
+                      score,
+                    ],
+                  },
+                  {$add: ['$reviewCount', 1]},
+                ],
+              },
+              reviewCount: {$add: ['$reviewCount', 1]},
+              updatedAt: new Date(),
+            },
+          },
+        ],
+        {session},
+      );
+
+      return {modifiedCount: result.modifiedCount};
+    } catch (error) {
+      this.logger.error('Error recording review on reviewer profile', error);
+      throw error;
+    }
+  }
+
+  async updateProfile(
+    userId: string,
+    updates: Partial<
+      Pick<IReviewerProfile, 'expertise' | 'isActive' | 'maxConcurrentReviews'>
+    >,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}> {
+    try {
+      await this.init();
+
+      if (!userId || !isValidObjectId(userId)) {
+        throw new BadRequestError('Invalid userId');
+      }
+
+      const result = await this.reviewerProfilesCollection.updateOne(
+        {userId: new ObjectId(userId)},
+        {$set: {...updates, updatedAt: new Date()}},
+        {session},
+      );
+
+      return {modifiedCount: result.modifiedCount};
+    } catch (error) {
+      this.logger.error('Error updating reviewer profile', error);
+      throw error;
+    }
+  }
+}
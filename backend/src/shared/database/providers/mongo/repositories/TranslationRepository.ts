@@ -0,0 +1,125 @@
+import {ITranslation} from '#root/shared/interfaces/models.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {
+  AnyBulkWriteOperation,
+  ClientSession,
+  Collection,
+  ObjectId,
+} from 'mongodb';
+import {MongoDatabase} from '../MongoDatabase.js';
+import {isValidObjectId} from '#root/utils/isValidObjectId.js';
+import {BadRequestError, InternalServerError} from 'routing-controllers';
+import {ITranslationRepository} from '#root/shared/database/interfaces/ITranslationRepository.js';
+
+@injectable()
+export class TranslationRepository implements ITranslationRepository {
+  private translationsCollection: Collection<ITranslation>;
+
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private db: MongoDatabase,
+  ) {}
+
+  private async init() {
+    this.translationsCollection =
+      await this.db.getCollection<ITranslation>('translations');
+  }
+
+  async getTranslations(
+    sources: Pick<ITranslation, 'sourceType' | 'sourceId' | 'sourceHash'>[],
+    language: string,
+    session?: ClientSession,
+  ): Promise<ITranslation[]> {
+    try {
+      await this.init();
+
+      if (
+        sources.some(source => !isValidObjectId(source.sourceId.toString()))
+      ) {
+        throw new BadRequestError('Invalid sourceId');
+      }
+      if (sources.length === 0) return [];
+
+      return await this.translationsCollection
+        .find(
+          {
+            language,
+            $or: sources.map(({sourceType, sourceId, sourceHash}) => ({
+              sourceType,
+              sourceId: new ObjectId(sourceId),
+              sourceHash,
+            })),
+          },
+          {session},
+        )
+        .toArray();
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while fetching translations, More/ ${error}`,
+      );
+    }
+  }
+
+  async saveTranslations(
+    translations: ITranslation[],
+    session?: ClientSession,
+  ): Promise<void> {
+    try {
+      await this.init();
+
+      if (translations.length === 0) return;
+
+      const operations: AnyBulkWriteOperation<ITranslation>[] =
+        translations.map(translation => {
+          const filter = {
+            sourceType: translation.sourceType,
+            sourceId: new ObjectId(translation.sourceId),
+            sourceHash: translation.sourceHash,
+            language: translation.language,
+          };
+          return {
+            updateOne: {
+              filter,
+              update: {
+                $set: {
+                  ...filter,
+                  text: translation.text,
+                  translator: translation.translator,
+                },
+                $setOnInsert: {createdAt: new Date()},
+              },
+              upsert: true,
+            },
+          };
+        });
+
+      await this.translationsCollection.bulkWrite(operations, {session});
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while saving translations, More/ ${error}`,
+      );
+    }
+  }
+
+  async deleteForSources(
+    sourceType: ITranslation['sourceType'],
+    sourceIds: string[],
+    session?: ClientSession,
+  ): Promise<number> {
+    try {
+      await this.init();
+
+      if (sourceIds.length === 0) return 0;
+      const result = await this.translationsCollection.deleteMany(
+        {sourceType, sourceId: {$in: sourceIds.map(id => new ObjectId(id))}},
+        {session},
+      );
+      return result.deletedCount;
+    } catch (error) {
+      throw new InternalServerError(
+        `Error while deleting translations, More/ ${error}`,
+      );
+    }
+  }
+}
@@ -1,12 +1,23 @@
-import {IUserRepository} from '#shared/database/interfaces/IUserRepository.js';
-import {IUser} from '#shared/interfaces/models.js';
+import {
+  IUserRepository,
+  UserSearchFilter,
+} from '#shared/database/interfaces/IUserRepository.js';
+import {IUser, UserRole} from '#shared/interfaces/models.js';
 import {instanceToPlain} from 'class-transformer';
 import {injectable, inject} from 'inversify';
-import {Collection, MongoClient, ClientSession, ObjectId} from 'mongodb';
+import {
+  Collection,
+  Filter,
+  MongoClient,
+  ClientSession,
+  ObjectId,
+  UpdateFilter,
+} from 'mongodb';
 import {MongoDatabase} from '../MongoDatabase.js';
 import {InternalServerError} from 'routing-controllers';
 import {GLOBAL_TYPES} from '#root/types.js';
 import {User} from '#auth/classes/transformers/User.js';
+import {escapeRegExp} from '#root/utils/escapeRegExp.js';
 
 @injectable()
 export class UserRepository implements IUserRepository {
@@ -102,7 +113,7 @@ export class UserRepository implements IUserRepository {
     await this.init();
     await this.usersCollection.updateOne(
       {_id: new ObjectId(userId)},
-      {$set: {roles: 'admin'}},
+      {$set: {role: 'admin', updatedAt: new Date()}},
       {session},
     );
   }
@@ -147,4 +158,92 @@ export class UserRepository implements IUserRepository {
       _id: user._id.toString(),
     }));
   }
+
+  /**
+   * Finds all active users with the given role.
+   */
+  async findByRole(role: UserRole, session?: ClientSession): Promise<IUser[]> {
+    await this.init();
+    const users = await this.usersCollection
+      .find({role, isActive: {$ne: false}}, {session})
+      .toArray();
+    return users.map(user => ({
+      ...user,
+      _id: user._id.toString(),
+    }));
+  }
+
+  /**
+   * Lists users matching the filter, newest first, without password fields.
+   */
+  async searchUsers(
+    filter: UserSearchFilter,
+    page: number,
+    limit: number,
+    session?: ClientSession,
+  ): Promise<{users: IUser[]; total: number}> {
+    await this.init();
+
+    const query: Filter<IUser> = {};
+    if (filter.role) query.role = filter.role;
+    if (filter.isActive !== undefined) {
+      query.isActive = filter.isActive ? {$ne: false} : false;
+    }
+    if (filter.search?.trim()) {
+      const pattern = new RegExp(escapeRegExp(filter.search.trim()), 'i');
+      query.$or = [{firstName: pattern}, {lastName: pattern}, {email: pattern}];
+    }
+
+    const [users, total] = await Promise.all([
+      this.usersCollection
+        .find(query, {session, projection: {password: 0}})
+        .sort({createdAt: -1, _id: -1})
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray(),
+      this.usersCollection.countDocuments(query, {session}),
+    ]);
+
+    return {
+      users: users.map(user => ({...user, _id: user._id.toString()})),
+      total,
+    };
+  }
+
+  /**
+   * Changes the role of a user.
+   */
+  async updateRole(
+    userId: string,
+    role: UserRole,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}> {
+    await this.init();
+    const result = await this.usersCollection.updateOne(
+      {_id: new ObjectId(userId)},
+      {$set: {role, updatedAt: new Date()}},
+      {session},
+    );
+    return {modifiedCount: result.modifiedCount};
+  }
+
+  /**
+   * Activates or deactivates a user account.
+   */
+  async setActive(
+    userId: string,
+    isActive: boolean,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}> {
+    await this.init();
+    const update: UpdateFilter<IUser> = isActive
+      ? {$set: {isActive, updatedAt: new Date()}, $unset: {deactivatedAt: true}}
+      : {$set: {isActive, deactivatedAt: new Date(), updatedAt: new Date()}};
+    const result = await this.usersCollection.updateOne(
+      {_id: new ObjectId(userId)},
+      update,
+      {session},
+    );
+    return {modifiedCount: result.modifiedCount};
+  }
 }
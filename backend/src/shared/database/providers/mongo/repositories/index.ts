@@ -1,6 +1,14 @@
 export * from './AnswerRepository.js';
+export * from './AnswerRevisionRepository.js';
+export * from './AnswerSimilarityRepository.js';
+export * from './AuditLogRepository.js';
+export * from './BlindReviewRepository.js';
 export * from './ContextRepository.js';
+export * from './JobRepository.js';
+export * from './NotificationRepository.js';
 export * from './PeerReviewRepository.js';
 export * from './QuestionRepository.js';
 export * from './ReviewerAssignmentRepository.js';
+export * from './ReviewerProfileRepository.js';
+export * from './TranslationRepository.js';
 export * from './UserRepository.js';
\ No newline at end of file
@@ -0,0 +1,7 @@
+// Matches documents that are not in the trash; every read of a collection with soft deletion includes it
+export const NOT_DELETED = {deletedAt: {$exists: false}} as const;
+
+// Clears the trash fields when a document is restored
+export const RESTORE_UPDATE = {
+  $unset: {deletedAt: '', deletedBy: '', deletedWith: ''},
+} as const;
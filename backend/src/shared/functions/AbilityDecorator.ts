@@ -1,54 +1,62 @@
-import {getFromContainer, createParamDecorator} from 'routing-controllers';
+import {
+  getFromContainer,
+  createParamDecorator,
+  UnauthorizedError,
+} from 'routing-controllers';
 import {FirebaseAuthService} from '#root/modules/auth/services/FirebaseAuthService.js';
-import {MongoAbility} from '@casl/ability';
+import {AnyMongoAbility} from '@casl/ability';
+import {IUser, UserRole} from '../interfaces/models.js';
 
 export interface AuthenticatedUser {
   userId: string;
-  globalRole: 'admin' | 'user';
+  globalRole: UserRole;
+}
+
+/**
+ * Value injected by the Ability decorator: the built ability and the user it was built for.
+ */
+export interface AbilityContext<A extends AnyMongoAbility> {
+  ability: A;
+  user: IUser;
 }
 
 /**
  * Parameter decorator that builds and injects user abilities into the controller method
- * Usage: methodName(@Ability(getCourseAbility) ability: MongoAbility<any>)
+ * Usage: methodName(@Ability(getCoreAbility) {ability, user}: AbilityContext<CoreAbility>)
  */
-export function Ability(
-  abilityBuilder: (
-    user: AuthenticatedUser,
-  ) => MongoAbility<any> | Promise<MongoAbility<any>>,
+export function Ability<A extends AnyMongoAbility>(
+  abilityBuilder: (user: AuthenticatedUser) => A | Promise<A>,
 ) {
   return createParamDecorator({
-    value: async action => {
-      // Get current user
-      const authService = getFromContainer(FirebaseAuthService);
-      const token = action.request.headers['authorization']?.split(' ')[1];
+    required: true,
+    value: async (action): Promise<AbilityContext<A>> => {
+      // The authorizationChecker has already resolved the user for @Authorized() routes
+      let user: IUser | undefined = action.request.user;
 
-      if (!token) {
-        throw new Error('No authorization token provided');
+      if (!user) {
+        const token = action.request.headers['authorization']?.split(' ')[1];
+        if (!token) {
+          throw new UnauthorizedError('No authorization token provided');
+        }
+
+        const authService = getFromContainer(FirebaseAuthService);
+        user = await authService.getCurrentUserFromToken(token);
       }
 
-      // const user = await authService.getCurrentUserFromToken(token);
-      const user = null;
       if (!user) {
-        throw new Error('User not found');
+        throw new UnauthorizedError('User not found');
+      }
+      if (user.isActive === false) {
+        throw new UnauthorizedError('User account is deactivated');
       }
 
-      // Get user's enrollments
-      // const enrollmentService = getFromContainer(EnrollmentService);
-      // const enrollments = await enrollmentService.getAllEnrollments(user._id.toString());
-
-      // Create authenticated user object
       const authenticatedUser: AuthenticatedUser = {
-        userId: user._id.toString(),
-        globalRole: user.roles,
-        // enrollments: enrollments.map(enrollment => ({
-        //     courseId: enrollment.courseId.toString(),
-        //     versionId: enrollment.courseVersionId.toString(),
-        //     role: enrollment.role,
-        // })),
+        userId: user._id!.toString(),
+        globalRole: user.role,
       };
 
       // Build and return the ability using the provided builder function
-      return {ability: await abilityBuilder(authenticatedUser), user: user};
+      return {ability: await abilityBuilder(authenticatedUser), user};
     },
   });
 }
@@ -1,38 +1,45 @@
-import { FirebaseAuthService } from "#root/modules/auth/services/FirebaseAuthService.js";
-import { getFromContainer } from "routing-controllers";
+import {FirebaseAuthService} from '#root/modules/auth/services/FirebaseAuthService.js';
+import {getRequestContext, logger} from '#root/shared/logging/index.js';
+import {getFromContainer} from 'routing-controllers';
 
 export async function authorizationChecker(action): Promise<boolean> {
-    console.log('Authorization check started...');
-    const firebaseAuthService = getFromContainer(FirebaseAuthService);
-    const token = action.request.headers.authorization?.split(' ')[1];
-    console.log('Token present:', !!token);
+  const firebaseAuthService = getFromContainer(FirebaseAuthService);
+  const token = action.request.headers.authorization?.split(' ')[1];
 
-    if (!token) {
-        console.log('No token provided');
-        return false; // No token provided
-    }
-    try {
-        console.log('Validating token...');
-        // Properly validate the token
-        const isValid = await firebaseAuthService.verifyToken(token);
-        console.log('Token valid:', isValid);
-
-        if (!isValid) {
-            console.log('Token validation failed');
-            return false;
-        }
+  if (!token) {
+    logger.debug('Authorization failed: no token provided');
+    return false; // No token provided
+  }
+  try {
+    // Properly validate the token
+    const isValid = await firebaseAuthService.verifyToken(token);
 
-        console.log('Getting user from token...');
-        // Get the user and set it on the request for later use
-        const user = await firebaseAuthService.getCurrentUserFromToken(token);
-        console.log('User retrieved:', !!user, user?.email);
-        action.request.user = user;
+    if (!isValid) {
+      logger.debug('Authorization failed: invalid token');
+      return false;
+    }
 
-        console.log('Authorization successful');
-        return true; // Authorization successful
+    // Get the user and set it on the request for later use
+    const user = await firebaseAuthService.getCurrentUserFromToken(token);
+    if (user?.isActive === false) {
+      logger.info('Authorization failed: user account is deactivated', {
+        userId: user._id?.toString(),
+      });
+      return false;
     }
-    catch (error) {
-        console.log('Authorization error:', error.message);
-        return false; // Invalid token or user not found
+    action.request.user = user;
+
+    // Later log lines and audit entries of this request are attributed to the user
+    const context = getRequestContext();
+    if (context && user?._id) {
+      context.userId = user._id.toString();
+      context.userRole = user.role;
     }
-}
\ No newline at end of file
+
+    logger.debug('Authorization successful');
+    return true; // Authorization successful
+  } catch (error) {
+    logger.debug('Authorization failed', error);
+    return false; // Invalid token or user not found
+  }
+}
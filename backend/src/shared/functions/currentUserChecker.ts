@@ -22,6 +22,9 @@ export const currentUserChecker: CurrentUserChecker = async (
     if (!user) {
       throw new UnauthorizedError('Invalid token or user not found');
     }
+    if (user.isActive === false) {
+      throw new UnauthorizedError('User account is deactivated');
+    }
 
     return user;
   } catch (err) {
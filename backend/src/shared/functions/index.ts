@@ -1 +1,2 @@
 export * from './authorizationChecker.js';
+export * from './AbilityDecorator.js';
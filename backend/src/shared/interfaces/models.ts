@@ -1,7 +1,16 @@
 import {ObjectId} from 'mongodb';
 
 export type UserRole = 'admin' | 'user' | 'expert';
-export type QuestionStatus = 'open' | 'answered' | 'closed';
+// draft: not yet published; open: waiting for answers; under_review: answered and being peer reviewed,
+// still open to more answers; answered/closed: a final answer was chosen (closed also ends the question
+// without one); rejected: not a question experts should answer
+export type QuestionStatus =
+  | 'draft'
+  | 'open'
+  | 'under_review'
+  | 'answered'
+  | 'closed'
+  | 'rejected';
 
 export interface IUser {
   _id?: string | ObjectId;
@@ -10,15 +19,52 @@ export interface IUser {
   firstName: string;
   lastName?: string;
   role: UserRole;
+  isActive?: boolean; // Missing means active; deactivated users can no longer sign in
+  deactivatedAt?: Date;
+  notificationPreferences?: INotificationPreferences;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export interface IQuestion {
+// Events users are notified about
+export type NotificationType =
+  | 'review_assigned'
+  | 'review_deadline_approaching'
+  | 'review_deadline_passed'
+  | 'answer_feedback'
+  | 'question_finalized';
+
+// Opt-outs per channel and event; a missing entry means the notification is sent
+export interface INotificationPreferences {
+  email?: Partial<Record<NotificationType, boolean>>;
+}
+
+// Entry in a user's in-app notification centre; there is one per user and event
+export interface INotification {
+  _id?: string | ObjectId;
+  userId: string | ObjectId;
+  type: NotificationType;
+  entityId: string | ObjectId; // The assignment, review or answer the event is about
+  title: string;
+  message: string;
+  readAt?: Date;
+  createdAt?: Date;
+}
+
+// Set when a question, answer, context, review or assignment is moved to the trash. Trashed documents are
+// hidden from every read until an admin restores them, and purged once the retention period has passed
+export interface ISoftDeletion {
+  deletedAt: Date;
+  deletedBy?: string | ObjectId; // Absent when the system deleted the document
+  deletedWith?: string | ObjectId; // Question or answer whose deletion cascaded to this document; restored with it
+}
+
+export interface IQuestion extends Partial<ISoftDeletion> {
   _id?: string | ObjectId;
   userId?: ObjectId | string;
   question: string;
-  context: ObjectId | string;
+  language?: string; // Detected language of `question` (BCP 47); the text is canonical, translations are derived
+  context?: ObjectId | string; // Transcript the question came from; imported questions may have none
   status: QuestionStatus;
   totalAnwersCount: number;
   createdAt?: Date;
@@ -26,24 +72,90 @@ export interface IQuestion {
   similarity_score?: number;
   reviewCyclecount?: number;
   finalReviewerID?: ObjectId | string;
+  finalAnswerText?: string; // Copy of the elected answer so search can match it
+  source?: IQuestionSource;
+  tags?: IQuestionTags;
+  duplicateOf?: string | ObjectId; // Canonical question this one repeats
+  duplicateScore?: number; // Similarity (0-1) to the canonical question when it was linked
+  mergedAt?: Date; // Set once an admin merged this duplicate into its canonical question
+  statusHistory?: IQuestionTransition[]; // Oldest first; questions start out open without an entry
+}
+
+// A change of a question's status, recorded with the question
+export interface IQuestionTransition {
+  from: QuestionStatus;
+  to: QuestionStatus;
+  actorId?: string | ObjectId; // Absent when the system made the change
+  actorRole: UserRole | 'system';
+  reason?: string;
+  at: Date;
+}
+
+// Tags used to route a question to experts; generated from the transcript unless an admin edited them
+export interface IQuestionTags {
+  topics: string[]; // e.g. 'pest-management'
+  crops: string[]; // e.g. 'wheat'
+  regions: string[]; // e.g. 'punjab'
+  editedBy?: string | ObjectId; // Admin who last edited the tags
+}
+
+// Provenance of a generated question
+export interface IQuestionSource {
+  generator: string; // e.g. 'ai-server', 'stub'
+  promptVersion: string;
 }
 
-export interface IAnswer {
+export interface IAnswer extends Partial<ISoftDeletion> {
   _id?: string | ObjectId;
   questionId: string | ObjectId;
   authorId: string | ObjectId;
   answerIteration: number;
   isFinalAnswer: boolean;
+  isFrozen?: boolean; // Set once another answer has been elected final
   answer: string;
+  language?: string; // Detected language of `answer` (BCP 47)
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// Immutable snapshot of an answer's text; one per iteration
+export interface IAnswerRevision {
+  _id?: string | ObjectId;
+  answerId: string | ObjectId;
+  questionId: string | ObjectId;
+  authorId: string | ObjectId; // User who wrote this revision
+  iteration: number; // Matches IAnswer.answerIteration at the time of the revision
+  answer: string;
+  reviewId?: string | ObjectId; // Review whose feedback prompted the revision
+  createdAt: Date;
+}
+
 // For transcripts
-export interface IContext {
+export interface IContext extends Partial<ISoftDeletion> {
   _id?: string | ObjectId;
-  text: string;
+  text: string; // Empty until an uploaded recording has been transcribed
+  language?: string; // BCP 47 tag of the transcript, e.g. 'hi-IN'
+  audio?: IContextAudio;
+  transcription?: IContextTranscription;
   createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Original recording of an audio context, kept for audit
+export interface IContextAudio {
+  storage: 'local' | 'gcs';
+  key: string; // Path of the file within the storage backend
+  mimeType: string;
+  size: number;
+  originalName?: string;
+  uploadedBy: string | ObjectId;
+}
+
+export interface IContextTranscription {
+  status: 'pending' | 'completed' | 'failed';
+  transcriber?: string; // Name of the provider that produced the transcript
+  error?: string;
+  completedAt?: Date;
 }
 
 // Blind review ranking interface
@@ -83,7 +195,7 @@ export interface IAnswerMapping {
 }
 
 // Simple peer review interface
-export interface IPeerReview {
+export interface IPeerReview extends Partial<ISoftDeletion> {
   _id?: string | ObjectId;
   answerId: string | ObjectId;
   reviewerId: string | ObjectId;
@@ -98,7 +210,7 @@ export interface IPeerReview {
 }
 
 // Reviewer assignment interface
-export interface IReviewerAssignment {
+export interface IReviewerAssignment extends Partial<ISoftDeletion> {
   _id?: string | ObjectId;
   answerId: string | ObjectId;
   reviewerId: string | ObjectId;
@@ -106,24 +218,63 @@ export interface IReviewerAssignment {
   dueDate?: Date;
   priority: ReviewPriority;
   status: AssignmentStatus;
+  overdueAt?: Date; // Set when the due date passed without a submitted review
+  reminderSentAt?: Date; // Set once the reviewer has been reminded of the approaching due date
+  reassignedFrom?: string | ObjectId; // Overdue assignment this one replaces
+  reassignedTo?: string | ObjectId; // Assignment that took over once this one was overdue
+  reassignmentCount?: number; // How many reviewers missed the deadline before this one
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 // Review status types
-export type ReviewStatus = 'assigned' | 'in_progress' | 'submitted' | 'overdue' | 'cancelled';
+export type ReviewStatus =
+  | 'assigned'
+  | 'in_progress'
+  | 'submitted'
+  | 'overdue'
+  | 'cancelled';
 
 // Assignment status types
-export type AssignmentStatus = 'pending' | 'accepted' | 'declined' | 'completed';
+export type AssignmentStatus =
+  | 'pending'
+  | 'accepted'
+  | 'declined'
+  | 'completed'
+  | 'overdue'
+  | 'cancelled';
 
 // Review priority levels
 export type ReviewPriority = 'low' | 'medium' | 'high' | 'urgent';
 
+// Pairwise similarity between two answers to the same question
+export interface IAnswerSimilarity {
+  _id?: string | ObjectId;
+  questionId: string | ObjectId;
+  answerIds: [string | ObjectId, string | ObjectId]; // Sorted, so each pair is stored once
+  score: number; // 0-1
+  scorer: string; // e.g. 'tfidf', 'ai-server-embeddings'
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Machine translation of a question or answer, cached per version of the source text
+export interface ITranslation {
+  _id?: string | ObjectId;
+  sourceType: 'question' | 'answer';
+  sourceId: string | ObjectId;
+  sourceHash: string; // SHA-256 of the source text; an edit makes older translations unused
+  language: string; // Target language (BCP 47)
+  text: string;
+  translator: string; // e.g. 'ai-server', 'stub'
+  createdAt?: Date;
+}
+
 // Reviewer profile interface
 export interface IReviewerProfile {
   _id?: string | ObjectId;
   userId: string | ObjectId;
-  expertise: string[]; // Areas of expertise
+  expertise: string[]; // Topic, crop and region tags the reviewer specialises in
   reviewCount: number;
   averageRating: number;
   isActive: boolean;
@@ -132,3 +283,68 @@ export interface IReviewerProfile {
   createdAt?: Date;
   updatedAt?: Date;
 }
+
+// Background job queue
+export type JobType =
+  | 'generate_questions'
+  | 'assign_reviewers'
+  | 'score_similarity'
+  | 'transcribe_audio'
+  | 'send_notification';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'dead';
+
+export interface IJob {
+  _id?: string | ObjectId;
+  type: JobType;
+  payload: Record<string, unknown>;
+  status: JobStatus; // 'failed' jobs are retried, 'dead' jobs have exhausted their attempts
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // Earliest time the job may be leased (pushed back on retry)
+  lockedBy?: string; // Worker currently holding the lease
+  leaseExpiresAt?: Date;
+  lastError?: string;
+  result?: Record<string, unknown>;
+  createdBy?: string | ObjectId;
+  requestId?: string; // Request that queued the job; the worker logs and audits under it
+  createdAt?: Date;
+  updatedAt?: Date;
+  completedAt?: Date;
+}
+
+export type AuditEntityType =
+  | 'question'
+  | 'answer'
+  | 'context'
+  | 'user'
+  | 'peer_review'
+  | 'reviewer_assignment'
+  | 'reviewer_profile'
+  | 'blind_ranking';
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'status_change'
+  | 'merge'
+  | 'elect_final'
+  | 'submit'
+  | 'respond'
+  | 'restore'
+  | 'purge';
+
+// One change made by a user or by the system; written in the same transaction as the change
+export interface IAuditEntry {
+  _id?: string | ObjectId;
+  actorId?: ObjectId; // Absent for changes the system makes, e.g. in the job worker
+  actorRole: UserRole | 'system';
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: Record<string, unknown>; // The changed fields before the change; absent for creations
+  after?: Record<string, unknown>; // The changed fields after the change; absent for deletions
+  requestId?: string;
+  createdAt: Date;
+}
@@ -0,0 +1,17 @@
+import {IJob, JobType} from '#root/shared/interfaces/models.js';
+
+/**
+ * Interface representing the handler the worker runs for one job type.
+ * Handlers may be retried after a crash or an expired lease, so they must be idempotent.
+ */
+export interface IJobHandler {
+  /** The job type this handler processes. */
+  readonly type: JobType;
+
+  /**
+   * Processes a leased job. Throwing marks the attempt as failed.
+   * @param job - The leased job.
+   * @returns A promise that resolves to an optional result stored on the job.
+   */
+  handle(job: IJob): Promise<Record<string, unknown> | void>;
+}
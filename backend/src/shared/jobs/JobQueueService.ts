@@ -0,0 +1,42 @@
+import {IJob, JobType} from '#root/shared/interfaces/models.js';
+import {IJobRepository} from '#root/shared/database/interfaces/IJobRepository.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {jobsConfig} from '#root/config/jobs.js';
+import {getRequestContext} from '#root/shared/logging/index.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession} from 'mongodb';
+import {NotFoundError} from 'routing-controllers';
+
+@injectable()
+export class JobQueueService {
+  constructor(
+    @inject(GLOBAL_TYPES.JobRepository)
+    private readonly jobRepo: IJobRepository,
+  ) {}
+
+  // Pass the request's session so the job is only visible once the surrounding write commits
+  async enqueue(
+    type: JobType,
+    payload: Record<string, unknown>,
+    createdBy?: string,
+    session?: ClientSession,
+  ): Promise<{jobId: string}> {
+    const {insertedId} = await this.jobRepo.enqueue(
+      type,
+      payload,
+      jobsConfig.maxAttempts,
+      createdBy,
+      session,
+      getRequestContext()?.requestId,
+    );
+    return {jobId: insertedId};
+  }
+
+  async getJob(jobId: string): Promise<IJob> {
+    const job = await this.jobRepo.getById(jobId);
+    if (!job) {
+      throw new NotFoundError(`Job with ID ${jobId} not found`);
+    }
+    return job;
+  }
+}
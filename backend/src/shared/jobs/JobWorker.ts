@@ -0,0 +1,154 @@
+import {IJob, JobType} from '#root/shared/interfaces/models.js';
+import {IJobRepository} from '#root/shared/database/interfaces/IJobRepository.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {jobsConfig} from '#root/config/jobs.js';
+import {Logger, runWithRequestContext} from '#root/shared/logging/index.js';
+import {inject, injectable} from 'inversify';
+import {hostname} from 'os';
+import {randomUUID} from 'crypto';
+import {IJobHandler} from './IJobHandler.js';
+import {GenerateQuestionsJobHandler} from './handlers/GenerateQuestionsJobHandler.js';
+import {AssignReviewersJobHandler} from './handlers/AssignReviewersJobHandler.js';
+import {ScoreSimilarityJobHandler} from './handlers/ScoreSimilarityJobHandler.js';
+import {TranscribeAudioJobHandler} from './handlers/TranscribeAudioJobHandler.js';
+import {SendNotificationJobHandler} from './handlers/SendNotificationJobHandler.js';
+
+// Exponential backoff: backoffBase, 2x, 4x, ... capped at backoffMax
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(
+    jobsConfig.backoffBase * 2 ** Math.max(attempts - 1, 0),
+    jobsConfig.backoffMax,
+  );
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+@injectable()
+export class JobWorker {
+  readonly workerId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+  private readonly handlers: Map<JobType, IJobHandler>;
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  constructor(
+    @inject(GLOBAL_TYPES.JobRepository)
+    private readonly jobRepo: IJobRepository,
+
+    @inject(GLOBAL_TYPES.GenerateQuestionsJobHandler)
+    generateQuestionsHandler: GenerateQuestionsJobHandler,
+
+    @inject(GLOBAL_TYPES.AssignReviewersJobHandler)
+    assignReviewersHandler: AssignReviewersJobHandler,
+
+    @inject(GLOBAL_TYPES.ScoreSimilarityJobHandler)
+    scoreSimilarityHandler: ScoreSimilarityJobHandler,
+
+    @inject(GLOBAL_TYPES.TranscribeAudioJobHandler)
+    transcribeAudioHandler: TranscribeAudioJobHandler,
+
+    @inject(GLOBAL_TYPES.SendNotificationJobHandler)
+    sendNotificationHandler: SendNotificationJobHandler,
+
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {
+    this.handlers = new Map<JobType, IJobHandler>(
+      [
+        generateQuestionsHandler,
+        assignReviewersHandler,
+        scoreSimilarityHandler,
+        transcribeAudioHandler,
+        sendNotificationHandler,
+      ].map(handler => [handler.type, handler]),
+    );
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.logger.info('Job worker started', {workerId: this.workerId});
+    this.loop = this.run();
+  }
+
+  // Stops leasing new jobs and waits for the current one to finish
+  async stop(): Promise<void> {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+    this.logger.info('Job worker stopped', {workerId: this.workerId});
+  }
+
+  private async run(): Promise<void> {
+    while (this.running) {
+      try {
+        const job = await this.jobRepo.leaseNext(
+          this.workerId,
+          jobsConfig.leaseDuration,
+        );
+        if (!job) {
+          await sleep(jobsConfig.pollInterval);
+          continue;
+        }
+        // Jobs run under the ID of the request that queued them, so their logs and audit entries trace back to it
+        await (job.requestId
+          ? runWithRequestContext({requestId: job.requestId}, () =>
+              this.process(job),
+            )
+          : this.process(job));
+      } catch (error) {
+        this.logger.error('Job worker error', error);
+        await sleep(jobsConfig.pollInterval);
+      }
+    }
+  }
+
+  private async process(job: IJob): Promise<void> {
+    const jobId = job._id!.toString();
+
+    // A lease that expired on the final attempt is not retried again
+    if (job.attempts > job.maxAttempts) {
+      await this.jobRepo.markFailed(
+        jobId,
+        this.workerId,
+        job.lastError ?? 'Lease expired',
+        null,
+      );
+      return;
+    }
+
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.jobRepo.markFailed(
+        jobId,
+        this.workerId,
+        `No handler for job type ${job.type}`,
+        null,
+      );
+      return;
+    }
+
+    try {
+      const result = await handler.handle(job);
+      await this.jobRepo.markCompleted(
+        jobId,
+        this.workerId,
+        result || undefined,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt =
+        job.attempts < job.maxAttempts
+          ? new Date(Date.now() + getRetryDelay(job.attempts))
+          : null;
+
+      this.logger.error('Job failed', {
+        jobId,
+        jobType: job.type,
+        attempt: job.attempts,
+        retryAt,
+        error,
+      });
+      await this.jobRepo.markFailed(jobId, this.workerId, message, retryAt);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import {PeerReviewService} from '#root/shared/peer-review-service.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {reviewConfig} from '#root/config/review.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {inject, injectable} from 'inversify';
+
+/**
+ * Periodically looks for review assignments past their due date and lets the
+ * peer review service mark them overdue and reassign them, then reminds
+ * reviewers of assignments that are due soon. Runs next to the
+ * job worker; concurrent schedulers are safe because every assignment is
+ * re-checked inside its own transaction.
+ */
+@injectable()
+export class ReviewDeadlineScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private check: Promise<void> | null = null;
+
+  constructor(
+    @inject(GLOBAL_TYPES.PeerReviewService)
+    private readonly peerReviewService: PeerReviewService,
+
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(
+      () => this.runOnce(),
+      reviewConfig.deadlines.checkInterval,
+    );
+    this.logger.info('Review deadline check scheduled', {
+      intervalMs: reviewConfig.deadlines.checkInterval,
+    });
+    this.runOnce();
+  }
+
+  // Stops scheduling checks and waits for the one in progress to finish
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.check;
+  }
+
+  private runOnce(): void {
+    // Skip a tick rather than overlapping with a slow check
+    if (this.check) return;
+
+    this.check = this.peerReviewService
+      .processOverdueAssignments()
+      .then(({overdue, reassigned}) => {
+        if (overdue > 0) {
+          this.logger.info('Processed overdue review assignments', {
+            overdue,
+            reassigned,
+          });
+        }
+        return this.peerReviewService.processUpcomingDeadlines();
+      })
+      .then(({reminded}) => {
+        if (reminded > 0) {
+          this.logger.info('Sent review deadline reminders', {reminded});
+        }
+      })
+      .catch(error => this.logger.error('Review deadline check failed', error))
+      .finally(() => {
+        this.check = null;
+      });
+  }
+}
@@ -0,0 +1,58 @@
+import {TrashService} from '#root/shared/trash-service.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {trashConfig} from '#root/config/trash.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {inject, injectable} from 'inversify';
+
+/**
+ * Periodically purges questions, answers and contexts that have been in the
+ * trash for longer than the retention period. Runs next to the job worker;
+ * concurrent schedulers are safe because a purge removes each document once.
+ */
+@injectable()
+export class TrashPurgeScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private purge: Promise<void> | null = null;
+
+  constructor(
+    @inject(GLOBAL_TYPES.TrashService)
+    private readonly trashService: TrashService,
+
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runOnce(), trashConfig.purgeInterval);
+    this.logger.info('Trash purge scheduled', {
+      intervalMs: trashConfig.purgeInterval,
+      retentionMs: trashConfig.retention,
+    });
+    this.runOnce();
+  }
+
+  // Stops scheduling purges and waits for the one in progress to finish
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.purge;
+  }
+
+  private runOnce(): void {
+    // Skip a tick rather than overlapping with a slow purge
+    if (this.purge) return;
+
+    this.purge = this.trashService
+      .purgeExpired()
+      .then(result => {
+        if (Object.values(result).some(count => count > 0)) {
+          this.logger.info('Purged expired trash', result);
+        }
+      })
+      .catch(error => this.logger.error('Trash purge failed', error))
+      .finally(() => {
+        this.purge = null;
+      });
+  }
+}
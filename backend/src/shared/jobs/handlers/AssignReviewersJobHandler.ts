@@ -0,0 +1,53 @@
+import {IJob} from '#root/shared/interfaces/models.js';
+import {BaseService} from '#root/shared/classes/BaseService.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+import {PeerReviewService} from '#root/shared/peer-review-service.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession} from 'mongodb';
+import {IJobHandler} from '../IJobHandler.js';
+
+// Payload: { answerId }
+@injectable()
+export class AssignReviewersJobHandler
+  extends BaseService
+  implements IJobHandler
+{
+  readonly type = 'assign_reviewers' as const;
+
+  constructor(
+    @inject(GLOBAL_TYPES.PeerReviewService)
+    private readonly peerReviewService: PeerReviewService,
+
+    @inject(GLOBAL_TYPES.ReviewerAssignmentRepository)
+    private readonly reviewerAssignmentRepo: IReviewerAssignmentRepository,
+
+    @inject(GLOBAL_TYPES.Database)
+    private readonly mongoDatabase: MongoDatabase,
+  ) {
+    super(mongoDatabase);
+  }
+
+  async handle(job: IJob): Promise<Record<string, unknown>> {
+    const answerId = String(job.payload.answerId);
+
+    return this._withTransaction(async (session: ClientSession) => {
+      // A previous attempt may have assigned the first round before losing its lease
+      const existing =
+        await this.reviewerAssignmentRepo.getAssignmentsForAnswer(
+          answerId,
+          session,
+        );
+      if (existing.length > 0) {
+        return {assignedReviewers: existing.length};
+      }
+
+      const reviews = await this.peerReviewService.requestReviews(
+        answerId,
+        session,
+      );
+      return {assignedReviewers: reviews.length};
+    });
+  }
+}
@@ -0,0 +1,100 @@
+import {IJob} from '#root/shared/interfaces/models.js';
+import {BaseService} from '#root/shared/classes/BaseService.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {IContextRepository} from '#root/shared/database/interfaces/IContextRepository.js';
+import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {IQuestionGenerator} from '#root/shared/question-generators/index.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession} from 'mongodb';
+import {AuditService} from '#root/shared/audit-service.js';
+import {extractTags} from '#root/utils/questionTags.js';
+import {pickSnapshot} from '#root/utils/auditLog.js';
+import {IJobHandler} from '../IJobHandler.js';
+
+// Payload: { contextId, userId }
+@injectable()
+export class GenerateQuestionsJobHandler
+  extends BaseService
+  implements IJobHandler
+{
+  readonly type = 'generate_questions' as const;
+
+  constructor(
+    @inject(GLOBAL_TYPES.ContextRepository)
+    private readonly contextRepo: IContextRepository,
+
+    @inject(GLOBAL_TYPES.QuestionRepository)
+    private readonly questionRepo: IQuestionRepository,
+
+    @inject(GLOBAL_TYPES.QuestionGenerator)
+    private readonly questionGenerator: IQuestionGenerator,
+
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
+
+    @inject(GLOBAL_TYPES.Database)
+    private readonly mongoDatabase: MongoDatabase,
+  ) {
+    super(mongoDatabase);
+  }
+
+  async handle(job: IJob): Promise<Record<string, unknown>> {
+    const contextId = String(job.payload.contextId);
+    const userId = String(job.payload.userId);
+
+    const context = await this.contextRepo.getById(contextId);
+    if (!context) {
+      throw new Error(`Context with ID ${contextId} not found`);
+    }
+
+    // The AI call runs outside the transaction so no session is held open while it is pending
+    const generated = await this.questionGenerator.generateQuestions(context);
+
+    return this._withTransaction(async (session: ClientSession) => {
+      // A previous attempt may have inserted the questions before losing its lease
+      const existing = await this.questionRepo.getByContextId(
+        contextId,
+        session,
+      );
+      if (existing.length > 0) {
+        return {questionCount: existing.length};
+      }
+
+      if (generated.questions.length > 0) {
+        const {questions} = await this.questionRepo.addQuestions(
+          userId,
+          contextId,
+          // Tags come from the transcript plus the question itself
+          generated.questions.map(question => ({
+            question,
+            tags: extractTags(context.text, question),
+          })),
+          {
+            generator: generated.generator,
+            promptVersion: generated.promptVersion,
+          },
+          session,
+        );
+        await this.audit.record(
+          questions.map(question => ({
+            action: 'create' as const,
+            entityType: 'question' as const,
+            entityId: question._id!,
+            after: pickSnapshot(question, [
+              'question',
+              'context',
+              'tags',
+              'status',
+              'duplicateOf',
+              'source',
+            ]),
+          })),
+          session,
+        );
+      }
+
+      return {questionCount: generated.questions.length};
+    });
+  }
+}
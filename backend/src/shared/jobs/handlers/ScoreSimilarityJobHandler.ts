@@ -0,0 +1,21 @@
+import {IJob} from '#root/shared/interfaces/models.js';
+import {SimilarityService} from '#root/shared/similarity-service.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {IJobHandler} from '../IJobHandler.js';
+
+// Payload: { answerId }
+@injectable()
+export class ScoreSimilarityJobHandler implements IJobHandler {
+  readonly type = 'score_similarity' as const;
+
+  constructor(
+    @inject(GLOBAL_TYPES.SimilarityService)
+    private readonly similarityService: SimilarityService,
+  ) {}
+
+  // Scores are upserted per answer pair, so a retry simply overwrites them
+  async handle(job: IJob): Promise<Record<string, unknown>> {
+    return this.similarityService.scoreAnswer(String(job.payload.answerId));
+  }
+}
@@ -0,0 +1,28 @@
+import {IJob} from '#root/shared/interfaces/models.js';
+import {
+  NotificationEvent,
+  NotificationService,
+} from '#root/shared/notification-service.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {IJobHandler} from '../IJobHandler.js';
+
+// Payload: { userId, event }
+@injectable()
+export class SendNotificationJobHandler implements IJobHandler {
+  readonly type = 'send_notification' as const;
+
+  constructor(
+    @inject(GLOBAL_TYPES.NotificationService)
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  // Delivery is at least once: a crash between sending and completing the job sends the mail again
+  async handle(job: IJob): Promise<Record<string, unknown>> {
+    const delivery = await this.notificationService.deliver(
+      String(job.payload.userId),
+      job.payload.event as NotificationEvent,
+    );
+    return {...delivery};
+  }
+}
@@ -0,0 +1,111 @@
+import {IJob} from '#root/shared/interfaces/models.js';
+import {BaseService} from '#root/shared/classes/BaseService.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {IContextRepository} from '#root/shared/database/interfaces/IContextRepository.js';
+import {IFileStorage} from '#root/shared/storage/index.js';
+import {ITranscriber} from '#root/shared/transcribers/index.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession} from 'mongodb';
+import {IJobHandler} from '../IJobHandler.js';
+import {JobQueueService} from '../JobQueueService.js';
+
+// Payload: { contextId, userId }
+@injectable()
+export class TranscribeAudioJobHandler
+  extends BaseService
+  implements IJobHandler
+{
+  readonly type = 'transcribe_audio' as const;
+
+  constructor(
+    @inject(GLOBAL_TYPES.ContextRepository)
+    private readonly contextRepo: IContextRepository,
+
+    @inject(GLOBAL_TYPES.FileStorage)
+    private readonly fileStorage: IFileStorage,
+
+    @inject(GLOBAL_TYPES.Transcriber)
+    private readonly transcriber: ITranscriber,
+
+    @inject(GLOBAL_TYPES.JobQueueService)
+    private readonly jobQueue: JobQueueService,
+
+    @inject(GLOBAL_TYPES.Database)
+    private readonly mongoDatabase: MongoDatabase,
+  ) {
+    super(mongoDatabase);
+  }
+
+  async handle(job: IJob): Promise<Record<string, unknown>> {
+    const contextId = String(job.payload.contextId);
+    const userId = String(job.payload.userId);
+
+    const context = await this.contextRepo.getById(contextId);
+    if (!context?.audio) {
+      throw new Error(`Audio context with ID ${contextId} not found`);
+    }
+
+    // A previous attempt may have stored the transcript before losing its lease
+    if (context.transcription?.status === 'completed') {
+      return {textLength: context.text.length, language: context.language};
+    }
+
+    const audio = await this.fileStorage.read(context.audio.key);
+    if (!audio) {
+      throw new Error(
+        `Recording ${context.audio.key} is missing from ${context.audio.storage} storage`,
+      );
+    }
+
+    // The transcriber runs outside the transaction so no session is held open while it is pending
+    let transcription;
+    try {
+      transcription = await this.transcriber.transcribe(
+        audio,
+        context.audio.mimeType,
+        context.language,
+      );
+    } catch (error) {
+      // Recorded so the uploader can see why; the worker still retries the job
+      await this.contextRepo.updateContext(contextId, {
+        transcription: {status: 'failed', error: String(error)},
+      });
+      throw error;
+    }
+
+    return this._withTransaction(async (session: ClientSession) => {
+      await this.contextRepo.updateContext(
+        contextId,
+        {
+          text: transcription.text,
+          language: transcription.language,
+          transcription: {
+            status: 'completed',
+            transcriber: transcription.transcriber,
+            completedAt: new Date(),
+          },
+        },
+        session,
+      );
+
+      // Silent recordings have nothing to generate questions from
+      if (!transcription.text) {
+        return {textLength: 0, language: transcription.language};
+      }
+
+      const {jobId} = await this.jobQueue.enqueue(
+        'generate_questions',
+        {contextId, userId},
+        userId,
+        session,
+      );
+
+      return {
+        textLength: transcription.text.length,
+        language: transcription.language,
+        generateQuestionsJobId: jobId,
+      };
+    });
+  }
+}
@@ -0,0 +1,10 @@
+export * from './IJobHandler.js';
+export * from './JobQueueService.js';
+export * from './JobWorker.js';
+export * from './ReviewDeadlineScheduler.js';
+export * from './TrashPurgeScheduler.js';
+export * from './handlers/GenerateQuestionsJobHandler.js';
+export * from './handlers/AssignReviewersJobHandler.js';
+export * from './handlers/ScoreSimilarityJobHandler.js';
+export * from './handlers/TranscribeAudioJobHandler.js';
+export * from './handlers/SendNotificationJobHandler.js';
@@ -0,0 +1,105 @@
+import {
+  createLogger,
+  format,
+  transports,
+  Logger as WinstonLogger,
+} from 'winston';
+import {loggingConfig} from '#root/config/logging.js';
+import {getRequestContext} from './requestContext.js';
+import {redact} from './redact.js';
+
+export type LogMeta = Record<string, unknown>;
+
+// Tags every entry with the current request and strips secrets and PII
+const enrich = format(info => {
+  const context = getRequestContext();
+  if (context) {
+    info.requestId ??= context.requestId;
+    if (context.userId) info.userId ??= context.userId;
+  }
+  // Winston keeps its own state under symbol keys, so only string keys are rewritten
+  for (const key of Object.keys(info)) {
+    if (key === 'level' || key === 'requestId' || key === 'userId') continue;
+    info[key] = redact(info[key], key === 'message' ? '' : key);
+  }
+  return info;
+});
+
+const pretty = format.printf(
+  ({timestamp, level, message, requestId, userId, ...meta}) => {
+    const ids = [requestId, userId].filter(Boolean).join(' ');
+    const rest = Object.keys(meta).length ? ` ${JSON.stringify(meta)}` : '';
+    return `${timestamp} ${level}${ids ? ` [${ids}]` : ''} ${message}${rest}`;
+  },
+);
+
+const createWinstonLogger = (): WinstonLogger =>
+  createLogger({
+    level: loggingConfig.level,
+    format: format.combine(enrich(), format.timestamp()),
+    transports: [
+      new transports.Console({
+        format:
+          loggingConfig.format === 'json'
+            ? format.json()
+            : format.combine(format.colorize(), pretty),
+      }),
+      new transports.File({
+        filename: loggingConfig.errorLogFile,
+        level: 'error',
+        format: format.json(),
+      }),
+    ],
+  });
+
+/**
+ * Structured application logger. Entries carry the request ID of the request
+ * being handled, are redacted before they are written and are filtered by
+ * `LOG_LEVEL`. Inject it as `GLOBAL_TYPES.Logger`; code outside the container
+ * uses the exported `logger`.
+ */
+export class Logger {
+  constructor(
+    private readonly winston: WinstonLogger = createWinstonLogger(),
+    private readonly bindings: LogMeta = {},
+  ) {}
+
+  error(message: string, meta?: LogMeta | unknown): void {
+    this.log('error', message, meta);
+  }
+
+  warn(message: string, meta?: LogMeta | unknown): void {
+    this.log('warn', message, meta);
+  }
+
+  info(message: string, meta?: LogMeta | unknown): void {
+    this.log('info', message, meta);
+  }
+
+  debug(message: string, meta?: LogMeta | unknown): void {
+    this.log('debug', message, meta);
+  }
+
+  /**
+   * Returns a logger that adds the given fields, e.g. a component name, to every entry.
+   */
+  child(bindings: LogMeta): Logger {
+    return new Logger(this.winston, {...this.bindings, ...bindings});
+  }
+
+  private log(level: string, message: string, meta?: LogMeta | unknown): void {
+    // Errors and other non-object values are logged under `error`
+    const fields =
+      meta === undefined
+        ? {}
+        : meta instanceof Error ||
+            typeof meta !== 'object' ||
+            meta === null ||
+            Array.isArray(meta)
+          ? {error: meta}
+          : (meta as LogMeta);
+    this.winston.log({level, message, ...this.bindings, ...fields});
+  }
+}
+
+export const logger = new Logger();
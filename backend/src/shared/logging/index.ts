@@ -0,0 +1,3 @@
+export * from './Logger.js';
+export * from './redact.js';
+export * from './requestContext.js';
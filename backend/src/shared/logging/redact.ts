@@ -0,0 +1,56 @@
+// Values of these keys are never logged
+const SECRET_KEYS =
+  /password|secret|token|authorization|cookie|api[-_]?key|private[-_]?key|credential/i;
+const PII_KEYS =
+  /^(email|phone(number)?|firstname|lastname|displayname|name|firebaseuid)$/i;
+
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const BEARER = /Bearer\s+[\w.~+/=-]+/gi;
+const JWT = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+const MAX_DEPTH = 6;
+
+export const REDACTED = '[REDACTED]';
+
+// Masks tokens and e-mail addresses inside free text such as error messages
+export const redactText = (text: string): string =>
+  text
+    .replace(BEARER, `Bearer ${REDACTED}`)
+    .replace(JWT, REDACTED)
+    .replace(EMAIL, '[EMAIL]');
+
+/**
+ * Copies a value for logging with secrets and personal data removed:
+ * sensitive keys are replaced, strings are masked and errors are reduced to
+ * their name, message, status and stack.
+ */
+export const redact = (value: unknown, key = '', depth = 0): unknown => {
+  if (key && (SECRET_KEYS.test(key) || PII_KEYS.test(key))) return REDACTED;
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Error) {
+    const {httpCode} = value as Error & {httpCode?: number};
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(httpCode && {httpCode}),
+      ...(value.stack && {stack: redactText(value.stack)}),
+    };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value))
+    return value.map(item => redact(item, '', depth + 1));
+  if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+  // ObjectIds log as their hex string; other class instances, such as validated bodies, are walked like objects
+  if (typeof (value as {toHexString?: unknown}).toHexString === 'function')
+    return String(value);
+
+  return Object.fromEntries(
+    Object.entries(value).map(([entryKey, entryValue]) => [
+      entryKey,
+      redact(entryValue, entryKey, depth + 1),
+    ]),
+  );
+};
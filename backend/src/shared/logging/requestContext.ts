@@ -0,0 +1,23 @@
+import {AsyncLocalStorage} from 'async_hooks';
+import {UserRole} from '#root/shared/interfaces/models.js';
+
+export interface RequestContext {
+  requestId: string;
+  userId?: string; // Set once the request has been authorised
+  userRole?: UserRole;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function with a request context that every log line written during
+ * it, including from services and repositories, is tagged with.
+ */
+export const runWithRequestContext = <T>(
+  context: RequestContext,
+  fn: () => T,
+): T => storage.run(context, fn);
+
+// Undefined outside a request, e.g. in the job worker
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
@@ -0,0 +1,24 @@
+/**
+ * A rendered e-mail ready to be sent.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Interface representing a way of delivering e-mail.
+ */
+export interface IMailTransport {
+  /** Name of the transport, e.g. 'smtp'. */
+  readonly name: 'smtp' | 'memory';
+
+  /**
+   * Sends a message from the configured sender address.
+   * @param message - The message to send.
+   * @returns A promise that resolves once the message has been accepted for delivery.
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import {injectable} from 'inversify';
+import {IMailTransport, MailMessage} from './IMailTransport.js';
+
+// Oldest messages are dropped beyond this, so a long-running dev server does not grow without bound
+const MAX_KEPT_MESSAGES = 100;
+
+/**
+ * Keeps sent messages in memory instead of delivering them, for tests and
+ * local development without a mail server.
+ */
+@injectable()
+export class InMemoryMailTransport implements IMailTransport {
+  readonly name = 'memory';
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > MAX_KEPT_MESSAGES) this.sent.shift();
+  }
+}
@@ -0,0 +1,30 @@
+import {injectable} from 'inversify';
+import nodemailer, {Transporter} from 'nodemailer';
+import {InternalServerError} from 'routing-controllers';
+import {smtpConfig} from '#root/config/smtp.js';
+import {IMailTransport, MailMessage} from './IMailTransport.js';
+
+/**
+ * Sends mail through the SMTP server in `smtpConfig`, reusing one pooled connection.
+ */
+@injectable()
+export class SmtpMailTransport implements IMailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter | null = null;
+
+  async send(message: MailMessage): Promise<void> {
+    this.transporter ??= nodemailer.createTransport({
+      host: smtpConfig.host,
+      port: smtpConfig.port,
+      secure: smtpConfig.secure,
+      auth: smtpConfig.auth,
+      pool: true,
+    });
+
+    try {
+      await this.transporter.sendMail({from: smtpConfig.from, ...message});
+    } catch (error) {
+      throw new InternalServerError(`Sending mail via SMTP failed: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './IMailTransport.js';
+export * from './SmtpMailTransport.js';
+export * from './InMemoryMailTransport.js';
@@ -1,5 +1,7 @@
 import cors from 'cors';
 import {Request, Response, NextFunction} from 'express';
+import {loggingConfig} from '#root/config/logging.js';
+import {logger} from '#root/shared/logging/index.js';
 
 // Configure CORS options
 const corsOptions: cors.CorsOptions = {
@@ -28,7 +30,7 @@ const corsOptions: cors.CorsOptions = {
     if (allowedOrigins.includes(origin)) {
       callback(null, true);
     } else {
-      console.warn(`CORS blocked origin: ${origin}`);
+      logger.warn('CORS blocked origin', {origin});
       callback(new Error('Not allowed by CORS'), false);
     }
   },
@@ -42,8 +44,9 @@ const corsOptions: cors.CorsOptions = {
     'Authorization',
     'Cache-Control',
     'Pragma',
+    loggingConfig.requestIdHeader,
   ],
-  exposedHeaders: ['set-cookie'],
+  exposedHeaders: ['set-cookie', loggingConfig.requestIdHeader],
 };
 
 // Export the configured CORS middleware
@@ -74,7 +77,7 @@ export function createCorsHandler(additionalOrigins: string[] = []) {
       if (allowedOrigins.includes(origin)) {
         callback(null, true);
       } else {
-        console.warn(`CORS blocked origin: ${origin}`);
+        logger.warn('CORS blocked origin', {origin});
         callback(new Error('Not allowed by CORS'), false);
       }
     },
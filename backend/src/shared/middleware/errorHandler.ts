@@ -1,4 +1,3 @@
-import {createLogger, format, transports} from 'winston';
 import {
   IsArray,
   IsDefined,
@@ -18,23 +17,7 @@ import {Request, Response} from 'express';
 import {JSONSchema} from 'class-validator-jsonschema';
 import { Type } from 'class-transformer';
 import * as Sentry from '@sentry/node';
-
-const logger = createLogger({
-  level: 'info',
-  format: format.combine(format.timestamp(), format.prettyPrint()),
-  transports: [
-    //
-    // - Write all logs with importance level of `error` or higher to `error.log`
-    //   (i.e., error, fatal, but not other levels)
-    //
-    new transports.File({filename: 'error.log', level: 'error'}),
-    //
-    // - Write all logs with importance level of `info` or higher to `combined.log`
-    //   (i.e., fatal, error, warn, and info, but not trace)
-    //
-    //new transports.File({filename: 'combined.log'}), "uncomment this line to log all messages to combined.log",
-  ],
-});
+import {logger} from '#root/shared/logging/index.js';
 
 export class ErrorResponse<T> {
   message: string;
@@ -137,16 +120,16 @@ export class HttpErrorHandler implements ExpressErrorMiddlewareInterface {
     let eventId;
     try {
       eventId = Sentry.captureException(error);
-      console.log(`Error captured by Sentry in HttpErrorHandler with ID: ${eventId}`);
     } catch (sentryError) {
-      console.error('Failed to capture error with Sentry in HttpErrorHandler:', sentryError);
+      logger.warn('Failed to capture error with Sentry', sentryError);
     }
 
-    logger.error({
-      message: error.message,
+    const status = error.httpCode || 500;
+    // Client errors are expected; only server errors reach the error log
+    (status >= 500 ? logger.error : logger.warn).call(logger, error.message, {
       errors: error.errors,
       stack: error.stack,
-      status: error.httpCode || 500,
+      status,
       sentryEventId: eventId || 'unknown',
     });
     
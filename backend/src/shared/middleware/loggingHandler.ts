@@ -1,34 +1,51 @@
 import {Request, Response, NextFunction} from 'express';
-import chalk from 'chalk';
+import {randomUUID} from 'crypto';
+import {loggingConfig} from '#root/config/logging.js';
+import {
+  logger,
+  RequestContext,
+  runWithRequestContext,
+} from '#root/shared/logging/index.js';
 
+// Caller-supplied IDs are only trusted when they cannot inject anything into a log line
+const REQUEST_ID_PATTERN = /^[\w.:-]{8,128}$/;
+
+/**
+ * Assigns every request a correlation ID, taken from the `X-Request-Id` header
+ * when the caller sent a usable one, returns it in the same header and logs
+ * the outcome of the request. Everything logged while the request is handled
+ * is tagged with the ID.
+ */
 export function loggingHandler(
   req: Request,
   res: Response,
   next: NextFunction,
 ) {
   const start = Date.now();
-  const method = chalk.cyan(req.method);
-  const url = chalk.yellow(req.url);
-  const ip = chalk.magenta(req.socket.remoteAddress || '-');
-  const timestamp = chalk.gray(`[${new Date().toISOString()}]`);
+  const incoming = req.get(loggingConfig.requestIdHeader);
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader(loggingConfig.requestIdHeader, requestId);
 
-  // Log request received
-  console.log(`${timestamp} ${method} ${url} from ${ip}`);
+  const context: RequestContext = {requestId};
 
-  // Log on finish
-  res.on('finish', () => {
-    const duration = chalk.blue(`${Date.now() - start}ms`);
-    const status =
-      res.statusCode < 300
-        ? chalk.green(res.statusCode)
-        : res.statusCode < 400
-          ? chalk.yellow(res.statusCode)
-          : chalk.red(res.statusCode);
+  runWithRequestContext(context, () => {
+    // Listeners run outside the request's async context, so the IDs are passed explicitly
+    res.on('finish', () => {
+      const entry = {
+        requestId,
+        userId: context.userId,
+        method: req.method,
+        path: req.originalUrl.split('?')[0], // Query strings may carry tokens or search text
+        status: res.statusCode,
+        durationMs: Date.now() - start,
+      };
+      const message = `${req.method} ${entry.path} ${res.statusCode}`;
+      if (res.statusCode >= 500) logger.error(message, entry);
+      else if (res.statusCode >= 400) logger.warn(message, entry);
+      else logger.info(message, entry);
+    });
 
-    console.log(
-      `${timestamp} ${method} ${url} from ${ip} - Status: ${status} (${duration})`,
-    );
+    next();
   });
-
-  next();
 }
@@ -0,0 +1,132 @@
+import axios from 'axios';
+import {inject, injectable} from 'inversify';
+import {SocksProxyAgent} from 'socks-proxy-agent';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {aiConfig} from '#root/config/ai.js';
+import {monitoringConfig} from '#root/config/monitoring.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {IPeerReviewRepository} from '#root/shared/database/interfaces/IPeerReviewRepository.js';
+import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {ANSWERABLE_QUESTION_STATUSES} from '#root/shared/question-lifecycle-service.js';
+import {
+  openQuestions,
+  overdueAssignments,
+  pendingReviews,
+  processMemory,
+  processUptime,
+  renderMetrics,
+} from './metrics.js';
+
+export interface DependencyCheck {
+  status: 'up' | 'down';
+  durationMs: number;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'unavailable';
+  checks: Record<string, DependencyCheck>;
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out after ${ms}ms`)),
+      ms,
+    );
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+/**
+ * Backs the health and metrics endpoints: checks the dependencies a request
+ * needs and reads the domain gauges from the database at scrape time.
+ */
+@injectable()
+export class MonitoringService {
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private readonly database: MongoDatabase,
+
+    @inject(GLOBAL_TYPES.QuestionRepository)
+    private readonly questionRepo: IQuestionRepository,
+
+    @inject(GLOBAL_TYPES.PeerReviewRepository)
+    private readonly peerReviewRepo: IPeerReviewRepository,
+
+    @inject(GLOBAL_TYPES.ReviewerAssignmentRepository)
+    private readonly reviewerAssignmentRepo: IReviewerAssignmentRepository,
+
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  // Ready when MongoDB answers a ping and, if configured, the AI server responds
+  async checkReadiness(): Promise<ReadinessReport> {
+    const checks: Record<string, DependencyCheck> = {
+      database: await this.check(() => this.database.ping()),
+    };
+    if (monitoringConfig.checkAiServer) {
+      checks.aiServer = await this.check(() => this.pingAiServer());
+    }
+
+    const ready = Object.values(checks).every(check => check.status === 'up');
+    if (!ready) this.logger.warn('Readiness check failed', {checks});
+    return {status: ready ? 'ready' : 'unavailable', checks};
+  }
+
+  // Refreshes the gauges and renders every metric in the Prometheus text format
+  async collectMetrics(): Promise<string> {
+    try {
+      const [questions, reviews, overdue] = await Promise.all([
+        this.questionRepo.countByStatus(ANSWERABLE_QUESTION_STATUSES),
+        this.peerReviewRepo.countPendingReviews(),
+        this.reviewerAssignmentRepo.countOverdueAssignments(new Date()),
+      ]);
+      openQuestions.set(questions);
+      pendingReviews.set(reviews);
+      overdueAssignments.set(overdue);
+    } catch (error) {
+      // Keep serving the request metrics; the gauges keep their last values
+      this.logger.error('Failed to refresh domain metrics', error);
+    }
+    processUptime.set(Math.round(process.uptime()));
+    processMemory.set(process.memoryUsage().rss);
+
+    return renderMetrics();
+  }
+
+  private async check(probe: () => Promise<unknown>): Promise<DependencyCheck> {
+    const start = Date.now();
+    try {
+      await withTimeout(probe(), monitoringConfig.checkTimeout);
+      return {status: 'up', durationMs: Date.now() - start};
+    } catch (error) {
+      return {
+        status: 'down',
+        durationMs: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // Any response below 500 means the server is up; it may not expose a dedicated health route
+  private async pingAiServer(): Promise<void> {
+    const agent = aiConfig.useProxy
+      ? new SocksProxyAgent(aiConfig.proxyAddress)
+      : undefined;
+    const response = await axios.get(
+      `http://${aiConfig.serverIP}:${aiConfig.serverPort}/health`,
+      {
+        timeout: monitoringConfig.checkTimeout,
+        httpAgent: agent,
+        httpsAgent: agent,
+        validateStatus: () => true,
+      },
+    );
+    if (response.status >= 500) {
+      throw new Error(`AI server responded with ${response.status}`);
+    }
+  }
+}
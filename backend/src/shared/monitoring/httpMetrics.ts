@@ -0,0 +1,101 @@
+import {Request, Response, NextFunction} from 'express';
+import {getMetadataArgsStorage} from 'routing-controllers';
+import {appConfig} from '#root/config/app.js';
+import {httpRequestDuration} from './metrics.js';
+
+interface RoutePattern {
+  method: string;
+  route: string;
+  regex: RegExp;
+}
+
+// Requests that match no controller action, e.g. the frontend bundle, share one label
+export const UNMATCHED_ROUTE = 'unmatched';
+
+const joinPath = (...parts: string[]): string =>
+  `/${parts
+    .map(part => part.replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/')}`;
+
+const toRegex = (route: string): RegExp =>
+  new RegExp(
+    `^${route
+      .split('/')
+      .map(segment =>
+        segment.startsWith(':')
+          ? '[^/]+'
+          : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+      )
+      .join('/')}/?$`,
+  );
+
+let patterns: RoutePattern[] | null = null;
+
+/**
+ * Builds the route table from the routing-controllers metadata, the same
+ * source the startup summary prints. Routes with fewer parameters come first
+ * so `/questions/import` wins over `/questions/:questionId`.
+ */
+const getRoutePatterns = (): RoutePattern[] => {
+  if (patterns) return patterns;
+  const storage = getMetadataArgsStorage();
+  const controllerRoutes = new Map(
+    storage.controllers.map(controller => [
+      controller.target,
+      controller.route ?? '',
+    ]),
+  );
+
+  patterns = storage.actions
+    .filter(
+      action => typeof action.route === 'string' || action.route === undefined,
+    )
+    .map(action => {
+      const route = joinPath(
+        appConfig.routePrefix,
+        controllerRoutes.get(action.target) ?? '',
+        (action.route as string | undefined) ?? '',
+      );
+      return {method: action.type.toUpperCase(), route, regex: toRegex(route)};
+    })
+    .sort((a, b) => a.route.split(':').length - b.route.split(':').length);
+  return patterns;
+};
+
+/**
+ * Maps a request to the route template it was served by, so metrics are
+ * labelled `/api/questions/:questionId` rather than once per question.
+ */
+export const resolveRouteLabel = (method: string, path: string): string => {
+  const upper = method.toUpperCase();
+  const match = getRoutePatterns().find(
+    pattern =>
+      (pattern.method === upper || pattern.method === 'ALL') &&
+      pattern.regex.test(path),
+  );
+  return match?.route ?? UNMATCHED_ROUTE;
+};
+
+// Records the latency of every request, labelled by method, route template and status code
+export function metricsHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    httpRequestDuration.observe(
+      {
+        method: req.method,
+        route: resolveRouteLabel(req.method, req.originalUrl.split('?')[0]),
+        status_code: String(res.statusCode),
+      },
+      seconds,
+    );
+  });
+
+  next();
+}
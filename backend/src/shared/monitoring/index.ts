@@ -0,0 +1,4 @@
+export * from './httpMetrics.js';
+export * from './metrics.js';
+export * from './MonitoringService.js';
+export * from './monitoringRouter.js';
@@ -0,0 +1,152 @@
+// Minimal Prometheus text exposition (format 0.0.4) for the metrics this server reports
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Record<string, string>;
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+const formatValue = (value: number): string =>
+  Number.isFinite(value)
+    ? String(value)
+    : value > 0
+      ? '+Inf'
+      : value < 0
+        ? '-Inf'
+        : 'NaN';
+
+interface Metric {
+  render(): string;
+}
+
+/**
+ * Histogram of observations per label set, e.g. request durations per route.
+ */
+export class Histogram implements Metric {
+  private readonly series = new Map<
+    string,
+    {labels: Labels; buckets: number[]; sum: number; count: number}
+  >();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly bucketBounds: number[],
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = JSON.stringify(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        buckets: this.bucketBounds.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+    this.bucketBounds.forEach((bound, i) => {
+      if (value <= bound) series.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const {labels, buckets, sum, count} of this.series.values()) {
+      this.bucketBounds.forEach((bound, i) =>
+        lines.push(
+          `${this.name}_bucket${formatLabels({...labels, le: String(bound)})} ${buckets[i]}`,
+        ),
+      );
+      lines.push(
+        `${this.name}_bucket${formatLabels({...labels, le: '+Inf'})} ${count}`,
+      );
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Point-in-time value per label set, replaced on every `set`.
+ */
+export class Gauge implements Metric {
+  private readonly values = new Map<string, {labels: Labels; value: number}>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(JSON.stringify(labels), {labels, value});
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+    ];
+    for (const {labels, value} of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export const httpRequestDuration = new Histogram(
+  'http_request_duration_seconds',
+  'Duration of HTTP requests in seconds, by method, route and status code.',
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+);
+
+export const openQuestions = new Gauge(
+  'open_questions',
+  'Questions waiting for an answer.',
+);
+export const pendingReviews = new Gauge(
+  'pending_reviews',
+  'Peer reviews assigned or in progress.',
+);
+export const overdueAssignments = new Gauge(
+  'overdue_review_assignments',
+  'Review assignments still pending or accepted after their due date.',
+);
+export const processUptime = new Gauge(
+  'process_uptime_seconds',
+  'Seconds since the process started.',
+);
+export const processMemory = new Gauge(
+  'process_resident_memory_bytes',
+  'Resident memory size in bytes.',
+);
+
+const registry: Metric[] = [
+  httpRequestDuration,
+  openQuestions,
+  pendingReviews,
+  overdueAssignments,
+  processUptime,
+  processMemory,
+];
+
+export const renderMetrics = (): string =>
+  `${registry.map(metric => metric.render()).join('\n')}\n`;
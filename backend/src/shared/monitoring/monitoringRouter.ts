@@ -0,0 +1,59 @@
+import {Router} from 'express';
+import {getFromContainer} from 'routing-controllers';
+import {monitoringConfig} from '#root/config/monitoring.js';
+import {METRICS_CONTENT_TYPE} from './metrics.js';
+import {MonitoringService} from './MonitoringService.js';
+
+/**
+ * Probe and scrape endpoints, served outside the API prefix and without user
+ * authentication:
+ * - `GET /health/live`: the process is up and serving requests.
+ * - `GET /health/ready`: MongoDB (and optionally the AI server) is reachable; 503 otherwise.
+ * - `GET /metrics`: Prometheus metrics, guarded by `METRICS_TOKEN` when set.
+ */
+export function createMonitoringRouter(): Router {
+  const router = Router();
+
+  router.get('/health/live', (_req, res) => {
+    res.json({status: 'ok', uptime: Math.round(process.uptime())});
+  });
+
+  router.get('/health/ready', async (_req, res, next) => {
+    try {
+      const report = await getFromContainer(MonitoringService).checkReadiness();
+      // Failure details are logged, not returned, as the endpoint is public
+      const checks = Object.fromEntries(
+        Object.entries(report.checks).map(([name, {status, durationMs}]) => [
+          name,
+          {status, durationMs},
+        ]),
+      );
+      res
+        .status(report.status === 'ready' ? 200 : 503)
+        .json({status: report.status, checks});
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  if (monitoringConfig.metricsEnabled) {
+    router.get('/metrics', async (req, res, next) => {
+      if (
+        monitoringConfig.metricsToken &&
+        req.get('Authorization') !== `Bearer ${monitoringConfig.metricsToken}`
+      ) {
+        res.status(401).json({message: 'A valid metrics token is required.'});
+        return;
+      }
+      try {
+        const metrics =
+          await getFromContainer(MonitoringService).collectMetrics();
+        res.type(METRICS_CONTENT_TYPE).send(metrics);
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  return router;
+}
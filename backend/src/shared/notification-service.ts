@@ -0,0 +1,248 @@
+import {
+  INotification,
+  IUser,
+  NotificationType,
+} from '#root/shared/interfaces/models.js';
+import {IUserRepository} from '#root/shared/database/interfaces/IUserRepository.js';
+import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
+import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {IPeerReviewRepository} from '#root/shared/database/interfaces/IPeerReviewRepository.js';
+import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+import {INotificationRepository} from '#root/shared/database/interfaces/INotificationRepository.js';
+import {IMailTransport} from '#root/shared/mail/index.js';
+import {JobQueueService} from '#root/shared/jobs/JobQueueService.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {appConfig} from '#root/config/app.js';
+import {
+  NotificationEmailData,
+  renderNotificationEmail,
+  renderNotificationSummary,
+} from '#root/utils/notificationEmails.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession} from 'mongodb';
+
+// What a notification is about. Only IDs are queued; the message is built from current data when it is sent.
+export type NotificationEvent =
+  | {
+      type:
+        | 'review_assigned'
+        | 'review_deadline_approaching'
+        | 'review_deadline_passed';
+      assignmentId: string;
+    }
+  | {type: 'answer_feedback'; reviewId: string}
+  | {type: 'question_finalized'; answerId: string}; // The recipient's answer to the finalised question
+
+export interface NotificationDelivery {
+  stored: boolean; // Added to the in-app notification centre (false when it already was)
+  emailed: boolean;
+  skipped?: 'unknown_user' | 'inactive_user' | 'outdated';
+}
+
+// How a notification is shown to its recipient, in lists and on the event stream
+export interface NotificationView {
+  id: string;
+  type: NotificationType;
+  entityId: string;
+  title: string;
+  message: string;
+  read: boolean;
+  createdAt?: Date;
+}
+
+export const toNotificationView = (
+  notification: INotification,
+): NotificationView => ({
+  id: notification._id!.toString(),
+  type: notification.type,
+  entityId: notification.entityId.toString(),
+  title: notification.title,
+  message: notification.message,
+  read: !!notification.readAt,
+  createdAt: notification.createdAt,
+});
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'review_assigned',
+  'review_deadline_approaching',
+  'review_deadline_passed',
+  'answer_feedback',
+  'question_finalized',
+];
+
+// Notifications are on unless the user turned them off
+export const isNotificationEnabled = (
+  user: IUser,
+  channel: 'email',
+  type: NotificationType,
+): boolean => user.notificationPreferences?.[channel]?.[type] !== false;
+
+const getEventEntityId = (event: NotificationEvent): string => {
+  switch (event.type) {
+    case 'answer_feedback':
+      return event.reviewId;
+    case 'question_finalized':
+      return event.answerId;
+    default:
+      return event.assignmentId;
+  }
+};
+
+const OPEN_ASSIGNMENT_STATUSES = ['pending', 'accepted'];
+
+@injectable()
+export class NotificationService {
+  constructor(
+    @inject(GLOBAL_TYPES.JobQueueService)
+    private readonly jobQueue: JobQueueService,
+
+    @inject(GLOBAL_TYPES.MailTransport)
+    private readonly mailTransport: IMailTransport,
+
+    @inject(GLOBAL_TYPES.UserRepository)
+    private readonly userRepo: IUserRepository,
+
+    @inject(GLOBAL_TYPES.QuestionRepository)
+    private readonly questionRepo: IQuestionRepository,
+
+    @inject(GLOBAL_TYPES.AnswerRepository)
+    private readonly answerRepo: IAnswerRepository,
+
+    @inject(GLOBAL_TYPES.PeerReviewRepository)
+    private readonly peerReviewRepo: IPeerReviewRepository,
+
+    @inject(GLOBAL_TYPES.ReviewerAssignmentRepository)
+    private readonly reviewerAssignmentRepo: IReviewerAssignmentRepository,
+
+    @inject(GLOBAL_TYPES.NotificationRepository)
+    private readonly notificationRepo: INotificationRepository,
+
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  // Queues the notification in the caller's transaction, so nothing is sent for a write that is rolled back
+  async notify(
+    userId: string,
+    event: NotificationEvent,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.jobQueue.enqueue(
+      'send_notification',
+      {userId, event},
+      undefined,
+      session,
+    );
+  }
+
+  // Adds a queued notification to the user's notification centre and e-mails it unless the user opted out.
+  // Nothing is delivered when the event no longer applies.
+  async deliver(
+    userId: string,
+    event: NotificationEvent,
+  ): Promise<NotificationDelivery> {
+    const user = await this.userRepo.findById(userId);
+    if (!user?._id)
+      return {stored: false, emailed: false, skipped: 'unknown_user'};
+    if (user.isActive === false)
+      return {stored: false, emailed: false, skipped: 'inactive_user'};
+
+    const data = await this.getEmailData(event);
+    if (!data) return {stored: false, emailed: false, skipped: 'outdated'};
+
+    const emailData = {
+      ...data,
+      recipientName: user.firstName || 'there',
+      link: `${appConfig.frontendUrl}/home`,
+    };
+    const stored = await this.notificationRepo.addNotification({
+      userId,
+      type: event.type,
+      entityId: getEventEntityId(event),
+      ...renderNotificationSummary(event.type, emailData),
+    });
+
+    // A retry after a failed send finds the notification stored already, but still owes the e-mail
+    if (!isNotificationEnabled(user, 'email', event.type))
+      return {stored, emailed: false};
+
+    await this.mailTransport.send({
+      to: user.email,
+      ...renderNotificationEmail(event.type, emailData),
+    });
+    this.logger.info('Notification e-mail sent', {
+      type: event.type,
+      userId,
+      transport: this.mailTransport.name,
+    });
+
+    return {stored, emailed: true};
+  }
+
+  // Returns null when the event is no longer relevant, e.g. a reminder for a review already submitted
+  private async getEmailData(
+    event: NotificationEvent,
+  ): Promise<Omit<NotificationEmailData, 'recipientName' | 'link'> | null> {
+    switch (event.type) {
+      case 'review_assigned':
+      case 'review_deadline_approaching':
+      case 'review_deadline_passed': {
+        const assignment = await this.reviewerAssignmentRepo.getAssignmentById(
+          event.assignmentId,
+        );
+        if (!assignment) return null;
+        const expectedOpen = event.type !== 'review_deadline_passed';
+        if (
+          OPEN_ASSIGNMENT_STATUSES.includes(assignment.status) !== expectedOpen
+        )
+          return null;
+
+        const question = await this.getQuestionForAnswer(
+          assignment.answerId.toString(),
+        );
+        return (
+          question && {
+            question,
+            dueDate: assignment.dueDate,
+            priority: assignment.priority,
+          }
+        );
+      }
+      case 'answer_feedback': {
+        const review = await this.peerReviewRepo.getReviewById(event.reviewId);
+        if (!review || review.status !== 'submitted') return null;
+
+        const question = await this.getQuestionForAnswer(
+          review.answerId.toString(),
+        );
+        return (
+          question && {question, score: review.score, comments: review.comments}
+        );
+      }
+      case 'question_finalized': {
+        const answer = await this.answerRepo.getById(event.answerId);
+        if (!answer) return null;
+
+        const question = await this.questionRepo.getById(
+          answer.questionId.toString(),
+        );
+        if (!question?.question) return null;
+        return {
+          question: question.question,
+          finalAnswer: question.finalAnswerText,
+          isRecipientsAnswer: answer.isFinalAnswer,
+        };
+      }
+    }
+  }
+
+  private async getQuestionForAnswer(answerId: string): Promise<string | null> {
+    const answer = await this.answerRepo.getById(answerId);
+    if (!answer) return null;
+    const question = await this.questionRepo.getById(
+      answer.questionId.toString(),
+    );
+    return question?.question ?? null;
+  }
+}
@@ -1,316 +1,1236 @@
-import { IPeerReview, ReviewStatus, IAnswer, IAnswerRanking, IBlindReviewAssignment, IAnswerMapping } from '#root/shared/interfaces/models.js';
+import {
+  IPeerReview,
+  ReviewStatus,
+  IAnswer,
+  IAnswerRank,
+  IBlindReviewAssignment,
+  IReviewerAssignment,
+  ReviewPriority,
+} from '#root/shared/interfaces/models.js';
+import {BaseService} from '#root/shared/classes/BaseService.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {IPeerReviewRepository} from '#root/shared/database/interfaces/IPeerReviewRepository.js';
+import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
+import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {IBlindReviewRepository} from '#root/shared/database/interfaces/IBlindReviewRepository.js';
+import {ReviewerAssignmentService} from '#root/shared/reviewer-assignment-service.js';
+import {NotificationService} from '#root/shared/notification-service.js';
+import {AuditRecord, AuditService} from '#root/shared/audit-service.js';
+import {pickSnapshot} from '#root/utils/auditLog.js';
+import {
+  ANSWERABLE_QUESTION_STATUSES,
+  QuestionLifecycleService,
+} from '#root/shared/question-lifecycle-service.js';
+import {reviewConfig} from '#root/config/review.js';
+import {flattenTags} from '#root/utils/questionTags.js';
+import {
+  AnonymousAnswer,
+  AnonymousTallyEntry,
+  createAnswerMappings,
+  tallyBordaPoints,
+  toAnonymousAnswers,
+  toAnonymousTally,
+} from '#root/utils/blindReview.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession, ObjectId} from 'mongodb';
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from 'routing-controllers';
 
-// In-memory storage for peer reviews (replace with database later)
-const peerReviews: IPeerReview[] = [];
+// Review states in which the reviewer may still submit
+const OPEN_REVIEW_STATUSES: ReviewStatus[] = ['assigned', 'in_progress'];
 
-// Storage for blind reviews
-const blindAssignments: IBlindReviewAssignment[] = [];
-const answerRankings: IAnswerRanking[] = [];
+@injectable()
+export class PeerReviewService extends BaseService {
+  constructor(
+    @inject(GLOBAL_TYPES.PeerReviewRepository)
+    private readonly peerReviewRepo: IPeerReviewRepository,
+
+    @inject(GLOBAL_TYPES.ReviewerAssignmentRepository)
+    private readonly reviewerAssignmentRepo: IReviewerAssignmentRepository,
+
+    @inject(GLOBAL_TYPES.AnswerRepository)
+    private readonly answerRepo: IAnswerRepository,
+
+    @inject(GLOBAL_TYPES.QuestionRepository)
+    private readonly questionRepo: IQuestionRepository,
+
+    @inject(GLOBAL_TYPES.BlindReviewRepository)
+    private readonly blindReviewRepo: IBlindReviewRepository,
+
+    @inject(GLOBAL_TYPES.ReviewerAssignmentService)
+    private readonly reviewerAssignmentService: ReviewerAssignmentService,
+
+    @inject(GLOBAL_TYPES.NotificationService)
+    private readonly notificationService: NotificationService,
+
+    @inject(GLOBAL_TYPES.QuestionLifecycleService)
+    private readonly questionLifecycle: QuestionLifecycleService,
+
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
+
+    @inject(GLOBAL_TYPES.Database)
+    private readonly mongoDatabase: MongoDatabase,
+
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {
+    super(mongoDatabase);
+  }
 
-export class PeerReviewService {
   // Create a new review record
-  static createReview(review: Omit<IPeerReview, '_id' | 'createdAt' | 'updatedAt'>): IPeerReview {
-    const newReview: IPeerReview = {
-      ...review,
-      _id: `review_${Date.now()}_${Math.random()}`,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+  async createReview(
+    review: Omit<IPeerReview, '_id' | 'createdAt' | 'updatedAt'>,
+    session?: ClientSession,
+  ): Promise<IPeerReview> {
+    const created = await this.peerReviewRepo.createReview(review, session);
+    await this.audit.record(
+      {
+        action: 'create',
+        entityType: 'peer_review',
+        entityId: created._id!,
+        after: pickSnapshot(created, [
+          'answerId',
+          'reviewerId',
+          'status',
+          'assignedAt',
+        ]),
+      },
+      session,
+    );
+    return created;
+  }
+
+  // Assign reviewers to an answer and open a review record for each of them;
+  // a full round unless reviewerCount asks for fewer
+  async requestReviews(
+    answerId: string,
+    session: ClientSession,
+    priority: ReviewPriority = 'medium',
+    reviewerCount?: number,
+  ): Promise<IPeerReview[]> {
+    // Authors never review their own answer, and nobody reviews the same answer twice
+    const answer = await this.answerRepo.getById(answerId, session);
+    // The answer may have been moved to the trash since the reviews were requested
+    if (!answer) return [];
+
+    const existingAssignments =
+      await this.reviewerAssignmentRepo.getAssignmentsForAnswer(
+        answerId,
+        session,
+      );
+    const excludeReviewerIds = [
+      answer.authorId.toString(),
+      ...existingAssignments.map(a => a.reviewerId.toString()),
+    ];
+
+    const assignments =
+      await this.reviewerAssignmentService.assignReviewersToAnswer(
+        answerId,
+        priority,
+        await this.getQuestionTags(answer, session),
+        excludeReviewerIds,
+        session,
+        reviewerCount,
+      );
+
+    const reviews: IPeerReview[] = [];
+    for (const assignment of assignments) {
+      reviews.push(
+        await this.createReview(
+          {
+            answerId,
+            reviewerId: assignment.reviewerId,
+            status: 'assigned',
+            assignedAt: assignment.assignedAt,
+          },
+          session,
+        ),
+      );
+      await this.notificationService.notify(
+        assignment.reviewerId.toString(),
+        {type: 'review_assigned', assignmentId: assignment._id!.toString()},
+        session,
+      );
+    }
+
+    return reviews;
+  }
+
+  // Submit a completed review; runs in its own transaction unless a session is given
+  async submitReview(
+    reviewerId: string,
+    reviewId: string,
+    score: number,
+    comments?: string,
+    similarity?: number,
+    session?: ClientSession,
+  ): Promise<{
+    submitted: boolean;
+    triggersNextRound: boolean;
+    finalAnswerElected: boolean;
+  }> {
+    const submit = async (session: ClientSession) => {
+      // Verify the review belongs to this reviewer and is still open
+      const review = await this.peerReviewRepo.getReviewById(reviewId, session);
+      if (!review || review.reviewerId.toString() !== reviewerId) {
+        throw new BadRequestError('Review not found or access denied');
+      }
+      if (!OPEN_REVIEW_STATUSES.includes(review.status)) {
+        throw new BadRequestError(`Review is already ${review.status}`);
+      }
+
+      // Unless the reviewer rates it, similarity is the computed agreement with other experts' answers
+      const answerId = review.answerId.toString();
+      const reviewSimilarity =
+        similarity ??
+        (await this.peerReviewRepo.getReviewStatsForAnswer(answerId, session))
+          .expertAgreement ??
+        undefined;
+
+      await this.peerReviewRepo.submitReview(
+        reviewId,
+        score,
+        comments,
+        reviewSimilarity,
+        session,
+      );
+      await this.audit.record(
+        {
+          action: 'submit',
+          entityType: 'peer_review',
+          entityId: reviewId,
+          before: {status: review.status},
+          after: {
+            status: 'submitted',
+            score,
+            ...(comments && {comments}),
+            ...(reviewSimilarity !== undefined && {
+              similarity: reviewSimilarity,
+            }),
+          },
+        },
+        session,
+      );
+
+      // Complete the assignment and release the reviewer's load
+      const assignment = await this.findAssignment(
+        answerId,
+        reviewerId,
+        session,
+      );
+      if (assignment) {
+        await this.reviewerAssignmentService.updateAssignmentStatus(
+          assignment._id!.toString(),
+          'completed',
+          session,
+        );
+      }
+      await this.reviewerAssignmentService.recordSubmittedReview(
+        reviewerId,
+        score,
+        session,
+      );
+
+      // Elect a final answer once consensus is reached, otherwise see if another round is needed
+      const answer = await this.answerRepo.getById(answerId, session);
+      await this.notificationService.notify(
+        answer.authorId.toString(),
+        {type: 'answer_feedback', reviewId},
+        session,
+      );
+      const finalAnswer = await this.electFinalAnswer(
+        answer.questionId.toString(),
+        reviewerId,
+        session,
+      );
+      const triggersNextRound = finalAnswer
+        ? false
+        : await this.checkAndTriggerNextReviewRound(answerId, session);
+
+      return {
+        submitted: true,
+        triggersNextRound,
+        finalAnswerElected: !!finalAnswer,
+      };
     };
-    peerReviews.push(newReview);
-    return newReview;
+
+    return session ? submit(session) : this._withTransaction(submit);
   }
 
-  // Add/update a peer review (for backward compatibility)
-  static addReview(review: Omit<IPeerReview, '_id' | 'createdAt' | 'updatedAt'>): IPeerReview {
-    return this.createReview(review);
+  // Accept or decline an assignment; declining also cancels the matching review and tops up the round
+  async respondToAssignment(
+    assignmentId: string,
+    reviewerId: string,
+    status: 'accepted' | 'declined',
+  ): Promise<boolean> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const assignment = await this.reviewerAssignmentRepo.getAssignmentById(
+        assignmentId,
+        session,
+      );
+      if (!assignment || assignment.reviewerId.toString() !== reviewerId)
+        return false;
+
+      await this.reviewerAssignmentService.updateAssignmentStatus(
+        assignmentId,
+        status,
+        session,
+      );
+
+      const review = await this.peerReviewRepo.getReviewForAnswerByReviewer(
+        assignment.answerId.toString(),
+        reviewerId,
+        session,
+      );
+      if (review && OPEN_REVIEW_STATUSES.includes(review.status)) {
+        await this.setReviewStatus(
+          review,
+          status === 'accepted' ? 'in_progress' : 'cancelled',
+          session,
+        );
+      }
+
+      // A decline may end the round before enough reviews are in
+      if (status === 'declined') {
+        await this.checkAndTriggerNextReviewRound(
+          assignment.answerId.toString(),
+          session,
+        );
+      }
+
+      return true;
+    });
   }
 
-  // Submit a completed review
-  static submitReview(reviewId: string, score: number, comments?: string, similarity?: number): boolean {
-    const review = peerReviews.find(r => r._id === reviewId);
-    if (!review) return false;
+  // Mark every assignment past its due date as overdue and hand the work to another reviewer.
+  // Each assignment is handled in its own transaction so one failure does not block the rest.
+  async processOverdueAssignments(
+    now: Date = new Date(),
+  ): Promise<{overdue: number; reassigned: number}> {
+    const overdueAssignments =
+      await this.reviewerAssignmentRepo.getOverdueAssignments(now);
 
-    review.score = score;
-    review.comments = comments;
-    review.similarity = similarity;
-    review.status = 'submitted';
-    review.submittedAt = new Date();
-    review.updatedAt = new Date();
+    let overdue = 0;
+    let reassigned = 0;
+    for (const assignment of overdueAssignments) {
+      try {
+        const result = await this._withTransaction((session: ClientSession) =>
+          this.handleOverdueAssignment(
+            assignment._id!.toString(),
+            now,
+            session,
+          ),
+        );
+        if (result.overdue) overdue++;
+        if (result.replacement) reassigned++;
+      } catch (error) {
+        this.logger.error('Error handling overdue assignment', {
+          assignmentId: assignment._id,
+          error,
+        });
+      }
+    }
 
-    return true;
+    return {overdue, reassigned};
   }
 
-  // Update review status
-  static updateReviewStatus(reviewId: string, status: ReviewStatus): boolean {
-    const review = peerReviews.find(r => r._id === reviewId);
-    if (!review) return false;
+  // Remind reviewers of assignments due within `reviewConfig.deadlines.reminderBefore`, once per assignment
+  async processUpcomingDeadlines(
+    now: Date = new Date(),
+  ): Promise<{reminded: number}> {
+    const until = new Date(
+      now.getTime() + reviewConfig.deadlines.reminderBefore,
+    );
+    const dueSoon = await this.reviewerAssignmentRepo.getAssignmentsDueSoon(
+      now,
+      until,
+    );
+
+    let reminded = 0;
+    for (const assignment of dueSoon) {
+      const assignmentId = assignment._id!.toString();
+      try {
+        const sent = await this._withTransaction(
+          async (session: ClientSession) => {
+            // Re-read so a concurrent scheduler or a submission since the scan does not cause a second reminder
+            const current = await this.reviewerAssignmentRepo.getAssignmentById(
+              assignmentId,
+              session,
+            );
+            if (
+              !current ||
+              current.reminderSentAt ||
+              (current.status !== 'pending' && current.status !== 'accepted')
+            ) {
+              return false;
+            }
+            await this.reviewerAssignmentRepo.updateAssignment(
+              assignmentId,
+              {reminderSentAt: now},
+              session,
+            );
+            await this.notificationService.notify(
+              assignment.reviewerId.toString(),
+              {type: 'review_deadline_approaching', assignmentId},
+              session,
+            );
+            return true;
+          },
+        );
+        if (sent) reminded++;
+      } catch (error) {
+        this.logger.error('Error sending review deadline reminder', {
+          assignmentId,
+          error,
+        });
+      }
+    }
 
-    review.status = status;
-    review.updatedAt = new Date();
+    return {reminded};
+  }
 
-    return true;
+  // Get every assignment ever made for an answer, including overdue ones and their replacements
+  async getAssignmentHistory(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]> {
+    return this.reviewerAssignmentRepo.getAssignmentsForAnswer(
+      answerId,
+      session,
+    );
+  }
+
+  // Update review status
+  async updateReviewStatus(
+    reviewId: string,
+    status: ReviewStatus,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    const review = await this.peerReviewRepo.getReviewById(reviewId, session);
+    if (!review) return false;
+    const result = await this.setReviewStatus(review, status, session);
+    return result.modifiedCount > 0;
   }
 
   // Get all reviews for an answer
-  static getReviewsForAnswer(answerId: string): IPeerReview[] {
-    return peerReviews.filter(review => review.answerId === answerId);
+  async getReviewsForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview[]> {
+    return this.peerReviewRepo.getReviewsForAnswer(answerId, session);
   }
 
   // Get completed reviews for an answer (for similarity calculation)
-  static getCompletedReviewsForAnswer(answerId: string): IPeerReview[] {
-    return peerReviews.filter(
-      review => review.answerId === answerId &&
-                review.status === 'submitted' &&
-                review.score !== undefined
+  async getCompletedReviewsForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview[]> {
+    const reviews = await this.peerReviewRepo.getReviewsForAnswer(
+      answerId,
+      session,
+    );
+    return reviews.filter(
+      review => review.status === 'submitted' && review.score !== undefined,
     );
   }
 
-  // Calculate if similarity threshold is reached (using only completed reviews)
-  static calculateSimilarity(answerId: string): { average: number; thresholdReached: boolean; reviewCount: number } {
-    const completedReviews = this.getCompletedReviewsForAnswer(answerId);
+  // Calculate if the final-answer threshold is reached (using only completed reviews)
+  async calculateSimilarity(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<{
+    average: number;
+    agreement: number;
+    expertAgreement: number | null;
+    thresholdReached: boolean;
+    reviewCount: number;
+  }> {
+    const stats = await this.peerReviewRepo.getReviewStatsForAnswer(
+      answerId,
+      session,
+    );
 
-    if (completedReviews.length < 2) {
-      return { average: 0, thresholdReached: false, reviewCount: completedReviews.length };
-    }
+    return {
+      average: stats.averageScore,
+      agreement: stats.agreement,
+      expertAgreement: stats.expertAgreement,
+      thresholdReached: stats.thresholdReached,
+      reviewCount: stats.completedReviews,
+    };
+  }
+
+  // Determine the final answer: the best answer among those that reached the threshold
+  async determineFinalAnswer(
+    questionId: string,
+    session?: ClientSession,
+  ): Promise<Partial<IAnswer> | null> {
+    const allAnswers = await this.answerRepo.getByQuestionId(
+      questionId,
+      session,
+    );
 
-    const scores = completedReviews.map(r => r.score!);
-    const average = scores.reduce((a, b) => a + b, 0) / scores.length;
+    let bestAnswer: Partial<IAnswer> | null = null;
+    let bestScore = 0;
 
-    // Threshold: 70% of max score (5) = 3.5, with at least 3 completed reviews
-    const thresholdReached = average >= 3.5 && completedReviews.length >= 3;
+    for (const answer of allAnswers) {
+      if (answer.isFrozen) continue;
 
-    return { average, thresholdReached, reviewCount: completedReviews.length };
+      const answerId = answer._id!.toString();
+      const {thresholdReached} =
+        await this.peerReviewRepo.getReviewStatsForAnswer(answerId, session);
+      if (!thresholdReached) continue;
+
+      const qualityScore = await this.calculateAnswerQualityScore(
+        answerId,
+        session,
+      );
+      if (qualityScore > bestScore) {
+        bestAnswer = answer;
+        bestScore = qualityScore;
+      }
+    }
+
+    return bestAnswer;
   }
 
-  // ✅ NEW: Determine final answer by comparing all answers for a question
-  static determineFinalAnswer(questionId: string): IAnswer | null {
-    // Get all answers for this question
-    const allAnswers = this.getAllAnswersForQuestion(questionId);
+  // Elect the final answer of a question, close the question and freeze every other answer.
+  // Must run inside the caller's transaction so that the election is all-or-nothing.
+  async electFinalAnswer(
+    questionId: string,
+    finalReviewerId: string,
+    session: ClientSession,
+  ): Promise<Partial<IAnswer> | null> {
+    const question = await this.questionRepo.getById(questionId, session);
+    if (!question || !ANSWERABLE_QUESTION_STATUSES.includes(question.status))
+      return null;
 
-    if (allAnswers.length === 0) return null;
+    const finalAnswer = await this.determineFinalAnswer(questionId, session);
+    if (!finalAnswer) return null;
 
-    // Calculate quality scores for each answer
-    const answerScores = allAnswers.map(answer => ({
-      answer,
-      qualityScore: this.calculateAnswerQualityScore(answer._id!.toString()),
-      reviewStats: this.calculateSimilarity(answer._id!.toString())
-    }));
+    const finalAnswerId = finalAnswer._id!.toString();
 
-    // Sort by quality score (highest first)
-    answerScores.sort((a, b) => b.qualityScore - a.qualityScore);
+    const answersBefore = await this.answerRepo.getByQuestionId(
+      questionId,
+      session,
+    );
+    await this.answerRepo.updateAnswer(
+      finalAnswerId,
+      {isFinalAnswer: true},
+      session,
+    );
+    await this.answerRepo.freezeOtherAnswers(
+      questionId,
+      finalAnswerId,
+      session,
+    );
+    await this.audit.record(
+      [
+        {
+          action: 'elect_final',
+          entityType: 'answer',
+          entityId: finalAnswerId,
+          before: {isFinalAnswer: false},
+          after: {isFinalAnswer: true, finalReviewerId},
+        },
+        ...answersBefore
+          .filter(
+            answer =>
+              answer._id!.toString() !== finalAnswerId &&
+              (!answer.isFrozen || answer.isFinalAnswer),
+          )
+          .map(
+            (answer): AuditRecord => ({
+              action: 'update',
+              entityType: 'answer',
+              entityId: answer._id!,
+              before: {
+                isFinalAnswer: !!answer.isFinalAnswer,
+                isFrozen: !!answer.isFrozen,
+              },
+              after: {isFinalAnswer: false, isFrozen: true},
+            }),
+          ),
+      ],
+      session,
+    );
+    await this.questionRepo.updateQuestion(
+      questionId,
+      {
+        finalReviewerID: new ObjectId(finalReviewerId),
+        finalAnswerText: finalAnswer.answer,
+      },
+      session,
+    );
+    await this.questionLifecycle.transition(
+      questionId,
+      reviewConfig.finalAnswer.questionStatus,
+      {role: 'system'},
+      'Final answer elected by peer review',
+      session,
+    );
 
-    // Return the highest scoring answer
-    const bestAnswer = answerScores[0];
+    // Outstanding reviews are no longer needed once the question is decided
+    const answers = await this.answerRepo.getByQuestionId(questionId, session);
+    for (const answer of answers) {
+      await this.cancelOpenReviews(answer._id!.toString(), session);
+    }
 
-    // Mark this answer as final (in a real implementation, this would update the database)
-    console.log(`Final answer selected for question ${questionId}: Answer ${bestAnswer.answer._id}`);
-    console.log(`Quality Score: ${bestAnswer.qualityScore}, Average Rating: ${bestAnswer.reviewStats.average}`);
+    // Every expert who answered hears about the outcome once, about their own (preferably the elected) answer
+    const answerByAuthor = new Map<string, (typeof answers)[number]>();
+    for (const answer of answers) {
+      const authorId = answer.authorId.toString();
+      if (
+        !answerByAuthor.has(authorId) ||
+        answer._id!.toString() === finalAnswerId
+      ) {
+        answerByAuthor.set(authorId, answer);
+      }
+    }
+    for (const [authorId, answer] of answerByAuthor) {
+      await this.notificationService.notify(
+        authorId,
+        {type: 'question_finalized', answerId: answer._id!.toString()},
+        session,
+      );
+    }
 
-    return bestAnswer.answer;
+    return {...finalAnswer, isFinalAnswer: true};
   }
 
-  // ✅ NEW: Calculate comprehensive quality score for an answer
-  static calculateAnswerQualityScore(answerId: string): number {
-    const similarityData = this.calculateSimilarity(answerId);
-    const reviews = this.getCompletedReviewsForAnswer(answerId);
+  // Calculate comprehensive quality score for an answer
+  async calculateAnswerQualityScore(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<number> {
+    const reviews = await this.getCompletedReviewsForAnswer(answerId, session);
 
     if (reviews.length === 0) return 0;
 
-    // Factors: average score, consensus, review count, recency
-    const averageScore = similarityData.average;
-    const reviewCount = similarityData.reviewCount;
+    // Factors: average score, consensus, review count
+    const scores = reviews.map(r => r.score!);
+    const averageScore = scores.reduce((a, b) => a + b, 0) / scores.length;
+    const reviewCount = reviews.length;
 
     // Calculate consensus (lower standard deviation = higher consensus)
-    const scores = reviews.map(r => r.score!);
-    const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
-    const variance = scores.reduce((sum, score) => sum + Math.pow(score - mean, 2), 0) / scores.length;
+    const variance =
+      scores.reduce(
+        (sum, score) => sum + Math.pow(score - averageScore, 2),
+        0,
+      ) / scores.length;
     const consensus = variance > 0 ? 1 / (1 + Math.sqrt(variance)) : 1; // 0-1 scale
 
     // Quality score combines multiple factors
-    const qualityScore = (
-      averageScore * 0.5 +      // 50% - raw average rating
-      consensus * 0.3 +         // 30% - reviewer agreement
-      Math.min(reviewCount / 5, 1) * 0.2  // 20% - review volume (max at 5 reviews)
-    );
+    const qualityScore =
+      averageScore * 0.5 + // 50% - raw average rating
+      consensus * 0.3 + // 30% - reviewer agreement
+      Math.min(reviewCount / 5, 1) * 0.2; // 20% - review volume (max at 5 reviews)
 
     return qualityScore;
   }
 
-  // ✅ NEW: Get all answers for a question (placeholder - would query database)
-  static getAllAnswersForQuestion(questionId: string): IAnswer[] {
-    // In a real implementation, this would query the database
-    // For now, return empty array as placeholder
-    return [];
-  }
-
   // Get review count for an answer
-  static getReviewCount(answerId: string): number {
-    return this.getReviewsForAnswer(answerId).length;
+  async getReviewCount(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<number> {
+    const reviews = await this.peerReviewRepo.getReviewsForAnswer(
+      answerId,
+      session,
+    );
+    return reviews.length;
   }
 
   // Get pending reviews for a reviewer
-  static getPendingReviewsForReviewer(reviewerId: string): IPeerReview[] {
-    return peerReviews.filter(
-      review => review.reviewerId === reviewerId &&
-                review.status === 'assigned'
+  async getPendingReviewsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview[]> {
+    return this.peerReviewRepo.getPendingReviewsForReviewer(
+      reviewerId,
+      session,
     );
   }
 
   // Get review by ID
-  static getReviewById(reviewId: string): IPeerReview | undefined {
-    return peerReviews.find(review => review._id === reviewId);
+  async getReviewById(
+    reviewId: string,
+    session?: ClientSession,
+  ): Promise<IPeerReview | null> {
+    return this.peerReviewRepo.getReviewById(reviewId, session);
   }
 
-  // Get all reviews (for admin purposes)
-  static getAllReviews(): IPeerReview[] {
-    return [...peerReviews];
+  // Get assignment by ID
+  async getAssignmentById(
+    assignmentId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment | null> {
+    return this.reviewerAssignmentRepo.getAssignmentById(assignmentId, session);
   }
 
-  // ==================== BLIND REVIEW SYSTEM ====================
-
-  // Create blind review assignment for a reviewer
-  static createBlindAssignment(
+  // Get a reviewer's assignments together with the review record of each one
+  async getAssignmentsWithReviews(
     reviewerId: string,
-    questionId: string,
-    answers: IAnswer[]
-  ): IBlindReviewAssignment {
-    // Filter out reviewer's own answers
-    const otherAnswers = answers.filter(answer => answer.authorId.toString() !== reviewerId);
-
-    // Create anonymous mappings
-    const answerMappings: IAnswerMapping[] = otherAnswers.map((answer, index) => ({
-      anonymousId: `Answer ${String.fromCharCode(65 + index)}`, // A, B, C, etc.
-      realAnswerId: answer._id!,
-      authorId: answer.authorId
-    }));
-
-    const assignment: IBlindReviewAssignment = {
-      _id: `blind_${Date.now()}_${Math.random()}`,
+    session?: ClientSession,
+  ): Promise<{assignment: IReviewerAssignment; review: IPeerReview | null}[]> {
+    const assignments =
+      await this.reviewerAssignmentRepo.getAssignmentsForReviewer(
+        reviewerId,
+        session,
+      );
+
+    return Promise.all(
+      assignments.map(async assignment => ({
+        assignment,
+        review: await this.peerReviewRepo.getReviewForAnswerByReviewer(
+          assignment.answerId.toString(),
+          reviewerId,
+          session,
+        ),
+      })),
+    );
+  }
+
+  // Get review statistics for a reviewer
+  async getReviewerStats(reviewerId: string, session?: ClientSession) {
+    const assignmentStats =
+      await this.reviewerAssignmentRepo.getAssignmentStatsForReviewer(
+        reviewerId,
+        session,
+      );
+    const reviews = await this.peerReviewRepo.getReviewsForReviewer(
       reviewerId,
-      questionId,
-      answerMappings,
-      status: 'assigned',
-      createdAt: new Date(),
-      updatedAt: new Date()
+      session,
+    );
+
+    return {
+      totalAssignments: assignmentStats.totalAssignments,
+      pendingReviews: reviews.filter(r =>
+        OPEN_REVIEW_STATUSES.includes(r.status),
+      ).length,
+      completedReviews: reviews.filter(r => r.status === 'submitted').length,
+      acceptedAssignments: assignmentStats.acceptedAssignments,
+      declinedAssignments: assignmentStats.declinedAssignments,
     };
+  }
 
-    blindAssignments.push(assignment);
-    return assignment;
+  private async findAssignment(
+    answerId: string,
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment | undefined> {
+    const assignments =
+      await this.reviewerAssignmentRepo.getAssignmentsForAnswer(
+        answerId,
+        session,
+      );
+    return assignments.find(a => a.reviewerId.toString() === reviewerId);
   }
 
-  // Get blind assignment for reviewer
-  static getBlindAssignment(reviewerId: string, questionId: string): IBlindReviewAssignment | undefined {
-    return blindAssignments.find(
-      assignment => assignment.reviewerId === reviewerId &&
-                   assignment.questionId === questionId
+  private async checkAndTriggerNextReviewRound(
+    answerId: string,
+    session: ClientSession,
+  ): Promise<boolean> {
+    // Get review stats for this answer
+    const reviewStats = await this.peerReviewRepo.getReviewStatsForAnswer(
+      answerId,
+      session,
     );
+
+    // Only start a new round once the current one is finished without reaching consensus
+    const roundFinished = (
+      await this.getReviewsForAnswer(answerId, session)
+    ).every(review => !OPEN_REVIEW_STATUSES.includes(review.status));
+    if (!roundFinished || reviewStats.thresholdReached) {
+      return false;
+    }
+
+    // A round that ended short of minReviews, because reviews were declined, cancelled or not
+    // replaced, is topped up to the missing number; a full round without consensus gets a new one
+    const {minReviews} = reviewConfig.finalAnswer;
+    const reviewerCount =
+      reviewStats.completedReviews < minReviews
+        ? minReviews - reviewStats.completedReviews
+        : undefined;
+
+    try {
+      const reviews = await this.requestReviews(
+        answerId,
+        session,
+        'medium',
+        reviewerCount,
+      );
+      if (reviews.length === 0) {
+        this.logger.warn(
+          'No reviewer available for another review round; leaving the answer for an admin',
+          {
+            answerId,
+            completedReviews: reviewStats.completedReviews,
+            minReviews,
+          },
+        );
+        return false;
+      }
+      this.logger.info('Assigned next round reviewers', {
+        answerId,
+        reviewerCount: reviews.length,
+      });
+      return true;
+    } catch (error) {
+      this.logger.error('Error assigning next round reviewers', {
+        answerId,
+        error,
+      });
+      // Continue execution even if next round assignment fails
+    }
+
+    return false;
   }
 
-  // Submit blind ranking
-  static submitBlindRanking(
-    reviewerId: string,
-    questionId: string,
-    rankings: { anonymousId: string; rank: number }[]
-  ): boolean {
-    const assignment = this.getBlindAssignment(reviewerId, questionId);
-    if (!assignment) return false;
+  // Tags of the answered question, used to prefer reviewers with matching expertise
+  private async getQuestionTags(
+    answer: IAnswer,
+    session: ClientSession,
+  ): Promise<string[]> {
+    const question = await this.questionRepo.getById(
+      answer.questionId.toString(),
+      session,
+    );
+    return flattenTags(question?.tags);
+  }
 
-    // Convert rankings to IAnswerRank format with Borda points
-    const numAnswers = rankings.length;
-    const answerRanks = rankings.map(ranking => {
-      const mapping = assignment.answerMappings.find(m => m.anonymousId === ranking.anonymousId)!;
-      const bordaPoints = numAnswers - ranking.rank; // n-1 for rank 1, n-2 for rank 2, etc.
+  private async handleOverdueAssignment(
+    assignmentId: string,
+    now: Date,
+    session: ClientSession,
+  ): Promise<{overdue: boolean; replacement: IReviewerAssignment | null}> {
+    // Re-read inside the transaction: the review may have been submitted since the scan
+    const assignment = await this.reviewerAssignmentRepo.getAssignmentById(
+      assignmentId,
+      session,
+    );
+    if (
+      !assignment ||
+      (assignment.status !== 'pending' && assignment.status !== 'accepted') ||
+      !assignment.dueDate ||
+      assignment.dueDate >= now
+    ) {
+      return {overdue: false, replacement: null};
+    }
 
-      return {
-        answerId: mapping.realAnswerId,
-        anonymousId: ranking.anonymousId,
-        rank: ranking.rank,
-        bordaPoints
-      };
-    });
+    const answerId = assignment.answerId.toString();
+    const reviewerId = assignment.reviewerId.toString();
 
-    const rankingRecord: IAnswerRanking = {
-      _id: `ranking_${Date.now()}_${Math.random()}`,
+    // Free the reviewer's load and close their review so a late submission is rejected
+    await this.reviewerAssignmentService.updateAssignmentStatus(
+      assignmentId,
+      'overdue',
+      session,
+    );
+    await this.reviewerAssignmentRepo.updateAssignment(
+      assignmentId,
+      {overdueAt: now},
+      session,
+    );
+    const review = await this.peerReviewRepo.getReviewForAnswerByReviewer(
+      answerId,
       reviewerId,
-      questionId,
-      rankings: answerRanks,
-      status: 'completed',
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+      session,
+    );
+    if (review && OPEN_REVIEW_STATUSES.includes(review.status)) {
+      await this.setReviewStatus(review, 'overdue', session);
+    }
+    await this.notificationService.notify(
+      reviewerId,
+      {type: 'review_deadline_passed', assignmentId},
+      session,
+    );
 
-    answerRankings.push(rankingRecord);
+    const rule = reviewConfig.deadlines.escalation[assignment.priority];
+    if ((assignment.reassignmentCount ?? 0) >= rule.maxReassignments) {
+      this.logger.warn(
+        'Answer missed too many review deadlines; leaving it for an admin',
+        {answerId, maxReassignments: rule.maxReassignments},
+      );
+      return {overdue: true, replacement: null};
+    }
 
-    // Mark assignment as completed
-    assignment.status = 'completed';
-    assignment.updatedAt = new Date();
+    // Nobody who has already been assigned the answer, or wrote it, gets it again
+    const answer = await this.answerRepo.getById(answerId, session);
+    if (!answer) return {overdue: true, replacement: null};
+    const existingAssignments =
+      await this.reviewerAssignmentRepo.getAssignmentsForAnswer(
+        answerId,
+        session,
+      );
+    const excludeReviewerIds = [
+      answer.authorId.toString(),
+      ...existingAssignments.map(a => a.reviewerId.toString()),
+    ];
 
-    return true;
+    const replacement =
+      await this.reviewerAssignmentService.assignReplacementReviewer(
+        assignment,
+        rule.escalateTo,
+        excludeReviewerIds,
+        await this.getQuestionTags(answer, session),
+        session,
+      );
+    if (!replacement) {
+      this.logger.warn(
+        'No reviewer available to take over overdue assignment',
+        {assignmentId},
+      );
+      return {overdue: true, replacement: null};
+    }
+
+    await this.createReview(
+      {
+        answerId,
+        reviewerId: replacement.reviewerId,
+        status: 'assigned',
+        assignedAt: replacement.assignedAt,
+      },
+      session,
+    );
+    await this.notificationService.notify(
+      replacement.reviewerId.toString(),
+      {type: 'review_assigned', assignmentId: replacement._id!.toString()},
+      session,
+    );
+
+    return {overdue: true, replacement};
   }
 
-  // Calculate Borda Count winner for a question
-  static calculateBordaWinner(questionId: string): {
-    winner: IAnswer | null;
-    rankings: { answerId: string; totalBordaPoints: number; averageRank: number }[];
-    totalReviewers: number;
-  } {
-    // Get all rankings for this question
-    const questionRankings = answerRankings.filter(r => r.questionId === questionId);
+  // Change a review's status and record the change
+  private async setReviewStatus(
+    review: IPeerReview,
+    status: ReviewStatus,
+    session?: ClientSession,
+  ): Promise<{modifiedCount: number}> {
+    const result = await this.peerReviewRepo.updateReviewStatus(
+      review._id!.toString(),
+      status,
+      session,
+    );
+    await this.audit.record(
+      {
+        action: 'update',
+        entityType: 'peer_review',
+        entityId: review._id!,
+        before: {status: review.status},
+        after: {status},
+      },
+      session,
+    );
+    return result;
+  }
 
-    if (questionRankings.length === 0) {
-      return { winner: null, rankings: [], totalReviewers: 0 };
+  // Cancel the open reviews of an answer and release the reviewers' assignments
+  async cancelOpenReviews(
+    answerId: string,
+    session: ClientSession,
+  ): Promise<void> {
+    const reviews = await this.getReviewsForAnswer(answerId, session);
+    for (const review of reviews) {
+      if (OPEN_REVIEW_STATUSES.includes(review.status)) {
+        await this.setReviewStatus(review, 'cancelled', session);
+      }
     }
 
-    // Aggregate Borda points for each answer
-    const bordaTotals: { [answerId: string]: { totalPoints: number; ranks: number[] } } = {};
+    const assignments =
+      await this.reviewerAssignmentRepo.getAssignmentsForAnswer(
+        answerId,
+        session,
+      );
+    for (const assignment of assignments) {
+      if (assignment.status === 'pending' || assignment.status === 'accepted') {
+        await this.reviewerAssignmentService.updateAssignmentStatus(
+          assignment._id!.toString(),
+          'cancelled',
+          session,
+        );
+      }
+    }
+  }
 
-    questionRankings.forEach(ranking => {
-      ranking.rankings.forEach(rank => {
-        if (!bordaTotals[rank.answerId.toString()]) {
-          bordaTotals[rank.answerId.toString()] = { totalPoints: 0, ranks: [] };
-        }
-        bordaTotals[rank.answerId.toString()].totalPoints += rank.bordaPoints;
-        bordaTotals[rank.answerId.toString()].ranks.push(rank.rank);
-      });
+  // Pick up the review of an answer taken out of the trash: the reviews cancelled when it was
+  // deleted are requested again, unless its question no longer takes answers
+  async resumeReviews(
+    answerId: string,
+    session: ClientSession,
+  ): Promise<boolean> {
+    const answer = await this.answerRepo.getById(answerId, session);
+    if (!answer || answer.isFrozen) return false;
+
+    const question = await this.questionRepo.getById(
+      answer.questionId.toString(),
+      session,
+    );
+    if (!question || !ANSWERABLE_QUESTION_STATUSES.includes(question.status))
+      return false;
+
+    return this.checkAndTriggerNextReviewRound(answerId, session);
+  }
+
+  // Pause or resume a reviewer; a paused reviewer's open assignments go to other experts
+  async updateReviewerAvailability(
+    reviewerId: string,
+    isActive: boolean,
+  ): Promise<boolean> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const updated =
+        await this.reviewerAssignmentService.updateReviewerAvailability(
+          reviewerId,
+          isActive,
+          session,
+        );
+      if (updated && !isActive) {
+        await this.withdrawReviewer(reviewerId, session);
+      }
+      return updated;
     });
+  }
 
-    // Calculate final rankings
-    const finalRankings = Object.entries(bordaTotals).map(([answerId, data]) => ({
-      answerId,
-      totalBordaPoints: data.totalPoints,
-      averageRank: data.ranks.reduce((a, b) => a + b, 0) / data.ranks.length
-    }));
+  // Withdraw a reviewer who can no longer review: their open assignments are cancelled like a
+  // decline, and each round is topped up with other reviewers once it has no open reviews left
+  async withdrawReviewer(
+    reviewerId: string,
+    session: ClientSession,
+  ): Promise<{cancelled: number}> {
+    const assignments =
+      await this.reviewerAssignmentRepo.getAssignmentsForReviewer(
+        reviewerId,
+        session,
+      );
+    const open = assignments.filter(
+      a => a.status === 'pending' || a.status === 'accepted',
+    );
 
-    // Sort by Borda points (highest first)
-    finalRankings.sort((a, b) => b.totalBordaPoints - a.totalBordaPoints);
+    for (const assignment of open) {
+      const answerId = assignment.answerId.toString();
+      await this.reviewerAssignmentService.updateAssignmentStatus(
+        assignment._id!.toString(),
+        'cancelled',
+        session,
+      );
+      const review = await this.peerReviewRepo.getReviewForAnswerByReviewer(
+        answerId,
+        reviewerId,
+        session,
+      );
+      if (review && OPEN_REVIEW_STATUSES.includes(review.status)) {
+        await this.setReviewStatus(review, 'cancelled', session);
+      }
+      await this.checkAndTriggerNextReviewRound(answerId, session);
+    }
 
-    // Find winner (placeholder - would need to get actual answer from database)
-    const winner = finalRankings.length > 0 ? this.getAnswerById(finalRankings[0].answerId) : null;
+    if (open.length > 0) {
+      this.logger.info('Withdrew reviewer from open assignments', {
+        reviewerId,
+        cancelled: open.length,
+      });
+    }
+    return {cancelled: open.length};
+  }
+
+  // ==================== BLIND REVIEW SYSTEM ====================
+
+  // Get the reviewer's anonymised answer set for a question, creating the blind assignment on first access
+  async getBlindReviewSet(
+    reviewerId: string,
+    questionId: string,
+  ): Promise<{
+    assignmentId: string;
+    questionId: string;
+    question: string;
+    status: IBlindReviewAssignment['status'];
+    answers: AnonymousAnswer[];
+  }> {
+    const question = await this.questionRepo.getById(questionId);
+    if (!question) {
+      throw new NotFoundError(`Question with ID ${questionId} not found`);
+    }
+    const answers = await this.answerRepo.getByQuestionId(questionId);
+
+    let assignment = await this.blindReviewRepo.getAssignment(
+      reviewerId,
+      questionId,
+    );
+    if (!assignment) {
+      // Reviewers never rank their own answer
+      const answerMappings = createAnswerMappings(answers, reviewerId);
+      if (answerMappings.length < 2) {
+        throw new BadRequestError(
+          'At least two answers from other experts are needed for a blind ranking',
+        );
+      }
+
+      assignment = await this.blindReviewRepo.findOrCreateAssignment({
+        reviewerId,
+        questionId,
+        answerMappings,
+        status: 'assigned',
+      });
+    }
 
     return {
-      winner,
-      rankings: finalRankings,
-      totalReviewers: questionRankings.length
+      assignmentId: assignment._id!.toString(),
+      questionId,
+      question: question.question,
+      status: assignment.status,
+      answers: toAnonymousAnswers(assignment.answerMappings, answers),
     };
   }
 
-  // Helper: Get answer by ID (placeholder)
-  static getAnswerById(answerId: string): IAnswer | null {
-    // In a real implementation, this would query the database
-    // For now, return null as placeholder
-    return null;
+  // Submit blind ranking
+  async submitBlindRanking(
+    reviewerId: string,
+    questionId: string,
+    rankings: {anonymousId: string; rank: number}[],
+  ): Promise<{submitted: boolean}> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const assignment = await this.blindReviewRepo.getAssignment(
+        reviewerId,
+        questionId,
+        session,
+      );
+      if (!assignment) {
+        throw new BadRequestError(
+          'No blind review assignment found for this question',
+        );
+      }
+      if (assignment.status === 'completed') {
+        throw new BadRequestError('Ranking has already been submitted');
+      }
+
+      // Every answer of the assignment has to be ranked exactly once, from 1 to n
+      const numAnswers = assignment.answerMappings.length;
+      const rankedIds = new Set(rankings.map(r => r.anonymousId));
+      const ranks = new Set(rankings.map(r => r.rank));
+      const isComplete =
+        rankings.length === numAnswers &&
+        rankedIds.size === numAnswers &&
+        assignment.answerMappings.every(m => rankedIds.has(m.anonymousId)) &&
+        ranks.size === numAnswers &&
+        [...ranks].every(rank => rank >= 1 && rank <= numAnswers);
+      if (!isComplete) {
+        throw new BadRequestError(
+          `Rankings must rank each of the ${numAnswers} answers exactly once, from 1 to ${numAnswers}`,
+        );
+      }
+
+      // Convert rankings to IAnswerRank format with Borda points
+      const answerRanks: IAnswerRank[] = rankings.map(ranking => {
+        const mapping = assignment.answerMappings.find(
+          m => m.anonymousId === ranking.anonymousId,
+        )!;
+        const bordaPoints = numAnswers - ranking.rank; // n-1 for rank 1, n-2 for rank 2, etc.
+
+        return {
+          answerId: mapping.realAnswerId,
+          anonymousId: ranking.anonymousId,
+          rank: ranking.rank,
+          bordaPoints,
+        };
+      });
+
+      // Completing the assignment first guards against concurrent double submissions
+      const completed = await this.blindReviewRepo.completeAssignment(
+        assignment._id!.toString(),
+        session,
+      );
+      if (!completed) {
+        throw new BadRequestError('Ranking has already been submitted');
+      }
+
+      const ranking = await this.blindReviewRepo.createRanking(
+        {
+          reviewerId,
+          questionId,
+          rankings: answerRanks.sort((a, b) => a.rank - b.rank),
+          status: 'completed',
+        },
+        session,
+      );
+      await this.audit.record(
+        {
+          action: 'submit',
+          entityType: 'blind_ranking',
+          entityId: ranking._id!,
+          after: pickSnapshot(ranking, [
+            'reviewerId',
+            'questionId',
+            'rankings',
+          ]),
+        },
+        session,
+      );
+
+      return {submitted: true};
+    });
+  }
+
+  // Calculate the Borda Count tally for a question. Answers are labelled with the
+  // requesting reviewer's anonymous IDs; neither answer nor author IDs are part of the result.
+  async calculateBordaWinner(
+    questionId: string,
+    reviewerId: string,
+    canAuditTally = false,
+  ): Promise<{
+    questionId: string;
+    winner: AnonymousTallyEntry | null;
+    rankings: AnonymousTallyEntry[];
+    totalReviewers: number;
+  }> {
+    // Keep the ranking blind: reviewers only see results once they have ranked themselves
+    const assignment = await this.blindReviewRepo.getAssignment(
+      reviewerId,
+      questionId,
+    );
+    if (!canAuditTally && assignment?.status !== 'completed') {
+      throw new ForbiddenError(
+        'Submit your own ranking before viewing the tally',
+      );
+    }
+
+    const questionRankings =
+      await this.blindReviewRepo.getRankingsForQuestion(questionId);
+    const answers = await this.answerRepo.getByQuestionId(questionId);
+    const rankings = toAnonymousTally(
+      tallyBordaPoints(questionRankings),
+      assignment?.answerMappings ?? [],
+      answers,
+    );
+
+    return {
+      questionId,
+      winner: rankings[0] ?? null,
+      rankings,
+      totalReviewers: questionRankings.length,
+    };
   }
 
   // Get ranking statistics for a question
-  static getRankingStats(questionId: string) {
-    const questionRankings = answerRankings.filter(r => r.questionId === questionId);
+  async getRankingStats(questionId: string) {
+    const questionRankings =
+      await this.blindReviewRepo.getRankingsForQuestion(questionId);
 
     return {
       totalReviewers: questionRankings.length,
-      completedRankings: questionRankings.filter(r => r.status === 'completed').length,
-      averageAnswersPerRanking: questionRankings.length > 0
-        ? questionRankings.reduce((sum, r) => sum + r.rankings.length, 0) / questionRankings.length
-        : 0
+      completedRankings: questionRankings.filter(r => r.status === 'completed')
+        .length,
+      averageAnswersPerRanking:
+        questionRankings.length > 0
+          ? questionRankings.reduce((sum, r) => sum + r.rankings.length, 0) /
+            questionRankings.length
+          : 0,
     };
   }
 }
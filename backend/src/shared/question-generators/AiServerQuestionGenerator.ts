@@ -0,0 +1,66 @@
+import axios from 'axios';
+import {injectable} from 'inversify';
+import {SocksProxyAgent} from 'socks-proxy-agent';
+import {InternalServerError} from 'routing-controllers';
+import {aiConfig} from '#root/config/ai.js';
+import {IContext} from '#root/shared/interfaces/models.js';
+import {GeneratedQuestions, IQuestionGenerator} from './IQuestionGenerator.js';
+
+// Shape returned by the AI server's question generation endpoint
+interface AiServerResponse {
+  questions?: unknown;
+}
+
+@injectable()
+export class AiServerQuestionGenerator implements IQuestionGenerator {
+  private readonly name = 'ai-server';
+
+  async generateQuestions(
+    context: Pick<IContext, 'text'>,
+  ): Promise<GeneratedQuestions> {
+    const promptVersion = aiConfig.questionPromptVersion;
+    const url = `http://${aiConfig.serverIP}:${aiConfig.serverPort}/generate-questions`;
+    const agent = aiConfig.useProxy
+      ? new SocksProxyAgent(aiConfig.proxyAddress)
+      : undefined;
+
+    try {
+      const response = await axios.post<AiServerResponse | string[]>(
+        url,
+        {
+          text: context.text,
+          prompt_version: promptVersion,
+          max_questions: aiConfig.maxGeneratedQuestions,
+        },
+        {
+          timeout: aiConfig.requestTimeout,
+          httpAgent: agent,
+          httpsAgent: agent,
+        },
+      );
+
+      const raw = Array.isArray(response.data)
+        ? response.data
+        : response.data?.questions;
+      if (!Array.isArray(raw)) {
+        throw new Error('Response does not contain a list of questions');
+      }
+
+      // Drop blanks and duplicates the model may return
+      const questions = [
+        ...new Set(
+          raw
+            .filter((q): q is string => typeof q === 'string')
+            .map(q => q.trim())
+            .filter(q => q.length > 0),
+        ),
+      ].slice(0, aiConfig.maxGeneratedQuestions);
+
+      return {questions, generator: this.name, promptVersion};
+    } catch (error) {
+      throw new InternalServerError(
+        `Question generation via AI server failed: ${error}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import {IContext} from '#root/shared/interfaces/models.js';
+
+/**
+ * Result of a question generation run.
+ */
+export interface GeneratedQuestions {
+  /** The extracted questions, in the order they should be shown to experts. */
+  questions: string[];
+  /** Name of the generator that produced the questions. */
+  generator: string;
+  /** Version of the prompt (or rule set) used to produce the questions. */
+  promptVersion: string;
+}
+
+/**
+ * Interface representing a generator that extracts agricultural questions from a transcript.
+ */
+export interface IQuestionGenerator {
+  /**
+   * Extracts agricultural questions from the text of a context.
+   * @param context - The context (transcript) to generate questions from.
+   * @returns A promise that resolves to the generated questions and their provenance.
+   */
+  generateQuestions(
+    context: Pick<IContext, 'text'>,
+  ): Promise<GeneratedQuestions>;
+}
@@ -0,0 +1,93 @@
+import {injectable} from 'inversify';
+import {aiConfig} from '#root/config/ai.js';
+import {IContext} from '#root/shared/interfaces/models.js';
+import {GeneratedQuestions, IQuestionGenerator} from './IQuestionGenerator.js';
+
+// Words that mark a sentence as being about farming
+const AGRICULTURAL_KEYWORDS = [
+  'crop',
+  'crops',
+  'seed',
+  'seeds',
+  'soil',
+  'fertilizer',
+  'fertiliser',
+  'manure',
+  'compost',
+  'irrigation',
+  'water',
+  'rain',
+  'pest',
+  'pests',
+  'disease',
+  'weed',
+  'weeds',
+  'harvest',
+  'yield',
+  'paddy',
+  'rice',
+  'wheat',
+  'maize',
+  'cotton',
+  'sugarcane',
+  'pulses',
+  'vegetable',
+  'fruit',
+  'leaf',
+  'leaves',
+  'plant',
+  'plants',
+  'sowing',
+  'spray',
+  'livestock',
+  'cattle',
+  'farm',
+  'farmer',
+  'field',
+  'nursery',
+  'organic',
+  'pesticide',
+  'fungus',
+  'insect',
+];
+
+const MAX_QUESTION_LENGTH = 200;
+
+/**
+ * Deterministic, rule-based generator for tests and offline development.
+ * Questions asked in the transcript are used as-is; otherwise agricultural
+ * statements are turned into questions. The same text always yields the same questions.
+ */
+@injectable()
+export class StubQuestionGenerator implements IQuestionGenerator {
+  private readonly name = 'stub';
+  private readonly promptVersion = 'stub-v1';
+
+  async generateQuestions(
+    context: Pick<IContext, 'text'>,
+  ): Promise<GeneratedQuestions> {
+    const sentences = (context.text.match(/[^.?!\n]+[.?!]?/g) ?? [])
+      .map(sentence => sentence.trim().replace(/\s+/g, ' '))
+      .filter(sentence => sentence.split(' ').length >= 3);
+
+    const isAgricultural = (sentence: string) =>
+      sentence
+        .toLowerCase()
+        .split(/[^a-z]+/)
+        .some(word => AGRICULTURAL_KEYWORDS.includes(word));
+
+    const asked = sentences.filter(sentence => sentence.endsWith('?'));
+    const statements = sentences
+      .filter(sentence => !sentence.endsWith('?') && isAgricultural(sentence))
+      .map(
+        sentence =>
+          `What is the recommended practice for the following: ${sentence.replace(/[.!]$/, '')}?`,
+      );
+
+    const questions = [...new Set([...asked, ...statements])]
+      .map(question => question.slice(0, MAX_QUESTION_LENGTH))
+      .slice(0, aiConfig.maxGeneratedQuestions);
+
+    return {questions, generator: this.name, promptVersion: this.promptVersion};
+  }
+}
@@ -0,0 +1,3 @@
+export * from './IQuestionGenerator.js';
+export * from './AiServerQuestionGenerator.js';
+export * from './StubQuestionGenerator.js';
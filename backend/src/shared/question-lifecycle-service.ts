@@ -0,0 +1,207 @@
+import {
+  IQuestion,
+  IQuestionTransition,
+  QuestionStatus,
+  UserRole,
+} from '#root/shared/interfaces/models.js';
+import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {AuditService} from '#root/shared/audit-service.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession, ObjectId} from 'mongodb';
+import {HttpError, NotFoundError} from 'routing-controllers';
+
+export const QUESTION_STATUSES: QuestionStatus[] = [
+  'draft',
+  'open',
+  'under_review',
+  'answered',
+  'closed',
+  'rejected',
+];
+
+// Experts can still submit answers to questions in these statuses
+export const ANSWERABLE_QUESTION_STATUSES: QuestionStatus[] = [
+  'open',
+  'under_review',
+];
+
+// Who changes the status: a signed-in user, or the system reacting to answers and reviews
+export interface QuestionActor {
+  userId?: string;
+  role: UserRole | 'system';
+}
+
+interface QuestionTransitionRule {
+  from: QuestionStatus[];
+  to: QuestionStatus;
+  roles: QuestionActor['role'][];
+  guard?: (question: IQuestion) => string | null; // Why the transition is not possible right now, or null
+}
+
+const withoutAnswers = (question: IQuestion): string | null =>
+  question.totalAnwersCount > 0 ? 'the question already has answers' : null;
+
+/**
+ * Every status change a question can go through. Anything not listed is
+ * rejected, and each target status is reached by one rule only.
+ */
+export const QUESTION_TRANSITIONS: QuestionTransitionRule[] = [
+  {from: ['draft'], to: 'open', roles: ['admin']},
+  {from: ['open'], to: 'draft', roles: ['admin'], guard: withoutAnswers},
+  {
+    from: ['draft', 'open'],
+    to: 'rejected',
+    roles: ['admin'],
+    guard: withoutAnswers,
+  },
+  {from: ['rejected'], to: 'draft', roles: ['admin']},
+  // The first answer starts the peer review
+  {from: ['open'], to: 'under_review', roles: ['system']},
+  {
+    from: ['open', 'under_review'],
+    to: 'answered',
+    roles: ['admin', 'system'],
+    guard: question =>
+      question.finalAnswerText ? null : 'the question has no final answer',
+  },
+  // Admins may also close a question without a final answer
+  {
+    from: ['open', 'under_review', 'answered'],
+    to: 'closed',
+    roles: ['admin', 'system'],
+  },
+  {
+    from: ['closed'],
+    to: 'open',
+    roles: ['admin'],
+    guard: question =>
+      question.mergedAt
+        ? 'the question was merged into another one'
+        : question.finalAnswerText
+          ? 'the question already has a final answer'
+          : null,
+  },
+];
+
+export class QuestionTransitionError extends HttpError {
+  constructor(message: string) {
+    super(409, message);
+    this.name = 'QuestionTransitionError';
+    Object.setPrototypeOf(this, QuestionTransitionError.prototype);
+  }
+}
+
+/**
+ * Throws a QuestionTransitionError (409) explaining why `actor` cannot move
+ * the question to `to`.
+ */
+export const assertQuestionTransition = (
+  question: IQuestion,
+  to: QuestionStatus,
+  actor: QuestionActor,
+): void => {
+  const from = question.status;
+  if (from === to) {
+    throw new QuestionTransitionError(`Question is already ${to}`);
+  }
+
+  const rule = QUESTION_TRANSITIONS.find(
+    r => r.to === to && r.from.includes(from),
+  );
+  if (!rule) {
+    const allowed = QUESTION_TRANSITIONS.filter(r => r.from.includes(from)).map(
+      r => r.to,
+    );
+    throw new QuestionTransitionError(
+      `A ${from} question cannot become ${to}; it can become ${allowed.join(', ') || 'nothing else'}`,
+    );
+  }
+  if (!rule.roles.includes(actor.role)) {
+    throw new QuestionTransitionError(
+      rule.roles.length === 1 && rule.roles[0] === 'system'
+        ? `A question becomes ${to} automatically and cannot be moved there by hand`
+        : `Only ${rule.roles.filter(role => role !== 'system').join(' or ')} users can make a ${from} question ${to}`,
+    );
+  }
+  const blocker = rule.guard?.(question);
+  if (blocker) {
+    throw new QuestionTransitionError(
+      `Question cannot become ${to}: ${blocker}`,
+    );
+  }
+};
+
+// Statuses `actor` could move the question to now
+export const getAllowedQuestionTransitions = (
+  question: IQuestion,
+  actor: QuestionActor,
+): QuestionStatus[] =>
+  QUESTION_TRANSITIONS.filter(
+    rule =>
+      rule.from.includes(question.status) &&
+      rule.roles.includes(actor.role) &&
+      !rule.guard?.(question),
+  ).map(rule => rule.to);
+
+/**
+ * The only way a question's status changes after it is created. Transitions
+ * are checked against QUESTION_TRANSITIONS and recorded in the question's
+ * status history.
+ */
+@injectable()
+export class QuestionLifecycleService {
+  constructor(
+    @inject(GLOBAL_TYPES.QuestionRepository)
+    private readonly questionRepo: IQuestionRepository,
+
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
+  ) {}
+
+  async transition(
+    questionId: string,
+    to: QuestionStatus,
+    actor: QuestionActor,
+    reason?: string,
+    session?: ClientSession,
+  ): Promise<IQuestionTransition> {
+    const question = await this.questionRepo.getById(questionId, session);
+    if (!question?._id) {
+      throw new NotFoundError(`Question with ID ${questionId} not found`);
+    }
+    assertQuestionTransition(question, to, actor);
+
+    const transition: IQuestionTransition = {
+      from: question.status,
+      to,
+      ...(actor.userId && {actorId: new ObjectId(actor.userId)}),
+      actorRole: actor.role,
+      ...(reason && {reason}),
+      at: new Date(),
+    };
+    // The write only applies while the question is still in `from`, so a change made meanwhile is not overwritten
+    const applied = await this.questionRepo.transitionStatus(
+      questionId,
+      transition,
+      session,
+    );
+    if (!applied) {
+      throw new QuestionTransitionError(
+        `Question ${questionId} changed status in the meantime; reload it and try again`,
+      );
+    }
+    await this.audit.record(
+      {
+        action: 'status_change',
+        entityType: 'question',
+        entityId: questionId,
+        before: {status: transition.from},
+        after: {status: transition.to, ...(reason && {reason})},
+        actor,
+      },
+      session,
+    );
+    return transition;
+  }
+}
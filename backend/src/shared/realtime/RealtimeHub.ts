@@ -0,0 +1,122 @@
+import {inject, injectable} from 'inversify';
+import {ChangeStream} from 'mongodb';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {realtimeConfig} from '#root/config/realtime.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {
+  REALTIME_CHANGE_PIPELINE,
+  RealtimeEvent,
+  RealtimeMessage,
+  toRealtimeMessage,
+} from './realtimeEvents.js';
+
+interface Subscriber {
+  userId: string;
+  send: (event: RealtimeEvent) => void;
+}
+
+/**
+ * Pushes events to the clients connected to this process. Events come from a
+ * database change stream rather than from the code making the change, so
+ * writes by the job worker or another API instance reach every client, and
+ * only once their transaction has committed.
+ */
+@injectable()
+export class RealtimeHub {
+  private readonly subscribers = new Set<Subscriber>();
+  private changeStream: ChangeStream | null = null;
+  private opening = false;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @inject(GLOBAL_TYPES.Database)
+    private readonly database: MongoDatabase,
+
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {}
+
+  // The change stream is only open while someone is subscribed. Returns the function that unsubscribes.
+  subscribe(userId: string, send: (event: RealtimeEvent) => void): () => void {
+    const subscriber = {userId, send};
+    this.subscribers.add(subscriber);
+    void this.watch();
+
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0) void this.stop();
+    };
+  }
+
+  publish({event, recipientId}: RealtimeMessage): void {
+    for (const subscriber of this.subscribers) {
+      if (recipientId && subscriber.userId !== recipientId) continue;
+      try {
+        subscriber.send(event);
+      } catch (error) {
+        this.logger.warn('Failed to push realtime event', {
+          userId: subscriber.userId,
+          type: event.type,
+          error,
+        });
+      }
+    }
+  }
+
+  private async watch(): Promise<void> {
+    if (this.changeStream || this.opening || this.retryTimer) return;
+    this.opening = true;
+    try {
+      const changeStream = await this.database.watch(REALTIME_CHANGE_PIPELINE, {
+        fullDocument: 'updateLookup',
+      });
+      changeStream.on('change', change => {
+        const message = toRealtimeMessage(change);
+        if (message) this.publish(message);
+      });
+      changeStream.on('error', error => this.retry(error));
+      this.changeStream = changeStream;
+      this.logger.debug('Realtime change stream opened');
+    } catch (error) {
+      this.retry(error);
+    } finally {
+      this.opening = false;
+    }
+    // Everyone may have left while the stream was opening
+    if (this.subscribers.size === 0) await this.stop();
+  }
+
+  // Clients miss what changes until the stream is back; they refetch when their own connection drops
+  private retry(error: unknown): void {
+    this.logger.warn('Realtime change stream failed', {
+      error,
+      retryInMs: realtimeConfig.retryDelay,
+    });
+    void this.close();
+    if (this.retryTimer || this.subscribers.size === 0) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.subscribers.size > 0) void this.watch();
+    }, realtimeConfig.retryDelay);
+    this.retryTimer.unref();
+  }
+
+  private async stop(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    await this.close();
+  }
+
+  private async close(): Promise<void> {
+    const changeStream = this.changeStream;
+    this.changeStream = null;
+    try {
+      await changeStream?.close();
+    } catch (error) {
+      this.logger.debug('Error closing realtime change stream', {error});
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export * from './realtimeEvents.js';
+export * from './RealtimeHub.js';
@@ -0,0 +1,79 @@
+import {ChangeStreamDocument, Document} from 'mongodb';
+import {INotification} from '#root/shared/interfaces/models.js';
+import {
+  NotificationView,
+  toNotificationView,
+} from '#root/shared/notification-service.js';
+
+// Lists a client shows that changed and should be fetched again
+export type RealtimeQueue = 'questions' | 'review_assignments';
+
+export type RealtimeEvent =
+  | {type: 'notification'; notification: NotificationView}
+  | {type: 'queue_changed'; queue: RealtimeQueue};
+
+export interface RealtimeMessage {
+  event: RealtimeEvent;
+  recipientId?: string; // Everyone signed in when absent
+}
+
+/**
+ * Change stream stages selecting the writes clients hear about: new notifications,
+ * and new questions and review assignments or changes to their status.
+ */
+export const REALTIME_CHANGE_PIPELINE: Document[] = [
+  {
+    $match: {
+      $or: [
+        {'ns.coll': 'notifications', operationType: 'insert'},
+        {
+          'ns.coll': {$in: ['questions', 'reviewerAssignments']},
+          operationType: 'insert',
+        },
+        {
+          'ns.coll': {$in: ['questions', 'reviewerAssignments']},
+          operationType: 'update',
+          'updateDescription.updatedFields.status': {$exists: true},
+        },
+      ],
+    },
+  },
+];
+
+/**
+ * Turns a database change into the event to push and who receives it.
+ * Returns null for changes clients are not told about.
+ */
+export const toRealtimeMessage = (
+  change: ChangeStreamDocument,
+): RealtimeMessage | null => {
+  if (change.operationType !== 'insert' && change.operationType !== 'update')
+    return null;
+  const document = change.fullDocument;
+  // An update's document is looked up after the fact and is missing when it was deleted since
+  if (!document) return null;
+
+  switch (change.ns.coll) {
+    case 'notifications':
+      return {
+        event: {
+          type: 'notification',
+          notification: toNotificationView(document as INotification),
+        },
+        recipientId: String(document.userId),
+      };
+    case 'questions':
+      return {event: {type: 'queue_changed', queue: 'questions'}};
+    case 'reviewerAssignments':
+      return {
+        event: {type: 'queue_changed', queue: 'review_assignments'},
+        recipientId: String(document.reviewerId),
+      };
+    default:
+      return null;
+  }
+};
+
+// Server-Sent Events framing; the event type doubles as the SSE event name
+export const formatServerSentEvent = (event: RealtimeEvent): string =>
+  `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
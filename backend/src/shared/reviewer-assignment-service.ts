@@ -1,137 +1,174 @@
-import { IReviewerAssignment, IReviewerProfile, ReviewPriority, AssignmentStatus } from '#root/shared/interfaces/models.js';
-import { ObjectId } from 'mongodb';
-
-// In-memory storage for reviewer assignments (replace with database later)
-const reviewerAssignments: IReviewerAssignment[] = [];
-
-// Mock reviewer profiles (replace with database later)
-const reviewerProfiles: IReviewerProfile[] = [
-  {
-    _id: 'reviewer_1',
-    userId: 'user_1',
-    expertise: ['science', 'technology'],
-    reviewCount: 15,
-    averageRating: 4.2,
-    isActive: true,
-    maxConcurrentReviews: 5,
-    currentReviewLoad: 2,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-  {
-    _id: 'reviewer_2',
-    userId: 'user_2',
-    expertise: ['mathematics', 'physics'],
-    reviewCount: 22,
-    averageRating: 4.5,
-    isActive: true,
-    maxConcurrentReviews: 4,
-    currentReviewLoad: 1,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-  {
-    _id: 'reviewer_3',
-    userId: 'user_3',
-    expertise: ['literature', 'history'],
-    reviewCount: 8,
-    averageRating: 3.8,
-    isActive: true,
-    maxConcurrentReviews: 6,
-    currentReviewLoad: 3,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-];
-
-export class ReviewerAssignmentService {
+import {
+  IReviewerAssignment,
+  IReviewerProfile,
+  ReviewPriority,
+  AssignmentStatus,
+} from '#root/shared/interfaces/models.js';
+import {BaseService} from '#root/shared/classes/BaseService.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+import {IReviewerProfileRepository} from '#root/shared/database/interfaces/IReviewerProfileRepository.js';
+import {IUserRepository} from '#root/shared/database/interfaces/IUserRepository.js';
+import {AuditRecord, AuditService} from '#root/shared/audit-service.js';
+import {countTagMatches} from '#root/utils/questionTags.js';
+import {pickSnapshot} from '#root/utils/auditLog.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession} from 'mongodb';
+
+// Number of reviewers assigned to every answer
+const REVIEWERS_PER_ANSWER = 3;
+
+// Assignment states that count towards a reviewer's current load
+const ACTIVE_ASSIGNMENT_STATUSES: AssignmentStatus[] = ['pending', 'accepted'];
+
+const toCreatedAssignmentRecord = (
+  assignment: IReviewerAssignment,
+): AuditRecord => ({
+  action: 'create',
+  entityType: 'reviewer_assignment',
+  entityId: assignment._id!,
+  after: pickSnapshot(assignment, [
+    'answerId',
+    'reviewerId',
+    'dueDate',
+    'priority',
+    'status',
+    'reassignedFrom',
+  ]),
+});
+
+@injectable()
+export class ReviewerAssignmentService extends BaseService {
+  constructor(
+    @inject(GLOBAL_TYPES.ReviewerProfileRepository)
+    private readonly reviewerProfileRepo: IReviewerProfileRepository,
+
+    @inject(GLOBAL_TYPES.ReviewerAssignmentRepository)
+    private readonly reviewerAssignmentRepo: IReviewerAssignmentRepository,
+
+    @inject(GLOBAL_TYPES.UserRepository)
+    private readonly userRepo: IUserRepository,
+
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
+
+    @inject(GLOBAL_TYPES.Database)
+    private readonly mongoDatabase: MongoDatabase,
+
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {
+    super(mongoDatabase);
+  }
+
+  // Backfill reviewer profiles for experts created before profiles existed. New experts get
+  // theirs when they sign up or are promoted, so this only needs to run once at startup
+  async syncExpertProfiles(
+    session?: ClientSession,
+  ): Promise<{insertedCount: number}> {
+    const experts = await this.userRepo.findByRole('expert', session);
+    return this.reviewerProfileRepo.createMissingProfiles(
+      experts.map(expert => expert._id!.toString()),
+      session,
+    );
+  }
+
   // Enhanced reviewer assignment with load balancing
-  static async assignReviewersToAnswer(
+  async assignReviewersToAnswer(
     answerId: string,
     priority: ReviewPriority = 'medium',
     requiredExpertise?: string[],
-    excludeReviewerIds?: string[]
+    excludeReviewerIds: string[] = [],
+    session?: ClientSession,
+    reviewerCount: number = REVIEWERS_PER_ANSWER,
   ): Promise<IReviewerAssignment[]> {
-    const assignments: IReviewerAssignment[] = [];
-
-    // Get available reviewers based on criteria
-    let availableReviewers = reviewerProfiles.filter(
-      reviewer => reviewer.isActive &&
-                 reviewer.currentReviewLoad < reviewer.maxConcurrentReviews
-    );
-
-    // Exclude specified reviewers
-    if (excludeReviewerIds && excludeReviewerIds.length > 0) {
-      availableReviewers = availableReviewers.filter(
-        reviewer => !excludeReviewerIds.includes(reviewer._id!.toString())
+    // Get available reviewers (active, below capacity, not excluded)
+    const availableReviewers =
+      await this.reviewerProfileRepo.getAvailableProfiles(
+        excludeReviewerIds,
+        session,
       );
-    }
 
-    // Filter by expertise if specified
-    if (requiredExpertise && requiredExpertise.length > 0) {
-      availableReviewers = availableReviewers.filter(reviewer =>
-        requiredExpertise.some(expertise =>
-          reviewer.expertise.includes(expertise)
-        )
+    // Specialists in the answer's topics come first; generalists fill the remaining slots
+    this.rankReviewers(availableReviewers, priority, requiredExpertise);
+    if (
+      requiredExpertise?.length &&
+      !availableReviewers.some(
+        r => countTagMatches(requiredExpertise, r.expertise) > 0,
+      )
+    ) {
+      this.logger.warn(
+        'No reviewers found with the required expertise; using all available reviewers',
+        {requiredExpertise},
       );
     }
 
-    // If no reviewers with required expertise, fall back to all available
-    if (availableReviewers.length === 0 && requiredExpertise?.length) {
-      console.warn(`No reviewers found with expertise: ${requiredExpertise.join(', ')}. Using all available reviewers.`);
-      availableReviewers = reviewerProfiles.filter(
-        reviewer => reviewer.isActive &&
-                   reviewer.currentReviewLoad < reviewer.maxConcurrentReviews
-      )
-
-      // Still exclude specified reviewers
-      if (excludeReviewerIds && excludeReviewerIds.length > 0) {
-        availableReviewers = availableReviewers.filter(
-          reviewer => !excludeReviewerIds.includes(reviewer._id!.toString())
-        );
-      }
-    }
+    const assignments: IReviewerAssignment[] = [];
 
-    // Sort by comprehensive scoring algorithm
-    availableReviewers.sort((a, b) => {
-      const scoreA = this.calculateReviewerScore(a, priority);
-      const scoreB = this.calculateReviewerScore(b, priority);
-      return scoreB - scoreA; // Higher score first
-    });
+    for (const reviewer of availableReviewers) {
+      if (assignments.length >= reviewerCount) break;
 
-    // Assign up to 3 reviewers (or fewer if not enough available)
-    const reviewersToAssign = availableReviewers.slice(0, Math.min(3, availableReviewers.length));
+      const reviewerId = reviewer.userId.toString();
 
-    for (const reviewer of reviewersToAssign) {
-      const assignment: IReviewerAssignment = {
-        _id: `assignment_${Date.now()}_${Math.random()}`,
-        answerId,
-        reviewerId: reviewer._id!,
-        assignedAt: new Date(),
-        dueDate: new Date(Date.now() + this.getDueDateForPriority(priority)),
-        priority,
-        status: 'pending',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      // Reserve capacity first; skip the reviewer if it filled up in the meantime
+      const reserved = await this.reviewerProfileRepo.incrementLoad(
+        reviewerId,
+        session,
+      );
+      if (!reserved) continue;
+
+      const assignment = await this.reviewerAssignmentRepo.createAssignment(
+        {
+          answerId,
+          reviewerId,
+          assignedAt: new Date(),
+          dueDate: new Date(Date.now() + this.getDueDateForPriority(priority)),
+          priority,
+          status: 'pending',
+        },
+        session,
+      );
 
       assignments.push(assignment);
-      reviewerAssignments.push(assignment);
-
-      // Update reviewer's load
-      reviewer.currentReviewLoad++;
-      reviewer.updatedAt = new Date();
     }
 
+    await this.audit.record(
+      assignments.map(toCreatedAssignmentRecord),
+      session,
+    );
     return assignments;
   }
 
+  // Order reviewers by matching expertise tags, then by the load-balancing score
+  private rankReviewers(
+    reviewers: IReviewerProfile[],
+    priority: ReviewPriority,
+    requiredExpertise: string[] = [],
+  ): void {
+    reviewers.sort((a, b) => {
+      const matchDiff =
+        countTagMatches(requiredExpertise, b.expertise) -
+        countTagMatches(requiredExpertise, a.expertise);
+      if (matchDiff !== 0) return matchDiff;
+      return (
+        this.calculateReviewerScore(b, priority) -
+        this.calculateReviewerScore(a, priority)
+      ); // Higher score first
+    });
+  }
+
   // Calculate reviewer score for load balancing
-  private static calculateReviewerScore(reviewer: IReviewerProfile, priority: ReviewPriority): number {
+  private calculateReviewerScore(
+    reviewer: IReviewerProfile,
+    priority: ReviewPriority,
+  ): number {
     let score = 0;
 
     // Base score from availability (inverse of load ratio)
-    const loadRatio = reviewer.currentReviewLoad / reviewer.maxConcurrentReviews;
+    const loadRatio =
+      reviewer.currentReviewLoad / reviewer.maxConcurrentReviews;
     score += (1 - loadRatio) * 30; // 0-30 points
 
     // Rating score
@@ -149,167 +186,344 @@ export class ReviewerAssignmentService {
   }
 
   // Check reviewer availability
-  static isReviewerAvailable(reviewerId: string): boolean {
-    const reviewer = reviewerProfiles.find(r => r._id === reviewerId);
-    return reviewer ? reviewer.isActive && reviewer.currentReviewLoad < reviewer.maxConcurrentReviews : false;
+  async isReviewerAvailable(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    const reviewer = await this.reviewerProfileRepo.getByUserId(
+      reviewerId,
+      session,
+    );
+    return reviewer
+      ? reviewer.isActive &&
+          reviewer.currentReviewLoad < reviewer.maxConcurrentReviews
+      : false;
   }
 
   // Get reviewer workload statistics
-  static getReviewerWorkloadStats(reviewerId: string) {
-    const reviewer = reviewerProfiles.find(r => r._id === reviewerId);
+  async getReviewerWorkloadStats(reviewerId: string, session?: ClientSession) {
+    const reviewer = await this.reviewerProfileRepo.getByUserId(
+      reviewerId,
+      session,
+    );
     if (!reviewer) return null;
 
-    const assignments = this.getAssignmentsForReviewer(reviewerId);
-    const pendingCount = assignments.filter(a => a.status === 'pending').length;
-    const activeCount = assignments.filter(a => a.status === 'accepted').length;
-    const completedCount = assignments.filter(a => a.status === 'completed').length;
+    const stats =
+      await this.reviewerAssignmentRepo.getAssignmentStatsForReviewer(
+        reviewerId,
+        session,
+      );
 
     return {
       reviewerId,
       currentLoad: reviewer.currentReviewLoad,
       maxCapacity: reviewer.maxConcurrentReviews,
-      utilizationRate: (reviewer.currentReviewLoad / reviewer.maxConcurrentReviews) * 100,
-      pendingAssignments: pendingCount,
-      activeAssignments: activeCount,
-      completedAssignments: completedCount,
-      totalAssignments: assignments.length,
+      utilizationRate:
+        (reviewer.currentReviewLoad / reviewer.maxConcurrentReviews) * 100,
+      pendingAssignments: stats.pendingAssignments,
+      activeAssignments: stats.acceptedAssignments,
+      completedAssignments: stats.completedAssignments,
+      totalAssignments: stats.totalAssignments,
     };
   }
 
-  // Redistribute assignments from overloaded reviewers
-  static async redistributeAssignments(): Promise<void> {
-    const overloadedReviewers = reviewerProfiles.filter(
-      r => r.isActive && r.currentReviewLoad > r.maxConcurrentReviews * 0.8 // 80% capacity
-    );
-
-    for (const reviewer of overloadedReviewers) {
-      // Find pending assignments that can be reassigned
-      const pendingAssignments = reviewerAssignments.filter(
-        a => a.reviewerId === reviewer._id && a.status === 'pending'
+  // Redistribute pending assignments from overloaded reviewers
+  async redistributeAssignments(): Promise<void> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const profiles = await this.reviewerProfileRepo.getAllProfiles(session);
+      const overloadedReviewers = profiles.filter(
+        r => r.isActive && r.currentReviewLoad > r.maxConcurrentReviews * 0.8, // 80% capacity
       );
 
-      for (const assignment of pendingAssignments) {
-        // Try to reassign to a less loaded reviewer
-        const alternativeReviewer = this.findAlternativeReviewer(reviewer._id.toString(), assignment.priority);
-
-        if (alternativeReviewer) {
-          // Reassign the assignment
-          assignment.reviewerId = alternativeReviewer._id!.toString();
-          assignment.updatedAt = new Date();
-
-          // Update load counts
-          reviewer.currentReviewLoad--;
-          alternativeReviewer.currentReviewLoad++;
-
-          console.log(`Reassigned assignment ${assignment._id} from ${reviewer._id} to ${alternativeReviewer._id}`);
+      for (const reviewer of overloadedReviewers) {
+        const reviewerId = reviewer.userId.toString();
+
+        // Find pending assignments that can be reassigned
+        const pendingAssignments =
+          await this.reviewerAssignmentRepo.getPendingAssignmentsForReviewer(
+            reviewerId,
+            session,
+          );
+
+        for (const assignment of pendingAssignments) {
+          // Never hand the answer to someone who is already assigned to it
+          const answerAssignments =
+            await this.reviewerAssignmentRepo.getAssignmentsForAnswer(
+              assignment.answerId.toString(),
+              session,
+            );
+          const alternativeReviewer = await this.findAlternativeReviewer(
+            answerAssignments.map(a => a.reviewerId.toString()),
+            assignment.priority,
+            session,
+          );
+
+          if (!alternativeReviewer) continue;
+
+          const alternativeId = alternativeReviewer.userId.toString();
+          const reserved = await this.reviewerProfileRepo.incrementLoad(
+            alternativeId,
+            session,
+          );
+          if (!reserved) continue;
+
+          await this.reviewerAssignmentRepo.reassignAssignment(
+            assignment._id!.toString(),
+            alternativeId,
+            session,
+          );
+          await this.reviewerProfileRepo.decrementLoad(reviewerId, session);
+          await this.audit.record(
+            {
+              action: 'update',
+              entityType: 'reviewer_assignment',
+              entityId: assignment._id!,
+              before: {reviewerId},
+              after: {reviewerId: alternativeId},
+            },
+            session,
+          );
+
+          this.logger.info('Reassigned review assignment', {
+            assignmentId: assignment._id,
+            fromReviewerId: reviewerId,
+            toReviewerId: alternativeId,
+          });
         }
       }
-    }
+    });
   }
 
-  // Find alternative reviewer for reassignment
-  private static findAlternativeReviewer(excludeReviewerId: string, priority: ReviewPriority): IReviewerProfile | null {
-    const availableReviewers = reviewerProfiles.filter(
-      r => r._id !== excludeReviewerId &&
-           r.isActive &&
-           r.currentReviewLoad < r.maxConcurrentReviews
+  // Hand an overdue assignment to the best available reviewer outside excludeReviewerIds,
+  // linking both assignments so the reassignment can be traced
+  async assignReplacementReviewer(
+    overdue: IReviewerAssignment,
+    priority: ReviewPriority,
+    excludeReviewerIds: string[],
+    requiredExpertise?: string[],
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment | null> {
+    const reviewer = await this.findAlternativeReviewer(
+      excludeReviewerIds,
+      priority,
+      session,
+      requiredExpertise,
     );
+    if (!reviewer) return null;
 
-    if (availableReviewers.length === 0) return null;
+    const reviewerId = reviewer.userId.toString();
+    const reserved = await this.reviewerProfileRepo.incrementLoad(
+      reviewerId,
+      session,
+    );
+    if (!reserved) return null;
 
-    // Sort by availability and return the best match
-    availableReviewers.sort((a, b) => {
-      const scoreA = this.calculateReviewerScore(a, priority);
-      const scoreB = this.calculateReviewerScore(b, priority);
-      return scoreB - scoreA;
-    });
+    const replacement = await this.reviewerAssignmentRepo.createAssignment(
+      {
+        answerId: overdue.answerId,
+        reviewerId,
+        assignedAt: new Date(),
+        dueDate: new Date(Date.now() + this.getDueDateForPriority(priority)),
+        priority,
+        status: 'pending',
+        reassignedFrom: overdue._id,
+        reassignmentCount: (overdue.reassignmentCount ?? 0) + 1,
+      },
+      session,
+    );
+    await this.reviewerAssignmentRepo.updateAssignment(
+      overdue._id!.toString(),
+      {reassignedTo: replacement._id},
+      session,
+    );
+    await this.audit.record(
+      [
+        toCreatedAssignmentRecord(replacement),
+        {
+          action: 'update',
+          entityType: 'reviewer_assignment',
+          entityId: overdue._id!,
+          after: {reassignedTo: replacement._id},
+        },
+      ],
+      session,
+    );
 
-    return availableReviewers[0];
+    return replacement;
   }
 
-  // Update reviewer availability status
-  static updateReviewerAvailability(reviewerId: string, isActive: boolean): boolean {
-    const reviewer = reviewerProfiles.find(r => r._id === reviewerId);
-    if (!reviewer) return false;
+  // Find alternative reviewer for reassignment, preferring specialists in requiredExpertise
+  private async findAlternativeReviewer(
+    excludeReviewerIds: string[],
+    priority: ReviewPriority,
+    session?: ClientSession,
+    requiredExpertise?: string[],
+  ): Promise<IReviewerProfile | null> {
+    const availableReviewers =
+      await this.reviewerProfileRepo.getAvailableProfiles(
+        excludeReviewerIds,
+        session,
+      );
 
-    reviewer.isActive = isActive;
-    reviewer.updatedAt = new Date();
+    if (availableReviewers.length === 0) return null;
 
-    // If deactivating, we might want to reassign their pending work
-    if (!isActive) {
-      // TODO: Handle reassignment of pending assignments
-      console.log(`Reviewer ${reviewerId} is now inactive`);
-    }
+    this.rankReviewers(availableReviewers, priority, requiredExpertise);
+
+    return availableReviewers[0];
+  }
+
+  // Update reviewer availability status; PeerReviewService hands a paused reviewer's open work to others
+  async updateReviewerAvailability(
+    reviewerId: string,
+    isActive: boolean,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    const result = await this.reviewerProfileRepo.updateProfile(
+      reviewerId,
+      {isActive},
+      session,
+    );
+    if (result.modifiedCount === 0) return false;
+    await this.audit.record(
+      {
+        action: 'update',
+        entityType: 'reviewer_profile',
+        entityId: reviewerId,
+        before: {isActive: !isActive},
+        after: {isActive},
+      },
+      session,
+    );
 
     return true;
   }
 
   // Get assignments for a reviewer
-  static getAssignmentsForReviewer(reviewerId: string): IReviewerAssignment[] {
-    return reviewerAssignments.filter(
-      assignment => assignment.reviewerId === reviewerId
+  async getAssignmentsForReviewer(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]> {
+    return this.reviewerAssignmentRepo.getAssignmentsForReviewer(
+      reviewerId,
+      session,
     );
   }
 
-  // Update assignment status
-  static updateAssignmentStatus(
+  // Update assignment status, releasing the reviewer's load once the work is done or declined
+  async updateAssignmentStatus(
     assignmentId: string,
-    status: AssignmentStatus
-  ): boolean {
-    const assignment = reviewerAssignments.find(a => a._id === assignmentId);
+    status: AssignmentStatus,
+    session?: ClientSession,
+  ): Promise<boolean> {
+    const assignment = await this.reviewerAssignmentRepo.getAssignmentById(
+      assignmentId,
+      session,
+    );
     if (!assignment) return false;
 
-    assignment.status = status;
-    assignment.updatedAt = new Date();
+    await this.reviewerAssignmentRepo.updateAssignmentStatus(
+      assignmentId,
+      status,
+      session,
+    );
+    await this.audit.record(
+      {
+        action:
+          status === 'accepted' || status === 'declined' ? 'respond' : 'update',
+        entityType: 'reviewer_assignment',
+        entityId: assignmentId,
+        before: {status: assignment.status},
+        after: {status},
+      },
+      session,
+    );
 
-    // If assignment is completed, decrease reviewer's load
-    if (status === 'completed') {
-      const reviewer = reviewerProfiles.find(r => r._id === assignment.reviewerId);
-      if (reviewer && reviewer.currentReviewLoad > 0) {
-        reviewer.currentReviewLoad--;
-        reviewer.updatedAt = new Date();
-      }
+    const wasActive = ACTIVE_ASSIGNMENT_STATUSES.includes(assignment.status);
+    const isActive = ACTIVE_ASSIGNMENT_STATUSES.includes(status);
+    if (wasActive && !isActive) {
+      await this.reviewerProfileRepo.decrementLoad(
+        assignment.reviewerId.toString(),
+        session,
+      );
     }
 
     return true;
   }
 
+  // Accept or decline an assignment on behalf of the reviewer it belongs to
+  async respondToAssignment(
+    assignmentId: string,
+    reviewerId: string,
+    status: 'accepted' | 'declined',
+  ): Promise<boolean> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const assignment = await this.reviewerAssignmentRepo.getAssignmentById(
+        assignmentId,
+        session,
+      );
+      if (!assignment || assignment.reviewerId.toString() !== reviewerId)
+        return false;
+
+      return this.updateAssignmentStatus(assignmentId, status, session);
+    });
+  }
+
+  // Update the reviewer's statistics after a review has been submitted
+  async recordSubmittedReview(
+    reviewerId: string,
+    score: number,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.reviewerProfileRepo.recordReview(reviewerId, score, session);
+  }
+
   // Get reviewer profile
-  static getReviewerProfile(reviewerId: string): IReviewerProfile | undefined {
-    return reviewerProfiles.find(profile => profile._id === reviewerId);
+  async getReviewerProfile(
+    reviewerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerProfile | null> {
+    return this.reviewerProfileRepo.getByUserId(reviewerId, session);
   }
 
   // Get all reviewer profiles
-  static getAllReviewerProfiles(): IReviewerProfile[] {
-    return [...reviewerProfiles];
+  async getAllReviewerProfiles(
+    session?: ClientSession,
+  ): Promise<IReviewerProfile[]> {
+    return this.reviewerProfileRepo.getAllProfiles(session);
   }
 
-  // Helper method to calculate due date based on priority
-  private static getDueDateForPriority(priority: ReviewPriority): number {
-    const now = Date.now();
+  // Helper method to calculate the review window (in ms) based on priority
+  private getDueDateForPriority(priority: ReviewPriority): number {
     switch (priority) {
       case 'urgent':
-        return now + 24 * 60 * 60 * 1000; // 24 hours
+        return 24 * 60 * 60 * 1000; // 24 hours
       case 'high':
-        return now + 3 * 24 * 60 * 60 * 1000; // 3 days
+        return 3 * 24 * 60 * 60 * 1000; // 3 days
       case 'medium':
-        return now + 7 * 24 * 60 * 60 * 1000; // 7 days
+        return 7 * 24 * 60 * 60 * 1000; // 7 days
       case 'low':
-        return now + 14 * 24 * 60 * 60 * 1000; // 14 days
+        return 14 * 24 * 60 * 60 * 1000; // 14 days
       default:
-        return now + 7 * 24 * 60 * 60 * 1000; // 7 days default
+        return 7 * 24 * 60 * 60 * 1000; // 7 days default
     }
   }
 
   // Get assignment by ID
-  static getAssignmentById(assignmentId: string): IReviewerAssignment | undefined {
-    return reviewerAssignments.find(assignment => assignment._id === assignmentId);
+  async getAssignmentById(
+    assignmentId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment | null> {
+    return this.reviewerAssignmentRepo.getAssignmentById(assignmentId, session);
   }
 
   // Get all assignments for an answer
-  static getAssignmentsForAnswer(answerId: string): IReviewerAssignment[] {
-    return reviewerAssignments.filter(
-      assignment => assignment.answerId === answerId
+  async getAssignmentsForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IReviewerAssignment[]> {
+    return this.reviewerAssignmentRepo.getAssignmentsForAnswer(
+      answerId,
+      session,
     );
   }
 }
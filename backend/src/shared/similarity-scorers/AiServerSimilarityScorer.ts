@@ -0,0 +1,63 @@
+import axios from 'axios';
+import {injectable} from 'inversify';
+import {SocksProxyAgent} from 'socks-proxy-agent';
+import {InternalServerError} from 'routing-controllers';
+import {aiConfig} from '#root/config/ai.js';
+import {cosineSimilarity} from '#root/utils/textSimilarity.js';
+import {ISimilarityScorer} from './ISimilarityScorer.js';
+
+// Shape returned by the AI server's embedding endpoint
+interface AiServerEmbeddingResponse {
+  embeddings?: unknown;
+}
+
+/**
+ * Semantic similarity: cosine similarity of sentence embeddings computed by the AI server.
+ */
+@injectable()
+export class AiServerSimilarityScorer implements ISimilarityScorer {
+  readonly name = 'ai-server-embeddings';
+
+  async score(text: string, others: string[]): Promise<number[]> {
+    if (others.length === 0) return [];
+
+    const url = `http://${aiConfig.serverIP}:${aiConfig.serverPort}/embeddings`;
+    const agent = aiConfig.useProxy
+      ? new SocksProxyAgent(aiConfig.proxyAddress)
+      : undefined;
+    const texts = [text, ...others];
+
+    try {
+      const response = await axios.post<AiServerEmbeddingResponse>(
+        url,
+        {texts},
+        {
+          timeout: aiConfig.requestTimeout,
+          httpAgent: agent,
+          httpsAgent: agent,
+        },
+      );
+
+      const embeddings = response.data?.embeddings;
+      if (
+        !Array.isArray(embeddings) ||
+        embeddings.length !== texts.length ||
+        !embeddings.every(
+          e => Array.isArray(e) && e.every(v => typeof v === 'number'),
+        )
+      ) {
+        throw new Error('Response does not contain one embedding per text');
+      }
+
+      const [vector, ...otherVectors] = embeddings as number[][];
+      // Embeddings can point in opposite directions; treat that as unrelated
+      return otherVectors.map(other =>
+        Math.max(0, Math.min(1, cosineSimilarity(vector, other))),
+      );
+    } catch (error) {
+      throw new InternalServerError(
+        `Similarity scoring via AI server failed: ${error}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Interface representing a scorer that measures how similar two answers are.
+ */
+export interface ISimilarityScorer {
+  /** Name stored with every persisted score, e.g. 'tfidf'. */
+  readonly name: string;
+
+  /**
+   * Scores a text against each of a list of other texts.
+   * @param text - The text to compare, e.g. a new answer.
+   * @param others - The texts to compare it with, e.g. the existing answers to the same question.
+   * @returns A promise that resolves to one score per entry of `others`, in the same order,
+   * between 0 (unrelated) and 1 (same content).
+   */
+  score(text: string, others: string[]): Promise<number[]>;
+}
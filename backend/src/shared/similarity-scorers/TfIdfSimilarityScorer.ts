@@ -0,0 +1,25 @@
+import {injectable} from 'inversify';
+import {
+  buildTfIdfVectors,
+  sparseCosineSimilarity,
+} from '#root/utils/textSimilarity.js';
+import {ISimilarityScorer} from './ISimilarityScorer.js';
+
+/**
+ * Lexical similarity: cosine similarity of TF-IDF vectors, with the compared answers as the corpus.
+ * Runs in-process and needs no external service.
+ */
+@injectable()
+export class TfIdfSimilarityScorer implements ISimilarityScorer {
+  readonly name = 'tfidf';
+
+  async score(text: string, others: string[]): Promise<number[]> {
+    if (others.length === 0) return [];
+
+    const [vector, ...otherVectors] = buildTfIdfVectors([text, ...others]);
+    // Rounding keeps identical texts at exactly 1
+    return otherVectors.map(other =>
+      Math.min(1, Number(sparseCosineSimilarity(vector, other).toFixed(6))),
+    );
+  }
+}
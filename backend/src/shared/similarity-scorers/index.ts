@@ -0,0 +1,3 @@
+export * from './ISimilarityScorer.js';
+export * from './TfIdfSimilarityScorer.js';
+export * from './AiServerSimilarityScorer.js';
@@ -0,0 +1,106 @@
+import {IAnswerSimilarity} from '#root/shared/interfaces/models.js';
+import {BaseService} from '#root/shared/classes/BaseService.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
+import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {IAnswerSimilarityRepository} from '#root/shared/database/interfaces/IAnswerSimilarityRepository.js';
+import {ISimilarityScorer} from '#root/shared/similarity-scorers/index.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession} from 'mongodb';
+
+@injectable()
+export class SimilarityService extends BaseService {
+  constructor(
+    @inject(GLOBAL_TYPES.AnswerRepository)
+    private readonly answerRepo: IAnswerRepository,
+
+    @inject(GLOBAL_TYPES.QuestionRepository)
+    private readonly questionRepo: IQuestionRepository,
+
+    @inject(GLOBAL_TYPES.AnswerSimilarityRepository)
+    private readonly similarityRepo: IAnswerSimilarityRepository,
+
+    @inject(GLOBAL_TYPES.SimilarityScorer)
+    private readonly scorer: ISimilarityScorer,
+
+    @inject(GLOBAL_TYPES.Database)
+    private readonly mongoDatabase: MongoDatabase,
+  ) {
+    super(mongoDatabase);
+  }
+
+  // Score an answer against the answers other experts gave to the same question and persist the pairs.
+  // Scoring runs outside the transaction because the scorer may call the AI server.
+  async scoreAnswer(
+    answerId: string,
+  ): Promise<{comparedAnswers: number; questionSimilarity: number | null}> {
+    const answer = await this.answerRepo.getById(answerId);
+    // Nothing to score once the answer is in the trash
+    if (!answer) return {comparedAnswers: 0, questionSimilarity: null};
+
+    const questionId = answer.questionId.toString();
+
+    const others = (await this.answerRepo.getByQuestionId(questionId)).filter(
+      other =>
+        other._id!.toString() !== answerId &&
+        other.authorId?.toString() !== answer.authorId.toString(),
+    );
+    const scores = await this.scorer.score(
+      answer.answer,
+      others.map(other => other.answer ?? ''),
+    );
+
+    return this._withTransaction(async (session: ClientSession) => {
+      await this.similarityRepo.upsertScores(
+        questionId,
+        answerId,
+        others.map((other, index) => ({
+          answerId: other._id!.toString(),
+          score: scores[index],
+        })),
+        this.scorer.name,
+        session,
+      );
+
+      // The question's score is the mean similarity over all answer pairs
+      const questionScores = await this.similarityRepo.getScoresForQuestion(
+        questionId,
+        session,
+      );
+      const questionSimilarity =
+        questionScores.length > 0
+          ? questionScores.reduce((sum, s) => sum + s.score, 0) /
+            questionScores.length
+          : null;
+      if (questionSimilarity !== null) {
+        await this.questionRepo.updateQuestion(
+          questionId,
+          {similarity_score: questionSimilarity},
+          session,
+        );
+      }
+
+      return {comparedAnswers: others.length, questionSimilarity};
+    });
+  }
+
+  // Highest similarity between an answer and any answer written independently by another expert
+  async getExpertAgreement(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<number | null> {
+    const scores = await this.similarityRepo.getScoresForAnswer(
+      answerId,
+      session,
+    );
+    return scores.length > 0 ? Math.max(...scores.map(s => s.score)) : null;
+  }
+
+  async getScoresForAnswer(
+    answerId: string,
+    session?: ClientSession,
+  ): Promise<IAnswerSimilarity[]> {
+    return this.similarityRepo.getScoresForAnswer(answerId, session);
+  }
+}
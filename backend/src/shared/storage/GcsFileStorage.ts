@@ -0,0 +1,32 @@
+import {injectable} from 'inversify';
+import {Storage} from '@google-cloud/storage';
+import {storageConfig} from '#root/config/storage.js';
+import {IFileStorage} from './IFileStorage.js';
+
+/**
+ * Keeps files in the Google Cloud Storage bucket configured for audio.
+ * Credentials come from the environment (GOOGLE_APPLICATION_CREDENTIALS or the instance account).
+ */
+@injectable()
+export class GcsFileStorage implements IFileStorage {
+  readonly name = 'gcs';
+  private readonly bucket = new Storage({
+    projectId: storageConfig.googleCloud.projectId,
+  }).bucket(storageConfig.audio.bucketName);
+
+  async save(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.bucket.file(key).save(data, {contentType, resumable: false});
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const file = this.bucket.file(key);
+    const [exists] = await file.exists();
+    if (!exists) return null;
+    const [data] = await file.download();
+    return data;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.file(key).delete({ignoreNotFound: true});
+  }
+}
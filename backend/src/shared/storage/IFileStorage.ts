@@ -0,0 +1,30 @@
+/**
+ * Interface representing a place where uploaded files are kept.
+ */
+export interface IFileStorage {
+  /** Name stored with every file, e.g. 'local'. */
+  readonly name: 'local' | 'gcs';
+
+  /**
+   * Stores a file, replacing any file with the same key.
+   * @param key - Path of the file within the storage, e.g. 'contexts/<id>.webm'.
+   * @param data - The file contents.
+   * @param contentType - MIME type of the file.
+   * @returns A promise that resolves once the file is stored.
+   */
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Reads a stored file.
+   * @param key - Path the file was saved under.
+   * @returns A promise that resolves to the file contents, or null if there is no such file.
+   */
+  read(key: string): Promise<Buffer | null>;
+
+  /**
+   * Removes a stored file. Removing a file that does not exist is not an error.
+   * @param key - Path the file was saved under.
+   * @returns A promise that resolves once the file is gone.
+   */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,43 @@
+import {injectable} from 'inversify';
+import {mkdir, readFile, rm, writeFile} from 'fs/promises';
+import {dirname, resolve, sep} from 'path';
+import {storageConfig} from '#root/config/storage.js';
+import {IFileStorage} from './IFileStorage.js';
+
+/**
+ * Keeps files in a directory on the server's disk. Suitable for a single
+ * instance; deployments with several instances should use the bucket.
+ */
+@injectable()
+export class LocalFileStorage implements IFileStorage {
+  readonly name = 'local';
+  private readonly root = resolve(storageConfig.audio.localDir);
+
+  async save(key: string, data: Buffer, contentType: string): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), {recursive: true});
+    await writeFile(path, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), {force: true});
+  }
+
+  // Keys are generated by the server, but never let one point outside the directory
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
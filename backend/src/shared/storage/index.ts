@@ -0,0 +1,3 @@
+export * from './IFileStorage.js';
+export * from './LocalFileStorage.js';
+export * from './GcsFileStorage.js';
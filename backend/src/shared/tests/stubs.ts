@@ -0,0 +1,33 @@
+import {ClientSession, MongoClient} from 'mongodb';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+
+/**
+ * Types a partial implementation as the full dependency. Members the test did not
+ * provide throw when used, so a service reaching for an unexpected dependency fails
+ * with the member's name instead of a TypeError on undefined.
+ */
+export const stubOf = <T extends object>(members: Partial<T> = {}): T =>
+  new Proxy(members as T, {
+    get: (target, property, receiver) => {
+      // Awaiting a stub checks for `then`; symbols are probed by inspection
+      if (property in target || property === 'then' || typeof property === 'symbol') {
+        return Reflect.get(target, property, receiver);
+      }
+      throw new Error(`Stub does not implement ${String(property)}`);
+    },
+  });
+
+/**
+ * A database whose transactions are no-ops, for services extending BaseService.
+ */
+export const stubDatabase = (): MongoDatabase => {
+  const session = stubOf<ClientSession>({
+    startTransaction: () => {},
+    commitTransaction: async () => {},
+    abortTransaction: async () => {},
+    inTransaction: () => false,
+    endSession: async () => {},
+  });
+  const client = stubOf<MongoClient>({startSession: () => session});
+  return stubOf<MongoDatabase>({getClient: async () => client});
+};
@@ -0,0 +1,65 @@
+import axios from 'axios';
+import {injectable} from 'inversify';
+import {SocksProxyAgent} from 'socks-proxy-agent';
+import {InternalServerError} from 'routing-controllers';
+import {aiConfig} from '#root/config/ai.js';
+import {detectLanguage} from '#root/utils/language.js';
+import {ITranscriber, Transcription} from './ITranscriber.js';
+
+// Shape returned by the AI server's transcription endpoint
+interface AiServerTranscriptionResponse {
+  text?: unknown;
+  language?: unknown;
+}
+
+@injectable()
+export class AiServerTranscriber implements ITranscriber {
+  private readonly name = 'ai-server';
+
+  async transcribe(
+    audio: Buffer,
+    mimeType: string,
+    language?: string,
+  ): Promise<Transcription> {
+    const url = `http://${aiConfig.serverIP}:${aiConfig.serverPort}/transcribe`;
+    const agent = aiConfig.useProxy
+      ? new SocksProxyAgent(aiConfig.proxyAddress)
+      : undefined;
+
+    try {
+      const response = await axios.post<AiServerTranscriptionResponse>(
+        url,
+        {
+          audio: audio.toString('base64'),
+          mime_type: mimeType,
+          language,
+        },
+        {
+          timeout: aiConfig.requestTimeout,
+          httpAgent: agent,
+          httpsAgent: agent,
+          // Recordings are sent inline, so lift axios' default body limit
+          maxBodyLength: Infinity,
+        },
+      );
+
+      const {text, language: detected} = response.data ?? {};
+      if (typeof text !== 'string') {
+        throw new Error('Response does not contain a transcript');
+      }
+
+      return {
+        text: text.trim(),
+        language:
+          typeof detected === 'string' && detected
+            ? detected
+            : (language ?? detectLanguage(text)),
+        transcriber: this.name,
+      };
+    } catch (error) {
+      throw new InternalServerError(
+        `Transcription via AI server failed: ${error}`,
+      );
+    }
+  }
+}
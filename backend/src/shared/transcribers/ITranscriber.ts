@@ -0,0 +1,29 @@
+/**
+ * Result of transcribing a recording.
+ */
+export interface Transcription {
+  /** The recognised speech. Empty when the recording contains none. */
+  text: string;
+  /** BCP 47 tag of the spoken language, e.g. 'hi-IN'. */
+  language: string;
+  /** Name of the transcriber that produced the text. */
+  transcriber: string;
+}
+
+/**
+ * Interface representing a speech-to-text provider for uploaded recordings.
+ */
+export interface ITranscriber {
+  /**
+   * Transcribes an audio recording.
+   * @param audio - The recording's contents.
+   * @param mimeType - MIME type of the recording, e.g. 'audio/webm'.
+   * @param language - Language the speaker chose, if any; providers may use it as a hint.
+   * @returns A promise that resolves to the transcript and its detected language.
+   */
+  transcribe(
+    audio: Buffer,
+    mimeType: string,
+    language?: string,
+  ): Promise<Transcription>;
+}
@@ -0,0 +1,28 @@
+import {injectable} from 'inversify';
+import {ITranscriber, Transcription} from './ITranscriber.js';
+
+const DEFAULT_LANGUAGE = 'en-IN';
+
+/**
+ * Placeholder transcriber for tests and offline development. It does not
+ * recognise speech; it describes the recording so the pipeline can run end to end.
+ */
+@injectable()
+export class StubTranscriber implements ITranscriber {
+  private readonly name = 'stub';
+
+  async transcribe(
+    audio: Buffer,
+    mimeType: string,
+    language?: string,
+  ): Promise<Transcription> {
+    return {
+      text:
+        audio.length > 0
+          ? `Stub transcript of a ${audio.length} byte ${mimeType} recording.`
+          : '',
+      language: language ?? DEFAULT_LANGUAGE,
+      transcriber: this.name,
+    };
+  }
+}
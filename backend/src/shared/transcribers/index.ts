@@ -0,0 +1,3 @@
+export * from './ITranscriber.js';
+export * from './AiServerTranscriber.js';
+export * from './StubTranscriber.js';
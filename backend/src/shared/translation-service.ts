@@ -0,0 +1,105 @@
+import {ITranslation} from '#root/shared/interfaces/models.js';
+import {ITranslationRepository} from '#root/shared/database/interfaces/ITranslationRepository.js';
+import {ITranslator} from '#root/shared/translators/index.js';
+import {detectLanguage, isSameLanguage} from '#root/utils/language.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {createHash} from 'crypto';
+
+export interface TranslatableText {
+  sourceType: ITranslation['sourceType'];
+  sourceId: string;
+  text: string;
+  language?: string; // Detected again for documents stored before languages were recorded
+}
+
+export interface TranslatedText {
+  text: string;
+  language: string;
+  originalText?: string; // Set when `text` is a translation
+  originalLanguage?: string;
+}
+
+const hashText = (text: string) =>
+  createHash('sha256').update(text).digest('hex');
+
+@injectable()
+export class TranslationService {
+  constructor(
+    @inject(GLOBAL_TYPES.TranslationRepository)
+    private readonly translationRepo: ITranslationRepository,
+
+    @inject(GLOBAL_TYPES.Translator)
+    private readonly translator: ITranslator,
+  ) {}
+
+  // Stored texts stay canonical; translations are derived on demand and cached per version of the text
+  async translateTexts(
+    items: TranslatableText[],
+    targetLanguage: string,
+  ): Promise<TranslatedText[]> {
+    const sources = items.map(item => ({
+      ...item,
+      language: item.language ?? detectLanguage(item.text),
+      sourceHash: hashText(item.text),
+    }));
+    const pending = sources.filter(
+      source => source.text && !isSameLanguage(source.language, targetLanguage),
+    );
+
+    const cached = await this.translationRepo.getTranslations(
+      pending,
+      targetLanguage,
+    );
+    const translations = new Map(
+      cached.map(t => [
+        `${t.sourceType}:${t.sourceId.toString()}:${t.sourceHash}`,
+        t.text,
+      ]),
+    );
+    const keyOf = (source: (typeof sources)[number]) =>
+      `${source.sourceType}:${source.sourceId}:${source.sourceHash}`;
+
+    // One translator call per source language for whatever is not cached yet
+    const missing = pending.filter(source => !translations.has(keyOf(source)));
+    const bySourceLanguage = new Map<string, typeof missing>();
+    for (const source of missing) {
+      bySourceLanguage.set(source.language, [
+        ...(bySourceLanguage.get(source.language) ?? []),
+        source,
+      ]);
+    }
+    for (const [sourceLanguage, group] of bySourceLanguage) {
+      const result = await this.translator.translate(
+        group.map(source => source.text),
+        sourceLanguage,
+        targetLanguage,
+      );
+      await this.translationRepo.saveTranslations(
+        group.map((source, index) => ({
+          sourceType: source.sourceType,
+          sourceId: source.sourceId,
+          sourceHash: source.sourceHash,
+          language: targetLanguage,
+          text: result.texts[index],
+          translator: result.translator,
+        })),
+      );
+      group.forEach((source, index) =>
+        translations.set(keyOf(source), result.texts[index]),
+      );
+    }
+
+    return sources.map(source => {
+      const translated = translations.get(keyOf(source));
+      return translated === undefined
+        ? {text: source.text, language: source.language}
+        : {
+            text: translated,
+            language: targetLanguage,
+            originalText: source.text,
+            originalLanguage: source.language,
+          };
+    });
+  }
+}
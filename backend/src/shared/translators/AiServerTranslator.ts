@@ -0,0 +1,60 @@
+import axios from 'axios';
+import {injectable} from 'inversify';
+import {SocksProxyAgent} from 'socks-proxy-agent';
+import {InternalServerError} from 'routing-controllers';
+import {aiConfig} from '#root/config/ai.js';
+import {ITranslator, Translations} from './ITranslator.js';
+
+// Shape returned by the AI server's translation endpoint
+interface AiServerTranslationResponse {
+  translations?: unknown;
+}
+
+@injectable()
+export class AiServerTranslator implements ITranslator {
+  private readonly name = 'ai-server';
+
+  async translate(
+    texts: string[],
+    sourceLanguage: string,
+    targetLanguage: string,
+  ): Promise<Translations> {
+    if (texts.length === 0) return {texts: [], translator: this.name};
+
+    const url = `http://${aiConfig.serverIP}:${aiConfig.serverPort}/translate`;
+    const agent = aiConfig.useProxy
+      ? new SocksProxyAgent(aiConfig.proxyAddress)
+      : undefined;
+
+    try {
+      const response = await axios.post<AiServerTranslationResponse>(
+        url,
+        {
+          texts,
+          source_language: sourceLanguage,
+          target_language: targetLanguage,
+        },
+        {
+          timeout: aiConfig.requestTimeout,
+          httpAgent: agent,
+          httpsAgent: agent,
+        },
+      );
+
+      const translations = response.data?.translations;
+      if (
+        !Array.isArray(translations) ||
+        translations.length !== texts.length ||
+        !translations.every(t => typeof t === 'string')
+      ) {
+        throw new Error('Response does not contain one translation per text');
+      }
+
+      return {texts: translations as string[], translator: this.name};
+    } catch (error) {
+      throw new InternalServerError(
+        `Translation via AI server failed: ${error}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Result of a translation run.
+ */
+export interface Translations {
+  /** One translation per input text, in the same order. */
+  texts: string[];
+  /** Name of the translator that produced the texts. */
+  translator: string;
+}
+
+/**
+ * Interface representing a machine translation provider.
+ */
+export interface ITranslator {
+  /**
+   * Translates texts written in one language into another.
+   * @param texts - The texts to translate, e.g. a question and its answers.
+   * @param sourceLanguage - Language of the texts (BCP 47), e.g. 'en-IN'.
+   * @param targetLanguage - Language to translate into (BCP 47), e.g. 'mr-IN'.
+   * @returns A promise that resolves to the translations and their provenance.
+   */
+  translate(
+    texts: string[],
+    sourceLanguage: string,
+    targetLanguage: string,
+  ): Promise<Translations>;
+}
@@ -0,0 +1,23 @@
+import {injectable} from 'inversify';
+import {ITranslator, Translations} from './ITranslator.js';
+
+/**
+ * Placeholder translator for tests and offline development. It tags each text
+ * with the target language instead of translating it, so the flow can be
+ * exercised without the AI server.
+ */
+@injectable()
+export class StubTranslator implements ITranslator {
+  private readonly name = 'stub';
+
+  async translate(
+    texts: string[],
+    sourceLanguage: string,
+    targetLanguage: string,
+  ): Promise<Translations> {
+    return {
+      texts: texts.map(text => `[${targetLanguage}] ${text}`),
+      translator: this.name,
+    };
+  }
+}
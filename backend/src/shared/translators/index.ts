@@ -0,0 +1,3 @@
+export * from './ITranslator.js';
+export * from './AiServerTranslator.js';
+export * from './StubTranslator.js';
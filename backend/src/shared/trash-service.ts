@@ -0,0 +1,635 @@
+import {
+  IAnswer,
+  IContext,
+  IQuestion,
+  ISoftDeletion,
+} from '#root/shared/interfaces/models.js';
+import {BaseService} from '#root/shared/classes/BaseService.js';
+import {MongoDatabase} from '#root/shared/database/providers/mongo/MongoDatabase.js';
+import {Logger} from '#root/shared/logging/index.js';
+import {IQuestionRepository} from '#root/shared/database/interfaces/IQuestionRepository.js';
+import {IAnswerRepository} from '#root/shared/database/interfaces/IAnswerRepository.js';
+import {IContextRepository} from '#root/shared/database/interfaces/IContextRepository.js';
+import {IPeerReviewRepository} from '#root/shared/database/interfaces/IPeerReviewRepository.js';
+import {IReviewerAssignmentRepository} from '#root/shared/database/interfaces/IReviewerAssignmentRepository.js';
+import {IAnswerRevisionRepository} from '#root/shared/database/interfaces/IAnswerRevisionRepository.js';
+import {IAnswerSimilarityRepository} from '#root/shared/database/interfaces/IAnswerSimilarityRepository.js';
+import {ITranslationRepository} from '#root/shared/database/interfaces/ITranslationRepository.js';
+import {IBlindReviewRepository} from '#root/shared/database/interfaces/IBlindReviewRepository.js';
+import {IFileStorage} from '#root/shared/storage/index.js';
+import {PeerReviewService} from '#root/shared/peer-review-service.js';
+import {AuditRecord, AuditService} from '#root/shared/audit-service.js';
+import {pickSnapshot} from '#root/utils/auditLog.js';
+import {trashConfig} from '#root/config/trash.js';
+import {GLOBAL_TYPES} from '#root/types.js';
+import {inject, injectable} from 'inversify';
+import {ClientSession} from 'mongodb';
+import {BadRequestError, NotFoundError} from 'routing-controllers';
+
+export type TrashEntityType = 'question' | 'answer' | 'context';
+
+export const TRASH_ENTITY_TYPES: TrashEntityType[] = [
+  'question',
+  'answer',
+  'context',
+];
+
+// Longest excerpt of a trashed document's text shown in the trash listing
+const TRASH_EXCERPT_LENGTH = 200;
+
+// A document an admin deleted, as listed in the trash; documents deleted with it are not listed
+export interface TrashItem {
+  id: string;
+  entityType: TrashEntityType;
+  text: string; // Start of the question, answer or transcript
+  questionId?: string; // Question of a trashed answer
+  deletedAt: string;
+  deletedBy?: string;
+  purgeAt: string; // When the purge removes the document for good
+}
+
+// What a delete or restore changed besides the document itself
+export interface TrashCascade {
+  answerCount: number;
+  reviewCount: number;
+  assignmentCount: number;
+}
+
+export interface TrashPurgeResult {
+  questions: number;
+  answers: number;
+  contexts: number;
+  reviews: number;
+  assignments: number;
+}
+
+const excerpt = (text: string): string =>
+  text.length > TRASH_EXCERPT_LENGTH
+    ? `${text.slice(0, TRASH_EXCERPT_LENGTH).trimEnd()}…`
+    : text;
+
+const toTrashItem = (
+  entityType: TrashEntityType,
+  doc: IQuestion | IAnswer | IContext,
+  text: string,
+  questionId?: string,
+): TrashItem => ({
+  id: doc._id!.toString(),
+  entityType,
+  text: excerpt(text),
+  ...(questionId && {questionId}),
+  deletedAt: doc.deletedAt!.toISOString(),
+  ...(doc.deletedBy && {deletedBy: doc.deletedBy.toString()}),
+  purgeAt: new Date(
+    doc.deletedAt!.getTime() + trashConfig.retention,
+  ).toISOString(),
+});
+
+const deletionRecords = (
+  entityType: AuditRecord['entityType'],
+  ids: string[],
+  deletion: ISoftDeletion,
+): AuditRecord[] =>
+  ids.map(entityId => ({
+    action: 'delete',
+    entityType,
+    entityId,
+    after: pickSnapshot(deletion, ['deletedAt', 'deletedWith']),
+  }));
+
+const restoreRecords = (
+  entityType: AuditRecord['entityType'],
+  ids: string[],
+  restoredWith?: string,
+): AuditRecord[] =>
+  ids.map(entityId => ({
+    action: 'restore',
+    entityType,
+    entityId,
+    ...(restoredWith && {after: {restoredWith}}),
+  }));
+
+const purgeRecords = (
+  entityType: AuditRecord['entityType'],
+  ids: string[],
+): AuditRecord[] =>
+  ids.map(entityId => ({action: 'purge', entityType, entityId}));
+
+/**
+ * Moves questions, answers and contexts to the trash and back. Deleting a
+ * question or answer also trashes what depends on it, after cancelling its open
+ * reviews so reviewers get their load back; restoring it brings back exactly
+ * what was trashed with it and requests the cancelled reviews again. Deleting a
+ * canonical question hands its open duplicates to the oldest of them. Trashed
+ * documents are purged for good once the retention period has passed.
+ */
+@injectable()
+export class TrashService extends BaseService {
+  constructor(
+    @inject(GLOBAL_TYPES.QuestionRepository)
+    private readonly questionRepo: IQuestionRepository,
+
+    @inject(GLOBAL_TYPES.AnswerRepository)
+    private readonly answerRepo: IAnswerRepository,
+
+    @inject(GLOBAL_TYPES.ContextRepository)
+    private readonly contextRepo: IContextRepository,
+
+    @inject(GLOBAL_TYPES.PeerReviewRepository)
+    private readonly peerReviewRepo: IPeerReviewRepository,
+
+    @inject(GLOBAL_TYPES.ReviewerAssignmentRepository)
+    private readonly reviewerAssignmentRepo: IReviewerAssignmentRepository,
+
+    @inject(GLOBAL_TYPES.AnswerRevisionRepository)
+    private readonly answerRevisionRepo: IAnswerRevisionRepository,
+
+    @inject(GLOBAL_TYPES.AnswerSimilarityRepository)
+    private readonly answerSimilarityRepo: IAnswerSimilarityRepository,
+
+    @inject(GLOBAL_TYPES.TranslationRepository)
+    private readonly translationRepo: ITranslationRepository,
+
+    @inject(GLOBAL_TYPES.BlindReviewRepository)
+    private readonly blindReviewRepo: IBlindReviewRepository,
+
+    @inject(GLOBAL_TYPES.FileStorage)
+    private readonly fileStorage: IFileStorage,
+
+    @inject(GLOBAL_TYPES.PeerReviewService)
+    private readonly peerReviewService: PeerReviewService,
+
+    @inject(GLOBAL_TYPES.AuditService)
+    private readonly audit: AuditService,
+
+    @inject(GLOBAL_TYPES.Database)
+    private readonly mongoDatabase: MongoDatabase,
+
+    @inject(GLOBAL_TYPES.Logger)
+    private readonly logger: Logger,
+  ) {
+    super(mongoDatabase);
+  }
+
+  // Trash a question together with its answers and their reviews and assignments
+  async deleteQuestion(
+    questionId: string,
+    adminId: string,
+  ): Promise<{deletedCount: number} & TrashCascade> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const [question] = await this.questionRepo.getByIds(
+        [questionId],
+        session,
+      );
+      if (!question) {
+        throw new NotFoundError(`Question with ID ${questionId} not found`);
+      }
+
+      const deletion: ISoftDeletion = {
+        deletedAt: new Date(),
+        deletedBy: adminId,
+      };
+      if (
+        !(await this.questionRepo.softDeleteQuestion(
+          questionId,
+          deletion,
+          session,
+        ))
+      ) {
+        throw new NotFoundError(`Question with ID ${questionId} not found`);
+      }
+
+      const cascadeDeletion: ISoftDeletion = {
+        ...deletion,
+        deletedWith: questionId,
+      };
+      const answers = await this.answerRepo.getByQuestionId(
+        questionId,
+        session,
+      );
+      const reviews = await this.trashReviews(
+        answers.map(answer => answer._id!.toString()),
+        cascadeDeletion,
+        session,
+      );
+      const answerIds = await this.answerRepo.softDeleteForQuestion(
+        questionId,
+        cascadeDeletion,
+        session,
+      );
+      // Duplicates of the question must not point experts at a question they cannot answer
+      const {canonicalId} = await this.questionRepo.promoteDuplicate(
+        questionId,
+        session,
+      );
+      const promoted: AuditRecord[] = canonicalId
+        ? [
+            {
+              action: 'update',
+              entityType: 'question',
+              entityId: canonicalId,
+              before: {duplicateOf: questionId},
+            },
+          ]
+        : [];
+      await this.audit.record(
+        [
+          {
+            action: 'delete',
+            entityType: 'question',
+            entityId: questionId,
+            before: pickSnapshot(question, [
+              'question',
+              'status',
+              'totalAnwersCount',
+            ]),
+            after: {deletedAt: deletion.deletedAt},
+          },
+          ...deletionRecords('answer', answerIds, cascadeDeletion),
+          ...promoted,
+        ],
+        session,
+      );
+
+      return {deletedCount: 1, answerCount: answerIds.length, ...reviews};
+    });
+  }
+
+  // Trash an answer together with its reviews and assignments
+  async deleteAnswer(
+    answerId: string,
+    adminId: string,
+  ): Promise<{deletedCount: number} & TrashCascade> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const answer = await this.answerRepo.getById(answerId, session);
+      if (!answer) {
+        throw new NotFoundError(`Answer with ID ${answerId} not found`);
+      }
+      if (answer.isFinalAnswer) {
+        throw new BadRequestError(
+          'The final answer of a question cannot be deleted; delete the question instead',
+        );
+      }
+
+      const deletion: ISoftDeletion = {
+        deletedAt: new Date(),
+        deletedBy: adminId,
+      };
+      if (
+        !(await this.answerRepo.softDeleteAnswer(answerId, deletion, session))
+      ) {
+        throw new NotFoundError(`Answer with ID ${answerId} not found`);
+      }
+      const reviews = await this.trashReviews(
+        [answerId],
+        {...deletion, deletedWith: answerId},
+        session,
+      );
+      await this.adjustAnswerCount(answer.questionId.toString(), -1, session);
+      await this.audit.record(
+        {
+          action: 'delete',
+          entityType: 'answer',
+          entityId: answerId,
+          before: pickSnapshot(answer, ['questionId', 'authorId', 'answer']),
+          after: {deletedAt: deletion.deletedAt},
+        },
+        session,
+      );
+
+      return {deletedCount: 1, answerCount: 0, ...reviews};
+    });
+  }
+
+  // Trash a context; questions generated from it are answered on their own and stay
+  async deleteContext(
+    contextId: string,
+    adminId: string,
+  ): Promise<{deletedCount: number}> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const deletion: ISoftDeletion = {
+        deletedAt: new Date(),
+        deletedBy: adminId,
+      };
+      if (
+        !(await this.contextRepo.softDeleteContext(
+          contextId,
+          deletion,
+          session,
+        ))
+      ) {
+        throw new NotFoundError(`Context with ID ${contextId} not found`);
+      }
+      await this.audit.record(
+        {
+          action: 'delete',
+          entityType: 'context',
+          entityId: contextId,
+          after: {deletedAt: deletion.deletedAt},
+        },
+        session,
+      );
+
+      return {deletedCount: 1};
+    });
+  }
+
+  async restoreQuestion(
+    questionId: string,
+  ): Promise<{restoredCount: number} & TrashCascade> {
+    return this._withTransaction(async (session: ClientSession) => {
+      if (!(await this.questionRepo.restoreQuestion(questionId, session))) {
+        throw new NotFoundError(
+          `Question with ID ${questionId} is not in the trash`,
+        );
+      }
+
+      const answerIds = await this.answerRepo.restoreDeletedWith(
+        questionId,
+        session,
+      );
+      const reviewIds = await this.peerReviewRepo.restoreDeletedWith(
+        questionId,
+        session,
+      );
+      const assignmentIds =
+        await this.reviewerAssignmentRepo.restoreDeletedWith(
+          questionId,
+          session,
+        );
+      for (const answerId of answerIds) {
+        await this.peerReviewService.resumeReviews(answerId, session);
+      }
+      await this.audit.record(
+        [
+          ...restoreRecords('question', [questionId]),
+          ...restoreRecords('answer', answerIds, questionId),
+          ...restoreRecords('peer_review', reviewIds, questionId),
+          ...restoreRecords('reviewer_assignment', assignmentIds, questionId),
+        ],
+        session,
+      );
+
+      return {
+        restoredCount: 1,
+        answerCount: answerIds.length,
+        reviewCount: reviewIds.length,
+        assignmentCount: assignmentIds.length,
+      };
+    });
+  }
+
+  async restoreAnswer(
+    answerId: string,
+  ): Promise<{restoredCount: number} & TrashCascade> {
+    return this._withTransaction(async (session: ClientSession) => {
+      const answer = await this.answerRepo.getDeletedById(answerId, session);
+      if (!answer) {
+        throw new NotFoundError(
+          `Answer with ID ${answerId} is not in the trash`,
+        );
+      }
+      if (answer.deletedWith) {
+        throw new BadRequestError(
+          `Answer was deleted with question ${answer.deletedWith}; restore the question instead`,
+        );
+      }
+
+      const questionId = answer.questionId.toString();
+      const [question] = await this.questionRepo.getByIds(
+        [questionId],
+        session,
+      );
+      if (!question) {
+        throw new BadRequestError(
+          `Question ${questionId} is in the trash; restore it first`,
+        );
+      }
+      if (
+        await this.answerRepo.getByAuthorId(
+          answer.authorId.toString(),
+          questionId,
+          session,
+        )
+      ) {
+        throw new BadRequestError(
+          'The author has answered the question again since this answer was deleted',
+        );
+      }
+
+      if (!(await this.answerRepo.restoreAnswer(answerId, session))) {
+        throw new NotFoundError(
+          `Answer with ID ${answerId} is not in the trash`,
+        );
+      }
+      const reviewIds = await this.peerReviewRepo.restoreDeletedWith(
+        answerId,
+        session,
+      );
+      const assignmentIds =
+        await this.reviewerAssignmentRepo.restoreDeletedWith(answerId, session);
+      await this.adjustAnswerCount(questionId, 1, session);
+      await this.peerReviewService.resumeReviews(answerId, session);
+      await this.audit.record(
+        [
+          ...restoreRecords('answer', [answerId]),
+          ...restoreRecords('peer_review', reviewIds, answerId),
+          ...restoreRecords('reviewer_assignment', assignmentIds, answerId),
+        ],
+        session,
+      );
+
+      return {
+        restoredCount: 1,
+        answerCount: 0,
+        reviewCount: reviewIds.length,
+        assignmentCount: assignmentIds.length,
+      };
+    });
+  }
+
+  async restoreContext(contextId: string): Promise<{restoredCount: number}> {
+    return this._withTransaction(async (session: ClientSession) => {
+      if (!(await this.contextRepo.restoreContext(contextId, session))) {
+        throw new NotFoundError(
+          `Context with ID ${contextId} is not in the trash`,
+        );
+      }
+      await this.audit.record(
+        {action: 'restore', entityType: 'context', entityId: contextId},
+        session,
+      );
+
+      return {restoredCount: 1};
+    });
+  }
+
+  // List what admins deleted, most recent first
+  async listTrash(
+    entityType: TrashEntityType,
+    page: number,
+    limit: number,
+  ): Promise<{items: TrashItem[]; total: number}> {
+    switch (entityType) {
+      case 'question': {
+        const {questions, total} = await this.questionRepo.getTrash(
+          page,
+          limit,
+        );
+        return {
+          items: questions.map(q => toTrashItem('question', q, q.question)),
+          total,
+        };
+      }
+      case 'answer': {
+        const {answers, total} = await this.answerRepo.getTrash(page, limit);
+        return {
+          items: answers.map(a =>
+            toTrashItem('answer', a, a.answer, a.questionId.toString()),
+          ),
+          total,
+        };
+      }
+      case 'context': {
+        const {contexts, total} = await this.contextRepo.getTrash(page, limit);
+        return {
+          items: contexts.map(c =>
+            toTrashItem('context', c, c.text || (c.audio?.originalName ?? '')),
+          ),
+          total,
+        };
+      }
+    }
+  }
+
+  /**
+   * Removes everything that has been in the trash for longer than the
+   * retention period, together with the revisions, similarity scores,
+   * translations and blind rankings derived from it. Recordings of purged
+   * contexts are removed once the purge has committed.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<TrashPurgeResult> {
+    const before = new Date(now.getTime() - trashConfig.retention);
+
+    const {result, contexts} = await this._withTransaction(
+      async (session: ClientSession) => {
+        const questionIds = await this.questionRepo.purgeDeleted(
+          before,
+          session,
+        );
+        const answerIds = await this.answerRepo.purgeDeleted(before, session);
+        const reviewIds = await this.peerReviewRepo.purgeDeleted(
+          before,
+          session,
+        );
+        const assignmentIds = await this.reviewerAssignmentRepo.purgeDeleted(
+          before,
+          session,
+        );
+        const contexts = await this.contextRepo.purgeDeleted(before, session);
+        const contextIds = contexts.map(context => context._id!.toString());
+
+        await this.answerRevisionRepo.deleteForAnswers(answerIds, session);
+        await this.answerSimilarityRepo.deleteForAnswers(answerIds, session);
+        await this.translationRepo.deleteForSources(
+          'answer',
+          answerIds,
+          session,
+        );
+        await this.translationRepo.deleteForSources(
+          'question',
+          questionIds,
+          session,
+        );
+        await this.blindReviewRepo.deleteForQuestions(questionIds, session);
+        await this.audit.record(
+          [
+            ...purgeRecords('question', questionIds),
+            ...purgeRecords('answer', answerIds),
+            ...purgeRecords('peer_review', reviewIds),
+            ...purgeRecords('reviewer_assignment', assignmentIds),
+            ...purgeRecords('context', contextIds),
+          ],
+          session,
+        );
+
+        return {
+          result: {
+            questions: questionIds.length,
+            answers: answerIds.length,
+            contexts: contextIds.length,
+            reviews: reviewIds.length,
+            assignments: assignmentIds.length,
+          },
+          contexts,
+        };
+      },
+    );
+
+    // A recording left behind by a failed removal is harmless; its context is gone
+    for (const context of contexts) {
+      if (!context.audio) continue;
+      try {
+        await this.fileStorage.delete(context.audio.key);
+      } catch (error) {
+        this.logger.warn('Could not remove the recording of a purged context', {
+          contextId: context._id,
+          key: context.audio.key,
+          error,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // Cancel the open reviews of the answers, then trash their reviews and assignments
+  private async trashReviews(
+    answerIds: string[],
+    deletion: ISoftDeletion,
+    session: ClientSession,
+  ): Promise<Omit<TrashCascade, 'answerCount'>> {
+    for (const answerId of answerIds) {
+      await this.peerReviewService.cancelOpenReviews(answerId, session);
+    }
+
+    const reviewIds = await this.peerReviewRepo.softDeleteForAnswers(
+      answerIds,
+      deletion,
+      session,
+    );
+    const assignmentIds =
+      await this.reviewerAssignmentRepo.softDeleteForAnswers(
+        answerIds,
+        deletion,
+        session,
+      );
+    await this.audit.record(
+      [
+        ...deletionRecords('peer_review', reviewIds, deletion),
+        ...deletionRecords('reviewer_assignment', assignmentIds, deletion),
+      ],
+      session,
+    );
+
+    return {
+      reviewCount: reviewIds.length,
+      assignmentCount: assignmentIds.length,
+    };
+  }
+
+  private async adjustAnswerCount(
+    questionId: string,
+    change: number,
+    session: ClientSession,
+  ): Promise<void> {
+    const [question] = await this.questionRepo.getByIds([questionId], session);
+    if (!question) return;
+
+    await this.questionRepo.updateQuestion(
+      questionId,
+      {totalAnwersCount: Math.max(0, question.totalAnwersCount + change)},
+      session,
+    );
+  }
+}
@@ -11,14 +11,51 @@ const TYPES = {
   QuestionService: Symbol.for('QuestionService'),
   AnswerService: Symbol.for('AnswerService'),
   ContextService: Symbol.for('ContextService'),
+  ReviewerAssignmentService: Symbol.for('ReviewerAssignmentService'),
+  PeerReviewService: Symbol.for('PeerReviewService'),
+  QuestionGenerator: Symbol.for('QuestionGenerator'),
+  JobQueueService: Symbol.for('JobQueueService'),
+  JobWorker: Symbol.for('JobWorker'),
+  ReviewDeadlineScheduler: Symbol.for('ReviewDeadlineScheduler'),
+  TrashPurgeScheduler: Symbol.for('TrashPurgeScheduler'),
+  GenerateQuestionsJobHandler: Symbol.for('GenerateQuestionsJobHandler'),
+  AssignReviewersJobHandler: Symbol.for('AssignReviewersJobHandler'),
+  ScoreSimilarityJobHandler: Symbol.for('ScoreSimilarityJobHandler'),
+  TranscribeAudioJobHandler: Symbol.for('TranscribeAudioJobHandler'),
+  SendNotificationJobHandler: Symbol.for('SendNotificationJobHandler'),
+  SimilarityService: Symbol.for('SimilarityService'),
+  SimilarityScorer: Symbol.for('SimilarityScorer'),
+  TranslationService: Symbol.for('TranslationService'),
+  Translator: Symbol.for('Translator'),
+  UserService: Symbol.for('UserService'),
+  GoldenDatasetService: Symbol.for('GoldenDatasetService'),
+  FileStorage: Symbol.for('FileStorage'),
+  Transcriber: Symbol.for('Transcriber'),
+  Logger: Symbol.for('Logger'),
+  NotificationService: Symbol.for('NotificationService'),
+  MailTransport: Symbol.for('MailTransport'),
+  NotificationCenterService: Symbol.for('NotificationCenterService'),
+  RealtimeHub: Symbol.for('RealtimeHub'),
+  QuestionLifecycleService: Symbol.for('QuestionLifecycleService'),
+  AuditService: Symbol.for('AuditService'),
+  AuditLogService: Symbol.for('AuditLogService'),
+  TrashService: Symbol.for('TrashService'),
 
   // Repositories
   QuestionRepository: Symbol.for('QuestionRepository'),
   AnswerRepository: Symbol.for('AnswerRepository'),
+  AnswerRevisionRepository: Symbol.for('AnswerRevisionRepository'),
+  AnswerSimilarityRepository: Symbol.for('AnswerSimilarityRepository'),
+  BlindReviewRepository: Symbol.for('BlindReviewRepository'),
   ContextRepository: Symbol.for('ContextRepository'),
+  JobRepository: Symbol.for('JobRepository'),
   UserRepository: Symbol.for('userRepository'),
   PeerReviewRepository: Symbol.for('PeerReviewRepository'),
   ReviewerAssignmentRepository: Symbol.for('ReviewerAssignmentRepository'),
+  ReviewerProfileRepository: Symbol.for('ReviewerProfileRepository'),
+  TranslationRepository: Symbol.for('TranslationRepository'),
+  NotificationRepository: Symbol.for('NotificationRepository'),
+  AuditLogRepository: Symbol.for('AuditLogRepository'),
 
   // Constants
   uri: Symbol.for('dbURI'),
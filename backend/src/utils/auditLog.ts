@@ -0,0 +1,71 @@
+import {escapeCsvField} from '#root/utils/csv.js';
+
+export type AuditSnapshot = Record<string, unknown>;
+
+// Audit entry as returned by the API and written to CSV
+export interface AuditEntryView {
+  id: string;
+  actorId?: string;
+  actorRole: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before?: AuditSnapshot;
+  after?: AuditSnapshot;
+  requestId?: string;
+  createdAt: string;
+}
+
+// ObjectIds and dates compare by their JSON form
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Reduces two versions of a document to the fields `after` sets to a new
+ * value, so an update is recorded without the fields it left alone.
+ */
+export const diffSnapshots = (
+  before: object,
+  after: object,
+): {before: AuditSnapshot; after: AuditSnapshot} => {
+  const previous = before as AuditSnapshot;
+  const changed = Object.entries(after).filter(
+    ([key, value]) => value !== undefined && !sameValue(previous[key], value),
+  );
+  return {
+    before: Object.fromEntries(changed.map(([key]) => [key, previous[key]])),
+    after: Object.fromEntries(changed),
+  };
+};
+
+// The listed fields of a document that are set
+export const pickSnapshot = <T extends object>(
+  doc: T,
+  keys: (keyof T & string)[],
+): AuditSnapshot =>
+  Object.fromEntries(
+    keys.filter(key => doc[key] !== undefined).map(key => [key, doc[key]]),
+  );
+
+const CSV_COLUMNS: [string, (entry: AuditEntryView) => string | undefined][] = [
+  ['created_at', e => e.createdAt],
+  ['request_id', e => e.requestId],
+  ['actor_id', e => e.actorId],
+  ['actor_role', e => e.actorRole],
+  ['action', e => e.action],
+  ['entity_type', e => e.entityType],
+  ['entity_id', e => e.entityId],
+  ['before', e => (e.before ? JSON.stringify(e.before) : undefined)],
+  ['after', e => (e.after ? JSON.stringify(e.after) : undefined)],
+];
+
+// Snapshots are written as JSON in their own columns
+export const serializeAuditLogCsv = (entries: AuditEntryView[]): string =>
+  [
+    CSV_COLUMNS.map(([name]) => name).join(','),
+    ...entries.map(entry =>
+      CSV_COLUMNS.map(([, value]) => escapeCsvField(value(entry))).join(','),
+    ),
+  ]
+    .map(line => `${line}\r\n`)
+    .join('');
@@ -0,0 +1,132 @@
+import {
+  IAnswer,
+  IAnswerMapping,
+  IAnswerRanking,
+} from '#root/shared/interfaces/models.js';
+
+export interface AnonymousAnswer {
+  anonymousId: string;
+  answer: string;
+}
+
+export interface BordaTally {
+  answerId: string;
+  totalBordaPoints: number;
+  averageRank: number;
+  rankCount: number;
+}
+
+export type AnonymousTallyEntry = AnonymousAnswer &
+  Omit<BordaTally, 'answerId'>;
+
+// "Answer A" ... "Answer Z", "Answer AA", ...
+const toAnonymousLabel = (index: number): string => {
+  let label = '';
+  let n = index;
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return `Answer ${label}`;
+};
+
+/**
+ * Labels every answer that was not written by the reviewer. Answers are shuffled
+ * first so that a label reveals neither the submission order nor the author.
+ */
+export const createAnswerMappings = (
+  answers: Partial<IAnswer>[],
+  reviewerId: string,
+): IAnswerMapping[] => {
+  const others = answers.filter(
+    answer => answer.authorId?.toString() !== reviewerId,
+  );
+
+  for (let i = others.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [others[i], others[j]] = [others[j], others[i]];
+  }
+
+  return others.map((answer, index) => ({
+    anonymousId: toAnonymousLabel(index),
+    realAnswerId: answer._id!,
+    authorId: answer.authorId!,
+  }));
+};
+
+/**
+ * Builds the answer set shown to a reviewer. Only the anonymous label and the
+ * answer text are returned; answer and author IDs never leave the server.
+ */
+export const toAnonymousAnswers = (
+  mappings: IAnswerMapping[],
+  answers: Partial<IAnswer>[],
+): AnonymousAnswer[] => {
+  const textById = new Map(
+    answers.map(answer => [answer._id!.toString(), answer.answer ?? '']),
+  );
+
+  return mappings.map(mapping => ({
+    anonymousId: mapping.anonymousId,
+    answer: textById.get(mapping.realAnswerId.toString()) ?? '',
+  }));
+};
+
+/**
+ * Aggregates submitted rankings with the Borda count, highest total first.
+ * Ties are broken by the better (lower) average rank.
+ */
+export const tallyBordaPoints = (rankings: IAnswerRanking[]): BordaTally[] => {
+  const totals = new Map<string, {points: number; ranks: number[]}>();
+
+  for (const ranking of rankings) {
+    for (const rank of ranking.rankings) {
+      const answerId = rank.answerId.toString();
+      const entry = totals.get(answerId) ?? {points: 0, ranks: []};
+      entry.points += rank.bordaPoints;
+      entry.ranks.push(rank.rank);
+      totals.set(answerId, entry);
+    }
+  }
+
+  return [...totals.entries()]
+    .map(([answerId, {points, ranks}]) => ({
+      answerId,
+      totalBordaPoints: points,
+      averageRank: ranks.reduce((a, b) => a + b, 0) / ranks.length,
+      rankCount: ranks.length,
+    }))
+    .sort(
+      (a, b) =>
+        b.totalBordaPoints - a.totalBordaPoints ||
+        a.averageRank - b.averageRank,
+    );
+};
+
+/**
+ * Labels a tally with the anonymous IDs of one reviewer's answer set. Answers
+ * outside the set, such as the reviewer's own, get the next free labels, so
+ * the result carries no answer IDs either.
+ */
+export const toAnonymousTally = (
+  tally: BordaTally[],
+  mappings: IAnswerMapping[],
+  answers: Partial<IAnswer>[],
+): AnonymousTallyEntry[] => {
+  const textById = new Map(
+    answers.map(answer => [answer._id!.toString(), answer.answer ?? '']),
+  );
+  const labelById = new Map(
+    mappings.map(mapping => [
+      mapping.realAnswerId.toString(),
+      mapping.anonymousId,
+    ]),
+  );
+  let nextLabel = mappings.length;
+
+  return tally.map(({answerId, ...points}) => ({
+    anonymousId: labelById.get(answerId) ?? toAnonymousLabel(nextLabel++),
+    answer: textById.get(answerId) ?? '',
+    ...points,
+  }));
+};
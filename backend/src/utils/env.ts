@@ -12,3 +12,39 @@ export function envOrFail(key: string): string {
 
   return process.env[key] as string;
 }
+
+// Unlike `Number(env(key)) || defaultValue`, keeps a configured 0
+export function envNumber(key: string, defaultValue: number): number {
+  const value = process.env[key];
+  if (typeof value === 'undefined' || value.trim() === '') {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(
+      `Environment variable ${key} must be a number, got "${value}".`,
+    );
+  }
+
+  return parsed;
+}
+
+export function envOneOf<T extends string>(
+  key: string,
+  allowed: readonly T[],
+  defaultValue: T,
+): T {
+  const value = process.env[key];
+  if (typeof value === 'undefined' || value === '') {
+    return defaultValue;
+  }
+
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(
+      `Environment variable ${key} must be one of ${allowed.join(', ')}, got "${value}".`,
+    );
+  }
+
+  return value as T;
+}
@@ -0,0 +1,4 @@
+// Escapes user input so it can be embedded in a RegExp as a literal
+export const escapeRegExp = (value: string): string => {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
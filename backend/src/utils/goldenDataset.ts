@@ -0,0 +1,98 @@
+import {escapeCsvField} from '#root/utils/csv.js';
+
+export type GoldenDatasetFormat = 'jsonl' | 'csv' | 'text';
+
+// One expert-finalised question and answer pair, with the metadata the retrieval pipeline keeps
+export interface GoldenQaRecord {
+  questionId: string;
+  question: string;
+  answerId: string;
+  answer: string;
+  authorId: string;
+  contextId?: string;
+  context: string; // Transcript the question was generated from; empty for imported questions
+  tags: string[];
+  reviewers: {reviewerId: string; score: number; submittedAt?: string}[];
+  averageScore: number | null; // Null when the answer has no submitted review
+  finalReviewerId?: string; // Reviewer whose review elected the answer
+  questionCreatedAt?: string;
+  answeredAt?: string;
+  finalizedAt: string; // Last change to the final answer; the export watermark
+}
+
+export const GOLDEN_DATASET_CONTENT_TYPES: Record<GoldenDatasetFormat, string> =
+  {
+    jsonl: 'application/x-ndjson',
+    csv: 'text/csv',
+    text: 'text/plain',
+  };
+
+// Separates the pairs of a text export; pairs themselves may contain blank lines
+export const TEXT_RECORD_SEPARATOR = '\n\n---\n\n';
+
+const CSV_COLUMNS: [
+  string,
+  (record: GoldenQaRecord) => string | number | null | undefined,
+][] = [
+  ['question_id', r => r.questionId],
+  ['question', r => r.question],
+  ['answer_id', r => r.answerId],
+  ['answer', r => r.answer],
+  ['author_id', r => r.authorId],
+  ['context_id', r => r.contextId],
+  ['context', r => r.context],
+  ['tags', r => r.tags.join(';')],
+  [
+    'reviewer_ids',
+    r => r.reviewers.map(reviewer => reviewer.reviewerId).join(';'),
+  ],
+  [
+    'reviewer_scores',
+    r => r.reviewers.map(reviewer => reviewer.score).join(';'),
+  ],
+  ['average_score', r => r.averageScore],
+  ['final_reviewer_id', r => r.finalReviewerId],
+  ['question_created_at', r => r.questionCreatedAt],
+  ['answered_at', r => r.answeredAt],
+  ['finalized_at', r => r.finalizedAt],
+];
+
+/**
+ * Formats a pair the way the retrieval service stores documents in `agri_qa`.
+ */
+export const formatQaText = (question: string, answer: string): string =>
+  `Question: ${question.trim()}\n\nAnswer: ${answer.trim()}`;
+
+/**
+ * Serialises records in one of the export formats. JSONL lines also carry the
+ * formatted `text` so they can be loaded into `agri_qa` as they are.
+ */
+export const serializeGoldenDataset = (
+  records: GoldenQaRecord[],
+  format: GoldenDatasetFormat,
+): string => {
+  switch (format) {
+    case 'jsonl':
+      return records
+        .map(
+          record =>
+            `${JSON.stringify({...record, text: formatQaText(record.question, record.answer)})}\n`,
+        )
+        .join('');
+    case 'csv':
+      return [
+        CSV_COLUMNS.map(([name]) => name).join(','),
+        ...records.map(record =>
+          CSV_COLUMNS.map(([, value]) => escapeCsvField(value(record))).join(
+            ',',
+          ),
+        ),
+      ]
+        .map(line => `${line}\r\n`)
+        .join('');
+    case 'text':
+      return records.length === 0
+        ? ''
+        : `${records.map(record => formatQaText(record.question, record.answer)).join(TEXT_RECORD_SEPARATOR)}\n`;
+  }
+};
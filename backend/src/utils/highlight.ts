@@ -0,0 +1,58 @@
+export interface HighlightedSnippet {
+  text: string;
+  matches: {start: number; end: number}[]; // Offsets into `text` of the matched words
+}
+
+// Words of a search query, lower-cased; quotes and negations are dropped
+export const getSearchTerms = (query: string): string[] => [
+  ...new Set(
+    (query.toLowerCase().match(/-?[\p{L}\p{N}]+/gu) ?? [])
+      .filter(term => !term.startsWith('-'))
+      .filter(term => term.length > 1),
+  ),
+];
+
+/**
+ * Cuts a snippet of about `length` characters around the first matching word
+ * and reports where every term matches inside it. A word matches when it starts
+ * with a term, so "aphid" also highlights "aphids" like the stemmed text index does.
+ * Returns null when no term occurs in the text.
+ */
+export const highlightSnippet = (
+  text: string,
+  terms: string[],
+  length = 160,
+): HighlightedSnippet | null => {
+  if (!text || terms.length === 0) return null;
+
+  const words = [...text.matchAll(/[\p{L}\p{N}]+/gu)];
+  const matched = words.filter(word =>
+    terms.some(term => word[0].toLowerCase().startsWith(term)),
+  );
+  if (matched.length === 0) return null;
+
+  // Centre the window on the first match, then snap it to word boundaries
+  const first = matched[0].index!;
+  let start = Math.max(0, first - Math.floor(length / 3));
+  let end = Math.min(text.length, start + length);
+  start = Math.max(0, Math.min(start, end - length));
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length)
+    end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end;
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    matches: matched
+      .filter(
+        word => word.index! >= start && word.index! + word[0].length <= end,
+      )
+      .map(word => ({
+        start: word.index! + offset,
+        end: word.index! + word[0].length + offset,
+      })),
+  };
+};
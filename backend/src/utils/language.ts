@@ -0,0 +1,59 @@
+// Locales the app captures and serves; mirrors SupportedLanguage in the frontend
+export const SUPPORTED_LANGUAGES = [
+  'en-IN',
+  'en-US',
+  'hi-IN',
+  'bn-IN',
+  'te-IN',
+  'mr-IN',
+  'ta-IN',
+  'gu-IN',
+  'kn-IN',
+  'ml-IN',
+  'pa-IN',
+  'ur-IN',
+] as const;
+
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'en-IN';
+
+// Each Indian language is written in its own script, except Hindi and Marathi (Devanagari)
+const SCRIPTS: [RegExp, SupportedLanguage][] = [
+  [/[ऀ-ॿ]/g, 'hi-IN'],
+  [/[ঀ-৿]/g, 'bn-IN'],
+  [/[਀-੿]/g, 'pa-IN'],
+  [/[઀-૿]/g, 'gu-IN'],
+  [/[஀-௿]/g, 'ta-IN'],
+  [/[ఀ-౿]/g, 'te-IN'],
+  [/[ಀ-೿]/g, 'kn-IN'],
+  [/[ഀ-ൿ]/g, 'ml-IN'],
+  [/[؀-ۿ]/g, 'ur-IN'],
+  [/[A-Za-z]/g, 'en-IN'],
+];
+
+// Common Marathi words and the retroflex ळ, which Hindi does not use
+const MARATHI_MARKERS =
+  /ळ|(^|\s)(आहे|आहेत|आणि|नाही|मध्ये|काय|कसे|करावे|पिकावर)(?=\s|$|[?.,!।])/u;
+
+/**
+ * Detects the language of a text from the script most of its letters are
+ * written in. Devanagari is read as Hindi unless Marathi words occur.
+ * Returns the default language when the text has no letters.
+ */
+export const detectLanguage = (text: string): SupportedLanguage => {
+  let best: SupportedLanguage = DEFAULT_LANGUAGE;
+  let bestCount = 0;
+  for (const [pattern, language] of SCRIPTS) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > bestCount) {
+      best = language;
+      bestCount = count;
+    }
+  }
+  return best === 'hi-IN' && MARATHI_MARKERS.test(text) ? 'mr-IN' : best;
+};
+
+// Languages that differ only by region are the same for translation purposes
+export const isSameLanguage = (a: string, b: string): boolean =>
+  a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase();
@@ -0,0 +1,140 @@
+import {
+  NotificationType,
+  ReviewPriority,
+} from '#root/shared/interfaces/models.js';
+
+// What a notification e-mail can mention; each type uses the fields it needs
+export interface NotificationEmailData {
+  recipientName: string;
+  question: string;
+  link: string; // Where the recipient can act on the notification
+  dueDate?: Date;
+  priority?: ReviewPriority;
+  score?: number; // Review score (1-5) given to the recipient's answer
+  comments?: string;
+  finalAnswer?: string;
+  isRecipientsAnswer?: boolean; // Whether the finalised answer is the recipient's
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SUBJECT_QUESTION_LENGTH = 60;
+
+const shorten = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (date: Date): string =>
+  date.toLocaleString('en-IN', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'Asia/Kolkata',
+  }) + ' IST';
+
+const TEMPLATES: Record<
+  NotificationType,
+  (data: NotificationEmailData) => {
+    subject: string;
+    paragraphs: string[];
+    action: string;
+  }
+> = {
+  review_assigned: data => ({
+    subject: `New review assignment: ${shorten(data.question, SUBJECT_QUESTION_LENGTH)}`,
+    paragraphs: [
+      `You have been asked to review an answer to "${data.question}".`,
+      [
+        data.priority && `Priority: ${data.priority}.`,
+        data.dueDate &&
+          `Please submit your review by ${formatDate(data.dueDate)}.`,
+      ]
+        .filter(Boolean)
+        .join(' '),
+    ],
+    action: 'Open your reviews',
+  }),
+  review_deadline_approaching: data => ({
+    subject: `Review due soon: ${shorten(data.question, SUBJECT_QUESTION_LENGTH)}`,
+    paragraphs: [
+      `Your review of an answer to "${data.question}" is due on ${data.dueDate ? formatDate(data.dueDate) : 'soon'}.`,
+      'If you cannot complete it in time, please decline the assignment so it can be given to another reviewer.',
+    ],
+    action: 'Complete your review',
+  }),
+  review_deadline_passed: data => ({
+    subject: `Review deadline missed: ${shorten(data.question, SUBJECT_QUESTION_LENGTH)}`,
+    paragraphs: [
+      `The deadline for your review of an answer to "${data.question}" has passed.`,
+      'The assignment has been withdrawn and, where possible, handed to another reviewer. No further action is needed.',
+    ],
+    action: 'View your reviews',
+  }),
+  answer_feedback: data => ({
+    subject: `Your answer was reviewed: ${shorten(data.question, SUBJECT_QUESTION_LENGTH)}`,
+    paragraphs: [
+      `A reviewer scored your answer to "${data.question}" ${data.score ?? '-'} out of 5.`,
+      data.comments
+        ? `Their comments: ${data.comments}`
+        : 'They did not leave comments.',
+    ],
+    action: 'See the feedback',
+  }),
+  question_finalized: data => ({
+    subject: `Final answer chosen: ${shorten(data.question, SUBJECT_QUESTION_LENGTH)}`,
+    paragraphs: [
+      data.isRecipientsAnswer
+        ? `Your answer to "${data.question}" has been chosen as the final answer. Thank you for your contribution.`
+        : `A final answer has been chosen for "${data.question}", which you also answered.`,
+      ...(data.finalAnswer && !data.isRecipientsAnswer
+        ? [`Final answer: ${data.finalAnswer}`]
+        : []),
+    ],
+    action: 'View the question',
+  }),
+};
+
+/**
+ * Renders the e-mail for a notification as plain text and matching HTML.
+ * All user-provided text is escaped in the HTML version.
+ */
+export const renderNotificationEmail = (
+  type: NotificationType,
+  data: NotificationEmailData,
+): RenderedEmail => {
+  const {subject, paragraphs, action} = TEMPLATES[type](data);
+  const body = paragraphs.filter(Boolean);
+  const greeting = `Hello ${data.recipientName},`;
+
+  const text =
+    [greeting, ...body, `${action}: ${data.link}`].join('\n\n') + '\n';
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...body.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`),
+    `<p><a href="${escapeHtml(data.link)}">${escapeHtml(action)}</a></p>`,
+  ].join('\n');
+
+  return {subject, text, html};
+};
+
+/**
+ * Renders the short form of a notification shown in the in-app notification centre:
+ * the e-mail subject and its first paragraph.
+ */
+export const renderNotificationSummary = (
+  type: NotificationType,
+  data: NotificationEmailData,
+): {title: string; message: string} => {
+  const {subject, paragraphs} = TEMPLATES[type](data);
+  return {title: subject, message: paragraphs[0]};
+};
@@ -0,0 +1,81 @@
+import {parseCsv} from '#root/utils/csv.js';
+
+const TAG_COLUMNS = ['topics', 'crops', 'regions'];
+
+/**
+ * Turns an uploaded CSV or JSON file into plain rows for validation.
+ *
+ * CSV files need a header with a `question` column; optional `topics`, `crops`
+ * and `regions` columns hold tags separated by semicolons. JSON files hold an
+ * array (or `{questions: [...]}`) of question strings or row objects.
+ * Throws an Error with a readable message when the file cannot be read.
+ */
+export const parseQuestionImport = (
+  content: string,
+  fileName: string,
+  mimeType?: string,
+): Record<string, unknown>[] => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json' || mimeType === 'application/json') {
+    return parseJsonRows(content);
+  }
+  if (extension === 'csv' || mimeType === 'text/csv') {
+    return parseCsvRows(content);
+  }
+  throw new Error('Upload a .csv or .json file');
+};
+
+const parseJsonRows = (content: string): Record<string, unknown>[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : (data as {questions?: unknown})?.questions;
+  if (!Array.isArray(items)) {
+    throw new Error('JSON files must contain an array of questions');
+  }
+  // Anything that is neither a string nor an object fails row validation
+  return items.map(item =>
+    typeof item === 'string'
+      ? {question: item.trim()}
+      : typeof item === 'object' && item
+        ? item
+        : {question: item},
+  );
+};
+
+const parseCsvRows = (content: string): Record<string, unknown>[] => {
+  let table: string[][];
+  try {
+    table = parseCsv(content);
+  } catch (error) {
+    throw new Error(`The file is not valid CSV: ${(error as Error).message}`);
+  }
+
+  const [header = [], ...rows] = table;
+  const columns = header.map(name => name.trim().toLowerCase());
+  if (!columns.includes('question')) {
+    throw new Error('CSV files need a "question" column');
+  }
+
+  return rows.map(cells => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const cell = cells[index]?.trim() ?? '';
+      if (column === 'question') {
+        row.question = cell;
+      } else if (TAG_COLUMNS.includes(column) && cell) {
+        row[column] = cell
+          .split(';')
+          .map(tag => tag.trim())
+          .filter(Boolean);
+      }
+    });
+    return row;
+  });
+};
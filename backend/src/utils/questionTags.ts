@@ -0,0 +1,203 @@
+import {IQuestionTags} from '#root/shared/interfaces/models.js';
+
+type TagCategory = 'topics' | 'crops' | 'regions';
+
+// Tag -> words or phrases that indicate it. Tags are unique across categories
+// so that a flat list of tags (e.g. an expert's expertise) can be matched against all of them.
+const TAG_VOCABULARY: Record<TagCategory, Record<string, string[]>> = {
+  topics: {
+    'pest-management': [
+      'pest',
+      'pests',
+      'insect',
+      'insects',
+      'aphid',
+      'aphids',
+      'borer',
+      'whitefly',
+      'locust',
+      'termite',
+      'pesticide',
+      'insecticide',
+    ],
+    'disease-management': [
+      'disease',
+      'blight',
+      'rust',
+      'wilt',
+      'fungus',
+      'fungal',
+      'mildew',
+      'rot',
+      'virus',
+      'fungicide',
+    ],
+    'soil-health': [
+      'soil',
+      'ph',
+      'salinity',
+      'organic matter',
+      'soil test',
+      'erosion',
+    ],
+    'nutrient-management': [
+      'fertilizer',
+      'fertiliser',
+      'urea',
+      'dap',
+      'potash',
+      'nitrogen',
+      'phosphorus',
+      'manure',
+      'compost',
+      'micronutrient',
+    ],
+    irrigation: [
+      'irrigation',
+      'irrigate',
+      'watering',
+      'drip',
+      'sprinkler',
+      'canal',
+      'borewell',
+    ],
+    'weed-management': ['weed', 'weeds', 'herbicide', 'weeding'],
+    'seeds-and-varieties': [
+      'seed',
+      'seeds',
+      'variety',
+      'varieties',
+      'hybrid',
+      'sowing',
+      'seed rate',
+    ],
+    'harvest-and-storage': [
+      'harvest',
+      'harvesting',
+      'storage',
+      'post-harvest',
+      'threshing',
+      'drying',
+    ],
+    livestock: [
+      'cattle',
+      'cow',
+      'buffalo',
+      'goat',
+      'poultry',
+      'dairy',
+      'fodder',
+    ],
+    'market-and-schemes': [
+      'price',
+      'market',
+      'mandi',
+      'msp',
+      'subsidy',
+      'scheme',
+      'insurance',
+      'loan',
+    ],
+    weather: [
+      'rain',
+      'rainfall',
+      'drought',
+      'frost',
+      'heatwave',
+      'monsoon',
+      'weather',
+    ],
+  },
+  crops: {
+    wheat: ['wheat'],
+    rice: ['rice', 'paddy'],
+    maize: ['maize', 'corn'],
+    cotton: ['cotton'],
+    sugarcane: ['sugarcane'],
+    mustard: ['mustard'],
+    soybean: ['soybean', 'soyabean'],
+    pulses: [
+      'pulses',
+      'gram',
+      'chickpea',
+      'lentil',
+      'tur',
+      'arhar',
+      'moong',
+      'urad',
+    ],
+    millets: ['millet', 'millets', 'bajra', 'jowar', 'ragi', 'sorghum'],
+    groundnut: ['groundnut', 'peanut'],
+    potato: ['potato', 'potatoes'],
+    tomato: ['tomato', 'tomatoes'],
+    onion: ['onion', 'onions'],
+    chilli: ['chilli', 'chili', 'chillies'],
+    banana: ['banana', 'bananas'],
+    mango: ['mango', 'mangoes'],
+  },
+  regions: {
+    punjab: ['punjab'],
+    haryana: ['haryana'],
+    'uttar-pradesh': ['uttar pradesh'],
+    bihar: ['bihar'],
+    'madhya-pradesh': ['madhya pradesh'],
+    maharashtra: ['maharashtra', 'vidarbha', 'marathwada'],
+    gujarat: ['gujarat'],
+    rajasthan: ['rajasthan'],
+    karnataka: ['karnataka'],
+    'tamil-nadu': ['tamil nadu'],
+    'andhra-pradesh': ['andhra pradesh'],
+    telangana: ['telangana'],
+    'west-bengal': ['west bengal'],
+    odisha: ['odisha', 'orissa'],
+    assam: ['assam'],
+    kerala: ['kerala'],
+  },
+};
+
+const TAG_CATEGORIES = Object.keys(TAG_VOCABULARY) as TagCategory[];
+
+/**
+ * Lower-cases a tag and joins its words with dashes, so that admin input such
+ * as "Pest Management" matches the generated "pest-management".
+ */
+export const normalizeTag = (tag: string): string =>
+  tag
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-');
+
+/**
+ * Finds topic, crop and region tags in a piece of text (a transcript or a
+ * question) by matching whole words and phrases from the tag vocabulary.
+ */
+export const extractTags = (...texts: string[]): IQuestionTags => {
+  // Pad with spaces so phrases only match on word boundaries
+  const normalized = ` ${texts
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}-]+/gu, ' ')} `;
+
+  const tags: IQuestionTags = {topics: [], crops: [], regions: []};
+  for (const category of TAG_CATEGORIES) {
+    for (const [tag, keywords] of Object.entries(TAG_VOCABULARY[category])) {
+      if (keywords.some(keyword => normalized.includes(` ${keyword} `))) {
+        tags[category].push(tag);
+      }
+    }
+  }
+  return tags;
+};
+
+// All tags of a question as one list, for matching against expertise
+export const flattenTags = (tags?: Partial<IQuestionTags>): string[] =>
+  tags ? TAG_CATEGORIES.flatMap(category => tags[category] ?? []) : [];
+
+// Number of the expert's expertise tags the question carries
+export const countTagMatches = (
+  tags: string[],
+  expertise: string[],
+): number => {
+  const expertiseSet = new Set(expertise.map(normalizeTag));
+  return new Set(tags.filter(tag => expertiseSet.has(tag))).size;
+};
@@ -0,0 +1,153 @@
+// Common English words that carry no meaning for similarity
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'can',
+  'do',
+  'for',
+  'from',
+  'has',
+  'have',
+  'if',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'of',
+  'on',
+  'or',
+  'should',
+  'so',
+  'such',
+  'that',
+  'the',
+  'their',
+  'then',
+  'there',
+  'these',
+  'this',
+  'to',
+  'was',
+  'will',
+  'with',
+  'you',
+  'your',
+]);
+
+/**
+ * Lower-cases the text and splits it into word tokens, dropping stop words.
+ * Letters and digits of any script are kept so that non-English answers still match.
+ */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    token => !STOP_WORDS.has(token),
+  );
+
+/**
+ * Builds a TF-IDF vector for every document, using the documents themselves as the corpus.
+ * IDF is smoothed (ln((1 + n) / (1 + df)) + 1) so that terms shared by every document still count.
+ */
+export const buildTfIdfVectors = (
+  documents: string[],
+): Map<string, number>[] => {
+  const tokenized = documents.map(tokenize);
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return tokenized.map(tokens => {
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+
+    const vector = new Map<string, number>();
+    for (const [term, count] of counts) {
+      const idf =
+        Math.log((1 + documents.length) / (1 + documentFrequency.get(term)!)) +
+        1;
+      vector.set(term, (count / tokens.length) * idf);
+    }
+    return vector;
+  });
+};
+
+/**
+ * Finds the candidate whose text is most similar to `text` (TF-IDF cosine similarity,
+ * with the text and all candidates as the corpus). Returns null unless it reaches `threshold`.
+ */
+export const findMostSimilar = <T extends {text: string}>(
+  text: string,
+  candidates: T[],
+  threshold: number,
+): {candidate: T; score: number} | null => {
+  if (candidates.length === 0) return null;
+
+  const [vector, ...candidateVectors] = buildTfIdfVectors([
+    text,
+    ...candidates.map(c => c.text),
+  ]);
+  let best: {candidate: T; score: number} | null = null;
+  for (let i = 0; i < candidates.length; i++) {
+    // Rounding keeps identical texts at exactly 1
+    const score = Math.min(
+      1,
+      Number(sparseCosineSimilarity(vector, candidateVectors[i]).toFixed(6)),
+    );
+    if (score >= threshold && (!best || score > best.score)) {
+      best = {candidate: candidates[i], score};
+    }
+  }
+  return best;
+};
+
+/**
+ * Cosine similarity of two sparse vectors. Returns 0 if either vector is empty.
+ */
+export const sparseCosineSimilarity = (
+  a: Map<string, number>,
+  b: Map<string, number>,
+): number => {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) ?? 0);
+  }
+  const norm = (v: Map<string, number>) =>
+    Math.sqrt([...v.values()].reduce((sum, w) => sum + w * w, 0));
+
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+};
+
+/**
+ * Cosine similarity of two dense vectors of equal length. Returns 0 if either vector is zero.
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) {
+    throw new Error(`Vector length mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dot / denominator;
+};
@@ -0,0 +1,92 @@
+export type WordDiffType = 'equal' | 'added' | 'removed';
+
+export interface WordDiffSegment {
+  type: WordDiffType;
+  text: string;
+}
+
+// Longest common subsequence tables beyond this many cells are too expensive to build per request
+const MAX_LCS_CELLS = 4_000_000;
+
+const splitWords = (text: string): string[] =>
+  text.split(/\s+/).filter(Boolean);
+
+const pushSegment = (
+  segments: WordDiffSegment[],
+  type: WordDiffType,
+  words: string[],
+) => {
+  if (words.length === 0) return;
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += ` ${words.join(' ')}`;
+  } else {
+    segments.push({type, text: words.join(' ')});
+  }
+};
+
+/**
+ * Word-level diff of two texts, based on the longest common subsequence of their words.
+ * Whitespace differences are ignored. Consecutive words of the same type are merged into
+ * one segment, and removals are listed before additions at the same position.
+ */
+export const diffWords = (before: string, after: string): WordDiffSegment[] => {
+  const a = splitWords(before);
+  const b = splitWords(after);
+
+  // Common prefix and suffix are cut off first, which keeps the table small for typical edits
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix])
+    prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  )
+    suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  const segments: WordDiffSegment[] = [];
+  pushSegment(segments, 'equal', a.slice(0, prefix));
+
+  const n = midA.length;
+  const m = midB.length;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    // Too large to align word by word: report the changed middle as a replacement
+    pushSegment(segments, 'removed', midA);
+    pushSegment(segments, 'added', midB);
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', [midA[i++]]);
+        j++;
+      } else if (
+        j >= m ||
+        (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])
+      ) {
+        pushSegment(segments, 'removed', [midA[i++]]);
+      } else {
+        pushSegment(segments, 'added', [midB[j++]]);
+      }
+    }
+  }
+
+  pushSegment(segments, 'equal', a.slice(a.length - suffix));
+  return segments;
+};
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState, type ReactNode } from "react";
 import {
   CheckCircle,
   Eye,
@@ -8,14 +8,18 @@ import {
   RotateCcw,
   MessageCircle,
   Filter,
+  Search,
+  X,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "./atoms/card";
 import { RadioGroup, RadioGroupItem } from "./atoms/radio-group";
 import { Label } from "./atoms/label";
 import { Textarea } from "./atoms/textarea";
 import { Button } from "./atoms/button";
+import { Input } from "./atoms/input";
 import { useGetAllQuestions } from "@/hooks/api/question/useGetAllQuestions";
 import { useGetQuestionById } from "@/hooks/api/question/useGetQuestionById";
+import { useSearchQuestions } from "@/hooks/api/question/useSearchQuestions";
 import { useSubmitAnswer } from "@/hooks/api/answer/useSubmitAnswer";
 import toast from "react-hot-toast";
 import {
@@ -32,6 +36,44 @@ import {
   SelectTrigger,
   SelectValue,
 } from "./atoms/select";
+import type { ISearchSnippet, SupportedLanguage } from "@/types";
+import { getLanguageLabel, supportedLanguages } from "@/lib/languages";
+
+// Shown under a machine-translated text, with the original one click away
+const TranslationNote = ({
+  originalText,
+  originalLanguage,
+}: {
+  originalText: string;
+  originalLanguage?: string;
+}) => (
+  <details className="mt-1 text-xs text-muted-foreground">
+    <summary className="cursor-pointer select-none">
+      Translated from {getLanguageLabel(originalLanguage)} · show original
+    </summary>
+    <p className="mt-1 whitespace-pre-wrap">{originalText}</p>
+  </details>
+);
+
+// Renders a search snippet with the matched words wrapped in <mark>
+const HighlightedSnippet = ({ snippet }: { snippet: ISearchSnippet }) => {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  snippet.matches.forEach(({ start, end }, index) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark
+        key={index}
+        className="bg-yellow-200 dark:bg-yellow-700/60 text-foreground rounded-sm px-0.5"
+      >
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+};
 
 // const questions = await generateQuestionDataSet();
 export type QuestionFilter =
@@ -44,6 +86,11 @@ export const QAInterface = () => {
   const [newAnswer, setNewAnswer] = useState<string>("");
   const [isFinalAnswer, setIsFinalAnswer] = useState<boolean>(false);
   const [filter, setFilter] = useState<QuestionFilter>("newest");
+  const [searchInput, setSearchInput] = useState<string>("");
+  const [searchTerm, setSearchTerm] = useState<string>("");
+  const [viewLanguage, setViewLanguage] = useState<
+    SupportedLanguage | "original"
+  >("original");
 
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -59,8 +106,21 @@ export const QAInterface = () => {
 
   const questions = questionPages?.pages.flat() || [];
 
+  // Wait for the expert to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchTerm(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const isSearching = searchTerm.length >= 2;
+  const { data: searchResult, isFetching: isSearchFetching } =
+    useSearchQuestions({ q: searchTerm, page: 1, limit: 20 });
+
   const { data: selectedQuestionData, isLoading: isSelectedQuestionLoading } =
-    useGetQuestionById(selectedQuestion);
+    useGetQuestionById(
+      selectedQuestion,
+      viewLanguage === "original" ? undefined : viewLanguage
+    );
 
   const { mutateAsync: submitAnswer, isPending: isSubmittingAnswer } =
     useSubmitAnswer();
@@ -150,7 +210,76 @@ export const QAInterface = () => {
                 </Button>
               </div>
             </CardHeader>
-            {isQuestionsLoading ? (
+            <div className="px-4 pt-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search questions and final answers for duplicates..."
+                  className="pl-9 pr-9"
+                />
+                {searchInput && (
+                  <button
+                    type="button"
+                    onClick={() => setSearchInput("")}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="w-4 h-4" />
+                    <span className="sr-only">Clear search</span>
+                  </button>
+                )}
+              </div>
+            </div>
+            {isSearching ? (
+              <CardContent className="h-full overflow-y-auto p-4 space-y-3">
+                <p className="text-xs text-muted-foreground">
+                  {isSearchFetching && !searchResult
+                    ? "Searching..."
+                    : `${searchResult?.total ?? 0} matching question${
+                        searchResult?.total === 1 ? "" : "s"
+                      }`}
+                </p>
+                {searchResult?.questions.map((hit) => (
+                  <button
+                    key={hit.id}
+                    type="button"
+                    onClick={() => {
+                      setSelectedQuestion(hit.id);
+                      setIsFinalAnswer(false);
+                    }}
+                    className={`w-full text-left rounded-xl border p-4 transition-all duration-200 ${
+                      selectedQuestion === hit.id
+                        ? "border-primary bg-primary/5 ring-2 ring-primary/20"
+                        : "border-border bg-card hover:border-primary/40 hover:bg-accent/20"
+                    }`}
+                  >
+                    <p className="text-sm md:text-base font-medium leading-relaxed text-foreground">
+                      {hit.highlights.question ? (
+                        <HighlightedSnippet snippet={hit.highlights.question} />
+                      ) : (
+                        hit.text
+                      )}
+                    </p>
+                    {hit.highlights.finalAnswer && (
+                      <p className="mt-2 text-xs text-muted-foreground leading-relaxed">
+                        <span className="font-medium">Final answer: </span>
+                        <HighlightedSnippet
+                          snippet={hit.highlights.finalAnswer}
+                        />
+                      </p>
+                    )}
+                    <div className="mt-2 flex items-center gap-3 text-xs text-muted-foreground">
+                      <span className="capitalize">{hit.status.replace("_", " ")}</span>
+                      <span>
+                        {hit.totalAnwersCount} response
+                        {hit.totalAnwersCount === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                  </button>
+                ))}
+              </CardContent>
+            ) : isQuestionsLoading ? (
               <div className="h-full flex flex-col items-center justify-center text-center space-y-4 px-6">
                 <div className="w-16 h-16 rounded-full flex items-center justify-center mb-2">
                   <svg
@@ -239,6 +368,22 @@ export const QAInterface = () => {
                             >
                               {question?.text}
                             </Label>
+                            {question?.tags && (
+                              <div className="mt-2 flex flex-wrap gap-1.5">
+                                {[
+                                  ...question.tags.topics,
+                                  ...question.tags.crops,
+                                  ...question.tags.regions,
+                                ].map((tag) => (
+                                  <span
+                                    key={tag}
+                                    className="px-1.5 py-0.5 bg-muted text-muted-foreground rounded text-xs"
+                                  >
+                                    {tag}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
 
@@ -323,7 +468,27 @@ export const QAInterface = () => {
 
           <Card className="w-full md:max-h-[70vh] max-h-[80vh] border border-gray-200 dark:border-gray-700 shadow-sm rounded-lg bg-transparent mb-3 md:mb-0">
             <CardHeader className="border-b border-gray-200 dark:border-gray-700">
-              <CardTitle className="text-lg font-semibold">Response</CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-lg font-semibold">Response</CardTitle>
+                <Select
+                  value={viewLanguage}
+                  onValueChange={(value) =>
+                    setViewLanguage(value as SupportedLanguage | "original")
+                  }
+                >
+                  <SelectTrigger className="w-fit md:w-[180px] p-2">
+                    <SelectValue placeholder="Language" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="original">Original language</SelectItem>
+                    {supportedLanguages.map((language) => (
+                      <SelectItem key={language.code} value={language.code}>
+                        {language.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </CardHeader>
             <CardContent className="h-full flex flex-col space-y-6 p-4 overflow-y-auto scrollbar-thin scrollbar-thumb-white scrollbar-track-gray-100 dark:scrollbar-thumb-gray-400 dark:scrollbar-track-gray-700">
               {isSelectedQuestionLoading ? (
@@ -342,6 +507,12 @@ export const QAInterface = () => {
                     <p className="text-sm mt-1 p-3 rounded-md border border-gray-200 dark:border-gray-600">
                       {selectedQuestionData.text}
                     </p>
+                    {selectedQuestionData.originalText && (
+                      <TranslationNote
+                        originalText={selectedQuestionData.originalText}
+                        originalLanguage={selectedQuestionData.originalLanguage}
+                      />
+                    )}
                   </div>
 
                   <div>
@@ -503,6 +674,16 @@ export const QAInterface = () => {
                                           <p className="text-base leading-relaxed text-foreground/90 mb-0">
                                             {currentAnswer.answer}
                                           </p>
+                                          {currentAnswer.originalAnswer && (
+                                            <TranslationNote
+                                              originalText={
+                                                currentAnswer.originalAnswer
+                                              }
+                                              originalLanguage={
+                                                currentAnswer.originalLanguage
+                                              }
+                                            />
+                                          )}
                                         </div>
                                       </div>
                                     </div>
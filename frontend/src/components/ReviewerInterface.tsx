@@ -8,7 +8,10 @@ import { Badge } from './atoms/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './atoms/tabs';
 import { Star, MessageSquare, GripVertical, Trophy } from 'lucide-react';
 import {
+  useGetBlindReviewSet,
+  useGetBordaTally,
   useGetMyReviewStats,
+  useSubmitBlindRanking,
   useSubmitReview,
   type ReviewAssignment
 } from '@/hooks/api/peer-review';
@@ -49,6 +52,14 @@ export const ReviewerInterface = () => {
   // API hooks
   const { data: assignmentsData, isLoading: assignmentsLoading } = useGetQuestionsForAssistance();
   const { data: statsData, isLoading: statsLoading } = useGetMyReviewStats();
+  const blindQuestionId = selectedAssignment?.question?.id;
+  const {
+    data: blindReviewSet,
+    isLoading: blindReviewLoading,
+    error: blindReviewError,
+  } = useGetBlindReviewSet(blindQuestionId, isBlindReview);
+  const isRankingSubmitted = blindReviewSet?.status === 'completed';
+  const { data: bordaTally } = useGetBordaTally(blindQuestionId, isBlindReview && isRankingSubmitted);
   // Drag and drop handlers for ranking
   const handleDragStart = (e: React.DragEvent, itemId: string) => {
     setDraggedItem(itemId);
@@ -87,35 +98,24 @@ export const ReviewerInterface = () => {
     setDraggedItem(null);
   };
 
-  // Initialize rankings when entering blind review mode
+  // Initialize rankings from the anonymised answer set when entering blind review mode
   useEffect(() => {
-    if (isBlindReview && selectedAssignment) {
-      // Mock anonymous answers for demonstration
-      const mockAnonymousAnswers = [
-        {
-          id: 'answer_1',
-          anonymousId: 'Answer A',
-          content: 'For paddy cultivation, ensure proper water management with 2-3 inches of standing water during vegetative stage. Use organic fertilizers like vermicompost and neem cake.',
-          rank: 1
-        },
-        {
-          id: 'answer_2', 
-          anonymousId: 'Answer B',
-          content: 'Consider crop rotation with legumes to improve soil fertility. Test soil pH and adjust accordingly. For irrigation, drip irrigation systems are more efficient.',
-          rank: 2
-        },
-        {
-          id: 'answer_3',
-          anonymousId: 'Answer C', 
-          content: 'Implement integrated pest management strategies. Monitor pest populations regularly and use biological control methods when possible.',
-          rank: 3
-        }
-      ];
-      setRankings(mockAnonymousAnswers);
+    if (isBlindReview && blindReviewSet) {
+      setRankings(
+        blindReviewSet.answers.map((answer, index) => ({
+          id: answer.anonymousId,
+          anonymousId: answer.anonymousId,
+          content: answer.answer,
+          rank: index + 1
+        }))
+      );
+    } else {
+      setRankings([]);
     }
-  }, [isBlindReview, selectedAssignment]);
+  }, [isBlindReview, blindReviewSet]);
 
   const submitReviewMutation = useSubmitReview();
+  const submitBlindRankingMutation = useSubmitBlindRanking();
 
   const handleSubmitReview = async () => {
     if (!selectedAssignment) return;
@@ -126,20 +126,19 @@ export const ReviewerInterface = () => {
           anonymousId: r.anonymousId,
           rank: r.rank
         }));
-        
-        // Here you would call the blind ranking API
-        console.log('Submitting blind rankings:', rankingData);
+
+        await submitBlindRankingMutation.mutateAsync({
+          questionId: selectedAssignment.question!.id,
+          rankings: rankingData
+        });
         toast.success('Blind rankings submitted successfully');
-        
-        // Reset rankings
-        setRankings([]);
       } else {
         // Submit traditional review
         await submitReviewMutation.mutateAsync({
           reviewId: selectedAssignment.assignment._id,
           score: parseInt(reviewForm.score),
           comments: reviewForm.comments,
-          similarity: reviewForm.similarity ? parseFloat(reviewForm.similarity) : undefined
+          // Similarity is computed on the server from the other experts' answers
         });
         toast.success('Assistance submitted successfully');
         setReviewForm({ score: '', comments: '', similarity: '' });
@@ -299,7 +298,38 @@ export const ReviewerInterface = () => {
                         {isBlindReview ? (
                           // Blind Review Mode - Anonymous Ranking
                           <div className="space-y-3">
-                            {rankings.map((item) => (
+                            {blindReviewLoading && (
+                              <div className="text-sm text-gray-500 text-center py-4">Loading answers...</div>
+                            )}
+                            {blindReviewError && (
+                              <div className="text-sm text-gray-500 text-center py-4">
+                                {blindReviewError.message}
+                              </div>
+                            )}
+                            {isRankingSubmitted && bordaTally && (
+                              <div className="space-y-2">
+                                {bordaTally.rankings.map((entry, index) => (
+                                  <div
+                                    key={entry.answerId}
+                                    className="p-4 border border-gray-200 rounded-lg bg-white"
+                                  >
+                                    <div className="flex items-center justify-between mb-2">
+                                      <span className="font-medium">
+                                        #{index + 1} {entry.anonymousId ?? 'Your answer'}
+                                      </span>
+                                      <Badge variant="outline" className="text-sm">
+                                        {entry.totalBordaPoints} pts • avg rank {entry.averageRank.toFixed(1)}
+                                      </Badge>
+                                    </div>
+                                    <p className="text-sm text-gray-700">{entry.answer}</p>
+                                  </div>
+                                ))}
+                                <div className="text-xs text-gray-500 text-center mt-4">
+                                  Borda count over {bordaTally.totalReviewers} ranking(s)
+                                </div>
+                              </div>
+                            )}
+                            {!isRankingSubmitted && rankings.map((item) => (
                               <div
                                 key={item.id}
                                 draggable
@@ -325,7 +355,7 @@ export const ReviewerInterface = () => {
                                 </div>
                               </div>
                             ))}
-                            {rankings.length > 0 && (
+                            {!isRankingSubmitted && rankings.length > 0 && (
                               <div className="text-xs text-gray-500 text-center mt-4">
                                 Drag and drop to reorder answers from best to worst
                               </div>
@@ -387,11 +417,15 @@ export const ReviewerInterface = () => {
                           Blind Review Complete:
                         </Label>
                         <p className="text-sm text-gray-600 mb-3">
-                          You've ranked all answers from best to worst. Borda Count will be calculated automatically.
+                          {isRankingSubmitted
+                            ? "Your ranking has been recorded. The Borda Count tally above combines all submitted rankings."
+                            : "You've ranked all answers from best to worst. Borda Count will be calculated automatically."}
                         </p>
-                        <div className="text-xs text-gray-500">
-                          Ranking: {rankings.map(r => `${r.anonymousId}(#${r.rank})`).join(' → ')}
-                        </div>
+                        {!isRankingSubmitted && (
+                          <div className="text-xs text-gray-500">
+                            Ranking: {rankings.map(r => `${r.anonymousId}(#${r.rank})`).join(' → ')}
+                          </div>
+                        )}
                       </div>
                     ) : (
                       // Traditional Mode - Star ratings and comments
@@ -453,13 +487,13 @@ export const ReviewerInterface = () => {
                       onClick={handleSubmitReview}
                       disabled={
                         isBlindReview 
-                          ? rankings.length === 0 || !reviewForm.similarity
+                          ? rankings.length === 0 || isRankingSubmitted || !reviewForm.similarity || submitBlindRankingMutation.isPending
                           : !reviewForm.score || !reviewForm.comments || !reviewForm.similarity || submitReviewMutation.isPending
                       }
                       className="w-full"
                     >
                       <MessageSquare className="w-4 h-4 mr-2" />
-                      {submitReviewMutation.isPending ? 'Submitting...' : 
+                      {submitReviewMutation.isPending || submitBlindRankingMutation.isPending ? 'Submitting...' : 
                        isBlindReview ? 'Submit Blind Rankings & Answer' : 'Submit Assistance Answer'}
                     </Button>
                   </CardContent>
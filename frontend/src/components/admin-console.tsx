@@ -0,0 +1,334 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "./atoms/card";
+import { Input } from "./atoms/input";
+import { Button } from "./atoms/button";
+import { Badge } from "./atoms/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./atoms/select";
+import {
+  useGetUserActivity,
+  useGetUsers,
+} from "@/hooks/api/users/useGetUsers";
+import {
+  useUpdateUserRole,
+  useUpdateUserStatus,
+} from "@/hooks/api/users/useUpdateUser";
+import type { IUserFilters, IUserSummary, UserRole } from "@/types";
+
+const PAGE_SIZE = 10;
+const ALL = "all";
+
+export const AdminConsole = () => {
+  const [searchInput, setSearchInput] = useState("");
+  const [filters, setFilters] = useState<IUserFilters>({
+    page: 1,
+    limit: PAGE_SIZE,
+  });
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+
+  // Debounce typing so every keystroke does not hit the API
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters((prev) =>
+        prev.search === (searchInput || undefined)
+          ? prev
+          : { ...prev, search: searchInput || undefined, page: 1 }
+      );
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const { data, isLoading } = useGetUsers(filters);
+  const users = data?.users ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  return (
+    <div className="container mx-auto px-4 md:px-6 bg-transparent py-4">
+      <div className="grid grid-cols-1 lg:grid-cols-[2fr_1fr] gap-6">
+        <Card className="w-full border border-gray-200 dark:border-gray-700 shadow-sm rounded-lg bg-transparent">
+          <CardHeader className="border-b flex flex-col gap-3 pb-4">
+            <CardTitle className="text-md md:text-lg font-semibold">
+              Users
+            </CardTitle>
+            <div className="flex items-center gap-3 flex-wrap">
+              <div className="relative flex-1 min-w-[200px]">
+                <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search by name or email"
+                  className="pl-8"
+                />
+              </div>
+              <Select
+                value={filters.role ?? ALL}
+                onValueChange={(value) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    role: value === ALL ? undefined : (value as UserRole),
+                    page: 1,
+                  }))
+                }
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue placeholder="Role" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All roles</SelectItem>
+                  <SelectItem value="user">User</SelectItem>
+                  <SelectItem value="expert">Expert</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.status ?? ALL}
+                onValueChange={(value) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    status:
+                      value === ALL
+                        ? undefined
+                        : (value as IUserFilters["status"]),
+                    page: 1,
+                  }))
+                }
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All accounts</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="deactivated">Deactivated</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <p className="p-6 text-sm text-muted-foreground">
+                Loading users...
+              </p>
+            ) : users.length === 0 ? (
+              <p className="p-6 text-sm text-muted-foreground">
+                No users match these filters.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {users.map((user) => (
+                  <UserRow
+                    key={user.id}
+                    user={user}
+                    selected={user.id === selectedUserId}
+                    onSelect={() => setSelectedUserId(user.id)}
+                  />
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center justify-between p-4 border-t text-sm">
+              <span className="text-muted-foreground">
+                {data?.total ?? 0} users
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={filters.page <= 1}
+                  onClick={() =>
+                    setFilters((prev) => ({ ...prev, page: prev.page - 1 }))
+                  }
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span>
+                  {filters.page} / {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={filters.page >= totalPages}
+                  onClick={() =>
+                    setFilters((prev) => ({ ...prev, page: prev.page + 1 }))
+                  }
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <UserActivityPanel userId={selectedUserId} />
+      </div>
+    </div>
+  );
+};
+
+const UserRow = ({
+  user,
+  selected,
+  onSelect,
+}: {
+  user: IUserSummary;
+  selected: boolean;
+  onSelect: () => void;
+}) => {
+  const { mutate: updateRole, isPending: isUpdatingRole } =
+    useUpdateUserRole();
+  const { mutate: updateStatus, isPending: isUpdatingStatus } =
+    useUpdateUserStatus();
+
+  const handleRoleChange = (role: string) => {
+    updateRole(
+      { userId: user.id, role: role as UserRole },
+      {
+        onSuccess: () =>
+          toast.success(`${user.firstName}'s role changed to ${role}`),
+      }
+    );
+  };
+
+  const handleToggleActive = () => {
+    updateStatus(
+      { userId: user.id, isActive: !user.isActive },
+      {
+        onSuccess: () =>
+          toast.success(
+            `${user.firstName}'s account was ${user.isActive ? "deactivated" : "reactivated"}`
+          ),
+      }
+    );
+  };
+
+  return (
+    <li
+      onClick={onSelect}
+      className={`flex flex-wrap items-center gap-3 p-4 cursor-pointer hover:bg-muted/50 ${
+        selected ? "bg-muted" : ""
+      }`}
+    >
+      <div className="flex-1 min-w-[180px]">
+        <p className="font-medium">
+          {user.firstName} {user.lastName}
+        </p>
+        <p className="text-sm text-muted-foreground">{user.email}</p>
+      </div>
+      {!user.isActive && <Badge variant="destructive">Deactivated</Badge>}
+      <div onClick={(e) => e.stopPropagation()} className="flex items-center gap-2">
+        <Select
+          value={user.role}
+          onValueChange={handleRoleChange}
+          disabled={isUpdatingRole}
+        >
+          <SelectTrigger className="w-[110px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="user">User</SelectItem>
+            <SelectItem value="expert">Expert</SelectItem>
+            <SelectItem value="admin">Admin</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant={user.isActive ? "outline" : "default"}
+          size="sm"
+          disabled={isUpdatingStatus}
+          onClick={handleToggleActive}
+        >
+          {user.isActive ? "Deactivate" : "Reactivate"}
+        </Button>
+      </div>
+    </li>
+  );
+};
+
+const UserActivityPanel = ({ userId }: { userId: string | null }) => {
+  const { data: activity, isLoading } = useGetUserActivity(userId);
+
+  return (
+    <Card className="w-full border border-gray-200 dark:border-gray-700 shadow-sm rounded-lg bg-transparent">
+      <CardHeader className="border-b pb-4">
+        <CardTitle className="text-md md:text-lg font-semibold">
+          Activity
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4 text-sm">
+        {!userId ? (
+          <p className="text-muted-foreground">
+            Select a user to see their activity.
+          </p>
+        ) : isLoading || !activity ? (
+          <p className="text-muted-foreground">Loading activity...</p>
+        ) : (
+          <>
+            <div>
+              <p className="font-medium">
+                {activity.user.firstName} {activity.user.lastName}
+              </p>
+              <p className="text-muted-foreground capitalize">
+                {activity.user.role}
+              </p>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <Stat label="Answers" value={activity.answers.total} />
+              <Stat label="Reviews" value={activity.reviews.submitted} />
+              <Stat label="Pending" value={activity.pendingAssignments.length} />
+            </div>
+            {activity.reviews.averageScoreGiven !== null && (
+              <p className="text-muted-foreground">
+                Average score given:{" "}
+                {activity.reviews.averageScoreGiven.toFixed(1)}
+              </p>
+            )}
+            {activity.answers.recent.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">Recent answers</p>
+                {activity.answers.recent.map((answer) => (
+                  <p
+                    key={answer.id}
+                    className="line-clamp-2 text-muted-foreground"
+                  >
+                    {answer.isFinalAnswer && (
+                      <Badge className="mr-2">Final</Badge>
+                    )}
+                    {answer.answer}
+                  </p>
+                ))}
+              </div>
+            )}
+            {activity.pendingAssignments.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">Pending assignments</p>
+                {activity.pendingAssignments.map((assignment) => (
+                  <div
+                    key={assignment.id}
+                    className="flex items-center justify-between"
+                  >
+                    <span className="capitalize">{assignment.status}</span>
+                    <Badge variant="outline" className="capitalize">
+                      {assignment.priority}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Stat = ({ label, value }: { label: string; value: number }) => (
+  <div className="rounded-md border p-2">
+    <p className="text-lg font-semibold">{value}</p>
+    <p className="text-xs text-muted-foreground">{label}</p>
+  </div>
+);
@@ -0,0 +1,122 @@
+import { Bell } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./dropdown-menu";
+import { Button } from "./button";
+import { useGetNotifications } from "@/hooks/api/notifications/useGetNotifications";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+} from "@/hooks/api/notifications/useMarkNotificationsRead";
+import type { INotification } from "@/types";
+
+const REVIEW_NOTIFICATION_TYPES = [
+  "review_assigned",
+  "review_deadline_approaching",
+  "review_deadline_passed",
+];
+
+interface NotificationBellProps {
+  onNavigateToReviews?: () => void;
+}
+
+export function NotificationBell({
+  onNavigateToReviews,
+}: NotificationBellProps) {
+  const { data } = useGetNotifications();
+  const { mutate: markRead } = useMarkNotificationRead();
+  const { mutate: markAllRead, isPending: markingAll } =
+    useMarkAllNotificationsRead();
+
+  const notifications = data?.notifications ?? [];
+  const unread = data?.unread ?? 0;
+
+  const handleSelect = (notification: INotification) => {
+    if (!notification.read) markRead(notification.id);
+    if (REVIEW_NOTIFICATION_TYPES.includes(notification.type)) {
+      onNavigateToReviews?.();
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={`Notifications (${unread} unread)`}
+        >
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-[10px] leading-4 font-semibold text-white">
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80 shadow-2xl border-2" align="end">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unread > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="text-xs"
+              disabled={markingAll}
+              onClick={() => markAllRead()}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            You're all caught up
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleSelect(notification)}
+                className="flex flex-col items-start gap-1 cursor-pointer"
+              >
+                <div className="flex w-full items-start gap-2">
+                  <span
+                    className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                      notification.read ? "bg-transparent" : "bg-blue-600"
+                    }`}
+                  />
+                  <div className="flex flex-col gap-1 min-w-0">
+                    <p
+                      className={`text-sm leading-snug ${
+                        notification.read ? "" : "font-medium"
+                      }`}
+                    >
+                      {notification.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">
+                      {notification.message}
+                    </p>
+                    {notification.createdAt && (
+                      <p className="text-[11px] text-muted-foreground">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -3,8 +3,10 @@
 import * as React from "react";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "./dropdown-menu";
@@ -13,6 +15,17 @@ import { Avatar, AvatarImage, AvatarFallback } from "./avatar";
 import { useAuthStore } from "@/stores/auth-store";
 import { LogOut } from "lucide-react";
 import { useNavigate } from "@tanstack/react-router";
+import { useGetNotificationPreferences } from "@/hooks/api/users/useGetCurrentUser";
+import { useUpdateNotificationPreferences } from "@/hooks/api/users/useUpdateUser";
+import type { NotificationType } from "@/types";
+
+const NOTIFICATION_LABELS: Record<NotificationType, string> = {
+  review_assigned: "New review assigned",
+  review_deadline_approaching: "Review due soon",
+  review_deadline_passed: "Review deadline missed",
+  answer_feedback: "Feedback on my answers",
+  question_finalized: "Question finalised",
+};
 
 export const UserProfileActions = () => {
   const { user, logout, clearUser } = useAuthStore();
@@ -66,6 +79,9 @@ interface UserDropdownProps {
 
 export function UserDropdown({ user, onLogout }: UserDropdownProps) {
   const [imgError, setImgError] = React.useState(false);
+  const { data: preferences } = useGetNotificationPreferences(!!user);
+  const { mutate: updatePreferences, isPending: savingPreferences } =
+    useUpdateNotificationPreferences();
 
   const handleLogout = () => {
     onLogout();
@@ -122,6 +138,32 @@ export function UserDropdown({ user, onLogout }: UserDropdownProps) {
         </div>
         <DropdownMenuSeparator />
 
+        {preferences && (
+          <>
+            <DropdownMenuLabel className="text-xs text-muted-foreground">
+              E-mail me about
+            </DropdownMenuLabel>
+            {(Object.keys(NOTIFICATION_LABELS) as NotificationType[]).map(
+              (type) => (
+                <DropdownMenuCheckboxItem
+                  key={type}
+                  checked={preferences.email[type]}
+                  disabled={savingPreferences}
+                  // Keep the menu open so several settings can be changed in a row
+                  onSelect={(e) => e.preventDefault()}
+                  onCheckedChange={(checked) =>
+                    updatePreferences({ [type]: checked === true })
+                  }
+                  className="cursor-pointer"
+                >
+                  {NOTIFICATION_LABELS[type]}
+                </DropdownMenuCheckboxItem>
+              )
+            )}
+            <DropdownMenuSeparator />
+          </>
+        )}
+
         <DropdownMenuItem
           onClick={handleLogout}
           className="text-red-600 focus:text-red-600 cursor-pointer"
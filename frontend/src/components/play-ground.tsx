@@ -12,15 +12,22 @@ import {
   HoverCardTrigger,
 } from "@/components/atoms/hover-card";
 import { UserProfileActions } from "@/components/atoms/user-profile-actions";
+import { NotificationBell } from "@/components/atoms/notification-bell";
 import { ThemeToggleCompact } from "./atoms/ThemeToggle";
 import { ReviewerInterface } from "./ReviewerInterface";
 import { ReviewFeed } from "./ReviewFeed";
 import VoiceRecorderCard from "./voice-recorder-card";
 import { QAInterface } from "./QA-interface";
 import { FullSubmissionHistory } from "./submission-history";
+import { AdminConsole } from "./admin-console";
+import { useGetCurrentUser } from "@/hooks/api/users/useGetCurrentUser";
+import { useNotificationStream } from "@/hooks/api/notifications/useNotificationStream";
 
 export const PlaygroundPage = () => {
   const [activeTab, setActiveTab] = React.useState("upload");
+  const { data: currentUser } = useGetCurrentUser();
+  const isAdmin = currentUser?.role === "admin";
+  useNotificationStream(!!currentUser);
 
   const handleNavigateToReviews = () => {
     setActiveTab("reviews");
@@ -38,6 +45,7 @@ export const PlaygroundPage = () => {
 
           <div className="flex items-center space-x-2">
             <ThemeToggleCompact />
+            <NotificationBell onNavigateToReviews={handleNavigateToReviews} />
             <UserProfileActions />
           </div>
         </div>
@@ -47,7 +55,9 @@ export const PlaygroundPage = () => {
           <div className="container h-full py-6 ">
             <div className="grid gap-6 mb-5 ">
               <div className="flex">
-                <TabsList className="grid  grid-cols-4 gap-1  bg-transparent/60 ">
+                <TabsList
+                  className={`grid ${isAdmin ? "grid-cols-5" : "grid-cols-4"} gap-1  bg-transparent/60 `}
+                >
                   <TabsTrigger
                     value="upload"
                     className="px-4 rounded-lg  transition-all duration-150 font-medium"
@@ -115,6 +125,25 @@ export const PlaygroundPage = () => {
                       </HoverCardContent>
                     </HoverCard>
                   </TabsTrigger>
+
+                  {isAdmin && (
+                    <TabsTrigger
+                      value="admin"
+                      className="px-4 py-2 rounded-lg transition-all duration-150 font-medium"
+                    >
+                      <HoverCard openDelay={150}>
+                        <HoverCardTrigger asChild>
+                          <span>Admin</span>
+                        </HoverCardTrigger>
+                        <HoverCardContent
+                          className="w-[200px] text-sm"
+                          side="bottom"
+                        >
+                          Manage users, roles and accounts
+                        </HoverCardContent>
+                      </HoverCard>
+                    </TabsTrigger>
+                  )}
                 </TabsList>
               </div>
             </div>
@@ -156,6 +185,14 @@ export const PlaygroundPage = () => {
                 >
                   <ReviewerInterface />
                 </TabsContent>
+                {isAdmin && (
+                  <TabsContent
+                    value="admin"
+                    className="mt-0 border-0 p-0 max-w-[95%]"
+                  >
+                    <AdminConsole />
+                  </TabsContent>
+                )}
               </div>
 
               {/* Sidebar with ReviewFeed */}
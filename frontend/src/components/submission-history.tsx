@@ -1,7 +1,11 @@
 import { useGetSubmissions } from "@/hooks/api/answer/useGetSubmissions";
 import { Card, CardContent, CardHeader, CardTitle } from "./atoms/card";
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { getTimeDifference } from "@/utils/getTimeDifference";
+import {
+  useGetAnswerRevisions,
+  useGetRevisionDiff,
+} from "@/hooks/api/answer/useGetAnswerRevisions";
 
 export const FullSubmissionHistory = () => {
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -191,7 +195,7 @@ export const FullSubmissionHistory = () => {
                 </div>
               </div>
 
-              {submission?.reponse ? (
+              {submission?.response ? (
                 <div className="border border-gray-200/80 dark:border-gray-700/80 rounded-lg  backdrop-blur-sm shadow-sm overflow-hidden">
                   <div className="flex justify-between items-center px-4 py-2 bg-gray-50/80 dark:bg-gray-700/50 border-b border-gray-200/60 dark:border-gray-600/60">
                     <div className="flex items-center gap-2">
@@ -212,7 +216,7 @@ export const FullSubmissionHistory = () => {
                         Answer
                       </span>
                     </div>
-                    {submission?.reponse.isFinalAnswer && (
+                    {submission?.response.isFinalAnswer && (
                       <span className="text-xs px-2 py-1 bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-200 rounded-full font-medium flex items-center gap-1">
                         <svg
                           className="w-3 h-3"
@@ -233,7 +237,7 @@ export const FullSubmissionHistory = () => {
                   <div className="p-4">
                     <div className="max-h-32 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-transparent">
                       <p className="text-sm text-gray-800 dark:text-gray-200 leading-relaxed break-words">
-                        {submission?.reponse.answer}
+                        {submission?.response.answer}
                       </p>
                     </div>
 
@@ -253,12 +257,19 @@ export const FullSubmissionHistory = () => {
                           />
                         </svg>
                         <span className="hidden md:inline">Answered:</span>{" "}
-                        {submission?.reponse.createdAt}
+                        {submission?.response.createdAt}
                       </span>
                       <span className="text-gray-500 dark:text-gray-500 hidden md:flex">
-                        Answer ID: {submission?.reponse.id}
+                        Answer ID: {submission?.response.id}
                       </span>
                     </div>
+
+                    {submission?.response.answerIteration > 1 && (
+                      <RevisionTimeline
+                        answerId={submission.response.id}
+                        iterations={submission.response.answerIteration}
+                      />
+                    )}
                   </div>
                 </div>
               ) : (
@@ -301,3 +312,103 @@ export const FullSubmissionHistory = () => {
     </Card>
   );
 };
+
+const RevisionDiff = ({
+  answerId,
+  iteration,
+}: {
+  answerId: string;
+  iteration: number;
+}) => {
+  const { data: diff, isLoading } = useGetRevisionDiff(
+    answerId,
+    iteration - 1,
+    iteration
+  );
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500">Loading changes...</p>;
+  }
+  if (!diff) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        +{diff.addedWords} / -{diff.removedWords} words since v{diff.from}
+      </p>
+      <p className="text-sm leading-relaxed break-words">
+        {diff.changes.map((change, index) => (
+          <span
+            key={index}
+            className={
+              change.type === "added"
+                ? "bg-green-100 text-green-900 dark:bg-green-900/50 dark:text-green-100"
+                : change.type === "removed"
+                ? "bg-red-100 text-red-900 line-through dark:bg-red-900/50 dark:text-red-100"
+                : "text-gray-700 dark:text-gray-300"
+            }
+          >
+            {change.text}{" "}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+};
+
+// Every revision of an answer, newest first, each with the changes it made
+const RevisionTimeline = ({
+  answerId,
+  iterations,
+}: {
+  answerId: string;
+  iterations: number;
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data: revisions, isLoading } = useGetAnswerRevisions(
+    isOpen ? answerId : null
+  );
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200/60 dark:border-gray-600/60">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        {isOpen ? "Hide revisions" : `Show revisions (${iterations})`}
+      </button>
+
+      {isOpen && (
+        <ol className="mt-3 space-y-4 border-l border-gray-200 dark:border-gray-700 pl-4">
+          {isLoading && (
+            <li className="text-xs text-gray-500">Loading revisions...</li>
+          )}
+          {[...(revisions ?? [])].reverse().map((revision) => (
+            <li key={revision.id} className="relative space-y-1">
+              <span className="absolute -left-[21px] top-1 w-2.5 h-2.5 rounded-full bg-blue-500 dark:bg-blue-400" />
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                <span className="font-semibold text-gray-900 dark:text-gray-100">
+                  v{revision.iteration}
+                </span>
+                <span>{new Date(revision.createdAt).toLocaleString()}</span>
+                {revision.reviewId && (
+                  <span className="px-2 py-0.5 bg-amber-100 dark:bg-amber-900/50 text-amber-800 dark:text-amber-200 rounded-full">
+                    After review feedback
+                  </span>
+                )}
+              </div>
+              {revision.iteration > 1 ? (
+                <RevisionDiff answerId={answerId} iteration={revision.iteration} />
+              ) : (
+                <p className="text-sm text-gray-700 dark:text-gray-300 break-words">
+                  {revision.answer}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
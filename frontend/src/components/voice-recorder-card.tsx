@@ -24,32 +24,16 @@ import {
 } from "./atoms/select";
 import type { SupportedLanguage } from "@/types";
 import { useSubmitTranscript } from "@/hooks/api/context/useSubmitTranscript";
+import { useUploadRecording } from "@/hooks/api/context/useUploadRecording";
+import { useGetContext } from "@/hooks/api/context/useGetContext";
+import { useGetJobStatus } from "@/hooks/api/jobs/useGetJobStatus";
+import { useQueryClient } from "@tanstack/react-query";
+import { supportedLanguages } from "@/lib/languages";
 
-declare global {
-  interface Window {
-    webkitSpeechRecognition: any;
-  }
-}
-const supportedLanguages: { code: SupportedLanguage; label: string }[] = [
-  { code: "en-IN", label: "English (India)" },
-  { code: "en-US", label: "English (US)" },
-  { code: "hi-IN", label: "Hindi" },
-  { code: "bn-IN", label: "Bengali" },
-  { code: "te-IN", label: "Telugu" },
-  { code: "mr-IN", label: "Marathi" },
-  { code: "ta-IN", label: "Tamil" },
-  { code: "gu-IN", label: "Gujarati" },
-  { code: "kn-IN", label: "Kannada" },
-  { code: "ml-IN", label: "Malayalam" },
-  { code: "pa-IN", label: "Punjabi" },
-  { code: "ur-IN", label: "Urdu" },
-];
 
 const VoiceRecorderCard = () => {
   const [isRecording, setIsRecording] = useState(false);
   const [transcript, setTranscript] = useState("");
-  const [isListening, setIsListening] = useState(false);
-  const [interimTranscript, setInterimTranscript] = useState("");
   const [language, setLanguage] = useState<SupportedLanguage>("en-IN");
 
   const [isEditing, setIsEditing] = useState(false);
@@ -61,52 +45,106 @@ const VoiceRecorderCard = () => {
   const animationFrameRef = useRef<number>(0);
   const [frequencyData, setFrequencyData] = useState<number[]>([]);
 
-  const recognitionRef = useRef<any>(null);
+  const recordedChunksRef = useRef<Blob[]>([]);
 
   const { mutateAsync: submitTranscript, isPending } = useSubmitTranscript();
+  const { mutateAsync: uploadRecording, isPending: isUploading } =
+    useUploadRecording();
+
+  // Recordings are transcribed on the server; poll the job, then load the transcript
+  const [transcriptionJobId, setTranscriptionJobId] = useState<string | null>(
+    null
+  );
+  const [audioContextId, setAudioContextId] = useState<string | null>(null);
+  const { data: transcriptionJob } = useGetJobStatus(transcriptionJobId);
+  const { data: audioContext } = useGetContext(
+    audioContextId,
+    transcriptionJob?.status === "completed"
+  );
+  // The server already generates questions from this transcript unless it is edited
+  const [serverTranscript, setServerTranscript] = useState<string | null>(
+    null
+  );
+  const isTranscribing =
+    isUploading ||
+    (!!transcriptionJob &&
+      !["completed", "dead"].includes(transcriptionJob.status));
+
+  // Questions are generated in the background; poll the job until it finishes
+  const queryClient = useQueryClient();
+  const [generationJobId, setGenerationJobId] = useState<string | null>(null);
+  const { data: generationJob } = useGetJobStatus(generationJobId);
 
   useEffect(() => {
-    if (typeof window !== "undefined" && "webkitSpeechRecognition" in window) {
-      const recognition = new window.webkitSpeechRecognition();
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = language;
-
-      recognition.onstart = () => {
-        setIsListening(true);
-      };
-
-      recognition.onresult = (event: any) => {
-        let interim = "";
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const result = event.results[i];
-          if (result.isFinal) {
-            setTranscript((prev) => prev + " " + result[0].transcript);
-          } else {
-            interim += result[0].transcript;
-          }
-        }
-        setInterimTranscript(interim);
-      };
-
-      recognition.onend = () => setIsListening(false);
-      recognition.onerror = (event: any) => console.error(event.error);
-
-      recognitionRef.current = recognition;
-    } else {
-      toast.error("Web Speech API is not supported in this browser.");
+    if (!generationJob) return;
+    if (generationJob.status === "completed") {
+      const count = Number(generationJob.result?.questionCount ?? 0);
+      toast.success(`${count} question${count === 1 ? "" : "s"} generated`);
+      queryClient.invalidateQueries({ queryKey: ["questions"] });
+    } else if (generationJob.status === "dead") {
+      toast.error("Question generation failed.");
     }
+  }, [generationJob?.status]);
+
+  useEffect(() => {
+    if (transcriptionJob?.status === "dead") {
+      toast.error(
+        transcriptionJob.lastError
+          ? `Transcription failed: ${transcriptionJob.lastError}`
+          : "Transcription failed."
+      );
+    } else if (transcriptionJob?.status === "completed") {
+      const questionsJobId = transcriptionJob.result?.generateQuestionsJobId;
+      if (typeof questionsJobId === "string") {
+        setGenerationJobId(questionsJobId);
+      } else {
+        toast.error("No speech was recognised in the recording.");
+      }
+    }
+  }, [transcriptionJob?.status]);
+
+  useEffect(() => {
+    if (audioContext?.transcription?.status !== "completed") return;
+    setTranscript(audioContext.text);
+    setServerTranscript(audioContext.text);
+    if (audioContext.language) {
+      setLanguage(audioContext.language as SupportedLanguage);
+    }
+  }, [audioContext?.id, audioContext?.transcription?.status]);
+
+  useEffect(() => {
     return () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [language]);
+  }, []);
+
+  const handleRecordingStop = async () => {
+    const recording = new Blob(recordedChunksRef.current, {
+      type: mediaRecorderRef.current?.mimeType || "audio/webm",
+    });
+    recordedChunksRef.current = [];
+    if (recording.size === 0) {
+      toast.error("Nothing was recorded.");
+      return;
+    }
+
+    try {
+      const result = await uploadRecording({ recording, language });
+      if (result) {
+        setAudioContextId(result.insertedId);
+        setTranscriptionJobId(result.jobId);
+        toast.success("Recording uploaded, transcribing...");
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  };
 
   const handleRecordingToggle = async () => {
     if (isRecording) {
       setIsRecording(false);
-      setIsListening(false);
 
       if (mediaRecorderRef.current) {
         mediaRecorderRef.current.stop();
@@ -115,10 +153,6 @@ const VoiceRecorderCard = () => {
           .forEach((track) => track.stop());
       }
 
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
-
       if (audioContextRef.current) {
         audioContextRef.current.close();
       }
@@ -140,16 +174,20 @@ const VoiceRecorderCard = () => {
 
         updateAudioLevel();
 
+        recordedChunksRef.current = [];
         mediaRecorderRef.current = new MediaRecorder(stream);
+        mediaRecorderRef.current.ondataavailable = (event) => {
+          if (event.data.size > 0) recordedChunksRef.current.push(event.data);
+        };
+        mediaRecorderRef.current.onstop = handleRecordingStop;
         mediaRecorderRef.current.start();
 
-        if (recognitionRef.current) {
-          recognitionRef.current.start();
-        }
-
         setIsRecording(true);
-        setIsListening(true);
-        setInterimTranscript("");
+        setTranscript("");
+        setServerTranscript(null);
+        setTranscriptionJobId(null);
+        setAudioContextId(null);
+        setGenerationJobId(null);
       } catch (error) {
         console.error("Error accessing microphone:", error);
       }
@@ -172,8 +210,8 @@ const VoiceRecorderCard = () => {
 
   const handleClear = () => {
     setTranscript("");
+    setServerTranscript(null);
     setIsRecording(false);
-    setIsListening(false);
   };
 
   const handleEdit = () => {
@@ -198,18 +236,22 @@ const VoiceRecorderCard = () => {
       toast.error("Transcript is empty!");
       return;
     }
+    if (finalText === serverTranscript) {
+      toast("Questions are already being generated from this recording.");
+      return;
+    }
 
     try {
-      await submitTranscript(finalText);
+      const result = await submitTranscript(finalText);
       toast.success("Transcript submitted successfully!");
+      if (result?.jobId) setGenerationJobId(result.jobId);
     } catch (error) {
       console.error(error);
       toast.error("Failed to submit transcript. Try again!");
     }
   };
 
-  const displayTranscript =
-    transcript + (interimTranscript ? " " + interimTranscript : "");
+  const displayTranscript = transcript;
 
   return (
     <div className="min-h-screen bg-gradient-to-br md:p-4 ">
@@ -228,7 +270,7 @@ const VoiceRecorderCard = () => {
                   onValueChange={(value) =>
                     setLanguage(value as SupportedLanguage)
                   }
-                  disabled={isRecording || isListening}
+                  disabled={isRecording || isTranscribing}
                 >
                   <SelectTrigger className="flex items-center w-fit justify-center  md:w-[200px] p-2 ">
                     <Filter className="w-5 h-5 md:hidden mx-auto" />
@@ -251,6 +293,7 @@ const VoiceRecorderCard = () => {
               <div className="flex justify-center">
                 <Button
                   onClick={handleRecordingToggle}
+                  disabled={isTranscribing}
                   size="lg"
                   variant={isRecording ? "destructive" : "default"}
                   className={cn(
@@ -269,7 +312,7 @@ const VoiceRecorderCard = () => {
               <div className="space-y-4">
                 <div className="space-y-2">
                   <div className="flex items-end justify-center gap-1 h-16 rounded-lg p-2">
-                    {isRecording && isListening ? (
+                    {isRecording ? (
                       frequencyData.map((level, index) => (
                         <div
                           key={index}
@@ -282,7 +325,9 @@ const VoiceRecorderCard = () => {
                       ))
                     ) : (
                       <div className="flex justify-center">
-                        <Badge variant="secondary">Ready</Badge>
+                        <Badge variant="secondary">
+                          {isTranscribing ? "Transcribing..." : "Ready"}
+                        </Badge>
                       </div>
                     )}
                   </div>
@@ -291,7 +336,10 @@ const VoiceRecorderCard = () => {
 
               <div className="text-center text-sm text-muted-foreground border-t pt-4">
                 <p className="mb-2">Click the microphone to start recording</p>
-                <p>Speak clearly for best transcription results</p>
+                <p>
+                  Your recording is transcribed when you stop; speak clearly for
+                  best results
+                </p>
               </div>
             </CardContent>
           </Card>
@@ -313,7 +361,7 @@ const VoiceRecorderCard = () => {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <label className="text-sm font-medium text-muted-foreground">
-                  {isEditing ? "Edit Transcript" : "Live Transcript"}
+                  {isEditing ? "Edit Transcript" : "Transcript"}
                 </label>
                 {isEditing ? (
                   <Textarea
@@ -325,7 +373,11 @@ const VoiceRecorderCard = () => {
                 ) : (
                   <Textarea
                     value={displayTranscript}
-                    placeholder="Your speech will appear here..."
+                    placeholder={
+                      isTranscribing
+                        ? "Transcribing your recording..."
+                        : "Your speech will appear here once it is transcribed..."
+                    }
                     className="min-h-40 max-h-40 resize-none overflow-y-auto w-full"
                     disabled={isRecording || !isEditing}
                     readOnly={!isEditing}
@@ -390,6 +442,21 @@ const VoiceRecorderCard = () => {
                 </Button>
               </div>
 
+              {generationJob && (
+                <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                  <span>Question generation:</span>
+                  <Badge
+                    variant={
+                      generationJob.status === "dead" ? "destructive" : "secondary"
+                    }
+                  >
+                    {generationJob.status === "failed"
+                      ? `retrying (attempt ${generationJob.attempts}/${generationJob.maxAttempts})`
+                      : generationJob.status}
+                  </Badge>
+                </div>
+              )}
+
               <div className="text-center text-sm text-muted-foreground border-t pt-4">
                 {isRecording ? (
                   <div className="flex items-center gap-2 text-red-600 font-medium justify-center">
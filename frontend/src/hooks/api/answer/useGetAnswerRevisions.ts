@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { AnswerService } from "../services/answerService";
+
+const answerService = new AnswerService();
+
+export const useGetAnswerRevisions = (answerId: string | null) => {
+  return useQuery({
+    queryKey: ["answer-revisions", answerId],
+    queryFn: () => answerService.getRevisions(answerId!),
+    enabled: !!answerId,
+  });
+};
+
+// Revisions are immutable, so a diff never has to be refetched
+export const useGetRevisionDiff = (
+  answerId: string | null,
+  from: number,
+  to: number
+) => {
+  return useQuery({
+    queryKey: ["answer-revision-diff", answerId, from, to],
+    queryFn: () => answerService.getRevisionDiff(answerId!, from, to),
+    enabled: !!answerId && from >= 1 && to > from,
+    staleTime: Infinity,
+  });
+};
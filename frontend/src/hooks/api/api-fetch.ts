@@ -10,28 +10,36 @@ const getCurrentUser = (): Promise<User | null> => {
   });
 };
 
-export const apiFetch = async <T>(
-  url: string,
-  options: RequestInit = {}
-): Promise<T | null> => {
+// ID token of the signed-in user, or null when nobody is signed in
+export const getAuthToken = async (): Promise<string | null> => {
   const firebaseUser = await getCurrentUser();
   if (!firebaseUser) return null;
 
-  let token: string;
   try {
-    token = await getIdToken(firebaseUser);
+    return await getIdToken(firebaseUser);
   } catch (err) {
     console.error("Failed to get token:", err);
     return null;
   }
+};
+
+export const apiFetch = async <T>(
+  url: string,
+  options: RequestInit = {}
+): Promise<T | null> => {
+  const token = await getAuthToken();
+  if (!token) return null;
 
   // Use full URL if url starts with http, otherwise prepend base URL
   const fullUrl = url.startsWith('http') ? url : `${import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000/api'}${url}`;
 
+  // Multipart bodies need the browser to set Content-Type with its boundary
   const headers = {
     ...(options.headers || {}),
     Authorization: token ? `Bearer ${token}` : "",
-    "Content-Type": "application/json",
+    ...(!(options.body instanceof FormData) && {
+      "Content-Type": "application/json",
+    }),
   };
 
   const res = await fetch(fullUrl, { ...options, headers });
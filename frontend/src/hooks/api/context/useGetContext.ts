@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { ContextService } from "../services/contextService";
+import type { IContextDetail } from "@/types";
+
+const contextService = new ContextService();
+
+export const useGetContext = (contextId: string | null, enabled = true) => {
+  return useQuery<IContextDetail | null, Error>({
+    queryKey: ["context", contextId],
+    queryFn: () => contextService.getContext(contextId!),
+    enabled: !!contextId && enabled,
+  });
+};
@@ -0,0 +1,27 @@
+import { useMutation } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { ContextService } from "../services/contextService";
+
+const contextService = new ContextService();
+
+export const useUploadRecording = () => {
+  return useMutation({
+    mutationFn: async ({
+      recording,
+      language,
+    }: {
+      recording: Blob;
+      language?: string;
+    }) => {
+      try {
+        return await contextService.uploadRecording(recording, language);
+      } catch (error) {
+        throw error instanceof Error ? error : new Error("Unknown error");
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to upload recording! Try again.");
+      console.error("Failed to upload recording:", error.message);
+    },
+  });
+};
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { JobService } from "../services/jobService";
+import type { IJob, JobStatus } from "@/types";
+
+const jobService = new JobService();
+
+// Polling stops once the job can no longer change
+const FINISHED_STATUSES: JobStatus[] = ["completed", "dead"];
+
+export const isJobFinished = (job?: IJob | null) =>
+  !!job && FINISHED_STATUSES.includes(job.status);
+
+export const useGetJobStatus = (jobId: string | null, pollInterval = 2000) => {
+  return useQuery<IJob | null, Error>({
+    queryKey: ["job", jobId],
+    queryFn: () => jobService.getJob(jobId!),
+    enabled: !!jobId,
+    refetchInterval: (query) =>
+      isJobFinished(query.state.data) ? false : pollInterval,
+  });
+};
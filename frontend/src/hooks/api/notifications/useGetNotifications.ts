@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { NotificationService } from "../services/notificationService";
+
+const notificationService = new NotificationService();
+
+// Kept fresh by the notification stream, so it is not refetched on focus
+export const useGetNotifications = (limit = 20) => {
+  return useQuery({
+    queryKey: ["notifications", limit],
+    queryFn: () => notificationService.getNotifications(limit),
+    refetchOnWindowFocus: false,
+  });
+};
@@ -0,0 +1,29 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { NotificationService } from "../services/notificationService";
+import type { INotification } from "@/types";
+
+const notificationService = new NotificationService();
+
+export const useMarkNotificationRead = () => {
+  const queryClient = useQueryClient();
+  return useMutation<INotification | null, Error, string>({
+    mutationFn: (notificationId) => notificationService.markRead(notificationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+};
+
+export const useMarkAllNotificationsRead = () => {
+  const queryClient = useQueryClient();
+  return useMutation<{ marked: number } | null, Error, void>({
+    mutationFn: () => notificationService.markAllRead(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to mark notifications read!");
+    },
+  });
+};
@@ -0,0 +1,77 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { NotificationService } from "../services/notificationService";
+import type { RealtimeEvent } from "@/types";
+
+const notificationService = new NotificationService();
+
+const RECONNECT_DELAY_MS = 5000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+// Query keys each kind of event makes stale
+const QUEUE_QUERY_KEYS: Record<string, string[][]> = {
+  questions: [["questions"], ["question"], ["assistance-questions"]],
+  review_assignments: [["review-assignments"], ["review-stats"]],
+};
+const NOTIFICATION_QUERY_KEYS: Record<string, string[][]> = {
+  review_assigned: QUEUE_QUERY_KEYS.review_assignments,
+  review_deadline_passed: QUEUE_QUERY_KEYS.review_assignments,
+  answer_feedback: [["submissions"]],
+  question_finalized: [["submissions"], ["questions"], ["question"]],
+};
+
+const invalidate = (queryClient: QueryClient, keys: string[][] = []) => {
+  for (const queryKey of keys) queryClient.invalidateQueries({ queryKey });
+};
+
+const handleEvent = (queryClient: QueryClient, event: RealtimeEvent) => {
+  if (event.type === "notification") {
+    invalidate(queryClient, [["notifications"]]);
+    invalidate(queryClient, NOTIFICATION_QUERY_KEYS[event.notification.type]);
+  } else {
+    invalidate(queryClient, QUEUE_QUERY_KEYS[event.queue]);
+  }
+};
+
+/**
+ * Keeps the notification stream open while mounted and refreshes the queries
+ * its events affect. After a dropped connection everything it covers is
+ * refetched, since events may have been missed meanwhile.
+ */
+export const useNotificationStream = (enabled = true) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let delay = RECONNECT_DELAY_MS;
+
+    const connect = async (isReconnect: boolean) => {
+      if (isReconnect) {
+        invalidate(queryClient, [["notifications"]]);
+        Object.values(QUEUE_QUERY_KEYS).forEach((keys) =>
+          invalidate(queryClient, keys)
+        );
+      }
+      try {
+        await notificationService.streamEvents((event) => {
+          delay = RECONNECT_DELAY_MS;
+          handleEvent(queryClient, event);
+        }, controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Notification stream disconnected:", error);
+      }
+      if (controller.signal.aborted) return;
+      retryTimer = setTimeout(() => connect(true), delay);
+      delay = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+    connect(false);
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [enabled, queryClient]);
+};
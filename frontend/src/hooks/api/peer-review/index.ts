@@ -9,7 +9,7 @@ export interface ReviewAssignment {
     assignedAt: string;
     dueDate?: string;
     priority: 'low' | 'medium' | 'high' | 'urgent';
-    status: 'pending' | 'accepted' | 'declined' | 'completed';
+    status: 'pending' | 'accepted' | 'declined' | 'completed' | 'overdue' | 'cancelled';
   };
   review?: {
     _id: string;
@@ -200,3 +200,76 @@ export const useUpdateAssignmentStatus = () => {
     },
   });
 };
+
+export interface BlindReviewSet {
+  assignmentId: string;
+  questionId: string;
+  question: string;
+  status: 'assigned' | 'in_progress' | 'completed';
+  answers: {
+    anonymousId: string;
+    answer: string;
+  }[];
+}
+
+export interface BordaTallyEntry {
+  answerId: string;
+  anonymousId?: string;
+  answer: string;
+  totalBordaPoints: number;
+  averageRank: number;
+  rankCount: number;
+}
+
+export interface BordaTally {
+  questionId: string;
+  winner: BordaTallyEntry | null;
+  rankings: BordaTallyEntry[];
+  totalReviewers: number;
+}
+
+export const useGetBlindReviewSet = (questionId?: string, enabled = true) => {
+  return useQuery({
+    queryKey: ["blind-review", questionId],
+    queryFn: async (): Promise<BlindReviewSet | null> => {
+      return apiFetch<BlindReviewSet>(`/reviews/blind/${questionId}`);
+    },
+    enabled: !!questionId && enabled,
+    retry: false,
+  });
+};
+
+export const useGetBordaTally = (questionId?: string, enabled = true) => {
+  return useQuery({
+    queryKey: ["blind-review-tally", questionId],
+    queryFn: async (): Promise<BordaTally | null> => {
+      return apiFetch<BordaTally>(`/reviews/blind/${questionId}/tally`);
+    },
+    enabled: !!questionId && enabled,
+    retry: false,
+  });
+};
+
+export const useSubmitBlindRanking = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      questionId,
+      rankings,
+    }: {
+      questionId: string;
+      rankings: { anonymousId: string; rank: number }[];
+    }) => {
+      const response = await apiFetch(`/reviews/blind/${questionId}/ranking`, {
+        method: "POST",
+        body: JSON.stringify({ rankings }),
+      });
+      return response;
+    },
+    onSuccess: (_data, { questionId }) => {
+      queryClient.invalidateQueries({ queryKey: ["blind-review", questionId] });
+      queryClient.invalidateQueries({ queryKey: ["blind-review-tally", questionId] });
+    },
+  });
+};
@@ -1,11 +1,12 @@
 import { useInfiniteQuery } from "@tanstack/react-query";
 import { QuestionService } from "../services/questionService";
 import type { QuestionFilter } from "@/components/QA-interface";
+import type { IQuestion } from "@/types";
 
 const questionService = new QuestionService();
 
 // Mock questions for demonstration
-const mockQuestions = [
+const mockQuestions: IQuestion[] = [
   {
     id: "q1",
     text: "What are the key principles of continuous learning in AI systems?",
@@ -77,14 +77,20 @@ const mockQuestionDetails = {
   }
 };
 
-export const useGetQuestionById = (questionId: string | null) => {
+export const useGetQuestionById = (
+  questionId: string | null,
+  language?: string
+) => {
   const { data, isLoading, error } = useQuery<IQuestion | null, Error>({
-    queryKey: ["question", questionId],
+    queryKey: ["question", questionId, language],
     queryFn: async () => {
       if (!questionId) return null;
 
       try {
-        const result = await questionService.getQuestionById(questionId);
+        const result = await questionService.getQuestionById(
+          questionId,
+          language
+        );
         if (result) return result;
       } catch (error) {
         console.log("API failed, using mock data for demonstration");
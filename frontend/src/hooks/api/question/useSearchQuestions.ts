@@ -0,0 +1,15 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { QuestionService } from "../services/questionService";
+import type { IQuestionSearchFilters } from "@/types";
+
+const questionService = new QuestionService();
+
+// Searches only once there is something worth matching
+export const useSearchQuestions = (filters: IQuestionSearchFilters) => {
+  return useQuery({
+    queryKey: ["question-search", filters],
+    queryFn: () => questionService.searchQuestions(filters),
+    placeholderData: keepPreviousData,
+    enabled: filters.q.trim().length >= 2,
+  });
+};
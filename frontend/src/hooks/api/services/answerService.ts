@@ -1,4 +1,9 @@
-import type { ISubmissions, SubmitAnswerResponse } from "@/types";
+import type {
+  IAnswerRevision,
+  IRevisionDiff,
+  ISubmissions,
+  SubmitAnswerResponse,
+} from "@/types";
 import { apiFetch } from "../api-fetch";
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
@@ -29,4 +34,18 @@ export class AnswerService {
       `${this._baseUrl}/submissions?page=${pageParam}&limit=${limit}`
     );
   }
+
+  async getRevisions(answerId: string): Promise<IAnswerRevision[] | null> {
+    return apiFetch<IAnswerRevision[]>(`${this._baseUrl}/${answerId}/revisions`);
+  }
+
+  async getRevisionDiff(
+    answerId: string,
+    from: number,
+    to: number
+  ): Promise<IRevisionDiff | null> {
+    return apiFetch<IRevisionDiff>(
+      `${this._baseUrl}/${answerId}/revisions/diff?from=${from}&to=${to}`
+    );
+  }
 }
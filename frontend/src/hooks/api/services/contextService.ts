@@ -1,3 +1,4 @@
+import type { IContextDetail, SubmitTranscriptResponse } from "@/types";
 import { apiFetch } from "../api-fetch";
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
@@ -5,9 +6,11 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
 export class ContextService {
   private _baseUrl = `${API_BASE_URL}/context`;
 
-  async submitTranscript(transcript: string): Promise<void> {
+  async submitTranscript(
+    transcript: string
+  ): Promise<SubmitTranscriptResponse | null> {
     try {
-      await apiFetch<void>(this._baseUrl, {
+      return await apiFetch<SubmitTranscriptResponse>(this._baseUrl, {
         method: "POST",
         body: JSON.stringify({ transcript }),
       });
@@ -16,4 +19,33 @@ export class ContextService {
       throw error;
     }
   }
+
+  async uploadRecording(
+    recording: Blob,
+    language?: string
+  ): Promise<SubmitTranscriptResponse | null> {
+    const extension = recording.type.includes("ogg") ? "ogg" : "webm";
+    const body = new FormData();
+    body.append("file", recording, `recording.${extension}`);
+    if (language) body.append("language", language);
+
+    try {
+      return await apiFetch<SubmitTranscriptResponse>(`${this._baseUrl}/audio`, {
+        method: "POST",
+        body,
+      });
+    } catch (error) {
+      console.error(`Error in uploadRecording:`, error);
+      throw error;
+    }
+  }
+
+  async getContext(contextId: string): Promise<IContextDetail | null> {
+    try {
+      return await apiFetch<IContextDetail>(`${this._baseUrl}/${contextId}`);
+    } catch (error) {
+      console.error(`Error in getContext(${contextId}):`, error);
+      throw error;
+    }
+  }
 }
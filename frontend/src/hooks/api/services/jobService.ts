@@ -0,0 +1,17 @@
+import type { IJob } from "@/types";
+import { apiFetch } from "../api-fetch";
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+export class JobService {
+  private _baseUrl = `${API_BASE_URL}/jobs`;
+
+  async getJob(jobId: string): Promise<IJob | null> {
+    try {
+      return await apiFetch<IJob>(`${this._baseUrl}/${jobId}`);
+    } catch (error) {
+      console.error(`Error in getJob(${jobId}):`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { INotification, INotificationList, RealtimeEvent } from "@/types";
+import { apiFetch, getAuthToken } from "../api-fetch";
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+export class NotificationService {
+  private _baseUrl = `${API_BASE_URL}/notifications`;
+
+  async getNotifications(limit: number): Promise<INotificationList | null> {
+    return apiFetch<INotificationList>(`${this._baseUrl}?limit=${limit}`);
+  }
+
+  async markRead(notificationId: string): Promise<INotification | null> {
+    try {
+      return await apiFetch<INotification>(
+        `${this._baseUrl}/${notificationId}/read`,
+        { method: "PATCH" }
+      );
+    } catch (error) {
+      console.error(`Error in markRead(${notificationId}):`, error);
+      throw error;
+    }
+  }
+
+  async markAllRead(): Promise<{ marked: number } | null> {
+    try {
+      return await apiFetch<{ marked: number }>(`${this._baseUrl}/read-all`, {
+        method: "POST",
+      });
+    } catch (error) {
+      console.error("Error in markAllRead:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the Server-Sent Events stream until it ends or `signal` aborts.
+   * EventSource cannot send the Authorization header, so the stream is read
+   * with fetch instead.
+   */
+  async streamEvents(
+    onEvent: (event: RealtimeEvent) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    const token = await getAuthToken();
+    if (!token) throw new Error("Not signed in");
+
+    const res = await fetch(`${this._baseUrl}/stream`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal,
+    });
+    if (!res.ok || !res.body) {
+      throw new Error(`Notification stream failed with status ${res.status}`);
+    }
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+
+      // Events end with a blank line; lines starting with ":" are keep-alives
+      const frames = buffer.split("\n\n");
+      buffer = frames.pop() ?? "";
+      for (const frame of frames) {
+        const data = frame
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trim())
+          .join("\n");
+        if (data) onEvent(JSON.parse(data) as RealtimeEvent);
+      }
+    }
+  }
+}
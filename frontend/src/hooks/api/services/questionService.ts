@@ -1,4 +1,8 @@
-import type { IQuestion } from "@/types";
+import type {
+  IQuestion,
+  IQuestionSearchFilters,
+  IQuestionSearchResult,
+} from "@/types";
 import { apiFetch } from "../api-fetch";
 import type { QuestionFilter } from "@/components/QA-interface";
 
@@ -17,7 +21,27 @@ export class QuestionService {
     );
   }
 
-  async getQuestionById(id: string): Promise<IQuestion | null> {
-    return apiFetch<IQuestion | null>(`${this._baseUrl}/${id}`);
+  async searchQuestions(
+    filters: IQuestionSearchFilters
+  ): Promise<IQuestionSearchResult | null> {
+    const params = new URLSearchParams({
+      q: filters.q,
+      page: String(filters.page),
+      limit: String(filters.limit),
+    });
+    if (filters.status) params.set("status", filters.status);
+
+    return apiFetch<IQuestionSearchResult>(
+      `${this._baseUrl}/search?${params.toString()}`
+    );
+  }
+
+  // With a language, texts written in another language come back translated
+  async getQuestionById(
+    id: string,
+    language?: string
+  ): Promise<IQuestion | null> {
+    const query = language ? `?language=${encodeURIComponent(language)}` : "";
+    return apiFetch<IQuestion | null>(`${this._baseUrl}/${id}${query}`);
   }
 }
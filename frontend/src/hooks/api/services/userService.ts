@@ -0,0 +1,91 @@
+import type {
+  INotificationPreferences,
+  IUserActivity,
+  IUserFilters,
+  IUserList,
+  IUserSummary,
+  UserRole,
+} from "@/types";
+import { apiFetch } from "../api-fetch";
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+export class UserService {
+  private _baseUrl = `${API_BASE_URL}/users`;
+
+  async getCurrentUser(): Promise<IUserSummary | null> {
+    return apiFetch<IUserSummary>(`${this._baseUrl}/me`);
+  }
+
+  async getNotificationPreferences(): Promise<INotificationPreferences | null> {
+    return apiFetch<INotificationPreferences>(
+      `${this._baseUrl}/me/notification-preferences`
+    );
+  }
+
+  async updateNotificationPreferences(
+    email: Partial<INotificationPreferences["email"]>
+  ): Promise<INotificationPreferences | null> {
+    try {
+      return await apiFetch<INotificationPreferences>(
+        `${this._baseUrl}/me/notification-preferences`,
+        {
+          method: "PUT",
+          body: JSON.stringify({ email }),
+        }
+      );
+    } catch (error) {
+      console.error("Error in updateNotificationPreferences:", error);
+      throw error;
+    }
+  }
+
+  async getUsers(filters: IUserFilters): Promise<IUserList | null> {
+    const params = new URLSearchParams({
+      page: String(filters.page),
+      limit: String(filters.limit),
+    });
+    if (filters.search) params.set("search", filters.search);
+    if (filters.role) params.set("role", filters.role);
+    if (filters.status) params.set("status", filters.status);
+
+    return apiFetch<IUserList>(`${this._baseUrl}?${params.toString()}`);
+  }
+
+  async updateRole(
+    userId: string,
+    role: UserRole
+  ): Promise<IUserSummary | null> {
+    try {
+      return await apiFetch<IUserSummary>(`${this._baseUrl}/${userId}/role`, {
+        method: "PATCH",
+        body: JSON.stringify({ role }),
+      });
+    } catch (error) {
+      console.error(`Error in updateRole(${userId}):`, error);
+      throw error;
+    }
+  }
+
+  async updateStatus(
+    userId: string,
+    isActive: boolean
+  ): Promise<IUserSummary | null> {
+    try {
+      return await apiFetch<IUserSummary>(
+        `${this._baseUrl}/${userId}/status`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ isActive }),
+        }
+      );
+    } catch (error) {
+      console.error(`Error in updateStatus(${userId}):`, error);
+      throw error;
+    }
+  }
+
+  async getActivity(userId: string): Promise<IUserActivity | null> {
+    return apiFetch<IUserActivity>(`${this._baseUrl}/${userId}/activity`);
+  }
+}
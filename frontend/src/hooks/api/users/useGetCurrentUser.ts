@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { UserService } from "../services/userService";
+
+const userService = new UserService();
+
+// The role only changes when an admin edits it, so it is cached for the session
+export const useGetCurrentUser = () => {
+  return useQuery({
+    queryKey: ["current-user"],
+    queryFn: () => userService.getCurrentUser(),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useGetNotificationPreferences = (enabled = true) => {
+  return useQuery({
+    queryKey: ["notification-preferences"],
+    queryFn: () => userService.getNotificationPreferences(),
+    enabled,
+  });
+};
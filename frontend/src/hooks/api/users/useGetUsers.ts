@@ -0,0 +1,22 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { UserService } from "../services/userService";
+import type { IUserFilters } from "@/types";
+
+const userService = new UserService();
+
+export const useGetUsers = (filters: IUserFilters, enabled = true) => {
+  return useQuery({
+    queryKey: ["users", filters],
+    queryFn: () => userService.getUsers(filters),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+};
+
+export const useGetUserActivity = (userId: string | null) => {
+  return useQuery({
+    queryKey: ["user-activity", userId],
+    queryFn: () => userService.getActivity(userId!),
+    enabled: !!userId,
+  });
+};
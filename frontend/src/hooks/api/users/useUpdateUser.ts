@@ -0,0 +1,65 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { UserService } from "../services/userService";
+import type {
+  INotificationPreferences,
+  IUserSummary,
+  UserRole,
+} from "@/types";
+
+const userService = new UserService();
+
+export const useUpdateUserRole = () => {
+  const queryClient = useQueryClient();
+  return useMutation<
+    IUserSummary | null,
+    Error,
+    { userId: string; role: UserRole }
+  >({
+    mutationFn: ({ userId, role }) => userService.updateRole(userId, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to change role! Try again.");
+    },
+  });
+};
+
+export const useUpdateUserStatus = () => {
+  const queryClient = useQueryClient();
+  return useMutation<
+    IUserSummary | null,
+    Error,
+    { userId: string; isActive: boolean }
+  >({
+    mutationFn: ({ userId, isActive }) =>
+      userService.updateStatus(userId, isActive),
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      queryClient.invalidateQueries({ queryKey: ["user-activity", userId] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update account! Try again.");
+    },
+  });
+};
+
+export const useUpdateNotificationPreferences = () => {
+  const queryClient = useQueryClient();
+  return useMutation<
+    INotificationPreferences | null,
+    Error,
+    Partial<INotificationPreferences["email"]>
+  >({
+    mutationFn: (email) => userService.updateNotificationPreferences(email),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(["notification-preferences"], preferences);
+    },
+    onError: (error) => {
+      toast.error(
+        error.message || "Failed to save notification settings! Try again."
+      );
+    },
+  });
+};
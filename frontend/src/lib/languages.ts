@@ -0,0 +1,21 @@
+import type { SupportedLanguage } from "@/types";
+
+export const supportedLanguages: { code: SupportedLanguage; label: string }[] = [
+  { code: "en-IN", label: "English (India)" },
+  { code: "en-US", label: "English (US)" },
+  { code: "hi-IN", label: "Hindi" },
+  { code: "bn-IN", label: "Bengali" },
+  { code: "te-IN", label: "Telugu" },
+  { code: "mr-IN", label: "Marathi" },
+  { code: "ta-IN", label: "Tamil" },
+  { code: "gu-IN", label: "Gujarati" },
+  { code: "kn-IN", label: "Kannada" },
+  { code: "ml-IN", label: "Malayalam" },
+  { code: "pa-IN", label: "Punjabi" },
+  { code: "ur-IN", label: "Urdu" },
+];
+
+export const getLanguageLabel = (code?: string) =>
+  supportedLanguages.find((language) => language.code === code)?.label ??
+  code ??
+  "Unknown";
@@ -1,7 +1,13 @@
 import type { UserCredential } from "firebase/auth";
 
 export type UserRole = "admin" | "user" | "expert";
-export type QuestionStatus = "open" | "answered" | "closed";
+export type QuestionStatus =
+  | "draft"
+  | "open"
+  | "under_review"
+  | "answered"
+  | "closed"
+  | "rejected";
 
 export interface ExtendedUserCredential extends UserCredential {
   _tokenResponse?: {
@@ -29,9 +35,18 @@ export interface IUser {
   updatedAt?: Date;
 }
 
+export interface IQuestionTags {
+  topics: string[];
+  crops: string[];
+  regions: string[];
+}
+
 export interface IQuestion {
   id: string;
   text: string;
+  language?: string;
+  originalText?: string; // Set when `text` is a translation
+  originalLanguage?: string;
   createdAt: string;
   updatedAt: string;
   totalAnwersCount: number;
@@ -39,8 +54,45 @@ export interface IQuestion {
     answer: string;
     id: string;
     isFinalAnswer: boolean;
+    language?: string;
+    originalAnswer?: string; // Set when `answer` is a translation
+    originalLanguage?: string;
     createdAt: string;
   }[];
+  tags?: IQuestionTags;
+}
+
+export interface ISearchSnippet {
+  text: string;
+  matches: { start: number; end: number }[];
+}
+
+export interface IQuestionSearchHit {
+  id: string;
+  text: string;
+  status: QuestionStatus;
+  totalAnwersCount: number;
+  contextId?: string;
+  createdAt?: string;
+  score: number;
+  highlights: {
+    question?: ISearchSnippet;
+    finalAnswer?: ISearchSnippet;
+  };
+}
+
+export interface IQuestionSearchResult {
+  questions: IQuestionSearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface IQuestionSearchFilters {
+  q: string;
+  status?: IQuestionSearchHit["status"];
+  page: number;
+  limit: number;
 }
 
 export interface ISubmissions {
@@ -49,14 +101,32 @@ export interface ISubmissions {
   createdAt: string;
   updatedAt: string;
   totalAnwersCount: number;
-  reponse: {
+  response: {
     answer: string;
     id: string;
     isFinalAnswer: boolean;
+    answerIteration: number;
     createdAt: string;
   };
 }
 
+export interface IAnswerRevision {
+  id: string;
+  iteration: number;
+  answer: string;
+  authorId: string;
+  reviewId?: string;
+  createdAt: string;
+}
+
+export interface IRevisionDiff {
+  from: number;
+  to: number;
+  changes: { type: "equal" | "added" | "removed"; text: string }[];
+  addedWords: number;
+  removedWords: number;
+}
+
 export type Role = "expert" | "user" | "admin" | null;
 
 export interface AuthContextType {
@@ -93,8 +163,137 @@ export interface IContext {
 export interface SubmitAnswerResponse {
   insertedId: string;
   isFinalAnswer: boolean;
+  jobId: string;
+}
+
+export interface SubmitTranscriptResponse {
+  insertedId: string;
+  jobId: string;
+}
+
+export interface IContextDetail {
+  id: string;
+  text: string; // Empty until an uploaded recording has been transcribed
+  language?: string;
+  hasAudio: boolean;
+  transcription?: {
+    status: "pending" | "completed" | "failed";
+    transcriber?: string;
+    error?: string;
+    completedAt?: string;
+  };
+  createdAt?: string;
 }
 
+export type JobStatus = "pending" | "running" | "completed" | "failed" | "dead";
+
+export interface IJob {
+  _id: string;
+  type:
+    | "generate_questions"
+    | "assign_reviewers"
+    | "score_similarity"
+    | "transcribe_audio"
+    | "send_notification";
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  result?: Record<string, unknown>;
+  runAt: string;
+  createdAt?: string;
+  updatedAt?: string;
+  completedAt?: string;
+}
+
+export interface IUserSummary {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName?: string;
+  role: UserRole;
+  isActive: boolean;
+  deactivatedAt?: string;
+  createdAt?: string;
+}
+
+export interface IUserList {
+  users: IUserSummary[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface IUserFilters {
+  search?: string;
+  role?: UserRole;
+  status?: "active" | "deactivated";
+  page: number;
+  limit: number;
+}
+
+export interface IUserActivity {
+  user: IUserSummary;
+  answers: {
+    total: number;
+    recent: {
+      id: string;
+      questionId: string;
+      answer: string;
+      isFinalAnswer: boolean;
+      createdAt?: string;
+    }[];
+  };
+  reviews: {
+    total: number;
+    submitted: number;
+    pending: number;
+    averageScoreGiven: number | null;
+  };
+  pendingAssignments: {
+    id: string;
+    answerId: string;
+    status: string;
+    priority: string;
+    assignedAt: string;
+    dueDate?: string;
+  }[];
+}
+
+export type NotificationType =
+  | "review_assigned"
+  | "review_deadline_approaching"
+  | "review_deadline_passed"
+  | "answer_feedback"
+  | "question_finalized";
+
+export interface INotificationPreferences {
+  email: Record<NotificationType, boolean>;
+}
+
+export interface INotification {
+  id: string;
+  type: NotificationType;
+  entityId: string;
+  title: string;
+  message: string;
+  read: boolean;
+  createdAt?: string;
+}
+
+export interface INotificationList {
+  notifications: INotification[];
+  total: number;
+  unread: number;
+  page: number;
+  limit: number;
+}
+
+// Pushed on the notification stream; queue changes mean a list should be fetched again
+export type RealtimeEvent =
+  | { type: "notification"; notification: INotification }
+  | { type: "queue_changed"; queue: "questions" | "review_assignments" };
+
 export type SupportedLanguage =
   | "en-IN"
   | "en-US"